@@ -1,40 +1,51 @@
-import NextAuth from 'next-auth';
+import NextAuth, { CredentialsSignin } from 'next-auth';
 import Credentials from 'next-auth/providers/credentials';
 import Discord from 'next-auth/providers/discord';
 import bcrypt from 'bcryptjs';
 import { db } from '@/db';
 import { users, siteSettings } from '@/db/schema';
 import { eq } from 'drizzle-orm';
+import { verifyTwoFactor } from '@/lib/two-factor';
+import { getActiveBan } from '@/lib/sanctions';
+import { checkRateLimit } from '@/lib/rate-limit';
+
+// Two-factor sign-in errors. The `code` is passed back to the login form
+// so it can prompt for an authenticator code instead of a generic failure.
+class TwoFactorRequiredError extends CredentialsSignin {
+  code = 'two_factor_required';
+}
 
-// Rate limiting map for login attempts
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-
-function checkRateLimit(key: string, maxRequests: number, windowMs: number) {
-  const now = Date.now();
-  const record = rateLimitMap.get(key);
-
-  if (!record || now > record.resetTime) {
-    rateLimitMap.set(key, { count: 1, resetTime: now + windowMs });
-    return { allowed: true };
-  }
+class InvalidTwoFactorCodeError extends CredentialsSignin {
+  code = 'invalid_two_factor_code';
+}
 
-  if (record.count >= maxRequests) {
-    return { allowed: false, resetTime: record.resetTime };
+// Banned accounts get their appeal token back so the login form can send
+// them to the ban notice page
+class AccountBannedError extends CredentialsSignin {
+  constructor(appealToken: string | null) {
+    super();
+    this.code = appealToken ? `account_banned:${appealToken}` : 'account_banned';
   }
-
-  record.count++;
-  return { allowed: true };
 }
 
-// Clean up old rate limit entries periodically
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, record] of rateLimitMap.entries()) {
-    if (now > record.resetTime) {
-      rateLimitMap.delete(key);
-    }
-  }
-}, 60000); // Clean every minute
+// How often signed-in sessions are re-checked for a ban
+const BAN_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Count a wrong password or authenticator code, locking the account for 30
+ * minutes after 5 failed attempts
+ */
+async function recordFailedLogin(user: { id: number; failedLoginAttempts: number | null }) {
+  await db
+    .update(users)
+    .set({
+      failedLoginAttempts: (user.failedLoginAttempts || 0) + 1,
+      lockedUntil: (user.failedLoginAttempts || 0) >= 4
+        ? new Date(Date.now() + 30 * 60 * 1000)
+        : null,
+    })
+    .where(eq(users.id, user.id));
+}
 
 export const { handlers, signIn, signOut, auth } = NextAuth({
   trustHost: true,
@@ -54,6 +65,7 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
       credentials: {
         username: { label: 'Username', type: 'text' },
         password: { label: 'Password', type: 'password' },
+        totpCode: { label: 'Authentication Code', type: 'text' },
       },
       async authorize(credentials, request) {
         if (!credentials?.username || !credentials?.password) {
@@ -63,7 +75,7 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
         // Rate limiting for login attempts - very generous for mod servers and high traffic
         const ip = request?.headers?.get('x-forwarded-for') ||
           request?.headers?.get('x-real-ip') || 'unknown';
-        const rateLimit = checkRateLimit(`login:${ip}`, 500, 15 * 60 * 1000);
+        const rateLimit = await checkRateLimit('login', ip);
 
         if (!rateLimit.allowed) {
           throw new Error('Too many login attempts. Please try again later.');
@@ -91,19 +103,31 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
           );
 
           if (!isValidPassword) {
-            // Increment failed login attempts
-            await db
-              .update(users)
-              .set({
-                failedLoginAttempts: (user.failedLoginAttempts || 0) + 1,
-                lockedUntil: (user.failedLoginAttempts || 0) >= 4
-                  ? new Date(Date.now() + 30 * 60 * 1000) // Lock for 30 minutes after 5 failed attempts
-                  : null,
-              })
-              .where(eq(users.id, user.id));
+            await recordFailedLogin(user);
             return null;
           }
 
+          // Require a second factor for accounts with 2FA enabled
+          if (user.twoFactorEnabled && user.twoFactorSecret) {
+            const totpCode = credentials.totpCode as string | undefined;
+            if (!totpCode) {
+              throw new TwoFactorRequiredError();
+            }
+
+            const { valid } = await verifyTwoFactor(user, totpCode);
+            if (!valid) {
+              // Wrong codes count towards the same lockout as wrong passwords
+              await recordFailedLogin(user);
+              throw new InvalidTwoFactorCodeError();
+            }
+          }
+
+          // Only reveal a ban once the user has proven who they are
+          const ban = await getActiveBan(user.id);
+          if (ban) {
+            throw new AccountBannedError(ban.appealToken);
+          }
+
           // Reset failed login attempts on successful login
           await db
             .update(users)
@@ -133,6 +157,9 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
             discordAvatar: user.discordAvatar || undefined,
           };
         } catch (error) {
+          if (error instanceof CredentialsSignin) {
+            throw error;
+          }
           console.error('Authentication error:', error);
           throw error;
         }
@@ -144,12 +171,23 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
       name: 'Discord ID',
       credentials: {
         discordId: { label: 'Discord ID', type: 'text' },
+        totpCode: { label: 'Authentication Code', type: 'text' },
       },
-      async authorize(credentials) {
+      async authorize(credentials, request) {
         if (!credentials?.discordId) {
           return null;
         }
 
+        // Discord IDs are public, so the second factor needs the same
+        // rate limit and lockout as a password
+        const ip = request?.headers?.get('x-forwarded-for') ||
+          request?.headers?.get('x-real-ip') || 'unknown';
+        const rateLimit = await checkRateLimit('login', ip);
+
+        if (!rateLimit.allowed) {
+          throw new Error('Too many login attempts. Please try again later.');
+        }
+
         try {
           // Find user by Discord ID
           const user = await db.query.users.findFirst({
@@ -163,11 +201,37 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
 
           console.log('[Discord ID Auth] Found user:', { userId: user.id, username: user.username });
 
-          // Update last login
+          if (user.lockedUntil && new Date(user.lockedUntil) > new Date()) {
+            throw new Error('Account is temporarily locked. Please try again later.');
+          }
+
+          // Discord login still needs the second factor for 2FA-enabled accounts
+          if (user.twoFactorEnabled && user.twoFactorSecret) {
+            const totpCode = credentials.totpCode as string | undefined;
+            if (!totpCode) {
+              throw new TwoFactorRequiredError();
+            }
+
+            const { valid } = await verifyTwoFactor(user, totpCode);
+            if (!valid) {
+              await recordFailedLogin(user);
+              throw new InvalidTwoFactorCodeError();
+            }
+          }
+
+          const ban = await getActiveBan(user.id);
+          if (ban) {
+            throw new AccountBannedError(ban.appealToken);
+          }
+
+          // Update last login and clear failed attempts
           await db
             .update(users)
             .set({
+              failedLoginAttempts: 0,
+              lockedUntil: null,
               lastLoginAt: new Date(),
+              lastLoginIp: ip,
             })
             .where(eq(users.id, user.id));
 
@@ -189,6 +253,9 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
             discordAvatar: user.discordAvatar || undefined,
           };
         } catch (error) {
+          if (error instanceof CredentialsSignin) {
+            throw error;
+          }
           console.error('[Discord ID Auth] Error:', error);
           return null;
         }
@@ -242,6 +309,11 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
           }
 
           if (existingUser) {
+            const ban = await getActiveBan(existingUser.id);
+            if (ban) {
+              return ban.appealToken ? `/banned?token=${ban.appealToken}` : '/banned';
+            }
+
             // Update existing user with Discord info
             await db
               .update(users)
@@ -327,6 +399,16 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
         (token as any).discordId = (user as any).discordId;
         (token as any).discordUsername = (user as any).discordUsername;
         (token as any).discordAvatar = (user as any).discordAvatar;
+        (token as any).banCheckedAt = Date.now();
+      }
+
+      // End sessions of users banned after they signed in
+      if (token.id && Date.now() - ((token as any).banCheckedAt || 0) > BAN_CHECK_INTERVAL_MS) {
+        const ban = await getActiveBan(parseInt(token.id as string));
+        if (ban) {
+          return null;
+        }
+        (token as any).banCheckedAt = Date.now();
       }
 
       // When session.update() is called from the client (e.g. in /settings),
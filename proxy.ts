@@ -16,6 +16,7 @@ const protectedRoutes = [
     '/profile',
     '/forum/new',
     '/events',
+    '/groups',
     '/helpdesk',
 ];
 
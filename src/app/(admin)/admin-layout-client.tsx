@@ -6,7 +6,7 @@ import { usePathname } from 'next/navigation';
 import {
     LayoutDashboard, Users, Server,
     Heart, Settings, Shield, BarChart3, Bell, Key, Calendar, Crown, MessageSquare, Activity, Gamepad2, Menu, X,
-    ChevronDown, LifeBuoy
+    ChevronDown, LifeBuoy, Trophy, ScrollText, Tag, Target, Gauge, UserCog
 } from 'lucide-react';
 
 interface NavGroup {
@@ -29,6 +29,7 @@ const adminNavGroups: NavGroup[] = [
             { href: '/admin/users', icon: Users, label: 'Users' },
             { href: '/admin/forum', icon: MessageSquare, label: 'Forum' },
             { href: '/admin/moderation', icon: Shield, label: 'Moderation' },
+            { href: '/admin/achievements', icon: Trophy, label: 'Achievements' },
         ],
     },
     {
@@ -43,6 +44,8 @@ const adminNavGroups: NavGroup[] = [
         items: [
             { href: '/admin/donations', icon: Heart, label: 'Donations' },
             { href: '/admin/donor-ranks', icon: Crown, label: 'Donor Ranks' },
+            { href: '/admin/promotions', icon: Tag, label: 'Promotions' },
+            { href: '/admin/donation-goals', icon: Target, label: 'Donation Goals' },
         ],
     },
     {
@@ -55,6 +58,7 @@ const adminNavGroups: NavGroup[] = [
         label: 'System',
         items: [
             { href: '/admin/api-keys', icon: Key, label: 'API Keys' },
+            { href: '/admin/rate-limits', icon: Gauge, label: 'Rate Limits' },
             { href: '/admin/settings', icon: Settings, label: 'Settings' },
         ],
     },
@@ -63,6 +67,8 @@ const adminNavGroups: NavGroup[] = [
 const superadminNav = [
     { href: '/panel', icon: Gamepad2, label: 'Server Panel' },
     { href: '/admin/pterodactyl', icon: Settings, label: 'Pterodactyl Settings' },
+    { href: '/admin/server-access', icon: UserCog, label: 'Server Access' },
+    { href: '/admin/audit-log', icon: ScrollText, label: 'Audit Log' },
 ];
 
 interface AdminLayoutClientProps {
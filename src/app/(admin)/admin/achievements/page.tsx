@@ -0,0 +1,454 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Trophy, Plus, Edit, Trash2, Loader2, Save, X, EyeOff, RefreshCw, Star
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ToggleCard } from '@/components/ui/toggle-switch';
+import {
+  ACHIEVEMENT_CATEGORIES, ACHIEVEMENT_METRICS, AchievementCategory, AchievementMetric,
+  describeRequirement, parseRequirement,
+} from '@/lib/achievement-rules';
+
+interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  icon: string | null;
+  category: AchievementCategory;
+  xpReward: number;
+  requirement: string;
+  hidden: boolean;
+  unlockedCount: number;
+}
+
+interface AchievementForm {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  category: AchievementCategory;
+  xpReward: number;
+  hidden: boolean;
+  metric: AchievementMetric;
+  target: number;
+}
+
+const defaultForm: AchievementForm = {
+  id: '',
+  name: '',
+  description: '',
+  icon: '🏆',
+  category: 'forum',
+  xpReward: 50,
+  hidden: false,
+  metric: 'forum_posts',
+  target: 1,
+};
+
+const CATEGORY_BADGES: Record<AchievementCategory, 'neon' | 'neon-pink' | 'neon-purple' | 'secondary'> = {
+  social: 'neon-pink',
+  forum: 'neon',
+  leveling: 'neon-purple',
+  special: 'secondary',
+};
+
+export default function AdminAchievementsPage() {
+  const [achievements, setAchievements] = useState<Achievement[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [formData, setFormData] = useState<AchievementForm>(defaultForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => {
+    fetchAchievements();
+  }, []);
+
+  const fetchAchievements = async () => {
+    try {
+      const res = await fetch('/api/admin/achievements');
+      if (res.ok) {
+        setAchievements(await res.json());
+      }
+    } catch (error: any) {
+      console.error('Failed to fetch achievements:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingId(null);
+    setFormData(defaultForm);
+  };
+
+  const openEditModal = (achievement: Achievement) => {
+    const rule = parseRequirement(achievement.requirement);
+    setEditingId(achievement.id);
+    setFormData({
+      id: achievement.id,
+      name: achievement.name,
+      description: achievement.description,
+      icon: achievement.icon || '',
+      category: achievement.category,
+      xpReward: achievement.xpReward,
+      hidden: achievement.hidden,
+      metric: rule?.metric || 'level',
+      target: rule?.target || 1,
+    });
+    setShowModal(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(
+        editingId ? `/api/admin/achievements/${editingId}` : '/api/admin/achievements',
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(formData),
+        }
+      );
+      const data = await res.json();
+
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to save achievement');
+        return;
+      }
+
+      toast.success(editingId ? 'Achievement updated' : 'Achievement created');
+      await fetchAchievements();
+      closeModal();
+    } catch (error: any) {
+      console.error('Failed to save achievement:', error);
+      toast.error('Failed to save achievement');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this achievement? Everyone who unlocked it will lose it.')) return;
+
+    try {
+      const res = await fetch(`/api/admin/achievements/${id}`, { method: 'DELETE' });
+      if (res.ok) {
+        toast.success('Achievement deleted');
+        await fetchAchievements();
+      } else {
+        const data = await res.json();
+        toast.error(data.error || 'Failed to delete achievement');
+      }
+    } catch (error: any) {
+      console.error('Failed to delete achievement:', error);
+    }
+  };
+
+  const handleSync = async () => {
+    if (!confirm('Recalculate achievement progress for every user? This may take a while on large sites.')) return;
+
+    setIsSyncing(true);
+    try {
+      const res = await fetch('/api/admin/achievements/sync', { method: 'POST' });
+      const data = await res.json();
+      if (res.ok) {
+        toast.success(`Checked ${data.users} users, ${data.unlocked} achievements unlocked`);
+        await fetchAchievements();
+      } else {
+        toast.error(data.error || 'Failed to sync progress');
+      }
+    } catch (error: any) {
+      console.error('Failed to sync achievements:', error);
+      toast.error('Failed to sync progress');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const generateId = (name: string) => {
+    return name.toLowerCase().replace(/[^a-z0-9]/g, '_').replace(/_+/g, '_').replace(/^_|_$/g, '');
+  };
+
+  const totalUnlocks = achievements.reduce((sum, a) => sum + Number(a.unlockedCount || 0), 0);
+
+  return (
+    <div className="space-y-6 min-w-0">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold gradient-text mb-2">Achievements</h1>
+          <p className="text-muted-foreground">
+            Define goals players unlock through forum, social, game and donation activity
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleSync} disabled={isSyncing}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
+            Sync Progress
+          </Button>
+          <Button variant="gradient" onClick={() => setShowModal(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create Achievement
+          </Button>
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card variant="glass">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-neon-cyan/20">
+                <Trophy className="w-5 h-5 text-neon-cyan" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{achievements.length}</p>
+                <p className="text-sm text-muted-foreground">Achievements</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card variant="glass">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-success/20">
+                <Star className="w-5 h-5 text-success" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{totalUnlocks}</p>
+                <p className="text-sm text-muted-foreground">Total Unlocks</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card variant="glass">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-neon-purple/20">
+                <EyeOff className="w-5 h-5 text-neon-purple" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{achievements.filter((a) => a.hidden).length}</p>
+                <p className="text-sm text-muted-foreground">Hidden</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Achievements List */}
+      <Card variant="glass">
+        <CardHeader>
+          <CardTitle>All Achievements</CardTitle>
+          <CardDescription>Progress is tracked automatically as players take part</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-neon-cyan" />
+            </div>
+          ) : achievements.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Trophy className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No achievements configured</p>
+              <Button variant="neon" className="mt-4" onClick={() => setShowModal(true)}>
+                Create First Achievement
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {achievements.map((achievement) => {
+                const rule = parseRequirement(achievement.requirement);
+                return (
+                  <div
+                    key={achievement.id}
+                    className="flex items-center gap-4 p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors"
+                  >
+                    <div className="w-10 h-10 rounded-lg bg-neon-cyan/10 border border-neon-cyan/30 flex items-center justify-center text-xl">
+                      {achievement.icon || '🏆'}
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-semibold">{achievement.name}</span>
+                        <Badge variant={CATEGORY_BADGES[achievement.category]} className="text-xs capitalize">
+                          {achievement.category}
+                        </Badge>
+                        {achievement.hidden && (
+                          <Badge variant="secondary" className="text-xs">
+                            <EyeOff className="w-3 h-3 mr-1" /> Hidden
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="text-sm text-muted-foreground truncate">
+                        {rule ? describeRequirement(rule) : `Unrecognised requirement: ${achievement.requirement}`}
+                        {' • '}{achievement.xpReward} XP
+                        {' • '}{achievement.unlockedCount} unlocked
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <Button variant="ghost" size="icon" onClick={() => openEditModal(achievement)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(achievement.id)}
+                        className="text-error hover:text-error"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create/Edit Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <Card variant="glass" className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                {editingId ? 'Edit Achievement' : 'Create Achievement'}
+                <Button variant="ghost" size="icon" onClick={closeModal}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Name *</label>
+                  <Input
+                    value={formData.name}
+                    onChange={(e) => {
+                      setFormData({
+                        ...formData,
+                        name: e.target.value,
+                        id: editingId ? formData.id : generateId(e.target.value),
+                      });
+                    }}
+                    placeholder="e.g., First Post"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">ID *</label>
+                  <Input
+                    value={formData.id}
+                    onChange={(e) => setFormData({ ...formData, id: e.target.value })}
+                    placeholder="first_post"
+                    disabled={!!editingId}
+                  />
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <label className="text-sm font-medium">Description *</label>
+                  <Input
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    placeholder="Create your first forum post"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Icon (emoji)</label>
+                  <Input
+                    value={formData.icon}
+                    onChange={(e) => setFormData({ ...formData, icon: e.target.value })}
+                    placeholder="🏆"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Category</label>
+                  <select
+                    value={formData.category}
+                    onChange={(e) => setFormData({ ...formData, category: e.target.value as AchievementCategory })}
+                    className="w-full h-10 px-3 rounded-lg bg-secondary/50 border border-border focus:outline-none focus:ring-2 focus:ring-neon-cyan capitalize"
+                  >
+                    {ACHIEVEMENT_CATEGORIES.map((category) => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Goal *</label>
+                  <select
+                    value={formData.metric}
+                    onChange={(e) => {
+                      const metric = e.target.value as AchievementMetric;
+                      setFormData({ ...formData, metric, category: ACHIEVEMENT_METRICS[metric].category });
+                    }}
+                    className="w-full h-10 px-3 rounded-lg bg-secondary/50 border border-border focus:outline-none focus:ring-2 focus:ring-neon-cyan"
+                  >
+                    {(Object.keys(ACHIEVEMENT_METRICS) as AchievementMetric[]).map((metric) => (
+                      <option key={metric} value={metric}>{ACHIEVEMENT_METRICS[metric].label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Target ({ACHIEVEMENT_METRICS[formData.metric].unit}) *</label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={formData.target}
+                    onChange={(e) => setFormData({ ...formData, target: parseInt(e.target.value) || 1 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">XP Reward</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={formData.xpReward}
+                    onChange={(e) => setFormData({ ...formData, xpReward: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+
+              <ToggleCard
+                checked={formData.hidden}
+                onChange={(val) => setFormData({ ...formData, hidden: val })}
+                label="Hidden"
+                description="Keep this achievement secret until someone unlocks it"
+              />
+
+              <div className="flex justify-end gap-3 pt-4">
+                <Button variant="ghost" onClick={closeModal}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="gradient"
+                  onClick={handleSave}
+                  disabled={isSaving || !formData.name || !formData.id || !formData.description}
+                >
+                  {isSaving ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <Save className="w-4 h-4 mr-2" />
+                      {editingId ? 'Update Achievement' : 'Create Achievement'}
+                    </>
+                  )}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
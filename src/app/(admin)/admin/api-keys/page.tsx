@@ -3,21 +3,70 @@
 import { useState, useEffect } from 'react';
 import {
   Key, Plus, Copy, Trash2, RefreshCw,
-  Eye, EyeOff, Check, Shield, Server, Clock
+  Eye, EyeOff, Check, Shield, Server, Clock, Edit, Activity, X
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { formatDate } from '@/lib/utils';
+import { formatDate, formatRelativeTime } from '@/lib/utils';
+import type { ApiKeyScope } from '@/lib/api-keys';
 
 interface ApiKey {
   id: number;
   name: string;
-  key: string;
-  createdAt: Date;
+  keyPrefix: string | null;
+  scopes: ApiKeyScope[];
+  serverId: number | null;
+  serverName: string | null;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  rotatedAt: string | null;
+  needsRotation: boolean;
+  createdAt: string;
 }
 
+interface ScopeInfo {
+  id: ApiKeyScope;
+  label: string;
+  description: string;
+}
+
+interface KeyRequest {
+  id: number;
+  apiKeyId: number | null;
+  keyName: string | null;
+  keyPrefix: string | null;
+  endpoint: string;
+  scope: string;
+  outcome: string;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+interface KeyForm {
+  name: string;
+  scopes: ApiKeyScope[];
+  serverId: string;
+  expiresInDays: string; // Empty for never; unchanged when editing
+}
+
+const emptyForm: KeyForm = {
+  name: '',
+  scopes: ['xp:sync'],
+  serverId: '',
+  expiresInDays: '',
+};
+
+const OUTCOME_LABELS: Record<string, string> = {
+  allowed: 'Allowed',
+  invalid: 'Unknown key',
+  expired: 'Expired',
+  missing_scope: 'Missing scope',
+  wrong_server: 'Wrong server',
+};
+
 interface CronKeyInfo {
   configured: boolean;
   key?: string;
@@ -25,12 +74,16 @@ interface CronKeyInfo {
 
 export default function ApiKeysPage() {
   const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [scopes, setScopes] = useState<ScopeInfo[]>([]);
+  const [serverOptions, setServerOptions] = useState<{ id: number; name: string }[]>([]);
+  const [requests, setRequests] = useState<KeyRequest[]>([]);
+  const [rejectedOnly, setRejectedOnly] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [showAddForm, setShowAddForm] = useState(false);
-  const [newKeyName, setNewKeyName] = useState('');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<KeyForm>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
   const [newKey, setNewKey] = useState<string | null>(null);
-  const [visibleKeys, setVisibleKeys] = useState<Set<number>>(new Set());
-  const [copiedId, setCopiedId] = useState<number | null>(null);
   const [cronKey, setCronKey] = useState<CronKeyInfo | null>(null);
   const [showCronKey, setShowCronKey] = useState(false);
   const [cronCopied, setCronCopied] = useState(false);
@@ -41,12 +94,15 @@ export default function ApiKeysPage() {
     fetchCronKey();
   }, []);
 
-  const fetchApiKeys = async () => {
+  const fetchApiKeys = async (onlyRejected = rejectedOnly) => {
     try {
-      const res = await fetch('/api/admin/api-keys');
+      const res = await fetch(`/api/admin/api-keys${onlyRejected ? '?rejected=true' : ''}`);
       if (res.ok) {
         const data = await res.json();
-        setApiKeys(data);
+        setApiKeys(data.keys);
+        setScopes(data.scopes);
+        setServerOptions(data.servers);
+        setRequests(data.requests);
       }
     } catch (err: any) {
       console.error('Failed to fetch API keys:', err);
@@ -67,24 +123,80 @@ export default function ApiKeysPage() {
     }
   };
 
-  const generateApiKey = async () => {
-    if (!newKeyName.trim()) return;
+  const closeForm = () => {
+    setShowAddForm(false);
+    setEditingId(null);
+    setForm(emptyForm);
+    setFormError(null);
+  };
+
+  const startEdit = (apiKey: ApiKey) => {
+    setEditingId(apiKey.id);
+    setForm({
+      name: apiKey.name,
+      scopes: apiKey.scopes,
+      serverId: apiKey.serverId ? String(apiKey.serverId) : '',
+      expiresInDays: '',
+    });
+    setFormError(null);
+    setNewKey(null);
+    setShowAddForm(true);
+  };
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setForm((prev) => ({
+      ...prev,
+      scopes: prev.scopes.includes(scope)
+        ? prev.scopes.filter((s) => s !== scope)
+        : [...prev.scopes, scope],
+    }));
+  };
+
+  const saveApiKey = async () => {
+    if (!form.name.trim() || form.scopes.length === 0) return;
+
+    const body: Record<string, unknown> = {
+      name: form.name,
+      scopes: form.scopes,
+      serverId: form.serverId || null,
+    };
+    // When editing, an empty expiry leaves the current one alone
+    if (!editingId || form.expiresInDays) {
+      body.expiresInDays = form.expiresInDays;
+    }
 
     try {
-      const res = await fetch('/api/admin/api-keys', {
-        method: 'POST',
+      const res = await fetch(editingId ? `/api/admin/api-keys/${editingId}` : '/api/admin/api-keys', {
+        method: editingId ? 'PATCH' : 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name: newKeyName }),
+        body: JSON.stringify(body),
       });
+      const data = await res.json();
+
+      if (res.ok) {
+        if (data.key) setNewKey(data.key);
+        closeForm();
+        fetchApiKeys();
+      } else {
+        setFormError(data.error || 'Failed to save API key');
+      }
+    } catch (err: any) {
+      console.error('Failed to save API key:', err);
+    }
+  };
 
+  const rotateApiKey = async (apiKey: ApiKey) => {
+    if (!confirm(`Rotate ${apiKey.name}? The current key stops working immediately.`)) return;
+
+    try {
+      const res = await fetch(`/api/admin/api-keys/${apiKey.id}/rotate`, { method: 'POST' });
       if (res.ok) {
         const data = await res.json();
         setNewKey(data.key);
-        setApiKeys([...apiKeys, data]);
-        setNewKeyName('');
+        fetchApiKeys();
       }
     } catch (err: any) {
-      console.error('Failed to generate API key:', err);
+      console.error('Failed to rotate API key:', err);
     }
   };
 
@@ -101,21 +213,13 @@ export default function ApiKeysPage() {
     }
   };
 
-  const toggleKeyVisibility = (id: number) => {
-    const newVisible = new Set(visibleKeys);
-    if (newVisible.has(id)) {
-      newVisible.delete(id);
-    } else {
-      newVisible.add(id);
-    }
-    setVisibleKeys(newVisible);
+  const toggleRejectedOnly = () => {
+    setRejectedOnly(!rejectedOnly);
+    fetchApiKeys(!rejectedOnly);
   };
 
-  const copyToClipboard = async (key: string, id: number) => {
-    await navigator.clipboard.writeText(key);
-    setCopiedId(id);
-    setTimeout(() => setCopiedId(null), 2000);
-  };
+  const isExpired = (apiKey: ApiKey) =>
+    !!apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= Date.now();
 
   const copyCronKey = async () => {
     if (cronKey?.key) {
@@ -143,10 +247,6 @@ export default function ApiKeysPage() {
     }
   };
 
-  const maskKey = (key: string) => {
-    return key.substring(0, 8) + '••••••••••••••••' + key.substring(key.length - 4);
-  };
-
   return (
     <div className="space-y-6 min-w-0">
       <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
@@ -156,7 +256,7 @@ export default function ApiKeysPage() {
             Manage API keys for Minecraft server integration
           </p>
         </div>
-        <Button variant="gradient" onClick={() => setShowAddForm(true)}>
+        <Button variant="gradient" onClick={() => { closeForm(); setNewKey(null); setShowAddForm(true); }}>
           <Plus className="w-4 h-4 mr-2" />
           Generate New Key
         </Button>
@@ -174,6 +274,7 @@ export default function ApiKeysPage() {
               <p className="text-sm text-muted-foreground mb-4">
                 Use these API keys to authenticate your Minecraft server or mod with the Vonix Network API.
                 Include the key in the <code className="px-1 py-0.5 bg-secondary rounded">X-API-Key</code> header.
+                Each key only works for the endpoints its scopes allow, and a key bound to a server can only sync XP for that server.
               </p>
               <div className="flex flex-wrap gap-2">
                 <Badge variant="neon">POST /api/minecraft/login</Badge>
@@ -181,6 +282,7 @@ export default function ApiKeysPage() {
                 <Badge variant="neon">POST /api/minecraft/register-direct</Badge>
                 <Badge variant="neon">GET /api/minecraft/verify</Badge>
                 <Badge variant="neon">POST /api/minecraft/xp</Badge>
+                <Badge variant="neon">POST /api/minecraft/sync/xp</Badge>
               </div>
             </div>
           </div>
@@ -295,26 +397,86 @@ export default function ApiKeysPage() {
         showAddForm && !newKey && (
           <Card variant="glass">
             <CardHeader>
-              <CardTitle>Generate New API Key</CardTitle>
+              <CardTitle>{editingId ? 'Edit API Key' : 'Generate New API Key'}</CardTitle>
               <CardDescription>
-                Create a new API key for your Minecraft server
+                {editingId
+                  ? 'Change what this key can do. Use Rotate to replace the key itself.'
+                  : 'Create a new API key for your Minecraft server'}
               </CardDescription>
             </CardHeader>
-            <CardContent>
-              <div className="flex gap-4">
-                <Input
-                  placeholder="Key name (e.g., 'Survival Server')"
-                  value={newKeyName}
-                  onChange={(e) => setNewKeyName(e.target.value)}
-                  className="flex-1"
-                />
-                <Button variant="gradient" onClick={generateApiKey} disabled={!newKeyName.trim()}>
-                  <Key className="w-4 h-4 mr-2" />
-                  Generate
-                </Button>
-                <Button variant="ghost" onClick={() => setShowAddForm(false)}>
+            <CardContent className="space-y-4">
+              {formError && (
+                <div className="p-3 rounded-lg bg-error/10 border border-error text-error text-sm">
+                  {formError}
+                </div>
+              )}
+
+              <div className="grid sm:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Name</label>
+                  <Input
+                    placeholder="Key name (e.g., 'Survival Server')"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Server</label>
+                  <select
+                    value={form.serverId}
+                    onChange={(e) => setForm({ ...form, serverId: e.target.value })}
+                    className="w-full h-10 px-3 rounded-lg bg-secondary/50 border border-border focus:outline-none focus:ring-2 focus:ring-neon-cyan"
+                  >
+                    <option value="">Any server</option>
+                    {serverOptions.map((server) => (
+                      <option key={server.id} value={server.id}>{server.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Expires in (days)</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    placeholder={editingId ? 'Unchanged' : 'Never'}
+                    value={form.expiresInDays}
+                    onChange={(e) => setForm({ ...form, expiresInDays: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                {scopes.map((scope) => (
+                  <label
+                    key={scope.id}
+                    className="flex items-start gap-3 p-3 rounded-lg bg-secondary/30 cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={form.scopes.includes(scope.id)}
+                      onChange={() => toggleScope(scope.id)}
+                      className="w-4 h-4 mt-0.5 accent-neon-cyan"
+                    />
+                    <div>
+                      <span className="text-sm font-medium">{scope.label}</span>
+                      <p className="text-xs text-muted-foreground">{scope.description}</p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" onClick={closeForm}>
                   Cancel
                 </Button>
+                <Button
+                  variant="gradient"
+                  onClick={saveApiKey}
+                  disabled={!form.name.trim() || form.scopes.length === 0}
+                >
+                  <Key className="w-4 h-4 mr-2" />
+                  {editingId ? 'Save' : 'Generate'}
+                </Button>
               </div>
             </CardContent>
           </Card>
@@ -328,58 +490,75 @@ export default function ApiKeysPage() {
             <Key className="w-5 h-5 text-neon-cyan" />
             Active API Keys
           </CardTitle>
+          <CardDescription>
+            Keys are stored hashed and can&apos;t be shown again. Rotate a key to get a new one.
+          </CardDescription>
         </CardHeader>
         <CardContent>
-          {apiKeys.length > 0 ? (
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <RefreshCw className="w-6 h-6 animate-spin text-neon-cyan" />
+            </div>
+          ) : apiKeys.length > 0 ? (
             <div className="space-y-3">
-              {apiKeys.map((apiKey: any) => (
+              {apiKeys.map((apiKey) => (
                 <div
                   key={apiKey.id}
-                  className="flex items-center justify-between p-4 rounded-lg bg-secondary/50"
+                  className="flex items-center justify-between gap-4 p-4 rounded-lg bg-secondary/50"
                 >
-                  <div className="flex items-center gap-4">
+                  <div className="flex items-center gap-4 min-w-0">
                     <div className="p-2 rounded-lg bg-neon-purple/10">
                       <Shield className="w-5 h-5 text-neon-purple" />
                     </div>
-                    <div>
-                      <p className="font-medium">{apiKey.name}</p>
-                      <div className="flex items-center gap-2 mt-1">
-                        <code className="text-sm text-muted-foreground font-mono">
-                          {visibleKeys.has(apiKey.id) ? apiKey.key : maskKey(apiKey.key)}
-                        </code>
-                        <button
-                          onClick={() => toggleKeyVisibility(apiKey.id)}
-                          className="text-muted-foreground hover:text-foreground"
-                        >
-                          {visibleKeys.has(apiKey.id) ? (
-                            <EyeOff className="w-4 h-4" />
-                          ) : (
-                            <Eye className="w-4 h-4" />
-                          )}
-                        </button>
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <p className="font-medium">{apiKey.name}</p>
+                        {apiKey.serverName && <Badge variant="neon-purple" className="text-xs">{apiKey.serverName}</Badge>}
+                        {isExpired(apiKey) && <Badge variant="error" className="text-xs">Expired</Badge>}
+                        {apiKey.needsRotation && (
+                          <Badge
+                            variant="warning"
+                            className="text-xs"
+                            title="Created before keys were hashed and may have been exposed. Rotate it and update the server."
+                          >
+                            Needs rotation
+                          </Badge>
+                        )}
+                      </div>
+                      <code className="text-sm text-muted-foreground font-mono">
+                        {apiKey.keyPrefix}••••••••••••
+                      </code>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {apiKey.scopes.map((scope) => (
+                          <Badge key={scope} variant="secondary" className="text-xs">
+                            {scopes.find((s) => s.id === scope)?.label || scope}
+                          </Badge>
+                        ))}
                       </div>
                       <p className="text-xs text-muted-foreground mt-1">
                         Created {formatDate(apiKey.createdAt)}
+                        {apiKey.rotatedAt && ` · Rotated ${formatDate(apiKey.rotatedAt)}`}
+                        {apiKey.expiresAt && ` · ${isExpired(apiKey) ? 'Expired' : 'Expires'} ${formatDate(apiKey.expiresAt)}`}
+                        {' · '}
+                        {apiKey.lastUsedAt
+                          ? `Last used ${formatRelativeTime(apiKey.lastUsedAt)}${apiKey.lastUsedIp ? ` from ${apiKey.lastUsedIp}` : ''}`
+                          : 'Never used'}
                       </p>
                     </div>
                   </div>
                   <div className="flex gap-2">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => copyToClipboard(apiKey.key, apiKey.id)}
-                    >
-                      {copiedId === apiKey.id ? (
-                        <Check className="w-4 h-4 text-success" />
-                      ) : (
-                        <Copy className="w-4 h-4" />
-                      )}
+                    <Button variant="ghost" size="icon" onClick={() => startEdit(apiKey)} title="Edit">
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => rotateApiKey(apiKey)} title="Rotate">
+                      <RefreshCw className="w-4 h-4" />
                     </Button>
                     <Button
                       variant="ghost"
                       size="icon"
                       onClick={() => deleteApiKey(apiKey.id)}
                       className="text-error hover:text-error"
+                      title="Delete"
                     >
                       <Trash2 className="w-4 h-4" />
                     </Button>
@@ -403,6 +582,51 @@ export default function ApiKeysPage() {
         </CardContent>
       </Card>
 
+      {/* Request Log */}
+      <Card variant="glass">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Activity className="w-5 h-5 text-neon-orange" />
+                Recent Requests
+              </CardTitle>
+              <CardDescription>
+                The last 100 requests made with an API key, kept for 30 days
+              </CardDescription>
+            </div>
+            <Button variant={rejectedOnly ? 'neon' : 'neon-outline'} size="sm" onClick={toggleRejectedOnly}>
+              {rejectedOnly ? <X className="w-4 h-4 mr-2" /> : null}
+              Refused only
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {requests.length > 0 ? (
+            <div className="space-y-1">
+              {requests.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex flex-wrap items-center gap-x-4 gap-y-1 px-3 py-2 rounded-lg bg-secondary/30 text-sm"
+                >
+                  <Badge variant={entry.outcome === 'allowed' ? 'success' : 'error'} className="text-xs">
+                    {OUTCOME_LABELS[entry.outcome] || entry.outcome}
+                  </Badge>
+                  <span className="font-medium">{entry.keyName || <code className="font-mono">{entry.keyPrefix}…</code>}</span>
+                  <code className="text-xs text-muted-foreground font-mono">{entry.endpoint}</code>
+                  <span className="text-xs text-muted-foreground ml-auto">
+                    {entry.ipAddress && `${entry.ipAddress} · `}
+                    {formatRelativeTime(entry.createdAt)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center py-8 text-muted-foreground">No requests yet</p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Documentation */}
       <Card variant="glass">
         <CardHeader>
@@ -0,0 +1,330 @@
+'use client';
+
+import { Fragment, useState, useEffect } from 'react';
+import {
+    ScrollText, Search, Download, ChevronLeft, ChevronRight, ChevronDown, Loader2, X
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+
+interface AuditLogEntry {
+    id: number;
+    userId: number | null;
+    actorUsername: string | null;
+    action: string;
+    resource: string;
+    resourceId: string | null;
+    details: string | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+    createdAt: string;
+}
+
+interface Filters {
+    actor: string;
+    action: string;
+    resource: string;
+    resourceId: string;
+    from: string;
+    to: string;
+}
+
+const emptyFilters: Filters = { actor: '', action: '', resource: '', resourceId: '', from: '', to: '' };
+
+const selectClass = 'w-full h-10 px-3 rounded-lg bg-secondary/50 border border-border focus:outline-none focus:ring-2 focus:ring-neon-cyan';
+
+function actionVariant(action: string) {
+    if (/delete|ban|revoke|remove/.test(action)) return 'error';
+    if (/update|change|edit|power|command|mute|warn/.test(action)) return 'warning';
+    return 'secondary';
+}
+
+function formatDetails(details: string | null): string {
+    if (!details) return '';
+    try {
+        return JSON.stringify(JSON.parse(details), null, 2);
+    } catch {
+        return details;
+    }
+}
+
+function buildQuery(filters: Filters, extra: Record<string, string> = {}) {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+        if (value.trim()) params.set(key, value.trim());
+    }
+    for (const [key, value] of Object.entries(extra)) {
+        params.set(key, value);
+    }
+    return params.toString();
+}
+
+export default function AuditLogClient() {
+    const [logs, setLogs] = useState<AuditLogEntry[]>([]);
+    const [facets, setFacets] = useState<{ actions: string[]; resources: string[] }>({ actions: [], resources: [] });
+    const [filters, setFilters] = useState<Filters>(emptyFilters);
+    const [applied, setApplied] = useState<Filters>(emptyFilters);
+    const [page, setPage] = useState(1);
+    const [total, setTotal] = useState(0);
+    const [totalPages, setTotalPages] = useState(1);
+    const [expanded, setExpanded] = useState<number | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        fetchLogs();
+    }, [applied, page]);
+
+    const fetchLogs = async () => {
+        setIsLoading(true);
+        try {
+            const res = await fetch(`/api/admin/audit-log?${buildQuery(applied, { page: String(page) })}`);
+            const data = await res.json();
+            if (res.ok) {
+                setLogs(data.logs);
+                setTotal(data.total);
+                setTotalPages(data.totalPages);
+                setFacets(data.facets);
+            } else {
+                toast.error(data.error || 'Failed to load audit log');
+            }
+        } catch (err: any) {
+            toast.error('Failed to load audit log');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const applyFilters = (e: React.FormEvent) => {
+        e.preventDefault();
+        setPage(1);
+        setApplied(filters);
+    };
+
+    const clearFilters = () => {
+        setFilters(emptyFilters);
+        setPage(1);
+        setApplied(emptyFilters);
+    };
+
+    const hasFilters = Object.values(applied).some((value) => value.trim() !== '');
+
+    return (
+        <div className="space-y-6 min-w-0">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold gradient-text mb-2">Audit Log</h1>
+                    <p className="text-muted-foreground">
+                        Every privileged action taken by staff
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    <a href={`/api/admin/audit-log?${buildQuery(applied, { export: 'csv' })}`}>
+                        <Button variant="outline" className="gap-2">
+                            <Download className="w-4 h-4" />
+                            CSV
+                        </Button>
+                    </a>
+                    <a href={`/api/admin/audit-log?${buildQuery(applied, { export: 'json' })}`}>
+                        <Button variant="outline" className="gap-2">
+                            <Download className="w-4 h-4" />
+                            JSON
+                        </Button>
+                    </a>
+                </div>
+            </div>
+
+            <Card variant="glass">
+                <CardContent className="pt-6">
+                    <form onSubmit={applyFilters} className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                        <div className="space-y-1">
+                            <label className="text-sm text-muted-foreground">Actor</label>
+                            <Input
+                                value={filters.actor}
+                                onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+                                placeholder="Username"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-sm text-muted-foreground">Action</label>
+                            <select
+                                value={filters.action}
+                                onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+                                className={selectClass}
+                            >
+                                <option value="">All actions</option>
+                                {facets.actions.map((action) => (
+                                    <option key={action} value={action}>{action}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-sm text-muted-foreground">Target type</label>
+                            <select
+                                value={filters.resource}
+                                onChange={(e) => setFilters({ ...filters, resource: e.target.value })}
+                                className={selectClass}
+                            >
+                                <option value="">All targets</option>
+                                {facets.resources.map((resource) => (
+                                    <option key={resource} value={resource}>{resource}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-sm text-muted-foreground">Target ID</label>
+                            <Input
+                                value={filters.resourceId}
+                                onChange={(e) => setFilters({ ...filters, resourceId: e.target.value })}
+                                placeholder="e.g. 42"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-sm text-muted-foreground">From</label>
+                            <Input
+                                type="date"
+                                value={filters.from}
+                                onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-sm text-muted-foreground">To</label>
+                            <Input
+                                type="date"
+                                value={filters.to}
+                                onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                            />
+                        </div>
+                        <div className="flex gap-2 sm:col-span-2 lg:col-span-3 justify-end">
+                            {hasFilters && (
+                                <Button type="button" variant="ghost" onClick={clearFilters} className="gap-2">
+                                    <X className="w-4 h-4" />
+                                    Clear
+                                </Button>
+                            )}
+                            <Button type="submit" variant="neon" className="gap-2">
+                                <Search className="w-4 h-4" />
+                                Filter
+                            </Button>
+                        </div>
+                    </form>
+                </CardContent>
+            </Card>
+
+            <Card variant="glass">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <ScrollText className="w-5 h-5 text-neon-cyan" />
+                        Entries
+                    </CardTitle>
+                    <CardDescription>
+                        {total.toLocaleString()} {total === 1 ? 'entry' : 'entries'}{hasFilters ? ' matching filters' : ''}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {isLoading ? (
+                        <div className="flex justify-center py-12">
+                            <Loader2 className="w-8 h-8 animate-spin text-neon-cyan" />
+                        </div>
+                    ) : logs.length === 0 ? (
+                        <p className="text-center text-muted-foreground py-12">No audit log entries found</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b border-border text-left text-muted-foreground">
+                                        <th className="py-2 pr-4 font-medium">When</th>
+                                        <th className="py-2 pr-4 font-medium">Actor</th>
+                                        <th className="py-2 pr-4 font-medium">Action</th>
+                                        <th className="py-2 pr-4 font-medium">Target</th>
+                                        <th className="py-2 pr-4 font-medium">IP</th>
+                                        <th className="py-2 w-8" />
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {logs.map((log) => (
+                                        <Fragment key={log.id}>
+                                            <tr
+                                                className="border-b border-border/50 hover:bg-secondary/30 cursor-pointer"
+                                                onClick={() => setExpanded(expanded === log.id ? null : log.id)}
+                                            >
+                                                <td className="py-2 pr-4 whitespace-nowrap">
+                                                    {new Date(log.createdAt).toLocaleString()}
+                                                </td>
+                                                <td className="py-2 pr-4">
+                                                    {log.actorUsername || (log.userId ? `#${log.userId}` : 'System')}
+                                                </td>
+                                                <td className="py-2 pr-4">
+                                                    <Badge variant={actionVariant(log.action)} className="font-mono text-xs">
+                                                        {log.action}
+                                                    </Badge>
+                                                </td>
+                                                <td className="py-2 pr-4 font-mono text-xs">
+                                                    {log.resource}{log.resourceId ? ` #${log.resourceId}` : ''}
+                                                </td>
+                                                <td className="py-2 pr-4 font-mono text-xs text-muted-foreground">
+                                                    {log.ipAddress || '—'}
+                                                </td>
+                                                <td className="py-2">
+                                                    <ChevronDown
+                                                        className={`w-4 h-4 transition-transform ${expanded === log.id ? 'rotate-180' : ''}`}
+                                                    />
+                                                </td>
+                                            </tr>
+                                            {expanded === log.id && (
+                                                <tr className="border-b border-border/50 bg-secondary/20">
+                                                    <td colSpan={6} className="p-4 space-y-2">
+                                                        {log.details ? (
+                                                            <pre className="text-xs font-mono whitespace-pre-wrap break-all bg-black/30 rounded-lg p-3">
+                                                                {formatDetails(log.details)}
+                                                            </pre>
+                                                        ) : (
+                                                            <p className="text-xs text-muted-foreground">No details recorded</p>
+                                                        )}
+                                                        {log.userAgent && (
+                                                            <p className="text-xs text-muted-foreground break-all">
+                                                                User agent: {log.userAgent}
+                                                            </p>
+                                                        )}
+                                                    </td>
+                                                </tr>
+                                            )}
+                                        </Fragment>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    {totalPages > 1 && (
+                        <div className="flex items-center justify-between pt-4">
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setPage(page - 1)}
+                                disabled={page <= 1 || isLoading}
+                            >
+                                <ChevronLeft className="w-4 h-4 mr-1" />
+                                Previous
+                            </Button>
+                            <span className="text-sm text-muted-foreground">
+                                Page {page} of {totalPages}
+                            </span>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setPage(page + 1)}
+                                disabled={page >= totalPages || isLoading}
+                            >
+                                Next
+                                <ChevronRight className="w-4 h-4 ml-1" />
+                            </Button>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,15 @@
+import { redirect } from 'next/navigation';
+import { auth } from '../../../../../auth';
+import AuditLogClient from './audit-log-client';
+
+export default async function AuditLogPage() {
+    const session = await auth();
+    const user = session?.user as any;
+
+    // Only superadmins can read the audit log
+    if (user?.role !== 'superadmin') {
+        redirect('/admin?error=SuperadminOnly');
+    }
+
+    return <AuditLogClient />;
+}
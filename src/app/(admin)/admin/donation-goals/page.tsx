@@ -0,0 +1,375 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Target, Plus, Edit, Trash2, Loader2, Save, X, ExternalLink
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ToggleCard } from '@/components/ui/toggle-switch';
+import { formatCurrency } from '@/lib/utils';
+
+interface DonationGoal {
+  id: number;
+  title: string;
+  description: string | null;
+  targetAmount: number;
+  period: 'monthly' | 'custom';
+  startsAt: string | null;
+  endsAt: string | null;
+  active: boolean;
+  announceMilestones: boolean;
+  lastMilestone: number;
+  running: boolean;
+  progress: {
+    raised: number;
+    percent: number;
+    donationCount: number;
+    startsAt: string;
+    endsAt: string;
+  };
+}
+
+interface GoalForm {
+  title: string;
+  description: string;
+  targetAmount: string;
+  period: 'monthly' | 'custom';
+  startsAt: string;
+  endsAt: string;
+  active: boolean;
+  announceMilestones: boolean;
+}
+
+const defaultGoal: GoalForm = {
+  title: '',
+  description: '',
+  targetAmount: '',
+  period: 'monthly',
+  startsAt: '',
+  endsAt: '',
+  active: true,
+  announceMilestones: true,
+};
+
+// date inputs are yyyy-mm-dd in local time
+function toDateInput(value: string | null): string {
+  if (!value) return '';
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+}
+
+export default function AdminDonationGoalsPage() {
+  const [goals, setGoals] = useState<DonationGoal[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  // null = closed, 0 = creating, otherwise the ID being edited
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState<GoalForm>(defaultGoal);
+
+  useEffect(() => {
+    fetchGoals();
+  }, []);
+
+  const fetchGoals = async () => {
+    try {
+      const res = await fetch('/api/admin/donation-goals');
+      if (res.ok) {
+        setGoals(await res.json());
+      }
+    } catch (error: any) {
+      console.error('Failed to fetch donation goals:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openModal = (goal?: DonationGoal) => {
+    setEditingId(goal ? goal.id : 0);
+    setFormData(goal ? {
+      title: goal.title,
+      description: goal.description || '',
+      targetAmount: String(goal.targetAmount),
+      period: goal.period,
+      startsAt: toDateInput(goal.startsAt),
+      endsAt: toDateInput(goal.endsAt),
+      active: goal.active,
+      announceMilestones: goal.announceMilestones,
+    } : defaultGoal);
+  };
+
+  const closeModal = () => {
+    setEditingId(null);
+    setFormData(defaultGoal);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(
+        editingId ? `/api/admin/donation-goals/${editingId}` : '/api/admin/donation-goals',
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...formData,
+            // Custom goals run from the start of the first day to the end of the last
+            startsAt: formData.startsAt ? new Date(`${formData.startsAt}T00:00:00`).toISOString() : null,
+            endsAt: formData.endsAt ? new Date(`${formData.endsAt}T23:59:59.999`).toISOString() : null,
+          }),
+        }
+      );
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success(editingId ? 'Goal updated' : 'Goal created');
+        await fetchGoals();
+        closeModal();
+      } else {
+        toast.error(data.error || 'Failed to save goal');
+      }
+    } catch (error: any) {
+      toast.error('Failed to save goal');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (goal: DonationGoal) => {
+    if (!confirm(`Delete the "${goal.title}" goal?`)) return;
+
+    try {
+      const res = await fetch(`/api/admin/donation-goals/${goal.id}`, { method: 'DELETE' });
+      if (res.ok) {
+        toast.success('Goal deleted');
+        await fetchGoals();
+      } else {
+        toast.error('Failed to delete goal');
+      }
+    } catch (error: any) {
+      toast.error('Failed to delete goal');
+    }
+  };
+
+  const statusBadge = (goal: DonationGoal) => {
+    if (!goal.active) return <Badge variant="secondary">Disabled</Badge>;
+    if (goal.running) return <Badge variant="success">Live</Badge>;
+    return new Date(goal.progress.startsAt) > new Date()
+      ? <Badge variant="warning">Scheduled</Badge>
+      : <Badge variant="secondary">Ended</Badge>;
+  };
+
+  return (
+    <div className="space-y-6 min-w-0">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold gradient-text mb-2">Donation Goals</h1>
+          <p className="text-muted-foreground">
+            Funding targets shown on the home and donate pages
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <a href="/api/donation-goals" target="_blank" rel="noopener noreferrer">
+            <Button variant="outline">
+              <ExternalLink className="w-4 h-4 mr-2" />
+              Public JSON
+            </Button>
+          </a>
+          <Button variant="gradient" onClick={() => openModal()}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create Goal
+          </Button>
+        </div>
+      </div>
+
+      <Card variant="glass">
+        <CardHeader>
+          <CardTitle>All Goals</CardTitle>
+          <CardDescription>
+            Progress counts completed donations in the goal&apos;s period, less refunds. Monthly goals reset on the 1st.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-neon-cyan" />
+            </div>
+          ) : goals.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Target className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No donation goals yet</p>
+              <Button variant="neon" className="mt-4" onClick={() => openModal()}>
+                Create First Goal
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {goals.map((goal) => (
+                <div key={goal.id} className="p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors">
+                  <div className="flex items-center gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-semibold">{goal.title}</span>
+                        {statusBadge(goal)}
+                        <Badge variant="neon-purple" className="text-xs">
+                          {goal.period === 'monthly' ? 'Monthly' : 'Custom'}
+                        </Badge>
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        {new Date(goal.progress.startsAt).toLocaleDateString()} – {new Date(goal.progress.endsAt).toLocaleDateString()}
+                        {' • '}{goal.progress.donationCount} donations
+                        {goal.announceMilestones && ` • Discord milestones${goal.lastMilestone > 0 ? ` (last ${goal.lastMilestone}%)` : ''}`}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <Button variant="ghost" size="icon" onClick={() => openModal(goal)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(goal)}
+                        className="text-error hover:text-error"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="mt-3 h-2 rounded-full bg-background overflow-hidden">
+                    <div
+                      className="h-full rounded-full bg-gradient-to-r from-neon-pink to-neon-purple"
+                      style={{ width: `${goal.progress.percent}%` }}
+                    />
+                  </div>
+                  <div className="flex justify-between mt-1 text-sm text-muted-foreground">
+                    <span>{formatCurrency(goal.progress.raised)} of {formatCurrency(goal.targetAmount)}</span>
+                    <span>{goal.progress.percent}%</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create/Edit Modal */}
+      {editingId !== null && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <Card variant="glass" className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                {editingId ? 'Edit Goal' : 'Create Goal'}
+                <Button variant="ghost" size="icon" onClick={closeModal}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Title *</label>
+                  <Input
+                    value={formData.title}
+                    onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                    placeholder="e.g., Server hosting"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Target ($) *</label>
+                  <Input
+                    type="number"
+                    value={formData.targetAmount}
+                    onChange={(e) => setFormData({ ...formData, targetAmount: e.target.value })}
+                    placeholder="150"
+                  />
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <label className="text-sm font-medium">Description</label>
+                  <Input
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    placeholder="e.g., Keeps all our servers online for the month"
+                  />
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <label className="text-sm font-medium">Period</label>
+                  <select
+                    value={formData.period}
+                    onChange={(e) => setFormData({ ...formData, period: e.target.value as GoalForm['period'] })}
+                    className="w-full h-10 px-3 rounded-lg bg-secondary/50 border border-border focus:outline-none focus:ring-2 focus:ring-neon-cyan"
+                  >
+                    <option value="monthly">Every month (resets on the 1st)</option>
+                    <option value="custom">Custom dates</option>
+                  </select>
+                </div>
+                {formData.period === 'custom' && (
+                  <>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Starts *</label>
+                      <Input
+                        type="date"
+                        value={formData.startsAt}
+                        onChange={(e) => setFormData({ ...formData, startsAt: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Ends *</label>
+                      <Input
+                        type="date"
+                        value={formData.endsAt}
+                        onChange={(e) => setFormData({ ...formData, endsAt: e.target.value })}
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+
+              <ToggleCard
+                checked={formData.announceMilestones}
+                onChange={(val) => setFormData({ ...formData, announceMilestones: val })}
+                label="Discord Milestones"
+                description="Post to the donation webhook at 25%, 50%, 75% and 100%"
+              />
+
+              <ToggleCard
+                checked={formData.active}
+                onChange={(val) => setFormData({ ...formData, active: val })}
+                label="Active"
+                description="Show this goal on the home and donate pages"
+              />
+
+              <div className="flex justify-end gap-3 pt-4">
+                <Button variant="ghost" onClick={closeModal}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="gradient"
+                  onClick={handleSave}
+                  disabled={isSaving || !formData.title || !formData.targetAmount}
+                >
+                  {isSaving ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <Save className="w-4 h-4 mr-2" />
+                      {editingId ? 'Update Goal' : 'Create Goal'}
+                    </>
+                  )}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
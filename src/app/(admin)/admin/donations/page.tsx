@@ -4,7 +4,7 @@ import { useState, useEffect, useCallback } from 'react';
 import {
   Heart, Search, Eye, EyeOff, Trash2, ExternalLink,
   DollarSign, TrendingUp, RefreshCcw, Plus, X,
-  ChevronLeft, ChevronRight, Loader2, Receipt, Save, Edit, Send
+  ChevronLeft, ChevronRight, Loader2, Receipt, Save, Edit, Send, Tag
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -32,7 +32,11 @@ interface Donation {
   rankColor: string | null;
   days: number | null;
   paymentType: 'one_time' | 'subscription' | 'subscription_renewal';
-  status: 'completed' | 'pending' | 'failed' | 'refunded';
+  status: 'completed' | 'pending' | 'failed' | 'refunded' | 'disputed';
+  refundedAmount: number;
+  revokedDays: number;
+  promoCode: string | null;
+  discountAmount: number;
   stripeInvoiceUrl: string | null;
   createdAt: string;
 }
@@ -41,6 +45,7 @@ interface DonationStats {
   totalRevenue: number;
   completedRevenue: number;
   refundedAmount: number;
+  discountAmount: number;
   totalDonations: number;
 }
 
@@ -288,7 +293,7 @@ export default function AdminDonationsPage() {
 
   const getStatusBadge = (status: string) => {
     const variants: Record<string, 'success' | 'warning' | 'error' | 'secondary'> = {
-      completed: 'success', pending: 'warning', failed: 'error', refunded: 'secondary',
+      completed: 'success', pending: 'warning', failed: 'error', refunded: 'secondary', disputed: 'error',
     };
     return <Badge variant={variants[status] || 'secondary'}>{status}</Badge>;
   };
@@ -473,7 +478,7 @@ export default function AdminDonationsPage() {
 
       {/* Stats */}
       {stats && (
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
           <Card variant="glass">
             <CardContent className="p-4">
               <div className="flex items-center gap-3">
@@ -528,6 +533,19 @@ export default function AdminDonationsPage() {
               </div>
             </CardContent>
           </Card>
+          <Card variant="glass">
+            <CardContent className="p-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-warning/20">
+                  <Tag className="w-5 h-5 text-warning" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold">{formatCurrency(stats.discountAmount)}</p>
+                  <p className="text-sm text-muted-foreground">Discounts Given</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
         </div>
       )}
 
@@ -556,6 +574,7 @@ export default function AdminDonationsPage() {
               <option value="pending">Pending</option>
               <option value="failed">Failed</option>
               <option value="refunded">Refunded</option>
+              <option value="disputed">Disputed</option>
             </select>
             <select
               value={typeFilter}
@@ -613,11 +632,22 @@ export default function AdminDonationsPage() {
                       )}
                       {getStatusBadge(donation.status)}
                       {getTypeBadge(donation.paymentType)}
+                      {donation.promoCode && (
+                        <Badge variant="warning" className="font-mono">
+                          <Tag className="w-3 h-3 mr-1" />
+                          {donation.promoCode}
+                        </Badge>
+                      )}
                     </div>
                     <div className="text-sm text-muted-foreground flex flex-wrap gap-2">
                       <span>{formatDate(donation.createdAt)}</span>
                       {donation.receiptNumber && <span>• {donation.receiptNumber}</span>}
                       {donation.days && <span>• {donation.days} days</span>}
+                      {donation.discountAmount > 0 && <span>• {formatCurrency(donation.discountAmount)} off</span>}
+                      {donation.refundedAmount > 0 && (
+                        <span className="text-error">• {formatCurrency(donation.refundedAmount)} {donation.status === 'disputed' ? 'disputed' : 'refunded'}</span>
+                      )}
+                      {donation.revokedDays > 0 && <span className="text-error">• {donation.revokedDays} days revoked</span>}
                     </div>
                     {donation.message && (
                       <p className="text-sm text-muted-foreground mt-1 truncate">&quot;{donation.message}&quot;</p>
@@ -7,12 +7,13 @@ import Link from 'next/link';
 import {
     ArrowLeft, Send, Loader2, AlertCircle, Clock, CheckCircle,
     MessageSquare, User, Calendar, Tag, Flag, Archive, Users,
-    ExternalLink, RefreshCw
+    ExternalLink, RefreshCw, FileText, MessageSquareText, Search
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { formatRelativeTime, getInitials } from '@/lib/utils';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 
@@ -25,6 +26,14 @@ interface TicketMessage {
     avatarUrl?: string | null;
 }
 
+interface TicketTagOption {
+    id: number;
+    name: string;
+    emoji: string | null;
+    usageCount: number;
+    preview: string;
+}
+
 interface TicketData {
     id: number;
     subject: string;
@@ -65,6 +74,9 @@ export default function AdminTicketDetailPage({ params }: { params: Promise<{ id
     const [isRefreshing, setIsRefreshing] = useState(false);
     const [replyMessage, setReplyMessage] = useState('');
     const [error, setError] = useState('');
+    const [tags, setTags] = useState<TicketTagOption[] | null>(null);
+    const [showTagPicker, setShowTagPicker] = useState(false);
+    const [tagSearch, setTagSearch] = useState('');
 
     useEffect(() => {
         if (session) {
@@ -127,6 +139,44 @@ export default function AdminTicketDetailPage({ params }: { params: Promise<{ id
         }
     };
 
+    const toggleTagPicker = async () => {
+        setShowTagPicker(!showTagPicker);
+        if (tags !== null) return;
+
+        try {
+            const res = await fetch(`/api/tickets/${resolvedParams.id}/tags`);
+            if (res.ok) {
+                const data = await res.json();
+                setTags(data.tags);
+            } else {
+                setTags([]);
+            }
+        } catch (error: any) {
+            console.error('Error fetching tags:', error);
+            setTags([]);
+        }
+    };
+
+    const handleUseTag = async (tagId: number) => {
+        try {
+            const res = await fetch(`/api/tickets/${resolvedParams.id}/tags`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ tagId }),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                setReplyMessage((current) => (current.trim() ? `${current}\n\n${data.content}` : data.content).slice(0, 5000));
+                setShowTagPicker(false);
+                setTagSearch('');
+            } else {
+                setError(data.error || 'Failed to insert tag');
+            }
+        } catch (error: any) {
+            console.error('Error using tag:', error);
+        }
+    };
+
     const handleStatusChange = async (newStatus: string) => {
         try {
             const res = await fetch(`/api/tickets/${resolvedParams.id}`, {
@@ -220,6 +270,12 @@ export default function AdminTicketDetailPage({ params }: { params: Promise<{ id
                         <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
                         Refresh
                     </Button>
+                    <Link href={`/admin/helpdesk/${ticket.id}/transcript`}>
+                        <Button variant="outline" size="sm" className="gap-2">
+                            <FileText className="w-4 h-4" />
+                            Transcript
+                        </Button>
+                    </Link>
                     {ticket.discordThreadId && (
                         <Button variant="outline" size="sm" className="gap-2">
                             <ExternalLink className="w-4 h-4" />
@@ -299,10 +355,62 @@ export default function AdminTicketDetailPage({ params }: { params: Promise<{ id
                                         rows={4}
                                         maxLength={5000}
                                     />
+                                    {showTagPicker && (
+                                        <div className="rounded-lg border border-border bg-secondary/30 p-3 space-y-2">
+                                            <div className="relative">
+                                                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                                                <Input
+                                                    placeholder="Search canned responses..."
+                                                    value={tagSearch}
+                                                    onChange={(e) => setTagSearch(e.target.value)}
+                                                    className="pl-9"
+                                                    autoFocus
+                                                />
+                                            </div>
+                                            <div className="max-h-64 overflow-y-auto space-y-1">
+                                                {tags === null ? (
+                                                    <div className="flex justify-center py-4">
+                                                        <Loader2 className="w-5 h-5 animate-spin text-neon-cyan" />
+                                                    </div>
+                                                ) : (
+                                                    tags
+                                                        .filter((tag) => tag.name.toLowerCase().includes(tagSearch.toLowerCase()))
+                                                        .map((tag) => (
+                                                            <button
+                                                                key={tag.id}
+                                                                type="button"
+                                                                onClick={() => handleUseTag(tag.id)}
+                                                                className="w-full text-left p-2 rounded-lg hover:bg-secondary transition-colors"
+                                                            >
+                                                                <p className="text-sm font-medium">{tag.emoji} {tag.name}</p>
+                                                                <p className="text-xs text-muted-foreground truncate">{tag.preview}</p>
+                                                            </button>
+                                                        ))
+                                                )}
+                                                {tags !== null && tags.length === 0 && (
+                                                    <p className="text-sm text-muted-foreground text-center py-4">
+                                                        No canned responses for this category
+                                                    </p>
+                                                )}
+                                            </div>
+                                        </div>
+                                    )}
                                     <div className="flex items-center justify-between">
-                                        <p className="text-xs text-muted-foreground">
-                                            {replyMessage.length}/5000 characters
-                                        </p>
+                                        <div className="flex items-center gap-3">
+                                            <Button
+                                                type="button"
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={toggleTagPicker}
+                                                className="gap-2"
+                                            >
+                                                <MessageSquareText className="w-4 h-4" />
+                                                Canned Response
+                                            </Button>
+                                            <p className="text-xs text-muted-foreground">
+                                                {replyMessage.length}/5000 characters
+                                            </p>
+                                        </div>
                                         <Button
                                             type="submit"
                                             variant="neon"
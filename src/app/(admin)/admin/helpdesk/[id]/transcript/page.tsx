@@ -0,0 +1,273 @@
+'use client';
+
+import { useState, useEffect, useMemo, use } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import Link from 'next/link';
+import {
+    ArrowLeft, Loader2, AlertCircle, Search, Download, FileText,
+    FileJson, Paperclip, Bot, Archive
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { getInitials } from '@/lib/utils';
+import { renderDiscordMarkdown } from '@/lib/discord-markdown';
+import type { TicketTranscript, TranscriptEmbed, TranscriptMessage } from '@/lib/ticket-transcripts';
+
+function formatBytes(size: number | null): string {
+    if (!size) return '';
+    if (size < 1024) return `${size} B`;
+    if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+    return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function embedText(embed: TranscriptEmbed): string {
+    return [
+        embed.author?.name,
+        embed.title,
+        embed.description,
+        ...(embed.fields || []).flatMap((field) => [field.name, field.value]),
+        embed.footer?.text,
+    ].filter(Boolean).join(' ');
+}
+
+function matchesSearch(msg: TranscriptMessage, query: string): boolean {
+    const haystack = [
+        msg.authorUsername,
+        msg.content,
+        ...msg.attachments.map((file) => file.name),
+        ...msg.embeds.map(embedText),
+    ].join(' ').toLowerCase();
+    return haystack.includes(query);
+}
+
+function TranscriptEmbedCard({ embed }: { embed: TranscriptEmbed }) {
+    const color = typeof embed.color === 'number' ? `#${embed.color.toString(16).padStart(6, '0')}` : undefined;
+
+    return (
+        <div
+            className="mt-2 max-w-xl rounded border-l-4 border-neon-cyan bg-secondary/50 p-3 text-sm space-y-1"
+            style={color ? { borderLeftColor: color } : undefined}
+        >
+            {embed.author?.name && <p className="text-xs text-muted-foreground">{embed.author.name}</p>}
+            {embed.title && <p className="font-semibold">{embed.title}</p>}
+            {embed.description && (
+                <div
+                    className="whitespace-pre-wrap break-words"
+                    dangerouslySetInnerHTML={{ __html: renderDiscordMarkdown(embed.description) }}
+                />
+            )}
+            {embed.fields?.map((field, i) => (
+                <div key={i}>
+                    <p className="font-medium">{field.name}</p>
+                    <div
+                        className="whitespace-pre-wrap break-words text-muted-foreground"
+                        dangerouslySetInnerHTML={{ __html: renderDiscordMarkdown(field.value) }}
+                    />
+                </div>
+            ))}
+            {embed.image?.url && (
+                <img src={embed.image.url} alt="" className="mt-2 max-h-64 rounded" />
+            )}
+            {embed.footer?.text && <p className="text-xs text-muted-foreground">{embed.footer.text}</p>}
+        </div>
+    );
+}
+
+export default function TicketTranscriptPage({ params }: { params: Promise<{ id: string }> }) {
+    const resolvedParams = use(params);
+    const router = useRouter();
+    const { data: session } = useSession();
+    const [transcript, setTranscript] = useState<TicketTranscript | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [search, setSearch] = useState('');
+
+    useEffect(() => {
+        if (session) {
+            const userRole = (session.user as any)?.role;
+            if (!['admin', 'superadmin', 'moderator'].includes(userRole)) {
+                router.push('/helpdesk');
+            } else {
+                fetchTranscript();
+            }
+        }
+    }, [session]);
+
+    const fetchTranscript = async () => {
+        try {
+            const res = await fetch(`/api/tickets/${resolvedParams.id}/transcript`);
+            if (res.ok) {
+                setTranscript(await res.json());
+            } else if (res.status === 403) {
+                router.push('/admin/helpdesk');
+            }
+        } catch (error: any) {
+            console.error('Error fetching transcript:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const filteredMessages = useMemo(() => {
+        if (!transcript) return [];
+        const query = search.trim().toLowerCase();
+        if (!query) return transcript.messages;
+        return transcript.messages.filter((msg) => matchesSearch(msg, query));
+    }, [transcript, search]);
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center min-h-[400px]">
+                <Loader2 className="w-8 h-8 animate-spin text-neon-cyan" />
+            </div>
+        );
+    }
+
+    if (!transcript) {
+        return (
+            <div className="text-center py-16">
+                <AlertCircle className="w-16 h-16 mx-auto mb-4 text-red-400" />
+                <h2 className="text-2xl font-bold mb-2">Transcript Not Found</h2>
+                <p className="text-muted-foreground mb-6">This ticket doesn't exist or was deleted.</p>
+                <Link href="/admin/helpdesk">
+                    <Button variant="neon">Back to Help Desk</Button>
+                </Link>
+            </div>
+        );
+    }
+
+    const { ticket } = transcript;
+    const exportUrl = `/api/tickets/${ticket.id}/transcript?export=`;
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+                <div className="flex items-center gap-4">
+                    <Link href={`/admin/helpdesk/${ticket.id}`}>
+                        <Button variant="ghost" size="sm" className="gap-2">
+                            <ArrowLeft className="w-4 h-4" />
+                            Back
+                        </Button>
+                    </Link>
+                    <div>
+                        <div className="flex items-center gap-3 flex-wrap">
+                            <h1 className="text-2xl font-bold">Ticket #{ticket.number ?? ticket.id} Transcript</h1>
+                            {transcript.source === 'archive' && (
+                                <Badge className="bg-neon-purple/20 text-neon-purple gap-1">
+                                    <Archive className="w-3 h-3" />
+                                    Discord Archive
+                                </Badge>
+                            )}
+                        </div>
+                        <p className="text-muted-foreground mt-1">{ticket.subject}</p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-3">
+                    <a href={`${exportUrl}html`}>
+                        <Button variant="outline" size="sm" className="gap-2">
+                            <Download className="w-4 h-4" />
+                            HTML
+                        </Button>
+                    </a>
+                    <a href={`${exportUrl}json`}>
+                        <Button variant="outline" size="sm" className="gap-2">
+                            <FileJson className="w-4 h-4" />
+                            JSON
+                        </Button>
+                    </a>
+                </div>
+            </div>
+
+            <Card variant="glass">
+                <CardHeader>
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                        <div>
+                            <CardTitle className="flex items-center gap-2">
+                                <FileText className="w-5 h-5" />
+                                Messages ({filteredMessages.length}
+                                {filteredMessages.length !== transcript.messages.length && ` of ${transcript.messages.length}`})
+                            </CardTitle>
+                            <CardDescription>
+                                Opened by {ticket.username} on {new Date(ticket.createdAt).toLocaleString()}
+                                {ticket.closedAt && ` · Closed ${new Date(ticket.closedAt).toLocaleString()}`}
+                            </CardDescription>
+                        </div>
+                        <div className="relative w-full sm:w-72">
+                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                            <Input
+                                placeholder="Search messages..."
+                                value={search}
+                                onChange={(e) => setSearch(e.target.value)}
+                                className="pl-9"
+                            />
+                        </div>
+                    </div>
+                </CardHeader>
+                <CardContent className="space-y-1">
+                    {filteredMessages.length === 0 ? (
+                        <p className="text-center text-muted-foreground py-8">
+                            {transcript.messages.length === 0 ? 'No messages in this ticket.' : 'No messages match your search.'}
+                        </p>
+                    ) : (
+                        filteredMessages.map((msg) => (
+                            <div key={msg.id} className="flex gap-3 p-2 rounded-lg hover:bg-secondary/30">
+                                <Avatar className="w-9 h-9 flex-shrink-0">
+                                    {msg.authorAvatar && <AvatarImage src={msg.authorAvatar} alt={msg.authorUsername} />}
+                                    <AvatarFallback className="bg-secondary">
+                                        {getInitials(msg.authorUsername || 'U')}
+                                    </AvatarFallback>
+                                </Avatar>
+                                <div className="min-w-0 flex-1">
+                                    <div className="flex items-center gap-2 flex-wrap">
+                                        <span className="font-medium">{msg.authorUsername}</span>
+                                        {msg.isBot && (
+                                            <Badge className="bg-indigo-500/20 text-indigo-400 text-xs gap-1">
+                                                <Bot className="w-3 h-3" />
+                                                Bot
+                                            </Badge>
+                                        )}
+                                        {msg.isStaff && (
+                                            <Badge className="bg-neon-cyan/20 text-neon-cyan text-xs">Staff</Badge>
+                                        )}
+                                        {msg.isSystem && (
+                                            <Badge className="bg-gray-500/20 text-gray-400 text-xs">System</Badge>
+                                        )}
+                                        <span className="text-xs text-muted-foreground">
+                                            {new Date(msg.createdAt).toLocaleString()}
+                                        </span>
+                                    </div>
+                                    {msg.content && (
+                                        <div
+                                            className="text-sm whitespace-pre-wrap break-words"
+                                            dangerouslySetInnerHTML={{ __html: renderDiscordMarkdown(msg.content) }}
+                                        />
+                                    )}
+                                    {msg.embeds.map((embed, i) => (
+                                        <TranscriptEmbedCard key={i} embed={embed} />
+                                    ))}
+                                    {msg.attachments.map((file, i) => (
+                                        <a
+                                            key={i}
+                                            href={file.url}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="mt-1 flex items-center gap-2 text-sm text-neon-cyan hover:underline"
+                                        >
+                                            <Paperclip className="w-3 h-3" />
+                                            {file.name}
+                                            {file.size ? <span className="text-xs text-muted-foreground">{formatBytes(file.size)}</span> : null}
+                                        </a>
+                                    ))}
+                                </div>
+                            </div>
+                        ))
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
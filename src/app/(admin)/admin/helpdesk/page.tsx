@@ -9,13 +9,15 @@ import {
     TrendingUp, Users, Filter, Search, Eye, RefreshCw,
     BarChart3, Activity, Zap, Archive, Star, Tag,
     Calendar, ArrowUpRight, Loader2, UserCheck, AlertTriangle,
-    ChevronDown, LayoutDashboard, Settings
+    ChevronDown, LayoutDashboard, Settings, Timer, X, Save
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { formatRelativeTime } from '@/lib/utils';
+import { toast } from 'sonner';
+import type { TicketLifecycleSettings, TicketSla } from '@/lib/ticket-lifecycle';
 
 interface TicketData {
     id: number;
@@ -29,6 +31,7 @@ interface TicketData {
     userId: number;
     assignedTo: number | null;
     discordThreadId?: string;
+    sla?: TicketSla | null;
 }
 
 interface TicketStats {
@@ -49,6 +52,29 @@ const statusConfig: Record<string, { color: string; bgColor: string; icon: any;
     closed: { color: 'text-gray-400', bgColor: 'bg-gray-500/20 border-gray-500/30', icon: Archive, label: 'Closed' },
 };
 
+const WEEKDAY_LABELS = [
+    { key: 'mon', label: 'Monday' },
+    { key: 'tue', label: 'Tuesday' },
+    { key: 'wed', label: 'Wednesday' },
+    { key: 'thu', label: 'Thursday' },
+    { key: 'fri', label: 'Friday' },
+    { key: 'sat', label: 'Saturday' },
+    { key: 'sun', label: 'Sunday' },
+] as const;
+
+const ACTIVE_STATUSES = ['open', 'in_progress', 'waiting'];
+
+function formatWorkingTime(minutes: number): string {
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours}h ${minutes % 60}m`;
+    return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+function isSlaBreached(ticket: TicketData): boolean {
+    return !!ticket.sla && (ticket.sla.firstResponseBreached || ticket.sla.resolutionBreached);
+}
+
 const priorityConfig: Record<string, { color: string; label: string; order: number }> = {
     urgent: { color: 'bg-red-500/20 text-red-400 animate-pulse', label: 'Urgent', order: 0 },
     high: { color: 'bg-orange-500/20 text-orange-400', label: 'High', order: 1 },
@@ -67,6 +93,12 @@ export default function AdminHelpdeskPage() {
     const [priorityFilter, setPriorityFilter] = useState<string>('all');
     const [searchQuery, setSearchQuery] = useState('');
     const [sortBy, setSortBy] = useState<'updated' | 'created' | 'priority'>('updated');
+    const [breachedOnly, setBreachedOnly] = useState(false);
+    const [showSettings, setShowSettings] = useState(false);
+    const [lifecycleSettings, setLifecycleSettings] = useState<TicketLifecycleSettings | null>(null);
+    const [isSavingSettings, setIsSavingSettings] = useState(false);
+
+    const isAdmin = ['admin', 'superadmin'].includes((session?.user as any)?.role);
 
     useEffect(() => {
         if (status === 'unauthenticated') {
@@ -108,6 +140,79 @@ export default function AdminHelpdeskPage() {
         }
     }, []);
 
+    const openSettings = async () => {
+        setShowSettings(true);
+        try {
+            const res = await fetch('/api/admin/ticket-settings');
+            if (res.ok) {
+                setLifecycleSettings(await res.json());
+            } else {
+                toast.error('Failed to load ticket settings');
+            }
+        } catch (error: any) {
+            console.error('Error fetching ticket settings:', error);
+            toast.error('Failed to load ticket settings');
+        }
+    };
+
+    const saveSettings = async () => {
+        if (!lifecycleSettings) return;
+        setIsSavingSettings(true);
+        try {
+            const res = await fetch('/api/admin/ticket-settings', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(lifecycleSettings),
+            });
+            const data = await res.json();
+            if (res.ok) {
+                toast.success('Ticket settings saved');
+                setShowSettings(false);
+                fetchTickets();
+            } else {
+                toast.error(data.error || 'Failed to save ticket settings');
+            }
+        } catch (error: any) {
+            console.error('Error saving ticket settings:', error);
+            toast.error('Failed to save ticket settings');
+        } finally {
+            setIsSavingSettings(false);
+        }
+    };
+
+    const updateSetting = (key: keyof TicketLifecycleSettings, value: any) => {
+        setLifecycleSettings((prev) => prev ? { ...prev, [key]: value } : prev);
+    };
+
+    const toggleWorkingDay = (day: string, enabled: boolean) => {
+        setLifecycleSettings((prev) => {
+            if (!prev) return prev;
+            const current = prev.workingHours || {
+                timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+                schedule: {},
+            };
+            const schedule: Record<string, { start: string; end: string }> = { ...current.schedule };
+            if (enabled) {
+                schedule[day] = { start: '09:00', end: '17:00' };
+            } else {
+                delete schedule[day];
+            }
+            return {
+                ...prev,
+                workingHours: Object.keys(schedule).length > 0 ? { ...current, schedule } : null,
+            };
+        });
+    };
+
+    const updateWorkingDay = (day: string, field: 'start' | 'end', value: string) => {
+        setLifecycleSettings((prev) => {
+            if (!prev?.workingHours) return prev;
+            const schedule: Record<string, { start: string; end: string }> = { ...prev.workingHours.schedule };
+            schedule[day] = { ...schedule[day], [field]: value };
+            return { ...prev, workingHours: { ...prev.workingHours, schedule } };
+        });
+    };
+
     const handleStatusChange = async (ticketId: number, newStatus: string) => {
         try {
             const res = await fetch(`/api/tickets/${ticketId}`, {
@@ -143,11 +248,12 @@ export default function AdminHelpdeskPage() {
         .filter((ticket: any) => {
             const matchesStatus = statusFilter === 'all' || ticket.status === statusFilter;
             const matchesPriority = priorityFilter === 'all' || ticket.priority === priorityFilter;
+            const matchesBreach = !breachedOnly || (ACTIVE_STATUSES.includes(ticket.status) && isSlaBreached(ticket));
             const matchesSearch = searchQuery === '' ||
                 ticket.subject.toLowerCase().includes(searchQuery.toLowerCase()) ||
                 ticket.username?.toLowerCase().includes(searchQuery.toLowerCase()) ||
                 ticket.id.toString().includes(searchQuery);
-            return matchesStatus && matchesPriority && matchesSearch;
+            return matchesStatus && matchesPriority && matchesBreach && matchesSearch;
         })
         .sort((a: any, b: any) => {
             if (sortBy === 'priority') {
@@ -160,6 +266,8 @@ export default function AdminHelpdeskPage() {
             return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
         });
 
+    const breachedCount = tickets.filter((ticket) => ACTIVE_STATUSES.includes(ticket.status) && isSlaBreached(ticket)).length;
+
     if (status === 'loading' || isLoading) {
         return (
             <div className="flex items-center justify-center min-h-[400px]">
@@ -189,6 +297,26 @@ export default function AdminHelpdeskPage() {
                         <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
                         Refresh
                     </Button>
+                    <Link href="/admin/helpdesk/stats">
+                        <Button variant="outline" size="sm" className="gap-2">
+                            <TrendingUp className="w-4 h-4" />
+                            Stats
+                        </Button>
+                    </Link>
+                    {isAdmin && (
+                        <Link href="/admin/helpdesk/tags">
+                            <Button variant="outline" size="sm" className="gap-2">
+                                <Tag className="w-4 h-4" />
+                                Tags
+                            </Button>
+                        </Link>
+                    )}
+                    {isAdmin && (
+                        <Button variant="outline" size="sm" onClick={openSettings} className="gap-2">
+                            <Timer className="w-4 h-4" />
+                            Lifecycle & SLA
+                        </Button>
+                    )}
                     <Link href="/admin/settings">
                         <Button variant="ghost" size="sm" className="gap-2">
                             <Settings className="w-4 h-4" />
@@ -287,6 +415,34 @@ export default function AdminHelpdeskPage() {
                 </div>
             )}
 
+            {/* SLA Breaches */}
+            {breachedCount > 0 && (
+                <Card variant="glass" className="border-red-500/30">
+                    <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                        <div className="flex items-center gap-3">
+                            <div className="p-2 rounded-lg bg-red-500/20">
+                                <AlertTriangle className="w-5 h-5 text-red-400" />
+                            </div>
+                            <div>
+                                <p className="font-medium">
+                                    {breachedCount} active ticket{breachedCount === 1 ? ' has' : 's have'} breached SLA
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                    First response or resolution has taken longer than the configured working hours
+                                </p>
+                            </div>
+                        </div>
+                        <Button
+                            variant={breachedOnly ? 'destructive' : 'outline'}
+                            size="sm"
+                            onClick={() => setBreachedOnly(!breachedOnly)}
+                        >
+                            {breachedOnly ? 'Show All Tickets' : 'Show Breached Only'}
+                        </Button>
+                    </CardContent>
+                </Card>
+            )}
+
             {/* Filters */}
             <Card variant="glass">
                 <CardContent className="p-4">
@@ -376,6 +532,7 @@ export default function AdminHelpdeskPage() {
                                         <th className="text-left p-4 font-medium text-muted-foreground">Category</th>
                                         <th className="text-left p-4 font-medium text-muted-foreground">Priority</th>
                                         <th className="text-left p-4 font-medium text-muted-foreground">Status</th>
+                                        <th className="text-left p-4 font-medium text-muted-foreground">SLA</th>
                                         <th className="text-left p-4 font-medium text-muted-foreground">Updated</th>
                                         <th className="text-left p-4 font-medium text-muted-foreground">Actions</th>
                                     </tr>
@@ -438,6 +595,20 @@ export default function AdminHelpdeskPage() {
                                                         <option value="closed">Closed</option>
                                                     </select>
                                                 </td>
+                                                <td className="p-4">
+                                                    {ticket.sla ? (
+                                                        <div className="space-y-1 text-xs whitespace-nowrap">
+                                                            <div className={ticket.sla.firstResponseBreached ? 'text-red-400 font-medium' : 'text-muted-foreground'}>
+                                                                {ticket.sla.awaitingFirstResponse ? 'Awaiting reply' : 'First reply'}: {formatWorkingTime(ticket.sla.firstResponseMinutes)}
+                                                            </div>
+                                                            <div className={ticket.sla.resolutionBreached ? 'text-red-400 font-medium' : 'text-muted-foreground'}>
+                                                                {ACTIVE_STATUSES.includes(ticket.status) ? 'Open for' : 'Resolved in'}: {formatWorkingTime(ticket.sla.resolutionMinutes)}
+                                                            </div>
+                                                        </div>
+                                                    ) : (
+                                                        <span className="text-xs text-muted-foreground">-</span>
+                                                    )}
+                                                </td>
                                                 <td className="p-4">
                                                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
                                                         <Calendar className="w-3 h-3" />
@@ -463,7 +634,7 @@ export default function AdminHelpdeskPage() {
                             <Ticket className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
                             <p className="text-lg font-medium mb-2">No tickets found</p>
                             <p className="text-sm text-muted-foreground">
-                                {searchQuery || statusFilter !== 'all' || priorityFilter !== 'all'
+                                {searchQuery || statusFilter !== 'all' || priorityFilter !== 'all' || breachedOnly
                                     ? 'Try adjusting your filters'
                                     : 'No support tickets have been created yet'}
                             </p>
@@ -471,6 +642,144 @@ export default function AdminHelpdeskPage() {
                     )}
                 </CardContent>
             </Card>
+
+            {/* Lifecycle & SLA Settings Modal */}
+            {showSettings && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                    <Card variant="glass" className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+                        <CardHeader>
+                            <div className="flex items-center justify-between">
+                                <div>
+                                    <CardTitle>Ticket Lifecycle & SLA</CardTitle>
+                                    <CardDescription>
+                                        Leave a field blank to turn it off. SLA times only count working hours.
+                                    </CardDescription>
+                                </div>
+                                <Button variant="ghost" size="sm" onClick={() => setShowSettings(false)}>
+                                    <X className="w-4 h-4" />
+                                </Button>
+                            </div>
+                        </CardHeader>
+                        <CardContent className="space-y-6">
+                            {!lifecycleSettings ? (
+                                <div className="flex justify-center py-8">
+                                    <Loader2 className="w-6 h-6 animate-spin text-neon-cyan" />
+                                </div>
+                            ) : (
+                                <>
+                                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                        <div>
+                                            <label className="block text-sm font-medium mb-2">Stale reminder after (hours)</label>
+                                            <Input
+                                                type="number"
+                                                min={0}
+                                                value={lifecycleSettings.staleHours ?? ''}
+                                                onChange={(e) => updateSetting('staleHours', e.target.value ? parseInt(e.target.value) : null)}
+                                                placeholder="Off"
+                                            />
+                                            <p className="text-xs text-muted-foreground mt-1">Ping the opener when staff replied and they haven't</p>
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium mb-2">Auto-close after (hours)</label>
+                                            <Input
+                                                type="number"
+                                                min={0}
+                                                value={lifecycleSettings.autoCloseHours ?? ''}
+                                                onChange={(e) => updateSetting('autoCloseHours', e.target.value ? parseInt(e.target.value) : null)}
+                                                placeholder="Off"
+                                            />
+                                            <p className="text-xs text-muted-foreground mt-1">Close tickets the opener has abandoned</p>
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium mb-2">First response SLA (working hours)</label>
+                                            <Input
+                                                type="number"
+                                                min={0}
+                                                value={lifecycleSettings.slaFirstResponseHours ?? ''}
+                                                onChange={(e) => updateSetting('slaFirstResponseHours', e.target.value ? parseInt(e.target.value) : null)}
+                                                placeholder="Off"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium mb-2">Resolution SLA (working hours)</label>
+                                            <Input
+                                                type="number"
+                                                min={0}
+                                                value={lifecycleSettings.slaResolutionHours ?? ''}
+                                                onChange={(e) => updateSetting('slaResolutionHours', e.target.value ? parseInt(e.target.value) : null)}
+                                                placeholder="Off"
+                                            />
+                                        </div>
+                                    </div>
+
+                                    <div className="space-y-3">
+                                        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                                            <div>
+                                                <p className="text-sm font-medium">Working Hours</p>
+                                                <p className="text-xs text-muted-foreground">
+                                                    {lifecycleSettings.workingHours ? 'Only these hours count toward SLA' : 'No days selected - every hour counts'}
+                                                </p>
+                                            </div>
+                                            {lifecycleSettings.workingHours && (
+                                                <Input
+                                                    value={lifecycleSettings.workingHours.timezone}
+                                                    onChange={(e) => updateSetting('workingHours', { ...lifecycleSettings.workingHours!, timezone: e.target.value })}
+                                                    placeholder="Europe/London"
+                                                    className="sm:w-56"
+                                                />
+                                            )}
+                                        </div>
+                                        {WEEKDAY_LABELS.map(({ key, label }) => {
+                                            const window = lifecycleSettings.workingHours?.schedule[key];
+                                            return (
+                                                <div key={key} className="flex items-center gap-3 p-2 rounded-lg bg-secondary/50">
+                                                    <label className="flex items-center gap-2 w-32 text-sm">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={!!window}
+                                                            onChange={(e) => toggleWorkingDay(key, e.target.checked)}
+                                                        />
+                                                        {label}
+                                                    </label>
+                                                    {window ? (
+                                                        <div className="flex items-center gap-2">
+                                                            <Input
+                                                                type="time"
+                                                                value={window.start}
+                                                                onChange={(e) => updateWorkingDay(key, 'start', e.target.value)}
+                                                                className="w-32"
+                                                            />
+                                                            <span className="text-muted-foreground">to</span>
+                                                            <Input
+                                                                type="time"
+                                                                value={window.end}
+                                                                onChange={(e) => updateWorkingDay(key, 'end', e.target.value)}
+                                                                className="w-32"
+                                                            />
+                                                        </div>
+                                                    ) : (
+                                                        <span className="text-sm text-muted-foreground">Closed</span>
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+
+                                    <div className="flex justify-end gap-3">
+                                        <Button variant="ghost" onClick={() => setShowSettings(false)}>
+                                            Cancel
+                                        </Button>
+                                        <Button variant="neon" onClick={saveSettings} disabled={isSavingSettings} className="gap-2">
+                                            {isSavingSettings ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                                            Save Settings
+                                        </Button>
+                                    </div>
+                                </>
+                            )}
+                        </CardContent>
+                    </Card>
+                </div>
+            )}
         </div>
     );
 }
@@ -0,0 +1,348 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import {
+    ArrowLeft, Loader2, Star, Clock, CheckCircle, Ticket, UserCheck,
+    Trophy, MessageSquare, Calendar
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { formatRelativeTime, getInitials } from '@/lib/utils';
+import type { HelpdeskStats } from '@/lib/helpdesk-stats';
+
+const PRESETS = [
+    { label: '7 days', days: 7 },
+    { label: '30 days', days: 30 },
+    { label: '90 days', days: 90 },
+    { label: 'All time', days: 0 },
+];
+
+function toDateInput(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function formatMinutes(minutes: number | null): string {
+    if (minutes === null) return '-';
+    if (minutes < 60) return `${Math.round(minutes)}m`;
+    const hours = minutes / 60;
+    if (hours < 24) return `${hours.toFixed(1)}h`;
+    return `${(hours / 24).toFixed(1)}d`;
+}
+
+function RatingStars({ rating }: { rating: number }) {
+    return (
+        <span className="inline-flex">
+            {[1, 2, 3, 4, 5].map((value) => (
+                <Star
+                    key={value}
+                    className={`w-3.5 h-3.5 ${value <= Math.round(rating) ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground/40'}`}
+                />
+            ))}
+        </span>
+    );
+}
+
+export default function HelpdeskStatsPage() {
+    const { data: session, status } = useSession();
+    const router = useRouter();
+    const [stats, setStats] = useState<HelpdeskStats | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [from, setFrom] = useState(() => toDateInput(new Date(Date.now() - 30 * 86400000)));
+    const [to, setTo] = useState(() => toDateInput(new Date()));
+
+    const fetchStats = useCallback(async (rangeFrom: string, rangeTo: string) => {
+        setIsLoading(true);
+        try {
+            const params = new URLSearchParams();
+            if (rangeFrom) params.set('from', rangeFrom);
+            if (rangeTo) params.set('to', rangeTo);
+            const res = await fetch(`/api/tickets/stats?${params}`);
+            if (res.ok) {
+                setStats(await res.json());
+            }
+        } catch (error: any) {
+            console.error('Error fetching helpdesk stats:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (status === 'unauthenticated') {
+            router.push('/login');
+        } else if (status === 'authenticated') {
+            const userRole = (session?.user as any)?.role;
+            if (!['admin', 'superadmin', 'moderator'].includes(userRole)) {
+                router.push('/helpdesk');
+            } else {
+                fetchStats(from, to);
+            }
+        }
+    }, [status, session, router]);
+
+    const applyPreset = (days: number) => {
+        const newFrom = days ? toDateInput(new Date(Date.now() - days * 86400000)) : '';
+        const newTo = days ? toDateInput(new Date()) : '';
+        setFrom(newFrom);
+        setTo(newTo);
+        fetchStats(newFrom, newTo);
+    };
+
+    const maxDistribution = stats ? Math.max(...stats.totals.ratingDistribution, 1) : 1;
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+                <div className="flex items-center gap-4">
+                    <Link href="/admin/helpdesk">
+                        <Button variant="ghost" size="sm" className="gap-2">
+                            <ArrowLeft className="w-4 h-4" />
+                            Back
+                        </Button>
+                    </Link>
+                    <div>
+                        <h1 className="text-3xl font-bold gradient-text mb-1">Support Performance</h1>
+                        <p className="text-muted-foreground">
+                            Ratings, response times and workload per staff member
+                        </p>
+                    </div>
+                </div>
+            </div>
+
+            {/* Date Filters */}
+            <Card variant="glass">
+                <CardContent className="p-4 flex flex-col lg:flex-row lg:items-center gap-4">
+                    <div className="flex flex-wrap gap-2">
+                        {PRESETS.map((preset) => (
+                            <Button key={preset.label} variant="outline" size="sm" onClick={() => applyPreset(preset.days)}>
+                                {preset.label}
+                            </Button>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-2 lg:ml-auto">
+                        <Calendar className="w-4 h-4 text-muted-foreground" />
+                        <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-40" />
+                        <span className="text-muted-foreground">to</span>
+                        <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-40" />
+                        <Button variant="neon" size="sm" onClick={() => fetchStats(from, to)}>
+                            Apply
+                        </Button>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {isLoading || !stats ? (
+                <div className="flex items-center justify-center min-h-[300px]">
+                    <Loader2 className="w-8 h-8 animate-spin text-neon-cyan" />
+                </div>
+            ) : (
+                <>
+                    {/* Totals */}
+                    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                        <Card variant="glass" className="border-blue-500/30">
+                            <CardContent className="p-4">
+                                <div className="flex items-center gap-3">
+                                    <div className="p-2 rounded-lg bg-blue-500/20">
+                                        <Ticket className="w-5 h-5 text-blue-400" />
+                                    </div>
+                                    <div>
+                                        <p className="text-2xl font-bold">{stats.totals.opened}</p>
+                                        <p className="text-xs text-muted-foreground">Opened</p>
+                                    </div>
+                                </div>
+                            </CardContent>
+                        </Card>
+                        <Card variant="glass" className="border-green-500/30">
+                            <CardContent className="p-4">
+                                <div className="flex items-center gap-3">
+                                    <div className="p-2 rounded-lg bg-green-500/20">
+                                        <CheckCircle className="w-5 h-5 text-green-400" />
+                                    </div>
+                                    <div>
+                                        <p className="text-2xl font-bold">{stats.totals.closed}</p>
+                                        <p className="text-xs text-muted-foreground">Closed</p>
+                                    </div>
+                                </div>
+                            </CardContent>
+                        </Card>
+                        <Card variant="glass" className="border-neon-cyan/30">
+                            <CardContent className="p-4">
+                                <div className="flex items-center gap-3">
+                                    <div className="p-2 rounded-lg bg-neon-cyan/20">
+                                        <Clock className="w-5 h-5 text-neon-cyan" />
+                                    </div>
+                                    <div>
+                                        <p className="text-2xl font-bold">{formatMinutes(stats.totals.avgFirstResponseMinutes)}</p>
+                                        <p className="text-xs text-muted-foreground">Avg First Response</p>
+                                    </div>
+                                </div>
+                            </CardContent>
+                        </Card>
+                        <Card variant="glass" className="border-yellow-500/30">
+                            <CardContent className="p-4">
+                                <div className="flex items-center gap-3">
+                                    <div className="p-2 rounded-lg bg-yellow-500/20">
+                                        <Star className="w-5 h-5 text-yellow-400" />
+                                    </div>
+                                    <div>
+                                        <p className="text-2xl font-bold">
+                                            {stats.totals.avgRating !== null ? stats.totals.avgRating.toFixed(2) : '-'}
+                                        </p>
+                                        <p className="text-xs text-muted-foreground">
+                                            Avg Rating ({stats.totals.ratingsCount})
+                                        </p>
+                                    </div>
+                                </div>
+                            </CardContent>
+                        </Card>
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                        {/* Staff Leaderboard */}
+                        <Card variant="glass" className="lg:col-span-2">
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Trophy className="w-5 h-5 text-yellow-400" />
+                                    Staff Performance
+                                </CardTitle>
+                                <CardDescription>
+                                    Ratings are credited to the assigned staff member, or whoever claimed the ticket
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent className="p-0">
+                                {stats.staff.length === 0 ? (
+                                    <p className="text-center text-muted-foreground py-12">No staff activity in this period</p>
+                                ) : (
+                                    <div className="overflow-x-auto">
+                                        <table className="w-full">
+                                            <thead>
+                                                <tr className="border-b border-border bg-secondary/30">
+                                                    <th className="text-left p-4 font-medium text-muted-foreground">Staff</th>
+                                                    <th className="text-left p-4 font-medium text-muted-foreground">Rating</th>
+                                                    <th className="text-left p-4 font-medium text-muted-foreground">First Replies</th>
+                                                    <th className="text-left p-4 font-medium text-muted-foreground">Avg Response</th>
+                                                    <th className="text-left p-4 font-medium text-muted-foreground">Claims</th>
+                                                    <th className="text-left p-4 font-medium text-muted-foreground">Closures</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {stats.staff.map((member) => (
+                                                    <tr key={member.key} className="border-b border-border/50 hover:bg-secondary/30 transition-colors">
+                                                        <td className="p-4">
+                                                            <div className="flex items-center gap-3">
+                                                                <Avatar className="w-8 h-8">
+                                                                    {member.avatar && <AvatarImage src={member.avatar} alt={member.name} />}
+                                                                    <AvatarFallback className="bg-secondary">{getInitials(member.name)}</AvatarFallback>
+                                                                </Avatar>
+                                                                <div>
+                                                                    <p className="font-medium">{member.name}</p>
+                                                                    {!member.userId && (
+                                                                        <p className="text-xs text-muted-foreground">Discord only</p>
+                                                                    )}
+                                                                </div>
+                                                            </div>
+                                                        </td>
+                                                        <td className="p-4">
+                                                            {member.avgRating !== null ? (
+                                                                <div className="space-y-1">
+                                                                    <RatingStars rating={member.avgRating} />
+                                                                    <p className="text-xs text-muted-foreground">
+                                                                        {member.avgRating.toFixed(2)} from {member.ratingsCount} · {member.fiveStarCount} ★5
+                                                                    </p>
+                                                                </div>
+                                                            ) : (
+                                                                <span className="text-sm text-muted-foreground">No ratings</span>
+                                                            )}
+                                                        </td>
+                                                        <td className="p-4 text-sm">{member.firstResponses}</td>
+                                                        <td className="p-4 text-sm">{formatMinutes(member.avgFirstResponseMinutes)}</td>
+                                                        <td className="p-4 text-sm">{member.claims}</td>
+                                                        <td className="p-4 text-sm">{member.closures}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                )}
+                            </CardContent>
+                        </Card>
+
+                        {/* Rating Distribution */}
+                        <Card variant="glass">
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <UserCheck className="w-5 h-5 text-neon-cyan" />
+                                    Satisfaction
+                                </CardTitle>
+                                <CardDescription>{stats.totals.ratingsCount} rating(s) in this period</CardDescription>
+                            </CardHeader>
+                            <CardContent className="space-y-3">
+                                {[5, 4, 3, 2, 1].map((rating) => {
+                                    const count = stats.totals.ratingDistribution[rating - 1];
+                                    return (
+                                        <div key={rating} className="flex items-center gap-3">
+                                            <span className="w-8 text-sm flex items-center gap-1">
+                                                {rating}
+                                                <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+                                            </span>
+                                            <div className="flex-1 h-2 rounded-full bg-secondary overflow-hidden">
+                                                <div
+                                                    className="h-full bg-gradient-to-r from-neon-cyan to-neon-purple"
+                                                    style={{ width: `${(count / maxDistribution) * 100}%` }}
+                                                />
+                                            </div>
+                                            <span className="w-8 text-right text-sm text-muted-foreground">{count}</span>
+                                        </div>
+                                    );
+                                })}
+                            </CardContent>
+                        </Card>
+                    </div>
+
+                    {/* Recent Feedback */}
+                    <Card variant="glass">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <MessageSquare className="w-5 h-5" />
+                                Recent Feedback
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-3">
+                            {stats.recentFeedback.length === 0 ? (
+                                <p className="text-center text-muted-foreground py-8">No feedback in this period</p>
+                            ) : (
+                                stats.recentFeedback.map((entry) => (
+                                    <div key={`${entry.ticketId}-${entry.createdAt}`} className="p-3 rounded-lg bg-secondary/50">
+                                        <div className="flex items-center justify-between gap-3 flex-wrap">
+                                            <div className="flex items-center gap-3">
+                                                <RatingStars rating={entry.rating} />
+                                                <Link
+                                                    href={`/admin/helpdesk/${entry.ticketId}`}
+                                                    className="text-sm font-medium hover:text-neon-cyan transition-colors"
+                                                >
+                                                    #{entry.ticketNumber || entry.ticketId} {entry.subject}
+                                                </Link>
+                                            </div>
+                                            <span className="text-xs text-muted-foreground">
+                                                {entry.staffName ? `${entry.staffName} · ` : ''}{formatRelativeTime(entry.createdAt)}
+                                            </span>
+                                        </div>
+                                        {entry.comment && (
+                                            <p className="text-sm text-muted-foreground mt-2 whitespace-pre-wrap">{entry.comment}</p>
+                                        )}
+                                    </div>
+                                ))
+                            )}
+                        </CardContent>
+                    </Card>
+                </>
+            )}
+        </div>
+    );
+}
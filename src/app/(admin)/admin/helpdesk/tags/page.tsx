@@ -0,0 +1,369 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import {
+    ArrowLeft, Plus, Edit, Trash2, Loader2, Save, X, MessageSquareText, Shield, Braces
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { ToggleCard } from '@/components/ui/toggle-switch';
+
+interface TicketTag {
+    id: number;
+    name: string;
+    content: string;
+    emoji: string | null;
+    categoryId: number | null;
+    staffOnly: boolean;
+    enabled: boolean;
+    usageCount: number;
+}
+
+interface TagForm {
+    name: string;
+    content: string;
+    emoji: string;
+    categoryId: number | null;
+    staffOnly: boolean;
+    enabled: boolean;
+}
+
+const defaultForm: TagForm = {
+    name: '',
+    content: '',
+    emoji: '📝',
+    categoryId: null,
+    staffOnly: true,
+    enabled: true,
+};
+
+export default function AdminTicketTagsPage() {
+    const { data: session, status } = useSession();
+    const router = useRouter();
+    const [tags, setTags] = useState<TicketTag[]>([]);
+    const [categories, setCategories] = useState<{ id: number; name: string; emoji: string | null }[]>([]);
+    const [variables, setVariables] = useState<{ key: string; description: string }[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [showModal, setShowModal] = useState(false);
+    const [formData, setFormData] = useState<TagForm>(defaultForm);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (status === 'unauthenticated') {
+            router.push('/login');
+        } else if (status === 'authenticated') {
+            const userRole = (session?.user as any)?.role;
+            if (!['admin', 'superadmin'].includes(userRole)) {
+                router.push('/admin/helpdesk');
+            } else {
+                fetchTags();
+            }
+        }
+    }, [status, session, router]);
+
+    const fetchTags = async () => {
+        try {
+            const res = await fetch('/api/admin/ticket-tags');
+            if (res.ok) {
+                const data = await res.json();
+                setTags(data.tags);
+                setCategories(data.categories);
+                setVariables(data.variables);
+            }
+        } catch (error: any) {
+            console.error('Failed to fetch ticket tags:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const closeModal = () => {
+        setShowModal(false);
+        setEditingId(null);
+        setFormData(defaultForm);
+    };
+
+    const openEditModal = (tag: TicketTag) => {
+        setEditingId(tag.id);
+        setFormData({
+            name: tag.name,
+            content: tag.content,
+            emoji: tag.emoji || '',
+            categoryId: tag.categoryId,
+            staffOnly: tag.staffOnly,
+            enabled: tag.enabled,
+        });
+        setShowModal(true);
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            const res = await fetch('/api/admin/ticket-tags', {
+                method: editingId ? 'PUT' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(editingId ? { id: editingId, ...formData } : formData),
+            });
+            const data = await res.json();
+
+            if (!res.ok) {
+                toast.error(data.error || 'Failed to save tag');
+                return;
+            }
+
+            toast.success(editingId ? 'Tag updated' : 'Tag created');
+            await fetchTags();
+            closeModal();
+        } catch (error: any) {
+            console.error('Failed to save ticket tag:', error);
+            toast.error('Failed to save tag');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (id: number) => {
+        if (!confirm('Delete this tag? Staff will no longer be able to use it on the website or in Discord.')) return;
+
+        try {
+            const res = await fetch(`/api/admin/ticket-tags?id=${id}`, { method: 'DELETE' });
+            if (res.ok) {
+                toast.success('Tag deleted');
+                await fetchTags();
+            } else {
+                const data = await res.json();
+                toast.error(data.error || 'Failed to delete tag');
+            }
+        } catch (error: any) {
+            console.error('Failed to delete ticket tag:', error);
+        }
+    };
+
+    const insertVariable = (key: string) => {
+        setFormData({ ...formData, content: `${formData.content}{${key}}` });
+    };
+
+    const categoryName = (id: number | null) => {
+        const category = categories.find((c) => c.id === id);
+        return category ? `${category.emoji || ''} ${category.name}`.trim() : 'Unknown category';
+    };
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div className="flex items-center gap-4">
+                    <Link href="/admin/helpdesk">
+                        <Button variant="ghost" size="sm" className="gap-2">
+                            <ArrowLeft className="w-4 h-4" />
+                            Back
+                        </Button>
+                    </Link>
+                    <div>
+                        <h1 className="text-3xl font-bold gradient-text mb-1">Canned Responses</h1>
+                        <p className="text-muted-foreground">
+                            Tags staff can insert from the helpdesk or send with /tag in Discord
+                        </p>
+                    </div>
+                </div>
+                <Button variant="gradient" onClick={() => setShowModal(true)}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Create Tag
+                </Button>
+            </div>
+
+            {/* Tags List */}
+            <Card variant="glass">
+                <CardHeader>
+                    <CardTitle>All Tags</CardTitle>
+                    <CardDescription>Tags scoped to a category only show up on tickets in that category</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {isLoading ? (
+                        <div className="flex items-center justify-center py-8">
+                            <Loader2 className="w-6 h-6 animate-spin text-neon-cyan" />
+                        </div>
+                    ) : tags.length === 0 ? (
+                        <div className="text-center py-8 text-muted-foreground">
+                            <MessageSquareText className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                            <p>No canned responses yet</p>
+                            <Button variant="neon" className="mt-4" onClick={() => setShowModal(true)}>
+                                Create First Tag
+                            </Button>
+                        </div>
+                    ) : (
+                        <div className="space-y-3">
+                            {tags.map((tag) => (
+                                <div
+                                    key={tag.id}
+                                    className={`flex items-start gap-4 p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors ${tag.enabled ? '' : 'opacity-60'}`}
+                                >
+                                    <div className="w-10 h-10 rounded-lg bg-neon-cyan/10 border border-neon-cyan/30 flex items-center justify-center text-xl flex-shrink-0">
+                                        {tag.emoji || '📝'}
+                                    </div>
+
+                                    <div className="flex-1 min-w-0">
+                                        <div className="flex items-center gap-2 flex-wrap">
+                                            <span className="font-semibold">{tag.name}</span>
+                                            <Badge variant="secondary" className="text-xs">
+                                                {tag.categoryId ? categoryName(tag.categoryId) : 'All categories'}
+                                            </Badge>
+                                            {tag.staffOnly && (
+                                                <Badge variant="neon-purple" className="text-xs">
+                                                    <Shield className="w-3 h-3 mr-1" /> Staff only
+                                                </Badge>
+                                            )}
+                                            {!tag.enabled && (
+                                                <Badge variant="secondary" className="text-xs">Disabled</Badge>
+                                            )}
+                                        </div>
+                                        <p className="text-sm text-muted-foreground line-clamp-2 whitespace-pre-wrap mt-1">
+                                            {tag.content}
+                                        </p>
+                                        <p className="text-xs text-muted-foreground mt-1">
+                                            Used {tag.usageCount || 0} time{tag.usageCount === 1 ? '' : 's'}
+                                        </p>
+                                    </div>
+
+                                    <div className="flex items-center gap-2">
+                                        <Button variant="ghost" size="icon" onClick={() => openEditModal(tag)}>
+                                            <Edit className="w-4 h-4" />
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            onClick={() => handleDelete(tag.id)}
+                                            className="text-error hover:text-error"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </Button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Create/Edit Modal */}
+            {showModal && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                    <Card variant="glass" className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+                        <CardHeader>
+                            <CardTitle className="flex items-center justify-between">
+                                {editingId ? 'Edit Tag' : 'Create Tag'}
+                                <Button variant="ghost" size="icon" onClick={closeModal}>
+                                    <X className="w-4 h-4" />
+                                </Button>
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium">Name *</label>
+                                    <Input
+                                        value={formData.name}
+                                        onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                                        placeholder="e.g., Ban appeal info"
+                                        maxLength={100}
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium">Emoji</label>
+                                    <Input
+                                        value={formData.emoji}
+                                        onChange={(e) => setFormData({ ...formData, emoji: e.target.value })}
+                                        placeholder="📝"
+                                    />
+                                </div>
+                                <div className="space-y-2 col-span-2">
+                                    <label className="text-sm font-medium">Category</label>
+                                    <select
+                                        value={formData.categoryId ?? ''}
+                                        onChange={(e) => setFormData({ ...formData, categoryId: e.target.value ? parseInt(e.target.value) : null })}
+                                        className="w-full h-10 px-3 rounded-lg bg-secondary/50 border border-border focus:outline-none focus:ring-2 focus:ring-neon-cyan"
+                                    >
+                                        <option value="">All categories</option>
+                                        {categories.map((category) => (
+                                            <option key={category.id} value={category.id}>
+                                                {category.emoji} {category.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div className="space-y-2 col-span-2">
+                                    <label className="text-sm font-medium">Response *</label>
+                                    <Textarea
+                                        value={formData.content}
+                                        onChange={(e) => setFormData({ ...formData, content: e.target.value })}
+                                        placeholder="Hi {username}, thanks for opening ticket {ticket}..."
+                                        rows={6}
+                                        maxLength={4000}
+                                    />
+                                    <div className="flex items-center gap-2 flex-wrap">
+                                        <Braces className="w-4 h-4 text-muted-foreground" />
+                                        {variables.map((variable) => (
+                                            <button
+                                                key={variable.key}
+                                                type="button"
+                                                title={variable.description}
+                                                onClick={() => insertVariable(variable.key)}
+                                                className="px-2 py-0.5 rounded bg-secondary text-xs font-mono hover:bg-neon-cyan/20 hover:text-neon-cyan transition-colors"
+                                            >
+                                                {`{${variable.key}}`}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            </div>
+
+                            <ToggleCard
+                                checked={formData.staffOnly}
+                                onChange={(val) => setFormData({ ...formData, staffOnly: val })}
+                                label="Staff only"
+                                description="Only members with the staff role can send this tag with /tag in Discord"
+                            />
+                            <ToggleCard
+                                checked={formData.enabled}
+                                onChange={(val) => setFormData({ ...formData, enabled: val })}
+                                label="Enabled"
+                                description="Disabled tags are hidden from the helpdesk picker and /tag"
+                            />
+
+                            <div className="flex justify-end gap-3 pt-4">
+                                <Button variant="ghost" onClick={closeModal}>
+                                    Cancel
+                                </Button>
+                                <Button
+                                    variant="gradient"
+                                    onClick={handleSave}
+                                    disabled={isSaving || !formData.name.trim() || !formData.content.trim()}
+                                >
+                                    {isSaving ? (
+                                        <>
+                                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                                            Saving...
+                                        </>
+                                    ) : (
+                                        <>
+                                            <Save className="w-4 h-4 mr-2" />
+                                            {editingId ? 'Update Tag' : 'Create Tag'}
+                                        </>
+                                    )}
+                                </Button>
+                            </div>
+                        </CardContent>
+                    </Card>
+                </div>
+            )}
+        </div>
+    );
+}
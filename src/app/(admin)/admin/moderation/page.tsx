@@ -1,10 +1,11 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import {
   Shield, AlertTriangle, Ban, Eye,
   MessageSquare, Clock, CheckCircle, XCircle,
-  Loader2, X, Search
+  Loader2, X, Search, Trash2, Lock, ExternalLink, Users, VolumeX, History
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -13,18 +14,30 @@ import { Input } from '@/components/ui/input';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { formatRelativeTime, getMinecraftAvatarUrl, getInitials } from '@/lib/utils';
 import { toast } from 'sonner';
+import { useSocket } from '@/lib/socket-context';
+import { REPORTABLE_CONTENT, REPORT_REASONS, type ModerationAction } from '@/lib/report-reasons';
+import type { ReportGroup } from '@/lib/reports';
+import { SANCTION_TYPES, SANCTION_DURATIONS, formatSanctionExpiry, needsDuration, type SanctionType } from '@/lib/sanction-types';
 
-interface Report {
+const ACTION_CONFIG: Record<ModerationAction, { label: string; icon: any; confirm?: string }> = {
+  delete: { label: 'Delete', icon: Trash2, confirm: 'Delete this content? This cannot be undone.' },
+  lock: { label: 'Lock', icon: Lock },
+  warn: { label: 'Warn', icon: AlertTriangle },
+  ban: { label: 'Ban', icon: Ban, confirm: 'Ban the author of this content for the selected length?' },
+};
+
+interface Sanction {
   id: number;
-  contentType: string;
-  contentId: number;
-  reporterId: number;
-  reporterUsername?: string;
+  userId: number;
+  username: string;
+  type: SanctionType;
   reason: string;
-  description: string | null;
-  status: string;
-  createdAt: Date;
-  targetUsername?: string;
+  expiresAt: string | null;
+  active: boolean;
+  issuedByUsername: string;
+  revokedByUsername: string | null;
+  revokeReason: string | null;
+  createdAt: string;
 }
 
 interface AuditLog {
@@ -52,7 +65,16 @@ export default function AdminModerationPage() {
     pendingReports: 0,
     recentActions: 0,
   });
-  const [reports, setReports] = useState<Report[]>([]);
+  const [reports, setReports] = useState<ReportGroup[]>([]);
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+  const [resolvingKey, setResolvingKey] = useState<string | null>(null);
+  // Ban length per report group, in hours; 0 means permanent
+  const [banHours, setBanHours] = useState<Record<string, number>>({});
+  const [sanctions, setSanctions] = useState<Sanction[]>([]);
+  const [historyUsername, setHistoryUsername] = useState('');
+  const [history, setHistory] = useState<{ username: string; sanctions: Sanction[] } | null>(null);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const { onNotification } = useSocket();
   const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -65,6 +87,8 @@ export default function AdminModerationPage() {
   // Form states
   const [banUsername, setBanUsername] = useState('');
   const [banReason, setBanReason] = useState('');
+  const [banType, setBanType] = useState<SanctionType>('temp_ban');
+  const [banDuration, setBanDuration] = useState(SANCTION_DURATIONS[1].hours);
   const [lockPostId, setLockPostId] = useState('');
   const [lockReason, setLockReason] = useState('');
   const [ipToBan, setIpToBan] = useState('');
@@ -75,6 +99,13 @@ export default function AdminModerationPage() {
     fetchModerationData();
   }, []);
 
+  // Refresh the queue as soon as a new report comes in
+  useEffect(() => {
+    return onNotification((notification) => {
+      if (notification.link === '/admin/moderation') fetchModerationData();
+    });
+  }, [onNotification]);
+
   const fetchModerationData = async () => {
     try {
       const res = await fetch('/api/admin/moderation');
@@ -82,6 +113,7 @@ export default function AdminModerationPage() {
         const data = await res.json();
         setStats(data.stats);
         setReports(data.reports || []);
+        setSanctions(data.sanctions || []);
         setAuditLogs(data.auditLogs || []);
       }
     } catch (error: any) {
@@ -96,32 +128,85 @@ export default function AdminModerationPage() {
       toast.error('Please enter a username');
       return;
     }
+    if (!banReason.trim()) {
+      toast.error('Please enter a reason');
+      return;
+    }
 
     setIsSubmitting(true);
     try {
       const res = await fetch('/api/admin/moderation/ban', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ username: banUsername, reason: banReason }),
+        body: JSON.stringify({
+          username: banUsername,
+          reason: banReason,
+          type: banType,
+          durationHours: needsDuration(banType) ? banDuration : null,
+        }),
       });
+      const data = await res.json();
 
       if (res.ok) {
-        toast.success(`User "${banUsername}" has been banned`);
+        toast.success(data.message || `Sanction issued to "${banUsername}"`);
         setShowBanModal(false);
         setBanUsername('');
         setBanReason('');
         fetchModerationData();
       } else {
-        const data = await res.json();
-        toast.error(data.error || 'Failed to ban user');
+        toast.error(data.error || 'Failed to issue sanction');
       }
     } catch (error: any) {
-      toast.error('Failed to ban user');
+      toast.error('Failed to issue sanction');
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const handleRevokeSanction = async (sanction: Sanction) => {
+    const reason = prompt(`Lift ${sanction.username}'s ${SANCTION_TYPES[sanction.type].toLowerCase()}? Optional reason:`);
+    if (reason === null) return;
+
+    try {
+      const res = await fetch(`/api/admin/moderation/sanctions/${sanction.id}`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success(`${SANCTION_TYPES[sanction.type]} lifted`);
+        fetchModerationData();
+        if (history) fetchHistory(history.username);
+      } else {
+        toast.error(data.error || 'Failed to lift sanction');
+      }
+    } catch (error: any) {
+      toast.error('Failed to lift sanction');
+    }
+  };
+
+  const fetchHistory = async (username: string) => {
+    if (!username.trim()) return;
+
+    setIsLoadingHistory(true);
+    try {
+      const res = await fetch(`/api/admin/moderation/sanctions?username=${encodeURIComponent(username.trim())}`);
+      const data = await res.json();
+
+      if (res.ok) {
+        setHistory({ username: data.user.username, sanctions: data.sanctions });
+      } else {
+        toast.error(data.error || 'Failed to load history');
+      }
+    } catch (error: any) {
+      toast.error('Failed to load history');
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
   const handleLockPost = async () => {
     if (!lockPostId) {
       toast.error('Please enter a post ID');
@@ -153,22 +238,37 @@ export default function AdminModerationPage() {
     }
   };
 
-  const handleResolveReport = async (reportId: number, action: 'reviewed' | 'dismissed' | 'actioned') => {
+  const handleResolveReport = async (
+    group: ReportGroup,
+    status: 'reviewed' | 'dismissed' | 'actioned',
+    action?: ModerationAction
+  ) => {
+    if (action && ACTION_CONFIG[action].confirm && !confirm(ACTION_CONFIG[action].confirm)) return;
+
+    setResolvingKey(group.key);
     try {
-      const res = await fetch(`/api/admin/moderation/reports/${reportId}`, {
+      const res = await fetch(`/api/admin/moderation/reports/${group.reportIds[0]}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status: action }),
+        body: JSON.stringify({
+          status,
+          action,
+          notes: reviewNotes[group.key] || '',
+          banHours: action === 'ban' ? banHours[group.key] || null : null,
+        }),
       });
+      const data = await res.json();
 
       if (res.ok) {
-        toast.success(`Report ${action}`);
+        toast.success(action ? `${ACTION_CONFIG[action].label} applied, ${data.resolved} report(s) closed` : `Report ${status}`);
         fetchModerationData();
       } else {
-        toast.error('Failed to update report');
+        toast.error(data.error || 'Failed to update report');
       }
     } catch (error: any) {
       toast.error('Failed to update report');
+    } finally {
+      setResolvingKey(null);
     }
   };
 
@@ -211,7 +311,7 @@ export default function AdminModerationPage() {
                 <AlertTriangle className="w-5 h-5 text-warning" />
               </div>
               <div>
-                <p className="text-2xl font-bold">{reports.length}</p>
+                <p className="text-2xl font-bold">{stats.pendingReports}</p>
                 <p className="text-sm text-muted-foreground">Pending Reports</p>
               </div>
             </div>
@@ -257,43 +357,108 @@ export default function AdminModerationPage() {
           <CardContent>
             {reports.length > 0 ? (
               <div className="space-y-3">
-                {reports.map((report: any) => (
+                {reports.map((group) => (
                   <div
-                    key={report.id}
+                    key={group.key}
                     className="p-4 rounded-lg bg-secondary/50"
                   >
-                    <div className="flex items-start justify-between mb-2">
-                      <div>
-                        <Badge variant={report.contentType === 'user' ? 'error' : 'warning'}>
-                          {report.contentType}
+                    <div className="flex items-start justify-between gap-2 mb-2">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <Badge variant={group.contentType === 'user' ? 'error' : 'warning'}>
+                          {(REPORTABLE_CONTENT as Record<string, string>)[group.contentType] || group.contentType}
                         </Badge>
-                        <p className="font-medium mt-2">{report.reason}</p>
-                        {report.description && (
-                          <p className="text-sm text-muted-foreground mt-1">{report.description}</p>
+                        {group.reportCount > 1 && (
+                          <Badge variant="secondary">
+                            <Users className="w-3 h-3 mr-1" />
+                            {group.reportCount} reports
+                          </Badge>
                         )}
+                        {Object.entries(group.reasons).map(([reason, count]) => (
+                          <span key={reason} className="text-xs text-muted-foreground">
+                            {(REPORT_REASONS as Record<string, string>)[reason] || reason}{count > 1 ? ` ×${count}` : ''}
+                          </span>
+                        ))}
                       </div>
-                      <span className="text-xs text-muted-foreground">
-                        {formatRelativeTime(report.createdAt)}
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {formatRelativeTime(group.lastReportedAt)}
                       </span>
                     </div>
-                    <div className="flex items-center justify-between text-sm text-muted-foreground">
-                      <span>Content ID: <strong>{report.contentId}</strong></span>
-                      <span>Reporter ID: {report.reporterId}</span>
+
+                    {group.content.exists ? (
+                      <div className="p-3 rounded-lg bg-background/50 border border-border mb-2">
+                        <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+                          <span>By <strong>{group.content.authorUsername || 'Unknown user'}</strong></span>
+                          {group.content.link && (
+                            <Link href={group.content.link} target="_blank" className="flex items-center gap-1 hover:text-neon-cyan">
+                              View <ExternalLink className="w-3 h-3" />
+                            </Link>
+                          )}
+                        </div>
+                        {group.content.preview && (
+                          <p className="text-sm whitespace-pre-wrap break-words">{group.content.preview}</p>
+                        )}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground italic mb-2">This content has already been deleted</p>
+                    )}
+
+                    <div className="space-y-1 mb-3">
+                      {group.reports.slice(0, 3).map((report) => (
+                        <p key={report.id} className="text-xs text-muted-foreground">
+                          <strong>{report.reporterUsername || `User #${report.reporterId}`}</strong>
+                          {report.description ? `: ${report.description}` : ` (${(REPORT_REASONS as Record<string, string>)[report.reason] || report.reason})`}
+                        </p>
+                      ))}
+                      {group.reports.length > 3 && (
+                        <p className="text-xs text-muted-foreground">and {group.reports.length - 3} more</p>
+                      )}
+                    </div>
+
+                    <div className="flex gap-2 mb-2">
+                      <Input
+                        value={reviewNotes[group.key] || ''}
+                        onChange={(e) => setReviewNotes({ ...reviewNotes, [group.key]: e.target.value })}
+                        placeholder="Note / reason (sent with warnings and bans)"
+                        className="h-8 text-sm"
+                      />
+                      {group.availableActions.includes('ban') && (
+                        <select
+                          value={banHours[group.key] || 0}
+                          onChange={(e) => setBanHours({ ...banHours, [group.key]: parseInt(e.target.value) })}
+                          className="h-8 px-2 rounded-lg bg-secondary/50 border border-border text-sm"
+                          title="Ban length"
+                        >
+                          {SANCTION_DURATIONS.map((duration) => (
+                            <option key={duration.hours} value={duration.hours}>Ban {duration.label}</option>
+                          ))}
+                          <option value={0}>Ban permanently</option>
+                        </select>
+                      )}
                     </div>
-                    <div className="flex gap-2 mt-3">
-                      <Button
-                        variant="neon"
-                        size="sm"
-                        className="flex-1"
-                        onClick={() => handleResolveReport(report.id, 'actioned')}
-                      >
-                        <CheckCircle className="w-4 h-4 mr-1" />
-                        Action
-                      </Button>
+
+                    <div className="flex flex-wrap gap-2">
+                      {group.content.exists && group.availableActions.map((action) => {
+                        const config = ACTION_CONFIG[action];
+                        const ActionIcon = config.icon;
+                        if (action === 'lock' && group.content.locked) return null;
+                        return (
+                          <Button
+                            key={action}
+                            variant={action === 'ban' || action === 'delete' ? 'destructive' : 'outline'}
+                            size="sm"
+                            disabled={resolvingKey === group.key}
+                            onClick={() => handleResolveReport(group, 'actioned', action)}
+                          >
+                            <ActionIcon className="w-4 h-4 mr-1" />
+                            {config.label}
+                          </Button>
+                        );
+                      })}
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() => handleResolveReport(report.id, 'reviewed')}
+                        disabled={resolvingKey === group.key}
+                        onClick={() => handleResolveReport(group, 'reviewed')}
                       >
                         <Eye className="w-4 h-4 mr-1" />
                         Review
@@ -302,7 +467,8 @@ export default function AdminModerationPage() {
                         variant="ghost"
                         size="sm"
                         className="text-error"
-                        onClick={() => handleResolveReport(report.id, 'dismissed')}
+                        disabled={resolvingKey === group.key}
+                        onClick={() => handleResolveReport(group, 'dismissed')}
                       >
                         <XCircle className="w-4 h-4 mr-1" />
                         Dismiss
@@ -361,6 +527,65 @@ export default function AdminModerationPage() {
         </Card>
       </div>
 
+      {/* Active Sanctions */}
+      <Card variant="glass">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between gap-4 flex-wrap">
+            <span className="flex items-center gap-2">
+              <Ban className="w-5 h-5 text-error" />
+              Active Mutes & Bans
+            </span>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                fetchHistory(historyUsername);
+              }}
+            >
+              <Input
+                value={historyUsername}
+                onChange={(e) => setHistoryUsername(e.target.value)}
+                placeholder="Username"
+                className="h-8 text-sm w-40"
+              />
+              <Button type="submit" variant="outline" size="sm" disabled={isLoadingHistory}>
+                {isLoadingHistory ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <History className="w-4 h-4 mr-1" />}
+                History
+              </Button>
+            </form>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {sanctions.length > 0 ? (
+            <div className="space-y-2">
+              {sanctions.map((sanction) => (
+                <div key={sanction.id} className="flex items-start justify-between gap-3 p-3 rounded-lg bg-secondary/50">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <strong>{sanction.username}</strong>
+                      <Badge variant={sanction.type === 'mute' ? 'warning' : 'error'}>
+                        {sanction.type === 'mute' ? <VolumeX className="w-3 h-3 mr-1" /> : <Ban className="w-3 h-3 mr-1" />}
+                        {SANCTION_TYPES[sanction.type]}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">{formatSanctionExpiry(sanction.expiresAt)}</span>
+                    </div>
+                    <p className="text-sm text-muted-foreground mt-1 break-words">{sanction.reason}</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      By {sanction.issuedByUsername} · {formatRelativeTime(sanction.createdAt)}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleRevokeSanction(sanction)}>
+                    Lift
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center py-6 text-muted-foreground">No active mutes or bans</p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Quick Actions */}
       <Card variant="gradient">
         <CardContent className="py-6">
@@ -372,7 +597,7 @@ export default function AdminModerationPage() {
               onClick={() => setShowBanModal(true)}
             >
               <Ban className="w-6 h-6 mb-2" />
-              <span>Ban User</span>
+              <span>Sanction User</span>
             </Button>
             <Button
               variant="glass"
@@ -409,7 +634,7 @@ export default function AdminModerationPage() {
             <CardHeader>
               <CardTitle className="flex items-center justify-between">
                 <span className="flex items-center gap-2">
-                  <Ban className="w-5 h-5 text-error" /> Ban User
+                  <Ban className="w-5 h-5 text-error" /> Sanction User
                 </span>
                 <Button variant="ghost" size="icon" onClick={() => setShowBanModal(false)}>
                   <X className="w-4 h-4" />
@@ -422,15 +647,45 @@ export default function AdminModerationPage() {
                 <Input
                   value={banUsername}
                   onChange={(e) => setBanUsername(e.target.value)}
-                  placeholder="Enter username to ban"
+                  placeholder="Enter username"
                 />
               </div>
               <div className="space-y-2">
-                <label className="text-sm font-medium">Reason</label>
+                <label className="text-sm font-medium">Type</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {(Object.keys(SANCTION_TYPES) as SanctionType[]).map((type) => (
+                    <Button
+                      key={type}
+                      type="button"
+                      variant={banType === type ? 'neon' : 'outline'}
+                      size="sm"
+                      onClick={() => setBanType(type)}
+                    >
+                      {SANCTION_TYPES[type]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              {needsDuration(banType) && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Duration</label>
+                  <select
+                    value={banDuration}
+                    onChange={(e) => setBanDuration(parseInt(e.target.value))}
+                    className="w-full h-10 px-3 rounded-lg bg-secondary/50 border border-border focus:outline-none focus:ring-2 focus:ring-neon-cyan"
+                  >
+                    {SANCTION_DURATIONS.map((duration) => (
+                      <option key={duration.hours} value={duration.hours}>{duration.label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Reason *</label>
                 <textarea
                   value={banReason}
                   onChange={(e) => setBanReason(e.target.value)}
-                  placeholder="Reason for ban..."
+                  placeholder="Shown to the user..."
                   className="w-full min-h-[80px] px-3 py-2 rounded-lg bg-secondary/50 border border-border focus:outline-none focus:ring-2 focus:ring-neon-cyan"
                 />
               </div>
@@ -438,7 +693,7 @@ export default function AdminModerationPage() {
                 <Button variant="ghost" onClick={() => setShowBanModal(false)}>Cancel</Button>
                 <Button variant="neon" onClick={handleBanUser} disabled={isSubmitting}>
                   {isSubmitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Ban className="w-4 h-4 mr-2" />}
-                  Ban User
+                  Issue {SANCTION_TYPES[banType]}
                 </Button>
               </div>
             </CardContent>
@@ -525,6 +780,65 @@ export default function AdminModerationPage() {
         </div>
       )}
 
+      {/* Sanction History Modal */}
+      {history && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+          <Card className="w-full max-w-2xl max-h-[80vh] overflow-hidden flex flex-col">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center gap-2">
+                  <History className="w-5 h-5 text-neon-cyan" /> Sanction History: {history.username}
+                </span>
+                <Button variant="ghost" size="icon" onClick={() => setHistory(null)}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-y-auto flex-1">
+              {history.sanctions.length > 0 ? (
+                <div className="space-y-2">
+                  {history.sanctions.map((sanction) => {
+                    const inForce = sanction.active && (!sanction.expiresAt || new Date(sanction.expiresAt) > new Date());
+                    return (
+                      <div key={sanction.id} className="p-3 rounded-lg bg-secondary/50">
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="flex items-center gap-2">
+                            <Badge variant={sanction.type === 'warning' ? 'secondary' : sanction.type === 'mute' ? 'warning' : 'error'}>
+                              {SANCTION_TYPES[sanction.type]}
+                            </Badge>
+                            {sanction.type !== 'warning' && (
+                              <span className="text-xs text-muted-foreground">
+                                {inForce
+                                  ? formatSanctionExpiry(sanction.expiresAt)
+                                  : sanction.revokedByUsername ? `Lifted by ${sanction.revokedByUsername}` : 'Expired'}
+                              </span>
+                            )}
+                          </div>
+                          {inForce && sanction.type !== 'warning' && (
+                            <Button variant="ghost" size="sm" onClick={() => handleRevokeSanction(sanction)}>
+                              Lift
+                            </Button>
+                          )}
+                        </div>
+                        <p className="text-sm mt-2 break-words">{sanction.reason}</p>
+                        {sanction.revokeReason && (
+                          <p className="text-xs text-muted-foreground mt-1">Lifted: {sanction.revokeReason}</p>
+                        )}
+                        <p className="text-xs text-muted-foreground mt-1">
+                          By {sanction.issuedByUsername} · {formatRelativeTime(sanction.createdAt)}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <p className="text-center py-8 text-muted-foreground">No sanctions on record</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {/* IP Ban Modal */}
       {showIpBanModal && (
         <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
@@ -0,0 +1,717 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Tag, Plus, Edit, Trash2, Percent, Loader2, Save, X, CalendarClock
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ToggleCard } from '@/components/ui/toggle-switch';
+
+interface PromoCode {
+  id: number;
+  code: string;
+  description: string | null;
+  discountType: 'percent' | 'fixed';
+  discountValue: number;
+  rankIds: string | null;
+  maxUses: number | null;
+  maxUsesPerUser: number | null;
+  usedCount: number;
+  expiresAt: string | null;
+  active: boolean;
+}
+
+interface RankSale {
+  id: number;
+  name: string;
+  percentOff: number;
+  rankIds: string | null;
+  startsAt: string;
+  endsAt: string;
+  active: boolean;
+}
+
+interface RankOption {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface PromoForm {
+  code: string;
+  description: string;
+  discountType: 'percent' | 'fixed';
+  discountValue: string;
+  rankIds: string[];
+  maxUses: string;
+  maxUsesPerUser: string;
+  expiresAt: string;
+  active: boolean;
+}
+
+interface SaleForm {
+  name: string;
+  percentOff: string;
+  rankIds: string[];
+  startsAt: string;
+  endsAt: string;
+  active: boolean;
+}
+
+const defaultPromo: PromoForm = {
+  code: '',
+  description: '',
+  discountType: 'percent',
+  discountValue: '',
+  rankIds: [],
+  maxUses: '',
+  maxUsesPerUser: '1',
+  expiresAt: '',
+  active: true,
+};
+
+const defaultSale: SaleForm = {
+  name: '',
+  percentOff: '',
+  rankIds: [],
+  startsAt: '',
+  endsAt: '',
+  active: true,
+};
+
+function parseRankIds(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const ids = JSON.parse(value);
+    return Array.isArray(ids) ? ids : [];
+  } catch {
+    return [];
+  }
+}
+
+// datetime-local inputs work in local time without a zone
+function toLocalInput(value: string | null): string {
+  if (!value) return '';
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function saleStatus(sale: RankSale): { label: string; variant: 'success' | 'warning' | 'secondary' } {
+  const now = Date.now();
+  if (!sale.active) return { label: 'Disabled', variant: 'secondary' };
+  if (new Date(sale.endsAt).getTime() < now) return { label: 'Ended', variant: 'secondary' };
+  if (new Date(sale.startsAt).getTime() > now) return { label: 'Scheduled', variant: 'warning' };
+  return { label: 'Live', variant: 'success' };
+}
+
+function promoStatus(promo: PromoCode): { label: string; variant: 'success' | 'secondary' } {
+  if (!promo.active) return { label: 'Disabled', variant: 'secondary' };
+  if (promo.expiresAt && new Date(promo.expiresAt).getTime() < Date.now()) return { label: 'Expired', variant: 'secondary' };
+  if (promo.maxUses !== null && promo.usedCount >= promo.maxUses) return { label: 'Used up', variant: 'secondary' };
+  return { label: 'Active', variant: 'success' };
+}
+
+export default function AdminPromotionsPage() {
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [sales, setSales] = useState<RankSale[]>([]);
+  const [ranks, setRanks] = useState<RankOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // null = closed, 0 = creating, otherwise the ID being edited
+  const [editingPromoId, setEditingPromoId] = useState<number | null>(null);
+  const [promoForm, setPromoForm] = useState<PromoForm>(defaultPromo);
+  const [editingSaleId, setEditingSaleId] = useState<number | null>(null);
+  const [saleForm, setSaleForm] = useState<SaleForm>(defaultSale);
+
+  useEffect(() => {
+    fetchAll();
+  }, []);
+
+  const fetchAll = async () => {
+    try {
+      const [promoRes, saleRes, rankRes] = await Promise.all([
+        fetch('/api/admin/promo-codes'),
+        fetch('/api/admin/sales'),
+        fetch('/api/admin/donor-ranks'),
+      ]);
+      if (promoRes.ok) setPromoCodes(await promoRes.json());
+      if (saleRes.ok) setSales(await saleRes.json());
+      if (rankRes.ok) setRanks(await rankRes.json());
+    } catch (error: any) {
+      console.error('Failed to fetch promotions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const rankName = (id: string) => ranks.find((rank) => rank.id === id)?.name || id;
+
+  const describeRanks = (value: string | null) => {
+    const ids = parseRankIds(value);
+    return ids.length > 0 ? ids.map(rankName).join(', ') : 'All ranks';
+  };
+
+  // ---------------------------------------------------------------------------
+  // Promo codes
+  // ---------------------------------------------------------------------------
+
+  const openPromoModal = (promo?: PromoCode) => {
+    setEditingPromoId(promo ? promo.id : 0);
+    setPromoForm(promo ? {
+      code: promo.code,
+      description: promo.description || '',
+      discountType: promo.discountType,
+      discountValue: String(promo.discountValue),
+      rankIds: parseRankIds(promo.rankIds),
+      maxUses: promo.maxUses !== null ? String(promo.maxUses) : '',
+      maxUsesPerUser: promo.maxUsesPerUser !== null ? String(promo.maxUsesPerUser) : '',
+      expiresAt: toLocalInput(promo.expiresAt),
+      active: promo.active,
+    } : defaultPromo);
+  };
+
+  const closePromoModal = () => {
+    setEditingPromoId(null);
+    setPromoForm(defaultPromo);
+  };
+
+  const savePromo = async () => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(
+        editingPromoId ? `/api/admin/promo-codes/${editingPromoId}` : '/api/admin/promo-codes',
+        {
+          method: editingPromoId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...promoForm, expiresAt: fromLocalInput(promoForm.expiresAt) }),
+        }
+      );
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success(editingPromoId ? 'Promo code updated' : 'Promo code created');
+        await fetchAll();
+        closePromoModal();
+      } else {
+        toast.error(data.error || 'Failed to save promo code');
+      }
+    } catch (error: any) {
+      toast.error('Failed to save promo code');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deletePromo = async (promo: PromoCode) => {
+    if (!confirm(`Delete promo code ${promo.code}?`)) return;
+
+    try {
+      const res = await fetch(`/api/admin/promo-codes/${promo.id}`, { method: 'DELETE' });
+      if (res.ok) {
+        toast.success('Promo code deleted');
+        await fetchAll();
+      } else {
+        toast.error('Failed to delete promo code');
+      }
+    } catch (error: any) {
+      toast.error('Failed to delete promo code');
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // Sales
+  // ---------------------------------------------------------------------------
+
+  const openSaleModal = (sale?: RankSale) => {
+    setEditingSaleId(sale ? sale.id : 0);
+    setSaleForm(sale ? {
+      name: sale.name,
+      percentOff: String(sale.percentOff),
+      rankIds: parseRankIds(sale.rankIds),
+      startsAt: toLocalInput(sale.startsAt),
+      endsAt: toLocalInput(sale.endsAt),
+      active: sale.active,
+    } : defaultSale);
+  };
+
+  const closeSaleModal = () => {
+    setEditingSaleId(null);
+    setSaleForm(defaultSale);
+  };
+
+  const saveSale = async () => {
+    setIsSaving(true);
+    try {
+      const res = await fetch(
+        editingSaleId ? `/api/admin/sales/${editingSaleId}` : '/api/admin/sales',
+        {
+          method: editingSaleId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...saleForm,
+            startsAt: fromLocalInput(saleForm.startsAt),
+            endsAt: fromLocalInput(saleForm.endsAt),
+          }),
+        }
+      );
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success(editingSaleId ? 'Sale updated' : 'Sale scheduled');
+        await fetchAll();
+        closeSaleModal();
+      } else {
+        toast.error(data.error || 'Failed to save sale');
+      }
+    } catch (error: any) {
+      toast.error('Failed to save sale');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteSale = async (sale: RankSale) => {
+    if (!confirm(`Delete the "${sale.name}" sale?`)) return;
+
+    try {
+      const res = await fetch(`/api/admin/sales/${sale.id}`, { method: 'DELETE' });
+      if (res.ok) {
+        toast.success('Sale deleted');
+        await fetchAll();
+      } else {
+        toast.error('Failed to delete sale');
+      }
+    } catch (error: any) {
+      toast.error('Failed to delete sale');
+    }
+  };
+
+  const rankPicker = (selected: string[], onChange: (ids: string[]) => void) => (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Ranks</label>
+      <p className="text-xs text-muted-foreground">Leave all unticked to apply to every rank</p>
+      <div className="flex flex-wrap gap-2">
+        {ranks.map((rank) => {
+          const checked = selected.includes(rank.id);
+          return (
+            <button
+              key={rank.id}
+              type="button"
+              onClick={() => onChange(checked ? selected.filter((id) => id !== rank.id) : [...selected, rank.id])}
+              className={`px-3 py-1 rounded-lg border text-sm transition-colors ${checked ? 'border-neon-cyan bg-neon-cyan/10' : 'border-border bg-secondary/50'}`}
+              style={checked ? { color: rank.color } : undefined}
+            >
+              {rank.name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  const liveSales = sales.filter((sale) => saleStatus(sale).label === 'Live').length;
+  const totalRedemptions = promoCodes.reduce((sum, promo) => sum + promo.usedCount, 0);
+
+  return (
+    <div className="space-y-6 min-w-0">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold gradient-text mb-2">Promotions</h1>
+          <p className="text-muted-foreground">
+            Promo codes and sitewide sales for donor ranks
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => openSaleModal()}>
+            <CalendarClock className="w-4 h-4 mr-2" />
+            Schedule Sale
+          </Button>
+          <Button variant="gradient" onClick={() => openPromoModal()}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create Code
+          </Button>
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card variant="glass">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-neon-cyan/20">
+                <Tag className="w-5 h-5 text-neon-cyan" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{promoCodes.filter((promo) => promoStatus(promo).label === 'Active').length}</p>
+                <p className="text-sm text-muted-foreground">Active Codes</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card variant="glass">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-success/20">
+                <Percent className="w-5 h-5 text-success" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{totalRedemptions}</p>
+                <p className="text-sm text-muted-foreground">Code Redemptions</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card variant="glass">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-neon-purple/20">
+                <CalendarClock className="w-5 h-5 text-neon-purple" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{liveSales}</p>
+                <p className="text-sm text-muted-foreground">Sales Running</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-neon-cyan" />
+        </div>
+      ) : (
+        <>
+          {/* Sales */}
+          <Card variant="glass">
+            <CardHeader>
+              <CardTitle>Sales</CardTitle>
+              <CardDescription>
+                Percentage off rank prices for a set time. When sales overlap the biggest one applies.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {sales.length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">No sales scheduled</p>
+              ) : (
+                <div className="space-y-3">
+                  {sales.map((sale) => {
+                    const status = saleStatus(sale);
+                    return (
+                      <div
+                        key={sale.id}
+                        className="flex items-center gap-4 p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors"
+                      >
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="font-semibold">{sale.name}</span>
+                            <Badge variant={status.variant} className="text-xs">{status.label}</Badge>
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            {new Date(sale.startsAt).toLocaleString()} – {new Date(sale.endsAt).toLocaleString()}
+                            {' • '}{describeRanks(sale.rankIds)}
+                          </div>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                          <Badge variant="neon-purple">{sale.percentOff}% off</Badge>
+                          <Button variant="ghost" size="icon" onClick={() => openSaleModal(sale)}>
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deleteSale(sale)}
+                            className="text-error hover:text-error"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Promo Codes */}
+          <Card variant="glass">
+            <CardHeader>
+              <CardTitle>Promo Codes</CardTitle>
+              <CardDescription>Codes are applied on top of any running sale</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {promoCodes.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <Tag className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>No promo codes yet</p>
+                  <Button variant="neon" className="mt-4" onClick={() => openPromoModal()}>
+                    Create First Code
+                  </Button>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {promoCodes.map((promo) => {
+                    const status = promoStatus(promo);
+                    return (
+                      <div
+                        key={promo.id}
+                        className="flex items-center gap-4 p-4 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors"
+                      >
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="font-mono font-semibold">{promo.code}</span>
+                            <Badge variant={status.variant} className="text-xs">{status.label}</Badge>
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            {promo.usedCount}{promo.maxUses !== null ? `/${promo.maxUses}` : ''} uses
+                            {promo.maxUsesPerUser !== null && ` • ${promo.maxUsesPerUser} per player`}
+                            {promo.expiresAt && ` • Expires ${new Date(promo.expiresAt).toLocaleString()}`}
+                            {' • '}{describeRanks(promo.rankIds)}
+                          </div>
+                          {promo.description && (
+                            <div className="text-sm text-muted-foreground">{promo.description}</div>
+                          )}
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                          <Badge variant="secondary">
+                            {promo.discountType === 'percent' ? `${promo.discountValue}% off` : `$${promo.discountValue.toFixed(2)} off`}
+                          </Badge>
+                          <Button variant="ghost" size="icon" onClick={() => openPromoModal(promo)}>
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deletePromo(promo)}
+                            className="text-error hover:text-error"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {/* Promo Code Modal */}
+      {editingPromoId !== null && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <Card variant="glass" className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                {editingPromoId ? 'Edit Promo Code' : 'Create Promo Code'}
+                <Button variant="ghost" size="icon" onClick={closePromoModal}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Code *</label>
+                  <Input
+                    value={promoForm.code}
+                    onChange={(e) => setPromoForm({ ...promoForm, code: e.target.value.toUpperCase() })}
+                    placeholder="SUMMER25"
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Description</label>
+                  <Input
+                    value={promoForm.description}
+                    onChange={(e) => setPromoForm({ ...promoForm, description: e.target.value })}
+                    placeholder="e.g., Summer event giveaway"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Discount Type</label>
+                  <select
+                    value={promoForm.discountType}
+                    onChange={(e) => setPromoForm({ ...promoForm, discountType: e.target.value as PromoForm['discountType'] })}
+                    className="w-full h-10 px-3 rounded-lg bg-secondary/50 border border-border focus:outline-none focus:ring-2 focus:ring-neon-cyan"
+                  >
+                    <option value="percent">Percent off</option>
+                    <option value="fixed">Fixed amount off ($)</option>
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">
+                    {promoForm.discountType === 'percent' ? 'Percent Off *' : 'Amount Off ($) *'}
+                  </label>
+                  <Input
+                    type="number"
+                    value={promoForm.discountValue}
+                    onChange={(e) => setPromoForm({ ...promoForm, discountValue: e.target.value })}
+                    placeholder={promoForm.discountType === 'percent' ? '25' : '5.00'}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Total Uses</label>
+                  <Input
+                    type="number"
+                    value={promoForm.maxUses}
+                    onChange={(e) => setPromoForm({ ...promoForm, maxUses: e.target.value })}
+                    placeholder="Unlimited"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Uses Per Player</label>
+                  <Input
+                    type="number"
+                    value={promoForm.maxUsesPerUser}
+                    onChange={(e) => setPromoForm({ ...promoForm, maxUsesPerUser: e.target.value })}
+                    placeholder="Unlimited"
+                  />
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <label className="text-sm font-medium">Expires</label>
+                  <Input
+                    type="datetime-local"
+                    value={promoForm.expiresAt}
+                    onChange={(e) => setPromoForm({ ...promoForm, expiresAt: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {rankPicker(promoForm.rankIds, (rankIds) => setPromoForm({ ...promoForm, rankIds }))}
+
+              <ToggleCard
+                checked={promoForm.active}
+                onChange={(val) => setPromoForm({ ...promoForm, active: val })}
+                label="Active"
+                description="Turn off to stop the code being used without deleting it"
+              />
+
+              <div className="flex justify-end gap-3 pt-4">
+                <Button variant="ghost" onClick={closePromoModal}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="gradient"
+                  onClick={savePromo}
+                  disabled={isSaving || !promoForm.code || !promoForm.discountValue}
+                >
+                  {isSaving ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <Save className="w-4 h-4 mr-2" />
+                      {editingPromoId ? 'Update Code' : 'Create Code'}
+                    </>
+                  )}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Sale Modal */}
+      {editingSaleId !== null && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <Card variant="glass" className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                {editingSaleId ? 'Edit Sale' : 'Schedule Sale'}
+                <Button variant="ghost" size="icon" onClick={closeSaleModal}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Name *</label>
+                  <Input
+                    value={saleForm.name}
+                    onChange={(e) => setSaleForm({ ...saleForm, name: e.target.value })}
+                    placeholder="e.g., Summer Sale"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Percent Off *</label>
+                  <Input
+                    type="number"
+                    value={saleForm.percentOff}
+                    onChange={(e) => setSaleForm({ ...saleForm, percentOff: e.target.value })}
+                    placeholder="20"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Starts *</label>
+                  <Input
+                    type="datetime-local"
+                    value={saleForm.startsAt}
+                    onChange={(e) => setSaleForm({ ...saleForm, startsAt: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Ends *</label>
+                  <Input
+                    type="datetime-local"
+                    value={saleForm.endsAt}
+                    onChange={(e) => setSaleForm({ ...saleForm, endsAt: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {rankPicker(saleForm.rankIds, (rankIds) => setSaleForm({ ...saleForm, rankIds }))}
+
+              <ToggleCard
+                checked={saleForm.active}
+                onChange={(val) => setSaleForm({ ...saleForm, active: val })}
+                label="Active"
+                description="Turn off to end the sale early"
+              />
+
+              <div className="flex justify-end gap-3 pt-4">
+                <Button variant="ghost" onClick={closeSaleModal}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="gradient"
+                  onClick={saveSale}
+                  disabled={isSaving || !saleForm.name || !saleForm.percentOff || !saleForm.startsAt || !saleForm.endsAt}
+                >
+                  {isSaving ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <Save className="w-4 h-4 mr-2" />
+                      {editingSaleId ? 'Update Sale' : 'Schedule Sale'}
+                    </>
+                  )}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,21 +2,33 @@
 
 import { useState, useEffect } from 'react';
 import {
-    Settings, Save, RefreshCw, CheckCircle, XCircle, Server, Link as LinkIcon, Key, TestTube
+    Settings, Save, RefreshCw, CheckCircle, XCircle, Server, Link as LinkIcon, Key, TestTube,
+    Plus, Edit, Trash2, X, Tag
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { ServerResourceCharts } from '@/components/server-resource-charts';
+
+interface PanelConnection {
+    id: number;
+    name: string;
+    panelUrl: string;
+    hasApiKey: boolean;
+    maskedApiKey: string | null;
+}
+
+const emptyForm = {
+    id: null as number | null,
+    name: '',
+    panelUrl: '',
+    apiKey: '',
+};
 
 export default function PterodactylSettingsPage() {
-    const [config, setConfig] = useState({
-        panelUrl: '',
-        apiKey: '',
-        hasApiKey: false,
-        configured: false,
-        maskedApiKey: null as string | null,
-    });
+    const [panels, setPanels] = useState<PanelConnection[]>([]);
+    const [form, setForm] = useState(emptyForm);
     const [isLoading, setIsLoading] = useState(true);
     const [isSaving, setIsSaving] = useState(false);
     const [isTesting, setIsTesting] = useState(false);
@@ -25,31 +37,41 @@ export default function PterodactylSettingsPage() {
     const [success, setSuccess] = useState<string | null>(null);
 
     useEffect(() => {
-        fetchConfig();
+        fetchPanels();
     }, []);
 
-    const fetchConfig = async () => {
+    const fetchPanels = async () => {
         try {
             const res = await fetch('/api/admin/pterodactyl');
             if (res.ok) {
                 const data = await res.json();
-                setConfig({
-                    panelUrl: data.panelUrl || '',
-                    apiKey: '', // Don't show actual key
-                    hasApiKey: data.hasApiKey || false,
-                    configured: data.configured || false,
-                    maskedApiKey: data.maskedApiKey || null,
-                });
+                setPanels(data.panels || []);
             }
         } catch (err: any) {
-            console.error('Failed to fetch Pterodactyl config:', err);
+            console.error('Failed to fetch Pterodactyl panels:', err);
         } finally {
             setIsLoading(false);
         }
     };
 
+    const editingPanel = form.id ? panels.find((p) => p.id === form.id) : undefined;
+    // An existing panel can be tested and saved with its stored key
+    const hasKey = !!form.apiKey || !!editingPanel?.hasApiKey;
+
+    const resetForm = () => {
+        setForm(emptyForm);
+        setTestResult(null);
+    };
+
+    const startEdit = (panel: PanelConnection) => {
+        setForm({ id: panel.id, name: panel.name, panelUrl: panel.panelUrl, apiKey: '' });
+        setTestResult(null);
+        setError(null);
+        setSuccess(null);
+    };
+
     const handleTest = async () => {
-        if (!config.panelUrl || !config.apiKey) {
+        if (!form.panelUrl || !hasKey) {
             setError('Please enter both Panel URL and API Key to test');
             return;
         }
@@ -63,8 +85,9 @@ export default function PterodactylSettingsPage() {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
-                    panelUrl: config.panelUrl,
-                    apiKey: config.apiKey,
+                    id: form.id,
+                    panelUrl: form.panelUrl,
+                    apiKey: form.apiKey,
                     testOnly: true,
                 }),
             });
@@ -94,8 +117,8 @@ export default function PterodactylSettingsPage() {
     };
 
     const handleSave = async () => {
-        if (!config.panelUrl || !config.apiKey) {
-            setError('Please enter both Panel URL and API Key');
+        if (!form.name || !form.panelUrl || !hasKey) {
+            setError('Please enter a name, Panel URL and API Key');
             return;
         }
 
@@ -108,19 +131,20 @@ export default function PterodactylSettingsPage() {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
-                    panelUrl: config.panelUrl,
-                    apiKey: config.apiKey,
+                    id: form.id,
+                    name: form.name,
+                    panelUrl: form.panelUrl,
+                    apiKey: form.apiKey,
                 }),
             });
 
             const data = await res.json();
 
             if (res.ok) {
-                setSuccess(`Configuration saved! Found ${data.serverCount || 0} servers.`);
-                // Refresh config to get masked key
-                fetchConfig();
-                // Clear the API key field after saving
-                setConfig(prev => ({ ...prev, apiKey: '' }));
+                setSuccess(`${form.name} saved! Found ${data.serverCount || 0} servers.`);
+                resetForm();
+                // Refresh to get the masked key
+                fetchPanels();
             } else {
                 setError(data.error || 'Failed to save configuration');
             }
@@ -131,24 +155,18 @@ export default function PterodactylSettingsPage() {
         }
     };
 
-    const handleClear = async () => {
-        if (!confirm('Are you sure you want to clear the Pterodactyl configuration?')) return;
+    const handleDelete = async (panel: PanelConnection) => {
+        if (!confirm(`Remove ${panel.name}? Servers mapped to it will be looked up on the remaining panels.`)) return;
 
         try {
-            const res = await fetch('/api/admin/pterodactyl', { method: 'DELETE' });
+            const res = await fetch(`/api/admin/pterodactyl?id=${panel.id}`, { method: 'DELETE' });
             if (res.ok) {
-                setSuccess('Configuration cleared');
-                setConfig({
-                    panelUrl: '',
-                    apiKey: '',
-                    hasApiKey: false,
-                    configured: false,
-                    maskedApiKey: null,
-                });
-                setTestResult(null);
+                setSuccess(`${panel.name} removed`);
+                if (form.id === panel.id) resetForm();
+                fetchPanels();
             } else {
                 const data = await res.json();
-                setError(data.error || 'Failed to clear configuration');
+                setError(data.error || 'Failed to remove panel');
             }
         } catch (err: any) {
             setError('Network error');
@@ -168,46 +186,69 @@ export default function PterodactylSettingsPage() {
             <div>
                 <h1 className="text-3xl font-bold gradient-text mb-2">Pterodactyl Settings</h1>
                 <p className="text-muted-foreground">
-                    Configure your Pterodactyl panel integration for server management
+                    Connect one or more Pterodactyl panels for server management
                 </p>
             </div>
 
-            {/* Status Card */}
+            {/* Panels */}
             <Card variant="glass">
                 <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                         <Server className="w-5 h-5 text-neon-purple" />
-                        Connection Status
+                        Panels
                     </CardTitle>
+                    <CardDescription>
+                        Servers are found on whichever panel hosts them. Pick a panel on a server in Server Management to pin it.
+                    </CardDescription>
                 </CardHeader>
                 <CardContent>
-                    <div className="flex items-center gap-4">
-                        {config.configured ? (
-                            <>
-                                <Badge variant="success" className="flex items-center gap-1">
-                                    <CheckCircle className="w-4 h-4" />
-                                    Configured
-                                </Badge>
-                                <span className="text-sm text-muted-foreground">
-                                    Panel: {config.panelUrl}
-                                </span>
-                            </>
-                        ) : (
-                            <Badge variant="secondary" className="flex items-center gap-1">
-                                <XCircle className="w-4 h-4" />
-                                Not Configured
-                            </Badge>
-                        )}
-                    </div>
+                    {panels.length === 0 ? (
+                        <Badge variant="secondary" className="flex items-center gap-1 w-fit">
+                            <XCircle className="w-4 h-4" />
+                            Not Configured
+                        </Badge>
+                    ) : (
+                        <div className="space-y-2">
+                            {panels.map((panel) => (
+                                <div
+                                    key={panel.id}
+                                    className="flex items-center gap-4 p-3 rounded-lg bg-secondary/50"
+                                >
+                                    <CheckCircle className="w-4 h-4 text-success shrink-0" />
+                                    <div className="flex-1 min-w-0">
+                                        <p className="font-medium">{panel.name}</p>
+                                        <p className="text-sm text-muted-foreground truncate">
+                                            {panel.panelUrl}
+                                            {panel.maskedApiKey && ` · ${panel.maskedApiKey}`}
+                                        </p>
+                                    </div>
+                                    <Button variant="ghost" size="icon" onClick={() => startEdit(panel)} title="Edit">
+                                        <Edit className="w-4 h-4" />
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => handleDelete(panel)}
+                                        className="text-error hover:text-error"
+                                        title="Remove"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
                 </CardContent>
             </Card>
 
+            {panels.length > 0 && <ServerResourceCharts />}
+
             {/* Configuration Form */}
             <Card variant="neon-glow">
                 <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                         <Settings className="w-5 h-5 text-neon-cyan" />
-                        Panel Configuration
+                        {editingPanel ? `Edit ${editingPanel.name}` : 'Add Panel'}
                     </CardTitle>
                     <CardDescription>
                         Enter your Pterodactyl panel URL and API key. Use a Client API key generated in your account settings.
@@ -227,14 +268,26 @@ export default function PterodactylSettingsPage() {
                     )}
 
                     <div className="space-y-4">
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium flex items-center gap-2">
+                                <Tag className="w-4 h-4" />
+                                Name
+                            </label>
+                            <Input
+                                value={form.name}
+                                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                                placeholder="e.g., EU Panel"
+                            />
+                        </div>
+
                         <div className="space-y-2">
                             <label className="text-sm font-medium flex items-center gap-2">
                                 <LinkIcon className="w-4 h-4" />
                                 Panel URL
                             </label>
                             <Input
-                                value={config.panelUrl}
-                                onChange={(e) => setConfig({ ...config, panelUrl: e.target.value })}
+                                value={form.panelUrl}
+                                onChange={(e) => setForm({ ...form, panelUrl: e.target.value })}
                                 placeholder="https://panel.example.com"
                             />
                             <p className="text-xs text-muted-foreground">
@@ -249,15 +302,15 @@ export default function PterodactylSettingsPage() {
                             </label>
                             <Input
                                 type="password"
-                                value={config.apiKey}
-                                onChange={(e) => setConfig({ ...config, apiKey: e.target.value })}
-                                placeholder={config.maskedApiKey || 'Enter your Client API key'}
+                                value={form.apiKey}
+                                onChange={(e) => setForm({ ...form, apiKey: e.target.value })}
+                                placeholder={editingPanel?.maskedApiKey || 'Enter your Client API key'}
                             />
                             <p className="text-xs text-muted-foreground">
                                 Generate a Client API key in your Pterodactyl account settings
-                                {config.maskedApiKey && (
+                                {editingPanel?.maskedApiKey && (
                                     <span className="ml-2 text-neon-purple">
-                                        (Current: {config.maskedApiKey})
+                                        (Leave empty to keep {editingPanel.maskedApiKey})
                                     </span>
                                 )}
                             </p>
@@ -290,7 +343,7 @@ export default function PterodactylSettingsPage() {
                         <Button
                             variant="neon-outline"
                             onClick={handleTest}
-                            disabled={isTesting || !config.panelUrl || !config.apiKey}
+                            disabled={isTesting || !form.panelUrl || !hasKey}
                         >
                             {isTesting ? (
                                 <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
@@ -302,22 +355,21 @@ export default function PterodactylSettingsPage() {
                         <Button
                             variant="gradient"
                             onClick={handleSave}
-                            disabled={isSaving || !config.panelUrl || !config.apiKey}
+                            disabled={isSaving || !form.name || !form.panelUrl || !hasKey}
                         >
                             {isSaving ? (
                                 <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
-                            ) : (
+                            ) : form.id ? (
                                 <Save className="w-4 h-4 mr-2" />
+                            ) : (
+                                <Plus className="w-4 h-4 mr-2" />
                             )}
-                            Save Configuration
+                            {form.id ? 'Save Panel' : 'Add Panel'}
                         </Button>
-                        {config.configured && (
-                            <Button
-                                variant="ghost"
-                                onClick={handleClear}
-                                className="text-error hover:text-error"
-                            >
-                                Clear Configuration
+                        {form.id && (
+                            <Button variant="ghost" onClick={resetForm}>
+                                <X className="w-4 h-4 mr-2" />
+                                Cancel
                             </Button>
                         )}
                     </div>
@@ -339,7 +391,7 @@ export default function PterodactylSettingsPage() {
                     </ol>
                     <p className="text-xs text-muted-foreground mt-4">
                         <strong>Note:</strong> The Client API key gives access to servers you have permission to manage.
-                        Make sure you have access to all servers you want to control from this panel.
+                        Make sure you have access to all servers you want to control on each panel.
                     </p>
                 </CardContent>
             </Card>
@@ -0,0 +1,202 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Gauge, Loader2, RefreshCw, Trash2, ShieldOff } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+
+interface RateLimitEntry {
+  key: string;
+  policy: string;
+  identifier: string;
+  hits: number;
+  maxHits: number;
+  windowEndsAt: string;
+}
+
+interface RateLimitPolicy {
+  name: string;
+  limit: number;
+  windowMs: number;
+}
+
+function formatWindow(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes % 60 === 0) return minutes === 60 ? 'hour' : `${minutes / 60} hours`;
+  return minutes === 1 ? 'minute' : `${minutes} minutes`;
+}
+
+function timeUntil(value: string): string {
+  const seconds = Math.max(0, Math.ceil((new Date(value).getTime() - Date.now()) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.ceil(seconds / 60)}m`;
+}
+
+export default function AdminRateLimitsPage() {
+  const [entries, setEntries] = useState<RateLimitEntry[]>([]);
+  const [policies, setPolicies] = useState<RateLimitPolicy[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showAll, setShowAll] = useState(false);
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    fetchEntries();
+  }, [showAll]);
+
+  const fetchEntries = async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch(`/api/admin/rate-limits${showAll ? '?all=true' : ''}`);
+      if (res.ok) {
+        const data = await res.json();
+        setEntries(data.entries);
+        setPolicies(data.policies);
+      }
+    } catch (error: any) {
+      console.error('Failed to fetch rate limits:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClear = async (entry?: RateLimitEntry) => {
+    if (!entry && !confirm('Clear every current block?')) return;
+
+    try {
+      const res = await fetch(
+        entry ? `/api/admin/rate-limits?key=${encodeURIComponent(entry.key)}` : '/api/admin/rate-limits',
+        { method: 'DELETE' }
+      );
+      if (res.ok) {
+        const data = await res.json();
+        toast.success(entry ? `Cleared ${entry.identifier}` : `Cleared ${data.cleared} blocks`);
+        await fetchEntries();
+      } else {
+        toast.error('Failed to clear rate limit');
+      }
+    } catch (error: any) {
+      toast.error('Failed to clear rate limit');
+    }
+  };
+
+  const filtered = entries.filter((entry) =>
+    !search || entry.key.toLowerCase().includes(search.toLowerCase())
+  );
+
+  return (
+    <div className="space-y-6 min-w-0">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold gradient-text mb-2">Rate Limits</h1>
+          <p className="text-muted-foreground">
+            Clients blocked for sending too many requests
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={fetchEntries}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+          <Button
+            variant="gradient"
+            onClick={() => handleClear()}
+            disabled={!entries.some((entry) => entry.hits > entry.maxHits)}
+          >
+            <ShieldOff className="w-4 h-4 mr-2" />
+            Clear All Blocks
+          </Button>
+        </div>
+      </div>
+
+      <Card variant="glass">
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div>
+              <CardTitle>{showAll ? 'Active Counters' : 'Blocked Clients'}</CardTitle>
+              <CardDescription>
+                Counters reset when their window ends. Clearing one lets the client in straight away.
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search IP or user..."
+                className="w-48"
+              />
+              <Button variant="ghost" onClick={() => setShowAll(!showAll)}>
+                {showAll ? 'Blocked only' : 'Show all'}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-neon-cyan" />
+            </div>
+          ) : filtered.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Gauge className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>{showAll ? 'No active counters' : 'Nobody is rate limited right now'}</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {filtered.map((entry) => {
+                const blocked = entry.hits > entry.maxHits;
+                return (
+                  <div
+                    key={entry.key}
+                    className="flex items-center gap-4 p-3 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-mono text-sm truncate">{entry.identifier}</span>
+                        <Badge variant="neon-purple" className="text-xs">{entry.policy}</Badge>
+                        {blocked && <Badge variant="error">Blocked</Badge>}
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        {entry.hits} / {entry.maxHits} requests • resets in {timeUntil(entry.windowEndsAt)}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleClear(entry)}
+                      className="text-error hover:text-error"
+                      title="Clear"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card variant="glass">
+        <CardHeader>
+          <CardTitle>Policies</CardTitle>
+          <CardDescription>Limits are set in src/lib/rate-limit.ts</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid sm:grid-cols-2 gap-2">
+            {policies.map((policy) => (
+              <div key={policy.name} className="flex items-center justify-between p-3 rounded-lg bg-secondary/50">
+                <span className="font-mono text-sm">{policy.name}</span>
+                <span className="text-sm text-muted-foreground">
+                  {policy.limit} per {formatWindow(policy.windowMs)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, RefreshCw, Trash2, Edit, UserCog, Save, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import type { ServerCapability } from '@/lib/server-access';
+
+interface ServerGrant {
+  id: number;
+  userId: number;
+  username: string;
+  serverIdentifier: string;
+  serverName: string | null;
+  capabilities: ServerCapability[];
+  mirrored: boolean;
+  updatedAt: string;
+}
+
+interface CapabilityInfo {
+  id: ServerCapability;
+  label: string;
+  description: string;
+}
+
+interface PanelServer {
+  identifier: string;
+  name: string;
+  panelName: string;
+}
+
+interface GrantForm {
+  username: string;
+  serverIdentifier: string;
+  capabilities: ServerCapability[];
+  mirrorToPanel: boolean;
+}
+
+const emptyForm: GrantForm = {
+  username: '',
+  serverIdentifier: '',
+  capabilities: ['console'],
+  mirrorToPanel: false,
+};
+
+export default function AdminServerAccessPage() {
+  const [grants, setGrants] = useState<ServerGrant[]>([]);
+  const [capabilities, setCapabilities] = useState<CapabilityInfo[]>([]);
+  const [servers, setServers] = useState<PanelServer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState<GrantForm>(emptyForm);
+  const [editing, setEditing] = useState(false);
+
+  useEffect(() => {
+    fetchGrants();
+  }, []);
+
+  const fetchGrants = async () => {
+    setIsLoading(true);
+    try {
+      const res = await fetch('/api/admin/server-access');
+      if (res.ok) {
+        const data = await res.json();
+        setGrants(data.grants);
+        setCapabilities(data.capabilities);
+        setServers(data.servers);
+      }
+    } catch (error: any) {
+      console.error('Failed to fetch server access:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleCapability = (capability: ServerCapability) => {
+    setFormData((prev) => ({
+      ...prev,
+      capabilities: prev.capabilities.includes(capability)
+        ? prev.capabilities.filter((c) => c !== capability)
+        : [...prev.capabilities, capability],
+    }));
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditing(false);
+  };
+
+  const handleEdit = (grant: ServerGrant) => {
+    setFormData({
+      username: grant.username,
+      serverIdentifier: grant.serverIdentifier,
+      capabilities: grant.capabilities,
+      mirrorToPanel: grant.mirrored,
+    });
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!formData.username.trim() || !formData.serverIdentifier) {
+      toast.error('Enter a username and choose a server');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const server = servers.find((s) => s.identifier === formData.serverIdentifier);
+      const res = await fetch('/api/admin/server-access', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...formData, serverName: server?.name }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success(editing ? 'Access updated' : `Granted access to ${formData.username}`);
+        resetForm();
+        await fetchGrants();
+      } else {
+        toast.error(data.error || 'Failed to save access');
+      }
+    } catch (error: any) {
+      toast.error('Failed to save access');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (grant: ServerGrant) => {
+    if (!confirm(`Remove ${grant.username}'s access to ${grant.serverName || grant.serverIdentifier}?`)) return;
+
+    try {
+      const res = await fetch(`/api/admin/server-access?id=${grant.id}`, { method: 'DELETE' });
+      if (res.ok) {
+        toast.success('Access revoked');
+        await fetchGrants();
+      } else {
+        const data = await res.json();
+        toast.error(data.error || 'Failed to revoke access');
+      }
+    } catch (error: any) {
+      toast.error('Failed to revoke access');
+    }
+  };
+
+  const labelFor = (capability: ServerCapability) =>
+    capabilities.find((c) => c.id === capability)?.label || capability;
+
+  return (
+    <div className="space-y-6 min-w-0">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold gradient-text mb-2">Server Access</h1>
+          <p className="text-muted-foreground">
+            Let staff use the server panel for specific servers
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchGrants}>
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <Card variant="glass">
+        <CardHeader>
+          <CardTitle>{editing ? 'Edit Access' : 'Grant Access'}</CardTitle>
+          <CardDescription>
+            Admins already have full access. Saving replaces any existing access the user has to the server.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Username</label>
+              <Input
+                value={formData.username}
+                onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+                placeholder="e.g., Steve"
+                disabled={editing}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Server</label>
+              <select
+                value={formData.serverIdentifier}
+                onChange={(e) => setFormData({ ...formData, serverIdentifier: e.target.value })}
+                disabled={editing}
+                className="w-full h-10 px-3 rounded-lg bg-secondary/50 border border-border focus:outline-none focus:ring-2 focus:ring-neon-cyan"
+              >
+                <option value="">Choose a server...</option>
+                {servers.map((server) => (
+                  <option key={server.identifier} value={server.identifier}>
+                    {server.name} ({server.panelName})
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-2">
+            {capabilities.map((capability) => (
+              <label
+                key={capability.id}
+                className="flex items-start gap-3 p-3 rounded-lg bg-secondary/30 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={formData.capabilities.includes(capability.id)}
+                  onChange={() => toggleCapability(capability.id)}
+                  className="w-4 h-4 mt-0.5 accent-neon-cyan"
+                />
+                <div>
+                  <span className="text-sm font-medium">{capability.label}</span>
+                  <p className="text-xs text-muted-foreground">{capability.description}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <label className="flex items-start gap-3 p-3 rounded-lg bg-secondary/30 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={formData.mirrorToPanel}
+              onChange={(e) => setFormData({ ...formData, mirrorToPanel: e.target.checked })}
+              className="w-4 h-4 mt-0.5 accent-neon-cyan"
+            />
+            <div>
+              <span className="text-sm font-medium">Add as Pterodactyl subuser</span>
+              <p className="text-xs text-muted-foreground">
+                Also invites the user&apos;s email address to the server on the panel with the same permissions
+              </p>
+            </div>
+          </label>
+
+          <div className="flex justify-end gap-2">
+            {editing && (
+              <Button variant="ghost" onClick={resetForm}>
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+            )}
+            <Button variant="gradient" onClick={handleSave} disabled={isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+              {editing ? 'Save Changes' : 'Grant Access'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card variant="glass">
+        <CardHeader>
+          <CardTitle>Current Access</CardTitle>
+          <CardDescription>Users listed here see only these servers in the server panel</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-neon-cyan" />
+            </div>
+          ) : grants.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <UserCog className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No one has been granted server access yet</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {grants.map((grant) => (
+                <div
+                  key={grant.id}
+                  className="flex items-center gap-4 p-3 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium">{grant.username}</span>
+                      <span className="text-sm text-muted-foreground truncate">
+                        on {grant.serverName || grant.serverIdentifier}
+                      </span>
+                      {grant.mirrored && <Badge variant="neon-purple" className="text-xs">Subuser</Badge>}
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {grant.capabilities.map((capability) => (
+                        <Badge key={capability} variant="secondary" className="text-xs">
+                          {labelFor(capability)}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => handleEdit(grant)} title="Edit">
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRevoke(grant)}
+                    className="text-error hover:text-error"
+                    title="Revoke"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
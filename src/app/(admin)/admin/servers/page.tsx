@@ -28,13 +28,21 @@ interface ServerData {
   playersMax: number;
   version: string | null;
   orderIndex: number;
-  apiKey: string | null;
+  apiKey?: string; // Only set right after generating, keys can't be read back
+  apiKeyPrefix: string | null;
   pterodactylServerId: string | null;
   pterodactylPanelUrl: string | null;
+  pterodactylPanelId: number | null;
   maintenanceMode: boolean;
   maintenanceMessage: string | null;
 }
 
+interface PanelOption {
+  id: number;
+  name: string;
+  panelUrl: string;
+}
+
 export default function AdminServersPage() {
   const [servers, setServers] = useState<ServerData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -52,6 +60,7 @@ export default function AdminServersPage() {
     curseforgeUrl: '',
     pterodactylServerId: '',
     pterodactylPanelUrl: '',
+    pterodactylPanelId: '',
     maintenanceMode: false,
     maintenanceMessage: '',
   });
@@ -67,14 +76,17 @@ export default function AdminServersPage() {
     curseforgeUrl: '',
     pterodactylServerId: '',
     pterodactylPanelUrl: '',
+    pterodactylPanelId: '',
     maintenanceMode: false,
     maintenanceMessage: '',
   });
   const [showApiKey, setShowApiKey] = useState<number | null>(null);
   const [copiedApiKey, setCopiedApiKey] = useState<number | null>(null);
+  const [panels, setPanels] = useState<PanelOption[]>([]);
 
   useEffect(() => {
     fetchServers();
+    fetchPanels();
     // Auto-refresh every 60 seconds
     const interval = setInterval(fetchServers, 60000);
     return () => clearInterval(interval);
@@ -87,7 +99,7 @@ export default function AdminServersPage() {
       const res = await fetch(`/api/servers/${serverId}/api-key`, { method: 'POST' });
       if (res.ok) {
         const { apiKey } = await res.json();
-        setServers(prev => prev.map((s: any) => s.id === serverId ? { ...s, apiKey } : s));
+        setServers(prev => prev.map((s: any) => s.id === serverId ? { ...s, apiKey, apiKeyPrefix: apiKey.substring(0, 12) } : s));
         setShowApiKey(serverId);
       }
     } catch (err: any) {
@@ -102,14 +114,24 @@ export default function AdminServersPage() {
   };
 
 
+  const fetchPanels = async () => {
+    try {
+      const res = await fetch('/api/admin/pterodactyl');
+      if (res.ok) {
+        const data = await res.json();
+        setPanels(data.panels || []);
+      }
+    } catch (err: any) {
+      console.error('Failed to fetch panels:', err);
+    }
+  };
+
   const fetchServers = async () => {
     try {
       // Fetch servers with live status
       const res = await fetch('/api/servers/status');
       if (res.ok) {
         const data = await res.json();
-        console.log('[Admin Servers] Raw API response:', JSON.stringify(data.servers?.map((s: any) => ({ id: s.id, name: s.name, apiKey: s.apiKey })), null, 2));
-
         // Map the status response to our ServerData format
         const serversWithStatus = (data.servers || []).map((server: any) => ({
           id: server.id,
@@ -127,14 +149,14 @@ export default function AdminServersPage() {
           playersMax: server.players?.max || 0,
           version: server.version,
           orderIndex: server.orderIndex,
-          apiKey: server.apiKey,
+          apiKeyPrefix: server.apiKeyPrefix,
           pterodactylServerId: server.pterodactylServerId,
           pterodactylPanelUrl: server.pterodactylPanelUrl,
+          pterodactylPanelId: server.pterodactylPanelId ?? null,
           maintenanceMode: server.maintenanceMode || false,
           maintenanceMessage: server.maintenanceMessage,
         }));
 
-        console.log('[Admin Servers] Mapped servers with API keys:', serversWithStatus.map((s: any) => ({ id: s.id, name: s.name, apiKey: s.apiKey })));
         setServers(serversWithStatus);
       }
     } catch (err: any) {
@@ -168,6 +190,7 @@ export default function AdminServersPage() {
           curseforgeUrl: '',
           pterodactylServerId: '',
           pterodactylPanelUrl: '',
+          pterodactylPanelId: '',
           maintenanceMode: false,
           maintenanceMessage: '',
         });
@@ -191,6 +214,11 @@ export default function AdminServersPage() {
   };
 
   const startEditServer = (server: ServerData) => {
+    // Servers saved before multi-panel support only have a panel URL
+    const panelId = server.pterodactylPanelId
+      ?? panels.find((p) => p.panelUrl === server.pterodactylPanelUrl?.replace(/\/+$/, ''))?.id
+      ?? null;
+
     setEditingServer(server);
     setEditServerData({
       name: server.name,
@@ -204,6 +232,7 @@ export default function AdminServersPage() {
       curseforgeUrl: server.curseforgeUrl || '',
       pterodactylServerId: server.pterodactylServerId || '',
       pterodactylPanelUrl: server.pterodactylPanelUrl || '',
+      pterodactylPanelId: panelId ? String(panelId) : '',
       maintenanceMode: server.maintenanceMode || false,
       maintenanceMessage: server.maintenanceMessage || '',
     });
@@ -368,13 +397,20 @@ export default function AdminServersPage() {
                   <p className="text-xs text-muted-foreground">The server identifier from your Pterodactyl panel</p>
                 </div>
                 <div className="space-y-2">
-                  <label className="text-sm font-medium">Custom Panel URL</label>
-                  <Input
-                    value={newServer.pterodactylPanelUrl}
-                    onChange={(e) => setNewServer({ ...newServer, pterodactylPanelUrl: e.target.value })}
-                    placeholder="https://panel.example.com (optional)"
-                  />
-                  <p className="text-xs text-muted-foreground">Leave empty to use the global panel URL</p>
+                  <label className="text-sm font-medium">Panel</label>
+                  <select
+                    value={newServer.pterodactylPanelId}
+                    onChange={(e) => setNewServer({ ...newServer, pterodactylPanelId: e.target.value, pterodactylPanelUrl: '' })}
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                  >
+                    <option value="">Find automatically</option>
+                    {panels.map((panel) => (
+                      <option key={panel.id} value={panel.id}>
+                        {panel.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground">The panel this server runs on, set up in Pterodactyl settings</p>
                 </div>
               </div>
             </div>
@@ -537,13 +573,20 @@ export default function AdminServersPage() {
                   <p className="text-xs text-muted-foreground">The server identifier from your Pterodactyl panel</p>
                 </div>
                 <div className="space-y-2">
-                  <label className="text-sm font-medium">Custom Panel URL</label>
-                  <Input
-                    value={editServerData.pterodactylPanelUrl}
-                    onChange={(e) => setEditServerData({ ...editServerData, pterodactylPanelUrl: e.target.value })}
-                    placeholder="https://panel.example.com (optional)"
-                  />
-                  <p className="text-xs text-muted-foreground">Leave empty to use the global panel URL</p>
+                  <label className="text-sm font-medium">Panel</label>
+                  <select
+                    value={editServerData.pterodactylPanelId}
+                    onChange={(e) => setEditServerData({ ...editServerData, pterodactylPanelId: e.target.value, pterodactylPanelUrl: '' })}
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                  >
+                    <option value="">Find automatically</option>
+                    {panels.map((panel) => (
+                      <option key={panel.id} value={panel.id}>
+                        {panel.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground">The panel this server runs on, set up in Pterodactyl settings</p>
                 </div>
               </div>
             </div>
@@ -652,28 +695,37 @@ export default function AdminServersPage() {
                     </Button>
                   ) : null}
                 </div>
-                {server.apiKey ? (
-                  <div className="flex items-center gap-2">
-                    <code className="flex-1 text-xs bg-background px-2 py-1 rounded font-mono truncate">
-                      {showApiKey === server.id ? server.apiKey : '••••••••••••••••••••••••'}
-                    </code>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => copyApiKey(server.id, server.apiKey!)}
-                      title="Copy API Key"
-                    >
-                      {copiedApiKey === server.id ? '✓' : <Copy className="w-4 h-4" />}
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => generateApiKey(server.id)}
-                      title="Regenerate"
-                    >
-                      <RefreshCw className="w-4 h-4" />
-                    </Button>
-                  </div>
+                {server.apiKeyPrefix ? (
+                  <>
+                    <div className="flex items-center gap-2">
+                      <code className="flex-1 text-xs bg-background px-2 py-1 rounded font-mono truncate">
+                        {server.apiKey && showApiKey === server.id ? server.apiKey : `${server.apiKeyPrefix}••••••••••••`}
+                      </code>
+                      {server.apiKey && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => copyApiKey(server.id, server.apiKey!)}
+                          title="Copy API Key"
+                        >
+                          {copiedApiKey === server.id ? '✓' : <Copy className="w-4 h-4" />}
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => generateApiKey(server.id)}
+                        title="Regenerate"
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    {server.apiKey && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        Copy this key now. You won&apos;t be able to see it again.
+                      </p>
+                    )}
+                  </>
                 ) : (
                   <Button
                     variant="neon-outline"
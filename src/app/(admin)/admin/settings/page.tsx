@@ -67,6 +67,7 @@ interface SiteSettings {
   smtpAdminNotifyErrors: boolean;
   smtpAdminNotifyDonations: boolean;
   smtpAdminNotifyRegistrations: boolean;
+  smtpAdminNotifyServerAlerts: boolean;
   // Notification settings
   notifications: NotificationSettings;
 }
@@ -125,6 +126,7 @@ const defaultSettings: SiteSettings = {
   smtpAdminNotifyErrors: false,
   smtpAdminNotifyDonations: false,
   smtpAdminNotifyRegistrations: false,
+  smtpAdminNotifyServerAlerts: false,
   // Notification defaults
   notifications: defaultNotifications,
 };
@@ -1362,6 +1364,27 @@ export default function AdminSettingsPage() {
                         </p>
                       </div>
                     </div>
+
+                    <div className="flex items-start gap-3 p-3 rounded-lg bg-secondary/30">
+                      <div className="p-2 rounded-lg bg-warning/20">
+                        <Server className="w-4 h-4 text-warning" />
+                      </div>
+                      <div className="flex-1">
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium">Server Resource Alerts</span>
+                          <input
+                            type="checkbox"
+                            checked={settings.smtpAdminNotifyServerAlerts}
+                            onChange={(e) => setSettings({ ...settings, smtpAdminNotifyServerAlerts: e.target.checked })}
+                            className="w-4 h-4 accent-neon-cyan"
+                            disabled={!settings.smtpHost}
+                          />
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Receive emails when a game server runs low on memory, disk or CPU
+                        </p>
+                      </div>
+                    </div>
                   </div>
                 </CardContent>
               </Card>
@@ -9,6 +9,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
+import { ServerResourceCharts } from '@/components/server-resource-charts';
 
 interface ServerInfo {
     id: number;
@@ -355,6 +356,9 @@ export default function AdminUptimePage() {
                 </CardContent>
             </Card>
 
+            {/* Resource History (Pterodactyl-linked servers) */}
+            <ServerResourceCharts serverId={selectedServer === 'all' ? undefined : parseInt(selectedServer)} />
+
             {/* Server Stats */}
             <Card variant="glass">
                 <CardHeader>
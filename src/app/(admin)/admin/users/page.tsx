@@ -6,7 +6,7 @@ import Link from 'next/link';
 import {
   Users, Search, Filter, MoreHorizontal,
   Shield, Crown, UserX, Mail, Plus, Loader2,
-  Check, X, Edit, Trash2, Ban, UserCheck, Copy, Key
+  Check, X, Edit, Trash2, Ban, UserCheck, Copy, Key, ShieldOff
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -27,11 +27,16 @@ interface UserData {
   createdAt: Date;
   lastLoginAt: Date | null;
   emailVerified: boolean;
+  twoFactorEnabled: boolean;
   // Rank fields
   donationRankId: string | null;
   rankExpiresAt: Date | null;
   totalDonated: number;
   subscriptionStatus: string | null;
+  rankPaused: boolean | null;
+  pausedRankId: string | null;
+  pausedRemainingDays: number | null;
+  pausedAt: Date | null;
 }
 
 interface UserStats {
@@ -227,13 +232,22 @@ export default function AdminUsersPage() {
   };
 
   const handleBanUser = async (userId: number) => {
+    // Permanent ban from here; mutes and temporary bans are issued from the moderation panel
+    const reason = prompt('Reason for the ban (shown to the user):');
+    if (!reason?.trim()) return;
+
     try {
-      const res = await fetch(`/api/admin/users/${userId}/ban`, { method: 'POST' });
+      const res = await fetch(`/api/admin/users/${userId}/ban`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason }),
+      });
+      const data = await res.json();
       if (res.ok) {
         toast.success('User banned');
         fetchUsers();
       } else {
-        toast.error('Failed to ban user');
+        toast.error(data.error || 'Failed to ban user');
       }
     } catch (error: any) {
       toast.error('Failed to ban user');
@@ -241,6 +255,24 @@ export default function AdminUsersPage() {
     setActionMenuOpen(null);
   };
 
+  const handleResetTwoFactor = async (userId: number) => {
+    if (!confirm('Remove two-factor authentication from this account? The user will be able to sign in with just their password.')) return;
+
+    try {
+      const res = await fetch(`/api/admin/users/${userId}/reset-two-factor`, { method: 'POST' });
+      if (res.ok) {
+        toast.success('Two-factor authentication reset');
+        fetchUsers();
+      } else {
+        const data = await res.json();
+        toast.error(data.error || 'Failed to reset 2FA');
+      }
+    } catch (error: any) {
+      toast.error('Failed to reset 2FA');
+    }
+    setActionMenuOpen(null);
+  };
+
   const handleCopyEmail = async (email: string) => {
     // Check if on mobile (no clipboard API or touch device)
     const isMobile = /iPhone|iPad|iPod|Android/i.test(navigator.userAgent);
@@ -437,7 +469,12 @@ export default function AdminUsersPage() {
                           </div>
                         </div>
                       </td>
-                      <td className="p-4">{getRoleBadge(user.role)}</td>
+                      <td className="p-4">
+                        <div className="flex flex-wrap items-center gap-1">
+                          {getRoleBadge(user.role)}
+                          {user.rankPaused && <Badge variant="warning">Rank paused</Badge>}
+                        </div>
+                      </td>
                       <td className="p-4">
                         <span className="text-neon-cyan font-medium">
                           Lv. {user.level || 1}
@@ -561,6 +598,14 @@ export default function AdminUsersPage() {
               >
                 <Key className="w-4 h-4" /> Reset Password
               </button>
+              {users.find((u: any) => u.id === actionMenuOpen)?.twoFactorEnabled && (
+                <button
+                  className="w-full px-4 py-2 text-left text-sm hover:bg-secondary flex items-center gap-2 text-warning"
+                  onClick={() => actionMenuOpen && handleResetTwoFactor(actionMenuOpen)}
+                >
+                  <ShieldOff className="w-4 h-4" /> Reset 2FA
+                </button>
+              )}
               <button
                 className="w-full px-4 py-2 text-left text-sm hover:bg-secondary flex items-center gap-2 text-error"
                 onClick={() => actionMenuOpen && handleDeleteUser(actionMenuOpen)}
@@ -700,6 +745,14 @@ export default function AdminUsersPage() {
                   <Crown className="w-4 h-4 text-neon-pink" />
                   Donation Rank Management
                 </h3>
+                {selectedUser.rankPaused && (
+                  <div className="mb-4 p-3 rounded-lg bg-warning/10 border border-warning/30 text-sm">
+                    Rank <span className="font-medium">
+                      {ranks.find((rank) => rank.id === selectedUser.pausedRankId)?.name || selectedUser.pausedRankId}
+                    </span> paused by the user with {selectedUser.pausedRemainingDays || 0} days frozen
+                    {selectedUser.pausedAt && <> since {formatDate(selectedUser.pausedAt)}</>}.
+                  </div>
+                )}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <label className="text-sm font-medium">Donation Rank</label>
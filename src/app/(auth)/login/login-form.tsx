@@ -4,7 +4,7 @@ import { useState, useEffect } from 'react';
 import { signIn, useSession } from 'next-auth/react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
-import { Eye, EyeOff, LogIn, Loader2 } from 'lucide-react';
+import { Eye, EyeOff, LogIn, Loader2, ShieldCheck } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -27,6 +27,10 @@ export function LoginForm() {
     const { data: session, status } = useSession();
     const callbackUrl = searchParams?.get('callbackUrl') || '/dashboard';
     const error = searchParams?.get('error');
+    // Set when Discord login needs a second factor (see /api/auth/discord/login)
+    const discordTwoFactorId = searchParams?.get('twoFactor') === 'discord'
+        ? searchParams?.get('discordId')
+        : null;
 
     const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
@@ -35,6 +39,8 @@ export function LoginForm() {
     const [isDiscordLoading, setIsDiscordLoading] = useState(false);
     const [errorMessage, setErrorMessage] = useState(error || '');
     const [discordSettings, setDiscordSettings] = useState<DiscordSettings | null>(null);
+    const [twoFactorStep, setTwoFactorStep] = useState(!!discordTwoFactorId);
+    const [totpCode, setTotpCode] = useState('');
 
     // Fetch Discord OAuth settings
     useEffect(() => {
@@ -66,13 +72,28 @@ export function LoginForm() {
         setErrorMessage('');
 
         try {
-            const result = await signIn('credentials', {
-                username,
-                password,
-                redirect: false,
-            });
+            const result = discordTwoFactorId
+                ? await signIn('discord-id', {
+                    discordId: discordTwoFactorId,
+                    totpCode,
+                    redirect: false,
+                })
+                : await signIn('credentials', {
+                    username,
+                    password,
+                    ...(twoFactorStep ? { totpCode } : {}),
+                    redirect: false,
+                });
 
-            if (result?.error) {
+            if (result?.code?.startsWith('account_banned')) {
+                const [, appealToken] = result.code.split(':');
+                window.location.href = appealToken ? `/banned?token=${appealToken}` : '/banned';
+            } else if (result?.code === 'two_factor_required') {
+                setTwoFactorStep(true);
+            } else if (result?.code === 'invalid_two_factor_code') {
+                setErrorMessage('Invalid authentication code');
+                setTotpCode('');
+            } else if (result?.error) {
                 setErrorMessage(result.error === 'CredentialsSignin'
                     ? 'Invalid username or password'
                     : result.error);
@@ -170,52 +191,78 @@ export function LoginForm() {
                             </div>
                         )}
 
-                        <div className="space-y-2">
-                            <label htmlFor="username" className="text-sm font-medium">
-                                Username
-                            </label>
-                            <Input
-                                id="username"
-                                type="text"
-                                placeholder="Enter your username"
-                                value={username}
-                                onChange={(e) => setUsername(e.target.value)}
-                                required
-                                autoComplete="username"
-                                disabled={isLoading}
-                            />
-                        </div>
-
-                        <div className="space-y-2">
-                            <div className="flex items-center justify-between">
-                                <label htmlFor="password" className="text-sm font-medium">
-                                    Password
+                        {twoFactorStep ? (
+                            <div className="space-y-2">
+                                <label htmlFor="totpCode" className="text-sm font-medium flex items-center gap-2">
+                                    <ShieldCheck className="w-4 h-4 text-neon-cyan" />
+                                    Authentication Code
                                 </label>
-                                <Link href="/forgot-password" className="text-sm text-neon-cyan hover:underline">
-                                    Forgot password?
-                                </Link>
-                            </div>
-                            <div className="relative">
                                 <Input
-                                    id="password"
-                                    type={showPassword ? 'text' : 'password'}
-                                    placeholder="Enter your password"
-                                    value={password}
-                                    onChange={(e) => setPassword(e.target.value)}
+                                    id="totpCode"
+                                    type="text"
+                                    inputMode="numeric"
+                                    placeholder="123456 or recovery code"
+                                    value={totpCode}
+                                    onChange={(e) => setTotpCode(e.target.value)}
                                     required
-                                    autoComplete="current-password"
+                                    autoFocus
+                                    autoComplete="one-time-code"
                                     disabled={isLoading}
-                                    className="pr-10"
                                 />
-                                <button
-                                    type="button"
-                                    onClick={() => setShowPassword(!showPassword)}
-                                    className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
-                                >
-                                    {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                                </button>
+                                <p className="text-xs text-muted-foreground">
+                                    Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+                                </p>
                             </div>
-                        </div>
+                        ) : (
+                            <>
+                                <div className="space-y-2">
+                                    <label htmlFor="username" className="text-sm font-medium">
+                                        Username
+                                    </label>
+                                    <Input
+                                        id="username"
+                                        type="text"
+                                        placeholder="Enter your username"
+                                        value={username}
+                                        onChange={(e) => setUsername(e.target.value)}
+                                        required
+                                        autoComplete="username"
+                                        disabled={isLoading}
+                                    />
+                                </div>
+
+                                <div className="space-y-2">
+                                    <div className="flex items-center justify-between">
+                                        <label htmlFor="password" className="text-sm font-medium">
+                                            Password
+                                        </label>
+                                        <Link href="/forgot-password" className="text-sm text-neon-cyan hover:underline">
+                                            Forgot password?
+                                        </Link>
+                                    </div>
+                                    <div className="relative">
+                                        <Input
+                                            id="password"
+                                            type={showPassword ? 'text' : 'password'}
+                                            placeholder="Enter your password"
+                                            value={password}
+                                            onChange={(e) => setPassword(e.target.value)}
+                                            required
+                                            autoComplete="current-password"
+                                            disabled={isLoading}
+                                            className="pr-10"
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={() => setShowPassword(!showPassword)}
+                                            className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
+                                        >
+                                            {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                                        </button>
+                                    </div>
+                                </div>
+                            </>
+                        )}
 
                         <Button
                             type="submit"
@@ -231,7 +278,7 @@ export function LoginForm() {
                             ) : (
                                 <>
                                     <LogIn className="w-4 h-4" />
-                                    Sign In
+                                    {twoFactorStep ? 'Verify' : 'Sign In'}
                                 </>
                             )}
                         </Button>
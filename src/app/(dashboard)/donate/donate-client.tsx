@@ -7,13 +7,16 @@ import Link from 'next/link';
 import {
   Heart, Crown, Star, Sparkles, Check,
   Zap, Shield, Gift, CreditCard, Loader2, X, Clock, RefreshCw, Calendar,
-  Coffee, ExternalLink, AlertCircle
+  Coffee, ExternalLink, AlertCircle, Tag
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { formatCurrency, getMinotaurBustUrl } from '@/lib/utils';
+import { DURATION_OPTIONS, calculateRankPrice, applyPercentOff } from '@/lib/rank-pricing';
+import { DonationGoals } from '@/components/donate/donation-goals';
+import type { GoalProgress } from '@/lib/donation-goals';
 import Image from 'next/image';
 
 interface DonationRank {
@@ -25,6 +28,25 @@ interface DonationRank {
   perks: string[];
   stripePriceId?: string | null;
   stripeProductId?: string | null;
+  sale?: RankSaleInfo | null; // Biggest sale running on this rank
+}
+
+interface RankSaleInfo {
+  name: string;
+  percentOff: number;
+  endsAt: string;
+}
+
+interface ActiveSale extends RankSaleInfo {
+  id: number;
+}
+
+// Price returned by /api/donation-ranks/quote once a promo code is applied
+interface PromoQuote {
+  basePrice: number;
+  amount: number;
+  discountAmount: number;
+  promoCode: string | null;
 }
 
 interface RecentDonation {
@@ -57,6 +79,8 @@ interface UserSubscription {
 
 interface DonatePageClientProps {
   ranks: DonationRank[];
+  sales?: ActiveSale[];
+  goals?: GoalProgress[];
   recentDonations: RecentDonation[];
   stats: DonationStats;
   userSubscription: UserSubscription | null;
@@ -71,14 +95,6 @@ interface PaymentConfig {
   applicationId?: string;
 }
 
-// Duration options for one-time purchases
-const durationOptions = [
-  { days: 30, label: '1 Month', discount: 0 },
-  { days: 90, label: '3 Months', discount: 5 },
-  { days: 180, label: '6 Months', discount: 10 },
-  { days: 365, label: '12 Months', discount: 15 },
-];
-
 // Default ranks if none in database
 const defaultRanks: DonationRank[] = [
   {
@@ -115,7 +131,7 @@ const defaultRanks: DonationRank[] = [
   },
 ];
 
-export function DonatePageClient({ ranks, recentDonations, stats, userSubscription }: DonatePageClientProps) {
+export function DonatePageClient({ ranks, sales = [], goals = [], recentDonations, stats, userSubscription }: DonatePageClientProps) {
   const { data: session, status } = useSession();
   const router = useRouter();
   const [loadingRankId, setLoadingRankId] = useState<string | null>(null);
@@ -131,6 +147,15 @@ export function DonatePageClient({ ranks, recentDonations, stats, userSubscripti
   const [showPurchaseModal, setShowPurchaseModal] = useState(false);
   const [selectedRank, setSelectedRank] = useState<DonationRank | null>(null);
   const [selectedDuration, setSelectedDuration] = useState(30);
+  const [isGift, setIsGift] = useState(false);
+  const [giftRecipient, setGiftRecipient] = useState('');
+  const [giftMessage, setGiftMessage] = useState('');
+  const [squareGiftRecipient, setSquareGiftRecipient] = useState<string | null>(null);
+  const [promoInput, setPromoInput] = useState('');
+  const [promoQuote, setPromoQuote] = useState<PromoQuote | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [promoLoading, setPromoLoading] = useState(false);
+  const [squareChargeAmount, setSquareChargeAmount] = useState<number | null>(null);
 
   // Square subscription modal state
   const [showSquareCardModal, setShowSquareCardModal] = useState(false);
@@ -428,7 +453,8 @@ export function DonatePageClient({ ranks, recentDonations, stats, userSubscripti
       }
 
       // Success! Redirect to success page
-      window.location.href = '/donate/success?provider=square&orderId=' + squareOrderId;
+      window.location.href = '/donate/success?provider=square&orderId=' + squareOrderId
+        + (squareGiftRecipient ? '&gift=' + encodeURIComponent(squareGiftRecipient) : '');
     } catch (err: any) {
       console.error('Square one-time payment error:', err);
       setError(err instanceof Error ? err.message : 'Something went wrong');
@@ -437,13 +463,63 @@ export function DonatePageClient({ ranks, recentDonations, stats, userSubscripti
     }
   }, [squareOrderId, selectedRank]);
 
-  // Calculate price for a rank and duration
+  // Calculate price for a rank and duration, before any sale
   const calculatePrice = (rank: DonationRank, days: number): number => {
-    const pricePerDay = rank.minAmount / 30;
-    const option = durationOptions.find((o: any) => o.days === days);
-    const discount = option?.discount || 0;
-    const basePrice = pricePerDay * days;
-    return Math.round(basePrice * (1 - discount / 100) * 100) / 100;
+    return calculateRankPrice(rank.minAmount, days);
+  };
+
+  // Price after the rank's running sale, if any
+  const calculateSalePrice = (rank: DonationRank, days: number): number => {
+    const price = calculatePrice(rank, days);
+    return rank.sale ? applyPercentOff(price, rank.sale.percentOff) : price;
+  };
+
+  // What checkout will charge: the server's quote once a code is applied
+  const checkoutPrice = (rank: DonationRank, days: number): number => {
+    return promoQuote ? promoQuote.amount : calculateSalePrice(rank, days);
+  };
+
+  const fetchPromoQuote = async (rank: DonationRank, days: number, code: string) => {
+    setPromoLoading(true);
+    setPromoError(null);
+    try {
+      const response = await fetch('/api/donation-ranks/quote', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rankId: rank.id, days, promoCode: code }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to apply promo code');
+      }
+
+      setPromoQuote(data);
+    } catch (err: any) {
+      setPromoQuote(null);
+      setPromoError(err instanceof Error ? err.message : 'Failed to apply promo code');
+    } finally {
+      setPromoLoading(false);
+    }
+  };
+
+  const applyPromoCode = () => {
+    if (!selectedRank || !promoInput.trim()) return;
+    fetchPromoQuote(selectedRank, selectedDuration, promoInput.trim());
+  };
+
+  const removePromoCode = () => {
+    setPromoQuote(null);
+    setPromoInput('');
+    setPromoError(null);
+  };
+
+  const selectDuration = (days: number) => {
+    setSelectedDuration(days);
+    // Fixed-amount codes and the minimum charge depend on the duration
+    if (selectedRank && promoQuote?.promoCode) {
+      fetchPromoQuote(selectedRank, days, promoQuote.promoCode);
+    }
   };
 
   // Format remaining days
@@ -521,7 +597,11 @@ export function DonatePageClient({ ranks, recentDonations, stats, userSubscripti
     setLoadingType('one_time');
 
     try {
-      const amount = calculatePrice(selectedRank, selectedDuration);
+      const amount = checkoutPrice(selectedRank, selectedDuration);
+      const promo = promoQuote?.promoCode ? { promoCode: promoQuote.promoCode } : {};
+      const gift = isGift
+        ? { giftRecipient: giftRecipient.trim(), giftMessage: giftMessage.trim() || undefined }
+        : {};
 
       // For Square, create order and show payment modal
       if (paymentConfig?.provider === 'square') {
@@ -533,6 +613,8 @@ export function DonatePageClient({ ranks, recentDonations, stats, userSubscripti
             days: selectedDuration,
             amount,
             paymentType: 'one_time',
+            ...gift,
+            ...promo,
           }),
         });
 
@@ -544,6 +626,8 @@ export function DonatePageClient({ ranks, recentDonations, stats, userSubscripti
 
         // Store order ID and show payment modal
         setSquareOrderId(data.orderId);
+        setSquareChargeAmount(data.amount ?? amount);
+        setSquareGiftRecipient(data.giftRecipient || null);
         setShowPurchaseModal(false);
         setShowSquareOneTimeModal(true);
         setLoadingRankId(null);
@@ -560,6 +644,8 @@ export function DonatePageClient({ ranks, recentDonations, stats, userSubscripti
           days: selectedDuration,
           amount,
           paymentType: 'one_time',
+          ...gift,
+          ...promo,
         }),
       });
 
@@ -572,12 +658,14 @@ export function DonatePageClient({ ranks, recentDonations, stats, userSubscripti
       if (data.url) {
         window.location.href = data.url;
       }
+      setShowPurchaseModal(false);
     } catch (err: any) {
       setError(err instanceof Error ? err.message : 'Something went wrong');
+      // Leave the modal open so a mistyped gift recipient or code can be fixed
+      if (!isGift && !promoQuote) setShowPurchaseModal(false);
     } finally {
       setLoadingRankId(null);
       setLoadingType(null);
-      setShowPurchaseModal(false);
     }
   };
 
@@ -671,9 +759,17 @@ export function DonatePageClient({ ranks, recentDonations, stats, userSubscripti
   const openPurchaseModal = (rank: DonationRank) => {
     setSelectedRank(rank);
     setSelectedDuration(30);
+    setIsGift(false);
+    setGiftRecipient('');
+    setGiftMessage('');
+    removePromoCode();
+    setError(null);
     setShowPurchaseModal(true);
   };
 
+  // The biggest running sale, for the banner
+  const featuredSale = [...sales].sort((a, b) => b.percentOff - a.percentOff)[0] || null;
+
   // Check if user already has this rank
   const userHasRank = (rankId: string): boolean => {
     return userSubscription?.rank?.id === rankId && !userSubscription?.isExpired;
@@ -711,6 +807,9 @@ export function DonatePageClient({ ranks, recentDonations, stats, userSubscripti
           </p>
         </div>
 
+        {/* Funding goals */}
+        <DonationGoals goals={goals} className="max-w-2xl mx-auto mb-12" />
+
         {/* Loading payment config */}
         {paymentConfigLoading && (
           <div className="text-center py-12">
@@ -760,6 +859,12 @@ export function DonatePageClient({ ranks, recentDonations, stats, userSubscripti
               <p className="text-xs text-muted-foreground mt-4">
                 <strong>Memberships</strong> automatically grant their rank. <strong>One-time donations</strong> are matched to the best rank (e.g. $5 = Supporter). Extra amount grants extra days!
               </p>
+              <p className="text-xs text-muted-foreground mt-2 flex items-center justify-center gap-1">
+                <Gift className="w-3 h-3 text-neon-pink shrink-0" />
+                <span>
+                  To gift a rank, start your Ko-Fi message with <code className="font-mono">gift:PlayerName</code> followed by your message.
+                </span>
+              </p>
               <div className="mt-4 p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-md">
                 <p className="text-xs text-yellow-500 flex items-center justify-center gap-1">
                   <AlertCircle className="w-4 h-4 mr-1 shrink-0" />
@@ -859,6 +964,17 @@ export function DonatePageClient({ ranks, recentDonations, stats, userSubscripti
         {/* Donation Ranks */}
         {!paymentConfigLoading && (paymentConfig?.provider === 'stripe' || paymentConfig?.provider === 'square' || paymentConfig?.provider === 'kofi') && paymentConfig.enabled && (
           <div className="mb-12">
+            {featuredSale && paymentConfig?.provider !== 'kofi' && (
+              <div className="max-w-2xl mx-auto mb-6 p-4 rounded-lg bg-success/10 border border-success/30 text-center">
+                <p className="font-semibold text-success flex items-center justify-center gap-2">
+                  <Tag className="w-4 h-4" />
+                  {featuredSale.name}: up to {featuredSale.percentOff}% off ranks
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Ends {new Date(featuredSale.endsAt).toLocaleString()}
+                </p>
+              </div>
+            )}
             <h2 className="text-2xl font-bold text-center mb-2">Donation Ranks</h2>
             <p className="text-center text-muted-foreground mb-8">
               {paymentConfig?.provider === 'kofi'
@@ -904,10 +1020,25 @@ export function DonatePageClient({ ranks, recentDonations, stats, userSubscripti
                       </div>
                       <CardTitle style={{ color: rank.color }}>{rank.name}</CardTitle>
                       <CardDescription>
-                        <span className="text-2xl font-bold text-foreground">
-                          {formatCurrency(rank.minAmount)}
-                        </span>
-                        <span className="text-muted-foreground">/month</span>
+                        {rank.sale && paymentConfig?.provider !== 'kofi' ? (
+                          <>
+                            <span className="text-lg text-muted-foreground line-through mr-2">
+                              {formatCurrency(rank.minAmount)}
+                            </span>
+                            <span className="text-2xl font-bold text-foreground">
+                              {formatCurrency(calculateSalePrice(rank, 30))}
+                            </span>
+                            <span className="text-muted-foreground">/month</span>
+                            <Badge variant="success" className="ml-2">{rank.sale.percentOff}% off</Badge>
+                          </>
+                        ) : (
+                          <>
+                            <span className="text-2xl font-bold text-foreground">
+                              {formatCurrency(rank.minAmount)}
+                            </span>
+                            <span className="text-muted-foreground">/month</span>
+                          </>
+                        )}
                       </CardDescription>
                     </CardHeader>
 
@@ -1206,20 +1337,23 @@ export function DonatePageClient({ ranks, recentDonations, stats, userSubscripti
                   {selectedRank.icon}
                 </div>
                 <CardTitle style={{ color: selectedRank.color }}>
-                  {userHasRank(selectedRank.id) ? `Extend ${selectedRank.name}` : `Buy ${selectedRank.name}`}
+                  {isGift
+                    ? `Gift ${selectedRank.name}`
+                    : userHasRank(selectedRank.id) ? `Extend ${selectedRank.name}` : `Buy ${selectedRank.name}`}
                 </CardTitle>
                 <CardDescription>
-                  Choose how long you want your rank
+                  {isGift ? 'Choose how long their rank should last' : 'Choose how long you want your rank'}
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="space-y-3 mb-6">
-                  {durationOptions.map((option: any) => {
+                  {DURATION_OPTIONS.map((option) => {
                     const price = calculatePrice(selectedRank, option.days);
+                    const salePrice = calculateSalePrice(selectedRank, option.days);
                     return (
                       <button
                         key={option.days}
-                        onClick={() => setSelectedDuration(option.days)}
+                        onClick={() => selectDuration(option.days)}
                         className={`w-full p-4 rounded-lg border-2 transition-all flex items-center justify-between ${selectedDuration === option.days
                           ? 'border-neon-cyan bg-neon-cyan/10'
                           : 'border-border hover:border-neon-cyan/50'
@@ -1234,30 +1368,119 @@ export function DonatePageClient({ ranks, recentDonations, stats, userSubscripti
                             </Badge>
                           )}
                         </div>
-                        <span className="font-bold text-lg">{formatCurrency(price)}</span>
+                        <span className="text-right">
+                          {salePrice < price && (
+                            <span className="text-sm text-muted-foreground line-through mr-2">{formatCurrency(price)}</span>
+                          )}
+                          <span className="font-bold text-lg">{formatCurrency(salePrice)}</span>
+                        </span>
                       </button>
                     );
                   })}
                 </div>
 
-                {userHasRank(selectedRank.id) && userSubscription?.expiresAt && (
+                {selectedRank.sale && (
+                  <p className="text-sm text-success text-center mb-4">
+                    {selectedRank.sale.name}: {selectedRank.sale.percentOff}% off until {new Date(selectedRank.sale.endsAt).toLocaleString()}
+                  </p>
+                )}
+
+                <div className="mb-4 space-y-2">
+                  {promoQuote?.promoCode ? (
+                    <div className="flex items-center justify-between p-3 rounded-lg bg-success/10 border border-success/30">
+                      <span className="text-sm flex items-center gap-2">
+                        <Tag className="w-4 h-4 text-success" />
+                        <span className="font-mono">{promoQuote.promoCode}</span>
+                        <span className="text-muted-foreground">
+                          {formatCurrency(promoQuote.discountAmount)} off
+                        </span>
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={removePromoCode}>
+                        Remove
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        value={promoInput}
+                        onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                        onKeyDown={(e) => e.key === 'Enter' && applyPromoCode()}
+                        placeholder="Promo code"
+                        className="font-mono"
+                        maxLength={32}
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={applyPromoCode}
+                        disabled={promoLoading || !promoInput.trim()}
+                      >
+                        {promoLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Apply'}
+                      </Button>
+                    </div>
+                  )}
+                  {promoError && <p className="text-sm text-destructive">{promoError}</p>}
+                </div>
+
+                <div className="mb-4 space-y-3">
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={isGift}
+                      onChange={(e) => {
+                        setIsGift(e.target.checked);
+                        setError(null);
+                      }}
+                      className="rounded border-border"
+                    />
+                    <Gift className="w-4 h-4 text-neon-pink" />
+                    Buy this rank as a gift for another player
+                  </label>
+
+                  {isGift && (
+                    <>
+                      <Input
+                        value={giftRecipient}
+                        onChange={(e) => setGiftRecipient(e.target.value)}
+                        placeholder="Their username or Minecraft name"
+                        maxLength={32}
+                      />
+                      <Input
+                        value={giftMessage}
+                        onChange={(e) => setGiftMessage(e.target.value)}
+                        placeholder="Add a message (optional)"
+                        maxLength={200}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Players who haven&apos;t registered yet get the rank as soon as they sign up.
+                      </p>
+                    </>
+                  )}
+                </div>
+
+                {!isGift && userHasRank(selectedRank.id) && userSubscription?.expiresAt && (
                   <p className="text-sm text-muted-foreground text-center mb-4">
                     This will add time to your current rank expiration.
                   </p>
                 )}
 
+                {(isGift || promoQuote) && error && (
+                  <div className="mb-4 p-3 rounded-lg bg-destructive/10 border border-destructive/30">
+                    <p className="text-sm text-destructive">{error}</p>
+                  </div>
+                )}
+
                 <Button
                   variant="gradient"
                   className="w-full"
                   onClick={handleOneTimeRankPurchase}
-                  disabled={loadingRankId === selectedRank.id}
+                  disabled={loadingRankId === selectedRank.id || promoLoading || (isGift && !giftRecipient.trim())}
                 >
                   {loadingRankId === selectedRank.id && loadingType === 'one_time' ? (
                     <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                   ) : (
                     <CreditCard className="w-4 h-4 mr-2" />
                   )}
-                  Pay {formatCurrency(calculatePrice(selectedRank, selectedDuration))}
+                  Pay {formatCurrency(checkoutPrice(selectedRank, selectedDuration))}
                 </Button>
               </CardContent>
             </Card>
@@ -1352,9 +1575,9 @@ export function DonatePageClient({ ranks, recentDonations, stats, userSubscripti
                   Complete Your Purchase
                 </CardTitle>
                 <CardDescription>
-                  {selectedRank.name} Rank - {durationOptions.find((o: any) => o.days === selectedDuration)?.label}
+                  {selectedRank.name} Rank - {DURATION_OPTIONS.find((o) => o.days === selectedDuration)?.label}
                   <span className="block text-neon-cyan font-medium mt-1">
-                    ${calculatePrice(selectedRank, selectedDuration).toFixed(2)}
+                    ${(squareChargeAmount ?? checkoutPrice(selectedRank, selectedDuration)).toFixed(2)}
                   </span>
                 </CardDescription>
               </CardHeader>
@@ -1410,7 +1633,7 @@ export function DonatePageClient({ ranks, recentDonations, stats, userSubscripti
                     ) : (
                       <CreditCard className="w-4 h-4 mr-2" />
                     )}
-                    {squareOneTimeCardReady ? `Pay $${calculatePrice(selectedRank, selectedDuration).toFixed(2)}` : 'Loading...'}
+                    {squareOneTimeCardReady ? `Pay $${(squareChargeAmount ?? checkoutPrice(selectedRank, selectedDuration)).toFixed(2)}` : 'Loading...'}
                   </Button>
                 </div>
               </CardContent>
@@ -2,6 +2,9 @@ import { db } from '@/db';
 import { donationRanks, donations, users } from '@/db/schema';
 import { desc, sql, eq } from 'drizzle-orm';
 import { DonatePageClient } from './donate-client';
+import { getActiveSales, findSaleForRank } from '@/lib/promotions';
+import { getActiveGoalProgress } from '@/lib/donation-goals';
+import type { RankSale } from '@/db/schema';
 import { auth } from '../../../../auth';
 import { Metadata } from 'next';
 
@@ -16,7 +19,25 @@ export const metadata: Metadata = {
 
 export const dynamic = 'force-dynamic';
 
-async function getRanks() {
+async function getSales(): Promise<RankSale[]> {
+  try {
+    return await getActiveSales();
+  } catch (error: any) {
+    console.error('Error fetching sales:', error);
+    return [];
+  }
+}
+
+async function getDonationGoals() {
+  try {
+    return await getActiveGoalProgress();
+  } catch (error: any) {
+    console.error('Error fetching donation goals:', error);
+    return [];
+  }
+}
+
+async function getRanks(sales: RankSale[]) {
   try {
     // Ordering by minAmount - auto-orders by price
     const ranks = await db.select().from(donationRanks).orderBy(donationRanks.minAmount);
@@ -33,6 +54,8 @@ async function getRanks() {
         perks = [];
       }
 
+      const sale = findSaleForRank(sales, r.id);
+
       return {
         id: r.id,
         name: r.name,
@@ -42,6 +65,7 @@ async function getRanks() {
         perks,
         stripeProductId: r.stripeProductId,
         stripePriceMonthly: r.stripePriceMonthly,
+        sale: sale ? { name: sale.name, percentOff: sale.percentOff, endsAt: sale.endsAt.toISOString() } : null,
       };
     });
   } catch (error: any) {
@@ -146,16 +170,20 @@ async function getUserSubscription() {
 }
 
 export default async function DonatePage() {
-  const [ranks, recentDonations, stats, userSubscription] = await Promise.all([
-    getRanks(),
+  const sales = await getSales();
+  const [ranks, recentDonations, stats, userSubscription, goals] = await Promise.all([
+    getRanks(sales),
     getRecentDonations(),
     getDonationStats(),
     getUserSubscription(),
+    getDonationGoals(),
   ]);
 
   return (
     <DonatePageClient
       ranks={ranks}
+      sales={sales.map((sale) => ({ id: sale.id, name: sale.name, percentOff: sale.percentOff, endsAt: sale.endsAt.toISOString() }))}
+      goals={goals}
       recentDonations={recentDonations}
       stats={stats}
       userSubscription={userSubscription}
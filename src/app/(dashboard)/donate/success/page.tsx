@@ -5,7 +5,7 @@ import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import {
   CheckCircle, Crown, Sparkles, ArrowRight,
-  Download, Mail, Home
+  Download, Mail, Home, Gift
 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -26,6 +26,7 @@ interface PaymentDetails {
   amount: number;
   days: number;
   expiresAt: string;
+  giftRecipient?: string | null;
 }
 
 export default function DonationSuccessPage() {
@@ -33,6 +34,7 @@ export default function DonationSuccessPage() {
   const sessionId = searchParams?.get('session_id');
   const [paymentDetails, setPaymentDetails] = useState<PaymentDetails | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const giftRecipient = paymentDetails?.giftRecipient || searchParams?.get('gift') || null;
 
   useEffect(() => {
     // Trigger confetti on mount
@@ -81,7 +83,11 @@ export default function DonationSuccessPage() {
       <Card variant="neon-glow" className="mb-8">
         <CardContent className="p-8 text-center">
           <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-neon-orange/20 border border-neon-orange/50 mb-4">
-            <Crown className="w-8 h-8 text-neon-orange" />
+            {giftRecipient ? (
+              <Gift className="w-8 h-8 text-neon-orange" />
+            ) : (
+              <Crown className="w-8 h-8 text-neon-orange" />
+            )}
           </div>
 
           {isLoading ? (
@@ -89,6 +95,26 @@ export default function DonationSuccessPage() {
               <div className="h-8 bg-secondary rounded w-48 mx-auto" />
               <div className="h-4 bg-secondary rounded w-32 mx-auto" />
             </div>
+          ) : giftRecipient ? (
+            <>
+              <h2 className="text-2xl font-bold mb-2">
+                {paymentDetails ? `${paymentDetails.rankName} Rank` : 'Rank'} Gifted!
+              </h2>
+              {paymentDetails && (
+                <div className="flex items-center justify-center gap-4 mb-4">
+                  <Badge variant="neon" className="text-lg px-4 py-1">
+                    ${paymentDetails.amount}
+                  </Badge>
+                  <Badge variant="secondary" className="text-lg px-4 py-1">
+                    {paymentDetails.days} days
+                  </Badge>
+                </div>
+              )}
+              <p className="text-muted-foreground">
+                <span className="text-foreground font-medium">{giftRecipient}</span> will be notified about your gift.
+                If they haven&apos;t registered yet, they&apos;ll get the rank when they sign up.
+              </p>
+            </>
           ) : paymentDetails ? (
             <>
               <h2 className="text-2xl font-bold mb-2">
@@ -137,9 +163,11 @@ export default function DonationSuccessPage() {
             <li className="flex items-start gap-3">
               <CheckCircle className="w-5 h-5 text-success mt-0.5" />
               <div>
-                <p className="font-medium">Your rank is now active</p>
+                <p className="font-medium">{giftRecipient ? 'Your gift is on its way' : 'Your rank is now active'}</p>
                 <p className="text-sm text-muted-foreground">
-                  All perks and benefits are available immediately
+                  {giftRecipient
+                    ? "We'll let them know who it's from"
+                    : 'All perks and benefits are available immediately'}
                 </p>
               </div>
             </li>
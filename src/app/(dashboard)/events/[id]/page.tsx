@@ -0,0 +1,355 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import {
+  ArrowLeft, Calendar, Clock, MapPin, Users, Loader2, Download, UserPlus, Check,
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { EventRsvpButtons } from '@/components/event-rsvp-buttons';
+import { getMinecraftAvatarUrl, getInitials } from '@/lib/utils';
+
+type RsvpStatus = 'going' | 'interested' | 'not_going';
+
+interface RsvpCounts {
+  going: number;
+  interested: number;
+  notGoing: number;
+}
+
+interface Attendee {
+  userId: number;
+  status: RsvpStatus;
+  username: string | null;
+  minecraftUsername: string | null;
+}
+
+interface EventDetail {
+  id: number;
+  title: string;
+  description: string | null;
+  location: string | null;
+  startTime: string;
+  endTime: string | null;
+  coverImage: string | null;
+  creatorId: number | null;
+  creatorUsername: string | null;
+  creatorMinecraft: string | null;
+  attendees: Attendee[];
+  counts: RsvpCounts;
+  userStatus: RsvpStatus | null;
+}
+
+interface Friend {
+  id: number;
+  username: string;
+  minecraftUsername: string | null;
+}
+
+function AttendeeList({ title, attendees }: { title: string; attendees: Attendee[] }) {
+  return (
+    <div>
+      <p className="text-sm font-medium text-muted-foreground mb-2">
+        {title} ({attendees.length})
+      </p>
+      {attendees.length > 0 ? (
+        <div className="space-y-2">
+          {attendees.map((attendee) => (
+            <Link
+              key={attendee.userId}
+              href={`/profile/${attendee.username}`}
+              className="flex items-center gap-2 p-2 rounded-lg hover:bg-secondary/50 transition-colors"
+            >
+              <Avatar className="w-7 h-7">
+                <AvatarImage
+                  src={getMinecraftAvatarUrl(attendee.minecraftUsername || attendee.username || 'Steve')}
+                  alt={attendee.username || ''}
+                />
+                <AvatarFallback className="text-xs">{getInitials(attendee.username || 'U')}</AvatarFallback>
+              </Avatar>
+              <span className="text-sm truncate">{attendee.username}</span>
+            </Link>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">Nobody yet</p>
+      )}
+    </div>
+  );
+}
+
+export default function EventDetailPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { data: session } = useSession();
+  const viewerId = session?.user?.id ? parseInt(session.user.id as string) : null;
+
+  const [event, setEvent] = useState<EventDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [friends, setFriends] = useState<Friend[]>([]);
+  const [selectedFriends, setSelectedFriends] = useState<number[]>([]);
+  const [isInviting, setIsInviting] = useState(false);
+
+  const fetchEvent = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch(`/api/events/${params?.id}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'Event not found');
+        return;
+      }
+      setEvent(await response.json());
+    } catch (err: any) {
+      console.error('Error fetching event:', err);
+      setError('Failed to load event');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [params?.id]);
+
+  useEffect(() => {
+    if (params?.id) {
+      fetchEvent();
+    }
+  }, [params?.id, fetchEvent]);
+
+  useEffect(() => {
+    if (!viewerId) return;
+    fetch('/api/friends')
+      .then((res) => (res.ok ? res.json() : { friends: [] }))
+      .then((data) => setFriends((data.friends || []) as Friend[]))
+      .catch((err) => console.error('Error loading friends:', err));
+  }, [viewerId]);
+
+  const toggleFriend = (friendId: number) => {
+    setSelectedFriends((prev) =>
+      prev.includes(friendId) ? prev.filter((id) => id !== friendId) : [...prev, friendId]
+    );
+  };
+
+  const handleInvite = async () => {
+    if (selectedFriends.length === 0 || isInviting) return;
+
+    setIsInviting(true);
+    try {
+      const response = await fetch(`/api/events/${params?.id}/invite`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userIds: selectedFriends }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to send invitations');
+        return;
+      }
+      toast.success(`Invited ${data.invited} ${data.invited === 1 ? 'friend' : 'friends'}`);
+      setSelectedFriends([]);
+    } catch (err: any) {
+      toast.error('Failed to send invitations');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-6xl flex justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-neon-cyan" />
+      </div>
+    );
+  }
+
+  if (error || !event) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <Card variant="glass" className="text-center py-12">
+          <CardContent>
+            <Calendar className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
+            <h3 className="text-xl font-bold mb-2">{error || 'Event not found'}</h3>
+            <p className="text-muted-foreground mb-4">
+              This event may have been cancelled or doesn&apos;t exist.
+            </p>
+            <Button variant="neon" onClick={() => router.push('/events')}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Events
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const start = new Date(event.startTime);
+  const end = event.endTime ? new Date(event.endTime) : null;
+  const hasEnded = (end || start) < new Date();
+  const going = event.attendees.filter((a) => a.status === 'going');
+  const interested = event.attendees.filter((a) => a.status === 'interested');
+  const invitableFriends = friends.filter((f) => !event.attendees.some((a) => a.userId === f.id));
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      {/* Back Button */}
+      <Link
+        href="/events"
+        className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-6 transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to Events
+      </Link>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Main Content */}
+        <div className="lg:col-span-2 space-y-6">
+          <Card variant="glass" className="overflow-hidden">
+            <div className="h-40 bg-gradient-to-br from-neon-cyan/20 via-neon-purple/20 to-neon-pink/20">
+              {event.coverImage && (
+                <img src={event.coverImage} alt={event.title} className="w-full h-full object-cover" />
+              )}
+            </div>
+            <CardContent className="p-6 space-y-4">
+              <div className="flex items-start justify-between gap-4">
+                <h1 className="text-3xl font-bold gradient-text">{event.title}</h1>
+                {hasEnded && <Badge variant="secondary">Ended</Badge>}
+              </div>
+
+              <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  <Calendar className="w-4 h-4" />
+                  {start.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })}
+                </span>
+                <span className="flex items-center gap-1">
+                  <Clock className="w-4 h-4" />
+                  {start.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                  {end && ` - ${end.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`}
+                </span>
+                {event.location && (
+                  <span className="flex items-center gap-1">
+                    <MapPin className="w-4 h-4" />
+                    {event.location}
+                  </span>
+                )}
+              </div>
+
+              {event.description && (
+                <p className="text-muted-foreground whitespace-pre-wrap">{event.description}</p>
+              )}
+
+              <div className="flex flex-wrap items-center justify-between gap-4 pt-4 border-t border-border">
+                <EventRsvpButtons
+                  eventId={event.id}
+                  userStatus={event.userStatus}
+                  counts={event.counts}
+                  isSignedIn={!!viewerId}
+                  disabled={hasEnded}
+                  onChange={() => fetchEvent()}
+                />
+                <a href={`/api/events/${event.id}/ical`}>
+                  <Button variant="ghost" size="sm">
+                    <Download className="w-4 h-4 mr-2" />
+                    Add to Calendar
+                  </Button>
+                </a>
+              </div>
+
+              {event.creatorUsername && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Avatar className="w-6 h-6">
+                    {event.creatorMinecraft ? (
+                      <AvatarImage src={getMinecraftAvatarUrl(event.creatorMinecraft)} alt={event.creatorUsername} />
+                    ) : null}
+                    <AvatarFallback className="text-xs">{getInitials(event.creatorUsername)}</AvatarFallback>
+                  </Avatar>
+                  Hosted by{' '}
+                  <Link href={`/profile/${event.creatorUsername}`} className="hover:text-neon-cyan transition-colors">
+                    {event.creatorUsername}
+                  </Link>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Invite Friends */}
+          {viewerId && !hasEnded && (
+            <Card variant="glass">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <UserPlus className="w-5 h-5 text-neon-cyan" />
+                  Invite Friends
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {invitableFriends.length > 0 ? (
+                  <>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-64 overflow-y-auto mb-4">
+                      {invitableFriends.map((friend) => {
+                        const selected = selectedFriends.includes(friend.id);
+                        return (
+                          <button
+                            key={friend.id}
+                            type="button"
+                            onClick={() => toggleFriend(friend.id)}
+                            className={`flex items-center gap-2 p-2 rounded-lg text-left transition-colors ${selected
+                              ? 'bg-neon-cyan/10 text-neon-cyan border border-neon-cyan/30'
+                              : 'hover:bg-secondary/50 border border-transparent'
+                              }`}
+                          >
+                            <Avatar className="w-7 h-7">
+                              <AvatarImage
+                                src={getMinecraftAvatarUrl(friend.minecraftUsername || friend.username)}
+                                alt={friend.username}
+                              />
+                              <AvatarFallback className="text-xs">{getInitials(friend.username)}</AvatarFallback>
+                            </Avatar>
+                            <span className="text-sm truncate flex-1">{friend.username}</span>
+                            {selected && <Check className="w-4 h-4" />}
+                          </button>
+                        );
+                      })}
+                    </div>
+                    <Button
+                      variant="neon"
+                      size="sm"
+                      onClick={handleInvite}
+                      disabled={selectedFriends.length === 0 || isInviting}
+                    >
+                      {isInviting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <UserPlus className="w-4 h-4 mr-2" />}
+                      Invite {selectedFriends.length > 0 ? `(${selectedFriends.length})` : ''}
+                    </Button>
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    All your friends have already responded, or you haven&apos;t added any friends yet.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          <Card variant="glass">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="w-5 h-5 text-neon-cyan" />
+                Attendees
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <AttendeeList title="Going" attendees={going} />
+              <AttendeeList title="Interested" attendees={interested} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
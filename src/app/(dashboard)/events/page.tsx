@@ -1,16 +1,19 @@
 import { db } from '@/db';
+import { auth } from '../../../../auth';
 import { events, users } from '@/db/schema';
 import { desc, eq, sql, gte } from 'drizzle-orm';
 import Link from 'next/link';
 import {
   Calendar, Clock, MapPin, Users, Plus,
-  CalendarDays, ChevronRight, Sparkles
+  CalendarDays, ChevronRight, Sparkles, Rss
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { EventRsvpButtons } from '@/components/event-rsvp-buttons';
 import { formatDate, formatRelativeTime, getMinecraftAvatarUrl, getInitials } from '@/lib/utils';
+import { getRsvpCounts, getUserRsvps, RsvpCounts, RsvpStatus } from '@/lib/events';
 
 async function getUpcomingEvents() {
   try {
@@ -57,13 +60,30 @@ async function getPastEvents() {
   }
 }
 
+async function getEventRsvps(eventIds: number[], userId: number | null) {
+  try {
+    const [rsvpCounts, userRsvps] = await Promise.all([
+      getRsvpCounts(eventIds),
+      userId ? getUserRsvps(userId, eventIds) : Promise.resolve({}),
+    ]);
+    return { rsvpCounts, userRsvps: userRsvps as Record<number, RsvpStatus> };
+  } catch {
+    return { rsvpCounts: {} as Record<number, RsvpCounts>, userRsvps: {} as Record<number, RsvpStatus> };
+  }
+}
+
 export default async function EventsPage() {
-  const [upcomingEvents, pastEvents] = await Promise.all([
+  const [upcomingEvents, pastEvents, session] = await Promise.all([
     getUpcomingEvents(),
     getPastEvents(),
+    auth(),
   ]);
 
   const displayEvents = upcomingEvents;
+  const eventIds = displayEvents.map((event: any) => event.id);
+  const userId = session?.user?.id ? parseInt(session.user.id as string) : null;
+
+  const { rsvpCounts, userRsvps } = await getEventRsvps(eventIds, userId);
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -114,10 +134,12 @@ export default async function EventsPage() {
                         {/* Event Details */}
                         <div className="flex-1 min-w-0">
                           <div className="flex items-start justify-between mb-2">
-                            <h3 className="text-lg font-bold">{event.title}</h3>
-                            <Badge variant="neon">
+                            <Link href={`/events/${event.id}`} className="hover:text-neon-cyan transition-colors">
+                              <h3 className="text-lg font-bold">{event.title}</h3>
+                            </Link>
+                            <Badge variant="neon" title="Going">
                               <Users className="w-3 h-3 mr-1" />
-                              {event.attendees || 0}
+                              {rsvpCounts[event.id]?.going || 0}
                             </Badge>
                           </div>
 
@@ -158,10 +180,21 @@ export default async function EventsPage() {
                                 Hosted by {event.creatorUsername}
                               </span>
                             </div>
-                            <Button variant="neon-outline" size="sm">
-                              Join Event
-                              <ChevronRight className="w-4 h-4 ml-1" />
-                            </Button>
+                            <Link href={`/events/${event.id}`}>
+                              <Button variant="ghost" size="sm">
+                                Details
+                                <ChevronRight className="w-4 h-4 ml-1" />
+                              </Button>
+                            </Link>
+                          </div>
+
+                          <div className="mt-4">
+                            <EventRsvpButtons
+                              eventId={event.id}
+                              userStatus={userRsvps[event.id] || null}
+                              counts={rsvpCounts[event.id] || { going: 0, interested: 0, notGoing: 0 }}
+                              isSignedIn={!!userId}
+                            />
                           </div>
                         </div>
                       </div>
@@ -204,6 +237,12 @@ export default async function EventsPage() {
                 </p>
                 <p className="text-muted-foreground">Events Scheduled</p>
               </div>
+              <a href="/api/events/ical" className="block mt-4">
+                <Button variant="neon-outline" size="sm" className="w-full">
+                  <Rss className="w-4 h-4 mr-2" />
+                  Subscribe to Calendar
+                </Button>
+              </a>
             </CardContent>
           </Card>
 
@@ -236,15 +275,16 @@ export default async function EventsPage() {
               {pastEvents.length > 0 ? (
                 <div className="space-y-3">
                   {pastEvents.map((event: any) => (
-                    <div
+                    <Link
                       key={event.id}
-                      className="p-3 rounded-lg bg-secondary/50"
+                      href={`/events/${event.id}`}
+                      className="block p-3 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors"
                     >
                       <p className="font-medium text-sm">{event.title}</p>
                       <p className="text-xs text-muted-foreground">
                         {formatDate(event.startTime)}
                       </p>
-                    </div>
+                    </Link>
                   ))}
                 </div>
               ) : (
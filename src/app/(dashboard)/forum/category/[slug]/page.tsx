@@ -9,20 +9,29 @@ export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 import {
   MessageSquare, Plus, Eye, MessageCircle,
-  Pin, Lock, ChevronLeft, Clock
+  Pin, Lock, ChevronLeft, Clock, ArrowBigUp, Flame, TrendingUp
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { formatRelativeTime } from '@/lib/utils';
 import { UserInfoWithRank } from '@/components/user-info-with-rank';
+import { FORUM_SORTS, ForumSort, forumPostScore, sortForumPosts } from '@/lib/forum-votes';
+import { sanitizeEnum } from '@/lib/sanitize';
 
 import { Metadata } from 'next';
 
 interface PageProps {
   params: Promise<{ slug: string }>;
+  searchParams: Promise<{ sort?: string }>;
 }
 
+const SORT_OPTIONS: { id: ForumSort; label: string; icon: typeof Clock }[] = [
+  { id: 'new', label: 'Newest', icon: Clock },
+  { id: 'hot', label: 'Hot', icon: Flame },
+  { id: 'top', label: 'Top', icon: TrendingUp },
+];
+
 export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
   const { slug } = await params;
   const category = await getCategory(slug);
@@ -52,7 +61,7 @@ async function getCategory(slug: string) {
   }
 }
 
-async function getCategoryPosts(categoryId: number) {
+async function getCategoryPosts(categoryId: number, sort: ForumSort) {
   try {
     const posts = await db
       .select({
@@ -71,6 +80,7 @@ async function getCategoryPosts(categoryId: number) {
         authorRankExpiresAt: users.rankExpiresAt,
         rankName: donationRanks.name,
         rankColor: donationRanks.color,
+        score: forumPostScore,
       })
       .from(forumPosts)
       .leftJoin(users, eq(forumPosts.authorId, users.id))
@@ -87,26 +97,28 @@ async function getCategoryPosts(categoryId: number) {
           .where(eq(forumReplies.postId, post.id));
         return {
           ...post,
+          score: Number(post.score),
           replyCount: replyCount?.count || 0,
         };
       })
     );
 
-    return postsWithReplies;
+    return sortForumPosts(postsWithReplies, sort);
   } catch {
     return [];
   }
 }
 
-export default async function CategoryPage({ params }: PageProps) {
+export default async function CategoryPage({ params, searchParams }: PageProps) {
   const { slug } = await params;
+  const sort = sanitizeEnum((await searchParams).sort, FORUM_SORTS, 'new');
   const category = await getCategory(slug);
 
   if (!category) {
     notFound();
   }
 
-  const posts = await getCategoryPosts(category.id);
+  const posts = await getCategoryPosts(category.id, sort);
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -154,7 +166,25 @@ export default async function CategoryPage({ params }: PageProps) {
               <MessageCircle className="w-5 h-5 text-neon-cyan" />
               Discussions
             </CardTitle>
-            <Badge variant="secondary">{posts.length} posts</Badge>
+            <div className="flex items-center gap-2">
+              {SORT_OPTIONS.map((option) => {
+                const Icon = option.icon;
+                return (
+                  <Link
+                    key={option.id}
+                    href={option.id === 'new' ? `/forum/category/${category.slug}` : `/forum/category/${category.slug}?sort=${option.id}`}
+                    className={`px-3 py-1.5 rounded-lg text-sm flex items-center gap-1 transition-colors ${sort === option.id
+                        ? 'bg-neon-cyan/10 text-neon-cyan border border-neon-cyan/30'
+                        : 'bg-secondary/50 text-muted-foreground hover:text-foreground'
+                      }`}
+                  >
+                    <Icon className="w-3.5 h-3.5" />
+                    {option.label}
+                  </Link>
+                );
+              })}
+              <Badge variant="secondary">{posts.length} posts</Badge>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -217,6 +247,10 @@ export default async function CategoryPage({ params }: PageProps) {
 
                     <div className="flex flex-col items-end gap-2 shrink-0">
                       <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                        <span className={`flex items-center gap-1 ${post.score > 0 ? 'text-neon-cyan' : post.score < 0 ? 'text-neon-pink' : ''}`}>
+                          <ArrowBigUp className="w-4 h-4" />
+                          {post.score}
+                        </span>
                         <span className="flex items-center gap-1">
                           <Eye className="w-4 h-4" />
                           {post.views}
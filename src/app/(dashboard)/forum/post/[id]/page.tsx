@@ -3,6 +3,8 @@ import { Metadata } from 'next';
 import { db } from '@/db';
 import { forumPosts, forumReplies, forumCategories, users, donationRanks } from '@/db/schema';
 import { eq, sql } from 'drizzle-orm';
+import { auth } from '../../../../../../auth';
+import { forumPostScore, forumReplyScore, getUserVotes } from '@/lib/forum-votes';
 import { ForumPostClient, ForumPost, ForumReply } from './post-client';
 
 interface PageProps {
@@ -31,6 +33,7 @@ async function getPost(id: number) {
         categoryId: forumPosts.categoryId,
         categoryName: forumCategories.name,
         categorySlug: forumCategories.slug,
+        score: forumPostScore,
       })
       .from(forumPosts)
       .leftJoin(users, eq(forumPosts.authorId, users.id))
@@ -55,6 +58,7 @@ async function getPost(id: number) {
         authorRankExpiresAt: users.rankExpiresAt,
         rankName: donationRanks.name,
         rankColor: donationRanks.color,
+        score: forumReplyScore,
       })
       .from(forumReplies)
       .leftJoin(users, eq(forumReplies.authorId, users.id))
@@ -121,5 +125,18 @@ export default async function ForumPostPage({ params }: PageProps) {
   // Increment views
   await incrementViews(postId);
 
-  return <ForumPostClient post={data.post as ForumPost} replies={data.replies as ForumReply[]} />;
+  // Attach the viewer's own votes so the arrows render highlighted
+  const session = await auth();
+  const votes = session?.user?.id
+    ? await getUserVotes(parseInt(session.user.id as string), postId, data.replies.map((r: any) => r.id))
+    : { post: null, replies: {} as Record<number, string> };
+
+  const post = { ...data.post, score: Number(data.post.score), userVote: votes.post };
+  const replies = data.replies.map((reply: any) => ({
+    ...reply,
+    score: Number(reply.score),
+    userVote: votes.replies[reply.id] || null,
+  }));
+
+  return <ForumPostClient post={post as ForumPost} replies={replies as ForumReply[]} />;
 }
@@ -17,6 +17,8 @@ import { getMinecraftAvatarUrl, getInitials, formatRelativeTime } from '@/lib/ut
 import { toast } from 'sonner';
 import { MarkdownEditor, MarkdownContent } from '@/components/markdown-editor';
 import { Input } from '@/components/ui/input';
+import { ForumVoteButtons } from '@/components/forum-vote-buttons';
+import { ReportButton } from '@/components/report-dialog';
 
 export interface ForumPost {
     id: number;
@@ -37,6 +39,8 @@ export interface ForumPost {
     categoryId: number | null;
     categoryName: string | null;
     categorySlug: string | null;
+    score: number;
+    userVote: 'upvote' | 'downvote' | null;
 }
 
 export interface ForumReply {
@@ -51,6 +55,8 @@ export interface ForumReply {
     authorRankExpiresAt: Date | string | null;
     rankName: string | null;
     rankColor: string | null;
+    score: number;
+    userVote: 'upvote' | 'downvote' | null;
 }
 
 interface ForumPostClientProps {
@@ -82,6 +88,10 @@ export function ForumPostClient({ post: initialPost, replies: initialReplies }:
         return user && (user.id === reply.authorId || isAdmin);
     };
 
+    // Signed-in users can vote on anything except their own content
+    const canVoteOn = (authorId: number) => !!user && parseInt(user.id) !== authorId;
+    const canReport = canVoteOn;
+
     // Handle new reply submission
     const handleSubmitReply = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -256,7 +266,13 @@ export function ForumPostClient({ post: initialPost, replies: initialReplies }:
             {/* Main Post */}
             <Card variant="glass" className="mb-6">
                 <CardHeader>
-                    <div className="flex items-start justify-between">
+                    <div className="flex items-start justify-between gap-4">
+                        <ForumVoteButtons
+                            voteUrl={`/api/forum/posts/${post.id}/vote`}
+                            score={post.score}
+                            userVote={post.userVote}
+                            canVote={canVoteOn(post.authorId)}
+                        />
                         <div className="flex-1">
                             <div className="flex items-center gap-2 mb-2">
                                 {post.pinned && (
@@ -284,6 +300,10 @@ export function ForumPostClient({ post: initialPost, replies: initialReplies }:
                             )}
                         </div>
 
+                        {canReport(post.authorId) && !isEditingPost && (
+                            <ReportButton contentType="forum_post" contentId={post.id} />
+                        )}
+
                         {canModifyPost && !isEditingPost && (
                             <div className="flex items-center gap-2">
                                 <Button variant="ghost" size="icon" onClick={() => setIsEditingPost(true)}>
@@ -399,28 +419,47 @@ export function ForumPostClient({ post: initialPost, replies: initialReplies }:
                                             </span>
                                         </div>
 
-                                        {/* Reply actions */}
-                                        {canModifyReply(reply) && editingReplyId !== reply.id && (
-                                            <div className="flex items-center gap-1">
-                                                <Button variant="ghost" size="icon" className="w-7 h-7" onClick={() => handleStartEditReply(reply)}>
-                                                    <Edit2 className="w-3.5 h-3.5" />
-                                                </Button>
-                                                <Button variant="ghost" size="icon" className="w-7 h-7" onClick={() => handleDeleteReply(reply.id)}>
-                                                    <Trash2 className="w-3.5 h-3.5 text-error" />
-                                                </Button>
-                                            </div>
-                                        )}
+                                        <div className="flex items-center gap-2">
+                                            <ForumVoteButtons
+                                                voteUrl={`/api/forum/posts/${post.id}/replies/${reply.id}/vote`}
+                                                score={reply.score ?? 0}
+                                                userVote={reply.userVote ?? null}
+                                                canVote={canVoteOn(reply.authorId)}
+                                                orientation="horizontal"
+                                            />
+
+                                            {canReport(reply.authorId) && (
+                                                <ReportButton
+                                                    contentType="forum_reply"
+                                                    contentId={reply.id}
+                                                    className="w-7 h-7"
+                                                    iconClassName="w-3.5 h-3.5"
+                                                />
+                                            )}
 
-                                        {editingReplyId === reply.id && (
-                                            <div className="flex items-center gap-1">
-                                                <Button variant="ghost" size="icon" className="w-7 h-7" onClick={handleCancelEditReply} disabled={isSubmitting}>
-                                                    <X className="w-3.5 h-3.5" />
-                                                </Button>
-                                                <Button variant="neon" size="icon" className="w-7 h-7" onClick={() => handleSaveEditReply(reply.id)} disabled={isSubmitting}>
-                                                    {isSubmitting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
-                                                </Button>
-                                            </div>
-                                        )}
+                                            {/* Reply actions */}
+                                            {canModifyReply(reply) && editingReplyId !== reply.id && (
+                                                <div className="flex items-center gap-1">
+                                                    <Button variant="ghost" size="icon" className="w-7 h-7" onClick={() => handleStartEditReply(reply)}>
+                                                        <Edit2 className="w-3.5 h-3.5" />
+                                                    </Button>
+                                                    <Button variant="ghost" size="icon" className="w-7 h-7" onClick={() => handleDeleteReply(reply.id)}>
+                                                        <Trash2 className="w-3.5 h-3.5 text-error" />
+                                                    </Button>
+                                                </div>
+                                            )}
+
+                                            {editingReplyId === reply.id && (
+                                                <div className="flex items-center gap-1">
+                                                    <Button variant="ghost" size="icon" className="w-7 h-7" onClick={handleCancelEditReply} disabled={isSubmitting}>
+                                                        <X className="w-3.5 h-3.5" />
+                                                    </Button>
+                                                    <Button variant="neon" size="icon" className="w-7 h-7" onClick={() => handleSaveEditReply(reply.id)} disabled={isSubmitting}>
+                                                        {isSubmitting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
+                                                    </Button>
+                                                </div>
+                                            )}
+                                        </div>
                                     </div>
 
                                     {editingReplyId === reply.id ? (
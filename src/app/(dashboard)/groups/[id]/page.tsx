@@ -0,0 +1,684 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import {
+  ArrowLeft, Users, Globe, Lock, Mail, Loader2, Send, Trash2, Settings,
+  Crown, Shield, UserPlus, UserMinus, LogOut, Check, X, ChevronUp, ChevronDown,
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { getMinecraftAvatarUrl, getInitials, formatRelativeTime } from '@/lib/utils';
+
+type GroupRole = 'owner' | 'admin' | 'member';
+type GroupPrivacy = 'public' | 'private' | 'invite_only';
+
+interface GroupMember {
+  userId: number;
+  role: GroupRole;
+  joinedAt: string;
+  username: string | null;
+  minecraftUsername: string | null;
+}
+
+interface PendingUser {
+  userId: number;
+  type: 'invite' | 'request';
+  createdAt: string;
+  username: string | null;
+  minecraftUsername: string | null;
+}
+
+interface GroupDetail {
+  id: number;
+  name: string;
+  description: string | null;
+  coverImage: string | null;
+  privacy: GroupPrivacy;
+  createdAt: string;
+  creatorUsername: string | null;
+  memberCount: number;
+  viewerRole: GroupRole | null;
+  viewerPending: 'invite' | 'request' | null;
+  canView: boolean;
+  canManage: boolean;
+  canModerate: boolean;
+  members: GroupMember[];
+  pendingRequests: PendingUser[];
+  pendingInvites: PendingUser[];
+}
+
+interface GroupPost {
+  id: number;
+  content: string;
+  imageUrl: string | null;
+  createdAt: string;
+  userId: number;
+  username: string | null;
+  minecraftUsername: string | null;
+}
+
+const PRIVACY_LABELS = {
+  public: { label: 'Public', icon: Globe },
+  private: { label: 'Private', icon: Lock },
+  invite_only: { label: 'Invite Only', icon: Mail },
+} as const;
+
+function getGroupRoleBadge(role: GroupRole) {
+  switch (role) {
+    case 'owner':
+      return <Badge variant="neon-pink" className="text-xs"><Crown className="w-3 h-3 mr-1" />Owner</Badge>;
+    case 'admin':
+      return <Badge variant="neon-purple" className="text-xs"><Shield className="w-3 h-3 mr-1" />Admin</Badge>;
+    default:
+      return null;
+  }
+}
+
+export default function GroupDetailPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { data: session } = useSession();
+  const viewerId = session?.user?.id ? parseInt(session.user.id as string) : null;
+
+  const [group, setGroup] = useState<GroupDetail | null>(null);
+  const [posts, setPosts] = useState<GroupPost[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [newPost, setNewPost] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+  const [inviteUsername, setInviteUsername] = useState('');
+  const [isEditing, setIsEditing] = useState(false);
+  const [editForm, setEditForm] = useState({ name: '', description: '', coverImage: '', privacy: 'public' as GroupPrivacy });
+
+  const fetchGroup = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch(`/api/groups/${params?.id}`);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'Group not found');
+        return;
+      }
+      const data: GroupDetail = await response.json();
+      setGroup(data);
+
+      if (data.canView) {
+        const postsResponse = await fetch(`/api/groups/${params?.id}/posts`);
+        if (postsResponse.ok) {
+          setPosts(await postsResponse.json());
+        }
+      }
+    } catch (err: any) {
+      console.error('Error fetching group:', err);
+      setError('Failed to load group');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [params?.id]);
+
+  useEffect(() => {
+    if (params?.id) {
+      fetchGroup();
+    }
+  }, [params?.id, fetchGroup]);
+
+  const request = async (url: string, method: string, body?: Record<string, any>) => {
+    setBusy(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Something went wrong');
+        return null;
+      }
+      return data;
+    } catch (err: any) {
+      toast.error('Something went wrong');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleJoin = async () => {
+    const data = await request(`/api/groups/${params?.id}/join`, 'POST');
+    if (data) {
+      toast.success(data.status === 'requested' ? 'Join request sent' : 'Welcome to the group!');
+      fetchGroup();
+    }
+  };
+
+  const handleLeave = async () => {
+    const message = group?.viewerRole ? 'Leave this group?' : 'Withdraw from this group?';
+    if (!confirm(message)) return;
+    const data = await request(`/api/groups/${params?.id}/leave`, 'POST');
+    if (data) {
+      if (data.deleted) {
+        toast.success('Group closed');
+        router.push('/groups');
+        return;
+      }
+      toast.success(group?.viewerRole ? 'You left the group' : 'Done');
+      fetchGroup();
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Delete this group? Its members and posts will be removed permanently.')) return;
+    const data = await request(`/api/groups/${params?.id}`, 'DELETE');
+    if (data) {
+      toast.success('Group deleted');
+      router.push('/groups');
+    }
+  };
+
+  const startEditing = () => {
+    if (!group) return;
+    setEditForm({
+      name: group.name,
+      description: group.description || '',
+      coverImage: group.coverImage || '',
+      privacy: group.privacy,
+    });
+    setIsEditing(true);
+  };
+
+  const handleSaveEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await request(`/api/groups/${params?.id}`, 'PATCH', editForm);
+    if (data) {
+      toast.success('Group updated');
+      setIsEditing(false);
+      fetchGroup();
+    }
+  };
+
+  const handleMemberAction = async (userId: number, action: string, confirmMessage?: string) => {
+    if (confirmMessage && !confirm(confirmMessage)) return;
+    const data = await request(`/api/groups/${params?.id}/members`, 'PATCH', { userId, action });
+    if (data) {
+      fetchGroup();
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteUsername.trim()) return;
+    const data = await request(`/api/groups/${params?.id}/invites`, 'POST', { username: inviteUsername.trim() });
+    if (data) {
+      toast.success(data.status === 'joined' ? 'Join request approved' : 'Invitation sent');
+      setInviteUsername('');
+      fetchGroup();
+    }
+  };
+
+  const handleRevokeInvite = async (userId: number) => {
+    const data = await request(`/api/groups/${params?.id}/invites?userId=${userId}`, 'DELETE');
+    if (data) {
+      fetchGroup();
+    }
+  };
+
+  const handlePost = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newPost.trim() || isPosting) return;
+
+    setIsPosting(true);
+    try {
+      const response = await fetch(`/api/groups/${params?.id}/posts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: newPost.trim() }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to post');
+        return;
+      }
+      setNewPost('');
+      fetchGroup();
+    } catch (err: any) {
+      toast.error('Failed to post');
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const handleDeletePost = async (postId: number) => {
+    if (!confirm('Delete this post?')) return;
+    const data = await request(`/api/groups/${params?.id}/posts/${postId}`, 'DELETE');
+    if (data) {
+      setPosts((prev) => prev.filter((p) => p.id !== postId));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-6xl flex justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-neon-cyan" />
+      </div>
+    );
+  }
+
+  if (error || !group) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <Card variant="glass" className="text-center py-12">
+          <CardContent>
+            <Users className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
+            <h3 className="text-xl font-bold mb-2">{error || 'Group not found'}</h3>
+            <p className="text-muted-foreground mb-4">
+              This group may have been deleted or doesn&apos;t exist.
+            </p>
+            <Button variant="neon" onClick={() => router.push('/groups')}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Groups
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const privacy = PRIVACY_LABELS[group.privacy];
+  const PrivacyIcon = privacy.icon;
+  const isOwner = group.viewerRole === 'owner';
+  const canDeleteGroup = isOwner || group.canModerate;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      {/* Back Button */}
+      <Link
+        href="/groups"
+        className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-6 transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Back to Groups
+      </Link>
+
+      {/* Group Header */}
+      <Card variant="glass" className="mb-8 overflow-hidden">
+        <div className="h-40 bg-gradient-to-br from-neon-cyan/20 via-neon-purple/20 to-neon-pink/20">
+          {group.coverImage && (
+            <img src={group.coverImage} alt={group.name} className="w-full h-full object-cover" />
+          )}
+        </div>
+        <CardContent className="p-6">
+          <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+            <div className="space-y-2">
+              <h1 className="text-3xl font-bold gradient-text">{group.name}</h1>
+              <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  <Users className="w-4 h-4" />
+                  {group.memberCount} {group.memberCount === 1 ? 'member' : 'members'}
+                </span>
+                <span className="flex items-center gap-1">
+                  <PrivacyIcon className="w-4 h-4" />
+                  {privacy.label}
+                </span>
+                <span>Founded {formatRelativeTime(group.createdAt)}</span>
+              </div>
+              {group.description && (
+                <p className="text-foreground whitespace-pre-wrap pt-2">{group.description}</p>
+              )}
+            </div>
+
+            {/* Actions */}
+            <div className="flex flex-wrap gap-2 shrink-0">
+              {!group.viewerRole && group.viewerPending === 'invite' && (
+                <>
+                  <Button variant="neon" onClick={handleJoin} disabled={busy}>
+                    <Check className="w-4 h-4 mr-2" />
+                    Accept Invite
+                  </Button>
+                  <Button variant="ghost" onClick={handleLeave} disabled={busy}>Decline</Button>
+                </>
+              )}
+              {!group.viewerRole && group.viewerPending === 'request' && (
+                <Button variant="outline" onClick={handleLeave} disabled={busy}>
+                  Cancel Request
+                </Button>
+              )}
+              {!group.viewerRole && !group.viewerPending && group.privacy !== 'invite_only' && (
+                <Button variant="neon" onClick={handleJoin} disabled={busy}>
+                  <UserPlus className="w-4 h-4 mr-2" />
+                  {group.privacy === 'public' ? 'Join Group' : 'Request to Join'}
+                </Button>
+              )}
+              {group.canManage && (
+                <Button variant="outline" onClick={startEditing}>
+                  <Settings className="w-4 h-4 mr-2" />
+                  Edit
+                </Button>
+              )}
+              {group.viewerRole && (
+                <Button variant="ghost" onClick={handleLeave} disabled={busy}>
+                  <LogOut className="w-4 h-4 mr-2" />
+                  Leave
+                </Button>
+              )}
+              {canDeleteGroup && (
+                <Button variant="destructive" onClick={handleDelete} disabled={busy}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {/* Edit Form */}
+          {isEditing && (
+            <form onSubmit={handleSaveEdit} className="space-y-4 mt-6 pt-6 border-t border-border">
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Name</label>
+                  <Input
+                    value={editForm.name}
+                    onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
+                    maxLength={64}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Privacy</label>
+                  <select
+                    value={editForm.privacy}
+                    onChange={(e) => setEditForm({ ...editForm, privacy: e.target.value as GroupPrivacy })}
+                    className="w-full bg-secondary/50 border border-border rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-neon-cyan/50"
+                  >
+                    <option value="public">Public - anyone can join</option>
+                    <option value="private">Private - members approve join requests</option>
+                    <option value="invite_only">Invite Only - join by invitation</option>
+                  </select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Description</label>
+                <textarea
+                  value={editForm.description}
+                  onChange={(e) => setEditForm({ ...editForm, description: e.target.value })}
+                  className="w-full bg-secondary/50 border border-border rounded-lg p-3 resize-none focus:outline-none focus:ring-2 focus:ring-neon-cyan/50 min-h-[80px]"
+                  maxLength={1000}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Cover Image URL</label>
+                <Input
+                  value={editForm.coverImage}
+                  onChange={(e) => setEditForm({ ...editForm, coverImage: e.target.value })}
+                  placeholder="https://..."
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="ghost" onClick={() => setIsEditing(false)}>Cancel</Button>
+                <Button type="submit" variant="neon" disabled={busy}>
+                  {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save Changes'}
+                </Button>
+              </div>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid lg:grid-cols-3 gap-8">
+        {/* Feed */}
+        <div className="lg:col-span-2 space-y-6">
+          {!group.canView ? (
+            <Card variant="glass" className="text-center py-12">
+              <CardContent>
+                <Lock className="w-12 h-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+                <p className="text-muted-foreground">
+                  Only members can see this group&apos;s posts and member list.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              {group.viewerRole && (
+                <Card variant="glass">
+                  <CardContent className="p-4">
+                    <form onSubmit={handlePost} className="space-y-3">
+                      <textarea
+                        value={newPost}
+                        onChange={(e) => setNewPost(e.target.value)}
+                        placeholder={`Share something with ${group.name}...`}
+                        className="w-full bg-secondary/50 border border-border rounded-lg p-3 resize-none focus:outline-none focus:ring-2 focus:ring-neon-cyan/50 min-h-[80px]"
+                        maxLength={1000}
+                      />
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs text-muted-foreground">{newPost.length}/1000</span>
+                        <Button type="submit" variant="neon" size="sm" disabled={!newPost.trim() || isPosting}>
+                          {isPosting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4 mr-1" />}
+                          Post
+                        </Button>
+                      </div>
+                    </form>
+                  </CardContent>
+                </Card>
+              )}
+
+              {posts.length === 0 ? (
+                <Card variant="glass" className="text-center py-12">
+                  <CardContent>
+                    <p className="text-muted-foreground">No posts yet. Start the conversation!</p>
+                  </CardContent>
+                </Card>
+              ) : (
+                posts.map((post) => {
+                  const canDeletePost = post.userId === viewerId || group.canManage || group.canModerate;
+                  return (
+                    <Card key={post.id} variant="glass">
+                      <CardContent className="p-4">
+                        <div className="flex items-start justify-between mb-3">
+                          <div className="flex items-center gap-3">
+                            <Avatar>
+                              <AvatarImage
+                                src={getMinecraftAvatarUrl(post.minecraftUsername || post.username || '')}
+                                alt={post.username || ''}
+                              />
+                              <AvatarFallback>{getInitials(post.username || 'U')}</AvatarFallback>
+                            </Avatar>
+                            <div>
+                              <Link href={`/profile/${post.username}`} className="font-semibold hover:text-neon-cyan transition-colors">
+                                {post.username}
+                              </Link>
+                              <p className="text-xs text-muted-foreground">{formatRelativeTime(post.createdAt)}</p>
+                            </div>
+                          </div>
+                          {canDeletePost && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDeletePost(post.id)}
+                              className="text-error hover:text-error"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                        <p className="whitespace-pre-wrap">{post.content}</p>
+                        {post.imageUrl && (
+                          <div className="mt-3 rounded-lg overflow-hidden">
+                            <img src={post.imageUrl} alt="Post image" className="w-full object-cover" />
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  );
+                })
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          {/* Join Requests */}
+          {group.canManage && group.pendingRequests.length > 0 && (
+            <Card variant="glass">
+              <CardHeader>
+                <CardTitle className="text-lg">Join Requests ({group.pendingRequests.length})</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {group.pendingRequests.map((req) => (
+                  <div key={req.userId} className="flex items-center justify-between p-2 rounded-lg bg-secondary/50">
+                    <span className="font-medium">{req.username}</span>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-success"
+                        disabled={busy}
+                        onClick={() => handleMemberAction(req.userId, 'approve')}
+                      >
+                        <Check className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-error"
+                        disabled={busy}
+                        onClick={() => handleMemberAction(req.userId, 'deny')}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Invite */}
+          {group.canManage && (
+            <Card variant="glass">
+              <CardHeader>
+                <CardTitle className="text-lg">Invite Players</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <form onSubmit={handleInvite} className="flex gap-2">
+                  <Input
+                    value={inviteUsername}
+                    onChange={(e) => setInviteUsername(e.target.value)}
+                    placeholder="Username"
+                  />
+                  <Button type="submit" variant="neon" size="icon" disabled={busy || !inviteUsername.trim()}>
+                    <UserPlus className="w-4 h-4" />
+                  </Button>
+                </form>
+                {group.pendingInvites.map((invite) => (
+                  <div key={invite.userId} className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">{invite.username} (invited)</span>
+                    <Button variant="ghost" size="sm" disabled={busy} onClick={() => handleRevokeInvite(invite.userId)}>
+                      Revoke
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Members */}
+          {group.canView && (
+            <Card variant="glass">
+              <CardHeader>
+                <CardTitle className="text-lg">Members ({group.members.length})</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {group.members.map((member) => {
+                  const isSelf = member.userId === viewerId;
+                  const canKick = !isSelf && group.canManage &&
+                    (isOwner || member.role === 'member');
+                  return (
+                    <div key={member.userId} className="flex items-center justify-between p-2 rounded-lg bg-secondary/50">
+                      <Link href={`/profile/${member.username}`} className="flex items-center gap-2 min-w-0">
+                        <Avatar className="w-8 h-8">
+                          <AvatarImage
+                            src={getMinecraftAvatarUrl(member.minecraftUsername || member.username || '')}
+                            alt={member.username || ''}
+                          />
+                          <AvatarFallback>{getInitials(member.username || 'U')}</AvatarFallback>
+                        </Avatar>
+                        <span className="font-medium truncate">{member.username}</span>
+                        {getGroupRoleBadge(member.role)}
+                      </Link>
+                      {!isSelf && (isOwner || canKick) && member.role !== 'owner' && (
+                        <div className="flex gap-1 shrink-0">
+                          {isOwner && member.role === 'member' && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Promote to admin"
+                              disabled={busy}
+                              onClick={() => handleMemberAction(member.userId, 'promote')}
+                            >
+                              <ChevronUp className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {isOwner && member.role === 'admin' && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Demote to member"
+                              disabled={busy}
+                              onClick={() => handleMemberAction(member.userId, 'demote')}
+                            >
+                              <ChevronDown className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {isOwner && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Transfer ownership"
+                              disabled={busy}
+                              onClick={() => handleMemberAction(
+                                member.userId,
+                                'transfer',
+                                `Make ${member.username} the owner of ${group.name}? You will become an admin.`
+                              )}
+                            >
+                              <Crown className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {canKick && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Remove from group"
+                              className="text-error hover:text-error"
+                              disabled={busy}
+                              onClick={() => handleMemberAction(
+                                member.userId,
+                                'kick',
+                                `Remove ${member.username} from ${group.name}?`
+                              )}
+                            >
+                              <UserMinus className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
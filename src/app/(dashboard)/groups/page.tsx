@@ -0,0 +1,275 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Users, Plus, Search, Globe, Lock, Mail, Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { formatRelativeTime } from '@/lib/utils';
+
+interface GroupSummary {
+  id: number;
+  name: string;
+  description: string | null;
+  coverImage: string | null;
+  privacy: 'public' | 'private' | 'invite_only';
+  createdAt: string;
+  creatorUsername: string | null;
+  memberCount: number;
+  viewerRole: 'owner' | 'admin' | 'member' | null;
+}
+
+type Tab = 'all' | 'mine';
+
+const PRIVACY_LABELS = {
+  public: { label: 'Public', icon: Globe },
+  private: { label: 'Private', icon: Lock },
+  invite_only: { label: 'Invite Only', icon: Mail },
+} as const;
+
+export default function GroupsPage() {
+  const { status } = useSession();
+  const router = useRouter();
+  const [activeTab, setActiveTab] = useState<Tab>('all');
+  const [groups, setGroups] = useState<GroupSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [showCreate, setShowCreate] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [form, setForm] = useState({
+    name: '',
+    description: '',
+    coverImage: '',
+    privacy: 'public' as GroupSummary['privacy'],
+  });
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login?callbackUrl=/groups');
+    }
+  }, [status, router]);
+
+  const loadGroups = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams();
+      if (search.trim()) params.set('search', search.trim());
+      if (activeTab === 'mine') params.set('mine', 'true');
+
+      const res = await fetch(`/api/groups?${params.toString()}`);
+      if (res.ok) {
+        setGroups(await res.json());
+      }
+    } catch (err: any) {
+      console.error('Error loading groups:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadGroups();
+  }, [activeTab]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    try {
+      const res = await fetch('/api/groups', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to create group');
+        return;
+      }
+      toast.success('Group created!');
+      router.push(`/groups/${data.id}`);
+    } catch (err: any) {
+      toast.error('Failed to create group');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold gradient-text mb-2">Groups</h1>
+          <p className="text-muted-foreground">
+            Towns, factions and crews from across the network
+          </p>
+        </div>
+        <Button variant="gradient" onClick={() => setShowCreate(!showCreate)}>
+          {showCreate ? <X className="w-4 h-4 mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+          {showCreate ? 'Cancel' : 'Create Group'}
+        </Button>
+      </div>
+
+      {/* Create form */}
+      {showCreate && (
+        <Card variant="glass" className="mb-8">
+          <CardHeader>
+            <CardTitle>Create a Group</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Name</label>
+                  <Input
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="e.g. Northwatch Keep"
+                    maxLength={64}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Privacy</label>
+                  <select
+                    value={form.privacy}
+                    onChange={(e) => setForm({ ...form, privacy: e.target.value as GroupSummary['privacy'] })}
+                    className="w-full bg-secondary/50 border border-border rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-neon-cyan/50"
+                  >
+                    <option value="public">Public - anyone can join</option>
+                    <option value="private">Private - members approve join requests</option>
+                    <option value="invite_only">Invite Only - join by invitation</option>
+                  </select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Description</label>
+                <textarea
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  placeholder="What is your group about?"
+                  className="w-full bg-secondary/50 border border-border rounded-lg p-3 resize-none focus:outline-none focus:ring-2 focus:ring-neon-cyan/50 min-h-[80px]"
+                  maxLength={1000}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Cover Image URL (optional)</label>
+                <Input
+                  value={form.coverImage}
+                  onChange={(e) => setForm({ ...form, coverImage: e.target.value })}
+                  placeholder="https://..."
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button type="submit" variant="neon" disabled={creating || form.name.trim().length < 3}>
+                  {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Create Group'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Tabs + search */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div className="flex gap-2">
+          {[
+            { id: 'all', label: 'All Groups' },
+            { id: 'mine', label: 'My Groups' },
+          ].map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id as Tab)}
+              className={`px-4 py-2 rounded-lg transition-colors ${activeTab === tab.id
+                  ? 'bg-neon-cyan/10 text-neon-cyan border border-neon-cyan/30'
+                  : 'bg-secondary/50 text-muted-foreground hover:text-foreground'
+                }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            loadGroups();
+          }}
+          className="flex gap-2 md:w-80"
+        >
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search groups..."
+          />
+          <Button type="submit" variant="outline" size="icon">
+            <Search className="w-4 h-4" />
+          </Button>
+        </form>
+      </div>
+
+      {/* Group grid */}
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-neon-cyan" />
+        </div>
+      ) : groups.length === 0 ? (
+        <Card variant="glass">
+          <CardContent className="py-12 text-center">
+            <Users className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">
+              {activeTab === 'mine' ? "You haven't joined any groups yet" : 'No groups found'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {groups.map((group) => {
+            const privacy = PRIVACY_LABELS[group.privacy];
+            const PrivacyIcon = privacy.icon;
+            return (
+              <Link key={group.id} href={`/groups/${group.id}`}>
+                <Card variant="glass" hover className="h-full overflow-hidden">
+                  <div className="h-28 bg-gradient-to-br from-neon-cyan/20 via-neon-purple/20 to-neon-pink/20">
+                    {group.coverImage && (
+                      <img src={group.coverImage} alt={group.name} className="w-full h-full object-cover" />
+                    )}
+                  </div>
+                  <CardContent className="p-4 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <h3 className="font-semibold text-lg line-clamp-1">{group.name}</h3>
+                      {group.viewerRole && (
+                        <Badge variant="neon" className="shrink-0 capitalize">
+                          {group.viewerRole === 'member' ? 'Joined' : group.viewerRole}
+                        </Badge>
+                      )}
+                    </div>
+                    {group.description && (
+                      <p className="text-sm text-muted-foreground line-clamp-2">{group.description}</p>
+                    )}
+                    <div className="flex items-center gap-4 text-xs text-muted-foreground pt-2">
+                      <span className="flex items-center gap-1">
+                        <Users className="w-3 h-3" />
+                        {group.memberCount} {group.memberCount === 1 ? 'member' : 'members'}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <PrivacyIcon className="w-3 h-3" />
+                        {privacy.label}
+                      </span>
+                      <span className="ml-auto">{formatRelativeTime(group.createdAt)}</span>
+                    </div>
+                  </CardContent>
+                </Card>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
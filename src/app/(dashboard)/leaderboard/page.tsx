@@ -2,32 +2,77 @@
 
 import { useState, useEffect } from 'react';
 import {
-  Trophy, Medal, Crown, Star, TrendingUp,
-  Clock, MessageSquare, Heart, Loader2
+  Trophy, Medal, Crown, Star, TrendingUp, Clock, MessageSquare, Heart, Loader2,
+  Globe, Server, Timer, ThumbsUp, Flame, Crosshair, RefreshCw, ChevronLeft, ChevronRight
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { RankBadge, RoleBadge } from '@/components/rank-badge';
-import { getMinecraftAvatarUrl, getInitials, formatNumber, formatPlaytime } from '@/lib/utils';
+import {
+  getMinecraftAvatarUrl, getInitials, formatNumber, formatPlaytime, formatCurrency, formatRelativeTime
+} from '@/lib/utils';
+
+const PAGE_SIZE = 25;
+
+type BoardId =
+  | 'xp' | 'playtime' | 'website-xp' | 'server-xp' | 'server-playtime'
+  | 'reputation' | 'weekly-gainers' | 'monthly-gainers' | 'donated';
 
 interface LeaderboardPlayer {
-  id: number;
+  rank: number;
+  id: number | string;
   username: string;
   minecraftUsername: string | null;
-  xp: number;
-  playtimeSeconds: number;
+  value: number;
   level: number;
-  role: string;
+  role: string | null;
   title: string | null;
   donationRank: {
     id: string;
     name: string;
     color: string;
   } | null;
+  isRegistered: boolean;
+}
+
+interface LeaderboardData {
+  entries: LeaderboardPlayer[];
+  total: number;
+  page: number;
+  totalPages: number;
+  refreshedAt: string;
+  me: { rank: number; value: number; page: number } | null;
+  boards: { id: BoardId; label: string; description: string; unit: string; perServer?: boolean }[];
+  servers: { id: number; name: string }[];
 }
 
+const BOARD_ICONS: Record<BoardId, any> = {
+  xp: Star,
+  playtime: Clock,
+  'website-xp': Globe,
+  'server-xp': Server,
+  'server-playtime': Timer,
+  reputation: ThumbsUp,
+  'weekly-gainers': TrendingUp,
+  'monthly-gainers': Flame,
+  donated: Heart,
+};
+
+const formatValue = (value: number, unit: string) => {
+  switch (unit) {
+    case 'seconds':
+      return formatPlaytime(value);
+    case 'currency':
+      return formatCurrency(value);
+    case 'votes':
+      return formatNumber(value);
+    default:
+      return `${formatNumber(value)} XP`;
+  }
+};
+
 const getRankIcon = (rank: number) => {
   switch (rank) {
     case 1:
@@ -55,18 +100,23 @@ const getRankBg = (rank: number) => {
 };
 
 export default function LeaderboardPage() {
-  const [leaderboard, setLeaderboard] = useState<LeaderboardPlayer[]>([]);
+  const [data, setData] = useState<LeaderboardData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [leaderboardType, setLeaderboardType] = useState<'xp' | 'playtime'>('xp');
+  const [board, setBoard] = useState<BoardId>('xp');
+  const [serverId, setServerId] = useState<number | null>(null);
+  const [page, setPage] = useState(1);
+  const [highlightRank, setHighlightRank] = useState<number | null>(null);
 
   useEffect(() => {
     const fetchLeaderboard = async () => {
       setIsLoading(true);
       try {
-        const res = await fetch(`/api/leaderboard?type=${leaderboardType}&limit=50`);
+        const params = new URLSearchParams({ board, page: String(page), limit: String(PAGE_SIZE) });
+        if (serverId) params.set('serverId', String(serverId));
+
+        const res = await fetch(`/api/leaderboard?${params}`);
         if (res.ok) {
-          const data = await res.json();
-          setLeaderboard(data);
+          setData(await res.json());
         }
       } catch (error: any) {
         console.error('Failed to fetch leaderboard:', error);
@@ -75,14 +125,23 @@ export default function LeaderboardPage() {
       }
     };
     fetchLeaderboard();
-  }, [leaderboardType]);
+  }, [board, serverId, page]);
 
-  // Calculate stats
-  const totalXP = leaderboard.reduce((sum: any, user: any) => sum + Number(user.xp || 0), 0);
-  const totalPlaytime = leaderboard.reduce((sum: any, user: any) => sum + Number(user.playtimeSeconds || 0), 0);
-  const avgLevel = leaderboard.length > 0
-    ? Math.round(leaderboard.reduce((sum: any, user: any) => sum + Number(user.level || 1), 0) / leaderboard.length)
-    : 1;
+  const boardInfo = data?.boards.find((b) => b.id === board);
+  const unit = boardInfo?.unit || 'xp';
+  const leaderboard = data?.entries || [];
+
+  const selectBoard = (id: BoardId) => {
+    setBoard(id);
+    setPage(1);
+    setHighlightRank(null);
+  };
+
+  const findMe = () => {
+    if (!data?.me) return;
+    setHighlightRank(data.me.rank);
+    setPage(data.me.page);
+  };
 
   return (
     <div className="relative min-h-screen">
@@ -112,61 +171,83 @@ export default function LeaderboardPage() {
             Leaderboard
           </h1>
           <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
-            Top players ranked by {leaderboardType === 'xp' ? 'experience points' : 'playtime'}
+            {boardInfo?.description || 'Top players ranked by experience points'}
           </p>
         </div>
 
-        {/* Toggle Buttons */}
-        <div className="flex justify-center gap-4 mb-8">
-          <Button
-            variant={leaderboardType === 'xp' ? 'gradient' : 'neon-outline'}
-            onClick={() => setLeaderboardType('xp')}
-            className="min-w-[140px]"
-          >
-            <Star className="w-4 h-4 mr-2" />
-            XP Leaderboard
-          </Button>
-          <Button
-            variant={leaderboardType === 'playtime' ? 'gradient' : 'neon-outline'}
-            onClick={() => setLeaderboardType('playtime')}
-            className="min-w-[140px]"
-          >
-            <Clock className="w-4 h-4 mr-2" />
-            Playtime Leaderboard
-          </Button>
+        {/* Board Buttons */}
+        <div className="flex flex-wrap justify-center gap-2 mb-4">
+          {(data?.boards || []).map((b) => {
+            const Icon = BOARD_ICONS[b.id] || Star;
+            return (
+              <Button
+                key={b.id}
+                size="sm"
+                variant={board === b.id ? 'gradient' : 'neon-outline'}
+                onClick={() => selectBoard(b.id)}
+              >
+                <Icon className="w-4 h-4 mr-2" />
+                {b.label}
+              </Button>
+            );
+          })}
         </div>
 
+        {boardInfo?.perServer && data && data.servers.length > 0 && (
+          <div className="flex justify-center mb-8">
+            <select
+              value={serverId || data.servers[0].id}
+              onChange={(e) => {
+                setServerId(parseInt(e.target.value));
+                setPage(1);
+                setHighlightRank(null);
+              }}
+              className="h-10 px-3 rounded-lg bg-secondary/50 border border-border focus:outline-none focus:ring-2 focus:ring-neon-cyan"
+            >
+              {data.servers.map((server) => (
+                <option key={server.id} value={server.id}>{server.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* Stats Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 my-8">
+          <Card variant="glass">
+            <CardContent className="p-6 text-center">
+              <Trophy className="w-8 h-8 mx-auto mb-2 text-neon-orange" />
+              <p className="text-3xl font-bold">{formatNumber(data?.total || 0)}</p>
+              <p className="text-muted-foreground">Ranked Players</p>
+            </CardContent>
+          </Card>
           <Card variant="glass">
             <CardContent className="p-6 text-center">
-              {leaderboardType === 'xp' ? (
+              <Crosshair className="w-8 h-8 mx-auto mb-2 text-neon-purple" />
+              {data?.me ? (
                 <>
-                  <Star className="w-8 h-8 mx-auto mb-2 text-neon-cyan" />
-                  <p className="text-3xl font-bold">{formatNumber(totalXP)}</p>
-                  <p className="text-muted-foreground">Total Community XP</p>
+                  <p className="text-3xl font-bold">#{formatNumber(data.me.rank)}</p>
+                  <p className="text-muted-foreground">
+                    Your Rank • {formatValue(data.me.value, unit)}
+                  </p>
+                  <Button variant="ghost" size="sm" className="mt-2" onClick={findMe}>
+                    Find me
+                  </Button>
                 </>
               ) : (
                 <>
-                  <Clock className="w-8 h-8 mx-auto mb-2 text-neon-cyan" />
-                  <p className="text-3xl font-bold">{formatPlaytime(totalPlaytime)}</p>
-                  <p className="text-muted-foreground">Total Playtime</p>
+                  <p className="text-3xl font-bold">—</p>
+                  <p className="text-muted-foreground">Not ranked on this board yet</p>
                 </>
               )}
             </CardContent>
           </Card>
           <Card variant="glass">
             <CardContent className="p-6 text-center">
-              <TrendingUp className="w-8 h-8 mx-auto mb-2 text-neon-purple" />
-              <p className="text-3xl font-bold">{avgLevel}</p>
-              <p className="text-muted-foreground">Average Level</p>
-            </CardContent>
-          </Card>
-          <Card variant="glass">
-            <CardContent className="p-6 text-center">
-              <Trophy className="w-8 h-8 mx-auto mb-2 text-neon-orange" />
-              <p className="text-3xl font-bold">{leaderboard.length}</p>
-              <p className="text-muted-foreground">Ranked Players</p>
+              <RefreshCw className="w-8 h-8 mx-auto mb-2 text-neon-cyan" />
+              <p className="text-3xl font-bold">
+                {data ? formatRelativeTime(data.refreshedAt) : '—'}
+              </p>
+              <p className="text-muted-foreground">Last Updated</p>
             </CardContent>
           </Card>
         </div>
@@ -175,28 +256,28 @@ export default function LeaderboardPage() {
         <Card variant="glass">
           <CardHeader>
             <CardTitle>
-              {leaderboardType === 'xp' ? 'Top Players by XP' : 'Top Players by Playtime'}
+              {boardInfo?.label || 'Top Players'}
             </CardTitle>
           </CardHeader>
           <CardContent>
-            {isLoading ? (
+            {isLoading && !data ? (
               <div className="flex items-center justify-center py-12">
                 <Loader2 className="w-8 h-8 animate-spin text-neon-cyan" />
               </div>
             ) : leaderboard.length > 0 ? (
-              <div className="space-y-2">
-                {leaderboard.map((player: any, index: any) => (
+              <div className={`space-y-2 transition-opacity ${isLoading ? 'opacity-50' : ''}`}>
+                {leaderboard.map((player) => (
                   <div
                     key={player.id}
-                    className={`flex items-center gap-4 p-4 rounded-lg border transition-colors hover:bg-secondary/80 ${getRankBg(index + 1)}`}
+                    className={`flex items-center gap-4 p-4 rounded-lg border transition-colors hover:bg-secondary/80 ${getRankBg(player.rank)} ${highlightRank === player.rank ? 'ring-2 ring-neon-cyan' : ''}`}
                   >
                     {/* Rank */}
                     <div className="w-10 flex justify-center">
-                      {getRankIcon(index + 1)}
+                      {getRankIcon(player.rank)}
                     </div>
 
                     {/* Avatar */}
-                    <Avatar className="w-12 h-12" glow={index < 3}>
+                    <Avatar className="w-12 h-12" glow={player.rank <= 3}>
                       <AvatarImage
                         src={getMinecraftAvatarUrl(player.minecraftUsername || player.username)}
                         alt={player.username}
@@ -229,33 +310,53 @@ export default function LeaderboardPage() {
                     </div>
 
                     {/* Level */}
-                    <div className="text-center px-4">
+                    <div className="text-center px-4 hidden sm:block">
                       <p className="text-lg font-bold text-neon-cyan">Lv. {player.level || 1}</p>
                     </div>
 
-                    {/* XP or Playtime */}
+                    {/* Board value */}
                     <div className="text-right min-w-[100px]">
-                      {leaderboardType === 'xp' ? (
-                        <>
-                          <p className="font-bold">{formatNumber(player.xp || 0)}</p>
-                          <p className="text-xs text-muted-foreground">XP</p>
-                        </>
-                      ) : (
-                        <>
-                          <p className="font-bold">{formatPlaytime(player.playtimeSeconds || 0)}</p>
-                          <p className="text-xs text-muted-foreground">Playtime</p>
-                        </>
-                      )}
+                      <p className="font-bold">{formatValue(player.value, unit)}</p>
+                      <p className="text-xs text-muted-foreground">{boardInfo?.label}</p>
                     </div>
                   </div>
                 ))}
+
+                {/* Pagination */}
+                {data && data.totalPages > 1 && (
+                  <div className="flex items-center justify-center gap-4 pt-4">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={page <= 1 || isLoading}
+                      onClick={() => setPage(page - 1)}
+                    >
+                      <ChevronLeft className="w-4 h-4 mr-1" />
+                      Previous
+                    </Button>
+                    <span className="text-sm text-muted-foreground">
+                      Page {data.page} of {data.totalPages}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={page >= data.totalPages || isLoading}
+                      onClick={() => setPage(page + 1)}
+                    >
+                      Next
+                      <ChevronRight className="w-4 h-4 ml-1" />
+                    </Button>
+                  </div>
+                )}
               </div>
             ) : (
               <div className="text-center py-12">
                 <Trophy className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
                 <h3 className="text-xl font-bold mb-2">No Players Yet</h3>
                 <p className="text-muted-foreground">
-                  Be the first to earn XP and climb the leaderboard!
+                  {board === 'donated'
+                    ? 'Donors can choose to appear here from their settings.'
+                    : 'Be the first to climb this leaderboard!'}
                 </p>
               </div>
             )}
@@ -5,7 +5,7 @@ import { useSession } from 'next-auth/react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import {
   MessageSquare, Send, Search, Plus,
-  MoreHorizontal, Phone, Video, Info, ArrowDown
+  MoreHorizontal, Phone, Video, Info, ArrowDown, Flag
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -13,6 +13,7 @@ import { Input } from '@/components/ui/input';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { getMinecraftAvatarUrl, getInitials, formatRelativeTime } from '@/lib/utils';
 import { useSocket } from '@/lib/socket-context';
+import { ReportDialog } from '@/components/report-dialog';
 
 interface Conversation {
   id: number;
@@ -38,6 +39,7 @@ export default function MessagesPage() {
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [reportMessageId, setReportMessageId] = useState<number | null>(null);
   const [newMessage, setNewMessage] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
   const [loadingConversations, setLoadingConversations] = useState(true);
@@ -443,7 +445,7 @@ export default function MessagesPage() {
                 {messages.map((message: any) => (
                   <div
                     key={message.id}
-                    className={`flex ${message.senderId === myId ? 'justify-end' : 'justify-start'}`}
+                    className={`group flex items-center gap-2 ${message.senderId === myId ? 'justify-end' : 'justify-start'}`}
                   >
                     <div
                       className={`max-w-[70%] rounded-2xl px-4 py-2 ${message.senderId === myId
@@ -457,6 +459,15 @@ export default function MessagesPage() {
                         {message.time.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                       </p>
                     </div>
+                    {message.senderId !== myId && (
+                      <button
+                        onClick={() => setReportMessageId(message.id)}
+                        className="p-1 rounded text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-warning transition-opacity"
+                        title="Report message"
+                      >
+                        <Flag className="w-4 h-4" />
+                      </button>
+                    )}
                   </div>
                 ))}
                 <div ref={messagesEndRef} />
@@ -511,6 +522,15 @@ export default function MessagesPage() {
           )}
         </Card>
       </div>
+
+      {reportMessageId !== null && (
+        <ReportDialog
+          contentType="private_message"
+          contentId={reportMessageId}
+          open
+          onClose={() => setReportMessageId(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,6 +1,6 @@
 import { notFound } from 'next/navigation';
 import { db } from '@/db';
-import { users, socialPosts, forumPosts, userAchievements, achievements, donationRanks, friendships, serverXp } from '@/db/schema';
+import { users, socialPosts, forumPosts, donationRanks, friendships, serverXp } from '@/db/schema';
 import { eq, desc, sql, and, or } from 'drizzle-orm';
 import Link from 'next/link';
 import {
@@ -21,6 +21,8 @@ import { formatRankExpiration } from '@/lib/ranks';
 import { auth } from '../../../../../auth';
 import { ProfileFriendActions, FriendshipStatus } from '@/components/profile-friend-actions';
 import { MinecraftSkinViewer } from '@/components/minecraft-skin-viewer';
+import { ReportButton } from '@/components/report-dialog';
+import { getUserAchievements } from '@/lib/achievements';
 
 // Force dynamic rendering to ensure fresh XP data
 export const dynamic = 'force-dynamic';
@@ -149,6 +151,15 @@ async function getRecentPosts(userId: number) {
   }
 }
 
+async function getAchievements(userId: number) {
+  try {
+    return await getUserAchievements(userId);
+  } catch (err: any) {
+    console.error('Error fetching achievements:', err);
+    return [];
+  }
+}
+
 async function getFriendshipStatus(viewerUserId: number | null, profileUserId: number): Promise<FriendshipStatus> {
   if (!viewerUserId || viewerUserId === profileUserId) return 'none';
 
@@ -195,10 +206,11 @@ export default async function ProfilePage({ params }: ProfilePageProps) {
   const session = await auth();
   const viewerId = session?.user ? parseInt(session.user.id as string) : null;
 
-  const [stats, recentPosts, friendshipStatus] = await Promise.all([
+  const [stats, recentPosts, friendshipStatus, userAchievementList] = await Promise.all([
     getUserStats(user.id),
     getRecentPosts(user.id),
     getFriendshipStatus(viewerId, user.id),
+    getAchievements(user.id),
   ]);
 
   // Use Minecraft-based XP system
@@ -206,6 +218,14 @@ export default async function ProfilePage({ params }: ProfilePageProps) {
 
   const isOwnProfile = viewerId !== null && viewerId === user.id;
 
+  const unlockedAchievements = userAchievementList
+    .filter((a) => a.completed)
+    .sort((a, b) => new Date(b.completedAt || 0).getTime() - new Date(a.completedAt || 0).getTime());
+  // Only the owner sees what they're still working towards
+  const inProgressAchievements = isOwnProfile
+    ? userAchievementList.filter((a) => !a.completed).sort((a, b) => b.progress / b.target - a.progress / a.target)
+    : [];
+
   return (
     <div className="container mx-auto px-4 py-8">
       {/* Profile Header */}
@@ -283,11 +303,16 @@ export default async function ProfilePage({ params }: ProfilePageProps) {
                 </div>
               </div>
 
-              <ProfileFriendActions
-                isOwnProfile={isOwnProfile}
-                friendshipStatus={friendshipStatus}
-                profileUserId={user.id}
-              />
+              <div className="flex items-start gap-2">
+                <ProfileFriendActions
+                  isOwnProfile={isOwnProfile}
+                  friendshipStatus={friendshipStatus}
+                  profileUserId={user.id}
+                />
+                {viewerId !== null && !isOwnProfile && (
+                  <ReportButton contentType="user" contentId={user.id} />
+                )}
+              </div>
             </div>
           </div>
         </CardContent>
@@ -325,6 +350,76 @@ export default async function ProfilePage({ params }: ProfilePageProps) {
             </CardContent>
           </Card>
 
+          {/* Achievements Showcase */}
+          <Card variant="glass">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center gap-2">
+                  <Trophy className="w-5 h-5 text-neon-orange" />
+                  Achievements
+                </span>
+                <span className="text-sm font-normal text-muted-foreground">
+                  {unlockedAchievements.length} unlocked
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {unlockedAchievements.length > 0 ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {unlockedAchievements.map((achievement) => (
+                    <div
+                      key={achievement.id}
+                      className="flex items-center gap-3 p-3 rounded-lg bg-neon-orange/10 border border-neon-orange/30"
+                    >
+                      <div className="w-10 h-10 shrink-0 rounded-lg bg-neon-orange/20 flex items-center justify-center text-xl">
+                        {achievement.icon || '🏆'}
+                      </div>
+                      <div className="min-w-0">
+                        <p className="font-semibold truncate">{achievement.name}</p>
+                        <p className="text-xs text-muted-foreground truncate">{achievement.description}</p>
+                        {achievement.completedAt && (
+                          <p className="text-xs text-muted-foreground">{formatDate(achievement.completedAt)}</p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-center text-muted-foreground py-4">
+                  No achievements unlocked yet
+                </p>
+              )}
+
+              {inProgressAchievements.length > 0 && (
+                <div className="space-y-3">
+                  <p className="text-sm font-medium text-muted-foreground">In Progress</p>
+                  {inProgressAchievements.map((achievement) => (
+                    <div key={achievement.id} className="p-3 rounded-lg bg-secondary/50">
+                      <div className="flex items-center justify-between gap-3 mb-2">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <span className="text-lg opacity-60">{achievement.icon || '🏆'}</span>
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">{achievement.name}</p>
+                            <p className="text-xs text-muted-foreground truncate">{achievement.description}</p>
+                          </div>
+                        </div>
+                        <span className="text-xs text-muted-foreground tabular-nums shrink-0">
+                          {formatNumber(achievement.progress)} / {formatNumber(achievement.target)}
+                        </span>
+                      </div>
+                      <div className="h-1.5 bg-secondary rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-gradient-to-r from-neon-cyan to-neon-purple"
+                          style={{ width: `${Math.round((achievement.progress / achievement.target) * 100)}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Recent Activity */}
           <Card variant="glass">
             <CardHeader>
@@ -386,7 +481,7 @@ export default async function ProfilePage({ params }: ProfilePageProps) {
                   <Trophy className="w-4 h-4" />
                   Achievements
                 </span>
-                <span className="font-bold">0</span>
+                <span className="font-bold">{unlockedAchievements.length}</span>
               </div>
               <div className="flex items-center justify-between">
                 <span className="flex items-center gap-2 text-muted-foreground">
@@ -150,6 +150,7 @@ async function getServerWithStatus(id: number) {
       apiKey: server.apiKey,
       pterodactylServerId: server.pterodactylServerId,
       pterodactylPanelUrl: server.pterodactylPanelUrl,
+      pterodactylPanelId: server.pterodactylPanelId,
       online: data?.online ?? false,
       version,
       players: {
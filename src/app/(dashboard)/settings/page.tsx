@@ -5,7 +5,7 @@ import { useSession, signIn } from 'next-auth/react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import {
   User, Shield, Bell, Palette, Key, CreditCard, Gamepad2,
-  Save, Loader2, Eye, EyeOff, Check, Crown, ExternalLink, AlertTriangle, Calendar, History, Link2, Unlink
+  Save, Loader2, Eye, EyeOff, Check, Crown, ExternalLink, AlertTriangle, Calendar, History, Link2, Unlink, Pause, Play
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -14,6 +14,8 @@ import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { getMinecraftAvatarUrl, getUserAvatarUrl, getInitials } from '@/lib/utils';
 import { MinecraftSkinViewer } from '@/components/minecraft-skin-viewer';
+import { TwoFactorSettings } from '@/components/two-factor-settings';
+import { ToggleSwitch } from '@/components/ui/toggle-switch';
 
 const tabs = [
   { id: 'profile', label: 'Profile', icon: User },
@@ -26,6 +28,11 @@ const tabs = [
 
 interface SubscriptionData {
   hasRank: boolean;
+  paused: {
+    rank: SubscriptionData['rank'];
+    remainingDays: number;
+    pausedAt: string | null;
+  } | null;
   rank: {
     id: string;
     name: string;
@@ -39,6 +46,7 @@ interface SubscriptionData {
   subscriptionProvider: 'stripe' | 'square' | null;
   subscriptionStatus: string | null;
   totalDonated: number;
+  showOnDonorLeaderboard: boolean;
   stripeStatus: string | null;
   squareStatus: string | null;
   cancelAtPeriodEnd: boolean;
@@ -155,6 +163,8 @@ export default function SettingsPage() {
   const [subscription, setSubscription] = useState<SubscriptionData | null>(null);
   const [loadingSubscription, setLoadingSubscription] = useState(false);
   const [managingSubscription, setManagingSubscription] = useState(false);
+  const [togglingPause, setTogglingPause] = useState(false);
+  const [savingDonorVisibility, setSavingDonorVisibility] = useState(false);
   const [donations, setDonations] = useState<{
     id: number;
     amount: number;
@@ -262,6 +272,61 @@ export default function SettingsPage() {
     }
   };
 
+  const handleTogglePause = async () => {
+    if (!subscription) return;
+    const resuming = !!subscription.paused;
+
+    if (!resuming && !confirm(
+      'Pause your rank? Your remaining days are frozen and your perks and Discord role are removed until you resume.'
+      + (subscription.hasSubscription ? ' Billing on your subscription is paused too.' : '')
+    )) {
+      return;
+    }
+
+    setTogglingPause(true);
+    try {
+      const res = await fetch('/api/user/subscription/pause', {
+        method: resuming ? 'DELETE' : 'POST',
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        await fetchSubscription();
+      } else {
+        alert(data.error || `Failed to ${resuming ? 'resume' : 'pause'} your rank`);
+      }
+    } catch (err: any) {
+      console.error('Error toggling rank pause:', err);
+      alert('An error occurred. Please try again.');
+    } finally {
+      setTogglingPause(false);
+    }
+  };
+
+  const handleToggleDonorVisibility = async (show: boolean) => {
+    if (!subscription) return;
+
+    setSavingDonorVisibility(true);
+    try {
+      const res = await fetch('/api/users/me', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ showOnDonorLeaderboard: show }),
+      });
+
+      if (res.ok) {
+        setSubscription({ ...subscription, showOnDonorLeaderboard: show });
+      } else {
+        alert('Failed to update your leaderboard visibility');
+      }
+    } catch (err: any) {
+      console.error('Error updating donor leaderboard visibility:', err);
+      alert('An error occurred. Please try again.');
+    } finally {
+      setSavingDonorVisibility(false);
+    }
+  };
+
   const handleResetAvatar = async () => {
     if (!user?.id) return;
 
@@ -554,7 +619,48 @@ export default function SettingsPage() {
                     {/* Current Rank Status */}
                     <div className="p-4 rounded-lg bg-secondary/50 border border-border">
                       <h3 className="font-semibold mb-3">Current Rank</h3>
-                      {subscription.hasRank && subscription.rank ? (
+                      {subscription.paused ? (
+                        <div className="space-y-3">
+                          <div className="flex items-center gap-3">
+                            <span className="text-2xl opacity-60">{subscription.paused.rank?.icon || '👤'}</span>
+                            <div>
+                              <p
+                                className="font-bold text-lg opacity-60"
+                                style={{ color: subscription.paused.rank?.color }}
+                              >
+                                {subscription.paused.rank?.name || 'Rank'}
+                              </p>
+                              <Badge variant="warning">Paused</Badge>
+                            </div>
+                          </div>
+
+                          <p className="text-sm text-muted-foreground">
+                            <span className="text-foreground">{subscription.paused.remainingDays} days</span> frozen
+                            {subscription.paused.pausedAt && (
+                              <> since {new Date(subscription.paused.pausedAt).toLocaleDateString('en-US', {
+                                month: 'long',
+                                day: 'numeric',
+                                year: 'numeric',
+                              })}</>
+                            )}
+                            . They&apos;ll be added back when you resume.
+                          </p>
+
+                          <Button
+                            variant="neon"
+                            size="sm"
+                            onClick={handleTogglePause}
+                            disabled={togglingPause}
+                          >
+                            {togglingPause ? (
+                              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                            ) : (
+                              <Play className="w-4 h-4 mr-2" />
+                            )}
+                            Resume Rank
+                          </Button>
+                        </div>
+                      ) : subscription.hasRank && subscription.rank ? (
                         <div className="space-y-3">
                           <div className="flex items-center gap-3">
                             <span className="text-2xl">{subscription.rank.icon || '👤'}</span>
@@ -588,6 +694,27 @@ export default function SettingsPage() {
                               </span>
                             </div>
                           )}
+
+                          {!subscription.isExpired && (
+                            <div className="space-y-1">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={handleTogglePause}
+                                disabled={togglingPause}
+                              >
+                                {togglingPause ? (
+                                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                                ) : (
+                                  <Pause className="w-4 h-4 mr-2" />
+                                )}
+                                Pause Rank
+                              </Button>
+                              <p className="text-xs text-muted-foreground">
+                                Going away for a while? Pause to freeze your remaining days.
+                              </p>
+                            </div>
+                          )}
                         </div>
                       ) : (
                         <div className="text-muted-foreground">
@@ -684,6 +811,15 @@ export default function SettingsPage() {
                       <p className="text-xs text-muted-foreground mt-1">
                         Thank you for supporting the server!
                       </p>
+                      <ToggleSwitch
+                        className="mt-4"
+                        size="sm"
+                        checked={subscription.showOnDonorLeaderboard}
+                        onChange={handleToggleDonorVisibility}
+                        disabled={savingDonorVisibility}
+                        label="Show me on the Top Donors leaderboard"
+                        description="Your total contributed is public while this is on"
+                      />
                     </div>
 
                     {/* Donation History */}
@@ -842,17 +978,7 @@ export default function SettingsPage() {
                 </div>
 
                 {/* Two-Factor Auth */}
-                <div className="p-4 rounded-lg bg-secondary/50 border border-border">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <h3 className="font-semibold">Two-Factor Authentication</h3>
-                      <p className="text-sm text-muted-foreground">
-                        Add an extra layer of security to your account
-                      </p>
-                    </div>
-                    <Button variant="neon-outline">Enable 2FA</Button>
-                  </div>
-                </div>
+                <TwoFactorSettings />
 
                 {/* Discord OAuth Status Message */}
                 {discordMessage && (
@@ -15,6 +15,7 @@ import { Button } from '@/components/ui/button';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { getMinecraftAvatarUrl, getInitials, formatRelativeTime } from '@/lib/utils';
+import { ReportDialog } from '@/components/report-dialog';
 
 interface SocialPost {
   id: number;
@@ -55,6 +56,7 @@ export default function SocialPage() {
   const [deletingPostId, setDeletingPostId] = useState<number | null>(null);
   const [feedFilter, setFeedFilter] = useState<FeedFilter>('latest');
   const [showDeleteModal, setShowDeleteModal] = useState<number | null>(null);
+  const [reportPostId, setReportPostId] = useState<number | null>(null);
   const [stats, setStats] = useState({ totalPosts: 0, totalUsers: 0, postsToday: 0 });
 
   // Check if current user can manage a post
@@ -527,7 +529,7 @@ export default function SocialPage() {
                                 <div className="border-t border-border my-1" />
                                 <button
                                   onClick={() => {
-                                    toast.info('Report feature coming soon');
+                                    setReportPostId(post.id);
                                     setOpenMenuId(null);
                                   }}
                                   className="w-full flex items-center gap-2 px-4 py-2 text-sm text-warning hover:bg-warning/10 transition-colors"
@@ -678,6 +680,15 @@ export default function SocialPage() {
         </div>
       </div>
 
+      {reportPostId !== null && (
+        <ReportDialog
+          contentType="social_post"
+          contentId={reportPostId}
+          open
+          onClose={() => setReportPostId(null)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteModal !== null && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -7,22 +7,211 @@ import Link from 'next/link';
 import { toast } from 'sonner';
 import {
   Heart, MessageCircle, Share2, ArrowLeft, Send,
-  Loader2, MoreHorizontal, Trash2
+  Loader2, MoreHorizontal, Trash2, Reply, ChevronDown, ChevronRight, Flag
 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { getMinecraftAvatarUrl, getInitials, formatRelativeTime } from '@/lib/utils';
+import { ReportButton, ReportDialog } from '@/components/report-dialog';
 
 interface Comment {
   id: number;
+  parentCommentId: number | null;
   content: string;
+  likesCount: number;
   createdAt: string;
   userId: number;
   username: string | null;
   minecraftUsername: string | null;
   userRole: string | null;
+  userLiked: boolean;
+  depth: number;
+  replies: Comment[];
+}
+
+function countReplies(comment: Comment): number {
+  return comment.replies.reduce((sum, reply) => sum + 1 + countReplies(reply), 0);
+}
+
+function getRoleBadge(role: string | null) {
+  switch (role) {
+    case 'admin':
+    case 'superadmin':
+      return <Badge variant="neon-pink">Admin</Badge>;
+    case 'moderator':
+      return <Badge variant="neon-purple">Mod</Badge>;
+    default:
+      return null;
+  }
+}
+
+interface CommentThreadProps {
+  comment: Comment;
+  viewerId: number | null;
+  onReply: (content: string, parentCommentId: number) => Promise<boolean>;
+}
+
+function CommentThread({ comment, viewerId, onReply }: CommentThreadProps) {
+  const [collapsed, setCollapsed] = useState(false);
+  const [isReplying, setIsReplying] = useState(false);
+  const [replyText, setReplyText] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [liked, setLiked] = useState(comment.userLiked);
+  const [likesCount, setLikesCount] = useState(comment.likesCount);
+  const [isLiking, setIsLiking] = useState(false);
+  const [isReporting, setIsReporting] = useState(false);
+
+  const replyCount = countReplies(comment);
+  const isOwn = viewerId === comment.userId;
+
+  const handleLike = async () => {
+    if (!viewerId) {
+      toast.warning('Please sign in to like comments');
+      return;
+    }
+    if (isOwn || isLiking) return;
+
+    setIsLiking(true);
+    try {
+      const response = await fetch(`/api/social/comments/${comment.id}/like`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to update like');
+        return;
+      }
+      setLiked(data.liked);
+      setLikesCount(data.likesCount);
+    } catch (err: any) {
+      toast.error('Failed to update like');
+    } finally {
+      setIsLiking(false);
+    }
+  };
+
+  const handleReply = async () => {
+    if (!replyText.trim()) return;
+
+    setIsSubmitting(true);
+    const ok = await onReply(replyText.trim(), comment.id);
+    setIsSubmitting(false);
+
+    if (ok) {
+      setReplyText('');
+      setIsReplying(false);
+    }
+  };
+
+  return (
+    <div className={comment.depth > 0 ? 'ml-4 sm:ml-6 pl-4 border-l border-border' : ''}>
+      <div className="flex gap-3 py-3">
+        <Avatar className={comment.depth > 0 ? 'w-8 h-8' : 'w-10 h-10'}>
+          <AvatarImage
+            src={getMinecraftAvatarUrl(comment.minecraftUsername || comment.username || '')}
+            alt={comment.username || ''}
+          />
+          <AvatarFallback>
+            {getInitials(comment.username || 'U')}
+          </AvatarFallback>
+        </Avatar>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1 flex-wrap">
+            <span className="font-semibold">{comment.username}</span>
+            {getRoleBadge(comment.userRole)}
+            <span className="text-sm text-muted-foreground">
+              {formatRelativeTime(new Date(comment.createdAt))}
+            </span>
+          </div>
+
+          {!collapsed && (
+            <p className="text-foreground whitespace-pre-wrap break-words">
+              {comment.content}
+            </p>
+          )}
+
+          <div className="flex items-center gap-4 mt-2 text-sm text-muted-foreground">
+            <button
+              onClick={handleLike}
+              disabled={isLiking || isOwn}
+              className={`flex items-center gap-1 transition-colors disabled:cursor-default ${liked ? 'text-error' : !isOwn ? 'hover:text-error' : ''}`}
+            >
+              <Heart className={`w-4 h-4 ${liked ? 'fill-current' : ''}`} />
+              <span>{likesCount}</span>
+            </button>
+
+            {viewerId && (
+              <button
+                onClick={() => setIsReplying(!isReplying)}
+                className="flex items-center gap-1 hover:text-neon-cyan transition-colors"
+              >
+                <Reply className="w-4 h-4" />
+                Reply
+              </button>
+            )}
+
+            {viewerId && !isOwn && (
+              <button
+                onClick={() => setIsReporting(true)}
+                className="flex items-center gap-1 hover:text-warning transition-colors"
+              >
+                <Flag className="w-4 h-4" />
+                Report
+              </button>
+            )}
+
+            {replyCount > 0 && (
+              <button
+                onClick={() => setCollapsed(!collapsed)}
+                className="flex items-center gap-1 hover:text-foreground transition-colors"
+              >
+                {collapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                {collapsed ? `Show ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}` : 'Hide replies'}
+              </button>
+            )}
+          </div>
+
+          {isReplying && (
+            <div className="mt-3">
+              <textarea
+                value={replyText}
+                onChange={(e) => setReplyText(e.target.value)}
+                placeholder={`Reply to ${comment.username}...`}
+                className="w-full bg-secondary/50 border border-border rounded-lg p-3 resize-none focus:outline-none focus:ring-2 focus:ring-neon-cyan/50 min-h-[60px]"
+                maxLength={500}
+                autoFocus
+              />
+              <div className="flex items-center justify-end gap-2 mt-2">
+                <Button variant="ghost" size="sm" onClick={() => setIsReplying(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="neon"
+                  size="sm"
+                  onClick={handleReply}
+                  disabled={!replyText.trim() || isSubmitting}
+                >
+                  {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Reply'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <ReportDialog
+        contentType="social_comment"
+        contentId={comment.id}
+        open={isReporting}
+        onClose={() => setIsReporting(false)}
+      />
+
+      {!collapsed && comment.replies.map((reply) => (
+        <CommentThread key={reply.id} comment={reply} viewerId={viewerId} onReply={onReply} />
+      ))}
+    </div>
+  );
 }
 
 interface Post {
@@ -124,30 +313,40 @@ export default function PostDetailPage() {
     }
   };
 
-  const handleComment = async () => {
-    if (!newComment.trim() || !post) return;
+  const submitComment = async (content: string, parentCommentId?: number) => {
+    if (!post) return false;
 
-    setIsSubmitting(true);
     try {
       const response = await fetch(`/api/social/posts/${post.id}/comments`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ content: newComment.trim() }),
+        body: JSON.stringify({ content, parentCommentId }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to post comment');
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || 'Failed to post comment');
+        return false;
       }
 
       // Refresh to get updated comments
       await fetchPost();
-      setNewComment('');
-      toast.success('Comment posted!');
+      toast.success(parentCommentId ? 'Reply posted!' : 'Comment posted!');
+      return true;
     } catch (err: any) {
       toast.error('Failed to post comment');
-    } finally {
-      setIsSubmitting(false);
+      return false;
+    }
+  };
+
+  const handleComment = async () => {
+    if (!newComment.trim()) return;
+
+    setIsSubmitting(true);
+    if (await submitComment(newComment.trim())) {
+      setNewComment('');
     }
+    setIsSubmitting(false);
   };
 
   const handleDelete = async () => {
@@ -169,18 +368,6 @@ export default function PostDetailPage() {
     }
   };
 
-  const getRoleBadge = (role: string | null) => {
-    switch (role) {
-      case 'admin':
-      case 'superadmin':
-        return <Badge variant="neon-pink">Admin</Badge>;
-      case 'moderator':
-        return <Badge variant="neon-purple">Mod</Badge>;
-      default:
-        return null;
-    }
-  };
-
   const canDelete = post && user && (
     post.userId === parseInt(user.id) ||
     ['admin', 'superadmin', 'moderator'].includes(user.role)
@@ -255,6 +442,10 @@ export default function PostDetailPage() {
               </div>
             </div>
 
+            {user && post.userId !== parseInt(user.id) && (
+              <ReportButton contentType="social_post" contentId={post.id} />
+            )}
+
             {canDelete && (
               <Button variant="ghost" size="icon" onClick={handleDelete} className="text-error hover:text-error">
                 <Trash2 className="w-5 h-5" />
@@ -355,7 +546,7 @@ export default function PostDetailPage() {
 
       {/* Comments */}
       <div className="space-y-4">
-        <h3 className="text-lg font-semibold">Comments ({post.comments.length})</h3>
+        <h3 className="text-lg font-semibold">Comments ({post.commentsCount})</h3>
 
         {post.comments.length === 0 ? (
           <Card variant="glass">
@@ -365,36 +556,18 @@ export default function PostDetailPage() {
             </CardContent>
           </Card>
         ) : (
-          post.comments.map((comment: any) => (
-            <Card key={comment.id} variant="glass">
-              <CardContent className="p-4">
-                <div className="flex gap-3">
-                  <Avatar className="w-10 h-10">
-                    <AvatarImage
-                      src={getMinecraftAvatarUrl(comment.minecraftUsername || comment.username || '')}
-                      alt={comment.username || ''}
-                    />
-                    <AvatarFallback>
-                      {getInitials(comment.username || 'U')}
-                    </AvatarFallback>
-                  </Avatar>
-
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2 mb-1">
-                      <span className="font-semibold">{comment.username}</span>
-                      {getRoleBadge(comment.userRole)}
-                      <span className="text-sm text-muted-foreground">
-                        {formatRelativeTime(new Date(comment.createdAt))}
-                      </span>
-                    </div>
-                    <p className="text-foreground whitespace-pre-wrap">
-                      {comment.content}
-                    </p>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))
+          <Card variant="glass">
+            <CardContent className="p-4 divide-y divide-border">
+              {post.comments.map((comment) => (
+                <CommentThread
+                  key={comment.id}
+                  comment={comment}
+                  viewerId={user?.id ? parseInt(user.id) : null}
+                  onReply={submitComment}
+                />
+              ))}
+            </CardContent>
+          </Card>
         )}
       </div>
     </div>
@@ -1,6 +1,7 @@
 import { redirect } from 'next/navigation';
 import { auth } from '../../../auth';
 import { canAccessAdmin } from '@/lib/auth-guard';
+import { getUserServerGrants } from '@/lib/server-access';
 
 export const metadata = {
     title: 'Server Panel | Vonix Network',
@@ -18,15 +19,14 @@ export default async function PanelLayout({
         redirect('/login?callbackUrl=/panel');
     }
 
-    // Use the same permission check as admin panel
-    const hasAccess = await canAccessAdmin();
-    if (!hasAccess) {
-        redirect('/login?callbackUrl=/panel&error=AccessDenied');
-    }
-
-    // Double-check for superadmin role
-    if (session.user.role !== 'superadmin') {
-        redirect('/');
+    // Superadmins see every server; other staff only the servers they have
+    // been granted access to
+    const isSuperadmin = session.user.role === 'superadmin' && await canAccessAdmin();
+    if (!isSuperadmin) {
+        const grants = await getUserServerGrants(parseInt(session.user.id as string));
+        if (grants.size === 0) {
+            redirect('/');
+        }
     }
 
     return (
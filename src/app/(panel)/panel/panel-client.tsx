@@ -7,12 +7,14 @@ import {
     FolderOpen, Database, Archive, Settings2, ChevronRight, Clock,
     Globe, ArrowDown, ArrowUp, Maximize2, Minimize2, ChevronDown,
     File, Folder, ArrowLeft, Plus, Trash2, Edit, Save, X, Download,
-    Copy, Lock, Unlock, Calendar, Users, Menu
+    Copy, Lock, Unlock, Calendar, Users, Menu, CalendarClock
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { SchedulesTab } from './schedules-tab';
+import type { ServerCapability } from '@/lib/server-access';
 
 interface PterodactylServer {
     identifier: string;
@@ -23,6 +25,10 @@ interface PterodactylServer {
     allocation?: { ip: string; port: number };
     limits?: { memory: number; disk: number; cpu: number };
     featureLimits?: { databases: number; allocations: number; backups: number };
+    panelId?: number;
+    panelName?: string;
+    capabilities?: ServerCapability[]; // What the signed-in user may do on this server
+    fullAccess?: boolean;
 }
 
 interface ServerResources {
@@ -86,7 +92,7 @@ interface StatsHistory {
     networkTx: number;
 }
 
-type TabType = 'console' | 'files' | 'databases' | 'backups' | 'startup';
+type TabType = 'console' | 'files' | 'databases' | 'backups' | 'schedules' | 'startup';
 
 function formatBytes(bytes: number): string {
     if (bytes === 0) return '0 B';
@@ -421,12 +427,14 @@ function DualSparklineChart({
     );
 }
 
-const navItems: { id: TabType; label: string; icon: any; description: string }[] = [
-    { id: 'console', label: 'Console', icon: Terminal, description: 'Server console & commands' },
-    { id: 'files', label: 'Files', icon: FolderOpen, description: 'File manager' },
-    { id: 'databases', label: 'Databases', icon: Database, description: 'MySQL databases' },
-    { id: 'backups', label: 'Backups', icon: Archive, description: 'Backup management' },
-    { id: 'startup', label: 'Startup', icon: Settings2, description: 'Startup configuration' },
+// capability: what a delegated user needs to see the tab (null = full access only)
+const navItems: { id: TabType; label: string; icon: any; description: string; capability: ServerCapability | null }[] = [
+    { id: 'console', label: 'Console', icon: Terminal, description: 'Server console & commands', capability: 'console' },
+    { id: 'files', label: 'Files', icon: FolderOpen, description: 'File manager', capability: 'files:read' },
+    { id: 'databases', label: 'Databases', icon: Database, description: 'MySQL databases', capability: null },
+    { id: 'backups', label: 'Backups', icon: Archive, description: 'Backup management', capability: 'backups' },
+    { id: 'schedules', label: 'Schedules', icon: CalendarClock, description: 'Scheduled tasks', capability: null },
+    { id: 'startup', label: 'Startup', icon: Settings2, description: 'Startup configuration', capability: null },
 ];
 
 export function PanelClient() {
@@ -602,6 +610,25 @@ export function PanelClient() {
         }
     }, [selectedServer?.identifier]);
 
+    // Staff using delegated access can't open the admin dashboard
+    const isDelegated = servers.length > 0 && !servers[0].fullAccess;
+
+    const can = (capability: ServerCapability) => !!selectedServer?.capabilities?.includes(capability);
+
+    const visibleNavItems = useMemo(
+        () => navItems.filter(item => item.capability
+            ? selectedServer?.capabilities?.includes(item.capability)
+            : selectedServer?.fullAccess),
+        [selectedServer]
+    );
+
+    // Fall back to the first tab the user may see when switching servers
+    useEffect(() => {
+        if (visibleNavItems.length > 0 && !visibleNavItems.some(item => item.id === activeTab)) {
+            setActiveTab(visibleNavItems[0].id);
+        }
+    }, [visibleNavItems, activeTab]);
+
     const fetchServerResources = useCallback(async () => {
         if (!selectedServer) return;
         try {
@@ -999,6 +1026,12 @@ export function PanelClient() {
             setCurrentPath('/'); setFiles([]); setEditingFile(null);
             setPlayerData(null); setPlayerError(false); setPlayerLoading(true);
 
+            // Console, stats and players all need console access
+            if (!selectedServer.capabilities?.includes('console')) {
+                setResources(null); setPlayerLoading(false);
+                return;
+            }
+
             // Initial fetches - unified poll will handle resources and graphs together
             connectConsole(selectedServer);
             fetchPlayers();
@@ -1169,7 +1202,10 @@ export function PanelClient() {
                                     <Server className="w-4 h-4 text-neon-purple" />
                                     <div className="text-left min-w-0">
                                         <p className="font-medium truncate">{server.name}</p>
-                                        <p className="text-xs text-muted-foreground truncate">{server.allocation ? `${server.allocation.ip}:${server.allocation.port}` : server.node}</p>
+                                        <p className="text-xs text-muted-foreground truncate">
+                                            {server.panelName && `${server.panelName} · `}
+                                            {server.allocation ? `${server.allocation.ip}:${server.allocation.port}` : server.node}
+                                        </p>
                                     </div>
                                 </button>
                             ))}
@@ -1360,47 +1396,49 @@ export function PanelClient() {
                                 )}
 
                                 {/* Power Buttons */}
-                                <div className="flex items-center gap-2">
-                                    <button
-                                        onClick={() => sendPowerAction('start')}
-                                        disabled={!resources || actionInProgress !== null || resources.currentState === 'running'}
-                                        className="w-8 h-8 flex items-center justify-center rounded-md bg-transparent hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-                                        title="Start"
-                                    >
-                                        {actionInProgress === 'start' ? <RefreshCw className="w-4 h-4 text-muted-foreground animate-spin" /> : <Play className="w-4 h-4 text-muted-foreground" />}
-                                    </button>
-                                    <button
-                                        onClick={() => sendPowerAction('restart')}
-                                        disabled={!resources || actionInProgress !== null}
-                                        className="w-8 h-8 flex items-center justify-center rounded-md bg-transparent hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-                                        title="Restart"
-                                    >
-                                        {actionInProgress === 'restart' ? <RefreshCw className="w-4 h-4 text-muted-foreground animate-spin" /> : <RotateCcw className="w-4 h-4 text-muted-foreground" />}
-                                    </button>
-                                    <button
-                                        onClick={() => sendPowerAction('stop')}
-                                        disabled={!resources || actionInProgress !== null || resources?.currentState === 'offline'}
-                                        className="w-8 h-8 flex items-center justify-center rounded-md bg-transparent hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-                                        title="Stop"
-                                    >
-                                        {actionInProgress === 'stop' ? <RefreshCw className="w-4 h-4 text-muted-foreground animate-spin" /> : <Square className="w-4 h-4 text-muted-foreground" />}
-                                    </button>
-                                    <button
-                                        onClick={() => sendPowerAction('kill')}
-                                        disabled={!resources || actionInProgress !== null || resources?.currentState === 'offline'}
-                                        className="w-8 h-8 flex items-center justify-center rounded-md bg-transparent hover:bg-red-500/20 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-                                        title="Kill"
-                                    >
-                                        <Skull className="w-4 h-4 text-red-500" />
-                                    </button>
-                                </div>
+                                {can('power') && (
+                                    <div className="flex items-center gap-2">
+                                        <button
+                                            onClick={() => sendPowerAction('start')}
+                                            disabled={!resources || actionInProgress !== null || resources.currentState === 'running'}
+                                            className="w-8 h-8 flex items-center justify-center rounded-md bg-transparent hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                                            title="Start"
+                                        >
+                                            {actionInProgress === 'start' ? <RefreshCw className="w-4 h-4 text-muted-foreground animate-spin" /> : <Play className="w-4 h-4 text-muted-foreground" />}
+                                        </button>
+                                        <button
+                                            onClick={() => sendPowerAction('restart')}
+                                            disabled={!resources || actionInProgress !== null}
+                                            className="w-8 h-8 flex items-center justify-center rounded-md bg-transparent hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                                            title="Restart"
+                                        >
+                                            {actionInProgress === 'restart' ? <RefreshCw className="w-4 h-4 text-muted-foreground animate-spin" /> : <RotateCcw className="w-4 h-4 text-muted-foreground" />}
+                                        </button>
+                                        <button
+                                            onClick={() => sendPowerAction('stop')}
+                                            disabled={!resources || actionInProgress !== null || resources?.currentState === 'offline'}
+                                            className="w-8 h-8 flex items-center justify-center rounded-md bg-transparent hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                                            title="Stop"
+                                        >
+                                            {actionInProgress === 'stop' ? <RefreshCw className="w-4 h-4 text-muted-foreground animate-spin" /> : <Square className="w-4 h-4 text-muted-foreground" />}
+                                        </button>
+                                        <button
+                                            onClick={() => sendPowerAction('kill')}
+                                            disabled={!resources || actionInProgress !== null || resources?.currentState === 'offline'}
+                                            className="w-8 h-8 flex items-center justify-center rounded-md bg-transparent hover:bg-red-500/20 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                                            title="Kill"
+                                        >
+                                            <Skull className="w-4 h-4 text-red-500" />
+                                        </button>
+                                    </div>
+                                )}
                             </div>
                         </div>
 
                         {/* Back to Admin */}
-                        <Button variant="ghost" className="w-full justify-start" onClick={() => window.location.href = '/admin'}>
+                        <Button variant="ghost" className="w-full justify-start" onClick={() => window.location.href = isDelegated ? '/' : '/admin'}>
                             <ArrowLeft className="w-4 h-4 mr-2" />
-                            Back to Admin
+                            {isDelegated ? 'Back to Site' : 'Back to Admin'}
                         </Button>
                     </div>
                 )}
@@ -1408,9 +1446,9 @@ export function PanelClient() {
                 {/* Back to Admin - shown when no server selected */}
                 {!selectedServer && (
                     <div className="mt-auto pt-4 border-t border-border">
-                        <Button variant="ghost" className="w-full justify-start" onClick={() => window.location.href = '/admin'}>
+                        <Button variant="ghost" className="w-full justify-start" onClick={() => window.location.href = isDelegated ? '/' : '/admin'}>
                             <ArrowLeft className="w-4 h-4 mr-2" />
-                            Back to Admin
+                            {isDelegated ? 'Back to Site' : 'Back to Admin'}
                         </Button>
                     </div>
                 )}
@@ -1430,7 +1468,7 @@ export function PanelClient() {
 
                     {/* Nav Items - horizontal scroll on mobile */}
                     <div className="flex items-center gap-1 overflow-x-auto flex-1">
-                        {navItems.map((item: any) => (
+                        {visibleNavItems.map((item: any) => (
                             <button
                                 key={item.id}
                                 onClick={() => setActiveTab(item.id)}
@@ -1465,40 +1503,42 @@ export function PanelClient() {
                             )}
 
                             {/* Power Buttons */}
-                            <div className="flex items-center gap-1">
-                                <button
-                                    onClick={() => sendPowerAction('start')}
-                                    disabled={!resources || actionInProgress !== null || resources.currentState === 'running'}
-                                    className="w-8 h-8 flex items-center justify-center rounded-md hover:bg-accent disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-                                    title="Start"
-                                >
-                                    {actionInProgress === 'start' ? <RefreshCw className="w-4 h-4 text-muted-foreground animate-spin" /> : <Play className="w-4 h-4 text-green-500" />}
-                                </button>
-                                <button
-                                    onClick={() => sendPowerAction('restart')}
-                                    disabled={!resources || actionInProgress !== null}
-                                    className="w-8 h-8 flex items-center justify-center rounded-md hover:bg-accent disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-                                    title="Restart"
-                                >
-                                    {actionInProgress === 'restart' ? <RefreshCw className="w-4 h-4 text-muted-foreground animate-spin" /> : <RotateCcw className="w-4 h-4 text-blue-500" />}
-                                </button>
-                                <button
-                                    onClick={() => sendPowerAction('stop')}
-                                    disabled={!resources || actionInProgress !== null || resources?.currentState === 'offline'}
-                                    className="w-8 h-8 flex items-center justify-center rounded-md hover:bg-accent disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-                                    title="Stop"
-                                >
-                                    {actionInProgress === 'stop' ? <RefreshCw className="w-4 h-4 text-muted-foreground animate-spin" /> : <Square className="w-4 h-4 text-yellow-500" />}
-                                </button>
-                                <button
-                                    onClick={() => sendPowerAction('kill')}
-                                    disabled={!resources || actionInProgress !== null || resources?.currentState === 'offline'}
-                                    className="w-8 h-8 flex items-center justify-center rounded-md hover:bg-red-500/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-                                    title="Kill"
-                                >
-                                    <Skull className="w-4 h-4 text-red-500" />
-                                </button>
-                            </div>
+                            {can('power') && (
+                                <div className="flex items-center gap-1">
+                                    <button
+                                        onClick={() => sendPowerAction('start')}
+                                        disabled={!resources || actionInProgress !== null || resources.currentState === 'running'}
+                                        className="w-8 h-8 flex items-center justify-center rounded-md hover:bg-accent disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                                        title="Start"
+                                    >
+                                        {actionInProgress === 'start' ? <RefreshCw className="w-4 h-4 text-muted-foreground animate-spin" /> : <Play className="w-4 h-4 text-green-500" />}
+                                    </button>
+                                    <button
+                                        onClick={() => sendPowerAction('restart')}
+                                        disabled={!resources || actionInProgress !== null}
+                                        className="w-8 h-8 flex items-center justify-center rounded-md hover:bg-accent disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                                        title="Restart"
+                                    >
+                                        {actionInProgress === 'restart' ? <RefreshCw className="w-4 h-4 text-muted-foreground animate-spin" /> : <RotateCcw className="w-4 h-4 text-blue-500" />}
+                                    </button>
+                                    <button
+                                        onClick={() => sendPowerAction('stop')}
+                                        disabled={!resources || actionInProgress !== null || resources?.currentState === 'offline'}
+                                        className="w-8 h-8 flex items-center justify-center rounded-md hover:bg-accent disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                                        title="Stop"
+                                    >
+                                        {actionInProgress === 'stop' ? <RefreshCw className="w-4 h-4 text-muted-foreground animate-spin" /> : <Square className="w-4 h-4 text-yellow-500" />}
+                                    </button>
+                                    <button
+                                        onClick={() => sendPowerAction('kill')}
+                                        disabled={!resources || actionInProgress !== null || resources?.currentState === 'offline'}
+                                        className="w-8 h-8 flex items-center justify-center rounded-md hover:bg-red-500/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                                        title="Kill"
+                                    >
+                                        <Skull className="w-4 h-4 text-red-500" />
+                                    </button>
+                                </div>
+                            )}
                         </div>
                     )}
                 </div>
@@ -1558,17 +1598,19 @@ export function PanelClient() {
                                 </div>
 
                                 {/* Command Input */}
-                                <div className="p-2 border-t border-border bg-background/50">
-                                    <div className="flex gap-2">
-                                        <div className="flex-1 relative">
-                                            <ChevronRight className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-neon-cyan" />
-                                            <Input value={command} onChange={(e) => setCommand(e.target.value)} placeholder="Type a command..."
-                                                onKeyDown={(e) => e.key === 'Enter' && sendConsoleCommand()}
-                                                className="pl-8 font-mono text-sm bg-[#0a0a0a] border-border" />
+                                {can('command') && (
+                                    <div className="p-2 border-t border-border bg-background/50">
+                                        <div className="flex gap-2">
+                                            <div className="flex-1 relative">
+                                                <ChevronRight className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-neon-cyan" />
+                                                <Input value={command} onChange={(e) => setCommand(e.target.value)} placeholder="Type a command..."
+                                                    onKeyDown={(e) => e.key === 'Enter' && sendConsoleCommand()}
+                                                    className="pl-8 font-mono text-sm bg-[#0a0a0a] border-border" />
+                                            </div>
+                                            <Button variant="gradient" onClick={sendConsoleCommand} disabled={!command.trim()}><Send className="w-4 h-4" /></Button>
                                         </div>
-                                        <Button variant="gradient" onClick={sendConsoleCommand} disabled={!command.trim()}><Send className="w-4 h-4" /></Button>
                                     </div>
-                                </div>
+                                )}
                             </Card>
                             {selectedServer && (
                                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
@@ -1646,7 +1688,9 @@ export function PanelClient() {
                                     <span className="text-xs text-muted-foreground font-mono">{currentPath}</span>
                                 </div>
                                 <div className="flex items-center gap-2">
-                                    <Button variant="ghost" size="sm" onClick={() => setShowNewFolder(true)}><Plus className="w-4 h-4 mr-1" /> New Folder</Button>
+                                    {can('files:write') && (
+                                        <Button variant="ghost" size="sm" onClick={() => setShowNewFolder(true)}><Plus className="w-4 h-4 mr-1" /> New Folder</Button>
+                                    )}
                                     <Button variant="ghost" size="sm" onClick={() => fetchFiles(currentPath)}><RefreshCw className="w-4 h-4" /></Button>
                                 </div>
                             </CardHeader>
@@ -1656,10 +1700,12 @@ export function PanelClient() {
                                         <span className="text-sm font-mono">{editingFile}</span>
                                         <div className="flex gap-2">
                                             <Button variant="ghost" size="sm" onClick={() => { setEditingFile(null); setFileContent(''); }}><X className="w-4 h-4 mr-1" /> Cancel</Button>
-                                            <Button variant="gradient" size="sm" onClick={saveFile}><Save className="w-4 h-4 mr-1" /> Save</Button>
+                                            {can('files:write') && (
+                                                <Button variant="gradient" size="sm" onClick={saveFile}><Save className="w-4 h-4 mr-1" /> Save</Button>
+                                            )}
                                         </div>
                                     </div>
-                                    <textarea value={fileContent} onChange={(e) => setFileContent(e.target.value)}
+                                    <textarea value={fileContent} onChange={(e) => setFileContent(e.target.value)} readOnly={!can('files:write')}
                                         className="flex-1 w-full p-4 bg-[#0a0a0a] text-gray-300 font-mono text-sm resize-none focus:outline-none" spellCheck={false} />
                                 </div>
                             ) : (
@@ -1687,7 +1733,9 @@ export function PanelClient() {
                                                 <span className="text-sm truncate">{file.name}</span>
                                                 {file.isFile && <span className="text-xs text-muted-foreground ml-auto">{formatBytes(file.size)}</span>}
                                             </button>
-                                            <Button variant="ghost" size="sm" className="opacity-0 group-hover:opacity-100" onClick={() => deleteFile(file.name)}><Trash2 className="w-3 h-3 text-error" /></Button>
+                                            {can('files:write') && (
+                                                <Button variant="ghost" size="sm" className="opacity-0 group-hover:opacity-100" onClick={() => deleteFile(file.name)}><Trash2 className="w-3 h-3 text-error" /></Button>
+                                            )}
                                         </div>
                                     ))}
                                 </div>
@@ -1879,6 +1927,11 @@ export function PanelClient() {
                         </Card>
                     )}
 
+                    {/* Schedules Tab */}
+                    {activeTab === 'schedules' && selectedServer && (
+                        <SchedulesTab serverIdentifier={selectedServer.identifier} onError={setError} />
+                    )}
+
                     {/* Startup Tab */}
                     {activeTab === 'startup' && selectedServer && (
                         <Card variant="glass" className="flex-1 flex flex-col">
@@ -0,0 +1,522 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import {
+    CalendarClock, RefreshCw, Plus, Trash2, Edit, Save, X, Play,
+    Terminal, Power, Archive, ChevronDown, ChevronRight, Clock
+} from 'lucide-react';
+import { Card, CardHeader } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+    type CronBuilder,
+    type CronBuilderMode,
+    type CronFields,
+    CRON_FIELDS,
+    DEFAULT_CRON_BUILDER,
+    WEEKDAYS,
+    buildCronFields,
+    describeCron,
+    formatCronFields,
+    getNextCronRuns,
+    parseCronBuilder,
+    validateCronFields,
+} from '@/lib/cron-expression';
+
+type TaskAction = 'command' | 'power' | 'backup';
+
+interface ScheduleTask {
+    id: number;
+    sequenceId: number;
+    action: TaskAction;
+    payload: string;
+    timeOffset: number;
+    continueOnFailure: boolean;
+    isQueued: boolean;
+}
+
+interface Schedule {
+    id: number;
+    name: string;
+    cron: CronFields;
+    isActive: boolean;
+    isProcessing: boolean;
+    onlyWhenOnline: boolean;
+    lastRunAt: string | null;
+    nextRunAt: string | null;
+    tasks: ScheduleTask[];
+}
+
+interface ScheduleForm {
+    id?: number;
+    name: string;
+    builder: CronBuilder;
+    custom: CronFields;
+    isActive: boolean;
+    onlyWhenOnline: boolean;
+}
+
+interface TaskForm {
+    scheduleId: number;
+    taskId?: number;
+    action: TaskAction;
+    payload: string;
+    timeOffset: number;
+    continueOnFailure: boolean;
+}
+
+const BUILDER_MODES: { id: CronBuilderMode; label: string }[] = [
+    { id: 'minutes', label: 'Every N minutes' },
+    { id: 'hourly', label: 'Hourly' },
+    { id: 'daily', label: 'Daily' },
+    { id: 'weekly', label: 'Weekly' },
+    { id: 'monthly', label: 'Monthly' },
+    { id: 'custom', label: 'Custom' },
+];
+
+const FIELD_LABELS: Record<keyof CronFields, string> = {
+    minute: 'Minute',
+    hour: 'Hour',
+    dayOfMonth: 'Day (month)',
+    month: 'Month',
+    dayOfWeek: 'Day (week)',
+};
+
+const TASK_ACTIONS: { id: TaskAction; label: string; icon: any }[] = [
+    { id: 'command', label: 'Send command', icon: Terminal },
+    { id: 'power', label: 'Power action', icon: Power },
+    { id: 'backup', label: 'Create backup', icon: Archive },
+];
+
+const selectClass = 'bg-secondary/50 border border-border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-neon-cyan/50';
+
+function formFields(form: ScheduleForm): CronFields {
+    return form.builder.mode === 'custom' ? form.custom : buildCronFields(form.builder);
+}
+
+function describeTask(task: ScheduleTask): string {
+    if (task.action === 'command') return task.payload;
+    if (task.action === 'power') return `Power: ${task.payload}`;
+    return task.payload ? `Backup (ignoring ${task.payload.split('\n').length} patterns)` : 'Backup';
+}
+
+/**
+ * Pterodactyl schedules for one server: list, create/edit with a cron
+ * builder and next-run preview, run now, and manage each schedule's tasks
+ */
+export function SchedulesTab({ serverIdentifier, onError }: { serverIdentifier: string; onError: (message: string) => void }) {
+    const [schedules, setSchedules] = useState<Schedule[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [expanded, setExpanded] = useState<number | null>(null);
+    const [scheduleForm, setScheduleForm] = useState<ScheduleForm | null>(null);
+    const [taskForm, setTaskForm] = useState<TaskForm | null>(null);
+
+    const baseUrl = `/api/admin/pterodactyl/server/${serverIdentifier}/schedules`;
+
+    useEffect(() => {
+        fetchSchedules();
+        setScheduleForm(null);
+        setTaskForm(null);
+    }, [serverIdentifier]);
+
+    const fetchSchedules = async () => {
+        setLoading(true);
+        try {
+            const res = await fetch(baseUrl);
+            const data = await res.json();
+            if (res.ok) setSchedules(data.schedules || []);
+            else onError(data.error || 'Failed to load schedules');
+        } catch (err: any) {
+            onError('Failed to load schedules');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Send a change to the API and reload the list if it worked
+    const mutate = async (url: string, method: string, body?: unknown, fallbackError = 'Request failed'): Promise<boolean> => {
+        setSaving(true);
+        try {
+            const res = await fetch(url, {
+                method,
+                headers: body ? { 'Content-Type': 'application/json' } : undefined,
+                body: body ? JSON.stringify(body) : undefined,
+            });
+            if (!res.ok) {
+                const data = await res.json().catch(() => ({}));
+                onError(data.error || fallbackError);
+                return false;
+            }
+            await fetchSchedules();
+            return true;
+        } catch (err: any) {
+            onError(fallbackError);
+            return false;
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const cronFields = scheduleForm ? formFields(scheduleForm) : null;
+    const cronError = cronFields ? validateCronFields(cronFields) : null;
+    const nextRuns = useMemo(
+        () => (cronFields && !cronError ? getNextCronRuns(cronFields, 5) : []),
+        [cronFields && formatCronFields(cronFields), cronError]
+    );
+
+    const openScheduleForm = (schedule?: Schedule) => {
+        setTaskForm(null);
+        if (!schedule) {
+            setScheduleForm({
+                name: '',
+                builder: { ...DEFAULT_CRON_BUILDER },
+                custom: buildCronFields(DEFAULT_CRON_BUILDER),
+                isActive: true,
+                onlyWhenOnline: false,
+            });
+            return;
+        }
+        setScheduleForm({
+            id: schedule.id,
+            name: schedule.name,
+            builder: parseCronBuilder(schedule.cron),
+            custom: { ...schedule.cron },
+            isActive: schedule.isActive,
+            onlyWhenOnline: schedule.onlyWhenOnline,
+        });
+    };
+
+    const updateBuilder = (changes: Partial<CronBuilder>) => {
+        if (!scheduleForm) return;
+        const builder = { ...scheduleForm.builder, ...changes };
+        // Switching to custom starts from whatever the builder produced
+        const custom = changes.mode === 'custom' && scheduleForm.builder.mode !== 'custom'
+            ? buildCronFields(scheduleForm.builder)
+            : scheduleForm.custom;
+        setScheduleForm({ ...scheduleForm, builder, custom });
+    };
+
+    const saveSchedule = async () => {
+        if (!scheduleForm || !cronFields || cronError) return;
+        if (!scheduleForm.name.trim()) {
+            onError('Schedule name is required');
+            return;
+        }
+        const body = {
+            name: scheduleForm.name,
+            cron: cronFields,
+            isActive: scheduleForm.isActive,
+            onlyWhenOnline: scheduleForm.onlyWhenOnline,
+        };
+        const ok = scheduleForm.id
+            ? await mutate(`${baseUrl}/${scheduleForm.id}`, 'PUT', body, 'Failed to update schedule')
+            : await mutate(baseUrl, 'POST', body, 'Failed to create schedule');
+        if (ok) setScheduleForm(null);
+    };
+
+    const deleteSchedule = async (schedule: Schedule) => {
+        if (!confirm(`Delete schedule "${schedule.name}" and its tasks?`)) return;
+        await mutate(`${baseUrl}/${schedule.id}`, 'DELETE', undefined, 'Failed to delete schedule');
+    };
+
+    const runSchedule = async (schedule: Schedule) => {
+        if (schedule.tasks.length === 0) {
+            onError('Add a task before running this schedule');
+            return;
+        }
+        await mutate(`${baseUrl}/${schedule.id}/execute`, 'POST', undefined, 'Failed to run schedule');
+    };
+
+    const openTaskForm = (scheduleId: number, task?: ScheduleTask) => {
+        setScheduleForm(null);
+        setExpanded(scheduleId);
+        setTaskForm(task
+            ? { scheduleId, taskId: task.id, action: task.action, payload: task.payload, timeOffset: task.timeOffset, continueOnFailure: task.continueOnFailure }
+            : { scheduleId, action: 'command', payload: '', timeOffset: 0, continueOnFailure: false });
+    };
+
+    const saveTask = async () => {
+        if (!taskForm) return;
+        const { scheduleId, taskId, ...body } = taskForm;
+        const ok = taskId
+            ? await mutate(`${baseUrl}/${scheduleId}/tasks/${taskId}`, 'PUT', body, 'Failed to update task')
+            : await mutate(`${baseUrl}/${scheduleId}/tasks`, 'POST', body, 'Failed to create task');
+        if (ok) setTaskForm(null);
+    };
+
+    const deleteTask = async (scheduleId: number, task: ScheduleTask) => {
+        if (!confirm('Delete this task?')) return;
+        await mutate(`${baseUrl}/${scheduleId}/tasks/${task.id}`, 'DELETE', undefined, 'Failed to delete task');
+    };
+
+    const renderScheduleForm = () => {
+        if (!scheduleForm || !cronFields) return null;
+        const { builder } = scheduleForm;
+        const numberInput = (value: number, min: number, max: number, onChange: (value: number) => void) => (
+            <Input
+                type="number"
+                min={min}
+                max={max}
+                value={value}
+                onChange={(e) => onChange(Math.min(max, Math.max(min, parseInt(e.target.value) || min)))}
+                className="w-20"
+            />
+        );
+
+        return (
+            <div className="p-4 mb-4 bg-card rounded-lg space-y-4">
+                <div className="flex items-center justify-between">
+                    <span className="font-semibold">{scheduleForm.id ? 'Edit Schedule' : 'New Schedule'}</span>
+                    <Button variant="ghost" size="sm" onClick={() => setScheduleForm(null)}><X className="w-4 h-4" /></Button>
+                </div>
+
+                <Input
+                    value={scheduleForm.name}
+                    onChange={(e) => setScheduleForm({ ...scheduleForm, name: e.target.value })}
+                    placeholder="Schedule name (e.g. Nightly restart)"
+                />
+
+                <div className="flex flex-wrap items-center gap-2">
+                    <select
+                        value={builder.mode}
+                        onChange={(e) => updateBuilder({ mode: e.target.value as CronBuilderMode })}
+                        className={selectClass}
+                    >
+                        {BUILDER_MODES.map((mode) => <option key={mode.id} value={mode.id}>{mode.label}</option>)}
+                    </select>
+
+                    {builder.mode === 'minutes' && (
+                        <>
+                            <span className="text-sm text-muted-foreground">every</span>
+                            {numberInput(builder.interval, 1, 59, (interval) => updateBuilder({ interval }))}
+                            <span className="text-sm text-muted-foreground">minutes</span>
+                        </>
+                    )}
+                    {builder.mode === 'weekly' && (
+                        <select
+                            value={builder.dayOfWeek}
+                            onChange={(e) => updateBuilder({ dayOfWeek: parseInt(e.target.value) })}
+                            className={selectClass}
+                        >
+                            {WEEKDAYS.map((day, i) => <option key={day} value={i}>{day}</option>)}
+                        </select>
+                    )}
+                    {builder.mode === 'monthly' && (
+                        <>
+                            <span className="text-sm text-muted-foreground">on day</span>
+                            {numberInput(builder.dayOfMonth, 1, 31, (dayOfMonth) => updateBuilder({ dayOfMonth }))}
+                        </>
+                    )}
+                    {['daily', 'weekly', 'monthly'].includes(builder.mode) && (
+                        <>
+                            <span className="text-sm text-muted-foreground">at</span>
+                            {numberInput(builder.hour, 0, 23, (hour) => updateBuilder({ hour }))}
+                            <span>:</span>
+                        </>
+                    )}
+                    {builder.mode === 'hourly' && <span className="text-sm text-muted-foreground">at minute</span>}
+                    {['hourly', 'daily', 'weekly', 'monthly'].includes(builder.mode) && (
+                        numberInput(builder.minute, 0, 59, (minute) => updateBuilder({ minute }))
+                    )}
+                </div>
+
+                {builder.mode === 'custom' && (
+                    <div className="grid grid-cols-5 gap-2">
+                        {CRON_FIELDS.map((field) => (
+                            <div key={field}>
+                                <label className="text-xs text-muted-foreground">{FIELD_LABELS[field]}</label>
+                                <Input
+                                    value={scheduleForm.custom[field]}
+                                    onChange={(e) => setScheduleForm({ ...scheduleForm, custom: { ...scheduleForm.custom, [field]: e.target.value } })}
+                                    className="font-mono"
+                                />
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="p-3 bg-background/50 rounded space-y-2">
+                    <div className="flex items-center gap-2">
+                        <code className="font-mono text-sm">{formatCronFields(cronFields)}</code>
+                        {!cronError && <span className="text-sm text-muted-foreground">— {describeCron(cronFields)}</span>}
+                    </div>
+                    {cronError ? (
+                        <p className="text-sm text-error">{cronError}</p>
+                    ) : nextRuns.length === 0 ? (
+                        <p className="text-sm text-warning">This expression never runs</p>
+                    ) : (
+                        <div>
+                            <p className="text-xs text-muted-foreground mb-1">Next runs (panel time)</p>
+                            <ul className="text-sm space-y-0.5">
+                                {nextRuns.map((run) => (
+                                    <li key={run.getTime()} className="flex items-center gap-2">
+                                        <Clock className="w-3 h-3 text-muted-foreground" />
+                                        {run.toLocaleString([], { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex flex-wrap items-center gap-4 text-sm">
+                    <label className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={scheduleForm.isActive}
+                            onChange={(e) => setScheduleForm({ ...scheduleForm, isActive: e.target.checked })}
+                            className="w-4 h-4 accent-neon-cyan"
+                        />
+                        Enabled
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={scheduleForm.onlyWhenOnline}
+                            onChange={(e) => setScheduleForm({ ...scheduleForm, onlyWhenOnline: e.target.checked })}
+                            className="w-4 h-4 accent-neon-cyan"
+                        />
+                        Only run when the server is online
+                    </label>
+                    <Button variant="gradient" size="sm" className="ml-auto" onClick={saveSchedule} disabled={saving || !!cronError}>
+                        <Save className="w-4 h-4 mr-1" /> Save
+                    </Button>
+                </div>
+            </div>
+        );
+    };
+
+    const renderTaskForm = () => {
+        if (!taskForm) return null;
+        return (
+            <div className="p-3 mt-2 bg-background/50 rounded-lg space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                    <select
+                        value={taskForm.action}
+                        onChange={(e) => {
+                            const action = e.target.value as TaskAction;
+                            setTaskForm({ ...taskForm, action, payload: action === 'power' ? 'restart' : '' });
+                        }}
+                        className={selectClass}
+                    >
+                        {TASK_ACTIONS.map((action) => <option key={action.id} value={action.id}>{action.label}</option>)}
+                    </select>
+                    {taskForm.action === 'power' ? (
+                        <select
+                            value={taskForm.payload}
+                            onChange={(e) => setTaskForm({ ...taskForm, payload: e.target.value })}
+                            className={selectClass}
+                        >
+                            {['start', 'stop', 'restart', 'kill'].map((signal) => <option key={signal} value={signal}>{signal}</option>)}
+                        </select>
+                    ) : (
+                        <Input
+                            value={taskForm.payload}
+                            onChange={(e) => setTaskForm({ ...taskForm, payload: e.target.value })}
+                            placeholder={taskForm.action === 'command' ? 'say Restarting in 5 minutes' : 'Ignored files (optional)'}
+                            className="flex-1 min-w-[200px] font-mono"
+                        />
+                    )}
+                </div>
+                <div className="flex flex-wrap items-center gap-4 text-sm">
+                    <label className="flex items-center gap-2">
+                        Delay
+                        <Input
+                            type="number"
+                            min={0}
+                            max={900}
+                            value={taskForm.timeOffset}
+                            onChange={(e) => setTaskForm({ ...taskForm, timeOffset: Math.min(900, Math.max(0, parseInt(e.target.value) || 0)) })}
+                            className="w-24"
+                        />
+                        seconds after the previous task
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={taskForm.continueOnFailure}
+                            onChange={(e) => setTaskForm({ ...taskForm, continueOnFailure: e.target.checked })}
+                            className="w-4 h-4 accent-neon-cyan"
+                        />
+                        Continue if this fails
+                    </label>
+                    <div className="flex gap-2 ml-auto">
+                        <Button variant="gradient" size="sm" onClick={saveTask} disabled={saving}><Save className="w-4 h-4" /></Button>
+                        <Button variant="ghost" size="sm" onClick={() => setTaskForm(null)}><X className="w-4 h-4" /></Button>
+                    </div>
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <Card variant="glass" className="flex-1 flex flex-col">
+            <CardHeader className="py-2 px-4 flex-row items-center justify-between border-b border-border">
+                <div className="flex items-center gap-3"><CalendarClock className="w-5 h-5" /><span className="font-semibold">Schedules</span></div>
+                <div className="flex items-center gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => openScheduleForm()}><Plus className="w-4 h-4 mr-1" /> Create Schedule</Button>
+                    <Button variant="ghost" size="sm" onClick={fetchSchedules}><RefreshCw className="w-4 h-4" /></Button>
+                </div>
+            </CardHeader>
+            <div className="flex-1 overflow-auto p-4">
+                {renderScheduleForm()}
+                {loading ? <div className="flex justify-center py-8"><RefreshCw className="w-6 h-6 animate-spin" /></div> : schedules.length === 0 ? (
+                    <div className="text-center py-12 text-muted-foreground"><CalendarClock className="w-12 h-12 mx-auto mb-4 opacity-50" /><p>No schedules</p><p className="text-xs mt-1">Create a schedule to run commands, restarts or backups automatically</p></div>
+                ) : (
+                    <div className="space-y-3">
+                        {schedules.map((schedule) => (
+                            <div key={schedule.id} className="p-4 bg-card rounded-lg">
+                                <div className="flex items-center justify-between gap-2">
+                                    <button className="flex items-center gap-2 min-w-0 text-left" onClick={() => setExpanded(expanded === schedule.id ? null : schedule.id)}>
+                                        {expanded === schedule.id ? <ChevronDown className="w-4 h-4 flex-shrink-0" /> : <ChevronRight className="w-4 h-4 flex-shrink-0" />}
+                                        <span className="font-semibold truncate">{schedule.name}</span>
+                                        <Badge variant={schedule.isActive ? 'success' : 'outline'}>{schedule.isActive ? 'Active' : 'Disabled'}</Badge>
+                                        {schedule.isProcessing && <Badge variant="warning">Running</Badge>}
+                                        {schedule.onlyWhenOnline && <Badge variant="outline">Online only</Badge>}
+                                    </button>
+                                    <div className="flex items-center gap-1 flex-shrink-0">
+                                        <Button variant="ghost" size="sm" onClick={() => runSchedule(schedule)} disabled={saving || schedule.isProcessing} title="Run now"><Play className="w-4 h-4" /></Button>
+                                        <Button variant="ghost" size="sm" onClick={() => openScheduleForm(schedule)} title="Edit"><Edit className="w-4 h-4" /></Button>
+                                        <Button variant="ghost" size="sm" className="text-error" onClick={() => deleteSchedule(schedule)} disabled={saving} title="Delete"><Trash2 className="w-4 h-4" /></Button>
+                                    </div>
+                                </div>
+                                <div className="flex flex-wrap gap-4 mt-2 text-sm text-muted-foreground">
+                                    <span className="font-mono">{formatCronFields(schedule.cron)}</span>
+                                    <span>{describeCron(schedule.cron)}</span>
+                                    <span>{schedule.tasks.length} {schedule.tasks.length === 1 ? 'task' : 'tasks'}</span>
+                                    <span>Last run: {schedule.lastRunAt ? new Date(schedule.lastRunAt).toLocaleString() : 'never'}</span>
+                                    {schedule.isActive && schedule.nextRunAt && <span>Next run: {new Date(schedule.nextRunAt).toLocaleString()}</span>}
+                                </div>
+
+                                {expanded === schedule.id && (
+                                    <div className="mt-3 pt-3 border-t border-border space-y-2">
+                                        {schedule.tasks.length === 0 && <p className="text-sm text-muted-foreground">No tasks yet</p>}
+                                        {schedule.tasks.map((task, i) => {
+                                            const Icon = TASK_ACTIONS.find((action) => action.id === task.action)?.icon || Terminal;
+                                            return (
+                                                <div key={task.id} className="flex items-center gap-3 p-2 bg-background/50 rounded">
+                                                    <span className="text-xs text-muted-foreground w-4">{i + 1}</span>
+                                                    <Icon className="w-4 h-4 text-neon-cyan flex-shrink-0" />
+                                                    <span className="flex-1 font-mono text-sm truncate">{describeTask(task)}</span>
+                                                    {task.timeOffset > 0 && <Badge variant="outline">+{task.timeOffset}s</Badge>}
+                                                    {task.continueOnFailure && <Badge variant="outline">Continues on failure</Badge>}
+                                                    <Button variant="ghost" size="sm" onClick={() => openTaskForm(schedule.id, task)}><Edit className="w-4 h-4" /></Button>
+                                                    <Button variant="ghost" size="sm" className="text-error" onClick={() => deleteTask(schedule.id, task)} disabled={saving}><Trash2 className="w-4 h-4" /></Button>
+                                                </div>
+                                            );
+                                        })}
+                                        {taskForm?.scheduleId === schedule.id ? renderTaskForm() : (
+                                            <Button variant="ghost" size="sm" onClick={() => openTaskForm(schedule.id)}><Plus className="w-4 h-4 mr-1" /> Add Task</Button>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </Card>
+    );
+}
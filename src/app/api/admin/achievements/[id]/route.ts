@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { achievements } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { requirePermission } from '@/lib/auth-guard';
+import { parseAchievementInput } from '@/lib/achievements';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PUT - Update achievement
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error } = await requirePermission('achievements:manage');
+    if (error) return error;
+
+    const { id } = await params;
+    const body = await request.json();
+
+    const parsed = parseAchievementInput(body);
+    if (parsed.error) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const [updated] = await db
+      .update(achievements)
+      .set(parsed.data)
+      .where(eq(achievements.id, id))
+      .returning();
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Achievement not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(updated);
+  } catch (error: any) {
+    console.error('Error updating achievement:', error);
+    return NextResponse.json({ error: 'Failed to update achievement' }, { status: 500 });
+  }
+}
+
+// DELETE - Delete achievement (user progress is removed with it)
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error } = await requirePermission('achievements:manage');
+    if (error) return error;
+
+    const { id } = await params;
+
+    const [deleted] = await db
+      .delete(achievements)
+      .where(eq(achievements.id, id))
+      .returning();
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Achievement not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting achievement:', error);
+    return NextResponse.json({ error: 'Failed to delete achievement' }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { achievements, userAchievements } from '@/db/schema';
+import { asc, eq, sql } from 'drizzle-orm';
+import { requirePermission } from '@/lib/auth-guard';
+import { parseAchievementInput } from '@/lib/achievements';
+
+/**
+ * GET /api/admin/achievements
+ * List all achievements with how many users have unlocked each
+ */
+export async function GET() {
+  try {
+    const { error } = await requirePermission('achievements:manage');
+    if (error) return error;
+
+    const rows = await db
+      .select({
+        id: achievements.id,
+        name: achievements.name,
+        description: achievements.description,
+        icon: achievements.icon,
+        category: achievements.category,
+        xpReward: achievements.xpReward,
+        requirement: achievements.requirement,
+        hidden: achievements.hidden,
+        createdAt: achievements.createdAt,
+        unlockedCount: sql<number>`(SELECT COUNT(*) FROM ${userAchievements} WHERE ${userAchievements.achievementId} = ${achievements.id} AND ${eq(userAchievements.completed, true)})`,
+      })
+      .from(achievements)
+      .orderBy(asc(achievements.category), asc(achievements.name));
+
+    return NextResponse.json(rows);
+  } catch (error: any) {
+    console.error('Error fetching achievements:', error);
+    return NextResponse.json({ error: 'Failed to fetch achievements' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/achievements
+ * Create an achievement
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { error } = await requirePermission('achievements:manage');
+    if (error) return error;
+
+    const body = await request.json();
+    const id = typeof body.id === 'string' ? body.id.trim().toLowerCase() : '';
+
+    if (!/^[a-z0-9_-]{1,64}$/.test(id)) {
+      return NextResponse.json(
+        { error: 'ID must be 1-64 lowercase letters, numbers, dashes or underscores' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseAchievementInput(body);
+    if (parsed.error) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const [existing] = await db
+      .select({ id: achievements.id })
+      .from(achievements)
+      .where(eq(achievements.id, id));
+
+    if (existing) {
+      return NextResponse.json({ error: 'An achievement with this ID already exists' }, { status: 409 });
+    }
+
+    const [achievement] = await db
+      .insert(achievements)
+      .values({ id, ...parsed.data })
+      .returning();
+
+    return NextResponse.json(achievement, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating achievement:', error);
+    return NextResponse.json({ error: 'Failed to create achievement' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { requirePermission } from '@/lib/auth-guard';
+import { checkAchievements } from '@/lib/achievements';
+
+/**
+ * POST /api/admin/achievements/sync
+ * Re-measure every user's progress against every achievement. Progress is
+ * normally tracked as things happen, so this is only needed after adding an
+ * achievement that existing users may already qualify for.
+ */
+export async function POST() {
+  try {
+    const { error } = await requirePermission('achievements:manage');
+    if (error) return error;
+
+    const allUsers = await db.select({ id: users.id }).from(users);
+
+    let unlocked = 0;
+    for (const user of allUsers) {
+      unlocked += (await checkAchievements(user.id)).length;
+    }
+
+    return NextResponse.json({ success: true, users: allUsers.length, unlocked });
+  } catch (error: any) {
+    console.error('Error syncing achievements:', error);
+    return NextResponse.json({ error: 'Failed to sync achievements' }, { status: 500 });
+  }
+}
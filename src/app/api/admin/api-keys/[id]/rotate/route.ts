@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth-guard';
+import { logAudit } from '@/lib/audit-log';
+import { getApiKey, rotateApiKey } from '@/lib/api-keys';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/admin/api-keys/[id]/rotate
+ * Replace a key's secret, keeping its scopes and server binding. The old key
+ * stops working immediately; the new one is only returned here.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error, user } = await requirePermission('apikeys:write');
+    if (error) return error;
+
+    const { id } = await params;
+    const keyId = parseInt(id);
+
+    if (isNaN(keyId)) {
+      return NextResponse.json(
+        { error: 'Invalid key ID' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getApiKey(keyId);
+    if (!existing) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+
+    const key = await rotateApiKey(keyId);
+
+    await logAudit({
+      userId: user!.id,
+      action: 'rotate_api_key',
+      resource: 'api_key',
+      resourceId: keyId,
+      details: { name: existing.name },
+      request,
+    });
+
+    return NextResponse.json({ ...(await getApiKey(keyId)), key });
+  } catch (error: any) {
+    console.error('Error rotating API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to rotate API key' },
+      { status: 500 }
+    );
+  }
+}
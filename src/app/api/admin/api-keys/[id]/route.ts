@@ -1,25 +1,115 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '../../../../../../auth';
 import { db } from '@/db';
-import { apiKeys } from '@/db/schema';
-import { eq } from 'drizzle-orm';
+import { apiKeys, servers } from '@/db/schema';
+import { and, eq, ne } from 'drizzle-orm';
+import { requirePermission } from '@/lib/auth-guard';
+import { logAudit } from '@/lib/audit-log';
+import {
+  deleteApiKey,
+  getApiKey,
+  normalizeScopes,
+  parseApiKeyExpiry,
+  updateApiKey,
+} from '@/lib/api-keys';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
-export async function DELETE(request: NextRequest, { params }: RouteParams) {
+/**
+ * PATCH /api/admin/api-keys/[id]
+ * Change a key's name, scopes, server binding or expiry
+ * Body: name, scopes[], serverId (null to unbind), expiresInDays or expiresAt
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
-    const session = await auth();
-    const user = session?.user as any;
+    const { error, user } = await requirePermission('apikeys:write');
+    if (error) return error;
+
+    const { id } = await params;
+    const keyId = parseInt(id);
 
-    if (!session || !['admin', 'superadmin'].includes(user?.role)) {
+    if (isNaN(keyId)) {
       return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 403 }
+        { error: 'Invalid key ID' },
+        { status: 400 }
       );
     }
 
+    const existing = await getApiKey(keyId);
+    if (!existing) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const changes: Parameters<typeof updateApiKey>[1] = {};
+
+    if (body.name !== undefined) {
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name) {
+        return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+      }
+      const taken = await db.query.apiKeys.findFirst({
+        where: and(eq(apiKeys.name, name), ne(apiKeys.id, keyId)),
+        columns: { id: true },
+      });
+      if (taken) {
+        return NextResponse.json({ error: 'A key with this name already exists' }, { status: 400 });
+      }
+      changes.name = name;
+    }
+
+    if (body.scopes !== undefined) {
+      changes.scopes = normalizeScopes(body.scopes);
+      if (changes.scopes.length === 0) {
+        return NextResponse.json({ error: 'Choose at least one scope' }, { status: 400 });
+      }
+    }
+
+    if (body.serverId !== undefined) {
+      changes.serverId = body.serverId ? parseInt(body.serverId, 10) : null;
+      if (changes.serverId) {
+        const server = await db.query.servers.findFirst({
+          where: eq(servers.id, changes.serverId),
+          columns: { id: true },
+        });
+        if (!server) {
+          return NextResponse.json({ error: 'Server not found' }, { status: 404 });
+        }
+      }
+    }
+
+    const expiresAt = parseApiKeyExpiry(body);
+    if (expiresAt !== undefined) {
+      changes.expiresAt = expiresAt;
+    }
+
+    await updateApiKey(keyId, changes);
+
+    await logAudit({
+      userId: user!.id,
+      action: 'update_api_key',
+      resource: 'api_key',
+      resourceId: keyId,
+      details: { name: existing.name, ...changes },
+      request,
+    });
+
+    return NextResponse.json(await getApiKey(keyId));
+  } catch (error: any) {
+    console.error('Error updating API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to update API key' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error, user } = await requirePermission('apikeys:write');
+    if (error) return error;
+
     const { id } = await params;
     const keyId = parseInt(id);
 
@@ -30,7 +120,19 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    await db.delete(apiKeys).where(eq(apiKeys.id, keyId));
+    const existing = await getApiKey(keyId);
+    if (existing) {
+      await deleteApiKey(keyId);
+
+      await logAudit({
+        userId: user!.id,
+        action: 'delete_api_key',
+        resource: 'api_key',
+        resourceId: keyId,
+        details: { name: existing.name },
+        request,
+      });
+    }
 
     return NextResponse.json({ success: true });
   } catch (error: any) {
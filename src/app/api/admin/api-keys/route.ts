@@ -1,26 +1,49 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { apiKeys } from '@/db/schema';
-import { desc } from 'drizzle-orm';
-import crypto from 'crypto';
+import { apiKeys, servers } from '@/db/schema';
+import { asc, eq } from 'drizzle-orm';
 import { requirePermission } from '@/lib/auth-guard';
+import { logAudit } from '@/lib/audit-log';
+import {
+  API_KEY_SCOPES,
+  createApiKey,
+  getApiKey,
+  listApiKeyRequests,
+  listApiKeys,
+  normalizeScopes,
+  parseApiKeyExpiry,
+} from '@/lib/api-keys';
 
-// Generate a secure API key
-function generateSecureApiKey(): string {
-  return 'vnx_' + crypto.randomBytes(32).toString('hex');
-}
-
-export async function GET() {
+/**
+ * GET /api/admin/api-keys
+ * Every API key (without secrets), recent key requests, the scopes that can
+ * be granted and the servers a key can be bound to
+ * Query: keyId to filter requests, rejected=true for refused requests only
+ */
+export async function GET(request: NextRequest) {
   try {
     const { error } = await requirePermission('apikeys:read');
     if (error) return error;
 
-    const keys = await db
-      .select()
-      .from(apiKeys)
-      .orderBy(desc(apiKeys.createdAt));
+    const keyId = parseInt(request.nextUrl.searchParams.get('keyId') || '', 10);
+    const rejectedOnly = request.nextUrl.searchParams.get('rejected') === 'true';
+
+    const keys = await listApiKeys();
+    const [requests, serverList] = await Promise.all([
+      listApiKeyRequests({ apiKeyId: isNaN(keyId) ? undefined : keyId, rejectedOnly }),
+      db.select({ id: servers.id, name: servers.name }).from(servers).orderBy(asc(servers.orderIndex)),
+    ]);
 
-    return NextResponse.json(keys);
+    return NextResponse.json({
+      keys,
+      requests,
+      servers: serverList,
+      scopes: Object.entries(API_KEY_SCOPES).map(([id, info]) => ({
+        id,
+        label: info.label,
+        description: info.description,
+      })),
+    });
   } catch (error: any) {
     console.error('Error fetching API keys:', error);
     return NextResponse.json(
@@ -30,29 +53,67 @@ export async function GET() {
   }
 }
 
+/**
+ * POST /api/admin/api-keys
+ * Create a key. The response is the only time the key itself is returned.
+ * Body: name, scopes[], serverId (optional binding), expiresInDays or expiresAt
+ */
 export async function POST(request: NextRequest) {
   try {
-    const { error } = await requirePermission('apikeys:write');
+    const { error, user } = await requirePermission('apikeys:write');
     if (error) return error;
 
     const body = await request.json();
-    const { name } = body;
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const scopes = normalizeScopes(body.scopes);
+    const serverId = body.serverId ? parseInt(body.serverId, 10) : null;
 
-    if (!name || name.trim().length === 0) {
+    if (!name) {
       return NextResponse.json(
         { error: 'Name is required' },
         { status: 400 }
       );
     }
+    if (scopes.length === 0) {
+      return NextResponse.json({ error: 'Choose at least one scope' }, { status: 400 });
+    }
 
-    const key = generateSecureApiKey();
+    const existing = await db.query.apiKeys.findFirst({
+      where: eq(apiKeys.name, name),
+      columns: { id: true },
+    });
+    if (existing) {
+      return NextResponse.json({ error: 'A key with this name already exists' }, { status: 400 });
+    }
 
-    const [newKey] = await db.insert(apiKeys).values({
-      name: name.trim(),
-      key,
-    }).returning();
+    if (serverId) {
+      const server = await db.query.servers.findFirst({
+        where: eq(servers.id, serverId),
+        columns: { id: true },
+      });
+      if (!server) {
+        return NextResponse.json({ error: 'Server not found' }, { status: 404 });
+      }
+    }
+
+    const { id, key } = await createApiKey({
+      name,
+      scopes,
+      serverId,
+      expiresAt: parseApiKeyExpiry(body) ?? null,
+      createdBy: parseInt(user!.id),
+    });
 
-    return NextResponse.json(newKey, { status: 201 });
+    await logAudit({
+      userId: user!.id,
+      action: 'create_api_key',
+      resource: 'api_key',
+      resourceId: id,
+      details: { name, scopes, serverId },
+      request,
+    });
+
+    return NextResponse.json({ ...(await getApiKey(id)), key }, { status: 201 });
   } catch (error: any) {
     console.error('Error creating API key:', error);
     return NextResponse.json(
@@ -61,4 +122,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
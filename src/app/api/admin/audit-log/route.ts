@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth-guard';
+import {
+  AUDIT_EXPORT_LIMIT,
+  auditLogsToCsv,
+  getAuditLogFacets,
+  logAudit,
+  parseAuditFilters,
+  searchAuditLogs,
+} from '@/lib/audit-log';
+import { sanitizeInt } from '@/lib/sanitize';
+
+const PAGE_SIZE = 50;
+
+/**
+ * GET /api/admin/audit-log
+ * Browse the audit log (superadmin only)
+ * Query: actor, action, resource, resourceId, from, to (yyyy-mm-dd), page
+ * Add export=csv|json to download every matching entry instead
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { error, user } = await requirePermission('audit:read');
+    if (error) return error;
+
+    const params = request.nextUrl.searchParams;
+    const filters = parseAuditFilters(params);
+    const format = params.get('export');
+
+    if (format === 'csv' || format === 'json') {
+      const { logs, total } = await searchAuditLogs(filters, { limit: AUDIT_EXPORT_LIMIT });
+
+      await logAudit({
+        userId: user!.id,
+        action: 'export_audit_log',
+        resource: 'audit_log',
+        details: { format, rows: logs.length, total, filters },
+        request,
+      });
+
+      const filename = `audit-log-${new Date().toISOString().slice(0, 10)}`;
+
+      if (format === 'csv') {
+        return new NextResponse(auditLogsToCsv(logs), {
+          headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${filename}.csv"`,
+          },
+        });
+      }
+
+      return new NextResponse(JSON.stringify(logs, null, 2), {
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}.json"`,
+        },
+      });
+    }
+
+    const page = sanitizeInt(params.get('page'), 1, 100000) || 1;
+
+    const [{ logs, total }, facets] = await Promise.all([
+      searchAuditLogs(filters, { limit: PAGE_SIZE, offset: (page - 1) * PAGE_SIZE }),
+      getAuditLogFacets(),
+    ]);
+
+    return NextResponse.json({
+      logs,
+      total,
+      page,
+      pageSize: PAGE_SIZE,
+      totalPages: Math.max(1, Math.ceil(total / PAGE_SIZE)),
+      facets,
+    });
+  } catch (error: any) {
+    console.error('Error fetching audit log:', error);
+    return NextResponse.json({ error: 'Failed to fetch audit log' }, { status: 500 });
+  }
+}
@@ -4,6 +4,7 @@ import { db } from '@/db';
 import { siteSettings } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import { randomBytes } from 'crypto';
+import { logAudit } from '@/lib/audit-log';
 
 /**
  * GET /api/admin/cron-key
@@ -60,7 +61,7 @@ export async function GET() {
  * POST /api/admin/cron-key
  * Regenerate the cron secret key
  */
-export async function POST() {
+export async function POST(request: NextRequest) {
     try {
         const session = await auth();
         const user = session?.user as any;
@@ -97,6 +98,14 @@ export async function POST() {
             });
         }
 
+        await logAudit({
+            userId: user.id,
+            action: 'regenerate_cron_key',
+            resource: 'settings',
+            resourceId: 'cron_secret',
+            request,
+        });
+
         return NextResponse.json({
             success: true,
             key: newKey,
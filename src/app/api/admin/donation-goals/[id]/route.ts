@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { donationGoals } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { requirePermission } from '@/lib/auth-guard';
+import { diffFields, logAudit } from '@/lib/audit-log';
+import { parseDonationGoalInput } from '@/lib/donation-goals';
+
+// Goal fields compared when logging an edit
+const GOAL_FIELDS = [
+  'title', 'description', 'targetAmount', 'period',
+  'startsAt', 'endsAt', 'active', 'announceMilestones',
+];
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PUT - Update goal
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error, user } = await requirePermission('goals:manage');
+    if (error) return error;
+
+    const { id } = await params;
+    const goalId = parseInt(id);
+    const body = await request.json();
+
+    const { values, error: inputError } = parseDonationGoalInput(body);
+    if (!values) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    const [before] = await db
+      .select()
+      .from(donationGoals)
+      .where(eq(donationGoals.id, goalId));
+
+    const [updated] = await db
+      .update(donationGoals)
+      .set(values)
+      .where(eq(donationGoals.id, goalId))
+      .returning();
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Goal not found' }, { status: 404 });
+    }
+
+    await logAudit({
+      userId: user!.id,
+      action: 'update_donation_goal',
+      resource: 'donation_goal',
+      resourceId: goalId,
+      details: { title: updated.title, changes: diffFields(before, updated, GOAL_FIELDS) },
+      request,
+    });
+
+    return NextResponse.json({ success: true, goal: updated });
+  } catch (error: any) {
+    console.error('Error updating donation goal:', error);
+    return NextResponse.json({ error: 'Failed to update donation goal' }, { status: 500 });
+  }
+}
+
+// DELETE - Delete goal
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error, user } = await requirePermission('goals:manage');
+    if (error) return error;
+
+    const { id } = await params;
+
+    const [deleted] = await db
+      .delete(donationGoals)
+      .where(eq(donationGoals.id, parseInt(id)))
+      .returning();
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Goal not found' }, { status: 404 });
+    }
+
+    await logAudit({
+      userId: user!.id,
+      action: 'delete_donation_goal',
+      resource: 'donation_goal',
+      resourceId: deleted.id,
+      details: { title: deleted.title },
+      request,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting donation goal:', error);
+    return NextResponse.json({ error: 'Failed to delete donation goal' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { donationGoals, type DonationGoal } from '@/db/schema';
+import { desc } from 'drizzle-orm';
+import { requirePermission } from '@/lib/auth-guard';
+import { logAudit } from '@/lib/audit-log';
+import { getGoalProgress, isGoalRunning, parseDonationGoalInput } from '@/lib/donation-goals';
+
+// GET - List goals with their current progress
+export async function GET() {
+  try {
+    const { error } = await requirePermission('donations:read');
+    if (error) return error;
+
+    const goals: DonationGoal[] = await db
+      .select()
+      .from(donationGoals)
+      .orderBy(desc(donationGoals.createdAt));
+
+    const withProgress = await Promise.all(goals.map(async (goal) => ({
+      ...goal,
+      running: isGoalRunning(goal),
+      progress: await getGoalProgress(goal),
+    })));
+
+    return NextResponse.json(withProgress, {
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      }
+    });
+  } catch (error: any) {
+    console.error('Error fetching donation goals:', error);
+    return NextResponse.json({ error: 'Failed to fetch donation goals' }, { status: 500 });
+  }
+}
+
+// POST - Create goal
+export async function POST(request: NextRequest) {
+  try {
+    const { error, user } = await requirePermission('goals:manage');
+    if (error) return error;
+
+    const body = await request.json();
+    const { values, error: inputError } = parseDonationGoalInput(body);
+    if (!values) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    const [goal] = await db
+      .insert(donationGoals)
+      .values({
+        ...values,
+        createdBy: user!.id,
+        createdAt: new Date(),
+      })
+      .returning();
+
+    await logAudit({
+      userId: user!.id,
+      action: 'create_donation_goal',
+      resource: 'donation_goal',
+      resourceId: goal.id,
+      details: { title: goal.title, targetAmount: goal.targetAmount, period: goal.period },
+      request,
+    });
+
+    return NextResponse.json({ success: true, goal });
+  } catch (error: any) {
+    console.error('Error creating donation goal:', error);
+    return NextResponse.json({ error: 'Failed to create donation goal' }, { status: 500 });
+  }
+}
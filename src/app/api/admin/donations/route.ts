@@ -3,6 +3,8 @@ import { auth } from '../../../../../auth';
 import { db } from '@/db';
 import { donations, users, donationRanks } from '@/db/schema';
 import { eq, desc, and, like, or, sql } from 'drizzle-orm';
+import { trackAchievementProgress } from '@/lib/achievements';
+import { checkGoalMilestones } from '@/lib/donation-goals';
 
 async function requireAdmin() {
   const session = await auth();
@@ -37,13 +39,14 @@ export async function GET(request: NextRequest) {
         or(
           like(users.username, `%${search}%`),
           like(users.minecraftUsername, `%${search}%`),
-          like(donations.paymentId as any, `%${search}%`)
+          like(donations.paymentId as any, `%${search}%`),
+          like(donations.promoCode as any, `%${search}%`)
         )
       );
     }
 
     if (status) {
-      conditions.push(eq(donations.status, status as 'completed' | 'pending' | 'failed' | 'refunded'));
+      conditions.push(eq(donations.status, status as 'completed' | 'pending' | 'failed' | 'refunded' | 'disputed'));
     }
 
     if (type) {
@@ -72,6 +75,10 @@ export async function GET(request: NextRequest) {
         days: donations.days,
         paymentType: donations.paymentType,
         status: donations.status,
+        refundedAmount: donations.refundedAmount,
+        revokedDays: donations.revokedDays,
+        promoCode: donations.promoCode,
+        discountAmount: donations.discountAmount,
         stripeInvoiceUrl: donations.stripeInvoiceUrl,
         createdAt: donations.createdAt,
         // Rank info if applicable
@@ -98,7 +105,8 @@ export async function GET(request: NextRequest) {
       .select({
         total: sql<number>`COALESCE(SUM(${donations.amount}), 0)`,
         completed: sql<number>`SUM(CASE WHEN ${donations.status} = 'completed' THEN ${donations.amount} ELSE 0 END)`,
-        refunded: sql<number>`SUM(CASE WHEN ${donations.status} = 'refunded' THEN ${donations.amount} ELSE 0 END)`,
+        refunded: sql<number>`COALESCE(SUM(${donations.refundedAmount}), 0)`,
+        discounts: sql<number>`COALESCE(SUM(${donations.discountAmount}), 0)`,
         count: sql<number>`COUNT(*)`,
       })
       .from(donations);
@@ -115,6 +123,7 @@ export async function GET(request: NextRequest) {
         totalRevenue: stats?.total || 0,
         completedRevenue: stats?.completed || 0,
         refundedAmount: stats?.refunded || 0,
+        discountAmount: stats?.discounts || 0,
         totalDonations: stats?.count || 0,
       },
     });
@@ -252,6 +261,11 @@ export async function POST(request: NextRequest) {
         .where(eq(users.id, resolvedUserId));
     }
 
+    if (status === 'completed') {
+      trackAchievementProgress(resolvedUserId, 'donations', 'total_donated');
+      await checkGoalMilestones();
+    }
+
     return NextResponse.json({ success: true, donation: newDonation }, { status: 201 });
   } catch (error: any) {
     if (error.message === 'Unauthorized') {
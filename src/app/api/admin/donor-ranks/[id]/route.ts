@@ -3,6 +3,13 @@ import { db } from '@/db';
 import { donationRanks } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import { requirePermission } from '@/lib/auth-guard';
+import { diffFields, logAudit } from '@/lib/audit-log';
+
+// Rank fields compared when logging an edit
+const RANK_FIELDS = [
+  'name', 'subtitle', 'minAmount', 'color', 'textColor',
+  'icon', 'badge', 'glow', 'duration', 'perks', 'stripePriceMonthly',
+];
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -35,7 +42,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 // PUT - Update rank
 export async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
-    const { error } = await requirePermission('ranks:manage');
+    const { error, user } = await requirePermission('ranks:manage');
     if (error) return error;
 
     const { id } = await params;
@@ -55,6 +62,11 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       stripePriceMonthly
     } = body;
 
+    const [before] = await db
+      .select()
+      .from(donationRanks)
+      .where(eq(donationRanks.id, id));
+
     const [updated] = await db
       .update(donationRanks)
       .set({
@@ -78,6 +90,15 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Rank not found' }, { status: 404 });
     }
 
+    await logAudit({
+      userId: user!.id,
+      action: 'update_donor_rank',
+      resource: 'donor_rank',
+      resourceId: id,
+      details: { name: updated.name, changes: diffFields(before, updated, RANK_FIELDS) },
+      request,
+    });
+
     return NextResponse.json(updated);
   } catch (error: any) {
     console.error('Error updating rank:', error);
@@ -88,7 +109,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 // DELETE - Delete rank
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
-    const { error } = await requirePermission('ranks:manage');
+    const { error, user } = await requirePermission('ranks:manage');
     if (error) return error;
 
     const { id } = await params;
@@ -102,6 +123,15 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Rank not found' }, { status: 404 });
     }
 
+    await logAudit({
+      userId: user!.id,
+      action: 'delete_donor_rank',
+      resource: 'donor_rank',
+      resourceId: id,
+      details: { name: deleted.name },
+      request,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error: any) {
     console.error('Error deleting rank:', error);
@@ -3,6 +3,13 @@ import { auth } from '../../../../../auth';
 import { db } from '@/db';
 import { donationRanks } from '@/db/schema';
 import { eq, asc } from 'drizzle-orm';
+import { diffFields, logAudit } from '@/lib/audit-log';
+
+// Rank fields compared when logging an edit
+const RANK_FIELDS = [
+  'name', 'subtitle', 'minAmount', 'color', 'textColor',
+  'icon', 'badge', 'glow', 'duration', 'perks', 'stripePriceMonthly',
+];
 
 // Helper to check admin
 async function requireAdmin() {
@@ -44,7 +51,7 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
-    await requireAdmin();
+    const user = await requireAdmin();
 
     const body = await request.json();
     const {
@@ -79,6 +86,15 @@ export async function POST(request: NextRequest) {
       })
       .returning();
 
+    await logAudit({
+      userId: user.id,
+      action: 'create_donor_rank',
+      resource: 'donor_rank',
+      resourceId: rank.id,
+      details: { name: rank.name, minAmount: rank.minAmount },
+      request,
+    });
+
     return NextResponse.json({ success: true, rank });
   } catch (error: any) {
     if (error instanceof Error && error.message === 'Unauthorized') {
@@ -94,7 +110,7 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
-    await requireAdmin();
+    const user = await requireAdmin();
 
     const body = await request.json();
     const {
@@ -109,6 +125,11 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    const [before] = await db
+      .select()
+      .from(donationRanks)
+      .where(eq(donationRanks.id, id));
+
     const [rank] = await db
       .update(donationRanks)
       .set({
@@ -128,6 +149,17 @@ export async function PUT(request: NextRequest) {
       .where(eq(donationRanks.id, id))
       .returning();
 
+    if (rank) {
+      await logAudit({
+        userId: user.id,
+        action: 'update_donor_rank',
+        resource: 'donor_rank',
+        resourceId: id,
+        details: { name: rank.name, changes: diffFields(before, rank, RANK_FIELDS) },
+        request,
+      });
+    }
+
     return NextResponse.json({ success: true, rank });
   } catch (error: any) {
     if (error instanceof Error && error.message === 'Unauthorized') {
@@ -143,7 +175,7 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
-    await requireAdmin();
+    const user = await requireAdmin();
 
     const searchParams = request.nextUrl.searchParams;
     const id = searchParams.get('id');
@@ -155,7 +187,21 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    await db.delete(donationRanks).where(eq(donationRanks.id, id));
+    const [deleted] = await db
+      .delete(donationRanks)
+      .where(eq(donationRanks.id, id))
+      .returning();
+
+    if (deleted) {
+      await logAudit({
+        userId: user.id,
+        action: 'delete_donor_rank',
+        resource: 'donor_rank',
+        resourceId: id,
+        details: { name: deleted.name },
+        request,
+      });
+    }
 
     return NextResponse.json({ success: true });
   } catch (error: any) {
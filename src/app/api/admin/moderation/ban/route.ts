@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '../../../../../../auth';
 import { db } from '@/db';
-import { users, auditLogs } from '@/db/schema';
-import { eq, sql } from 'drizzle-orm';
+import { users } from '@/db/schema';
+import { sql } from 'drizzle-orm';
+import { issueSanction } from '@/lib/sanctions';
+import { SANCTION_TYPES, isSanctionType } from '@/lib/sanction-types';
 
 async function requireModerator() {
     const session = await auth();
@@ -17,21 +19,27 @@ async function requireModerator() {
 
 /**
  * POST /api/admin/moderation/ban
- * Ban a user by username
+ * Sanction a user by username. `type` is warning, mute, temp_ban or
+ * permanent_ban (default); mutes and temp bans need `durationHours`.
  */
 export async function POST(request: NextRequest) {
     try {
         const adminUser = await requireModerator();
         const body = await request.json();
-        const { username, reason } = body;
+        const { username, reason, durationHours } = body;
+        const type = body.type ?? 'permanent_ban';
 
         if (!username) {
             return NextResponse.json({ error: 'Username is required' }, { status: 400 });
         }
 
+        if (!isSanctionType(type)) {
+            return NextResponse.json({ error: 'Invalid sanction type' }, { status: 400 });
+        }
+
         // Find user
         const [targetUser] = await db
-            .select()
+            .select({ id: users.id, username: users.username })
             .from(users)
             .where(sql`LOWER(${users.username}) = LOWER(${username})`);
 
@@ -39,40 +47,20 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'User not found' }, { status: 404 });
         }
 
-        // Prevent banning admins/superadmins unless you're a superadmin
-        if (['admin', 'superadmin'].includes(targetUser.role) && adminUser.role !== 'superadmin') {
-            return NextResponse.json(
-                { error: 'Cannot ban admin users' },
-                { status: 403 }
-            );
-        }
+        const result = await issueSanction(
+            { id: parseInt(adminUser.id), role: adminUser.role },
+            { userId: targetUser.id, type, reason: typeof reason === 'string' ? reason : '', durationHours }
+        );
 
-        // Prevent banning yourself
-        if (targetUser.id === adminUser.id) {
-            return NextResponse.json({ error: 'Cannot ban yourself' }, { status: 400 });
+        if (result.error) {
+            return NextResponse.json({ error: result.error }, { status: result.status || 400 });
         }
 
-        // Ban by setting lockedUntil to far future
-        const farFuture = new Date('2099-12-31');
-
-        await db
-            .update(users)
-            .set({
-                lockedUntil: farFuture,
-                updatedAt: new Date(),
-            })
-            .where(eq(users.id, targetUser.id));
-
-        // Log the action
-        await db.insert(auditLogs).values({
-            userId: adminUser.id,
-            action: 'ban_user',
-            resource: 'user',
-            resourceId: targetUser.id.toString(),
-            details: JSON.stringify({ username: targetUser.username, reason }),
+        return NextResponse.json({
+            success: true,
+            sanction: result.sanction,
+            message: `${SANCTION_TYPES[type]} issued to "${targetUser.username}"`,
         });
-
-        return NextResponse.json({ success: true, message: `User "${username}" banned` });
     } catch (error: any) {
         if (error instanceof Error && error.message === 'Unauthorized') {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -81,4 +69,3 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: 'Failed to ban user' }, { status: 500 });
     }
 }
-
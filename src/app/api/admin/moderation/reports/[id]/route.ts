@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '../../../../../../../auth';
-import { db } from '@/db';
-import { reportedContent, auditLogs } from '@/db/schema';
-import { eq } from 'drizzle-orm';
+import { resolveReport } from '@/lib/reports';
+import { MODERATION_ACTIONS, type ModerationAction } from '@/lib/report-reasons';
+import { sanitizeContent } from '@/lib/sanitize';
 
 async function requireModerator() {
     const session = await auth();
@@ -21,7 +21,9 @@ interface RouteParams {
 
 /**
  * PUT /api/admin/moderation/reports/[id]
- * Update report status
+ * Update report status for every pending report on the same content
+ * Body: { status, action?: 'delete' | 'lock' | 'warn' | 'ban', notes?, banHours? }
+ * Bans without banHours are permanent
  */
 export async function PUT(request: NextRequest, { params }: RouteParams) {
     try {
@@ -29,36 +31,32 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         const { id } = await params;
         const reportId = parseInt(id);
         const body = await request.json();
-        const { status } = body;
+        const { status, action } = body;
 
         if (!status || !['pending', 'reviewed', 'dismissed', 'actioned'].includes(status)) {
             return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
         }
 
-        const [updated] = await db
-            .update(reportedContent)
-            .set({
-                status: status as 'pending' | 'reviewed' | 'dismissed' | 'actioned',
-                reviewedBy: parseInt(adminUser.id),
-                reviewedAt: new Date(),
-            })
-            .where(eq(reportedContent.id, reportId))
-            .returning();
-
-        if (!updated) {
-            return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+        if (action && !MODERATION_ACTIONS.includes(action)) {
+            return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
         }
 
-        // Log the action
-        await db.insert(auditLogs).values({
-            userId: adminUser.id,
-            action: `report_${status}`,
-            resource: 'report',
-            resourceId: reportId.toString(),
-            details: JSON.stringify({ contentType: updated.contentType, contentId: updated.contentId }),
-        });
+        const result = await resolveReport(
+            reportId,
+            status as 'pending' | 'reviewed' | 'dismissed' | 'actioned',
+            { id: parseInt(adminUser.id), role: adminUser.role },
+            {
+                action: action as ModerationAction | undefined,
+                notes: sanitizeContent(body.notes || '', 1000) || null,
+                banHours: Number(body.banHours) || null,
+            }
+        );
+
+        if (result.error) {
+            return NextResponse.json({ error: result.error }, { status: result.status || 400 });
+        }
 
-        return NextResponse.json({ success: true, report: updated });
+        return NextResponse.json({ success: true, resolved: result.resolved });
     } catch (error: any) {
         if (error instanceof Error && error.message === 'Unauthorized') {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
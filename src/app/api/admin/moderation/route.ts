@@ -1,8 +1,10 @@
 import { NextResponse } from 'next/server';
 import { auth } from '../../../../../auth';
 import { db } from '@/db';
-import { users, forumPosts, auditLogs, reportedContent } from '@/db/schema';
-import { desc, sql, eq, gte } from 'drizzle-orm';
+import { forumPosts, auditLogs } from '@/db/schema';
+import { desc, sql, eq } from 'drizzle-orm';
+import { getReportQueue } from '@/lib/reports';
+import { getActiveSanctions } from '@/lib/sanctions';
 
 async function requireModerator() {
     const session = await auth();
@@ -23,26 +25,19 @@ export async function GET() {
     try {
         await requireModerator();
 
-        // Current time for date comparisons (database-agnostic)
-        const now = new Date();
-
         // Get stats
-        const [bannedCount, lockedPosts] = await Promise.all([
-            db.select({ count: sql<number>`count(*)` })
-                .from(users)
-                .where(gte(users.lockedUntil, now)),
+        const [sanctions, lockedPosts] = await Promise.all([
+            getActiveSanctions(),
             db.select({ count: sql<number>`count(*)` })
                 .from(forumPosts)
                 .where(eq(forumPosts.locked, true)),
         ]);
+        const bannedUsers = new Set(
+            sanctions.filter((sanction) => sanction.type !== 'mute').map((sanction) => sanction.userId)
+        ).size;
 
-        // Get pending reports
-        const reports = await db
-            .select()
-            .from(reportedContent)
-            .where(eq(reportedContent.status, 'pending'))
-            .orderBy(desc(reportedContent.createdAt))
-            .limit(20);
+        // Get pending reports, grouped by the content they're about
+        const reports = await getReportQueue();
 
         // Get recent audit logs
         const logs = await db
@@ -53,12 +48,13 @@ export async function GET() {
 
         return NextResponse.json({
             stats: {
-                bannedUsers: bannedCount[0]?.count || 0,
+                bannedUsers,
                 lockedPosts: lockedPosts[0]?.count || 0,
-                pendingReports: reports.length,
+                pendingReports: reports.reduce((sum, group) => sum + group.reportCount, 0),
                 recentActions: logs.length,
             },
             reports,
+            sanctions,
             auditLogs: logs,
         });
     } catch (error: any) {
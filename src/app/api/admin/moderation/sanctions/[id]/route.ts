@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../../../auth';
+import { revokeSanction } from '@/lib/sanctions';
+import { sanitizeContent } from '@/lib/sanitize';
+
+async function requireModerator() {
+    const session = await auth();
+    const user = session?.user as any;
+
+    if (!session || !['admin', 'superadmin', 'moderator'].includes(user?.role)) {
+        throw new Error('Unauthorized');
+    }
+
+    return user;
+}
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/admin/moderation/sanctions/[id]
+ * Lift a mute or ban early. The record is kept for the user's history.
+ * Body: { reason? }
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    try {
+        const adminUser = await requireModerator();
+        const { id } = await params;
+        const body = await request.json().catch(() => ({}));
+
+        const result = await revokeSanction(
+            parseInt(id),
+            { id: parseInt(adminUser.id), role: adminUser.role },
+            sanitizeContent(body.reason || '', 1000) || null
+        );
+
+        if (result.error) {
+            return NextResponse.json({ error: result.error }, { status: result.status || 400 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        console.error('Error revoking sanction:', error);
+        return NextResponse.json({ error: 'Failed to revoke sanction' }, { status: 500 });
+    }
+}
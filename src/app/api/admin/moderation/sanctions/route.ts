@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../../auth';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { sql } from 'drizzle-orm';
+import { getUserSanctions } from '@/lib/sanctions';
+
+async function requireModerator() {
+    const session = await auth();
+    const user = session?.user as any;
+
+    if (!session || !['admin', 'superadmin', 'moderator'].includes(user?.role)) {
+        throw new Error('Unauthorized');
+    }
+
+    return user;
+}
+
+/**
+ * GET /api/admin/moderation/sanctions?username=<username>
+ * Full sanction history for a user, including expired and revoked ones
+ */
+export async function GET(request: NextRequest) {
+    try {
+        await requireModerator();
+
+        const username = request.nextUrl.searchParams.get('username');
+        if (!username) {
+            return NextResponse.json({ error: 'Username is required' }, { status: 400 });
+        }
+
+        const [targetUser] = await db
+            .select({ id: users.id, username: users.username })
+            .from(users)
+            .where(sql`LOWER(${users.username}) = LOWER(${username})`);
+
+        if (!targetUser) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        const sanctions = await getUserSanctions(targetUser.id);
+
+        return NextResponse.json({ user: targetUser, sanctions });
+    } catch (error: any) {
+        if (error instanceof Error && error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        console.error('Error fetching sanctions:', error);
+        return NextResponse.json({ error: 'Failed to fetch sanctions' }, { status: 500 });
+    }
+}
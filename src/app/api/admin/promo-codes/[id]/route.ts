@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { promoCodes } from '@/db/schema';
+import { and, eq, ne } from 'drizzle-orm';
+import { requirePermission } from '@/lib/auth-guard';
+import { diffFields, logAudit } from '@/lib/audit-log';
+import { parsePromoCodeInput } from '@/lib/promotions';
+
+// Promo code fields compared when logging an edit
+const PROMO_CODE_FIELDS = [
+  'code', 'description', 'discountType', 'discountValue', 'rankIds',
+  'maxUses', 'maxUsesPerUser', 'expiresAt', 'active',
+];
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PUT - Update promo code
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error, user } = await requirePermission('ranks:manage');
+    if (error) return error;
+
+    const { id } = await params;
+    const promoId = parseInt(id);
+    const body = await request.json();
+
+    const { values, error: inputError } = parsePromoCodeInput(body);
+    if (!values) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    const [before] = await db
+      .select()
+      .from(promoCodes)
+      .where(eq(promoCodes.id, promoId));
+
+    if (!before) {
+      return NextResponse.json({ error: 'Promo code not found' }, { status: 404 });
+    }
+
+    const [clash] = await db
+      .select({ id: promoCodes.id })
+      .from(promoCodes)
+      .where(and(eq(promoCodes.code, values.code as string), ne(promoCodes.id, promoId)))
+      .limit(1);
+
+    if (clash) {
+      return NextResponse.json({ error: 'A promo code with that name already exists' }, { status: 409 });
+    }
+
+    const [updated] = await db
+      .update(promoCodes)
+      .set(values)
+      .where(eq(promoCodes.id, promoId))
+      .returning();
+
+    await logAudit({
+      userId: user!.id,
+      action: 'update_promo_code',
+      resource: 'promo_code',
+      resourceId: promoId,
+      details: { code: updated.code, changes: diffFields(before, updated, PROMO_CODE_FIELDS) },
+      request,
+    });
+
+    return NextResponse.json({ success: true, promoCode: updated });
+  } catch (error: any) {
+    console.error('Error updating promo code:', error);
+    return NextResponse.json({ error: 'Failed to update promo code' }, { status: 500 });
+  }
+}
+
+// DELETE - Delete promo code. Donations keep the code they were bought with.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error, user } = await requirePermission('ranks:manage');
+    if (error) return error;
+
+    const { id } = await params;
+
+    const [deleted] = await db
+      .delete(promoCodes)
+      .where(eq(promoCodes.id, parseInt(id)))
+      .returning();
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Promo code not found' }, { status: 404 });
+    }
+
+    await logAudit({
+      userId: user!.id,
+      action: 'delete_promo_code',
+      resource: 'promo_code',
+      resourceId: deleted.id,
+      details: { code: deleted.code, usedCount: deleted.usedCount },
+      request,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting promo code:', error);
+    return NextResponse.json({ error: 'Failed to delete promo code' }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { promoCodes } from '@/db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { requirePermission } from '@/lib/auth-guard';
+import { logAudit } from '@/lib/audit-log';
+import { parsePromoCodeInput } from '@/lib/promotions';
+
+// GET - List promo codes
+export async function GET() {
+  try {
+    const { error } = await requirePermission('ranks:manage');
+    if (error) return error;
+
+    const codes = await db
+      .select()
+      .from(promoCodes)
+      .orderBy(desc(promoCodes.createdAt));
+
+    return NextResponse.json(codes, {
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      }
+    });
+  } catch (error: any) {
+    console.error('Error fetching promo codes:', error);
+    return NextResponse.json({ error: 'Failed to fetch promo codes' }, { status: 500 });
+  }
+}
+
+// POST - Create promo code
+export async function POST(request: NextRequest) {
+  try {
+    const { error, user } = await requirePermission('ranks:manage');
+    if (error) return error;
+
+    const body = await request.json();
+    const { values, error: inputError } = parsePromoCodeInput(body);
+    if (!values) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    const [existing] = await db
+      .select({ id: promoCodes.id })
+      .from(promoCodes)
+      .where(eq(promoCodes.code, values.code as string))
+      .limit(1);
+
+    if (existing) {
+      return NextResponse.json({ error: 'A promo code with that name already exists' }, { status: 409 });
+    }
+
+    const [promo] = await db
+      .insert(promoCodes)
+      .values({
+        ...values,
+        createdBy: user!.id,
+        createdAt: new Date(),
+      })
+      .returning();
+
+    await logAudit({
+      userId: user!.id,
+      action: 'create_promo_code',
+      resource: 'promo_code',
+      resourceId: promo.id,
+      details: { code: promo.code, discountType: promo.discountType, discountValue: promo.discountValue },
+      request,
+    });
+
+    return NextResponse.json({ success: true, promoCode: promo });
+  } catch (error: any) {
+    console.error('Error creating promo code:', error);
+    return NextResponse.json({ error: 'Failed to create promo code' }, { status: 500 });
+  }
+}
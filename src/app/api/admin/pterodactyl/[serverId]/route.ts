@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requirePermission } from '@/lib/auth-guard';
+import { requireAuth, requirePermission, requireServerAccess } from '@/lib/auth-guard';
+import { logAudit } from '@/lib/audit-log';
 import { db } from '@/db';
 import { servers } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import {
-    getGlobalPterodactylConfig,
+    getPanelForSiteServer,
     getServerDetails,
     getServerResources,
     sendPowerAction,
@@ -15,7 +16,7 @@ import {
 
 /**
  * Get the Pterodactyl config for a specific server
- * Uses server-specific URL if set, otherwise falls back to global config
+ * Uses the panel the server is mapped to (see getPanelForSiteServer)
  */
 async function getServerPterodactylConfig(
     serverId: number
@@ -28,29 +29,13 @@ async function getServerPterodactylConfig(
         return null;
     }
 
-    // Check for server-specific panel URL first
-    if (server.pterodactylPanelUrl) {
-        const globalConfig = await getGlobalPterodactylConfig();
-        if (!globalConfig?.apiKey) {
-            return null;
-        }
-        return {
-            config: {
-                panelUrl: server.pterodactylPanelUrl,
-                apiKey: globalConfig.apiKey,
-            },
-            pterodactylServerId: server.pterodactylServerId,
-        };
-    }
-
-    // Fall back to global config
-    const globalConfig = await getGlobalPterodactylConfig();
-    if (!globalConfig) {
+    const config = await getPanelForSiteServer(server);
+    if (!config) {
         return null;
     }
 
     return {
-        config: globalConfig,
+        config,
         pterodactylServerId: server.pterodactylServerId,
     };
 }
@@ -64,8 +49,8 @@ export async function GET(
     { params }: { params: Promise<{ serverId: string }> }
 ) {
     try {
-        const { error } = await requirePermission('servers:read');
-        if (error) return error;
+        const { error: authError } = await requireAuth();
+        if (authError) return authError;
 
         const { serverId } = await params;
         const serverIdNum = parseInt(serverId, 10);
@@ -85,6 +70,9 @@ export async function GET(
 
         const { config, pterodactylServerId } = pterodactylInfo;
 
+        const { error } = await requireServerAccess(pterodactylServerId, 'console');
+        if (error) return error;
+
         // Fetch both details and resources in parallel
         const [details, resources] = await Promise.all([
             getServerDetails(config, pterodactylServerId),
@@ -114,7 +102,7 @@ export async function POST(
     { params }: { params: Promise<{ serverId: string }> }
 ) {
     try {
-        const { error } = await requirePermission('servers:write');
+        const { error, user } = await requirePermission('servers:write');
         if (error) return error;
 
         const { serverId } = await params;
@@ -150,6 +138,15 @@ export async function POST(
 
             await sendPowerAction(config, pterodactylServerId, action);
 
+            await logAudit({
+                userId: user!.id,
+                action: 'server_power',
+                resource: 'server',
+                resourceId: pterodactylServerId,
+                details: { signal: action, serverId: serverIdNum },
+                request,
+            });
+
             return NextResponse.json({
                 success: true,
                 message: `Power action '${action}' sent successfully`,
@@ -160,6 +157,15 @@ export async function POST(
         if (command) {
             await sendCommand(config, pterodactylServerId, command);
 
+            await logAudit({
+                userId: user!.id,
+                action: 'server_command',
+                resource: 'server',
+                resourceId: pterodactylServerId,
+                details: { command, serverId: serverIdNum },
+                request,
+            });
+
             return NextResponse.json({
                 success: true,
                 message: 'Command sent successfully',
@@ -3,7 +3,7 @@ import { requirePermission } from '@/lib/auth-guard';
 import { db } from '@/db';
 import { servers } from '@/db/schema';
 import { eq } from 'drizzle-orm';
-import { getGlobalPterodactylConfig, PterodactylConfig } from '@/lib/pterodactyl';
+import { getPanelForSiteServer } from '@/lib/pterodactyl';
 
 /**
  * GET /api/admin/pterodactyl/[serverId]/websocket
@@ -14,7 +14,9 @@ export async function GET(
     { params }: { params: Promise<{ serverId: string }> }
 ) {
     try {
-        const { error } = await requirePermission('servers:read');
+        // The socket token carries the panel API key's full permissions, so
+        // it is never handed to delegated users
+        const { error } = await requirePermission('servers:write');
         if (error) return error;
 
         const { serverId } = await params;
@@ -36,24 +38,21 @@ export async function GET(
             );
         }
 
-        // Get global config for API key
-        const globalConfig = await getGlobalPterodactylConfig();
-        if (!globalConfig) {
+        const config = await getPanelForSiteServer(server);
+        if (!config) {
             return NextResponse.json(
                 { error: 'Pterodactyl not configured' },
                 { status: 400 }
             );
         }
 
-        const panelUrl = server.pterodactylPanelUrl || globalConfig.panelUrl;
-
         // Fetch WebSocket credentials from Pterodactyl
-        const wsUrl = `${panelUrl.replace(/\/$/, '')}/api/client/servers/${server.pterodactylServerId}/websocket`;
+        const wsUrl = `${config.panelUrl.replace(/\/$/, '')}/api/client/servers/${server.pterodactylServerId}/websocket`;
 
         const response = await fetch(wsUrl, {
             headers: {
                 'Accept': 'application/json',
-                'Authorization': `Bearer ${globalConfig.apiKey}`,
+                'Authorization': `Bearer ${config.apiKey}`,
             },
         });
 
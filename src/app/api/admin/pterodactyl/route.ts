@@ -1,38 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requirePermission } from '@/lib/auth-guard';
+import { hasPermission, requireAuth, requirePermission } from '@/lib/auth-guard';
+import { logAudit } from '@/lib/audit-log';
 import {
-    getGlobalPterodactylConfig,
-    saveGlobalPterodactylConfig,
+    deletePterodactylPanel,
+    getPterodactylPanel,
+    listPterodactylPanels,
+    savePterodactylPanel,
     testConnection,
 } from '@/lib/pterodactyl';
 
 /**
  * GET /api/admin/pterodactyl
- * Get global Pterodactyl configuration status
+ * Get Pterodactyl configuration status and the saved panel connections
  */
 export async function GET() {
     try {
-        const { error } = await requirePermission('servers:read');
+        const { error, user } = await requireAuth();
         if (error) return error;
 
-        const config = await getGlobalPterodactylConfig();
-
-        if (!config) {
-            return NextResponse.json({
-                configured: false,
-                panelUrl: null,
-                hasApiKey: false,
-            });
-        }
+        const panels = await listPterodactylPanels();
+        // Panel details are for the settings page only
+        const canManage = hasPermission(user!.role, 'servers:write');
 
         return NextResponse.json({
-            configured: true,
-            panelUrl: config.panelUrl,
-            hasApiKey: !!config.apiKey,
-            // Mask the API key for display
-            maskedApiKey: config.apiKey
-                ? `${config.apiKey.substring(0, 8)}...${config.apiKey.substring(config.apiKey.length - 4)}`
-                : null,
+            configured: panels.length > 0,
+            panels: canManage
+                ? panels.map((panel) => ({
+                    id: panel.id,
+                    name: panel.name,
+                    panelUrl: panel.panelUrl,
+                    hasApiKey: !!panel.apiKey,
+                    // Mask the API key for display
+                    maskedApiKey: panel.apiKey
+                        ? `${panel.apiKey.substring(0, 8)}...${panel.apiKey.substring(panel.apiKey.length - 4)}`
+                        : null,
+                }))
+                : [],
         });
     } catch (error: any) {
         console.error('Error fetching Pterodactyl config:', error);
@@ -45,26 +48,47 @@ export async function GET() {
 
 /**
  * POST /api/admin/pterodactyl
- * Save global Pterodactyl configuration
+ * Add or update a panel connection after testing it
+ * Body: id (to update), name, panelUrl, apiKey (optional when updating),
+ * testOnly to test without saving
  */
 export async function POST(request: NextRequest) {
     try {
-        const { error } = await requirePermission('servers:write');
+        const { error, user } = await requirePermission('servers:write');
         if (error) return error;
 
         const body = await request.json();
-        const { panelUrl, apiKey, testOnly } = body;
+        const { panelUrl, testOnly } = body;
+        const id = body.id ? parseInt(body.id, 10) : undefined;
+        const name = typeof body.name === 'string' ? body.name.trim() : '';
 
-        if (!panelUrl || !apiKey) {
-            return NextResponse.json(
-                { error: 'Panel URL and API key are required' },
-                { status: 400 }
-            );
+        const existing = id ? await getPterodactylPanel(id) : null;
+        if (id && !existing) {
+            return NextResponse.json({ error: 'Panel not found' }, { status: 404 });
+        }
+
+        if (!panelUrl || typeof panelUrl !== 'string') {
+            return NextResponse.json({ error: 'Panel URL is required' }, { status: 400 });
         }
 
         // Clean up panel URL (remove trailing slash)
         const cleanPanelUrl = panelUrl.replace(/\/+$/, '');
 
+        // Keep the saved key when editing a panel without entering a new one,
+        // but never send it to a different URL than the one it was saved for
+        const keepsSavedKey = !body.apiKey && existing?.panelUrl.replace(/\/+$/, '') === cleanPanelUrl;
+        const apiKey = body.apiKey || (keepsSavedKey ? existing?.apiKey : undefined);
+
+        if (!apiKey) {
+            return NextResponse.json(
+                { error: existing ? 'Enter the API key again to change the panel URL' : 'Panel URL and API key are required' },
+                { status: 400 }
+            );
+        }
+        if (!testOnly && !name) {
+            return NextResponse.json({ error: 'Panel name is required' }, { status: 400 });
+        }
+
         // Test the connection first
         const testResult = await testConnection({
             panelUrl: cleanPanelUrl,
@@ -87,11 +111,25 @@ export async function POST(request: NextRequest) {
             });
         }
 
-        // Save the configuration
-        await saveGlobalPterodactylConfig(cleanPanelUrl, apiKey);
+        const panelId = await savePterodactylPanel({
+            id,
+            name,
+            panelUrl: cleanPanelUrl,
+            apiKey: body.apiKey || undefined,
+        });
+
+        await logAudit({
+            userId: user!.id,
+            action: id ? 'pterodactyl_panel_update' : 'pterodactyl_panel_create',
+            resource: 'pterodactyl_panel',
+            resourceId: panelId,
+            details: { name, panelUrl: cleanPanelUrl, apiKeyChanged: Boolean(body.apiKey) },
+            request,
+        });
 
         return NextResponse.json({
             success: true,
+            id: panelId,
             message: 'Configuration saved successfully',
             serverCount: testResult.serverCount,
         });
@@ -105,25 +143,39 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * DELETE /api/admin/pterodactyl
- * Clear Pterodactyl configuration
+ * DELETE /api/admin/pterodactyl?id=<panelId>
+ * Remove a panel connection
  */
-export async function DELETE() {
+export async function DELETE(request: NextRequest) {
     try {
-        const { error } = await requirePermission('servers:write');
+        const { error, user } = await requirePermission('servers:write');
         if (error) return error;
 
-        // Clear by setting empty values
-        await saveGlobalPterodactylConfig('', '');
+        const id = parseInt(request.nextUrl.searchParams.get('id') || '', 10);
+        const panel = isNaN(id) ? null : await getPterodactylPanel(id);
+        if (!panel) {
+            return NextResponse.json({ error: 'Panel not found' }, { status: 404 });
+        }
+
+        await deletePterodactylPanel(id);
+
+        await logAudit({
+            userId: user!.id,
+            action: 'pterodactyl_panel_delete',
+            resource: 'pterodactyl_panel',
+            resourceId: id,
+            details: { name: panel.name, panelUrl: panel.panelUrl },
+            request,
+        });
 
         return NextResponse.json({
             success: true,
-            message: 'Configuration cleared',
+            message: 'Panel removed',
         });
     } catch (error: any) {
         console.error('Error clearing Pterodactyl config:', error);
         return NextResponse.json(
-            { error: 'Failed to clear configuration' },
+            { error: 'Failed to remove panel' },
             { status: 500 }
         );
     }
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requirePermission } from '@/lib/auth-guard';
-import { getGlobalPterodactylConfig } from '@/lib/pterodactyl';
+import { requireServerAccess } from '@/lib/auth-guard';
+import { getPanelForServer } from '@/lib/pterodactyl';
 
 /**
  * GET /api/admin/pterodactyl/server/[identifier]/backups
@@ -11,13 +11,12 @@ export async function GET(
     { params }: { params: Promise<{ identifier: string }> }
 ) {
     try {
-        const { error } = await requirePermission('servers:read');
-        if (error) return error;
-
         const { identifier } = await params;
-        const config = await getGlobalPterodactylConfig();
+        const { error } = await requireServerAccess(identifier, 'backups');
+        if (error) return error;
+        const config = await getPanelForServer(identifier);
         if (!config) {
-            return NextResponse.json({ error: 'Pterodactyl is not configured' }, { status: 400 });
+            return NextResponse.json({ error: 'Server not found on any Pterodactyl panel' }, { status: 404 });
         }
 
         const response = await fetch(
@@ -64,15 +63,14 @@ export async function POST(
     { params }: { params: Promise<{ identifier: string }> }
 ) {
     try {
-        const { error } = await requirePermission('servers:write');
-        if (error) return error;
-
         const { identifier } = await params;
+        const { error } = await requireServerAccess(identifier, 'backups');
+        if (error) return error;
         const body = await request.json();
 
-        const config = await getGlobalPterodactylConfig();
+        const config = await getPanelForServer(identifier);
         if (!config) {
-            return NextResponse.json({ error: 'Pterodactyl is not configured' }, { status: 400 });
+            return NextResponse.json({ error: 'Server not found on any Pterodactyl panel' }, { status: 404 });
         }
 
         const response = await fetch(
@@ -121,10 +119,9 @@ export async function DELETE(
     { params }: { params: Promise<{ identifier: string }> }
 ) {
     try {
-        const { error } = await requirePermission('servers:write');
-        if (error) return error;
-
         const { identifier } = await params;
+        const { error } = await requireServerAccess(identifier, 'backups');
+        if (error) return error;
         const { searchParams } = new URL(request.url);
         const backupId = searchParams.get('uuid');
 
@@ -132,9 +129,9 @@ export async function DELETE(
             return NextResponse.json({ error: 'Backup UUID required' }, { status: 400 });
         }
 
-        const config = await getGlobalPterodactylConfig();
+        const config = await getPanelForServer(identifier);
         if (!config) {
-            return NextResponse.json({ error: 'Pterodactyl is not configured' }, { status: 400 });
+            return NextResponse.json({ error: 'Server not found on any Pterodactyl panel' }, { status: 404 });
         }
 
         const response = await fetch(
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requirePermission } from '@/lib/auth-guard';
-import { getGlobalPterodactylConfig } from '@/lib/pterodactyl';
+import { requireServerAccess } from '@/lib/auth-guard';
+import { getPanelForServer } from '@/lib/pterodactyl';
+import { logAudit } from '@/lib/audit-log';
 
 /**
  * POST /api/admin/pterodactyl/server/[identifier]/command
@@ -11,10 +12,9 @@ export async function POST(
     { params }: { params: Promise<{ identifier: string }> }
 ) {
     try {
-        const { error } = await requirePermission('servers:write');
-        if (error) return error;
-
         const { identifier } = await params;
+        const { error, user } = await requireServerAccess(identifier, 'command');
+        if (error) return error;
         const body = await request.json();
         const { command } = body;
 
@@ -25,11 +25,11 @@ export async function POST(
             );
         }
 
-        const config = await getGlobalPterodactylConfig();
+        const config = await getPanelForServer(identifier);
         if (!config) {
             return NextResponse.json(
-                { error: 'Pterodactyl is not configured' },
-                { status: 400 }
+                { error: 'Server not found on any Pterodactyl panel' },
+                { status: 404 }
             );
         }
 
@@ -56,6 +56,15 @@ export async function POST(
             );
         }
 
+        await logAudit({
+            userId: user!.id,
+            action: 'server_command',
+            resource: 'server',
+            resourceId: identifier,
+            details: { command },
+            request,
+        });
+
         return NextResponse.json({
             success: true,
             message: 'Command sent successfully',
@@ -1,6 +1,6 @@
 import { NextRequest } from 'next/server';
-import { requirePermission } from '@/lib/auth-guard';
-import { getGlobalPterodactylConfig } from '@/lib/pterodactyl';
+import { requireServerAccess } from '@/lib/auth-guard';
+import { getPanelForServer } from '@/lib/pterodactyl';
 import WebSocket from 'ws';
 
 // Keep track of active connections per server
@@ -14,15 +14,14 @@ export async function GET(
     request: NextRequest,
     { params }: { params: Promise<{ identifier: string }> }
 ) {
-    const { error } = await requirePermission('servers:read');
-    if (error) return error;
-
     const { identifier } = await params;
+    const { error } = await requireServerAccess(identifier, 'console');
+    if (error) return error;
 
-    const config = await getGlobalPterodactylConfig();
+    const config = await getPanelForServer(identifier);
     if (!config) {
-        return new Response(JSON.stringify({ error: 'Pterodactyl is not configured' }), {
-            status: 400,
+        return new Response(JSON.stringify({ error: 'Server not found on any Pterodactyl panel' }), {
+            status: 404,
             headers: { 'Content-Type': 'application/json' },
         });
     }
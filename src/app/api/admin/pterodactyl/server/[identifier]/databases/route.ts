@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requirePermission } from '@/lib/auth-guard';
-import { getGlobalPterodactylConfig } from '@/lib/pterodactyl';
+import { getPanelForServer } from '@/lib/pterodactyl';
 
 /**
  * GET /api/admin/pterodactyl/server/[identifier]/databases
@@ -11,13 +11,14 @@ export async function GET(
     { params }: { params: Promise<{ identifier: string }> }
 ) {
     try {
-        const { error } = await requirePermission('servers:read');
+        // Not covered by delegated access grants
+        const { error } = await requirePermission('servers:write');
         if (error) return error;
 
         const { identifier } = await params;
-        const config = await getGlobalPterodactylConfig();
+        const config = await getPanelForServer(identifier);
         if (!config) {
-            return NextResponse.json({ error: 'Pterodactyl is not configured' }, { status: 400 });
+            return NextResponse.json({ error: 'Server not found on any Pterodactyl panel' }, { status: 404 });
         }
 
         const response = await fetch(
@@ -68,9 +69,9 @@ export async function POST(
         const { identifier } = await params;
         const body = await request.json();
 
-        const config = await getGlobalPterodactylConfig();
+        const config = await getPanelForServer(identifier);
         if (!config) {
-            return NextResponse.json({ error: 'Pterodactyl is not configured' }, { status: 400 });
+            return NextResponse.json({ error: 'Server not found on any Pterodactyl panel' }, { status: 404 });
         }
 
         const response = await fetch(
@@ -132,9 +133,9 @@ export async function DELETE(
             return NextResponse.json({ error: 'Database ID required' }, { status: 400 });
         }
 
-        const config = await getGlobalPterodactylConfig();
+        const config = await getPanelForServer(identifier);
         if (!config) {
-            return NextResponse.json({ error: 'Pterodactyl is not configured' }, { status: 400 });
+            return NextResponse.json({ error: 'Server not found on any Pterodactyl panel' }, { status: 404 });
         }
 
         const response = await fetch(
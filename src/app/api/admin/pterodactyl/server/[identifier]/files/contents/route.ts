@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requirePermission } from '@/lib/auth-guard';
-import { getGlobalPterodactylConfig } from '@/lib/pterodactyl';
+import { requireServerAccess } from '@/lib/auth-guard';
+import { getPanelForServer } from '@/lib/pterodactyl';
 
 /**
  * GET /api/admin/pterodactyl/server/[identifier]/files/contents
@@ -11,10 +11,9 @@ export async function GET(
     { params }: { params: Promise<{ identifier: string }> }
 ) {
     try {
-        const { error } = await requirePermission('servers:read');
-        if (error) return error;
-
         const { identifier } = await params;
+        const { error } = await requireServerAccess(identifier, 'files:read');
+        if (error) return error;
         const { searchParams } = new URL(request.url);
         const file = searchParams.get('file');
 
@@ -22,9 +21,9 @@ export async function GET(
             return NextResponse.json({ error: 'File path required' }, { status: 400 });
         }
 
-        const config = await getGlobalPterodactylConfig();
+        const config = await getPanelForServer(identifier);
         if (!config) {
-            return NextResponse.json({ error: 'Pterodactyl is not configured' }, { status: 400 });
+            return NextResponse.json({ error: 'Server not found on any Pterodactyl panel' }, { status: 404 });
         }
 
         const response = await fetch(
@@ -58,10 +57,9 @@ export async function POST(
     { params }: { params: Promise<{ identifier: string }> }
 ) {
     try {
-        const { error } = await requirePermission('servers:write');
-        if (error) return error;
-
         const { identifier } = await params;
+        const { error } = await requireServerAccess(identifier, 'files:write');
+        if (error) return error;
         const { searchParams } = new URL(request.url);
         const file = searchParams.get('file');
         const body = await request.json();
@@ -70,9 +68,9 @@ export async function POST(
             return NextResponse.json({ error: 'File path required' }, { status: 400 });
         }
 
-        const config = await getGlobalPterodactylConfig();
+        const config = await getPanelForServer(identifier);
         if (!config) {
-            return NextResponse.json({ error: 'Pterodactyl is not configured' }, { status: 400 });
+            return NextResponse.json({ error: 'Server not found on any Pterodactyl panel' }, { status: 404 });
         }
 
         const response = await fetch(
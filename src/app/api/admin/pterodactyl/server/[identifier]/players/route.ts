@@ -1,21 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requirePermission } from '@/lib/auth-guard';
-import { getGlobalPterodactylConfig } from '@/lib/pterodactyl';
+import { requireServerAccess } from '@/lib/auth-guard';
+import { getPanelForServer } from '@/lib/pterodactyl';
 
 export async function GET(
     request: NextRequest,
     { params }: { params: Promise<{ identifier: string }> }
 ) {
     try {
-        const { error } = await requirePermission('servers:read');
-        if (error) return error;
-
         const { identifier } = await params;
+        const { error } = await requireServerAccess(identifier, 'console');
+        if (error) return error;
 
         // Use cached config helper instead of inline DB queries
-        const config = await getGlobalPterodactylConfig();
+        const config = await getPanelForServer(identifier);
         if (!config) {
-            return NextResponse.json({ error: 'Pterodactyl not configured' }, { status: 400 });
+            return NextResponse.json({ error: 'Server not found on any Pterodactyl panel' }, { status: 404 });
         }
 
         const panelUrl = config.panelUrl.replace(/\/$/, '');
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth-guard';
+import { getPanelForServer, executeSchedule } from '@/lib/pterodactyl';
+import { logAudit } from '@/lib/audit-log';
+
+/**
+ * POST /api/admin/pterodactyl/server/[identifier]/schedules/[scheduleId]/execute
+ * Run schedule now
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ identifier: string; scheduleId: string }> }
+) {
+    try {
+        const { error, user } = await requirePermission('servers:write');
+        if (error) return error;
+
+        const { identifier, scheduleId } = await params;
+        const id = parseInt(scheduleId);
+        if (isNaN(id)) {
+            return NextResponse.json({ error: 'Invalid schedule ID' }, { status: 400 });
+        }
+
+        const config = await getPanelForServer(identifier);
+        if (!config) {
+            return NextResponse.json({ error: 'Server not found on any Pterodactyl panel' }, { status: 404 });
+        }
+
+        await executeSchedule(config, identifier, id);
+
+        await logAudit({
+            userId: user!.id,
+            action: 'server_schedule_execute',
+            resource: 'server',
+            resourceId: identifier,
+            details: { scheduleId: id },
+            request,
+        });
+
+        return NextResponse.json({ success: true, message: 'Schedule triggered' });
+    } catch (error: any) {
+        console.error('Error executing schedule:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to run schedule' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth-guard';
+import {
+    getPanelForServer,
+    updateSchedule,
+    deleteSchedule,
+    parseScheduleInput,
+} from '@/lib/pterodactyl';
+import { logAudit } from '@/lib/audit-log';
+
+type RouteParams = { params: Promise<{ identifier: string; scheduleId: string }> };
+
+/**
+ * PUT /api/admin/pterodactyl/server/[identifier]/schedules/[scheduleId]
+ * Update schedule name, timing and flags
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { error, user } = await requirePermission('servers:write');
+        if (error) return error;
+
+        const { identifier, scheduleId } = await params;
+        const id = parseInt(scheduleId);
+        if (isNaN(id)) {
+            return NextResponse.json({ error: 'Invalid schedule ID' }, { status: 400 });
+        }
+
+        const { input, error: inputError } = parseScheduleInput(await request.json());
+        if (!input) {
+            return NextResponse.json({ error: inputError }, { status: 400 });
+        }
+
+        const config = await getPanelForServer(identifier);
+        if (!config) {
+            return NextResponse.json({ error: 'Server not found on any Pterodactyl panel' }, { status: 404 });
+        }
+
+        const schedule = await updateSchedule(config, identifier, id, input);
+
+        await logAudit({
+            userId: user!.id,
+            action: 'server_schedule_update',
+            resource: 'server',
+            resourceId: identifier,
+            details: { scheduleId: id, name: schedule.name, cron: schedule.cron, isActive: schedule.isActive },
+            request,
+        });
+
+        return NextResponse.json({ success: true, schedule });
+    } catch (error: any) {
+        console.error('Error updating schedule:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to update schedule' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/admin/pterodactyl/server/[identifier]/schedules/[scheduleId]
+ * Delete schedule and its tasks
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { error, user } = await requirePermission('servers:write');
+        if (error) return error;
+
+        const { identifier, scheduleId } = await params;
+        const id = parseInt(scheduleId);
+        if (isNaN(id)) {
+            return NextResponse.json({ error: 'Invalid schedule ID' }, { status: 400 });
+        }
+
+        const config = await getPanelForServer(identifier);
+        if (!config) {
+            return NextResponse.json({ error: 'Server not found on any Pterodactyl panel' }, { status: 404 });
+        }
+
+        await deleteSchedule(config, identifier, id);
+
+        await logAudit({
+            userId: user!.id,
+            action: 'server_schedule_delete',
+            resource: 'server',
+            resourceId: identifier,
+            details: { scheduleId: id },
+            request,
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        console.error('Error deleting schedule:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to delete schedule' },
+            { status: 500 }
+        );
+    }
+}
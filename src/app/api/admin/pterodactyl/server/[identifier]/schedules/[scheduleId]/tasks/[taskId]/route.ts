@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth-guard';
+import {
+    getPanelForServer,
+    updateScheduleTask,
+    deleteScheduleTask,
+    parseScheduleTaskInput,
+} from '@/lib/pterodactyl';
+import { logAudit } from '@/lib/audit-log';
+
+type RouteParams = { params: Promise<{ identifier: string; scheduleId: string; taskId: string }> };
+
+/**
+ * PUT /api/admin/pterodactyl/server/[identifier]/schedules/[scheduleId]/tasks/[taskId]
+ * Update task
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { error, user } = await requirePermission('servers:write');
+        if (error) return error;
+
+        const { identifier, scheduleId, taskId } = await params;
+        const id = parseInt(scheduleId);
+        const task = parseInt(taskId);
+        if (isNaN(id) || isNaN(task)) {
+            return NextResponse.json({ error: 'Invalid schedule or task ID' }, { status: 400 });
+        }
+
+        const { input, error: inputError } = parseScheduleTaskInput(await request.json());
+        if (!input) {
+            return NextResponse.json({ error: inputError }, { status: 400 });
+        }
+
+        const config = await getPanelForServer(identifier);
+        if (!config) {
+            return NextResponse.json({ error: 'Server not found on any Pterodactyl panel' }, { status: 404 });
+        }
+
+        const updated = await updateScheduleTask(config, identifier, id, task, input);
+
+        await logAudit({
+            userId: user!.id,
+            action: 'server_schedule_task_update',
+            resource: 'server',
+            resourceId: identifier,
+            details: { scheduleId: id, taskId: task, action: updated.action, payload: updated.payload },
+            request,
+        });
+
+        return NextResponse.json({ success: true, task: updated });
+    } catch (error: any) {
+        console.error('Error updating schedule task:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to update task' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/admin/pterodactyl/server/[identifier]/schedules/[scheduleId]/tasks/[taskId]
+ * Delete task
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+    try {
+        const { error, user } = await requirePermission('servers:write');
+        if (error) return error;
+
+        const { identifier, scheduleId, taskId } = await params;
+        const id = parseInt(scheduleId);
+        const task = parseInt(taskId);
+        if (isNaN(id) || isNaN(task)) {
+            return NextResponse.json({ error: 'Invalid schedule or task ID' }, { status: 400 });
+        }
+
+        const config = await getPanelForServer(identifier);
+        if (!config) {
+            return NextResponse.json({ error: 'Server not found on any Pterodactyl panel' }, { status: 404 });
+        }
+
+        await deleteScheduleTask(config, identifier, id, task);
+
+        await logAudit({
+            userId: user!.id,
+            action: 'server_schedule_task_delete',
+            resource: 'server',
+            resourceId: identifier,
+            details: { scheduleId: id, taskId: task },
+            request,
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        console.error('Error deleting schedule task:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to delete task' },
+            { status: 500 }
+        );
+    }
+}
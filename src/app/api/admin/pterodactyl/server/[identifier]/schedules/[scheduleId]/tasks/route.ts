@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth-guard';
+import {
+    getPanelForServer,
+    createScheduleTask,
+    parseScheduleTaskInput,
+} from '@/lib/pterodactyl';
+import { logAudit } from '@/lib/audit-log';
+
+/**
+ * POST /api/admin/pterodactyl/server/[identifier]/schedules/[scheduleId]/tasks
+ * Add task to schedule
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ identifier: string; scheduleId: string }> }
+) {
+    try {
+        const { error, user } = await requirePermission('servers:write');
+        if (error) return error;
+
+        const { identifier, scheduleId } = await params;
+        const id = parseInt(scheduleId);
+        if (isNaN(id)) {
+            return NextResponse.json({ error: 'Invalid schedule ID' }, { status: 400 });
+        }
+
+        const { input, error: inputError } = parseScheduleTaskInput(await request.json());
+        if (!input) {
+            return NextResponse.json({ error: inputError }, { status: 400 });
+        }
+
+        const config = await getPanelForServer(identifier);
+        if (!config) {
+            return NextResponse.json({ error: 'Server not found on any Pterodactyl panel' }, { status: 404 });
+        }
+
+        const task = await createScheduleTask(config, identifier, id, input);
+
+        await logAudit({
+            userId: user!.id,
+            action: 'server_schedule_task_create',
+            resource: 'server',
+            resourceId: identifier,
+            details: { scheduleId: id, taskId: task.id, action: task.action, payload: task.payload },
+            request,
+        });
+
+        return NextResponse.json({ success: true, task });
+    } catch (error: any) {
+        console.error('Error creating schedule task:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to create task' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth-guard';
+import {
+    getPanelForServer,
+    listSchedules,
+    createSchedule,
+    parseScheduleInput,
+} from '@/lib/pterodactyl';
+import { logAudit } from '@/lib/audit-log';
+
+/**
+ * GET /api/admin/pterodactyl/server/[identifier]/schedules
+ * List schedules and their tasks
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ identifier: string }> }
+) {
+    try {
+        // Not covered by delegated access grants
+        const { error } = await requirePermission('servers:write');
+        if (error) return error;
+
+        const { identifier } = await params;
+        const config = await getPanelForServer(identifier);
+        if (!config) {
+            return NextResponse.json({ error: 'Server not found on any Pterodactyl panel' }, { status: 404 });
+        }
+
+        const schedules = await listSchedules(config, identifier);
+        return NextResponse.json({ success: true, schedules });
+    } catch (error: any) {
+        console.error('Error listing schedules:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to list schedules' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/admin/pterodactyl/server/[identifier]/schedules
+ * Create schedule
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ identifier: string }> }
+) {
+    try {
+        const { error, user } = await requirePermission('servers:write');
+        if (error) return error;
+
+        const { identifier } = await params;
+        const { input, error: inputError } = parseScheduleInput(await request.json());
+        if (!input) {
+            return NextResponse.json({ error: inputError }, { status: 400 });
+        }
+
+        const config = await getPanelForServer(identifier);
+        if (!config) {
+            return NextResponse.json({ error: 'Server not found on any Pterodactyl panel' }, { status: 404 });
+        }
+
+        const schedule = await createSchedule(config, identifier, input);
+
+        await logAudit({
+            userId: user!.id,
+            action: 'server_schedule_create',
+            resource: 'server',
+            resourceId: identifier,
+            details: { scheduleId: schedule.id, name: schedule.name, cron: schedule.cron },
+            request,
+        });
+
+        return NextResponse.json({ success: true, schedule });
+    } catch (error: any) {
+        console.error('Error creating schedule:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to create schedule' },
+            { status: 500 }
+        );
+    }
+}
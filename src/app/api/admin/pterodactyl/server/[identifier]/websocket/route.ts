@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requirePermission } from '@/lib/auth-guard';
-import { getGlobalPterodactylConfig } from '@/lib/pterodactyl';
+import { getPanelForServer } from '@/lib/pterodactyl';
 
 /**
  * GET /api/admin/pterodactyl/server/[identifier]/websocket
@@ -11,16 +11,18 @@ export async function GET(
     { params }: { params: Promise<{ identifier: string }> }
 ) {
     try {
-        const { error } = await requirePermission('servers:read');
+        // The socket token carries the panel API key's full permissions, so
+        // it is never handed to delegated users
+        const { error } = await requirePermission('servers:write');
         if (error) return error;
 
         const { identifier } = await params;
 
-        const config = await getGlobalPterodactylConfig();
+        const config = await getPanelForServer(identifier);
         if (!config) {
             return NextResponse.json(
-                { error: 'Pterodactyl is not configured' },
-                { status: 400 }
+                { error: 'Server not found on any Pterodactyl panel' },
+                { status: 404 }
             );
         }
 
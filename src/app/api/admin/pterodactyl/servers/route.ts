@@ -1,74 +1,119 @@
 import { NextResponse } from 'next/server';
-import { requirePermission } from '@/lib/auth-guard';
-import { getGlobalPterodactylConfig } from '@/lib/pterodactyl';
+import { hasPermission, requireAuth } from '@/lib/auth-guard';
+import { listPterodactylPanels } from '@/lib/pterodactyl';
+import { ALL_SERVER_CAPABILITIES, getUserServerGrants } from '@/lib/server-access';
 
 /**
  * GET /api/admin/pterodactyl/servers
- * List all servers accessible from the Pterodactyl panel (directly from API)
+ * List all servers accessible from every Pterodactyl panel (directly from API)
+ * Users without servers:write only see servers they have been granted, and
+ * each server lists the caller's capabilities on it
  */
 export async function GET() {
     try {
-        const { error } = await requirePermission('servers:read');
+        const { error, user } = await requireAuth();
         if (error) return error;
 
-        const config = await getGlobalPterodactylConfig();
+        const fullAccess = hasPermission(user!.role, 'servers:write');
+        const grants = fullAccess ? null : await getUserServerGrants(parseInt(user!.id));
+        if (grants && grants.size === 0) {
+            return NextResponse.json({ error: 'Forbidden - No server access' }, { status: 403 });
+        }
+
+        const panels = await listPterodactylPanels();
 
-        if (!config) {
+        if (panels.length === 0) {
             return NextResponse.json(
                 { error: 'Pterodactyl is not configured' },
                 { status: 400 }
             );
         }
 
-        // Fetch servers directly from Pterodactyl Client API
-        const response = await fetch(`${config.panelUrl.replace(/\/$/, '')}/api/client`, {
-            headers: {
-                'Accept': 'application/json',
-                'Authorization': `Bearer ${config.apiKey}`,
-            },
-        });
+        const servers: any[] = [];
+        const panelErrors: Array<{ panelId: number; panelName: string; error: string }> = [];
+
+        // Fetch servers directly from each panel's Client API
+        await Promise.all(panels.map(async (panel) => {
+            try {
+                const response = await fetch(`${panel.panelUrl.replace(/\/$/, '')}/api/client`, {
+                    headers: {
+                        'Accept': 'application/json',
+                        'Authorization': `Bearer ${panel.apiKey}`,
+                    },
+                });
+
+                if (!response.ok) {
+                    const errorText = await response.text();
+                    console.error(`Pterodactyl API error (${panel.name}):`, errorText);
+                    panelErrors.push({ panelId: panel.id, panelName: panel.name, error: `HTTP ${response.status}` });
+                    return;
+                }
+
+                const data = await response.json();
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            console.error('Pterodactyl API error:', errorText);
+                // Map server data
+                const mapped = (data.data || [])
+                    .filter((server: any) => !grants || grants.has(server.attributes.identifier))
+                    .map((server: any) => ({
+                        identifier: server.attributes.identifier,
+                        uuid: server.attributes.uuid,
+                        name: server.attributes.name,
+                        description: server.attributes.description || '',
+                        node: server.attributes.node,
+                        allocation: server.attributes.relationships?.allocations?.data?.[0]?.attributes
+                            ? {
+                                ip: server.attributes.relationships.allocations.data[0].attributes.ip,
+                                port: server.attributes.relationships.allocations.data[0].attributes.port,
+                            }
+                            : null,
+                        limits: {
+                            memory: server.attributes.limits.memory,
+                            disk: server.attributes.limits.disk,
+                            cpu: server.attributes.limits.cpu,
+                        },
+                        featureLimits: {
+                            databases: server.attributes.feature_limits.databases,
+                            allocations: server.attributes.feature_limits.allocations,
+                            backups: server.attributes.feature_limits.backups,
+                        },
+                        isSuspended: server.attributes.is_suspended,
+                        isInstalling: server.attributes.is_installing,
+                        capabilities: grants ? grants.get(server.attributes.identifier) : ALL_SERVER_CAPABILITIES,
+                        fullAccess,
+                        panelId: panel.id,
+                        panelName: panel.name,
+                    }));
+
+                servers.push(...mapped);
+            } catch (err: any) {
+                console.error(`Error listing servers on ${panel.name}:`, err);
+                panelErrors.push({
+                    panelId: panel.id,
+                    panelName: panel.name,
+                    error: err instanceof Error ? err.message : 'Connection failed',
+                });
+            }
+        }));
+
+        if (servers.length === 0 && panelErrors.length === panels.length) {
             return NextResponse.json(
-                { error: 'Failed to fetch servers from Pterodactyl' },
-                { status: response.status }
+                { error: 'Failed to fetch servers from Pterodactyl', panelErrors },
+                { status: 502 }
             );
         }
 
-        const data = await response.json();
-
-        // Map server data
-        const servers = (data.data || []).map((server: any) => ({
-            identifier: server.attributes.identifier,
-            uuid: server.attributes.uuid,
-            name: server.attributes.name,
-            description: server.attributes.description || '',
-            node: server.attributes.node,
-            allocation: server.attributes.relationships?.allocations?.data?.[0]?.attributes
-                ? {
-                    ip: server.attributes.relationships.allocations.data[0].attributes.ip,
-                    port: server.attributes.relationships.allocations.data[0].attributes.port,
-                }
-                : null,
-            limits: {
-                memory: server.attributes.limits.memory,
-                disk: server.attributes.limits.disk,
-                cpu: server.attributes.limits.cpu,
-            },
-            featureLimits: {
-                databases: server.attributes.feature_limits.databases,
-                allocations: server.attributes.feature_limits.allocations,
-                backups: server.attributes.feature_limits.backups,
-            },
-            isSuspended: server.attributes.is_suspended,
-            isInstalling: server.attributes.is_installing,
-        }));
+        // Keep panel order, and only the first panel's copy of a repeated identifier
+        // (the same panel getPanelForServer() routes requests to)
+        const panelOrder = panels.map((panel) => panel.id);
+        servers.sort((a, b) => panelOrder.indexOf(a.panelId) - panelOrder.indexOf(b.panelId));
+        const unique = servers.filter((server, index) =>
+            servers.findIndex((other) => other.identifier === server.identifier) === index
+        );
 
         return NextResponse.json({
             success: true,
-            servers,
+            servers: unique,
+            panelErrors,
         });
     } catch (error: any) {
         console.error('Error listing Pterodactyl servers:', error);
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth-guard';
+import { logAudit } from '@/lib/audit-log';
+import { RATE_LIMITS, clearRateLimit, listRateLimits } from '@/lib/rate-limit';
+
+/**
+ * GET /api/admin/rate-limits
+ * Clients currently over a limit. Add all=true for every active counter.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { error } = await requirePermission('admin:settings');
+    if (error) return error;
+
+    const all = request.nextUrl.searchParams.get('all') === 'true';
+    const entries = await listRateLimits(!all);
+
+    return NextResponse.json({
+      entries,
+      policies: Object.entries(RATE_LIMITS).map(([name, policy]) => ({
+        name,
+        limit: policy.limit,
+        windowMs: policy.windowMs,
+      })),
+    });
+  } catch (error: any) {
+    console.error('Error fetching rate limits:', error);
+    return NextResponse.json({ error: 'Failed to fetch rate limits' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/rate-limits?key=<policy>:<identifier>
+ * Clear one counter, or every current block when no key is given
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { error, user } = await requirePermission('admin:settings');
+    if (error) return error;
+
+    const key = request.nextUrl.searchParams.get('key');
+    const keys = key ? [key] : (await listRateLimits(true)).map((entry) => entry.key);
+
+    for (const k of keys) {
+      await clearRateLimit(k);
+    }
+
+    await logAudit({
+      userId: user!.id,
+      action: 'clear_rate_limit',
+      resource: 'rate_limit',
+      resourceId: key,
+      details: key ? undefined : { cleared: keys.length },
+      request,
+    });
+
+    return NextResponse.json({ success: true, cleared: keys.length });
+  } catch (error: any) {
+    console.error('Error clearing rate limit:', error);
+    return NextResponse.json({ error: 'Failed to clear rate limit' }, { status: 500 });
+  }
+}
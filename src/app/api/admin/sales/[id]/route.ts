@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { rankSales } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { requirePermission } from '@/lib/auth-guard';
+import { diffFields, logAudit } from '@/lib/audit-log';
+import { parseRankSaleInput } from '@/lib/promotions';
+
+// Sale fields compared when logging an edit
+const SALE_FIELDS = ['name', 'percentOff', 'rankIds', 'startsAt', 'endsAt', 'active'];
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PUT - Update sale
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error, user } = await requirePermission('ranks:manage');
+    if (error) return error;
+
+    const { id } = await params;
+    const saleId = parseInt(id);
+    const body = await request.json();
+
+    const { values, error: inputError } = parseRankSaleInput(body);
+    if (!values) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    const [before] = await db
+      .select()
+      .from(rankSales)
+      .where(eq(rankSales.id, saleId));
+
+    const [updated] = await db
+      .update(rankSales)
+      .set(values)
+      .where(eq(rankSales.id, saleId))
+      .returning();
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Sale not found' }, { status: 404 });
+    }
+
+    await logAudit({
+      userId: user!.id,
+      action: 'update_rank_sale',
+      resource: 'rank_sale',
+      resourceId: saleId,
+      details: { name: updated.name, changes: diffFields(before, updated, SALE_FIELDS) },
+      request,
+    });
+
+    return NextResponse.json({ success: true, sale: updated });
+  } catch (error: any) {
+    console.error('Error updating sale:', error);
+    return NextResponse.json({ error: 'Failed to update sale' }, { status: 500 });
+  }
+}
+
+// DELETE - Delete sale
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { error, user } = await requirePermission('ranks:manage');
+    if (error) return error;
+
+    const { id } = await params;
+
+    const [deleted] = await db
+      .delete(rankSales)
+      .where(eq(rankSales.id, parseInt(id)))
+      .returning();
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Sale not found' }, { status: 404 });
+    }
+
+    await logAudit({
+      userId: user!.id,
+      action: 'delete_rank_sale',
+      resource: 'rank_sale',
+      resourceId: deleted.id,
+      details: { name: deleted.name },
+      request,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting sale:', error);
+    return NextResponse.json({ error: 'Failed to delete sale' }, { status: 500 });
+  }
+}
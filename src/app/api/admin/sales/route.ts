@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { rankSales } from '@/db/schema';
+import { desc } from 'drizzle-orm';
+import { requirePermission } from '@/lib/auth-guard';
+import { logAudit } from '@/lib/audit-log';
+import { parseRankSaleInput } from '@/lib/promotions';
+
+// GET - List sales
+export async function GET() {
+  try {
+    const { error } = await requirePermission('ranks:manage');
+    if (error) return error;
+
+    const sales = await db
+      .select()
+      .from(rankSales)
+      .orderBy(desc(rankSales.startsAt));
+
+    return NextResponse.json(sales, {
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      }
+    });
+  } catch (error: any) {
+    console.error('Error fetching sales:', error);
+    return NextResponse.json({ error: 'Failed to fetch sales' }, { status: 500 });
+  }
+}
+
+// POST - Schedule a sale
+export async function POST(request: NextRequest) {
+  try {
+    const { error, user } = await requirePermission('ranks:manage');
+    if (error) return error;
+
+    const body = await request.json();
+    const { values, error: inputError } = parseRankSaleInput(body);
+    if (!values) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    const [sale] = await db
+      .insert(rankSales)
+      .values({
+        ...values,
+        createdBy: user!.id,
+        createdAt: new Date(),
+      })
+      .returning();
+
+    await logAudit({
+      userId: user!.id,
+      action: 'create_rank_sale',
+      resource: 'rank_sale',
+      resourceId: sale.id,
+      details: { name: sale.name, percentOff: sale.percentOff, startsAt: sale.startsAt, endsAt: sale.endsAt },
+      request,
+    });
+
+    return NextResponse.json({ success: true, sale });
+  } catch (error: any) {
+    console.error('Error creating sale:', error);
+    return NextResponse.json({ error: 'Failed to create sale' }, { status: 500 });
+  }
+}
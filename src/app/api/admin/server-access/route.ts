@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hasPermission, requirePermission } from '@/lib/auth-guard';
+import { logAudit } from '@/lib/audit-log';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { listAllServers } from '@/lib/pterodactyl';
+import {
+  SERVER_CAPABILITIES,
+  listServerGrants,
+  normalizeCapabilities,
+  revokeServerGrant,
+  saveServerGrant,
+} from '@/lib/server-access';
+
+/**
+ * GET /api/admin/server-access
+ * Every delegated server access grant, the capabilities that can be granted
+ * and the Pterodactyl servers to choose from
+ */
+export async function GET() {
+  try {
+    const { error } = await requirePermission('servers:grant');
+    if (error) return error;
+
+    const [grants, { servers }] = await Promise.all([
+      listServerGrants(),
+      listAllServers(),
+    ]);
+
+    return NextResponse.json({
+      grants,
+      servers: servers.map((server) => ({
+        identifier: server.identifier,
+        name: server.name,
+        panelName: server.panelName,
+      })),
+      capabilities: Object.entries(SERVER_CAPABILITIES).map(([id, info]) => ({
+        id,
+        label: info.label,
+        description: info.description,
+      })),
+    });
+  } catch (error: any) {
+    console.error('Error fetching server access grants:', error);
+    return NextResponse.json({ error: 'Failed to fetch server access' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/server-access
+ * Grant a user capabilities on a server, replacing any existing grant for the
+ * same user and server
+ * Body: username, serverIdentifier, serverName, capabilities[], mirrorToPanel
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { error, user } = await requirePermission('servers:grant');
+    if (error) return error;
+
+    const body = await request.json();
+    const username = typeof body.username === 'string' ? body.username.trim() : '';
+    const serverIdentifier = typeof body.serverIdentifier === 'string' ? body.serverIdentifier.trim() : '';
+    const capabilities = normalizeCapabilities(body.capabilities);
+
+    if (!username || !serverIdentifier) {
+      return NextResponse.json({ error: 'Username and server are required' }, { status: 400 });
+    }
+    if (capabilities.length === 0) {
+      return NextResponse.json({ error: 'Choose at least one capability' }, { status: 400 });
+    }
+
+    const [target] = await db
+      .select({ id: users.id, username: users.username, role: users.role })
+      .from(users)
+      .where(eq(users.username, username))
+      .limit(1);
+
+    if (!target) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    if (hasPermission(target.role, 'servers:write')) {
+      return NextResponse.json(
+        { error: `${target.username} already has full access to every server` },
+        { status: 400 }
+      );
+    }
+
+    const result = await saveServerGrant({
+      userId: target.id,
+      serverIdentifier,
+      serverName: typeof body.serverName === 'string' ? body.serverName : null,
+      capabilities,
+      mirrorToPanel: Boolean(body.mirrorToPanel),
+      grantedBy: parseInt(user!.id),
+    });
+
+    await logAudit({
+      userId: user!.id,
+      action: 'server_access_grant',
+      resource: 'server',
+      resourceId: serverIdentifier,
+      details: {
+        grantId: result.id,
+        username: target.username,
+        capabilities,
+        mirrorToPanel: Boolean(body.mirrorToPanel),
+        created: result.created,
+      },
+      request,
+    });
+
+    return NextResponse.json({ success: true, id: result.id });
+  } catch (error: any) {
+    console.error('Error granting server access:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to grant server access' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/server-access?id=<grantId>
+ * Revoke a grant and remove its Pterodactyl subuser
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { error, user } = await requirePermission('servers:grant');
+    if (error) return error;
+
+    const id = parseInt(request.nextUrl.searchParams.get('id') || '', 10);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'Invalid grant ID' }, { status: 400 });
+    }
+
+    const grant = await revokeServerGrant(id);
+    if (!grant) {
+      return NextResponse.json({ error: 'Grant not found' }, { status: 404 });
+    }
+
+    await logAudit({
+      userId: user!.id,
+      action: 'server_access_revoke',
+      resource: 'server',
+      resourceId: grant.serverIdentifier,
+      details: { grantId: grant.id, userId: grant.userId },
+      request,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error revoking server access:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to revoke server access' },
+      { status: 500 }
+    );
+  }
+}
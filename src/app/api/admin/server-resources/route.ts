@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth-guard';
+import { db } from '@/db';
+import { servers } from '@/db/schema';
+import { and, asc, isNotNull, ne } from 'drizzle-orm';
+import {
+  RESOURCE_ALERT_RULES,
+  getResourceHistory,
+  isResourceRange,
+  listResourceAlerts,
+} from '@/lib/server-resources';
+
+/**
+ * GET /api/admin/server-resources
+ * Resource usage history and alerts for servers linked to Pterodactyl
+ * Query: serverId (defaults to the first linked server), range (24h, 7d or 30d)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { error } = await requirePermission('servers:read');
+    if (error) return error;
+
+    const { searchParams } = new URL(request.url);
+    const range = searchParams.get('range') || '24h';
+    if (!isResourceRange(range)) {
+      return NextResponse.json({ error: 'Range must be 24h, 7d or 30d' }, { status: 400 });
+    }
+
+    const linkedServers = await db
+      .select({ id: servers.id, name: servers.name })
+      .from(servers)
+      .where(and(isNotNull(servers.pterodactylServerId), ne(servers.pterodactylServerId, '')))
+      .orderBy(asc(servers.orderIndex));
+
+    const serverId = parseInt(searchParams.get('serverId') || '') || linkedServers[0]?.id;
+    if (!serverId) {
+      return NextResponse.json({ servers: [], history: null, alerts: [], rules: RESOURCE_ALERT_RULES });
+    }
+
+    if (!linkedServers.some((server: { id: number }) => server.id === serverId)) {
+      return NextResponse.json({ error: 'Server is not linked to Pterodactyl' }, { status: 404 });
+    }
+
+    const [history, alerts] = await Promise.all([
+      getResourceHistory(serverId, range),
+      listResourceAlerts({ serverId, limit: 20 }),
+    ]);
+
+    return NextResponse.json({
+      servers: linkedServers,
+      serverId,
+      range,
+      history,
+      alerts,
+      rules: RESOURCE_ALERT_RULES,
+    });
+  } catch (error: any) {
+    console.error('Error fetching server resources:', error);
+    return NextResponse.json({ error: 'Failed to fetch server resources' }, { status: 500 });
+  }
+}
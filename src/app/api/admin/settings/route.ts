@@ -3,6 +3,7 @@ import { auth } from '../../../../../auth';
 import { db } from '@/db';
 import { siteSettings } from '@/db/schema';
 import { eq } from 'drizzle-orm';
+import { logAudit, maskSecret } from '@/lib/audit-log';
 
 async function requireAdmin() {
   const session = await auth();
@@ -87,6 +88,7 @@ export async function GET(request: NextRequest) {
       smtpAdminNotifyErrors: settingsObject['smtp_admin_notify_errors'] === true,
       smtpAdminNotifyDonations: settingsObject['smtp_admin_notify_donations'] === true,
       smtpAdminNotifyRegistrations: settingsObject['smtp_admin_notify_registrations'] === true,
+      smtpAdminNotifyServerAlerts: settingsObject['smtp_admin_notify_server_alerts'] === true,
       // Notification settings
       notifications: settingsObject['notifications'] || {
         emailNotifications: true,
@@ -115,7 +117,7 @@ export async function GET(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
-    await requireAdmin();
+    const user = await requireAdmin();
 
     const body = await request.json();
 
@@ -162,10 +164,15 @@ export async function PUT(request: NextRequest) {
       smtpAdminNotifyErrors: { dbKey: 'smtp_admin_notify_errors', category: 'email', isPublic: false },
       smtpAdminNotifyDonations: { dbKey: 'smtp_admin_notify_donations', category: 'email', isPublic: false },
       smtpAdminNotifyRegistrations: { dbKey: 'smtp_admin_notify_registrations', category: 'email', isPublic: false },
+      smtpAdminNotifyServerAlerts: { dbKey: 'smtp_admin_notify_server_alerts', category: 'email', isPublic: false },
       // Notification settings (stored as JSON)
       notifications: { dbKey: 'notifications', category: 'notifications', isPublic: false, isJson: true },
     };
 
+    const existing = await db.select().from(siteSettings);
+    const previous = new Map<string, string | null>(existing.map((setting: any) => [setting.key, setting.value]));
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+
     // Upsert each setting
     for (const [frontendKey, value] of Object.entries(body)) {
       const mapping = keyMapping[frontendKey];
@@ -178,6 +185,13 @@ export async function PUT(request: NextRequest) {
         ? JSON.stringify(value)
         : (typeof value === 'boolean' ? String(value) : String(value));
 
+      const before = previous.get(mapping.dbKey) ?? null;
+      if (before === stringValue) continue;
+      changes[mapping.dbKey] = {
+        from: maskSecret(mapping.dbKey, before),
+        to: maskSecret(mapping.dbKey, stringValue),
+      };
+
       // Try to update first
       const result = await db
         .update(siteSettings)
@@ -211,6 +225,16 @@ export async function PUT(request: NextRequest) {
     clearKofiConfigCache();
     clearSquareConfigCache();
 
+    if (Object.keys(changes).length > 0) {
+      await logAudit({
+        userId: user.id,
+        action: 'update_settings',
+        resource: 'settings',
+        details: { changes },
+        request,
+      });
+    }
+
     return NextResponse.json({ success: true });
   } catch (error: any) {
     if (error.message === 'Unauthorized') {
@@ -226,7 +250,7 @@ export async function PUT(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    await requireAdmin();
+    const user = await requireAdmin();
 
     const body = await request.json();
     const { key, value, category, description, isPublic } = body;
@@ -248,6 +272,15 @@ export async function POST(request: NextRequest) {
       updatedAt: new Date(),
     });
 
+    await logAudit({
+      userId: user.id,
+      action: 'create_setting',
+      resource: 'settings',
+      resourceId: key,
+      details: { category, value: maskSecret(key, value) },
+      request,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error: any) {
     if (error.message === 'Unauthorized') {
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth-guard';
+import { sanitizeInt } from '@/lib/sanitize';
+import {
+    getTicketLifecycleSettings,
+    saveTicketLifecycleSettings,
+    parseWorkingHours,
+} from '@/lib/ticket-lifecycle';
+
+/**
+ * GET /api/admin/ticket-settings
+ * Get stale/auto-close thresholds, working hours and SLA targets
+ */
+export async function GET() {
+    try {
+        const { error } = await requirePermission('admin:settings');
+        if (error) return error;
+
+        return NextResponse.json(await getTicketLifecycleSettings());
+    } catch (error: any) {
+        console.error('Error fetching ticket settings:', error);
+        return NextResponse.json({ error: 'Failed to fetch ticket settings' }, { status: 500 });
+    }
+}
+
+/**
+ * PUT /api/admin/ticket-settings
+ * Update ticket lifecycle settings. Empty values turn a feature off.
+ */
+export async function PUT(request: NextRequest) {
+    try {
+        const { error } = await requirePermission('admin:settings');
+        if (error) return error;
+
+        const body = await request.json();
+
+        // Up to a year; 0 or blank disables
+        const hours = (value: any) => sanitizeInt(value, 0, 8760) || null;
+
+        let workingHours;
+        try {
+            workingHours = parseWorkingHours(body.workingHours);
+        } catch (parseError: any) {
+            return NextResponse.json({ error: parseError.message || 'Invalid working hours' }, { status: 400 });
+        }
+
+        const settings = {
+            staleHours: hours(body.staleHours),
+            autoCloseHours: hours(body.autoCloseHours),
+            workingHours,
+            slaFirstResponseHours: hours(body.slaFirstResponseHours),
+            slaResolutionHours: hours(body.slaResolutionHours),
+        };
+
+        if (settings.staleHours && settings.autoCloseHours && settings.staleHours >= settings.autoCloseHours) {
+            return NextResponse.json(
+                { error: 'Stale reminders must happen before tickets are auto-closed' },
+                { status: 400 }
+            );
+        }
+
+        await saveTicketLifecycleSettings(settings);
+
+        return NextResponse.json(settings);
+    } catch (error: any) {
+        console.error('Error updating ticket settings:', error);
+        return NextResponse.json({ error: 'Failed to update ticket settings' }, { status: 500 });
+    }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../auth';
+import { db } from '@/db';
+import { ticketTags, ticketCategories } from '@/db/schema';
+import { eq, asc } from 'drizzle-orm';
+import { TAG_VARIABLES } from '@/lib/ticket-tags';
+
+/**
+ * GET /api/admin/ticket-tags
+ * Get all canned responses, the categories they can be scoped to and the supported variables
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const session = await auth();
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = session.user as any;
+        if (!['admin', 'superadmin'].includes(user.role)) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const tags = await db
+            .select()
+            .from(ticketTags)
+            .orderBy(asc(ticketTags.name));
+
+        const categories = await db
+            .select({ id: ticketCategories.id, name: ticketCategories.name, emoji: ticketCategories.emoji })
+            .from(ticketCategories)
+            .orderBy(asc(ticketCategories.order));
+
+        return NextResponse.json({ tags, categories, variables: TAG_VARIABLES });
+    } catch (error: any) {
+        console.error('Error fetching ticket tags:', error);
+        return NextResponse.json({ error: 'Failed to fetch tags' }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/admin/ticket-tags
+ * Create a new canned response
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const session = await auth();
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = session.user as any;
+        if (!['admin', 'superadmin'].includes(user.role)) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const body = await request.json();
+        const { name, content, emoji, categoryId, staffOnly, enabled } = body;
+
+        if (!name?.trim() || !content?.trim()) {
+            return NextResponse.json({ error: 'Name and content are required' }, { status: 400 });
+        }
+
+        const [tag] = await db.insert(ticketTags).values({
+            name: name.trim(),
+            content,
+            emoji: emoji || '📝',
+            categoryId: categoryId || null,
+            staffOnly: staffOnly !== false,
+            enabled: enabled !== false,
+        }).returning();
+
+        return NextResponse.json({ success: true, tag });
+    } catch (error: any) {
+        console.error('Error creating ticket tag:', error);
+        return NextResponse.json({ error: 'Failed to create tag' }, { status: 500 });
+    }
+}
+
+/**
+ * PUT /api/admin/ticket-tags
+ * Update a canned response
+ */
+export async function PUT(request: NextRequest) {
+    try {
+        const session = await auth();
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = session.user as any;
+        if (!['admin', 'superadmin'].includes(user.role)) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const body = await request.json();
+        const { id, ...data } = body;
+
+        if (!id) {
+            return NextResponse.json({ error: 'Tag ID is required' }, { status: 400 });
+        }
+
+        const updateData: any = { updatedAt: new Date() };
+
+        if (data.name !== undefined) updateData.name = data.name.trim();
+        if (data.content !== undefined) updateData.content = data.content;
+        if (data.emoji !== undefined) updateData.emoji = data.emoji;
+        if (data.categoryId !== undefined) updateData.categoryId = data.categoryId || null;
+        if (data.staffOnly !== undefined) updateData.staffOnly = data.staffOnly;
+        if (data.enabled !== undefined) updateData.enabled = data.enabled;
+
+        if (updateData.name === '' || updateData.content?.trim() === '') {
+            return NextResponse.json({ error: 'Name and content are required' }, { status: 400 });
+        }
+
+        const [tag] = await db
+            .update(ticketTags)
+            .set(updateData)
+            .where(eq(ticketTags.id, id))
+            .returning();
+
+        return NextResponse.json({ success: true, tag });
+    } catch (error: any) {
+        console.error('Error updating ticket tag:', error);
+        return NextResponse.json({ error: 'Failed to update tag' }, { status: 500 });
+    }
+}
+
+/**
+ * DELETE /api/admin/ticket-tags
+ * Delete a canned response
+ */
+export async function DELETE(request: NextRequest) {
+    try {
+        const session = await auth();
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = session.user as any;
+        if (!['admin', 'superadmin'].includes(user.role)) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const { searchParams } = new URL(request.url);
+        const id = searchParams.get('id');
+
+        if (!id) {
+            return NextResponse.json({ error: 'Tag ID is required' }, { status: 400 });
+        }
+
+        await db.delete(ticketTags).where(eq(ticketTags.id, parseInt(id)));
+
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        console.error('Error deleting ticket tag:', error);
+        return NextResponse.json({ error: 'Failed to delete tag' }, { status: 500 });
+    }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../../../auth';
+import { db } from '@/db';
+import { users, auditLogs } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { disableTwoFactor } from '@/lib/two-factor';
+
+/**
+ * Require admin role
+ */
+async function requireAdmin() {
+    const session = await auth();
+    const user = session?.user as any;
+
+    if (!session || !['admin', 'superadmin'].includes(user?.role)) {
+        throw new Error('Unauthorized');
+    }
+
+    return user;
+}
+
+/**
+ * POST /api/admin/users/[id]/reset-two-factor
+ * Remove two-factor authentication from a user's account (admin only),
+ * e.g. when they have lost both their authenticator and recovery codes.
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const admin = await requireAdmin();
+        const { id } = await params;
+        const userId = parseInt(id);
+
+        if (isNaN(userId)) {
+            return NextResponse.json({ error: 'Invalid user ID' }, { status: 400 });
+        }
+
+        const [targetUser] = await db
+            .select()
+            .from(users)
+            .where(eq(users.id, userId));
+
+        if (!targetUser) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        // Prevent non-superadmins from weakening superadmin accounts
+        if (targetUser.role === 'superadmin' && admin.role !== 'superadmin') {
+            return NextResponse.json(
+                { error: 'Only superadmins can reset superadmin two-factor authentication' },
+                { status: 403 }
+            );
+        }
+
+        if (!targetUser.twoFactorEnabled && !targetUser.twoFactorSecret) {
+            return NextResponse.json(
+                { error: 'User does not have two-factor authentication enabled' },
+                { status: 400 }
+            );
+        }
+
+        await disableTwoFactor(userId);
+
+        await db.insert(auditLogs).values({
+            userId: admin.id,
+            action: 'reset_two_factor',
+            resource: 'user',
+            resourceId: userId.toString(),
+            details: JSON.stringify({ username: targetUser.username }),
+        });
+
+        console.log(`Admin ${admin.username} reset 2FA for user ${targetUser.username} (ID: ${userId})`);
+
+        return NextResponse.json({
+            success: true,
+            message: 'Two-factor authentication has been reset',
+        });
+    } catch (error: any) {
+        if (error.message === 'Unauthorized') {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+        }
+        console.error('Error resetting two-factor authentication:', error);
+        return NextResponse.json({ error: 'Failed to reset two-factor authentication' }, { status: 500 });
+    }
+}
@@ -3,6 +3,7 @@ import { auth } from '../../../../../../auth';
 import { db } from '@/db';
 import { users } from '@/db/schema';
 import { eq, sql } from 'drizzle-orm';
+import { diffFields, logAudit } from '@/lib/audit-log';
 
 async function requireAdmin() {
     const session = await auth();
@@ -35,8 +36,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             return NextResponse.json({ error: 'User not found' }, { status: 404 });
         }
 
-        // Don't return password
-        const { password, ...userData } = user;
+        // Don't return password or 2FA secrets
+        const { password, twoFactorSecret, twoFactorRecoveryCodes, ...userData } = user;
         return NextResponse.json(userData);
     } catch (error: any) {
         if (error instanceof Error && error.message === 'Unauthorized') {
@@ -96,6 +97,8 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         if (totalDonated !== undefined) updateData.totalDonated = parseFloat(totalDonated) || 0;
         if (subscriptionStatus !== undefined) updateData.subscriptionStatus = subscriptionStatus || null;
 
+        const [before] = await db.select().from(users).where(eq(users.id, userId));
+
         const [updated] = await db
             .update(users)
             .set(updateData)
@@ -106,7 +109,32 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
             return NextResponse.json({ error: 'User not found' }, { status: 404 });
         }
 
-        const { password, ...userData } = updated;
+        if (before && before.role !== updated.role) {
+            await logAudit({
+                userId: adminUser.id,
+                action: 'change_role',
+                resource: 'user',
+                resourceId: userId,
+                details: { username: updated.username, from: before.role, to: updated.role },
+                request,
+            });
+        }
+
+        const changes = diffFields(before, updated, [
+            'email', 'minecraftUsername', 'donationRankId', 'rankExpiresAt', 'totalDonated', 'subscriptionStatus',
+        ]);
+        if (Object.keys(changes).length > 0) {
+            await logAudit({
+                userId: adminUser.id,
+                action: 'update_user',
+                resource: 'user',
+                resourceId: userId,
+                details: { username: updated.username, changes },
+                request,
+            });
+        }
+
+        const { password, twoFactorSecret, twoFactorRecoveryCodes, ...userData } = updated;
         return NextResponse.json({ success: true, user: userData });
     } catch (error: any) {
         if (error instanceof Error && error.message === 'Unauthorized') {
@@ -152,6 +180,15 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
 
         await db.delete(users).where(eq(users.id, userId));
 
+        await logAudit({
+            userId: adminUser.id,
+            action: 'delete_user',
+            resource: 'user',
+            resourceId: userId,
+            details: { username: targetUser.username, role: targetUser.role },
+            request,
+        });
+
         return NextResponse.json({ success: true });
     } catch (error: any) {
         if (error instanceof Error && error.message === 'Unauthorized') {
@@ -68,11 +68,16 @@ export async function GET(request: NextRequest) {
         createdAt: users.createdAt,
         lastLoginAt: users.lastLoginAt,
         emailVerified: users.emailVerified,
+        twoFactorEnabled: users.twoFactorEnabled,
         // Donation rank fields
         donationRankId: users.donationRankId,
         rankExpiresAt: users.rankExpiresAt,
         totalDonated: users.totalDonated,
         subscriptionStatus: users.subscriptionStatus,
+        rankPaused: users.rankPaused,
+        pausedRankId: users.pausedRankId,
+        pausedRemainingDays: users.pausedRemainingDays,
+        pausedAt: users.pausedAt,
       })
       .from(users)
       .where(whereClause)
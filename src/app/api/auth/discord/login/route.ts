@@ -39,6 +39,16 @@ export async function GET(request: Request) {
             return NextResponse.redirect(new URL(`/login?error=${encodeURIComponent(result.error)}`, origin));
         }
 
+        // Accounts with 2FA enabled finish signing in on the login form
+        const resultUrl = typeof result === 'string' ? new URL(result, origin) : null;
+        if (resultUrl?.searchParams.get('code') === 'two_factor_required') {
+            const loginUrl = new URL('/login', origin);
+            loginUrl.searchParams.set('twoFactor', 'discord');
+            loginUrl.searchParams.set('discordId', discordId);
+            loginUrl.searchParams.set('callbackUrl', callbackUrl);
+            return NextResponse.redirect(loginUrl);
+        }
+
         // Redirect to the callback URL on success
         return NextResponse.redirect(new URL(callbackUrl, origin));
     } catch (error: any) {
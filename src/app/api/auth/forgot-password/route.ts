@@ -4,6 +4,7 @@ import { users, passwordResetTokens } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import { randomBytes } from 'crypto';
 import { sendEmail } from '@/lib/email';
+import { enforceRateLimit } from '@/lib/rate-limit';
 
 /**
  * POST /api/auth/forgot-password
@@ -11,6 +12,9 @@ import { sendEmail } from '@/lib/email';
  */
 export async function POST(request: NextRequest) {
   try {
+    const limited = await enforceRateLimit(request, 'forgot-password');
+    if (limited.response) return limited.response;
+
     const body = await request.json();
     const { email } = body;
 
@@ -33,7 +37,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({
         success: true,
         message: 'If an account with that email exists, a password reset link has been sent.',
-      });
+      }, { headers: limited.headers });
     }
 
     // Generate reset token
@@ -106,7 +110,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       message: 'If an account with that email exists, a password reset link has been sent.',
-    });
+    }, { headers: limited.headers });
   } catch (error: any) {
     console.error('Error in forgot password:', error);
     return NextResponse.json({ error: 'Failed to process request' }, { status: 500 });
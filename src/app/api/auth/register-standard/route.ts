@@ -4,29 +4,7 @@ import { db } from '@/db';
 import { users, siteSettings } from '@/db/schema';
 import { eq, sql } from 'drizzle-orm';
 import { sendAdminNewUserAlert } from '@/lib/email';
-
-// Rate limiting
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-
-function checkRateLimit(ip: string): boolean {
-    const now = Date.now();
-    const windowMs = 60 * 60 * 1000; // 1 hour
-    const maxRequests = 100; // 100 registrations per hour per IP
-
-    const record = rateLimitMap.get(ip);
-
-    if (!record || now > record.resetTime) {
-        rateLimitMap.set(ip, { count: 1, resetTime: now + windowMs });
-        return true;
-    }
-
-    if (record.count >= maxRequests) {
-        return false;
-    }
-
-    record.count++;
-    return true;
-}
+import { enforceRateLimit } from '@/lib/rate-limit';
 
 /**
  * POST /api/auth/register-standard
@@ -49,15 +27,8 @@ export async function POST(request: NextRequest) {
         }
 
         // Rate limiting
-        const ip = request.headers.get('x-forwarded-for') ||
-            request.headers.get('x-real-ip') || 'unknown';
-
-        if (!checkRateLimit(ip)) {
-            return NextResponse.json(
-                { error: 'Too many registration attempts. Please try again later.' },
-                { status: 429 }
-            );
-        }
+        const limited = await enforceRateLimit(request, 'register-standard');
+        if (limited.response) return limited.response;
 
         const body = await request.json();
         const { username, email, password, minecraftUsername, avatar } = body;
@@ -194,7 +165,7 @@ export async function POST(request: NextRequest) {
                 id: newUser.id,
                 username: newUser.username,
             },
-        });
+        }, { headers: limited.headers });
 
     } catch (error: any) {
         console.error('Standard registration error:', error);
@@ -5,42 +5,14 @@ import { users, registrationCodes } from '@/db/schema';
 import { eq, and, sql } from 'drizzle-orm';
 import { sendAdminNewUserAlert } from '@/lib/email';
 import { sanitizeEmail, sanitizeForDb } from '@/lib/sanitize';
-
-// Rate limiting
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-
-function checkRateLimit(ip: string): boolean {
-  const now = Date.now();
-  const windowMs = 60 * 60 * 1000; // 1 hour
-  const maxRequests = 1000; // 1000 registrations per hour per IP (very generous for high traffic)
-
-  const record = rateLimitMap.get(ip);
-
-  if (!record || now > record.resetTime) {
-    rateLimitMap.set(ip, { count: 1, resetTime: now + windowMs });
-    return true;
-  }
-
-  if (record.count >= maxRequests) {
-    return false;
-  }
-
-  record.count++;
-  return true;
-}
+import { claimPendingGifts } from '@/lib/rank-gifts';
+import { enforceRateLimit } from '@/lib/rate-limit';
 
 export async function POST(request: NextRequest) {
   try {
     // Rate limiting
-    const ip = request.headers.get('x-forwarded-for') ||
-      request.headers.get('x-real-ip') || 'unknown';
-
-    if (!checkRateLimit(ip)) {
-      return NextResponse.json(
-        { error: 'Too many registration attempts. Please try again later.' },
-        { status: 429 }
-      );
-    }
+    const limited = await enforceRateLimit(request, 'register');
+    if (limited.response) return limited.response;
 
     const body = await request.json();
 
@@ -205,6 +177,9 @@ export async function POST(request: NextRequest) {
       })
       .where(eq(registrationCodes.id, code.id));
 
+    // Hand over any ranks gifted to this player before they had an account
+    await claimPendingGifts(finalUser.id, code.minecraftUuid);
+
     // Send admin notification for new registration (async, don't wait)
     sendAdminNewUserAlert(finalUser.username, email || undefined)
       .catch(err => console.error('Failed to send admin new user alert:', err));
@@ -216,7 +191,7 @@ export async function POST(request: NextRequest) {
         ? 'Minecraft account linked successfully! Your password has been updated.'
         : 'Account created successfully',
       user: finalUser,
-    });
+    }, { headers: limited.headers });
 
   } catch (error: any) {
     console.error('Registration error:', error);
@@ -3,6 +3,7 @@ import { db } from '@/db';
 import { users, passwordResetTokens } from '@/db/schema';
 import { eq, and, gt } from 'drizzle-orm';
 import bcrypt from 'bcryptjs';
+import { enforceRateLimit } from '@/lib/rate-limit';
 
 /**
  * POST /api/auth/reset-password
@@ -10,6 +11,9 @@ import bcrypt from 'bcryptjs';
  */
 export async function POST(request: NextRequest) {
     try {
+        const limited = await enforceRateLimit(request, 'reset-password');
+        if (limited.response) return limited.response;
+
         const body = await request.json();
         const { token, newPassword } = body;
 
@@ -67,7 +71,7 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({
             success: true,
             message: 'Password has been reset successfully. You can now log in.',
-        });
+        }, { headers: limited.headers });
     } catch (error: any) {
         console.error('Error resetting password:', error);
         return NextResponse.json({ error: 'Failed to reset password' }, { status: 500 });
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { refreshAllLeaderboards } from '@/lib/leaderboards';
+import { db } from '@/db';
+import { siteSettings } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+
+/**
+ * GET /api/cron/refresh-leaderboards
+ * Cron job to rebuild the cached leaderboard snapshots
+ * Should be called every 10 minutes
+ *
+ * Authentication: ?secret=<CRON_SECRET> or Authorization header
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Get cron secret from database first, fallback to env var
+    const [dbSecret] = await db
+      .select()
+      .from(siteSettings)
+      .where(eq(siteSettings.key, 'cron_secret'));
+
+    const CRON_SECRET = dbSecret?.value || process.env.CRON_SECRET;
+
+    // Verify cron secret - multiple methods for flexibility
+    const authHeader = request.headers.get('authorization');
+    const cronSecretHeader = request.headers.get('x-cron-secret');
+    const vercelCronHeader = request.headers.get('x-vercel-cron');
+    const secretParam = request.nextUrl.searchParams.get('secret');
+
+    const isAuthorized = !CRON_SECRET || // Allow if no secret configured
+      authHeader === `Bearer ${CRON_SECRET}` ||
+      cronSecretHeader === CRON_SECRET ||
+      secretParam === CRON_SECRET ||
+      vercelCronHeader !== null;
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await refreshAllLeaderboards();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error('Error in refresh-leaderboards cron:', error);
+    return NextResponse.json(
+      { error: 'Failed to refresh leaderboards' },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for flexibility
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
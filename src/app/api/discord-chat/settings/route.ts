@@ -3,6 +3,7 @@ import { auth } from '../../../../../auth';
 import { db } from '@/db';
 import { siteSettings } from '@/db/schema';
 import { eq, inArray } from 'drizzle-orm';
+import { logAudit, maskSecret } from '@/lib/audit-log';
 
 const ALL_DISCORD_SETTINGS = [
     'discord_chat_enabled',
@@ -308,12 +309,21 @@ export async function PATCH(request: NextRequest) {
         }
 
         // Upsert each setting
+        const changes: Record<string, { from: unknown; to: unknown }> = {};
+
         for (const update of updates) {
             const [existing] = await db
                 .select()
                 .from(siteSettings)
                 .where(eq(siteSettings.key, update.key));
 
+            if ((existing?.value ?? null) !== update.value) {
+                changes[update.key] = {
+                    from: maskSecret(update.key, existing?.value ?? null),
+                    to: maskSecret(update.key, update.value),
+                };
+            }
+
             if (existing) {
                 await db
                     .update(siteSettings)
@@ -337,6 +347,16 @@ export async function PATCH(request: NextRequest) {
             }
         }
 
+        if (Object.keys(changes).length > 0) {
+            await logAudit({
+                userId: session.user.id,
+                action: 'update_settings',
+                resource: 'settings',
+                details: { changes },
+                request,
+            });
+        }
+
         return NextResponse.json({ success: true });
     } catch (error: any) {
         console.error('Error updating discord chat settings:', error);
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { discordMessages } from '@/db/schema';
 import { eq } from 'drizzle-orm';
+import { requireApiKey } from '@/lib/api-keys';
 
 /**
  * POST /api/discord-chat/webhook
@@ -9,9 +10,13 @@ import { eq } from 'drizzle-orm';
  * 
  * This endpoint is called by a Discord bot running elsewhere
  * to sync messages from Discord to the website
+ * Needs a chat key that isn't bound to a server
  */
 export async function POST(request: NextRequest) {
     try {
+        const auth = await requireApiKey(request, 'chat', { serverId: null });
+        if (auth.response) return auth.response;
+
         const body = await request.json();
         const { type, message } = body;
 
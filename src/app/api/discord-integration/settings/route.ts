@@ -3,6 +3,7 @@ import { auth } from '../../../../../auth';
 import { db } from '@/db';
 import { siteSettings } from '@/db/schema';
 import { eq, inArray } from 'drizzle-orm';
+import { logAudit, maskSecret } from '@/lib/audit-log';
 
 /**
  * GET /api/discord-integration/settings
@@ -89,8 +90,22 @@ export async function PATCH(request: NextRequest) {
             });
         }
 
+        const previous = updates.length > 0
+            ? await db.select().from(siteSettings).where(inArray(siteSettings.key, updates.map((u) => u.key)))
+            : [];
+        const previousValues = new Map<string, string | null>(previous.map((setting: any) => [setting.key, setting.value]));
+        const changes: Record<string, { from: unknown; to: unknown }> = {};
+
         // Update or insert settings
         for (const update of updates) {
+            const before = previousValues.get(update.key) ?? null;
+            if (before !== update.value) {
+                changes[update.key] = {
+                    from: maskSecret(update.key, before),
+                    to: maskSecret(update.key, update.value),
+                };
+            }
+
             await db
                 .insert(siteSettings)
                 .values({
@@ -111,6 +126,16 @@ export async function PATCH(request: NextRequest) {
                 });
         }
 
+        if (Object.keys(changes).length > 0) {
+            await logAudit({
+                userId: session.user.id,
+                action: 'update_settings',
+                resource: 'settings',
+                details: { changes },
+                request,
+            });
+        }
+
         // Re-register slash commands if guild ID changed
         if (body.guildId) {
             try {
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getActiveGoalProgress } from '@/lib/donation-goals';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/donation-goals
+ * Public progress of running donation goals, for the site widgets, in-game
+ * plugins and Discord bots. Pass ?id= for a single goal.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const goals = await getActiveGoalProgress();
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (id) {
+      const goal = goals.find((g) => g.id === parseInt(id));
+      if (!goal) {
+        return NextResponse.json({ error: 'Goal not found' }, { status: 404 });
+      }
+      return NextResponse.json(goal);
+    }
+
+    return NextResponse.json({ goals });
+  } catch (error: any) {
+    console.error('Error fetching donation goals:', error);
+    return NextResponse.json({ error: 'Failed to fetch donation goals' }, { status: 500 });
+  }
+}
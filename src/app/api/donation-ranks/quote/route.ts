@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../auth';
+import { db } from '@/db';
+import { donationRanks } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { quoteRankPurchase } from '@/lib/promotions';
+
+/**
+ * POST /api/donation-ranks/quote
+ * Price a rank purchase with any running sale and promo code, so the donate
+ * page can show what checkout will charge
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    const user = session?.user as any;
+
+    if (!user) {
+      return NextResponse.json({ error: 'Please log in to purchase a rank' }, { status: 401 });
+    }
+
+    const { rankId, days = 30, promoCode } = await request.json();
+
+    const [rank] = await db
+      .select()
+      .from(donationRanks)
+      .where(eq(donationRanks.id, rankId))
+      .limit(1);
+
+    if (!rank) {
+      return NextResponse.json({ error: 'Rank not found' }, { status: 404 });
+    }
+
+    const rankDays = parseInt(days);
+    if (!rankDays || rankDays < 1) {
+      return NextResponse.json({ error: 'Invalid duration' }, { status: 400 });
+    }
+
+    const { quote, error } = await quoteRankPurchase({
+      rank,
+      days: rankDays,
+      userId: parseInt(user.id),
+      promoCode,
+    });
+
+    if (!quote) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    return NextResponse.json(quote);
+  } catch (error: any) {
+    console.error('Error quoting rank purchase:', error);
+    return NextResponse.json({ error: 'Failed to price rank' }, { status: 500 });
+  }
+}
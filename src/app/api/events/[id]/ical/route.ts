@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { events } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { buildICalendar } from '@/lib/ical';
+
+/**
+ * GET /api/events/[id]/ical
+ * Download a single event as an .ics file
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const eventId = parseInt(id);
+
+    if (isNaN(eventId)) {
+      return NextResponse.json({ error: 'Invalid event ID' }, { status: 400 });
+    }
+
+    const [event] = await db
+      .select()
+      .from(events)
+      .where(eq(events.id, eventId));
+
+    if (!event) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    const slug = event.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'event';
+
+    return new NextResponse(buildICalendar([event], baseUrl), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${slug}.ics"`,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error generating event .ics:', error);
+    return NextResponse.json({ error: 'Failed to generate calendar file' }, { status: 500 });
+  }
+}
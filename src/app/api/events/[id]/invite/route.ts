@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../../auth';
+import { db } from '@/db';
+import { events, friendships } from '@/db/schema';
+import { and, eq, or } from 'drizzle-orm';
+import { notifyEventInvite } from '@/lib/notifications';
+
+const MAX_INVITES_PER_REQUEST = 25;
+
+/**
+ * POST /api/events/[id]/invite
+ * Invite friends to an event
+ * Body: { userIds: number[] }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const eventId = parseInt(id);
+    const userId = parseInt(session.user.id as string);
+
+    const body = await request.json();
+    const userIds: number[] = Array.isArray(body.userIds)
+      ? [...new Set<number>(body.userIds.map((v: any) => parseInt(v)).filter((v: number) => !isNaN(v) && v !== userId))]
+      : [];
+
+    if (userIds.length === 0) {
+      return NextResponse.json({ error: 'Select at least one friend to invite' }, { status: 400 });
+    }
+
+    if (userIds.length > MAX_INVITES_PER_REQUEST) {
+      return NextResponse.json({ error: `You can invite up to ${MAX_INVITES_PER_REQUEST} friends at a time` }, { status: 400 });
+    }
+
+    const [event] = await db
+      .select({ id: events.id, title: events.title, startTime: events.startTime })
+      .from(events)
+      .where(eq(events.id, eventId));
+
+    if (!event) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+    }
+
+    if (new Date(event.startTime) < new Date()) {
+      return NextResponse.json({ error: 'This event has already started' }, { status: 400 });
+    }
+
+    // Only accepted friends can be invited
+    const rows = await db
+      .select({ userId: friendships.userId, friendId: friendships.friendId })
+      .from(friendships)
+      .where(and(
+        eq(friendships.status, 'accepted'),
+        or(eq(friendships.userId, userId), eq(friendships.friendId, userId))
+      ));
+
+    const friendIds = new Set(rows.map((row: any) => row.userId === userId ? row.friendId : row.userId));
+    const invitees = userIds.filter((id) => friendIds.has(id));
+
+    const inviterName = session.user.name || session.user.username || 'Someone';
+    for (const inviteeId of invitees) {
+      await notifyEventInvite(inviteeId, inviterName, eventId, event.title);
+    }
+
+    return NextResponse.json({ success: true, invited: invitees.length });
+  } catch (error: any) {
+    console.error('Error inviting to event:', error);
+    return NextResponse.json({ error: 'Failed to send invitations' }, { status: 500 });
+  }
+}
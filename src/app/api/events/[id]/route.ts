@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '../../../../../auth';
 import { db } from '@/db';
-import { events, users } from '@/db/schema';
-import { eq, and, sql } from 'drizzle-orm';
+import { events, eventAttendees, users } from '@/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { RSVP_STATUSES, RsvpStatus, getRsvpCounts } from '@/lib/events';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -40,14 +41,32 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Event not found' }, { status: 404 });
     }
 
-    // Attendees functionality temporarily removed as table does not exist
-    const attendees: any[] = [];
-    const counts = {
-      going: 0,
-      interested: 0,
-    };
+    const attendees = await db
+      .select({
+        userId: eventAttendees.userId,
+        status: eventAttendees.status,
+        respondedAt: eventAttendees.respondedAt,
+        username: users.username,
+        minecraftUsername: users.minecraftUsername,
+      })
+      .from(eventAttendees)
+      .innerJoin(users, eq(eventAttendees.userId, users.id))
+      .where(eq(eventAttendees.eventId, eventId))
+      .orderBy(eventAttendees.respondedAt);
+
+    const counts = (await getRsvpCounts([eventId]))[eventId];
 
-    return NextResponse.json({ ...event, attendees, counts });
+    const session = await auth();
+    const viewerId = session?.user?.id ? parseInt(session.user.id as string) : null;
+    const userStatus = attendees.find((a: any) => a.userId === viewerId)?.status || null;
+
+    return NextResponse.json({
+      ...event,
+      // "Not going" responses are only counted, not listed
+      attendees: attendees.filter((a: any) => a.status !== 'not_going'),
+      counts,
+      userStatus,
+    });
   } catch (error: any) {
     console.error('Error fetching event:', error);
     return NextResponse.json({ error: 'Failed to fetch event' }, { status: 500 });
@@ -111,7 +130,65 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
   }
 }
 
-// PATCH - RSVP to event
+// PATCH - RSVP to event. Body: { status: 'going' | 'interested' | 'not_going' | null }
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
-  return NextResponse.json({ error: 'RSVP functionality currently unavailable' }, { status: 501 });
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'You must be signed in to RSVP' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const eventId = parseInt(id);
+    const userId = parseInt(session.user.id as string);
+
+    if (isNaN(eventId)) {
+      return NextResponse.json({ error: 'Invalid event ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const status = body.status as RsvpStatus | null;
+
+    if (status !== null && !RSVP_STATUSES.includes(status)) {
+      return NextResponse.json({ error: 'Invalid RSVP status' }, { status: 400 });
+    }
+
+    const [event] = await db
+      .select({ id: events.id, startTime: events.startTime, endTime: events.endTime })
+      .from(events)
+      .where(eq(events.id, eventId));
+
+    if (!event) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+    }
+
+    if (new Date(event.endTime || event.startTime) < new Date()) {
+      return NextResponse.json({ error: 'This event has already ended' }, { status: 400 });
+    }
+
+    const [existing] = await db
+      .select()
+      .from(eventAttendees)
+      .where(and(eq(eventAttendees.eventId, eventId), eq(eventAttendees.userId, userId)));
+
+    if (status === null) {
+      if (existing) {
+        await db.delete(eventAttendees).where(eq(eventAttendees.id, existing.id));
+      }
+    } else if (existing) {
+      await db
+        .update(eventAttendees)
+        .set({ status, respondedAt: new Date() })
+        .where(eq(eventAttendees.id, existing.id));
+    } else {
+      await db.insert(eventAttendees).values({ eventId, userId, status });
+    }
+
+    const counts = (await getRsvpCounts([eventId]))[eventId];
+
+    return NextResponse.json({ success: true, userStatus: status, counts });
+  } catch (error: any) {
+    console.error('Error updating RSVP:', error);
+    return NextResponse.json({ error: 'Failed to update RSVP' }, { status: 500 });
+  }
 }
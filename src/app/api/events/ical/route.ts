@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/db';
+import { events } from '@/db/schema';
+import { gte } from 'drizzle-orm';
+import { buildICalendar } from '@/lib/ical';
+
+// Force dynamic - calendar apps poll this feed
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// Keep recently finished events in the feed so they don't vanish mid-event
+const FEED_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * GET /api/events/ical
+ * Subscribable iCal feed of upcoming events (webcal://.../api/events/ical)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const upcoming = await db
+      .select()
+      .from(events)
+      .where(gte(events.startTime, new Date(Date.now() - FEED_LOOKBACK_MS)))
+      .orderBy(events.startTime)
+      .limit(200);
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+
+    return new NextResponse(buildICalendar(upcoming, baseUrl), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="vonix-events.ics"',
+        'Cache-Control': 'public, max-age=900',
+      },
+    });
+  } catch (error: any) {
+    console.error('Error generating events feed:', error);
+    return NextResponse.json({ error: 'Failed to generate calendar feed' }, { status: 500 });
+  }
+}
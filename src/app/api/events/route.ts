@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '../../../../auth';
 import { db } from '@/db';
 import { events, users } from '@/db/schema';
-import { eq, desc, gte, sql } from 'drizzle-orm';
+import { eq, desc, gte } from 'drizzle-orm';
+import { getRsvpCounts, getUserRsvps } from '@/lib/events';
 
 // Force dynamic - always fetch fresh data
 export const dynamic = 'force-dynamic';
@@ -28,8 +29,6 @@ export async function GET(request: NextRequest) {
         creatorId: events.creatorId,
         creatorUsername: users.username,
         creatorMinecraft: users.minecraftUsername,
-        // attendeeCount removed as table doesn't exist
-        attendeeCount: sql<number>`0`,
       })
       .from(events)
       .leftJoin(users, eq(events.creatorId, users.id))
@@ -43,7 +42,22 @@ export async function GET(request: NextRequest) {
       ? allEvents.filter((e: any) => e.startTime && e.startTime > new Date())
       : allEvents;
 
-    return NextResponse.json(filteredEvents);
+    const eventIds = filteredEvents.map((e: any) => e.id);
+    const counts = await getRsvpCounts(eventIds);
+
+    const session = await auth();
+    const userRsvps = session?.user?.id
+      ? await getUserRsvps(parseInt(session.user.id as string), eventIds)
+      : {};
+
+    return NextResponse.json(
+      filteredEvents.map((event: any) => ({
+        ...event,
+        attendeeCount: counts[event.id].going,
+        counts: counts[event.id],
+        userStatus: userRsvps[event.id] || null,
+      }))
+    );
   } catch (error: any) {
     console.error('Error fetching events:', error);
     return NextResponse.json(
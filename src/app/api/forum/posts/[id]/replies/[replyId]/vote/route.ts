@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../../../../../auth';
+import { db } from '@/db';
+import { forumReplies } from '@/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { castForumVote, VoteType } from '@/lib/forum-votes';
+
+/**
+ * POST /api/forum/posts/[id]/replies/[replyId]/vote
+ * Upvote or downvote a forum reply. Voting the same way again removes the vote.
+ * Body: { voteType: 'upvote' | 'downvote' }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; replyId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'You must be signed in to vote' }, { status: 401 });
+    }
+
+    const { id, replyId } = await params;
+    const postId = parseInt(id);
+    const replyIdNum = parseInt(replyId);
+    const userId = parseInt(session.user.id as string);
+
+    if (isNaN(postId) || isNaN(replyIdNum)) {
+      return NextResponse.json({ error: 'Invalid reply ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const voteType = body.voteType as VoteType;
+    if (voteType !== 'upvote' && voteType !== 'downvote') {
+      return NextResponse.json({ error: 'Invalid vote type' }, { status: 400 });
+    }
+
+    const [reply] = await db
+      .select({ id: forumReplies.id, authorId: forumReplies.authorId })
+      .from(forumReplies)
+      .where(and(eq(forumReplies.id, replyIdNum), eq(forumReplies.postId, postId)))
+      .limit(1);
+
+    if (!reply) {
+      return NextResponse.json({ error: 'Reply not found' }, { status: 404 });
+    }
+
+    if (reply.authorId === userId) {
+      return NextResponse.json({ error: 'You cannot vote on your own reply' }, { status: 400 });
+    }
+
+    const result = await castForumVote({ replyId: replyIdNum }, userId, reply.authorId, voteType);
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Error voting on forum reply:', error);
+    return NextResponse.json({ error: 'Failed to record vote' }, { status: 500 });
+  }
+}
@@ -6,6 +6,9 @@ import { eq } from 'drizzle-orm';
 import { notifyForumReply } from '@/lib/notifications';
 import { sendUserNotificationEmail, getForumReplyEmailTemplate } from '@/lib/email';
 import { sanitizeContent } from '@/lib/sanitize';
+import { forumReplyScore } from '@/lib/forum-votes';
+import { trackAchievementProgress } from '@/lib/achievements';
+import { getActiveMute, getMuteMessage } from '@/lib/sanctions';
 
 export async function POST(
   request: NextRequest,
@@ -19,6 +22,11 @@ export async function POST(
       return NextResponse.json({ error: 'You must be signed in to reply' }, { status: 401 });
     }
 
+    const mute = await getActiveMute(parseInt(user.id));
+    if (mute) {
+      return NextResponse.json({ error: getMuteMessage(mute) }, { status: 403 });
+    }
+
     const { id } = await params;
     const postId = parseInt(id);
 
@@ -60,6 +68,8 @@ export async function POST(
       })
       .returning();
 
+    trackAchievementProgress(user.id, 'forum_replies');
+
     // Get author info for response
     const [authorInfo] = await db
       .select({
@@ -94,6 +104,8 @@ export async function POST(
         authorUsername: authorInfo?.username || user.username,
         authorMinecraft: authorInfo?.minecraftUsername,
         authorRole: authorInfo?.role || 'user',
+        score: 0,
+        userVote: null,
       },
     });
   } catch (error: any) {
@@ -123,13 +135,14 @@ export async function GET(
         authorUsername: users.username,
         authorMinecraft: users.minecraftUsername,
         authorRole: users.role,
+        score: forumReplyScore,
       })
       .from(forumReplies)
       .leftJoin(users, eq(forumReplies.authorId, users.id))
       .where(eq(forumReplies.postId, postId))
       .orderBy(forumReplies.createdAt);
 
-    return NextResponse.json(replies);
+    return NextResponse.json(replies.map((reply: any) => ({ ...reply, score: Number(reply.score) })));
   } catch (error: any) {
     console.error('Error fetching replies:', error);
     return NextResponse.json({ error: 'Failed to fetch replies' }, { status: 500 });
@@ -3,6 +3,7 @@ import { auth } from '../../../../../../auth';
 import { db } from '@/db';
 import { forumPosts, forumReplies, forumCategories, users, donationRanks } from '@/db/schema';
 import { eq, sql, and } from 'drizzle-orm';
+import { forumPostScore, forumReplyScore, getUserVotes } from '@/lib/forum-votes';
 
 export async function GET(
   request: NextRequest,
@@ -43,6 +44,7 @@ export async function GET(
         categoryId: forumPosts.categoryId,
         categoryName: forumCategories.name,
         categorySlug: forumCategories.slug,
+        score: forumPostScore,
       })
       .from(forumPosts)
       .leftJoin(users, eq(forumPosts.authorId, users.id))
@@ -70,6 +72,7 @@ export async function GET(
         authorRankExpiresAt: users.rankExpiresAt,
         rankName: donationRanks.name,
         rankColor: donationRanks.color,
+        score: forumReplyScore,
       })
       .from(forumReplies)
       .leftJoin(users, eq(forumReplies.authorId, users.id))
@@ -77,7 +80,20 @@ export async function GET(
       .where(eq(forumReplies.postId, postId))
       .orderBy(forumReplies.createdAt);
 
-    return NextResponse.json({ post, replies: repliesWithRanks });
+    // Include the viewer's own votes so the client can highlight them
+    const session = await auth();
+    const votes = session?.user?.id
+      ? await getUserVotes(parseInt(session.user.id as string), postId, repliesWithRanks.map((r: any) => r.id))
+      : { post: null, replies: {} as Record<number, string> };
+
+    return NextResponse.json({
+      post: { ...post, score: Number(post.score), userVote: votes.post },
+      replies: repliesWithRanks.map((reply: any) => ({
+        ...reply,
+        score: Number(reply.score),
+        userVote: votes.replies[reply.id] || null,
+      })),
+    });
   } catch (error: any) {
     console.error('Error fetching forum post:', error);
     return NextResponse.json({ error: 'Failed to fetch post' }, { status: 500 });
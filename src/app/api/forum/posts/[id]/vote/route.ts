@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../../../auth';
+import { db } from '@/db';
+import { forumPosts } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { castForumVote, VoteType } from '@/lib/forum-votes';
+
+/**
+ * POST /api/forum/posts/[id]/vote
+ * Upvote or downvote a forum post. Voting the same way again removes the vote.
+ * Body: { voteType: 'upvote' | 'downvote' }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'You must be signed in to vote' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const postId = parseInt(id);
+    const userId = parseInt(session.user.id as string);
+
+    if (isNaN(postId)) {
+      return NextResponse.json({ error: 'Invalid post ID' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const voteType = body.voteType as VoteType;
+    if (voteType !== 'upvote' && voteType !== 'downvote') {
+      return NextResponse.json({ error: 'Invalid vote type' }, { status: 400 });
+    }
+
+    const [post] = await db
+      .select({ id: forumPosts.id, authorId: forumPosts.authorId })
+      .from(forumPosts)
+      .where(eq(forumPosts.id, postId))
+      .limit(1);
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    if (post.authorId === userId) {
+      return NextResponse.json({ error: 'You cannot vote on your own post' }, { status: 400 });
+    }
+
+    const result = await castForumVote({ postId }, userId, post.authorId, voteType);
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Error voting on forum post:', error);
+    return NextResponse.json({ error: 'Failed to record vote' }, { status: 500 });
+  }
+}
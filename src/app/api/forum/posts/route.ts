@@ -3,7 +3,10 @@ import { auth } from '../../../../../auth';
 import { db } from '@/db';
 import { forumPosts, forumCategories, users } from '@/db/schema';
 import { desc, eq, and } from 'drizzle-orm';
-import { sanitizeForDb, sanitizeContent } from '@/lib/sanitize';
+import { sanitizeForDb, sanitizeContent, sanitizeEnum } from '@/lib/sanitize';
+import { FORUM_SORTS, forumPostScore, sortForumPosts } from '@/lib/forum-votes';
+import { trackAchievementProgress } from '@/lib/achievements';
+import { getActiveMute, getMuteMessage } from '@/lib/sanctions';
 
 // Force dynamic - always fetch fresh data
 export const dynamic = 'force-dynamic';
@@ -15,6 +18,7 @@ export async function GET(request: NextRequest) {
     const categoryId = searchParams.get('categoryId');
     const limit = parseInt(searchParams.get('limit') || '20');
     const offset = parseInt(searchParams.get('offset') || '0');
+    const sort = sanitizeEnum(searchParams.get('sort'), FORUM_SORTS, 'new');
 
     let query = db
       .select({
@@ -33,21 +37,31 @@ export async function GET(request: NextRequest) {
         categoryId: forumPosts.categoryId,
         categoryName: forumCategories.name,
         categorySlug: forumCategories.slug,
+        score: forumPostScore,
       })
       .from(forumPosts)
       .leftJoin(users, eq(forumPosts.authorId, users.id))
       .leftJoin(forumCategories, eq(forumPosts.categoryId, forumCategories.id))
-      .orderBy(desc(forumPosts.pinned), desc(forumPosts.createdAt))
-      .limit(limit)
-      .offset(offset);
+      .orderBy(
+        desc(forumPosts.pinned),
+        sort === 'top' ? desc(forumPostScore) : desc(forumPosts.createdAt),
+        desc(forumPosts.createdAt)
+      )
+      .$dynamic();
 
     if (categoryId) {
-      query = query.where(eq(forumPosts.categoryId, parseInt(categoryId))) as any;
+      query = query.where(eq(forumPosts.categoryId, parseInt(categoryId)));
     }
 
-    const posts = await query;
+    // Hot rank depends on post age, so it is computed after fetching
+    if (sort === 'hot') {
+      const allPosts = (await query).map((post: any) => ({ ...post, score: Number(post.score) }));
+      return NextResponse.json(sortForumPosts(allPosts, 'hot').slice(offset, offset + limit));
+    }
+
+    const posts = await query.limit(limit).offset(offset);
 
-    return NextResponse.json(posts);
+    return NextResponse.json(posts.map((post: any) => ({ ...post, score: Number(post.score) })));
   } catch (error: any) {
     console.error('Error fetching forum posts:', error);
     return NextResponse.json(
@@ -68,6 +82,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Muted users can still read, just not post
+    const mute = await getActiveMute(parseInt(session.user.id as string));
+    if (mute) {
+      return NextResponse.json({ error: getMuteMessage(mute) }, { status: 403 });
+    }
+
     const body = await request.json();
 
     // Sanitize inputs
@@ -117,6 +137,8 @@ export async function POST(request: NextRequest) {
       authorId: userId,
     }).returning();
 
+    trackAchievementProgress(userId, 'forum_posts');
+
     return NextResponse.json(newPost, { status: 201 });
   } catch (error: any) {
     console.error('Error creating forum post:', error);
@@ -5,6 +5,7 @@ import { friendships, users } from '@/db/schema';
 import { and, or, eq } from 'drizzle-orm';
 import { notifyFriendRequest, notifyFriendAccepted } from '@/lib/notifications';
 import { isUserOnline } from '@/lib/presence';
+import { trackAchievementProgress } from '@/lib/achievements';
 
 // Force dynamic - always fetch fresh data
 export const dynamic = 'force-dynamic';
@@ -154,6 +155,9 @@ export async function POST(request: NextRequest) {
         const viewerName = session.user.name || session.user.username || 'Someone';
         await notifyFriendAccepted(existing.userId, viewerName);
 
+        trackAchievementProgress(viewerId, 'friends');
+        trackAchievementProgress(existing.userId, 'friends');
+
         return NextResponse.json({ status: 'friends' });
       }
       return NextResponse.json({ status: existing.status === 'accepted' ? 'friends' : 'none' });
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../../auth';
+import { db } from '@/db';
+import { groupInvites, users } from '@/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { sanitizeUsername } from '@/lib/sanitize';
+import { addGroupMember, canManageGroup, getGroup, getMembership, getPendingInvite } from '@/lib/groups';
+import { notifyGroupInvite, notifyGroupRequestApproved } from '@/lib/notifications';
+
+/**
+ * POST /api/groups/[id]/invites
+ * Invite a player to the group by username (owner/admin only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const groupId = parseInt(id);
+    const userId = parseInt(session.user.id as string);
+
+    const group = await getGroup(groupId);
+    if (!group) {
+      return NextResponse.json({ error: 'Group not found' }, { status: 404 });
+    }
+
+    const membership = await getMembership(groupId, userId);
+    if (!canManageGroup(membership?.role)) {
+      return NextResponse.json({ error: 'Only group owners and admins can invite players' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const username = sanitizeUsername(body.username);
+    if (!username) {
+      return NextResponse.json({ error: 'Username is required' }, { status: 400 });
+    }
+
+    const [target] = await db
+      .select({ id: users.id, username: users.username })
+      .from(users)
+      .where(eq(users.username, username));
+
+    if (!target) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (await getMembership(groupId, target.id)) {
+      return NextResponse.json({ error: `${target.username} is already a member` }, { status: 400 });
+    }
+
+    // Inviting someone who already asked to join is the same as approving them
+    if (await getPendingInvite(groupId, target.id, 'request')) {
+      await addGroupMember(groupId, target.id);
+      await notifyGroupRequestApproved(target.id, groupId, group.name);
+      return NextResponse.json({ success: true, status: 'joined' });
+    }
+
+    if (await getPendingInvite(groupId, target.id, 'invite')) {
+      return NextResponse.json({ error: `${target.username} has already been invited` }, { status: 400 });
+    }
+
+    await db.insert(groupInvites).values({
+      groupId,
+      userId: target.id,
+      invitedById: userId,
+      type: 'invite',
+    });
+
+    const inviterName = session.user.name || session.user.username || 'Someone';
+    await notifyGroupInvite(target.id, inviterName, groupId, group.name);
+
+    return NextResponse.json({ success: true, status: 'invited' }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error inviting to group:', error);
+    return NextResponse.json({ error: 'Failed to send invitation' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/groups/[id]/invites?userId=
+ * Revoke a pending invitation (owner/admin only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const groupId = parseInt(id);
+    const userId = parseInt(session.user.id as string);
+    const targetId = parseInt(new URL(request.url).searchParams.get('userId') || '');
+
+    if (isNaN(targetId)) {
+      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
+    }
+
+    const membership = await getMembership(groupId, userId);
+    if (!canManageGroup(membership?.role)) {
+      return NextResponse.json({ error: 'Only group owners and admins can revoke invitations' }, { status: 403 });
+    }
+
+    await db
+      .delete(groupInvites)
+      .where(and(
+        eq(groupInvites.groupId, groupId),
+        eq(groupInvites.userId, targetId),
+        eq(groupInvites.type, 'invite')
+      ));
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error revoking group invite:', error);
+    return NextResponse.json({ error: 'Failed to revoke invitation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../../auth';
+import { db } from '@/db';
+import { groupMembers, groupInvites } from '@/db/schema';
+import { eq, inArray, and } from 'drizzle-orm';
+import { addGroupMember, getGroup, getMembership, getPendingInvite } from '@/lib/groups';
+import { notifyGroupJoinRequest } from '@/lib/notifications';
+
+/**
+ * POST /api/groups/[id]/join
+ * Join a public group, accept an invitation, or request to join a private group
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const groupId = parseInt(id);
+    const userId = parseInt(session.user.id as string);
+
+    const group = await getGroup(groupId);
+    if (!group) {
+      return NextResponse.json({ error: 'Group not found' }, { status: 404 });
+    }
+
+    if (await getMembership(groupId, userId)) {
+      return NextResponse.json({ error: 'You are already a member of this group' }, { status: 400 });
+    }
+
+    // An invitation always lets the player in, whatever the privacy setting
+    const invite = await getPendingInvite(groupId, userId, 'invite');
+    if (group.privacy === 'public' || invite) {
+      await addGroupMember(groupId, userId);
+      return NextResponse.json({ success: true, status: 'joined' });
+    }
+
+    if (group.privacy === 'invite_only') {
+      return NextResponse.json({ error: 'This group is invite-only' }, { status: 403 });
+    }
+
+    // Private group - file a join request for the group admins
+    if (await getPendingInvite(groupId, userId, 'request')) {
+      return NextResponse.json({ error: 'You have already requested to join this group' }, { status: 400 });
+    }
+
+    await db.insert(groupInvites).values({
+      groupId,
+      userId,
+      type: 'request',
+    });
+
+    const managers = await db
+      .select({ userId: groupMembers.userId })
+      .from(groupMembers)
+      .where(and(eq(groupMembers.groupId, groupId), inArray(groupMembers.role, ['owner', 'admin'])));
+
+    const requesterName = session.user.name || session.user.username || 'Someone';
+    for (const manager of managers) {
+      await notifyGroupJoinRequest(manager.userId, requesterName, groupId, group.name);
+    }
+
+    return NextResponse.json({ success: true, status: 'requested' });
+  } catch (error: any) {
+    console.error('Error joining group:', error);
+    return NextResponse.json({ error: 'Failed to join group' }, { status: 500 });
+  }
+}
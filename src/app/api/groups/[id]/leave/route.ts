@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../../auth';
+import { db } from '@/db';
+import { groups, groupMembers, groupInvites } from '@/db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { getGroup, getMembership } from '@/lib/groups';
+
+/**
+ * POST /api/groups/[id]/leave
+ * Leave a group, or cancel a pending join request / decline an invitation
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const groupId = parseInt(id);
+    const userId = parseInt(session.user.id as string);
+
+    const group = await getGroup(groupId);
+    if (!group) {
+      return NextResponse.json({ error: 'Group not found' }, { status: 404 });
+    }
+
+    const membership = await getMembership(groupId, userId);
+
+    if (!membership) {
+      await db
+        .delete(groupInvites)
+        .where(and(eq(groupInvites.groupId, groupId), eq(groupInvites.userId, userId)));
+      return NextResponse.json({ success: true });
+    }
+
+    if (membership.role === 'owner') {
+      const [{ count }] = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(groupMembers)
+        .where(eq(groupMembers.groupId, groupId));
+
+      // The last member leaving closes the group; otherwise ownership must be handed over first
+      if (Number(count) <= 1) {
+        await db.delete(groups).where(eq(groups.id, groupId));
+        return NextResponse.json({ success: true, deleted: true });
+      }
+
+      return NextResponse.json(
+        { error: 'Transfer ownership to another member before leaving' },
+        { status: 400 }
+      );
+    }
+
+    await db.delete(groupMembers).where(eq(groupMembers.id, membership.id));
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error leaving group:', error);
+    return NextResponse.json({ error: 'Failed to leave group' }, { status: 500 });
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../../auth';
+import { db } from '@/db';
+import { groupMembers, groupInvites } from '@/db/schema';
+import { and, eq } from 'drizzle-orm';
+import {
+  addGroupMember,
+  canManageGroup,
+  getGroup,
+  getMembership,
+  getPendingInvite,
+  outranks,
+} from '@/lib/groups';
+import { notifyGroupRequestApproved } from '@/lib/notifications';
+
+const MEMBER_ACTIONS = ['approve', 'deny', 'promote', 'demote', 'kick', 'transfer'] as const;
+type MemberAction = (typeof MEMBER_ACTIONS)[number];
+
+/**
+ * PATCH /api/groups/[id]/members
+ * Manage membership: approve/deny join requests, promote/demote, kick, transfer ownership
+ * Body: { userId, action }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const groupId = parseInt(id);
+    const userId = parseInt(session.user.id as string);
+
+    const body = await request.json();
+    const targetId = parseInt(body.userId);
+    const action = body.action as MemberAction;
+
+    if (isNaN(targetId) || !MEMBER_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: 'Invalid user or action' }, { status: 400 });
+    }
+
+    if (targetId === userId) {
+      return NextResponse.json({ error: 'You cannot change your own membership' }, { status: 400 });
+    }
+
+    const group = await getGroup(groupId);
+    if (!group) {
+      return NextResponse.json({ error: 'Group not found' }, { status: 404 });
+    }
+
+    const actor = await getMembership(groupId, userId);
+    if (!actor || !canManageGroup(actor.role)) {
+      return NextResponse.json({ error: 'Only group owners and admins can manage members' }, { status: 403 });
+    }
+
+    // Join requests
+    if (action === 'approve' || action === 'deny') {
+      if (!(await getPendingInvite(groupId, targetId, 'request'))) {
+        return NextResponse.json({ error: 'No pending join request from this user' }, { status: 404 });
+      }
+
+      if (action === 'approve') {
+        await addGroupMember(groupId, targetId);
+        await notifyGroupRequestApproved(targetId, groupId, group.name);
+      } else {
+        await db
+          .delete(groupInvites)
+          .where(and(
+            eq(groupInvites.groupId, groupId),
+            eq(groupInvites.userId, targetId),
+            eq(groupInvites.type, 'request')
+          ));
+      }
+
+      return NextResponse.json({ success: true });
+    }
+
+    const target = await getMembership(groupId, targetId);
+    if (!target) {
+      return NextResponse.json({ error: 'User is not a member of this group' }, { status: 404 });
+    }
+
+    if (!outranks(actor.role, target.role)) {
+      return NextResponse.json({ error: 'You can only manage members below your role' }, { status: 403 });
+    }
+
+    switch (action) {
+      case 'promote':
+      case 'demote':
+        // Only the owner decides who gets admin rights
+        if (actor.role !== 'owner') {
+          return NextResponse.json({ error: 'Only the group owner can change roles' }, { status: 403 });
+        }
+        await db
+          .update(groupMembers)
+          .set({ role: action === 'promote' ? 'admin' : 'member' })
+          .where(eq(groupMembers.id, target.id));
+        break;
+
+      case 'kick':
+        await db.delete(groupMembers).where(eq(groupMembers.id, target.id));
+        break;
+
+      case 'transfer':
+        if (actor.role !== 'owner') {
+          return NextResponse.json({ error: 'Only the group owner can transfer ownership' }, { status: 403 });
+        }
+        await db.update(groupMembers).set({ role: 'owner' }).where(eq(groupMembers.id, target.id));
+        await db.update(groupMembers).set({ role: 'admin' }).where(eq(groupMembers.id, actor.id));
+        break;
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error managing group member:', error);
+    return NextResponse.json({ error: 'Failed to update member' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../../../auth';
+import { db } from '@/db';
+import { groupPosts } from '@/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { canManageGroup, getMembership, isSiteStaff } from '@/lib/groups';
+
+/**
+ * DELETE /api/groups/[id]/posts/[postId]
+ * Delete a group post (author, group owner/admin, or site staff)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; postId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, postId: postIdParam } = await params;
+    const groupId = parseInt(id);
+    const postId = parseInt(postIdParam);
+    const userId = parseInt(session.user.id as string);
+
+    const [post] = await db
+      .select()
+      .from(groupPosts)
+      .where(and(eq(groupPosts.id, postId), eq(groupPosts.groupId, groupId)));
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    if (post.userId !== userId && !isSiteStaff((session.user as any).role)) {
+      const membership = await getMembership(groupId, userId);
+      if (!canManageGroup(membership?.role)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+      }
+    }
+
+    await db.delete(groupPosts).where(eq(groupPosts.id, postId));
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting group post:', error);
+    return NextResponse.json({ error: 'Failed to delete post' }, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../../auth';
+import { db } from '@/db';
+import { groupPosts, users } from '@/db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { sanitizeContent, sanitizeUrl } from '@/lib/sanitize';
+import { GROUP_POST_MAX_LENGTH, canViewGroupContent, getGroup, getMembership } from '@/lib/groups';
+import { getActiveMute, getMuteMessage } from '@/lib/sanctions';
+
+// Force dynamic - always fetch fresh data
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/groups/[id]/posts
+ * Group feed. Private and invite-only feeds are visible to members only.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const groupId = parseInt(id);
+
+    const group = await getGroup(groupId);
+    if (!group) {
+      return NextResponse.json({ error: 'Group not found' }, { status: 404 });
+    }
+
+    const session = await auth();
+    const viewerId = session?.user?.id ? parseInt(session.user.id as string) : null;
+    const membership = viewerId ? await getMembership(groupId, viewerId) : null;
+
+    if (!canViewGroupContent(group.privacy, membership?.role, (session?.user as any)?.role)) {
+      return NextResponse.json({ error: 'Only members can view this group' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 50);
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    const posts = await db
+      .select({
+        id: groupPosts.id,
+        content: groupPosts.content,
+        imageUrl: groupPosts.imageUrl,
+        createdAt: groupPosts.createdAt,
+        userId: groupPosts.userId,
+        username: users.username,
+        minecraftUsername: users.minecraftUsername,
+        userRole: users.role,
+      })
+      .from(groupPosts)
+      .leftJoin(users, eq(groupPosts.userId, users.id))
+      .where(eq(groupPosts.groupId, groupId))
+      .orderBy(desc(groupPosts.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    return NextResponse.json(posts);
+  } catch (error: any) {
+    console.error('Error fetching group posts:', error);
+    return NextResponse.json({ error: 'Failed to fetch posts' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/groups/[id]/posts
+ * Post to the group feed (members only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const groupId = parseInt(id);
+    const userId = parseInt(session.user.id as string);
+
+    const group = await getGroup(groupId);
+    if (!group) {
+      return NextResponse.json({ error: 'Group not found' }, { status: 404 });
+    }
+
+    if (!(await getMembership(groupId, userId))) {
+      return NextResponse.json({ error: 'Only members can post in this group' }, { status: 403 });
+    }
+
+    const mute = await getActiveMute(userId);
+    if (mute) {
+      return NextResponse.json({ error: getMuteMessage(mute) }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const content = sanitizeContent(body.content, GROUP_POST_MAX_LENGTH);
+    const imageUrl = sanitizeUrl(body.imageUrl);
+
+    if (!content) {
+      return NextResponse.json({ error: 'Content is required' }, { status: 400 });
+    }
+
+    const [newPost] = await db
+      .insert(groupPosts)
+      .values({
+        groupId,
+        userId,
+        content,
+        imageUrl: imageUrl || null,
+      })
+      .returning();
+
+    return NextResponse.json(newPost, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating group post:', error);
+    return NextResponse.json({ error: 'Failed to create post' }, { status: 500 });
+  }
+}
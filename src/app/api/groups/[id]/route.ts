@@ -0,0 +1,258 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../auth';
+import { db } from '@/db';
+import { groups, groupMembers, groupInvites, users } from '@/db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { sanitizeContent, sanitizeEnum, sanitizeText, sanitizeUrl } from '@/lib/sanitize';
+import {
+  GROUP_PRIVACY,
+  GROUP_ROLES,
+  GROUP_NAME_MAX_LENGTH,
+  GROUP_DESCRIPTION_MAX_LENGTH,
+  addGroupMember,
+  canManageGroup,
+  canViewGroupContent,
+  getGroup,
+  getMembership,
+  isSiteStaff,
+} from '@/lib/groups';
+
+// Force dynamic - always fetch fresh data
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/groups/[id]
+ * Group details, member list and (for group admins) pending invites and join requests
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const groupId = parseInt(id);
+
+    if (isNaN(groupId)) {
+      return NextResponse.json({ error: 'Invalid group ID' }, { status: 400 });
+    }
+
+    const session = await auth();
+    const viewerId = session?.user?.id ? parseInt(session.user.id as string) : null;
+    const siteRole = (session?.user as any)?.role;
+
+    const [group] = await db
+      .select({
+        id: groups.id,
+        name: groups.name,
+        description: groups.description,
+        coverImage: groups.coverImage,
+        privacy: groups.privacy,
+        createdAt: groups.createdAt,
+        creatorId: groups.creatorId,
+        creatorUsername: users.username,
+        memberCount: sql<number>`(SELECT COUNT(*) FROM group_members WHERE group_members.group_id = ${groups.id})`,
+      })
+      .from(groups)
+      .leftJoin(users, eq(groups.creatorId, users.id))
+      .where(eq(groups.id, groupId));
+
+    if (!group) {
+      return NextResponse.json({ error: 'Group not found' }, { status: 404 });
+    }
+
+    const membership = viewerId ? await getMembership(groupId, viewerId) : null;
+    const viewerRole = membership?.role || null;
+    const canView = canViewGroupContent(group.privacy, viewerRole, siteRole);
+    const canManage = canManageGroup(viewerRole);
+
+    let members: any[] = [];
+    if (canView) {
+      members = await db
+        .select({
+          userId: groupMembers.userId,
+          role: groupMembers.role,
+          joinedAt: groupMembers.joinedAt,
+          username: users.username,
+          minecraftUsername: users.minecraftUsername,
+          avatar: users.avatar,
+        })
+        .from(groupMembers)
+        .leftJoin(users, eq(groupMembers.userId, users.id))
+        .where(eq(groupMembers.groupId, groupId));
+
+      // Owner first, then admins, then members by join date
+      members.sort((a, b) =>
+        GROUP_ROLES.indexOf(a.role) - GROUP_ROLES.indexOf(b.role) ||
+        new Date(a.joinedAt).getTime() - new Date(b.joinedAt).getTime()
+      );
+    }
+
+    let pending: any[] = [];
+    if (canManage) {
+      pending = await db
+        .select({
+          userId: groupInvites.userId,
+          type: groupInvites.type,
+          createdAt: groupInvites.createdAt,
+          username: users.username,
+          minecraftUsername: users.minecraftUsername,
+        })
+        .from(groupInvites)
+        .leftJoin(users, eq(groupInvites.userId, users.id))
+        .where(eq(groupInvites.groupId, groupId));
+    }
+
+    // Let the viewer know whether they have an outstanding invite or request
+    let viewerPending: string | null = null;
+    if (viewerId && !membership) {
+      const [own] = await db
+        .select({ type: groupInvites.type })
+        .from(groupInvites)
+        .where(and(eq(groupInvites.groupId, groupId), eq(groupInvites.userId, viewerId)));
+      viewerPending = own?.type || null;
+    }
+
+    return NextResponse.json({
+      ...group,
+      memberCount: Number(group.memberCount),
+      viewerRole,
+      viewerPending,
+      canView,
+      canManage,
+      canModerate: isSiteStaff(siteRole),
+      members,
+      pendingRequests: pending.filter((p) => p.type === 'request'),
+      pendingInvites: pending.filter((p) => p.type === 'invite'),
+    });
+  } catch (error: any) {
+    console.error('Error fetching group:', error);
+    return NextResponse.json({ error: 'Failed to fetch group' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/groups/[id]
+ * Edit group name, description, cover image or privacy (owner/admin only)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const groupId = parseInt(id);
+    const userId = parseInt(session.user.id as string);
+
+    const group = await getGroup(groupId);
+    if (!group) {
+      return NextResponse.json({ error: 'Group not found' }, { status: 404 });
+    }
+
+    const membership = await getMembership(groupId, userId);
+    if (!canManageGroup(membership?.role)) {
+      return NextResponse.json({ error: 'Only group owners and admins can edit this group' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const updates: Record<string, any> = { updatedAt: new Date() };
+
+    if (body.name !== undefined) {
+      const name = sanitizeText(body.name, { maxLength: GROUP_NAME_MAX_LENGTH });
+      if (name.length < 3) {
+        return NextResponse.json({ error: 'Group name must be at least 3 characters' }, { status: 400 });
+      }
+
+      if (name.toLowerCase() !== group.name.toLowerCase()) {
+        const [existing] = await db
+          .select({ id: groups.id })
+          .from(groups)
+          .where(sql`lower(${groups.name}) = ${name.toLowerCase()}`);
+
+        if (existing) {
+          return NextResponse.json({ error: 'A group with that name already exists' }, { status: 409 });
+        }
+      }
+      updates.name = name;
+    }
+
+    if (body.description !== undefined) {
+      updates.description = sanitizeContent(body.description, GROUP_DESCRIPTION_MAX_LENGTH) || null;
+    }
+
+    if (body.coverImage !== undefined) {
+      updates.coverImage = sanitizeUrl(body.coverImage) || null;
+    }
+
+    if (body.privacy !== undefined) {
+      updates.privacy = sanitizeEnum(body.privacy, GROUP_PRIVACY, group.privacy);
+    }
+
+    const [updated] = await db
+      .update(groups)
+      .set(updates)
+      .where(eq(groups.id, groupId))
+      .returning();
+
+    // Open join requests are meaningless once a group goes public - let everyone in
+    if (updated.privacy === 'public' && group.privacy !== 'public') {
+      const requests = await db
+        .select({ userId: groupInvites.userId })
+        .from(groupInvites)
+        .where(and(eq(groupInvites.groupId, groupId), eq(groupInvites.type, 'request')));
+
+      for (const req of requests) {
+        await addGroupMember(groupId, req.userId);
+      }
+    }
+
+    return NextResponse.json(updated);
+  } catch (error: any) {
+    console.error('Error updating group:', error);
+    return NextResponse.json({ error: 'Failed to update group' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/groups/[id]
+ * Delete a group (group owner or site staff)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const groupId = parseInt(id);
+    const userId = parseInt(session.user.id as string);
+    const siteRole = (session.user as any).role;
+
+    const group = await getGroup(groupId);
+    if (!group) {
+      return NextResponse.json({ error: 'Group not found' }, { status: 404 });
+    }
+
+    const membership = await getMembership(groupId, userId);
+    if (membership?.role !== 'owner' && !isSiteStaff(siteRole)) {
+      return NextResponse.json({ error: 'Only the group owner can delete this group' }, { status: 403 });
+    }
+
+    // Members, invites and posts cascade with the group
+    await db.delete(groups).where(eq(groups.id, groupId));
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting group:', error);
+    return NextResponse.json({ error: 'Failed to delete group' }, { status: 500 });
+  }
+}
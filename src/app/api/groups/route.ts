@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../auth';
+import { db } from '@/db';
+import { groups, groupMembers, users } from '@/db/schema';
+import { and, desc, eq, inArray, like, sql } from 'drizzle-orm';
+import { sanitizeContent, sanitizeEnum, sanitizeSearchQuery, sanitizeText, sanitizeUrl } from '@/lib/sanitize';
+import {
+  GROUP_PRIVACY,
+  GROUP_NAME_MAX_LENGTH,
+  GROUP_DESCRIPTION_MAX_LENGTH,
+  addGroupMember,
+} from '@/lib/groups';
+
+// Force dynamic - always fetch fresh data
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /api/groups
+ * List groups for the directory. Supports ?search=, ?mine=true, ?limit= and ?offset=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    const viewerId = session?.user?.id ? parseInt(session.user.id as string) : null;
+
+    const { searchParams } = new URL(request.url);
+    const search = sanitizeSearchQuery(searchParams.get('search'));
+    const mine = searchParams.get('mine') === 'true';
+    const limit = Math.min(parseInt(searchParams.get('limit') || '24'), 100);
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    if (mine && !viewerId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const conditions = [];
+    if (search) {
+      conditions.push(like(groups.name, `%${search}%`));
+    }
+    if (mine && viewerId) {
+      const memberships = await db
+        .select({ groupId: groupMembers.groupId })
+        .from(groupMembers)
+        .where(eq(groupMembers.userId, viewerId));
+
+      if (memberships.length === 0) {
+        return NextResponse.json([]);
+      }
+      conditions.push(inArray(groups.id, memberships.map((m: any) => m.groupId)));
+    }
+
+    const groupList = await db
+      .select({
+        id: groups.id,
+        name: groups.name,
+        description: groups.description,
+        coverImage: groups.coverImage,
+        privacy: groups.privacy,
+        createdAt: groups.createdAt,
+        creatorId: groups.creatorId,
+        creatorUsername: users.username,
+        memberCount: sql<number>`(SELECT COUNT(*) FROM group_members WHERE group_members.group_id = ${groups.id})`,
+      })
+      .from(groups)
+      .leftJoin(users, eq(groups.creatorId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(groups.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    // Attach the viewer's role so the directory can show "Joined" badges
+    let viewerRoles = new Map<number, string>();
+    if (viewerId && groupList.length > 0) {
+      const memberships = await db
+        .select({ groupId: groupMembers.groupId, role: groupMembers.role })
+        .from(groupMembers)
+        .where(and(
+          eq(groupMembers.userId, viewerId),
+          inArray(groupMembers.groupId, groupList.map((g: any) => g.id))
+        ));
+      viewerRoles = new Map(memberships.map((m: any) => [m.groupId, m.role]));
+    }
+
+    return NextResponse.json(
+      groupList.map((group: any) => ({
+        ...group,
+        memberCount: Number(group.memberCount),
+        viewerRole: viewerRoles.get(group.id) || null,
+      }))
+    );
+  } catch (error: any) {
+    console.error('Error fetching groups:', error);
+    return NextResponse.json({ error: 'Failed to fetch groups' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/groups
+ * Create a group. The creator becomes its owner.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = parseInt(session.user.id as string);
+    const body = await request.json();
+
+    const name = sanitizeText(body.name, { maxLength: GROUP_NAME_MAX_LENGTH });
+    const description = sanitizeContent(body.description, GROUP_DESCRIPTION_MAX_LENGTH);
+    const coverImage = sanitizeUrl(body.coverImage);
+    const privacy = sanitizeEnum(body.privacy, GROUP_PRIVACY, 'public');
+
+    if (name.length < 3) {
+      return NextResponse.json({ error: 'Group name must be at least 3 characters' }, { status: 400 });
+    }
+
+    const [existing] = await db
+      .select({ id: groups.id })
+      .from(groups)
+      .where(sql`lower(${groups.name}) = ${name.toLowerCase()}`);
+
+    if (existing) {
+      return NextResponse.json({ error: 'A group with that name already exists' }, { status: 409 });
+    }
+
+    const [newGroup] = await db
+      .insert(groups)
+      .values({
+        name,
+        description: description || null,
+        coverImage: coverImage || null,
+        creatorId: userId,
+        privacy,
+      })
+      .returning();
+
+    await addGroupMember(newGroup.id, userId, 'owner');
+
+    return NextResponse.json(newGroup, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating group:', error);
+    return NextResponse.json({ error: 'Failed to create group' }, { status: 500 });
+  }
+}
@@ -11,6 +11,7 @@ import { users, donations, donationRanks } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import { verifyKofiToken, getPaymentProvider } from '@/lib/kofi';
 import { processDonation, findBestRankForAmount } from '@/lib/donations';
+import { normalizeGiftMessage } from '@/lib/rank-gifts';
 
 /**
  * Ko-Fi webhook payload structure
@@ -50,6 +51,16 @@ interface KofiWebhookData {
     discord_userid: string | null;
 }
 
+/**
+ * Ko-Fi has no checkout we control, so gifts are requested in the message:
+ * "gift:PlayerName optional message"
+ */
+function parseKofiGift(message: string | null): { recipient: string; message?: string } | null {
+    const match = message?.match(/^\s*gift:\s*([a-zA-Z0-9_]{3,16})(?:\s+([\s\S]*))?$/i);
+    if (!match) return null;
+    return { recipient: match[1], message: normalizeGiftMessage(match[2]) };
+}
+
 /**
  * Try to find a user based on Ko-Fi data (message, from_name, email)
  */
@@ -203,6 +214,7 @@ export async function POST(request: NextRequest) {
 
         // Find user
         const userInfo = await findUserFromKofiData(data);
+        const gift = parseKofiGift(data.message);
         const isGuest = !userInfo.userId;
 
         // Determine payment type
@@ -223,7 +235,9 @@ export async function POST(request: NextRequest) {
             paymentType,
             transactionId,
             rankId, // If tier_name matched, use it; otherwise processDonation will find by amount
-            message: data.message || undefined,
+            message: gift ? undefined : (data.message || undefined),
+            giftRecipient: gift?.recipient,
+            giftMessage: gift?.message,
         });
 
         if (result.success) {
@@ -1,136 +1,77 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../auth';
 import { db } from '@/db';
-import { users, serverXp, donationRanks, minecraftPlayers } from '@/db/schema';
-import { desc, eq, sql, isNull } from 'drizzle-orm';
+import { servers } from '@/db/schema';
+import { asc } from 'drizzle-orm';
+import {
+  LEADERBOARD_BOARDS,
+  getLeaderboardPage,
+  getLegacyLeaderboard,
+  isLeaderboardBoard,
+  isPerServerBoard,
+} from '@/lib/leaderboards';
+import { sanitizeInt } from '@/lib/sanitize';
 
 export const dynamic = 'force-dynamic';
 
-interface LeaderboardEntry {
-  id: number | string;
-  username: string;
-  minecraftUsername: string | null;
-  xp: number;
-  level: number;
-  role: string | null;
-  title: string | null;
-  avatar: string | null;
-  playtimeSeconds: number;
-  donationRank: {
-    id: string;
-    name: string;
-    color: string;
-  } | null;
-  isRegistered: boolean; // true = registered user, false = unregistered Minecraft player
-}
-
+/**
+ * GET /api/leaderboard
+ * One page of a leaderboard, served from the cached snapshot
+ * Query: board (default xp; `type` is accepted too), serverId for per-server
+ * boards, page, limit (page size, max 100)
+ * Signed-in viewers also get `me` with their own rank and page
+ *
+ * Requests without `board` or `page` (e.g. ?type=playtime&limit=10&offset=20)
+ * get the original bare array of entries, so existing integrations keep working
+ */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const limit = parseInt(searchParams.get('limit') || '50');
-    const offset = parseInt(searchParams.get('offset') || '0');
-    const type = searchParams.get('type') || 'xp'; // 'xp' or 'playtime'
-
-    // ========== Get registered users with their XP and playtime ==========
-    const usersData = await db
-      .select({
-        id: users.id,
-        username: users.username,
-        minecraftUsername: users.minecraftUsername,
-        xp: users.xp,
-        level: users.level,
-        role: users.role,
-        title: users.title,
-        avatar: users.avatar,
-        donationRankId: users.donationRankId,
-        rankExpiresAt: users.rankExpiresAt,
-        rankName: donationRanks.name,
-        rankColor: donationRanks.color,
-      })
-      .from(users)
-      .leftJoin(donationRanks, eq(users.donationRankId, donationRanks.id));
-
-    // Get playtime per registered user from serverXp
-    const playtimeData = await db
-      .select({
-        userId: serverXp.userId,
-        totalPlaytime: sql<number>`SUM(${serverXp.playtimeSeconds})`.as('total_playtime'),
-      })
-      .from(serverXp)
-      .groupBy(serverXp.userId);
-
-    // Create a map of userId -> playtime
-    const playtimeMap = new Map<number, number>();
-    playtimeData.forEach((p: any) => {
-      playtimeMap.set(p.userId, Number(p.totalPlaytime || 0));
-    });
 
-    const now = new Date();
-
-    // Build registered users entries
-    const registeredEntries: LeaderboardEntry[] = usersData.map((user: any) => ({
-      id: user.id,
-      username: user.username,
-      minecraftUsername: user.minecraftUsername,
-      xp: Number(user.xp || 0),
-      level: Number(user.level || 1),
-      role: user.role,
-      title: user.title,
-      avatar: user.avatar,
-      playtimeSeconds: playtimeMap.get(user.id) || 0,
-      donationRank: user.donationRankId && user.rankExpiresAt && new Date(user.rankExpiresAt) > now
-        ? {
-          id: user.donationRankId,
-          name: user.rankName,
-          color: user.rankColor,
-        }
-        : null,
-      isRegistered: true,
-    }));
+    if (!searchParams.has('board') && !searchParams.has('page')) {
+      const entries = await getLegacyLeaderboard({
+        type: searchParams.get('type') === 'playtime' ? 'playtime' : 'xp',
+        limit: sanitizeInt(searchParams.get('limit'), 1, 1000) || 50,
+        offset: sanitizeInt(searchParams.get('offset'), 0, 100000) || 0,
+      });
+      return NextResponse.json(entries);
+    }
 
-    // ========== Get unregistered Minecraft players ==========
-    // Only get players who are NOT linked to a registered user
-    const unregisteredPlayers = await db
-      .select({
-        id: minecraftPlayers.id,
-        uuid: minecraftPlayers.uuid,
-        username: minecraftPlayers.username,
-        xp: minecraftPlayers.xp,
-        level: minecraftPlayers.level,
-        playtimeSeconds: minecraftPlayers.playtimeSeconds,
-        linkedUserId: minecraftPlayers.linkedUserId,
-      })
-      .from(minecraftPlayers)
-      .where(isNull(minecraftPlayers.linkedUserId));
+    const board = searchParams.get('board') || searchParams.get('type') || 'xp';
 
-    // Build unregistered player entries
-    const unregisteredEntries: LeaderboardEntry[] = unregisteredPlayers.map((player: any) => ({
-      id: `mc-${player.id}`, // Prefix to distinguish from user IDs
-      username: player.username,
-      minecraftUsername: player.username,
-      xp: Number(player.xp || 0),
-      level: Number(player.level || 1),
-      role: null,
-      title: null,
-      avatar: null,
-      playtimeSeconds: Number(player.playtimeSeconds || 0),
-      donationRank: null,
-      isRegistered: false,
-    }));
+    if (!isLeaderboardBoard(board)) {
+      return NextResponse.json({ error: 'Unknown leaderboard' }, { status: 400 });
+    }
 
-    // ========== Combine and sort ==========
-    const allEntries = [...registeredEntries, ...unregisteredEntries];
+    const serverList = await db
+      .select({ id: servers.id, name: servers.name })
+      .from(servers)
+      .orderBy(asc(servers.orderIndex));
 
-    // Sort based on type
-    if (type === 'playtime') {
-      allEntries.sort((a, b) => b.playtimeSeconds - a.playtimeSeconds);
-    } else {
-      allEntries.sort((a, b) => b.xp - a.xp);
+    let serverId = 0;
+    if (isPerServerBoard(board)) {
+      serverId = sanitizeInt(searchParams.get('serverId'), 1) || serverList[0]?.id || 0;
+      if (!serverList.some((server: { id: number }) => server.id === serverId)) {
+        return NextResponse.json({ error: 'Server not found' }, { status: 404 });
+      }
     }
 
-    // Apply pagination
-    const paginatedEntries = allEntries.slice(offset, offset + limit);
+    const session = await auth();
+    const viewerId = session?.user?.id ? parseInt(session.user.id as string) : null;
 
-    return NextResponse.json(paginatedEntries);
+    const result = await getLeaderboardPage({
+      board,
+      serverId,
+      page: sanitizeInt(searchParams.get('page'), 1, 100000) || 1,
+      pageSize: sanitizeInt(searchParams.get('limit'), 1, 100) || 25,
+      viewerId,
+    });
+
+    return NextResponse.json({
+      ...result,
+      boards: Object.entries(LEADERBOARD_BOARDS).map(([id, info]) => ({ id, ...info })),
+      servers: serverList,
+    });
   } catch (error: any) {
     console.error('Error fetching leaderboard:', error);
     return NextResponse.json(
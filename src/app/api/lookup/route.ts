@@ -1,35 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { pingGameServer, GameType } from '@/lib/game-ping';
-
-// Rate limiting configuration
-const RATE_LIMIT = 10; // requests per minute per IP
-const RATE_WINDOW = 60 * 1000; // 1 minute
-
-// Rate limiting storage
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-
-/**
- * Check rate limit for an IP
- */
-function checkRateLimit(ip: string): { allowed: boolean; remaining: number; resetIn: number } {
-    const now = Date.now();
-    const record = rateLimitMap.get(ip);
-
-    if (!record || now > record.resetTime) {
-        rateLimitMap.set(ip, {
-            count: 1,
-            resetTime: now + RATE_WINDOW
-        });
-        return { allowed: true, remaining: RATE_LIMIT - 1, resetIn: RATE_WINDOW };
-    }
-
-    if (record.count >= RATE_LIMIT) {
-        return { allowed: false, remaining: 0, resetIn: record.resetTime - now };
-    }
-
-    record.count++;
-    return { allowed: true, remaining: RATE_LIMIT - record.count, resetIn: record.resetTime - now };
-}
+import { enforceRateLimit } from '@/lib/rate-limit';
+import { getClientIp } from '@/lib/audit-log';
 
 /**
  * Parse server address from query parameter
@@ -75,35 +47,13 @@ function parseServerAddress(server: string, gameType: GameType): { host: string;
 export async function GET(request: NextRequest) {
     try {
         // Get client IP for rate limiting
-        const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
-            request.headers.get('x-real-ip') ||
-            'unknown';
+        const ip = getClientIp(request) || 'unknown';
 
         // Check rate limit
-        const rateLimit = checkRateLimit(ip);
-
-        // Set rate limit headers
-        const rateLimitHeaders = {
-            'X-RateLimit-Limit': RATE_LIMIT.toString(),
-            'X-RateLimit-Remaining': rateLimit.remaining.toString(),
-            'X-RateLimit-Reset': Math.ceil(rateLimit.resetIn / 1000).toString(),
-        };
+        const limited = await enforceRateLimit(request, 'lookup', ip);
+        if (limited.response) return limited.response;
 
-        if (!rateLimit.allowed) {
-            return NextResponse.json(
-                {
-                    error: 'Rate limit exceeded. Please try again later.',
-                    retryAfter: Math.ceil(rateLimit.resetIn / 1000),
-                },
-                {
-                    status: 429,
-                    headers: {
-                        ...rateLimitHeaders,
-                        'Retry-After': Math.ceil(rateLimit.resetIn / 1000).toString(),
-                    },
-                }
-            );
-        }
+        const rateLimitHeaders = limited.headers;
 
         // Parse query parameters
         const server = request.nextUrl.searchParams.get('server');
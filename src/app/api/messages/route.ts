@@ -7,6 +7,8 @@ import { notifyNewMessage } from '@/lib/notifications';
 import { emitNewMessage } from '@/lib/socket-emit';
 import { sendUserNotificationEmail, getNewMessageEmailTemplate } from '@/lib/email';
 import { sanitizeContent } from '@/lib/sanitize';
+import { getActiveMute, getMuteMessage } from '@/lib/sanctions';
+import { enforceRateLimit } from '@/lib/rate-limit';
 
 export async function GET(request: NextRequest) {
   try {
@@ -111,6 +113,10 @@ export async function POST(request: NextRequest) {
     }
 
     const viewerId = parseInt(session.user.id as string);
+
+    const limited = await enforceRateLimit(request, 'message', `user:${viewerId}`);
+    if (limited.response) return limited.response;
+
     const body = await request.json();
     const { recipientId } = body;
 
@@ -122,6 +128,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid recipient id' }, { status: 400 });
     }
 
+    const mute = await getActiveMute(viewerId);
+    if (mute) {
+      return NextResponse.json({ error: getMuteMessage(mute) }, { status: 403 });
+    }
+
     if (!content) {
       return NextResponse.json({ error: 'Message content required' }, { status: 400 });
     }
@@ -146,7 +157,7 @@ export async function POST(request: NextRequest) {
       getNewMessageEmailTemplate(senderName, messagePreview)
     ).catch(err => console.error('Failed to send message email:', err));
 
-    return NextResponse.json(inserted, { status: 201 });
+    return NextResponse.json(inserted, { status: 201, headers: limited.headers });
   } catch (error: any) {
     console.error('Error sending message:', error);
     return NextResponse.json({ error: 'Failed to send message' }, { status: 500 });
@@ -1,23 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import bcrypt from 'bcryptjs';
 import { db } from '@/db';
-import { users, apiKeys, donationRanks } from '@/db/schema';
+import { users, donationRanks } from '@/db/schema';
 import { eq, sql } from 'drizzle-orm';
 import { formatUUID } from '@/lib/minecraft';
-
-// Verify API key from Minecraft server/mod
-async function verifyApiKey(apiKey: string): Promise<boolean> {
-  if (!apiKey) return false;
-
-  try {
-    const key = await db.query.apiKeys.findFirst({
-      where: eq(apiKeys.key, apiKey),
-    });
-    return !!key;
-  } catch {
-    return false;
-  }
-}
+import { getActiveBan, toBanInfo } from '@/lib/sanctions';
+import { requireApiKey } from '@/lib/api-keys';
 
 /**
  * POST /api/minecraft/login
@@ -35,26 +23,14 @@ async function verifyApiKey(apiKey: string): Promise<boolean> {
  *   success: boolean
  *   user?: { id, username, minecraftUsername, role, level, xp, donationRank }
  *   error?: string
+ *   banned?: boolean (403 with ban details when the account is banned)
+ *   ban?: { type, reason, expiresAt, permanent, message, appealUrl }
  */
 export async function POST(request: NextRequest) {
   try {
     // Verify API key
-    const apiKey = request.headers.get('x-api-key') || request.headers.get('authorization')?.replace('Bearer ', '');
-
-    if (!apiKey) {
-      return NextResponse.json(
-        { success: false, error: 'API key required' },
-        { status: 401 }
-      );
-    }
-
-    const isValidKey = await verifyApiKey(apiKey);
-    if (!isValidKey) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid API key' },
-        { status: 403 }
-      );
-    }
+    const auth = await requireApiKey(request, 'login');
+    if (auth.response) return auth.response;
 
     // Parse request body
     const body = await request.json();
@@ -192,6 +168,19 @@ export async function POST(request: NextRequest) {
       }, { status: 401 });
     }
 
+    // Banned players get the ban details so the mod can kick them with the reason
+    const ban = await getActiveBan(user.id);
+    if (ban) {
+      console.log(`[Login] User ${user.username} is banned (sanction ${ban.id})`);
+      const banInfo = toBanInfo(ban);
+      return NextResponse.json({
+        success: false,
+        banned: true,
+        error: banInfo.message,
+        ban: banInfo,
+      }, { status: 403 });
+    }
+
     console.log(`[Login] Login successful for user ${user.username}`);
 
     // Reset failed attempts on successful login
@@ -206,9 +195,10 @@ export async function POST(request: NextRequest) {
 
     // Get donation rank details if user has one
     let donationRank = null;
-    if (user.donationRankId) {
+    const rankId = user.donationRankId || (user.rankPaused ? user.pausedRankId : null);
+    if (rankId) {
       const rank = await db.query.donationRanks.findFirst({
-        where: eq(donationRanks.id, user.donationRankId),
+        where: eq(donationRanks.id, rankId),
       });
 
       if (rank) {
@@ -245,7 +235,8 @@ export async function POST(request: NextRequest) {
         total_donated: user.totalDonated || 0,
         donationRank,
         donation_rank_id: user.donationRankId,
-        donation_rank: donationRank ? {
+        // Legacy field: paused ranks only show up in donationRank (isPaused)
+        donation_rank: donationRank && !donationRank.isPaused ? {
           id: donationRank.id,
           name: donationRank.name,
           color: donationRank.color,
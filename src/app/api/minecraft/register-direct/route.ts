@@ -1,23 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { users, registrationCodes, apiKeys, donationRanks } from '@/db/schema';
+import { users, registrationCodes, donationRanks } from '@/db/schema';
 import { eq, and, sql } from 'drizzle-orm';
 import bcrypt from 'bcryptjs';
 import { fetchMinecraftUUID, formatUUID } from '@/lib/minecraft';
-
-// Verify API key from Minecraft server/mod
-async function verifyApiKey(apiKey: string): Promise<boolean> {
-  if (!apiKey) return false;
-  
-  try {
-    const key = await db.query.apiKeys.findFirst({
-      where: eq(apiKeys.key, apiKey),
-    });
-    return !!key;
-  } catch {
-    return false;
-  }
-}
+import { claimPendingGifts } from '@/lib/rank-gifts';
+import { requireApiKey } from '@/lib/api-keys';
 
 /**
  * POST /api/minecraft/register-direct
@@ -27,22 +15,8 @@ async function verifyApiKey(apiKey: string): Promise<boolean> {
 export async function POST(request: NextRequest) {
   try {
     // Verify API key
-    const apiKey = request.headers.get('x-api-key') || request.headers.get('authorization')?.replace('Bearer ', '');
-    
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'API key required' },
-        { status: 401 }
-      );
-    }
-
-    const isValidKey = await verifyApiKey(apiKey);
-    if (!isValidKey) {
-      return NextResponse.json(
-        { error: 'Invalid API key' },
-        { status: 403 }
-      );
-    }
+    const auth = await requireApiKey(request, 'register');
+    if (auth.response) return auth.response;
 
     const body = await request.json();
     let { minecraft_username, minecraft_uuid, password } = body;
@@ -164,6 +138,8 @@ export async function POST(request: NextRequest) {
           )
         );
 
+      await claimPendingGifts(existingUsername.id, minecraft_uuid);
+
       // Fetch donation rank if any
       let donationRank = null;
       if (existingUsername.donationRankId) {
@@ -218,6 +194,9 @@ export async function POST(request: NextRequest) {
         )
       );
 
+    // Hand over any ranks gifted to this player before they had an account
+    await claimPendingGifts(newUser.id, minecraft_uuid);
+
     // Fetch donation rank if any
     let donationRank = null;
     if (newUser.donationRankId) {
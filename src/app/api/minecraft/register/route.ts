@@ -1,23 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { registrationCodes, apiKeys, users } from '@/db/schema';
+import { registrationCodes, users } from '@/db/schema';
 import { eq, sql } from 'drizzle-orm';
 import crypto from 'crypto';
 import { fetchMinecraftUUID, formatUUID } from '@/lib/minecraft';
-
-// Verify API key from Minecraft server/mod
-async function verifyApiKey(apiKey: string): Promise<boolean> {
-  if (!apiKey) return false;
-  
-  try {
-    const key = await db.query.apiKeys.findFirst({
-      where: eq(apiKeys.key, apiKey),
-    });
-    return !!key;
-  } catch {
-    return false;
-  }
-}
+import { requireApiKey } from '@/lib/api-keys';
 
 // Generate a unique registration code
 function generateRegistrationCode(): string {
@@ -32,22 +19,8 @@ function generateRegistrationCode(): string {
 export async function POST(request: NextRequest) {
   try {
     // Verify API key
-    const apiKey = request.headers.get('x-api-key') || request.headers.get('authorization')?.replace('Bearer ', '');
-    
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'API key required' },
-        { status: 401 }
-      );
-    }
-
-    const isValidKey = await verifyApiKey(apiKey);
-    if (!isValidKey) {
-      return NextResponse.json(
-        { error: 'Invalid API key' },
-        { status: 403 }
-      );
-    }
+    const auth = await requireApiKey(request, 'register');
+    if (auth.response) return auth.response;
 
     const body = await request.json();
     // Accept both snake_case (from mod) and camelCase
@@ -193,22 +166,8 @@ export async function POST(request: NextRequest) {
  */
 export async function GET(request: NextRequest) {
   try {
-    const apiKey = request.headers.get('x-api-key') || request.headers.get('authorization')?.replace('Bearer ', '');
-    
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'API key required' },
-        { status: 401 }
-      );
-    }
-
-    const isValidKey = await verifyApiKey(apiKey);
-    if (!isValidKey) {
-      return NextResponse.json(
-        { error: 'Invalid API key' },
-        { status: 403 }
-      );
-    }
+    const auth = await requireApiKey(request, 'register');
+    if (auth.response) return auth.response;
 
     const { searchParams } = new URL(request.url);
     const uuid = searchParams.get('uuid');
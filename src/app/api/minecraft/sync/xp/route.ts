@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { users, servers, serverXp, apiKeys, minecraftPlayers } from '@/db/schema';
+import { users, servers, serverXp, minecraftPlayers } from '@/db/schema';
 import { eq, and, sql } from 'drizzle-orm';
 import { getLevelForXp } from '@/lib/xp-math';
+import { trackAchievementProgress } from '@/lib/achievements';
+import { requireApiKey } from '@/lib/api-keys';
 
 interface PlayerData {
     uuid: string;
@@ -25,43 +27,26 @@ interface SyncRequest {
  * This endpoint syncs XP for ALL players:
  * - Registered users: XP stored in serverXp table and aggregated to user's total
  * - Unregistered players: XP stored in minecraftPlayers table for leaderboard display
+ *
+ * Requires a key with the xp:sync scope. Keys bound to a server can only
+ * sync for that server.
  */
 export async function POST(request: NextRequest) {
     try {
-        // Get API key from either x-api-key header or Authorization header
-        const apiKey = request.headers.get('x-api-key') ||
-            request.headers.get('authorization')?.replace(/^Bearer\s+/i, '').trim();
-
-        console.log('[XP Sync] API key present:', !!apiKey);
-
-        if (!apiKey) {
-            return NextResponse.json(
-                { success: false, error: 'API key required' },
-                { status: 401 }
-            );
-        }
-
-        // Validate API key from apiKeys table
-        const validKey = await db.query.apiKeys.findFirst({
-            where: eq(apiKeys.key, apiKey),
-        });
-
-        if (!validKey) {
-            console.log('[XP Sync] API key not found in database');
-            return NextResponse.json(
-                { success: false, error: 'Invalid API key' },
-                { status: 403 }
-            );
-        }
-
         // Parse request body
         const body: SyncRequest = await request.json();
         const { serverName, players } = body;
 
         // Find server by name
-        const server = await db.query.servers.findFirst({
-            where: eq(servers.name, serverName),
-        });
+        const server = serverName
+            ? await db.query.servers.findFirst({
+                where: eq(servers.name, serverName),
+            })
+            : undefined;
+
+        // Keys bound to a server may only report for that server
+        const auth = await requireApiKey(request, 'xp:sync', { serverId: server?.id ?? null });
+        if (auth.response) return auth.response;
 
         if (!server) {
             return NextResponse.json(
@@ -176,6 +161,8 @@ export async function POST(request: NextRequest) {
                         })
                         .where(eq(users.id, user.id));
 
+                    trackAchievementProgress(user.id, 'playtime_hours', 'level', 'total_xp');
+
                     // Also update/link the minecraftPlayers record if it exists
                     await db
                         .update(minecraftPlayers)
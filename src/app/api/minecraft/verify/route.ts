@@ -1,46 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { users, apiKeys } from '@/db/schema';
+import { users } from '@/db/schema';
 import { eq, sql } from 'drizzle-orm';
 import { formatUUID } from '@/lib/minecraft';
-
-// Verify API key from Minecraft server/mod
-async function verifyApiKey(apiKey: string): Promise<boolean> {
-  if (!apiKey) return false;
-  
-  try {
-    const key = await db.query.apiKeys.findFirst({
-      where: eq(apiKeys.key, apiKey),
-    });
-    return !!key;
-  } catch {
-    return false;
-  }
-}
+import { getActiveBan, toBanInfo } from '@/lib/sanctions';
+import { claimPendingGifts } from '@/lib/rank-gifts';
+import { requireApiKey } from '@/lib/api-keys';
 
 /**
  * GET /api/minecraft/verify?uuid=<uuid>
  * Verify a player's account and get their info
  * Used by the Minecraft mod to check player status
+ * `banned` and `ban` tell the mod to kick the player
  */
 export async function GET(request: NextRequest) {
   try {
-    const apiKey = request.headers.get('x-api-key') || request.headers.get('authorization')?.replace('Bearer ', '');
-    
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'API key required' },
-        { status: 401 }
-      );
-    }
-
-    const isValidKey = await verifyApiKey(apiKey);
-    if (!isValidKey) {
-      return NextResponse.json(
-        { error: 'Invalid API key' },
-        { status: 403 }
-      );
-    }
+    const auth = await requireApiKey(request, 'verify');
+    if (auth.response) return auth.response;
 
     const { searchParams } = new URL(request.url);
     let uuid = searchParams.get('uuid');
@@ -100,6 +76,7 @@ export async function GET(request: NextRequest) {
               minecraftUsername: username
             })
             .where(eq(users.id, user.id));
+          await claimPendingGifts(user.id, uuid);
         }
       }
     }
@@ -114,9 +91,13 @@ export async function GET(request: NextRequest) {
     }
 
     console.log(`[Verify] Found user: ${user.username} (ID: ${user.id})`);
+    const ban = await getActiveBan(user.id);
+
     return NextResponse.json({
       verified: true,
       registered: true, // For mod compatibility
+      banned: !!ban,
+      ban: ban ? toBanInfo(ban) : null,
       user: {
         id: user.id,
         username: user.username,
@@ -144,25 +125,12 @@ export async function GET(request: NextRequest) {
 /**
  * POST /api/minecraft/verify
  * Update player's last login from Minecraft
+ * action=login answers with `banned` and `ban` instead for banned players
  */
 export async function POST(request: NextRequest) {
   try {
-    const apiKey = request.headers.get('x-api-key') || request.headers.get('authorization')?.replace('Bearer ', '');
-    
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'API key required' },
-        { status: 401 }
-      );
-    }
-
-    const isValidKey = await verifyApiKey(apiKey);
-    if (!isValidKey) {
-      return NextResponse.json(
-        { error: 'Invalid API key' },
-        { status: 403 }
-      );
-    }
+    const auth = await requireApiKey(request, 'verify');
+    if (auth.response) return auth.response;
 
     const body = await request.json();
     const { uuid, action } = body;
@@ -187,6 +155,17 @@ export async function POST(request: NextRequest) {
 
     // Handle different actions
     if (action === 'login') {
+      // Don't record logins for banned players; the mod should kick them
+      const ban = await getActiveBan(user.id);
+      if (ban) {
+        return NextResponse.json({
+          success: false,
+          banned: true,
+          message: 'Player is banned',
+          ban: toBanInfo(ban),
+        });
+      }
+
       await db
         .update(users)
         .set({ lastLoginAt: new Date() })
@@ -1,21 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { users, apiKeys, xpTransactions } from '@/db/schema';
+import { users, xpTransactions } from '@/db/schema';
 import { eq } from 'drizzle-orm';
-
-// Verify API key from Minecraft server/mod
-async function verifyApiKey(apiKey: string): Promise<boolean> {
-  if (!apiKey) return false;
-
-  try {
-    const key = await db.query.apiKeys.findFirst({
-      where: eq(apiKeys.key, apiKey),
-    });
-    return !!key;
-  } catch {
-    return false;
-  }
-}
+import { requireApiKey } from '@/lib/api-keys';
 
 // Calculate level from XP
 function calculateLevel(xp: number): number {
@@ -26,25 +13,13 @@ function calculateLevel(xp: number): number {
 /**
  * POST /api/minecraft/xp
  * Award XP to a player from in-game actions
+ * Needs an xp:sync key that isn't bound to a server
  */
 export async function POST(request: NextRequest) {
   try {
-    const apiKey = request.headers.get('x-api-key') || request.headers.get('authorization')?.replace('Bearer ', '');
-
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'API key required' },
-        { status: 401 }
-      );
-    }
-
-    const isValidKey = await verifyApiKey(apiKey);
-    if (!isValidKey) {
-      return NextResponse.json(
-        { error: 'Invalid API key' },
-        { status: 403 }
-      );
-    }
+    // Site-wide XP isn't tied to a server, so keys bound to one are refused
+    const auth = await requireApiKey(request, 'xp:sync', { serverId: null });
+    if (auth.response) return auth.response;
 
     const body = await request.json();
     const { uuid, amount, source, description } = body;
@@ -119,25 +94,13 @@ export async function POST(request: NextRequest) {
 /**
  * GET /api/minecraft/xp?uuid=<uuid>
  * Get player's XP and level
+ * Needs an xp:sync key that isn't bound to a server
  */
 export async function GET(request: NextRequest) {
   try {
-    const apiKey = request.headers.get('x-api-key') || request.headers.get('authorization')?.replace('Bearer ', '');
-
-    if (!apiKey) {
-      return NextResponse.json(
-        { error: 'API key required' },
-        { status: 401 }
-      );
-    }
-
-    const isValidKey = await verifyApiKey(apiKey);
-    if (!isValidKey) {
-      return NextResponse.json(
-        { error: 'Invalid API key' },
-        { status: 403 }
-      );
-    }
+    // Site-wide XP isn't tied to a server, so keys bound to one are refused
+    const auth = await requireApiKey(request, 'xp:sync', { serverId: null });
+    if (auth.response) return auth.response;
 
     const { searchParams } = new URL(request.url);
     const uuid = searchParams.get('uuid');
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../auth';
+import { fileReport } from '@/lib/reports';
+import { sanitizeContent } from '@/lib/sanitize';
+
+/**
+ * POST /api/reports
+ * Report a post, reply, comment, private message or profile to the moderators
+ * Body: { contentType, contentId, reason, description? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const reporterId = parseInt(session.user.id as string);
+    const body = await request.json();
+
+    const result = await fileReport(reporterId, {
+      contentType: body.contentType,
+      contentId: body.contentId,
+      reason: body.reason,
+      description: sanitizeContent(body.description || '', 1000) || null,
+    });
+
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: result.status || 400 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error filing report:', error);
+    return NextResponse.json({ error: 'Failed to submit report' }, { status: 500 });
+  }
+}
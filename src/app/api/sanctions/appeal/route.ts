@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBanNotice, submitBanAppeal } from '@/lib/sanctions';
+import { sanitizeContent } from '@/lib/sanitize';
+
+/**
+ * GET /api/sanctions/appeal?token=...
+ * Ban notice for a banned user, including the state of their appeal
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const token = request.nextUrl.searchParams.get('token') || '';
+        const notice = await getBanNotice(token);
+
+        if (!notice) {
+            return NextResponse.json({ error: 'This link is invalid' }, { status: 404 });
+        }
+
+        return NextResponse.json({ ban: notice });
+    } catch (error: any) {
+        console.error('Error fetching ban notice:', error);
+        return NextResponse.json({ error: 'Failed to load ban details' }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/sanctions/appeal
+ * Appeal a ban. Opens a helpdesk ticket for the staff team.
+ * Body: { token: string, message: string }
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const token = typeof body.token === 'string' ? body.token : '';
+        const message = sanitizeContent(body.message || '', 5000);
+
+        if (message.trim().length < 20) {
+            return NextResponse.json(
+                { error: 'Please explain why the ban should be lifted (at least 20 characters)' },
+                { status: 400 }
+            );
+        }
+
+        const result = await submitBanAppeal(token, message);
+
+        if (result.error) {
+            return NextResponse.json({ error: result.error }, { status: result.status || 400 });
+        }
+
+        return NextResponse.json({ success: true, ticketNumber: result.ticketNumber });
+    } catch (error: any) {
+        console.error('Error submitting ban appeal:', error);
+        return NextResponse.json({ error: 'Failed to submit appeal' }, { status: 500 });
+    }
+}
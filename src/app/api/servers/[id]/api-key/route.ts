@@ -1,26 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { servers, apiKeys } from '@/db/schema';
-import { eq, and, like } from 'drizzle-orm';
-import { randomBytes } from 'crypto';
-
-// Generate a secure random API key
-function generateSecureApiKey(): string {
-    return `vxn_${randomBytes(32).toString('hex')}`;
-}
+import { servers } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { requirePermission } from '@/lib/auth-guard';
+import { logAudit } from '@/lib/audit-log';
+import {
+    DEFAULT_SERVER_KEY_SCOPES,
+    createApiKey,
+    deleteApiKey,
+    getServerApiKey,
+    rotateApiKey,
+} from '@/lib/api-keys';
 
 /**
  * POST /api/servers/[id]/api-key
- * Generate or regenerate an API key for a server
- * 
- * API keys are stored in the apiKeys table with a naming convention:
- * server_<serverId>_key
+ * Generate or regenerate the API key bound to a server. The key is only
+ * returned here. New keys only have the xp:sync scope and can only report XP
+ * for this server.
  */
 export async function POST(
     request: NextRequest,
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
+        const { error, user } = await requirePermission('servers:write');
+        if (error) return error;
+
         const { id } = await params;
         const serverId = parseInt(id, 10);
 
@@ -43,32 +48,26 @@ export async function POST(
             );
         }
 
-        // Generate new API key
-        const apiKey = generateSecureApiKey();
-        const keyName = `server_${serverId}_key`;
-
-        // Check if an API key already exists for this server
-        const existingKey = await db.query.apiKeys.findFirst({
-            where: eq(apiKeys.name, keyName),
+        // Regenerating keeps any scope changes made on the API keys page
+        const existingKey = await getServerApiKey(serverId);
+        const apiKey = existingKey
+            ? await rotateApiKey(existingKey.id)
+            : (await createApiKey({
+                name: `server_${serverId}_key`,
+                scopes: DEFAULT_SERVER_KEY_SCOPES,
+                serverId,
+                createdBy: parseInt(user!.id),
+            })).key;
+
+        await logAudit({
+            userId: user!.id,
+            action: existingKey ? 'rotate_api_key' : 'create_api_key',
+            resource: 'server',
+            resourceId: serverId,
+            details: { name: server.name },
+            request,
         });
 
-        if (existingKey) {
-            // Update existing key
-            await db
-                .update(apiKeys)
-                .set({
-                    key: apiKey,
-                    updatedAt: new Date(),
-                })
-                .where(eq(apiKeys.name, keyName));
-        } else {
-            // Create new key entry
-            await db.insert(apiKeys).values({
-                name: keyName,
-                key: apiKey,
-            });
-        }
-
         return NextResponse.json({
             success: true,
             apiKey,
@@ -93,6 +92,9 @@ export async function GET(
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
+        const { error } = await requirePermission('servers:write');
+        if (error) return error;
+
         const { id } = await params;
         const serverId = parseInt(id, 10);
 
@@ -103,10 +105,7 @@ export async function GET(
             );
         }
 
-        const keyName = `server_${serverId}_key`;
-        const keyEntry = await db.query.apiKeys.findFirst({
-            where: eq(apiKeys.name, keyName),
-        });
+        const keyEntry = await getServerApiKey(serverId);
 
         if (!keyEntry) {
             return NextResponse.json({
@@ -115,11 +114,8 @@ export async function GET(
             });
         }
 
-        // Return masked key (show first 4 and last 4 characters)
-        const fullKey = keyEntry.key;
-        const maskedKey = fullKey.length > 12
-            ? `${fullKey.substring(0, 8)}...${fullKey.substring(fullKey.length - 4)}`
-            : '****';
+        // Only the start of the key is stored in readable form
+        const maskedKey = `${keyEntry.keyPrefix}...`;
 
         return NextResponse.json({
             hasKey: true,
@@ -144,6 +140,9 @@ export async function DELETE(
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
+        const { error, user } = await requirePermission('servers:write');
+        if (error) return error;
+
         const { id } = await params;
         const serverId = parseInt(id, 10);
 
@@ -154,12 +153,19 @@ export async function DELETE(
             );
         }
 
-        const keyName = `server_${serverId}_key`;
-
-        // Remove API key entry
-        await db
-            .delete(apiKeys)
-            .where(eq(apiKeys.name, keyName));
+        const keyEntry = await getServerApiKey(serverId);
+        if (keyEntry) {
+            await deleteApiKey(keyEntry.id);
+
+            await logAudit({
+                userId: user!.id,
+                action: 'delete_api_key',
+                resource: 'server',
+                resourceId: serverId,
+                details: { name: keyEntry.name },
+                request,
+            });
+        }
 
         return NextResponse.json({
             success: true,
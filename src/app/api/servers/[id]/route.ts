@@ -59,6 +59,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       curseforgeUrl,
       pterodactylServerId,
       pterodactylPanelUrl,
+      pterodactylPanelId,
       maintenanceMode,
       maintenanceMessage,
     } = body;
@@ -79,6 +80,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         curseforgeUrl: curseforgeUrl || null,
         pterodactylServerId: pterodactylServerId || null,
         pterodactylPanelUrl: pterodactylPanelUrl || null,
+        pterodactylPanelId: pterodactylPanelId ? parseInt(pterodactylPanelId, 10) : null,
         maintenanceMode: maintenanceMode ?? false,
         maintenanceMessage: maintenanceMessage || null,
         updatedAt: new Date(),
@@ -56,6 +56,7 @@ export async function POST(request: NextRequest) {
       type,
       pterodactylServerId,
       pterodactylPanelUrl,
+      pterodactylPanelId,
       maintenanceMode,
       maintenanceMessage,
     } = body;
@@ -81,6 +82,7 @@ export async function POST(request: NextRequest) {
       curseforgeUrl: curseforgeUrl || null,
       pterodactylServerId: pterodactylServerId || null,
       pterodactylPanelUrl: pterodactylPanelUrl || null,
+      pterodactylPanelId: pterodactylPanelId ? parseInt(pterodactylPanelId, 10) : null,
       maintenanceMode: maintenanceMode || false,
       maintenanceMessage: maintenanceMessage || null,
       status: 'offline',
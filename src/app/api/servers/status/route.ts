@@ -58,32 +58,23 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // Fetch API keys for all servers
-    const serverKeyNames = allServers.map((s: any) => `server_${s.id}_key`);
+    // Prefixes of the API keys bound to each server (keys themselves are hashed)
     const apiKeyMap = new Map<number, string>();
 
     try {
-      console.log('[servers/status] Fetching API keys for:', serverKeyNames);
-      const allApiKeys = await db
-        .select()
+      const boundKeys = await db
+        .select({ serverId: apiKeys.serverId, keyPrefix: apiKeys.keyPrefix })
         .from(apiKeys)
-        .where(inArray(apiKeys.name, serverKeyNames));
+        .where(inArray(apiKeys.serverId, allServers.map((s: any) => s.id)))
+        .orderBy(asc(apiKeys.id));
 
-      console.log('[servers/status] Found API keys:', allApiKeys.length);
-      console.log('[servers/status] API keys data:', JSON.stringify(allApiKeys.map((k: any) => ({ name: k.name, hasKey: !!k.key }))));
-
-      // Create a map of server ID -> API key
-      for (const key of allApiKeys) {
-        const match = key.name.match(/^server_(\d+)_key$/);
-        if (match) {
-          apiKeyMap.set(parseInt(match[1]), key.key);
-          console.log('[servers/status] Mapped server', match[1], 'to key');
+      for (const key of boundKeys) {
+        if (key.serverId && key.keyPrefix && !apiKeyMap.has(key.serverId)) {
+          apiKeyMap.set(key.serverId, key.keyPrefix);
         }
       }
-      console.log('[servers/status] API key map size:', apiKeyMap.size);
     } catch (error: any) {
       console.error('[servers/status] Error fetching API keys:', error.message);
-      console.error('[servers/status] Full error:', error);
       // Continue without API keys rather than failing the whole request
     }
 
@@ -147,9 +138,10 @@ export async function GET(request: NextRequest) {
         bluemapUrl: server.bluemapUrl,
         curseforgeUrl: server.curseforgeUrl,
         orderIndex: server.orderIndex,
-        apiKey: apiKeyMap.get(Number(server.id)) || null,
+        apiKeyPrefix: apiKeyMap.get(Number(server.id)) || null,
         pterodactylServerId: server.pterodactylServerId,
         pterodactylPanelUrl: server.pterodactylPanelUrl,
+        pterodactylPanelId: server.pterodactylPanelId,
         // Live status data ONLY (no DB fallbacks for dynamic fields)
         online: data?.online ?? false,
         version,
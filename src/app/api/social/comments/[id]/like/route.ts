@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../../../auth';
+import { db } from '@/db';
+import { socialComments, socialCommentLikes } from '@/db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+
+/**
+ * POST /api/social/comments/[id]/like
+ * Toggle the current user's like on a comment
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const commentId = parseInt(id);
+    const userId = parseInt(session.user.id as string);
+
+    if (isNaN(commentId)) {
+      return NextResponse.json({ error: 'Invalid comment ID' }, { status: 400 });
+    }
+
+    const [comment] = await db
+      .select({ id: socialComments.id, userId: socialComments.userId })
+      .from(socialComments)
+      .where(eq(socialComments.id, commentId));
+
+    if (!comment) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    // Prevent self-liking
+    if (comment.userId === userId) {
+      return NextResponse.json(
+        { error: 'You cannot like your own comment', selfLike: true },
+        { status: 400 }
+      );
+    }
+
+    const [existing] = await db
+      .select({ id: socialCommentLikes.id })
+      .from(socialCommentLikes)
+      .where(and(eq(socialCommentLikes.commentId, commentId), eq(socialCommentLikes.userId, userId)));
+
+    if (existing) {
+      await db.delete(socialCommentLikes).where(eq(socialCommentLikes.id, existing.id));
+    } else {
+      await db.insert(socialCommentLikes).values({ commentId, userId });
+    }
+
+    // Recount rather than increment so the cached count can't drift
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(socialCommentLikes)
+      .where(eq(socialCommentLikes.commentId, commentId));
+
+    await db
+      .update(socialComments)
+      .set({ likesCount: Number(count) })
+      .where(eq(socialComments.id, commentId));
+
+    return NextResponse.json({ liked: !existing, likesCount: Number(count) });
+  } catch (error: any) {
+    console.error('Error toggling comment like:', error);
+    return NextResponse.json({ error: 'Failed to toggle like' }, { status: 500 });
+  }
+}
@@ -1,15 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '../../../../../../../auth';
 import { db } from '@/db';
-import { socialPosts, users } from '@/db/schema';
-import { eq } from 'drizzle-orm';
+import { socialComments, socialPosts } from '@/db/schema';
+import { eq, sql } from 'drizzle-orm';
+import { sanitizeContent } from '@/lib/sanitize';
+import { notifyCommentReply, notifyPostComment } from '@/lib/notifications';
+import { getPostComments, resolveReplyParent, MAX_COMMENT_LENGTH } from '@/lib/social-comments';
+import { getActiveMute, getMuteMessage } from '@/lib/sanctions';
+import { enforceRateLimit } from '@/lib/rate-limit';
 
 /**
- * Comments API for social posts
- * NOTE: The socialComments table does not exist in the current schema.
- * This is a placeholder that returns empty data until the schema is extended.
+ * GET /api/social/posts/[id]/comments
+ * Get a post's comments as threads
  */
-
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -24,7 +27,7 @@ export async function GET(
 
     // Check if post exists
     const [post] = await db
-      .select()
+      .select({ id: socialPosts.id })
       .from(socialPosts)
       .where(eq(socialPosts.id, postId));
 
@@ -32,14 +35,21 @@ export async function GET(
       return NextResponse.json({ error: 'Post not found' }, { status: 404 });
     }
 
-    // Comments table doesn't exist in schema - return empty array
-    return NextResponse.json([]);
+    const session = await auth();
+    const viewerId = session?.user?.id ? parseInt(session.user.id as string) : null;
+
+    return NextResponse.json(await getPostComments(postId, viewerId));
   } catch (error: any) {
     console.error('Error fetching comments:', error);
     return NextResponse.json({ error: 'Failed to fetch comments' }, { status: 500 });
   }
 }
 
+/**
+ * POST /api/social/posts/[id]/comments
+ * Comment on a post, or reply to a comment
+ * Body: { content: string, parentCommentId?: number }
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -52,11 +62,27 @@ export async function POST(
 
     const { id } = await params;
     const postId = parseInt(id);
+    const userId = parseInt(session.user.id as string);
+
+    const limited = await enforceRateLimit(request, 'social-comment', `user:${userId}`);
+    if (limited.response) return limited.response;
 
     if (isNaN(postId)) {
       return NextResponse.json({ error: 'Invalid post ID' }, { status: 400 });
     }
 
+    const mute = await getActiveMute(userId);
+    if (mute) {
+      return NextResponse.json({ error: getMuteMessage(mute) }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const content = sanitizeContent(body.content, MAX_COMMENT_LENGTH);
+
+    if (!content) {
+      return NextResponse.json({ error: 'Comment content is required' }, { status: 400 });
+    }
+
     // Check if post exists
     const [post] = await db
       .select()
@@ -67,11 +93,50 @@ export async function POST(
       return NextResponse.json({ error: 'Post not found' }, { status: 404 });
     }
 
-    // Comments table doesn't exist in schema - feature not available
-    return NextResponse.json(
-      { error: 'Comments feature not available. Schema needs to be extended.' },
-      { status: 501 }
-    );
+    let parentCommentId: number | null = null;
+    let parentAuthorId: number | null = null;
+
+    if (body.parentCommentId !== undefined && body.parentCommentId !== null) {
+      const [parent] = await db
+        .select({
+          id: socialComments.id,
+          postId: socialComments.postId,
+          userId: socialComments.userId,
+          parentCommentId: socialComments.parentCommentId,
+        })
+        .from(socialComments)
+        .where(eq(socialComments.id, parseInt(body.parentCommentId)));
+
+      if (!parent || parent.postId !== postId) {
+        return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+      }
+
+      parentCommentId = await resolveReplyParent(parent);
+      parentAuthorId = parent.userId;
+    }
+
+    const [comment] = await db
+      .insert(socialComments)
+      .values({ postId, userId, content, parentCommentId })
+      .returning();
+
+    await db
+      .update(socialPosts)
+      .set({ commentsCount: sql`COALESCE(${socialPosts.commentsCount}, 0) + 1` })
+      .where(eq(socialPosts.id, postId));
+
+    const commenterName = session.user.name || session.user.username || 'Someone';
+
+    // The person being replied to hears about it; the post author hears about
+    // everything else on their post. Nobody is notified about their own comment.
+    if (parentAuthorId && parentAuthorId !== userId) {
+      await notifyCommentReply(parentAuthorId, commenterName, postId);
+    }
+    if (post.userId !== userId && post.userId !== parentAuthorId) {
+      await notifyPostComment(post.userId, commenterName, postId);
+    }
+
+    return NextResponse.json(comment, { status: 201, headers: limited.headers });
   } catch (error: any) {
     console.error('Error creating comment:', error);
     return NextResponse.json({ error: 'Failed to create comment' }, { status: 500 });
@@ -3,6 +3,7 @@ import { auth } from '../../../../../../auth';
 import { db } from '@/db';
 import { socialPosts, users } from '@/db/schema';
 import { eq } from 'drizzle-orm';
+import { getPostComments } from '@/lib/social-comments';
 
 export async function GET(
   request: NextRequest,
@@ -23,6 +24,7 @@ export async function GET(
         id: socialPosts.id,
         content: socialPosts.content,
         likesCount: socialPosts.likesCount,
+        commentsCount: socialPosts.commentsCount,
         createdAt: socialPosts.createdAt,
         userId: socialPosts.userId,
         username: users.username,
@@ -37,10 +39,12 @@ export async function GET(
       return NextResponse.json({ error: 'Post not found' }, { status: 404 });
     }
 
+    const session = await auth();
+    const viewerId = session?.user?.id ? parseInt(session.user.id as string) : null;
+
     return NextResponse.json({
       ...post,
-      // Comments feature not available - no socialComments table in schema
-      comments: [],
+      comments: await getPostComments(postId, viewerId),
       userLiked: false, // Can't track without socialLikes table
     });
   } catch (error: any) {
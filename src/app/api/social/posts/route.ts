@@ -4,6 +4,9 @@ import { db } from '@/db';
 import { socialPosts, users } from '@/db/schema';
 import { desc, eq } from 'drizzle-orm';
 import { sanitizeContent } from '@/lib/sanitize';
+import { trackAchievementProgress } from '@/lib/achievements';
+import { getActiveMute, getMuteMessage } from '@/lib/sanctions';
+import { enforceRateLimit } from '@/lib/rate-limit';
 
 // Force dynamic - always fetch fresh data
 export const dynamic = 'force-dynamic';
@@ -53,6 +56,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const limited = await enforceRateLimit(request, 'social-post', `user:${session.user.id}`);
+    if (limited.response) return limited.response;
+
+    const mute = await getActiveMute(parseInt(session.user.id as string));
+    if (mute) {
+      return NextResponse.json({ error: getMuteMessage(mute) }, { status: 403 });
+    }
+
     const body = await request.json();
 
     // Sanitize content
@@ -80,7 +91,9 @@ export async function POST(request: NextRequest) {
       likesCount: 0,
     }).returning();
 
-    return NextResponse.json(newPost, { status: 201 });
+    trackAchievementProgress(userId, 'social_posts');
+
+    return NextResponse.json(newPost, { status: 201, headers: limited.headers });
   } catch (error: any) {
     console.error('Error creating post:', error);
     return NextResponse.json(
@@ -11,6 +11,8 @@ import { users, donationRanks } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import { isSquareConfigured } from '@/lib/square';
 import { getPaymentProvider } from '@/lib/kofi';
+import { checkGiftRecipient, normalizeGiftMessage } from '@/lib/rank-gifts';
+import { quoteRankPurchase } from '@/lib/promotions';
 import crypto from 'crypto';
 
 export async function POST(request: NextRequest) {
@@ -44,7 +46,7 @@ export async function POST(request: NextRequest) {
 
         const userId = parseInt(session.user.id as string);
         const body = await request.json();
-        const { rankId, amount, days, paymentType } = body;
+        const { rankId, amount, days, paymentType, giftRecipient, giftMessage, promoCode } = body;
 
         // Validate input - require amount always, other fields depend on payment type
         if (amount === undefined || amount === null) {
@@ -73,6 +75,9 @@ export async function POST(request: NextRequest) {
 
         let rankName = 'One-Time Donation';
         let daysValue = 0;
+        let chargeAmount = parseFloat(amount);
+        let giftMetadata: Record<string, string> = {};
+        let promoMetadata: Record<string, string> = {};
 
         if (!isOneTimeTip) {
             // Get rank details for rank purchases
@@ -91,6 +96,43 @@ export async function POST(request: NextRequest) {
 
             rankName = rank.name;
             daysValue = parseInt(days) || 30;
+
+            // Rank prices are worked out here, never taken from the client
+            const { quote, error: quoteError } = await quoteRankPurchase({
+                rank,
+                days: daysValue,
+                userId,
+                promoCode,
+            });
+            if (!quote) {
+                return NextResponse.json(
+                    { error: quoteError },
+                    { status: 400 }
+                );
+            }
+
+            chargeAmount = quote.amount;
+            promoMetadata = {
+                ...(quote.promoCode ? { promoCode: quote.promoCode } : {}),
+                discountAmount: quote.discountAmount.toString(),
+            };
+
+            // Gifts: the rank goes to another player once paid
+            if (giftRecipient !== undefined && giftRecipient !== null && giftRecipient !== '') {
+                const gift = await checkGiftRecipient(giftRecipient, userId);
+                if (!gift.recipient) {
+                    return NextResponse.json(
+                        { error: gift.error },
+                        { status: 400 }
+                    );
+                }
+
+                const message = normalizeGiftMessage(giftMessage);
+                giftMetadata = {
+                    giftRecipient: gift.recipient.name,
+                    ...(message ? { giftMessage: message } : {}),
+                };
+            }
         }
 
         // Subscriptions are no longer offered
@@ -106,7 +148,7 @@ export async function POST(request: NextRequest) {
         const squareClient = await client();
         const config = await (await import('@/lib/square')).loadSquareConfig();
 
-        const amountInCents = Math.round(parseFloat(amount) * 100);
+        const amountInCents = Math.round(chargeAmount * 100);
 
         const orderResponse = await squareClient.ordersApi.createOrder({
             order: {
@@ -119,7 +161,9 @@ export async function POST(request: NextRequest) {
                             amount: BigInt(amountInCents),
                             currency: 'USD',
                         },
-                        note: isOneTimeTip ? 'Thank you for your support!' : `${daysValue} days of ${rankName} rank benefits`,
+                        note: isOneTimeTip
+                            ? 'Thank you for your support!'
+                            : `${daysValue} days of ${rankName} rank benefits${giftMetadata.giftRecipient ? ` for ${giftMetadata.giftRecipient}` : ''}`,
                     },
                 ],
                 metadata: {
@@ -128,6 +172,8 @@ export async function POST(request: NextRequest) {
                     rankName,
                     days: daysValue.toString(),
                     type: 'one_time',
+                    ...giftMetadata,
+                    ...promoMetadata,
                 },
             },
             idempotencyKey: `ord-${crypto.randomUUID()}`,
@@ -145,9 +191,10 @@ export async function POST(request: NextRequest) {
         // Client will show Square Web Payments SDK card form and call /api/square/pay
         return NextResponse.json({
             orderId,
-            amount: parseFloat(amount),
+            amount: chargeAmount,
             rankName,
             days: daysValue,
+            giftRecipient: giftMetadata.giftRecipient,
             // No URL - client handles payment modal
         });
     } catch (error: any) {
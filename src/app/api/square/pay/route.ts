@@ -10,7 +10,11 @@ import { db } from '@/db';
 import { users } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import { getSquareClient, loadSquareConfig, isSquareConfigured } from '@/lib/square';
+import { trackAchievementProgress } from '@/lib/achievements';
 import { getPaymentProvider } from '@/lib/kofi';
+import { processDonation } from '@/lib/donations';
+import { recordPromoCodeUse } from '@/lib/promotions';
+import { checkGoalMilestones } from '@/lib/donation-goals';
 import crypto from 'crypto';
 
 export async function POST(request: NextRequest) {
@@ -94,6 +98,8 @@ export async function POST(request: NextRequest) {
         const rankId = order.metadata?.rankId;
         const days = parseInt(order.metadata?.days || '30');
         const rankName = order.metadata?.rankName || 'Rank';
+        const promoCode = order.metadata?.promoCode;
+        const discountAmount = parseFloat(order.metadata?.discountAmount || '0');
 
         // Get amount from order total
         const amountInCents = Number(order.totalMoney?.amount || 0);
@@ -128,6 +134,37 @@ export async function POST(request: NextRequest) {
         const amountInDollars = amountInCents / 100;
         console.log(`✅ Square payment successful: ${paymentId} for order ${orderId}, user ${userId}`);
 
+        // Gifts go to someone else, which the shared donation flow handles
+        if (order.metadata?.giftRecipient && rankId && rankId !== 'one-time') {
+            const result = await processDonation({
+                userId,
+                amount: amountInDollars,
+                currency: 'USD',
+                method: 'square',
+                paymentType: 'one_time',
+                transactionId: `square_${paymentId}`,
+                rankId,
+                days,
+                giftRecipient: order.metadata.giftRecipient,
+                giftMessage: order.metadata.giftMessage,
+                promoCode,
+                discountAmount,
+            });
+
+            if (!result.success) {
+                // The card was charged; the payment webhook retries the gift
+                console.error('Failed to record Square gift:', result.error);
+            }
+
+            return NextResponse.json({
+                success: true,
+                paymentId,
+                orderId,
+                rankUpdated: false,
+                giftRecipient: order.metadata.giftRecipient,
+            });
+        }
+
         // Immediately update user's rank (don't wait for webhook)
         const now = new Date();
         let newExpiresAt: Date;
@@ -161,7 +198,7 @@ export async function POST(request: NextRequest) {
 
         // Record donation in database
         const { donations } = await import('@/db/schema');
-        await db.insert(donations).values({
+        const [donation] = await db.insert(donations).values({
             userId,
             amount: amountInDollars,
             currency: 'USD',
@@ -172,7 +209,15 @@ export async function POST(request: NextRequest) {
             paymentType: 'one_time',
             status: 'completed',
             message: `Order: ${orderId}`,
-        });
+            promoCode: promoCode || null,
+            discountAmount,
+        }).returning({ id: donations.id });
+
+        if (promoCode) {
+            await recordPromoCodeUse(promoCode, { userId, donationId: donation.id });
+        }
+
+        trackAchievementProgress(userId, 'donations', 'total_donated');
 
         console.log(`✅ Square rank updated: user ${userId}, rank ${rankId}, expires ${newExpiresAt.toISOString()}`);
 
@@ -192,6 +237,8 @@ export async function POST(request: NextRequest) {
             console.error('Failed to load Discord notification module:', e);
         }
 
+        await checkGoalMilestones();
+
         // Send email receipt (non-blocking)
         try {
             if (user.email) {
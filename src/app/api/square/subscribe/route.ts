@@ -18,6 +18,7 @@ import {
     isSquareConfigured
 } from '@/lib/square';
 import { getPaymentProvider } from '@/lib/kofi';
+import { trackAchievementProgress } from '@/lib/achievements';
 
 export async function POST(request: NextRequest) {
     try {
@@ -162,6 +163,8 @@ export async function POST(request: NextRequest) {
             message: `${rank.name} Monthly Subscription`,
         });
 
+        trackAchievementProgress(userId, 'donations', 'total_donated');
+
         console.log(`✅ Square subscription ${subscriptionId} created for user ${userId}, rank ${rank.name}`);
 
         // Send Discord donation notification (non-blocking)
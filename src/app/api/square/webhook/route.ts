@@ -6,12 +6,13 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import type { Client, Payment } from 'square';
 import { db } from '@/db';
 import { users, donations } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import { verifyWebhookSignature } from '@/lib/square';
 import { getPaymentProvider } from '@/lib/kofi';
-import { processDonation } from '@/lib/donations';
+import { processDonation, processDonationReversal } from '@/lib/donations';
 
 /**
  * Square webhook payload structure
@@ -37,6 +38,15 @@ interface SquareWebhookEvent {
                 receipt_url?: string;
                 buyer_email_address?: string;
             };
+            refund?: {
+                id: string;
+                status: string;
+                payment_id: string;
+                amount_money: {
+                    amount: number;
+                    currency: string;
+                };
+            };
             subscription?: {
                 id: string;
                 status: string;
@@ -100,6 +110,10 @@ export async function POST(request: NextRequest) {
             case 'invoice.payment_made':
                 await handleInvoicePaymentMade(event);
                 break;
+            case 'refund.created':
+            case 'refund.updated':
+                await handleRefundUpdated(event);
+                break;
             default:
                 console.log(`Square webhook type ${event.type} not handled`);
         }
@@ -148,6 +162,10 @@ async function handlePaymentUpdated(event: SquareWebhookEvent) {
         rankId,
         days,
         receiptUrl: payment.receipt_url,
+        giftRecipient: metadata.giftRecipient,
+        giftMessage: metadata.giftMessage,
+        promoCode: metadata.promoCode,
+        discountAmount: parseFloat(metadata.discountAmount || '0'),
     });
 }
 
@@ -231,6 +249,73 @@ async function handleInvoicePaymentMade(event: SquareWebhookEvent) {
     });
 }
 
+/**
+ * Handle refund.created/refund.updated - refunds only count once Square completes them
+ */
+async function handleRefundUpdated(event: SquareWebhookEvent) {
+    const refund = event.data.object.refund;
+    if (!refund || refund.status !== 'COMPLETED') return;
+
+    // The payment's running refund total is needed so partial refunds add up
+    // correctly. If it can't be fetched, fail the webhook so Square retries.
+    const { getSquareClient } = await import('@/lib/square');
+    const client = await getSquareClient();
+    const paymentResponse = await client.paymentsApi.getPayment(refund.payment_id);
+    const payment = paymentResponse.result.payment;
+    const refundedMoney = payment?.refundedMoney?.amount;
+    if (!payment || refundedMoney === undefined || refundedMoney === null) {
+        throw new Error(`Square payment ${refund.payment_id} has no refunded total`);
+    }
+    const reversedTotal = Number(refundedMoney) / 100;
+
+    await processDonationReversal({
+        method: 'square',
+        kind: 'refund',
+        transactionId: await findRefundedTransactionId(client, payment),
+        reversedTotal,
+        reference: refund.id,
+    });
+}
+
+/**
+ * The donation transaction ID for a refunded payment. One-time payments are
+ * stored as square_<paymentId>; subscription renewals as square_invoice_<id>,
+ * found through the customer's invoice for the payment's order.
+ */
+async function findRefundedTransactionId(
+    client: Client,
+    payment: Payment
+): Promise<string> {
+    const paymentTransactionId = `square_${payment.id}`;
+
+    const [existing] = await db
+        .select({ id: donations.id })
+        .from(donations)
+        .where(eq(donations.paymentId, paymentTransactionId))
+        .limit(1);
+    if (existing || !payment.orderId || !payment.customerId || !payment.locationId) {
+        return paymentTransactionId;
+    }
+
+    let cursor: string | undefined;
+    do {
+        const response = await client.invoicesApi.searchInvoices({
+            query: {
+                filter: { locationIds: [payment.locationId], customerIds: [payment.customerId] },
+                sort: { field: 'INVOICE_SORT_DATE', order: 'DESC' },
+            },
+            cursor,
+        });
+
+        const invoice = response.result.invoices?.find((inv) => inv.orderId === payment.orderId);
+        if (invoice?.id) return `square_invoice_${invoice.id}`;
+
+        cursor = response.result.cursor;
+    } while (cursor);
+
+    return paymentTransactionId;
+}
+
 /**
  * GET /api/square/webhook - Health check
  */
@@ -9,6 +9,8 @@ import {
   isStripeConfigured,
   ensureRankStripeSetup
 } from '@/lib/stripe';
+import { checkGiftRecipient, normalizeGiftMessage } from '@/lib/rank-gifts';
+import { quoteRankPurchase } from '@/lib/promotions';
 
 export async function POST(request: NextRequest) {
   try {
@@ -32,7 +34,10 @@ export async function POST(request: NextRequest) {
       amount: customAmount,
       paymentType = 'one_time',
       guestName,
-      guestMinecraftUsername
+      guestMinecraftUsername,
+      giftRecipient,
+      giftMessage,
+      promoCode
     } = body;
 
     // Require authentication for rank purchases (not one-time donations)
@@ -129,21 +134,61 @@ export async function POST(request: NextRequest) {
           cancelUrl: `${appUrl}/donate?canceled=true`,
         });
       } else {
-        // One-time payment - calculate price based on days
-        // minAmount is in DOLLARS (e.g., 4.99), NOT cents
-        const monthlyPriceDollars = rank.minAmount || 5;
-        const pricePerDay = monthlyPriceDollars / 30;
-        const calculatedAmount = customAmount || Math.round(pricePerDay * days * 100) / 100;
+        // One-time payment - priced on the server from minAmount (in DOLLARS,
+        // e.g. 4.99), the duration, any running sale and the promo code
+        const rankDays = parseInt(days);
+        if (!rankDays || rankDays < 1) {
+          return NextResponse.json(
+            { error: 'Invalid duration' },
+            { status: 400 }
+          );
+        }
+
+        const { quote, error: quoteError } = await quoteRankPurchase({
+          rank,
+          days: rankDays,
+          userId: parseInt(user.id),
+          promoCode,
+        });
+        if (!quote) {
+          return NextResponse.json(
+            { error: quoteError },
+            { status: 400 }
+          );
+        }
+
+        // Gifts: the rank goes to another player, resolved again once paid
+        let giftMetadata: Record<string, string> | undefined;
+        if (giftRecipient !== undefined && giftRecipient !== null && giftRecipient !== '') {
+          const gift = await checkGiftRecipient(giftRecipient, parseInt(user.id));
+          if (!gift.recipient) {
+            return NextResponse.json(
+              { error: gift.error },
+              { status: 400 }
+            );
+          }
+
+          const message = normalizeGiftMessage(giftMessage);
+          giftMetadata = {
+            giftRecipient: gift.recipient.name,
+            ...(message ? { giftMessage: message } : {}),
+          };
+        }
 
         checkoutSession = await createCheckoutSession({
           userId: parseInt(user.id),
           rankId,
           rankName: rank.name,
-          amount: calculatedAmount,
-          days,
+          amount: quote.amount,
+          days: rankDays,
           customerEmail: user.email,
           successUrl: `${appUrl}/donate/success?session_id={CHECKOUT_SESSION_ID}`,
           cancelUrl: `${appUrl}/donate?canceled=true`,
+          metadata: {
+            ...giftMetadata,
+            ...(quote.promoCode ? { promoCode: quote.promoCode } : {}),
+            discountAmount: quote.discountAmount.toString(),
+          },
         });
       }
     }
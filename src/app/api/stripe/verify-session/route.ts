@@ -62,6 +62,7 @@ export async function GET(request: NextRequest) {
       amount,
       days,
       expiresAt: expiresAt.toISOString(),
+      giftRecipient: metadata.giftRecipient || null,
     });
   } catch (error: any) {
     console.error('Error verifying session:', error);
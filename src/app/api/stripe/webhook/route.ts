@@ -3,7 +3,7 @@ import Stripe from 'stripe';
 import { db } from '@/db';
 import { users, siteSettings } from '@/db/schema';
 import { eq, like } from 'drizzle-orm';
-import { processDonation } from '@/lib/donations';
+import { processDonation, processDonationReversal, resolveDonationDispute } from '@/lib/donations';
 
 /**
  * Load Stripe config from database, with env vars as fallback
@@ -109,6 +109,24 @@ export async function POST(request: NextRequest) {
         break;
       }
 
+      case 'charge.refunded': {
+        const charge = event.data.object as Stripe.Charge;
+        await handleChargeRefunded(charge);
+        break;
+      }
+
+      case 'charge.dispute.created': {
+        const dispute = event.data.object as Stripe.Dispute;
+        await handleDisputeCreated(dispute);
+        break;
+      }
+
+      case 'charge.dispute.closed': {
+        const dispute = event.data.object as Stripe.Dispute;
+        await handleDisputeClosed(dispute);
+        break;
+      }
+
       default:
         console.log('Unhandled event type:', event.type);
     }
@@ -152,6 +170,10 @@ async function handleCheckoutComplete(session: Stripe.Checkout.Session) {
       transactionId: paymentIntentId || `checkout_${session.id}`,
       rankId: metadata.rankId !== 'one-time' ? metadata.rankId : undefined,
       days: parseInt(metadata.days || '0'),
+      giftRecipient: metadata.giftRecipient,
+      giftMessage: metadata.giftMessage,
+      promoCode: metadata.promoCode,
+      discountAmount: parseFloat(metadata.discountAmount || '0'),
     });
   }
 }
@@ -276,7 +298,8 @@ async function handleSubscriptionUpdated(subscription: Stripe.Subscription) {
     status = 'canceled';
   } else if (subscription.status === 'past_due') {
     status = 'past_due';
-  } else if (subscription.status === 'paused') {
+  } else if (subscription.status === 'paused' || subscription.pause_collection) {
+    // Collection is paused while the donor has their rank paused
     status = 'paused';
   } else if (subscription.status === 'trialing') {
     status = 'trialing';
@@ -309,5 +332,74 @@ async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent)
     transactionId: paymentIntent.id,
     rankId: metadata.rankId !== 'one-time' ? metadata.rankId : undefined,
     days: parseInt(metadata.days || '0'),
+    giftRecipient: metadata.giftRecipient,
+    giftMessage: metadata.giftMessage,
+    promoCode: metadata.promoCode,
+    discountAmount: parseFloat(metadata.discountAmount || '0'),
+  });
+}
+
+function getPaymentIntentId(paymentIntent: string | Stripe.PaymentIntent | null): string | null {
+  if (!paymentIntent) return null;
+  return typeof paymentIntent === 'string' ? paymentIntent : paymentIntent.id;
+}
+
+/**
+ * Handle charge.refunded - full or partial refunds issued from the dashboard
+ */
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  const paymentIntentId = getPaymentIntentId(charge.payment_intent);
+  if (!paymentIntentId) {
+    console.log('Refunded charge has no payment intent, skipping:', charge.id);
+    return;
+  }
+
+  await processDonationReversal({
+    method: 'stripe',
+    kind: 'refund',
+    transactionId: paymentIntentId,
+    reversedTotal: (charge.amount_refunded || 0) / 100,
+    reference: charge.id,
   });
 }
+
+/**
+ * Handle charge.dispute.created - chargebacks pull the funds immediately
+ */
+async function handleDisputeCreated(dispute: Stripe.Dispute) {
+  // Inquiries (warning_*) don't withdraw funds and may never become chargebacks
+  if (dispute.status.startsWith('warning_')) {
+    console.log('Dispute inquiry opened, waiting for chargeback:', dispute.id);
+    return;
+  }
+
+  const paymentIntentId = getPaymentIntentId(dispute.payment_intent);
+  if (!paymentIntentId) {
+    console.log('Dispute has no payment intent, skipping:', dispute.id);
+    return;
+  }
+
+  await processDonationReversal({
+    method: 'stripe',
+    kind: 'dispute',
+    transactionId: paymentIntentId,
+    // Just the disputed amount: refunds already made on the charge are added to it
+    reversedTotal: dispute.amount / 100,
+    reference: dispute.id,
+  });
+}
+
+/**
+ * Handle charge.dispute.closed - restore the donation if we won
+ */
+async function handleDisputeClosed(dispute: Stripe.Dispute) {
+  const paymentIntentId = getPaymentIntentId(dispute.payment_intent);
+  if (!paymentIntentId) return;
+
+  if (dispute.status !== 'won' && dispute.status !== 'lost') {
+    console.log(`Dispute ${dispute.id} closed with status ${dispute.status}, nothing to settle`);
+    return;
+  }
+
+  await resolveDonationDispute(paymentIntentId, dispute.status === 'won', dispute.id);
+}
@@ -3,6 +3,7 @@ import { auth } from '../../../../../auth';
 import { db } from '@/db';
 import { supportTickets, ticketMessages, users } from '@/db/schema';
 import { eq, asc } from 'drizzle-orm';
+import { requestTicketFeedback } from '@/lib/ticket-feedback';
 
 /**
  * GET /api/tickets/[id]
@@ -171,12 +172,22 @@ export async function PUT(
         const body = await request.json();
         const { status, priority, assignedTo } = body;
 
+        const userId = typeof user.id === 'string' ? parseInt(user.id, 10) : user.id;
+        const isClosing = status === 'closed' || status === 'resolved';
+
+        const [current] = await db
+            .select({ status: supportTickets.status })
+            .from(supportTickets)
+            .where(eq(supportTickets.id, ticketId));
+        const wasOpen = current && current.status !== 'closed' && current.status !== 'resolved';
+
         const updateData: any = { updatedAt: new Date() };
         if (status) updateData.status = status;
         if (priority) updateData.priority = priority;
         if (assignedTo !== undefined) updateData.assignedTo = assignedTo;
-        if (status === 'closed' || status === 'resolved') {
+        if (isClosing) {
             updateData.closedAt = new Date();
+            updateData.closedById = userId;
         }
 
         const [updatedTicket] = await db.update(supportTickets)
@@ -195,6 +206,11 @@ export async function PUT(
             }
         }
 
+        // Ask the opener how we did
+        if (isClosing && wasOpen) {
+            await requestTicketFeedback(ticketId);
+        }
+
         return NextResponse.json({ success: true });
     } catch (error: any) {
         console.error('Error updating ticket:', error);
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../../auth';
+import { db } from '@/db';
+import { supportTickets } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { applyTagVariables, getTagsForCategory, getTagVariables, renderTicketTag } from '@/lib/ticket-tags';
+
+async function getStaffTicket(params: Promise<{ id: string }>) {
+    const session = await auth();
+    if (!session?.user) {
+        return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+    }
+
+    const user = session.user as any;
+    if (!['admin', 'superadmin', 'moderator'].includes(user.role)) {
+        return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 403 }) };
+    }
+
+    const { id } = await params;
+    const ticketId = parseInt(id);
+    if (isNaN(ticketId)) {
+        return { error: NextResponse.json({ error: 'Invalid ticket ID' }, { status: 400 }) };
+    }
+
+    const [ticket] = await db.select().from(supportTickets).where(eq(supportTickets.id, ticketId));
+    if (!ticket) {
+        return { error: NextResponse.json({ error: 'Ticket not found' }, { status: 404 }) };
+    }
+
+    return { ticket, staffName: user.username || 'Staff' };
+}
+
+/**
+ * GET /api/tickets/[id]/tags
+ * Canned responses available for this ticket, with variables filled in (staff only)
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const result = await getStaffTicket(params);
+        if (result.error) return result.error;
+
+        const { ticket, staffName } = result;
+        const tags = await getTagsForCategory(ticket.categoryId);
+        const variables = await getTagVariables(ticket, staffName);
+
+        return NextResponse.json({
+            tags: tags.map((tag: any) => ({
+                id: tag.id,
+                name: tag.name,
+                emoji: tag.emoji,
+                usageCount: tag.usageCount,
+                preview: applyTagVariables(tag.content, variables),
+            })),
+        });
+    } catch (error: any) {
+        console.error('Error fetching ticket tags:', error);
+        return NextResponse.json({ error: 'Failed to fetch tags' }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/tickets/[id]/tags
+ * Use a canned response: returns its rendered content and counts the use
+ * Body: { tagId: number }
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const result = await getStaffTicket(params);
+        if (result.error) return result.error;
+
+        const { tagId } = await request.json();
+        const rendered = await renderTicketTag(parseInt(tagId), result.ticket, result.staffName);
+        if (!rendered) {
+            return NextResponse.json({ error: 'Tag not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ content: rendered.content });
+    } catch (error: any) {
+        console.error('Error using ticket tag:', error);
+        return NextResponse.json({ error: 'Failed to use tag' }, { status: 500 });
+    }
+}
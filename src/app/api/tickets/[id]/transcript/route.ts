@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../../auth';
+import { getTicketTranscript, buildTranscriptHtml } from '@/lib/ticket-transcripts';
+
+/**
+ * GET /api/tickets/[id]/transcript
+ * Get a ticket's full transcript (staff only)
+ * Query: ?export=html|json to download it as a file
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const session = await auth();
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = session.user as any;
+        if (!['admin', 'superadmin', 'moderator'].includes(user.role)) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+        }
+
+        const { id } = await params;
+        const ticketId = parseInt(id);
+
+        if (isNaN(ticketId)) {
+            return NextResponse.json({ error: 'Invalid ticket ID' }, { status: 400 });
+        }
+
+        const transcript = await getTicketTranscript(ticketId);
+        if (!transcript) {
+            return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+        }
+
+        const format = request.nextUrl.searchParams.get('export');
+        const filename = `ticket-${ticketId}-transcript`;
+
+        if (format === 'html') {
+            return new NextResponse(buildTranscriptHtml(transcript), {
+                headers: {
+                    'Content-Type': 'text/html; charset=utf-8',
+                    'Content-Disposition': `attachment; filename="${filename}.html"`,
+                },
+            });
+        }
+
+        if (format === 'json') {
+            return new NextResponse(JSON.stringify(transcript, null, 2), {
+                headers: {
+                    'Content-Type': 'application/json; charset=utf-8',
+                    'Content-Disposition': `attachment; filename="${filename}.json"`,
+                },
+            });
+        }
+
+        return NextResponse.json(transcript);
+    } catch (error: any) {
+        console.error('Error fetching ticket transcript:', error);
+        return NextResponse.json({ error: 'Failed to fetch transcript' }, { status: 500 });
+    }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTicketByFeedbackToken, submitTicketFeedback } from '@/lib/ticket-feedback';
+import { sanitizeContent, sanitizeInt } from '@/lib/sanitize';
+
+/**
+ * GET /api/tickets/feedback?token=...
+ * Look up the ticket a satisfaction survey link belongs to
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const token = request.nextUrl.searchParams.get('token') || '';
+        const found = await getTicketByFeedbackToken(token);
+
+        if (!found) {
+            return NextResponse.json({ error: 'This feedback link is invalid or has expired' }, { status: 404 });
+        }
+
+        const { ticket, feedback } = found;
+        return NextResponse.json({
+            ticket: {
+                id: ticket.id,
+                number: ticket.number,
+                subject: ticket.subject,
+                closedAt: ticket.closedAt,
+            },
+            feedback: feedback ? { rating: feedback.rating, comment: feedback.comment } : null,
+        });
+    } catch (error: any) {
+        console.error('Error fetching ticket feedback:', error);
+        return NextResponse.json({ error: 'Failed to load feedback' }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/tickets/feedback
+ * Submit a rating from a survey link
+ * Body: { token: string, rating: 1-5, comment?: string }
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const token = typeof body.token === 'string' ? body.token : '';
+        const rating = sanitizeInt(body.rating, 0, 5);
+
+        if (!rating) {
+            return NextResponse.json({ error: 'Please choose a rating from 1 to 5' }, { status: 400 });
+        }
+
+        const comment = sanitizeContent(body.comment || '', 1000) || null;
+        const result = await submitTicketFeedback(token, rating, comment);
+
+        if (result.error) {
+            return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        console.error('Error submitting ticket feedback:', error);
+        return NextResponse.json({ error: 'Failed to submit feedback' }, { status: 500 });
+    }
+}
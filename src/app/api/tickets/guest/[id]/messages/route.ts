@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { supportTickets, ticketMessages } from '@/db/schema';
 import { eq, and, gt } from 'drizzle-orm';
+import { enforceRateLimit } from '@/lib/rate-limit';
 
 /**
  * POST /api/tickets/guest/[id]/messages
@@ -12,6 +13,9 @@ export async function POST(
     { params }: { params: Promise<{ id: string }> }
 ) {
     try {
+        const limited = await enforceRateLimit(request, 'guest-ticket-reply');
+        if (limited.response) return limited.response;
+
         const { id } = await params;
         const ticketId = parseInt(id);
         const body = await request.json();
@@ -98,7 +102,7 @@ export async function POST(
                 isStaffReply: newMessage.isStaffReply,
                 createdAt: newMessage.createdAt,
             },
-        });
+        }, { headers: limited.headers });
     } catch (error: any) {
         console.error('Error adding guest message:', error);
         return NextResponse.json({ error: 'Failed to add message' }, { status: 500 });
@@ -4,6 +4,7 @@ import { supportTickets, guestTicketTokens } from '@/db/schema';
 import { eq, and, gt, desc } from 'drizzle-orm';
 import crypto from 'crypto';
 import { sendTicketAccessEmail } from '@/lib/email';
+import { enforceRateLimit } from '@/lib/rate-limit';
 
 /**
  * POST /api/tickets/guest/resend
@@ -11,6 +12,9 @@ import { sendTicketAccessEmail } from '@/lib/email';
  */
 export async function POST(request: NextRequest) {
     try {
+        const limited = await enforceRateLimit(request, 'guest-ticket-resend');
+        if (limited.response) return limited.response;
+
         const body = await request.json();
         const { email } = body;
 
@@ -36,7 +40,7 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({
                 success: true,
                 message: 'If a ticket exists for this email, an access link has been sent.',
-            });
+            }, { headers: limited.headers });
         }
 
         // Generate new access token
@@ -73,7 +77,7 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({
             success: true,
             message: 'If a ticket exists for this email, an access link has been sent.',
-        });
+        }, { headers: limited.headers });
     } catch (error: any) {
         console.error('Error resending access email:', error);
         return NextResponse.json({ error: 'Failed to resend email' }, { status: 500 });
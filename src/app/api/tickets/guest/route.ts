@@ -5,6 +5,7 @@ import { desc, eq, and, gt, sql } from 'drizzle-orm';
 import crypto from 'crypto';
 import { sendTicketAccessEmail } from '@/lib/email';
 import { sanitizeEmail, sanitizeForDb, sanitizeContent, sanitizeEnum } from '@/lib/sanitize';
+import { enforceRateLimit } from '@/lib/rate-limit';
 
 /**
  * POST /api/tickets/guest
@@ -12,6 +13,9 @@ import { sanitizeEmail, sanitizeForDb, sanitizeContent, sanitizeEnum } from '@/l
  */
 export async function POST(request: NextRequest) {
     try {
+        const limited = await enforceRateLimit(request, 'guest-ticket');
+        if (limited.response) return limited.response;
+
         const body = await request.json();
 
         // Sanitize inputs
@@ -115,7 +119,7 @@ export async function POST(request: NextRequest) {
                 subject: ticket.subject,
             },
             message: 'Ticket created! Check your email for the access link.',
-        });
+        }, { headers: limited.headers });
     } catch (error: any) {
         console.error('Error creating guest ticket:', error);
         return NextResponse.json({ error: 'Failed to create ticket' }, { status: 500 });
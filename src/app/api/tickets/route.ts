@@ -4,6 +4,7 @@ import { db } from '@/db';
 import { supportTickets, ticketMessages, users } from '@/db/schema';
 import { desc, eq, sql } from 'drizzle-orm';
 import { sanitizeForDb, sanitizeContent, sanitizeEnum } from '@/lib/sanitize';
+import { getTicketSlas } from '@/lib/ticket-lifecycle';
 
 /**
  * GET /api/tickets
@@ -106,6 +107,12 @@ export async function GET(request: NextRequest) {
             };
         }
 
+        // SLA timings so staff can spot tickets that are rotting
+        if (isStaff) {
+            const slas = await getTicketSlas(tickets.map((ticket: any) => ticket.id));
+            tickets = tickets.map((ticket: any) => ({ ...ticket, sla: slas[ticket.id] || null }));
+        }
+
         return NextResponse.json({ tickets, counts, isStaff });
     } catch (error: any) {
         console.error('Error fetching tickets:', error);
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../auth';
+import { getHelpdeskStats } from '@/lib/helpdesk-stats';
+
+function parseDate(value: string | null, endOfDay = false): Date | null {
+    if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+    const date = new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * GET /api/tickets/stats
+ * Staff performance and satisfaction stats (staff only)
+ * Query: ?from=YYYY-MM-DD&to=YYYY-MM-DD (both optional, inclusive)
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const session = await auth();
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const user = session.user as any;
+        if (!['admin', 'superadmin', 'moderator'].includes(user.role)) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 403 });
+        }
+
+        const { searchParams } = request.nextUrl;
+        const from = parseDate(searchParams.get('from'));
+        const to = parseDate(searchParams.get('to'), true);
+
+        if (from && to && from > to) {
+            return NextResponse.json({ error: 'Start date must be before end date' }, { status: 400 });
+        }
+
+        return NextResponse.json(await getHelpdeskStats(from, to));
+    } catch (error: any) {
+        console.error('Error fetching helpdesk stats:', error);
+        return NextResponse.json({ error: 'Failed to fetch helpdesk stats' }, { status: 500 });
+    }
+}
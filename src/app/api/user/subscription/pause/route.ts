@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { auth } from '../../../../../../auth';
+import { pauseRank, resumeRank } from '@/lib/rank-subscription';
+
+/**
+ * POST /api/user/subscription/pause
+ * Pause the current user's rank, freezing the remaining days
+ */
+export async function POST() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Please log in' }, { status: 401 });
+    }
+
+    const result = await pauseRank(parseInt((session.user as any).id));
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, remainingDays: result.remainingDays });
+  } catch (error: any) {
+    console.error('Error pausing rank:', error);
+    return NextResponse.json({ error: 'Failed to pause rank' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/user/subscription/pause
+ * Resume a paused rank with its frozen days
+ */
+export async function DELETE() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Please log in' }, { status: 401 });
+    }
+
+    const result = await resumeRank(parseInt((session.user as any).id));
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, expiresAt: result.expiresAt?.toISOString() || null });
+  } catch (error: any) {
+    console.error('Error resuming rank:', error);
+    return NextResponse.json({ error: 'Failed to resume rank' }, { status: 500 });
+  }
+}
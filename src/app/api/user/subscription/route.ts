@@ -38,6 +38,11 @@ export async function GET(request: NextRequest) {
         squareSubscriptionId: users.squareSubscriptionId,
         subscriptionStatus: users.subscriptionStatus,
         totalDonated: users.totalDonated,
+        showOnDonorLeaderboard: users.showOnDonorLeaderboard,
+        rankPaused: users.rankPaused,
+        pausedRankId: users.pausedRankId,
+        pausedRemainingDays: users.pausedRemainingDays,
+        pausedAt: users.pausedAt,
       })
       .from(users)
       .where(eq(users.id, userId))
@@ -61,6 +66,17 @@ export async function GET(request: NextRequest) {
       rank = foundRank;
     }
 
+    // A paused rank is shown with its frozen days instead
+    let pausedRank = null;
+    if (user.rankPaused && user.pausedRankId) {
+      const [foundRank] = await db
+        .select()
+        .from(donationRanks)
+        .where(eq(donationRanks.id, user.pausedRankId))
+        .limit(1);
+      pausedRank = foundRank;
+    }
+
     // Determine subscription provider and get details
     let subscriptionProvider: 'stripe' | 'square' | null = null;
     let stripeSubscription = null;
@@ -92,6 +108,11 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       hasRank: !!user.donationRankId,
+      paused: user.rankPaused ? {
+        rank: pausedRank ? { id: pausedRank.id, name: pausedRank.name, color: pausedRank.color, icon: pausedRank.icon, badge: pausedRank.badge } : null,
+        remainingDays: user.pausedRemainingDays || 0,
+        pausedAt: user.pausedAt?.toISOString() || null,
+      } : null,
       rank: rank ? { id: rank.id, name: rank.name, color: rank.color } : null,
       expiresAt: user.rankExpiresAt?.toISOString() || null,
       isExpired: user.rankExpiresAt ? new Date(user.rankExpiresAt) < new Date() : true,
@@ -99,6 +120,7 @@ export async function GET(request: NextRequest) {
       subscriptionProvider,
       subscriptionStatus: user.subscriptionStatus,
       totalDonated: user.totalDonated || 0,
+      showOnDonorLeaderboard: !!user.showOnDonorLeaderboard,
       stripeStatus: stripeSubscription?.status || null,
       squareStatus: squareSubscription?.status || null,
       cancelAtPeriodEnd,
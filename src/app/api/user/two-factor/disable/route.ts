@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../../auth';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import bcrypt from 'bcryptjs';
+import { verifyTwoFactor, disableTwoFactor } from '@/lib/two-factor';
+
+/**
+ * POST /api/user/two-factor/disable
+ * Turn off two-factor authentication. Requires the current password and
+ * a valid authenticator or recovery code.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const session = await auth();
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = parseInt((session.user as any).id);
+        const body = await request.json();
+        const { password, code } = body;
+
+        if (!password || !code) {
+            return NextResponse.json(
+                { error: 'Password and verification code are required' },
+                { status: 400 }
+            );
+        }
+
+        const [user] = await db
+            .select()
+            .from(users)
+            .where(eq(users.id, userId));
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        if (!user.twoFactorEnabled) {
+            return NextResponse.json(
+                { error: 'Two-factor authentication is not enabled' },
+                { status: 400 }
+            );
+        }
+
+        const isValidPassword = await bcrypt.compare(password, user.password);
+        if (!isValidPassword) {
+            return NextResponse.json({ error: 'Password is incorrect' }, { status: 400 });
+        }
+
+        const { valid } = await verifyTwoFactor(user, String(code));
+        if (!valid) {
+            return NextResponse.json({ error: 'Invalid verification code' }, { status: 400 });
+        }
+
+        await disableTwoFactor(userId);
+
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        console.error('Error disabling two-factor authentication:', error);
+        return NextResponse.json({ error: 'Failed to disable two-factor authentication' }, { status: 500 });
+    }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../../auth';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { verifyTotpCode, generateRecoveryCodes } from '@/lib/two-factor';
+
+/**
+ * POST /api/user/two-factor/enable
+ * Confirm enrollment with the first code from the authenticator app.
+ * Returns single-use recovery codes, which are only shown this once.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const session = await auth();
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = parseInt((session.user as any).id);
+        const body = await request.json();
+        const { code } = body;
+
+        if (!code) {
+            return NextResponse.json({ error: 'Verification code is required' }, { status: 400 });
+        }
+
+        const [user] = await db
+            .select({
+                twoFactorEnabled: users.twoFactorEnabled,
+                twoFactorSecret: users.twoFactorSecret,
+            })
+            .from(users)
+            .where(eq(users.id, userId));
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        if (user.twoFactorEnabled) {
+            return NextResponse.json(
+                { error: 'Two-factor authentication is already enabled' },
+                { status: 400 }
+            );
+        }
+
+        if (!user.twoFactorSecret) {
+            return NextResponse.json(
+                { error: 'Start two-factor setup first' },
+                { status: 400 }
+            );
+        }
+
+        if (!verifyTotpCode(user.twoFactorSecret, String(code))) {
+            return NextResponse.json({ error: 'Invalid verification code' }, { status: 400 });
+        }
+
+        const { codes, hashes } = generateRecoveryCodes();
+
+        await db
+            .update(users)
+            .set({
+                twoFactorEnabled: true,
+                twoFactorRecoveryCodes: JSON.stringify(hashes),
+                updatedAt: new Date(),
+            })
+            .where(eq(users.id, userId));
+
+        return NextResponse.json({ success: true, recoveryCodes: codes });
+    } catch (error: any) {
+        console.error('Error enabling two-factor authentication:', error);
+        return NextResponse.json({ error: 'Failed to enable two-factor authentication' }, { status: 500 });
+    }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '../../../../../../auth';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { verifyTotpCode, generateRecoveryCodes } from '@/lib/two-factor';
+
+/**
+ * POST /api/user/two-factor/recovery-codes
+ * Regenerate recovery codes. Invalidates all previous codes.
+ * Requires a current authenticator code (not a recovery code).
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const session = await auth();
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = parseInt((session.user as any).id);
+        const body = await request.json();
+        const { code } = body;
+
+        const [user] = await db
+            .select({
+                twoFactorEnabled: users.twoFactorEnabled,
+                twoFactorSecret: users.twoFactorSecret,
+            })
+            .from(users)
+            .where(eq(users.id, userId));
+
+        if (!user?.twoFactorEnabled || !user.twoFactorSecret) {
+            return NextResponse.json(
+                { error: 'Two-factor authentication is not enabled' },
+                { status: 400 }
+            );
+        }
+
+        if (!code || !verifyTotpCode(user.twoFactorSecret, String(code))) {
+            return NextResponse.json({ error: 'Invalid verification code' }, { status: 400 });
+        }
+
+        const { codes, hashes } = generateRecoveryCodes();
+
+        await db
+            .update(users)
+            .set({
+                twoFactorRecoveryCodes: JSON.stringify(hashes),
+                updatedAt: new Date(),
+            })
+            .where(eq(users.id, userId));
+
+        return NextResponse.json({ success: true, recoveryCodes: codes });
+    } catch (error: any) {
+        console.error('Error regenerating recovery codes:', error);
+        return NextResponse.json({ error: 'Failed to regenerate recovery codes' }, { status: 500 });
+    }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { auth } from '../../../../../auth';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { countRecoveryCodes } from '@/lib/two-factor';
+
+/**
+ * GET /api/user/two-factor
+ * Get the logged-in user's two-factor authentication status
+ */
+export async function GET() {
+    try {
+        const session = await auth();
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = parseInt((session.user as any).id);
+
+        const [user] = await db
+            .select({
+                twoFactorEnabled: users.twoFactorEnabled,
+                twoFactorRecoveryCodes: users.twoFactorRecoveryCodes,
+            })
+            .from(users)
+            .where(eq(users.id, userId));
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({
+            enabled: !!user.twoFactorEnabled,
+            recoveryCodesRemaining: user.twoFactorEnabled ? countRecoveryCodes(user.twoFactorRecoveryCodes) : 0,
+        });
+    } catch (error: any) {
+        console.error('Error fetching two-factor status:', error);
+        return NextResponse.json({ error: 'Failed to fetch two-factor status' }, { status: 500 });
+    }
+}
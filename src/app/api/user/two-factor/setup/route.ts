@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { auth } from '../../../../../../auth';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { generateTotpSecret, getOtpAuthUrl, getOtpAuthQrCode } from '@/lib/two-factor';
+
+/**
+ * POST /api/user/two-factor/setup
+ * Start two-factor enrollment: generate a new secret and return it with a QR code.
+ * 2FA stays disabled until the first code is confirmed via /api/user/two-factor/enable.
+ */
+export async function POST() {
+    try {
+        const session = await auth();
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = parseInt((session.user as any).id);
+
+        const [user] = await db
+            .select({ username: users.username, twoFactorEnabled: users.twoFactorEnabled })
+            .from(users)
+            .where(eq(users.id, userId));
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        if (user.twoFactorEnabled) {
+            return NextResponse.json(
+                { error: 'Two-factor authentication is already enabled' },
+                { status: 400 }
+            );
+        }
+
+        const secret = generateTotpSecret();
+        const otpauthUrl = getOtpAuthUrl(secret, user.username);
+        const qrCode = await getOtpAuthQrCode(otpauthUrl);
+
+        // Store the pending secret; it only takes effect once enabled
+        await db
+            .update(users)
+            .set({
+                twoFactorSecret: secret,
+                twoFactorRecoveryCodes: null,
+                updatedAt: new Date(),
+            })
+            .where(eq(users.id, userId));
+
+        return NextResponse.json({ secret, otpauthUrl, qrCode });
+    } catch (error: any) {
+        console.error('Error starting two-factor setup:', error);
+        return NextResponse.json({ error: 'Failed to start two-factor setup' }, { status: 500 });
+    }
+}
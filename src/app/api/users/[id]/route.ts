@@ -39,6 +39,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         password: false,
         email: false,
         twoFactorSecret: false,
+        twoFactorRecoveryCodes: false,
       },
     });
 
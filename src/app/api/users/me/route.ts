@@ -4,6 +4,7 @@ import { db } from '@/db';
 import { users, serverXp, friendships, forumPosts } from '@/db/schema';
 import { eq, or, and, count } from 'drizzle-orm';
 import { sanitizeForDb, sanitizeUrl, sanitizeEnum } from '@/lib/sanitize';
+import { refreshLeaderboard } from '@/lib/leaderboards';
 
 // Force dynamic - always fetch fresh data
 export const dynamic = 'force-dynamic';
@@ -175,6 +176,11 @@ export async function PATCH(request: Request) {
             }
         }
 
+        // Opt in or out of the public donor leaderboard
+        if (body.showOnDonorLeaderboard !== undefined) {
+            updateData.showOnDonorLeaderboard = Boolean(body.showOnDonorLeaderboard);
+        }
+
         // Discord unlinking (allow setting to null)
         if ('discordId' in body) {
             updateData.discordId = body.discordId;
@@ -195,6 +201,13 @@ export async function PATCH(request: Request) {
                 .where(eq(users.id, userId));
         }
 
+        // Apply a donor leaderboard change now rather than at the next refresh
+        if ('showOnDonorLeaderboard' in updateData) {
+            await refreshLeaderboard('donated').catch((error: any) => {
+                console.error('Error refreshing donor leaderboard:', error);
+            });
+        }
+
         return NextResponse.json({ success: true });
 
     } catch (error: any) {
@@ -0,0 +1,253 @@
+'use client';
+
+import { useState, useEffect, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { Ban, Loader2, AlertCircle, CheckCircle, Send, MessageSquare } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { SANCTION_TYPES, formatSanctionExpiry, type SanctionType } from '@/lib/sanction-types';
+
+interface BanNotice {
+    username: string;
+    type: SanctionType;
+    reason: string;
+    expiresAt: string | null;
+    createdAt: string;
+    active: boolean;
+    revokeReason: string | null;
+    appeal: {
+        id: number;
+        number: number | null;
+        status: string;
+        createdAt: string;
+        replies: { id: number; message: string; createdAt: string }[];
+    } | null;
+}
+
+const appealStatusLabels: Record<string, string> = {
+    open: 'Waiting for staff',
+    in_progress: 'Being reviewed',
+    waiting: 'Waiting for staff',
+    resolved: 'Decided',
+    closed: 'Closed',
+};
+
+function BannedContent() {
+    const searchParams = useSearchParams();
+    const token = searchParams?.get('token') || '';
+
+    const [ban, setBan] = useState<BanNotice | null>(null);
+    const [message, setMessage] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (token) {
+            fetchBan();
+        } else {
+            setLoading(false);
+        }
+    }, [token]);
+
+    const fetchBan = async () => {
+        try {
+            const res = await fetch(`/api/sanctions/appeal?token=${encodeURIComponent(token)}`);
+            const data = await res.json();
+            if (res.ok) {
+                setBan(data.ban);
+            } else {
+                setError(data.error || 'Failed to load ban details');
+            }
+        } catch (err: any) {
+            setError('Failed to load ban details');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        setIsSubmitting(true);
+        setError('');
+
+        try {
+            const res = await fetch('/api/sanctions/appeal', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ token, message }),
+            });
+            const data = await res.json();
+
+            if (res.ok) {
+                setMessage('');
+                await fetchBan();
+            } else {
+                setError(data.error || 'Failed to submit appeal');
+            }
+        } catch (err: any) {
+            setError('Failed to submit appeal');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="min-h-screen bg-background flex items-center justify-center">
+                <Loader2 className="w-8 h-8 animate-spin text-neon-cyan" />
+            </div>
+        );
+    }
+
+    const canAppeal = ban?.active && (!ban.appeal || ban.appeal.status === 'closed');
+
+    return (
+        <div className="min-h-screen bg-background">
+            <div className="container mx-auto px-4 py-12 max-w-xl space-y-6">
+                {!ban ? (
+                    <Card variant="glass">
+                        <CardContent className="text-center py-12">
+                            {error ? (
+                                <AlertCircle className="w-16 h-16 mx-auto mb-4 text-red-400" />
+                            ) : (
+                                <Ban className="w-16 h-16 mx-auto mb-4 text-red-400" />
+                            )}
+                            <p className="text-muted-foreground mb-6">
+                                {error || 'This account has been banned. Sign in to see why and to appeal.'}
+                            </p>
+                            <Link href="/login">
+                                <Button variant="outline">Back to Login</Button>
+                            </Link>
+                        </CardContent>
+                    </Card>
+                ) : !ban.active ? (
+                    <Card variant="glass">
+                        <CardContent className="text-center py-12">
+                            <CheckCircle className="w-16 h-16 mx-auto mb-4 text-green-400" />
+                            <h3 className="text-xl font-bold mb-2">This ban has been lifted</h3>
+                            <p className="text-muted-foreground mb-6">
+                                {ban.revokeReason || 'You can sign in again. Please follow the rules.'}
+                            </p>
+                            <Link href="/login">
+                                <Button variant="neon">Sign In</Button>
+                            </Link>
+                        </CardContent>
+                    </Card>
+                ) : (
+                    <Card variant="glass">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Ban className="w-5 h-5 text-error" />
+                                {ban.username} is banned
+                            </CardTitle>
+                            <CardDescription>
+                                {SANCTION_TYPES[ban.type]} issued {new Date(ban.createdAt).toLocaleDateString()}
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="p-4 rounded-lg bg-error/10 border border-error/30">
+                                <p className="text-sm font-medium mb-1">Reason</p>
+                                <p className="text-sm whitespace-pre-wrap">{ban.reason}</p>
+                            </div>
+                            <p className="text-sm text-muted-foreground">
+                                You are banned {formatSanctionExpiry(ban.expiresAt)}. This applies to the website
+                                and our Minecraft servers.
+                            </p>
+                            <Link href="/rules" className="text-sm text-neon-cyan hover:underline">
+                                Read the community rules
+                            </Link>
+                        </CardContent>
+                    </Card>
+                )}
+
+                {ban?.appeal && (
+                    <Card variant="glass">
+                        <CardHeader>
+                            <CardTitle className="flex items-center justify-between">
+                                <span className="flex items-center gap-2">
+                                    <MessageSquare className="w-5 h-5 text-neon-cyan" />
+                                    Appeal #{ban.appeal.number || ban.appeal.id}
+                                </span>
+                                <Badge variant={ban.appeal.status === 'closed' ? 'secondary' : 'warning'}>
+                                    {appealStatusLabels[ban.appeal.status] || ban.appeal.status}
+                                </Badge>
+                            </CardTitle>
+                            <CardDescription>
+                                Submitted {new Date(ban.appeal.createdAt).toLocaleDateString()}
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-3">
+                            {ban.appeal.replies.length > 0 ? (
+                                ban.appeal.replies.map((reply) => (
+                                    <div key={reply.id} className="p-3 rounded-lg bg-secondary/50">
+                                        <p className="text-sm whitespace-pre-wrap">{reply.message}</p>
+                                        <p className="text-xs text-muted-foreground mt-2">
+                                            Staff · {new Date(reply.createdAt).toLocaleString()}
+                                        </p>
+                                    </div>
+                                ))
+                            ) : (
+                                <p className="text-sm text-muted-foreground">
+                                    No reply yet. Check back here; staff answers will show up on this page.
+                                </p>
+                            )}
+                        </CardContent>
+                    </Card>
+                )}
+
+                {canAppeal && (
+                    <Card variant="glass">
+                        <CardHeader>
+                            <CardTitle>Appeal this ban</CardTitle>
+                            <CardDescription>
+                                Explain what happened and why the ban should be lifted. A staff member will review it.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <form onSubmit={handleSubmit} className="space-y-4">
+                                <Textarea
+                                    value={message}
+                                    onChange={(e) => setMessage(e.target.value)}
+                                    placeholder="Your appeal..."
+                                    rows={6}
+                                    maxLength={5000}
+                                />
+
+                                {error && (
+                                    <p className="text-sm text-red-400">{error}</p>
+                                )}
+
+                                <Button
+                                    type="submit"
+                                    variant="neon"
+                                    className="w-full gap-2"
+                                    disabled={message.trim().length < 20 || isSubmitting}
+                                >
+                                    {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                                    Submit Appeal
+                                </Button>
+                            </form>
+                        </CardContent>
+                    </Card>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default function BannedPage() {
+    return (
+        <Suspense fallback={
+            <div className="min-h-screen bg-background flex items-center justify-center">
+                <Loader2 className="w-8 h-8 animate-spin text-neon-cyan" />
+            </div>
+        }>
+            <BannedContent />
+        </Suspense>
+    );
+}
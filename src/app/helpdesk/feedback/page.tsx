@@ -0,0 +1,212 @@
+'use client';
+
+import { useState, useEffect, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Loader2, AlertCircle, CheckCircle, Star, Send } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+
+const ratingLabels: Record<number, string> = {
+    1: 'Very poor',
+    2: 'Poor',
+    3: 'Okay',
+    4: 'Good',
+    5: 'Excellent',
+};
+
+function TicketFeedbackContent() {
+    const searchParams = useSearchParams();
+    const token = searchParams?.get('token') || '';
+    const presetRating = parseInt(searchParams?.get('rating') || '0');
+
+    const [ticket, setTicket] = useState<{ id: number; number: number | null; subject: string } | null>(null);
+    const [rating, setRating] = useState(presetRating >= 1 && presetRating <= 5 ? presetRating : 0);
+    const [hoverRating, setHoverRating] = useState(0);
+    const [comment, setComment] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [submitted, setSubmitted] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (token) {
+            fetchFeedback();
+        } else {
+            setError('This feedback link is invalid or has expired');
+            setLoading(false);
+        }
+    }, [token]);
+
+    const fetchFeedback = async () => {
+        try {
+            const res = await fetch(`/api/tickets/feedback?token=${encodeURIComponent(token)}`);
+            const data = await res.json();
+            if (res.ok) {
+                setTicket(data.ticket);
+                if (data.feedback) {
+                    setRating(data.feedback.rating);
+                    setSubmitted(true);
+                }
+            } else {
+                setError(data.error || 'Failed to load feedback');
+            }
+        } catch (err: any) {
+            setError('Failed to load feedback');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!rating) return;
+
+        setIsSubmitting(true);
+        setError('');
+
+        try {
+            const res = await fetch('/api/tickets/feedback', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ token, rating, comment }),
+            });
+
+            if (res.ok) {
+                setSubmitted(true);
+            } else {
+                const data = await res.json();
+                setError(data.error || 'Failed to submit feedback');
+            }
+        } catch (err: any) {
+            setError('Failed to submit feedback');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="min-h-screen bg-background flex items-center justify-center">
+                <Loader2 className="w-8 h-8 animate-spin text-neon-cyan" />
+            </div>
+        );
+    }
+
+    const displayRating = hoverRating || rating;
+
+    return (
+        <div className="min-h-screen bg-background">
+            <div className="border-b border-border bg-card/50 backdrop-blur-sm">
+                <div className="container mx-auto px-4 py-4">
+                    <div className="flex items-center gap-4">
+                        <Link href="/helpdesk">
+                            <Button variant="ghost" size="sm" className="gap-2">
+                                <ArrowLeft className="w-4 h-4" />
+                                Back
+                            </Button>
+                        </Link>
+                        <div>
+                            <h1 className="text-2xl font-bold gradient-text">Support Feedback</h1>
+                            <p className="text-sm text-muted-foreground">
+                                Tell us how our support team did
+                            </p>
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            <div className="container mx-auto px-4 py-8 max-w-md">
+                <Card variant="glass">
+                    {!ticket ? (
+                        <CardContent className="text-center py-12">
+                            <AlertCircle className="w-16 h-16 mx-auto mb-4 text-red-400" />
+                            <p className="text-muted-foreground">{error}</p>
+                        </CardContent>
+                    ) : submitted ? (
+                        <CardContent className="text-center py-12">
+                            <CheckCircle className="w-16 h-16 mx-auto mb-4 text-green-400" />
+                            <h3 className="text-xl font-bold mb-2">Thanks for your feedback!</h3>
+                            <p className="text-muted-foreground">
+                                Your rating helps us recognise great support and improve where we fall short.
+                            </p>
+                        </CardContent>
+                    ) : (
+                        <>
+                            <CardHeader>
+                                <CardTitle>Ticket #{ticket.number || ticket.id}</CardTitle>
+                                <CardDescription>{ticket.subject}</CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <form onSubmit={handleSubmit} className="space-y-6">
+                                    <div className="text-center">
+                                        <div className="flex justify-center gap-2" onMouseLeave={() => setHoverRating(0)}>
+                                            {[1, 2, 3, 4, 5].map((value) => (
+                                                <button
+                                                    key={value}
+                                                    type="button"
+                                                    onClick={() => setRating(value)}
+                                                    onMouseEnter={() => setHoverRating(value)}
+                                                    className="p-1 transition-transform hover:scale-110"
+                                                    aria-label={`${value} star${value === 1 ? '' : 's'}`}
+                                                >
+                                                    <Star
+                                                        className={`w-9 h-9 ${value <= displayRating
+                                                            ? 'fill-yellow-400 text-yellow-400'
+                                                            : 'text-muted-foreground'
+                                                            }`}
+                                                    />
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <p className="text-sm text-muted-foreground mt-2 h-5">
+                                            {displayRating ? ratingLabels[displayRating] : 'Choose a rating'}
+                                        </p>
+                                    </div>
+
+                                    <Textarea
+                                        placeholder="Anything you'd like to tell us? (optional)"
+                                        value={comment}
+                                        onChange={(e) => setComment(e.target.value)}
+                                        rows={4}
+                                        maxLength={1000}
+                                    />
+
+                                    {error && (
+                                        <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 flex items-start gap-2">
+                                            <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+                                            <p className="text-sm text-red-400">{error}</p>
+                                        </div>
+                                    )}
+
+                                    <Button
+                                        type="submit"
+                                        variant="neon"
+                                        className="w-full gap-2"
+                                        disabled={!rating || isSubmitting}
+                                    >
+                                        {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                                        Submit Feedback
+                                    </Button>
+                                </form>
+                            </CardContent>
+                        </>
+                    )}
+                </Card>
+            </div>
+        </div>
+    );
+}
+
+export default function TicketFeedbackPage() {
+    return (
+        <Suspense fallback={
+            <div className="min-h-screen bg-background flex items-center justify-center">
+                <Loader2 className="w-8 h-8 animate-spin text-neon-cyan" />
+            </div>
+        }>
+            <TicketFeedbackContent />
+        </Suspense>
+    );
+}
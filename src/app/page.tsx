@@ -23,6 +23,8 @@ import { users, donations, servers } from '@/db/schema';
 import { sql } from 'drizzle-orm';
 import { formatNumber, formatCurrency } from '@/lib/utils';
 import { HomeStats } from '@/components/home-stats';
+import { DonationGoals } from '@/components/donate/donation-goals';
+import { getActiveGoalProgress } from '@/lib/donation-goals';
 import { Footer } from '@/components/layout/footer';
 
 // Prevent Next.js from caching this page - stats should always be fresh
@@ -46,6 +48,14 @@ async function getHomeStats() {
   }
 }
 
+async function getDonationGoals() {
+  try {
+    return await getActiveGoalProgress();
+  } catch {
+    return [];
+  }
+}
+
 const features = [
   {
     icon: Users,
@@ -101,7 +111,7 @@ const perks = [
 ];
 
 export default async function HomePage() {
-  const stats = await getHomeStats();
+  const [stats, goals] = await Promise.all([getHomeStats(), getDonationGoals()]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -189,6 +199,9 @@ export default async function HomePage() {
 
           {/* Stats - Now Real-time */}
           <HomeStats initialData={stats} />
+
+          {/* Funding goals */}
+          <DonationGoals goals={goals} showDonateLink className="max-w-2xl mx-auto pt-8 text-left" />
         </div>
 
         {/* Scroll indicator */}
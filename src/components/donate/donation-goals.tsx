@@ -0,0 +1,74 @@
+import Link from 'next/link';
+import { Target } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { formatCurrency } from '@/lib/utils';
+import type { GoalProgress } from '@/lib/donation-goals';
+
+interface DonationGoalsProps {
+  goals: GoalProgress[];
+  showDonateLink?: boolean;
+  className?: string;
+}
+
+function timeLeft(endsAt: string): string {
+  const days = Math.ceil((new Date(endsAt).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+  if (days <= 0) return 'Ending today';
+  return days === 1 ? '1 day left' : `${days} days left`;
+}
+
+export function DonationGoals({ goals, showDonateLink = false, className = '' }: DonationGoalsProps) {
+  if (goals.length === 0) return null;
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {goals.map((goal) => (
+        <Card key={goal.id} variant="glass">
+          <CardContent className="p-5">
+            <div className="flex items-start justify-between gap-4 mb-3">
+              <div className="min-w-0">
+                <h3 className="font-semibold flex items-center gap-2">
+                  <Target className="w-4 h-4 text-neon-pink shrink-0" />
+                  {goal.title}
+                </h3>
+                {goal.description && (
+                  <p className="text-sm text-muted-foreground mt-1">{goal.description}</p>
+                )}
+              </div>
+              <span className="text-xs text-muted-foreground whitespace-nowrap">{timeLeft(goal.endsAt)}</span>
+            </div>
+
+            <div
+              className="h-3 rounded-full bg-secondary overflow-hidden"
+              role="progressbar"
+              aria-valuenow={goal.percent}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-label={`${goal.title} progress`}
+            >
+              <div
+                className="h-full rounded-full bg-gradient-to-r from-neon-pink to-neon-purple transition-all duration-500"
+                style={{ width: `${goal.percent}%` }}
+              />
+            </div>
+
+            <div className="flex items-center justify-between mt-2 text-sm">
+              <span>
+                <span className="font-bold text-foreground">{formatCurrency(goal.raised)}</span>
+                <span className="text-muted-foreground"> of {formatCurrency(goal.targetAmount)}</span>
+              </span>
+              <span className={goal.percent >= 100 ? 'text-success font-medium' : 'text-muted-foreground'}>
+                {goal.percent >= 100 ? 'Funded! 🎉' : `${goal.percent}%`}
+              </span>
+            </div>
+
+            {showDonateLink && goal.percent < 100 && (
+              <Link href="/donate" className="inline-block mt-3 text-sm text-neon-cyan hover:underline">
+                Help us reach it →
+              </Link>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Check, Star, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+
+type RsvpStatus = 'going' | 'interested' | 'not_going';
+
+interface RsvpCounts {
+  going: number;
+  interested: number;
+  notGoing: number;
+}
+
+interface EventRsvpButtonsProps {
+  eventId: number;
+  userStatus: RsvpStatus | null;
+  counts: RsvpCounts;
+  isSignedIn: boolean;
+  disabled?: boolean;
+  onChange?: (userStatus: RsvpStatus | null, counts: RsvpCounts) => void;
+}
+
+const OPTIONS: { status: RsvpStatus; label: string; icon: typeof Check }[] = [
+  { status: 'going', label: 'Going', icon: Check },
+  { status: 'interested', label: 'Interested', icon: Star },
+  { status: 'not_going', label: 'Not Going', icon: X },
+];
+
+export function EventRsvpButtons({
+  eventId,
+  userStatus: initialStatus,
+  counts: initialCounts,
+  isSignedIn,
+  disabled = false,
+  onChange,
+}: EventRsvpButtonsProps) {
+  const router = useRouter();
+  const [userStatus, setUserStatus] = useState<RsvpStatus | null>(initialStatus);
+  const [counts, setCounts] = useState<RsvpCounts>(initialCounts);
+  const [saving, setSaving] = useState(false);
+
+  const handleRsvp = async (status: RsvpStatus) => {
+    if (!isSignedIn) {
+      router.push(`/login?callbackUrl=/events/${eventId}`);
+      return;
+    }
+    if (saving || disabled) return;
+
+    // Clicking the current response clears it
+    const next = userStatus === status ? null : status;
+
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/events/${eventId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: next }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        setUserStatus(data.userStatus);
+        setCounts(data.counts);
+        onChange?.(data.userStatus, data.counts);
+      } else {
+        toast.error(data.error || 'Failed to update RSVP');
+      }
+    } catch (error: any) {
+      console.error('Failed to update RSVP:', error);
+      toast.error('Failed to update RSVP');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const countFor = (status: RsvpStatus) =>
+    status === 'going' ? counts.going : status === 'interested' ? counts.interested : counts.notGoing;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {OPTIONS.map(({ status, label, icon: Icon }) => (
+        <Button
+          key={status}
+          size="sm"
+          variant={userStatus === status ? (status === 'not_going' ? 'destructive' : 'neon') : 'neon-outline'}
+          onClick={() => handleRsvp(status)}
+          disabled={saving || disabled}
+        >
+          <Icon className="w-4 h-4 mr-1" />
+          {label}
+          {status !== 'not_going' && (
+            <span className="ml-1 opacity-75 tabular-nums">{countFor(status)}</span>
+          )}
+        </Button>
+      ))}
+    </div>
+  );
+}
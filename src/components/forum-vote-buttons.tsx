@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronUp, ChevronDown } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+type VoteType = 'upvote' | 'downvote';
+
+interface ForumVoteButtonsProps {
+  voteUrl: string;
+  score: number;
+  userVote: VoteType | null;
+  canVote: boolean;
+  orientation?: 'vertical' | 'horizontal';
+}
+
+export function ForumVoteButtons({
+  voteUrl,
+  score: initialScore,
+  userVote: initialVote,
+  canVote,
+  orientation = 'vertical',
+}: ForumVoteButtonsProps) {
+  const [score, setScore] = useState(initialScore);
+  const [userVote, setUserVote] = useState<VoteType | null>(initialVote);
+  const [isVoting, setIsVoting] = useState(false);
+
+  const handleVote = async (voteType: VoteType) => {
+    if (!canVote || isVoting) return;
+
+    setIsVoting(true);
+    try {
+      const res = await fetch(voteUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ voteType }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        setScore(data.score);
+        setUserVote(data.userVote);
+      } else {
+        toast.error(data.error || 'Failed to vote');
+      }
+    } catch (error: any) {
+      console.error('Failed to vote:', error);
+      toast.error('Failed to vote');
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  const iconSize = orientation === 'vertical' ? 'w-6 h-6' : 'w-4 h-4';
+
+  return (
+    <div
+      className={cn(
+        'flex items-center',
+        orientation === 'vertical' ? 'flex-col gap-0.5' : 'flex-row gap-1'
+      )}
+    >
+      <button
+        type="button"
+        onClick={() => handleVote('upvote')}
+        disabled={!canVote || isVoting}
+        title={canVote ? 'Upvote' : undefined}
+        className={cn(
+          'rounded transition-colors disabled:cursor-default',
+          userVote === 'upvote' ? 'text-neon-cyan' : 'text-muted-foreground',
+          canVote && 'hover:text-neon-cyan hover:bg-neon-cyan/10'
+        )}
+      >
+        <ChevronUp className={iconSize} />
+      </button>
+      <span
+        className={cn(
+          'font-semibold tabular-nums text-sm',
+          userVote === 'upvote' && 'text-neon-cyan',
+          userVote === 'downvote' && 'text-neon-pink'
+        )}
+      >
+        {score}
+      </span>
+      <button
+        type="button"
+        onClick={() => handleVote('downvote')}
+        disabled={!canVote || isVoting}
+        title={canVote ? 'Downvote' : undefined}
+        className={cn(
+          'rounded transition-colors disabled:cursor-default',
+          userVote === 'downvote' ? 'text-neon-pink' : 'text-muted-foreground',
+          canVote && 'hover:text-neon-pink hover:bg-neon-pink/10'
+        )}
+      >
+        <ChevronDown className={iconSize} />
+      </button>
+    </div>
+  );
+}
@@ -22,6 +22,7 @@ import {
     Shield,
     Ticket,
     Gamepad2,
+    Flag,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -46,6 +47,7 @@ const launcherItems: LauncherItem[] = [
     { name: 'Users', href: '/users', icon: Users, category: 'community', description: 'Browse players' },
     { name: 'Leaderboard', href: '/leaderboard', icon: Trophy, category: 'community', description: 'Top players' },
     { name: 'Events', href: '/events', icon: Calendar, category: 'community', description: 'Upcoming events' },
+    { name: 'Groups', href: '/groups', icon: Flag, category: 'community', description: 'Towns, factions & guilds' },
 
     // Account (requires auth)
     { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard, category: 'account', description: 'Your dashboard', requiresAuth: true },
@@ -5,10 +5,12 @@ import { useSession } from 'next-auth/react';
 import Link from 'next/link';
 import { Bell } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useSocket } from '@/lib/socket-context';
 
 export function NotificationBell() {
   const { data: session } = useSession();
   const [unreadCount, setUnreadCount] = useState(0);
+  const { onNotification } = useSocket();
 
   const fetchUnreadCount = useCallback(async () => {
     try {
@@ -31,6 +33,11 @@ export function NotificationBell() {
     }
   }, [session, fetchUnreadCount]);
 
+  // Real-time updates when the socket server is running
+  useEffect(() => {
+    return onNotification(() => fetchUnreadCount());
+  }, [onNotification, fetchUnreadCount]);
+
   if (!session?.user) {
     return null;
   }
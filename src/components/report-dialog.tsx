@@ -0,0 +1,144 @@
+'use client';
+
+import { useState } from 'react';
+import { Flag, Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { REPORTABLE_CONTENT, REPORT_REASONS, type ReportableContentType, type ReportReason } from '@/lib/report-reasons';
+
+interface ReportDialogProps {
+  contentType: ReportableContentType;
+  contentId: number;
+  open: boolean;
+  onClose: () => void;
+}
+
+export function ReportDialog({ contentType, contentId, open, onClose }: ReportDialogProps) {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [description, setDescription] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (!open) return null;
+
+  const close = () => {
+    setReason(null);
+    setDescription('');
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!reason) return;
+
+    setIsSubmitting(true);
+    try {
+      const res = await fetch('/api/reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ contentType, contentId, reason, description }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        toast.success('Report sent. Our moderators will take a look.');
+        close();
+      } else {
+        toast.error(data.error || 'Failed to send report');
+      }
+    } catch (error: any) {
+      toast.error('Failed to send report');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <Card variant="glass" className="w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <Flag className="w-5 h-5 text-warning" />
+              Report {REPORTABLE_CONTENT[contentType]}
+            </span>
+            <Button variant="ghost" size="icon" onClick={close}>
+              <X className="w-4 h-4" />
+            </Button>
+          </CardTitle>
+          <CardDescription>Reports are anonymous to the person you report</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            {(Object.keys(REPORT_REASONS) as ReportReason[]).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setReason(value)}
+                className={cn(
+                  'w-full text-left px-3 py-2 rounded-lg border text-sm transition-colors',
+                  reason === value
+                    ? 'border-warning bg-warning/10 text-warning'
+                    : 'border-border bg-secondary/50 hover:bg-secondary'
+                )}
+              >
+                {REPORT_REASONS[value]}
+              </button>
+            ))}
+          </div>
+
+          <Textarea
+            placeholder="Anything else the moderators should know? (optional)"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={3}
+            maxLength={1000}
+          />
+
+          <div className="flex justify-end gap-3">
+            <Button variant="ghost" onClick={close}>Cancel</Button>
+            <Button variant="neon" onClick={handleSubmit} disabled={!reason || isSubmitting}>
+              {isSubmitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Flag className="w-4 h-4 mr-2" />}
+              Send Report
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+interface ReportButtonProps {
+  contentType: ReportableContentType;
+  contentId: number;
+  label?: string;
+  className?: string;
+  iconClassName?: string;
+}
+
+/**
+ * Flag button that opens the report dialog. Renders icon-only unless a label is given.
+ */
+export function ReportButton({ contentType, contentId, label, className, iconClassName = 'w-4 h-4' }: ReportButtonProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size={label ? 'sm' : 'icon'}
+        onClick={() => setOpen(true)}
+        className={cn('text-muted-foreground hover:text-warning', label && 'gap-2', className)}
+        title={`Report ${REPORTABLE_CONTENT[contentType].toLowerCase()}`}
+      >
+        <Flag className={iconClassName} />
+        {label}
+      </Button>
+      <ReportDialog contentType={contentType} contentId={contentId} open={open} onClose={() => setOpen(false)} />
+    </>
+  );
+}
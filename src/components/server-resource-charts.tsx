@@ -0,0 +1,346 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Cpu, MemoryStick, HardDrive, Network, AlertTriangle, CheckCircle, Loader2, Server } from 'lucide-react';
+import {
+    AreaChart, Area, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+
+// =============================================================================
+// TYPE DEFINITIONS
+// =============================================================================
+
+type ResourceRange = '24h' | '7d' | '30d';
+
+interface HistoryPoint {
+    timestamp: string;
+    cpuPercent: number;
+    cpuPeak: number;
+    memoryMb: number;
+    memoryPeakMb: number;
+    diskMb: number;
+    networkRxKbps: number;
+    networkTxKbps: number;
+}
+
+interface ResourceAlert {
+    id: number;
+    metric: 'cpu' | 'memory' | 'disk';
+    threshold: number;
+    peakPercent: number;
+    startedAt: string;
+    resolvedAt: string | null;
+}
+
+interface ResourcesResponse {
+    servers: { id: number; name: string }[];
+    serverId?: number;
+    history: {
+        points: HistoryPoint[];
+        limits: { cpu: number; memoryMb: number; diskMb: number } | null;
+        latest: { state: string; sampledAt: string } | null;
+        bucketMinutes: number;
+    } | null;
+    alerts: ResourceAlert[];
+    rules: Record<string, { threshold: number; sustainMinutes: number; title: string }>;
+}
+
+interface ServerResourceChartsProps {
+    // Show one server without the picker (e.g. the server chosen on the uptime page)
+    serverId?: number;
+}
+
+const RANGES: ResourceRange[] = ['24h', '7d', '30d'];
+
+const METRIC_LABELS: Record<ResourceAlert['metric'], string> = {
+    cpu: 'CPU',
+    memory: 'Memory',
+    disk: 'Disk',
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function formatMb(mb: number): string {
+    return mb >= 1024 ? `${(mb / 1024).toFixed(1)} GiB` : `${Math.round(mb)} MiB`;
+}
+
+function formatRate(kbps: number): string {
+    return kbps >= 1024 ? `${(kbps / 1024).toFixed(1)} MiB/s` : `${kbps.toFixed(1)} KiB/s`;
+}
+
+function formatTick(timestamp: string, range: ResourceRange): string {
+    const date = new Date(timestamp);
+    return range === '24h'
+        ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+        : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+const ChartTooltip = ({ active, payload, label, format }: any) => {
+    if (active && payload && payload.length) {
+        return (
+            <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
+                <p className="text-sm font-medium text-foreground">{new Date(label).toLocaleString()}</p>
+                {payload.map((entry: any) => (
+                    <p key={entry.dataKey} className="text-sm" style={{ color: entry.color }}>
+                        {entry.name}: {format(entry.value)}
+                    </p>
+                ))}
+            </div>
+        );
+    }
+    return null;
+};
+
+function ResourceChart({ title, icon: Icon, data, range, lines, format, limit }: {
+    title: string;
+    icon: any;
+    data: HistoryPoint[];
+    range: ResourceRange;
+    lines: { key: keyof HistoryPoint; name: string; color: string }[];
+    format: (value: number) => string;
+    limit?: number;
+}) {
+    const gradientId = `resource-${String(lines[0].key)}`;
+
+    return (
+        <div>
+            <div className="flex items-center gap-2 mb-2 text-sm font-medium">
+                <Icon className="w-4 h-4 text-neon-cyan" />
+                {title}
+                {limit ? <span className="text-xs text-muted-foreground">limit {format(limit)}</span> : null}
+            </div>
+            <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                    {lines.length === 1 ? (
+                        <AreaChart data={data} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                            <defs>
+                                <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
+                                    <stop offset="5%" stopColor={lines[0].color} stopOpacity={0.3} />
+                                    <stop offset="95%" stopColor={lines[0].color} stopOpacity={0} />
+                                </linearGradient>
+                            </defs>
+                            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+                            <XAxis dataKey="timestamp" stroke="rgba(255,255,255,0.5)" fontSize={11} tickLine={false} tickFormatter={(value) => formatTick(value, range)} minTickGap={40} />
+                            <YAxis stroke="rgba(255,255,255,0.5)" fontSize={11} tickLine={false} tickFormatter={format} width={70} domain={[0, limit ? Math.max(limit, 1) : 'auto']} />
+                            <Tooltip content={<ChartTooltip format={format} />} />
+                            {limit ? <ReferenceLine y={limit} stroke="#ef4444" strokeDasharray="4 4" /> : null}
+                            <Area type="monotone" dataKey={lines[0].key} name={lines[0].name} stroke={lines[0].color} strokeWidth={2} fillOpacity={1} fill={`url(#${gradientId})`} />
+                        </AreaChart>
+                    ) : (
+                        <LineChart data={data} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.1)" />
+                            <XAxis dataKey="timestamp" stroke="rgba(255,255,255,0.5)" fontSize={11} tickLine={false} tickFormatter={(value) => formatTick(value, range)} minTickGap={40} />
+                            <YAxis stroke="rgba(255,255,255,0.5)" fontSize={11} tickLine={false} tickFormatter={format} width={70} />
+                            <Tooltip content={<ChartTooltip format={format} />} />
+                            {limit ? <ReferenceLine y={limit} stroke="#ef4444" strokeDasharray="4 4" /> : null}
+                            {lines.map((line) => (
+                                <Line key={String(line.key)} type="monotone" dataKey={line.key} name={line.name} stroke={line.color} strokeWidth={2} dot={false} />
+                            ))}
+                        </LineChart>
+                    )}
+                </ResponsiveContainer>
+            </div>
+        </div>
+    );
+}
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+/**
+ * CPU, memory, disk and network history for a Pterodactyl-linked server,
+ * with its recent threshold alerts
+ */
+export function ServerResourceCharts({ serverId }: ServerResourceChartsProps) {
+    const [range, setRange] = useState<ResourceRange>('24h');
+    const [selectedServer, setSelectedServer] = useState<number | undefined>(serverId);
+    const [data, setData] = useState<ResourcesResponse | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        setSelectedServer(serverId);
+    }, [serverId]);
+
+    useEffect(() => {
+        fetchResources();
+    }, [range, selectedServer]);
+
+    const fetchResources = async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const params = new URLSearchParams({ range });
+            if (selectedServer) params.set('serverId', selectedServer.toString());
+
+            const res = await fetch(`/api/admin/server-resources?${params}`);
+            const body = await res.json();
+            if (res.ok) {
+                setData(body);
+            } else {
+                setError(body.error || 'Failed to load resource history');
+            }
+        } catch (err: any) {
+            setError('Failed to load resource history');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const history = data?.history;
+    const points = history?.points || [];
+    const limits = history?.limits;
+    const openAlerts = (data?.alerts || []).filter((alert) => !alert.resolvedAt);
+
+    return (
+        <Card variant="glass">
+            <CardHeader>
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                    <div>
+                        <CardTitle className="flex items-center gap-2">
+                            <Cpu className="w-5 h-5 text-neon-cyan" />
+                            Resource History
+                            {openAlerts.length > 0 && <Badge variant="warning">{openAlerts.length} active alert{openAlerts.length > 1 ? 's' : ''}</Badge>}
+                        </CardTitle>
+                        <CardDescription>
+                            Sampled from Pterodactyl every minute, kept for 30 days
+                            {history?.latest && ` • last sample ${new Date(history.latest.sampledAt).toLocaleTimeString()}`}
+                        </CardDescription>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        {serverId === undefined && data && data.servers.length > 0 && (
+                            <select
+                                value={selectedServer ?? data.serverId ?? ''}
+                                onChange={(e) => setSelectedServer(parseInt(e.target.value))}
+                                className="bg-secondary/50 border border-border rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-neon-cyan/50"
+                            >
+                                {data.servers.map((server) => (
+                                    <option key={server.id} value={server.id}>{server.name}</option>
+                                ))}
+                            </select>
+                        )}
+                        <div className="flex items-center gap-1 bg-secondary/50 rounded-lg p-1">
+                            {RANGES.map((option) => (
+                                <button
+                                    key={option}
+                                    onClick={() => setRange(option)}
+                                    className={`px-3 py-1 rounded-md text-sm font-medium transition-all ${range === option
+                                        ? 'bg-neon-cyan text-white'
+                                        : 'text-muted-foreground hover:text-foreground'
+                                        }`}
+                                >
+                                    {option}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            </CardHeader>
+            <CardContent>
+                {isLoading && !data ? (
+                    <div className="h-48 flex items-center justify-center">
+                        <Loader2 className="w-6 h-6 animate-spin text-neon-cyan" />
+                    </div>
+                ) : error ? (
+                    <div className="h-48 flex items-center justify-center text-muted-foreground">
+                        <div className="text-center">
+                            <Server className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                            <p>{error}</p>
+                        </div>
+                    </div>
+                ) : !data || data.servers.length === 0 ? (
+                    <div className="h-48 flex items-center justify-center text-muted-foreground">
+                        <div className="text-center">
+                            <Server className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                            <p>No servers are linked to Pterodactyl</p>
+                            <p className="text-xs mt-1">Set a Pterodactyl server ID on a server to start collecting resource history</p>
+                        </div>
+                    </div>
+                ) : points.length === 0 ? (
+                    <div className="h-48 flex items-center justify-center text-muted-foreground">
+                        <div className="text-center">
+                            <Cpu className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                            <p>No samples in this range yet</p>
+                            <p className="text-xs mt-1">Samples are recorded by the /api/cron/server-resources job</p>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <ResourceChart
+                            title="CPU"
+                            icon={Cpu}
+                            data={points}
+                            range={range}
+                            lines={[
+                                { key: 'cpuPercent', name: 'Average', color: '#00D9FF' },
+                                { key: 'cpuPeak', name: 'Peak', color: '#a855f7' },
+                            ]}
+                            format={(value) => `${value.toFixed(0)}%`}
+                            limit={limits?.cpu || undefined}
+                        />
+                        <ResourceChart
+                            title="Memory"
+                            icon={MemoryStick}
+                            data={points}
+                            range={range}
+                            lines={[
+                                { key: 'memoryMb', name: 'Average', color: '#22c55e' },
+                                { key: 'memoryPeakMb', name: 'Peak', color: '#f59e0b' },
+                            ]}
+                            format={formatMb}
+                            limit={limits?.memoryMb || undefined}
+                        />
+                        <ResourceChart
+                            title="Disk"
+                            icon={HardDrive}
+                            data={points}
+                            range={range}
+                            lines={[{ key: 'diskMb', name: 'Used', color: '#f97316' }]}
+                            format={formatMb}
+                            limit={limits?.diskMb || undefined}
+                        />
+                        <ResourceChart
+                            title="Network"
+                            icon={Network}
+                            data={points}
+                            range={range}
+                            lines={[
+                                { key: 'networkRxKbps', name: 'Inbound', color: '#00D9FF' },
+                                { key: 'networkTxKbps', name: 'Outbound', color: '#ec4899' },
+                            ]}
+                            format={formatRate}
+                        />
+                    </div>
+                )}
+
+                {data && data.alerts.length > 0 && (
+                    <div className="mt-6 space-y-2">
+                        <h4 className="text-sm font-medium">Recent Alerts</h4>
+                        {data.alerts.map((alert) => (
+                            <div key={alert.id} className="flex items-center gap-3 p-2 rounded-lg bg-secondary/30 text-sm">
+                                {alert.resolvedAt ? (
+                                    <CheckCircle className="w-4 h-4 text-success flex-shrink-0" />
+                                ) : (
+                                    <AlertTriangle className="w-4 h-4 text-warning flex-shrink-0" />
+                                )}
+                                <span className="flex-1">
+                                    {METRIC_LABELS[alert.metric]} above {alert.threshold}% (peak {alert.peakPercent.toFixed(1)}%)
+                                </span>
+                                <span className="text-xs text-muted-foreground">
+                                    {new Date(alert.startedAt).toLocaleString()}
+                                    {alert.resolvedAt && ` → ${new Date(alert.resolvedAt).toLocaleTimeString()}`}
+                                </span>
+                                <Badge variant={alert.resolvedAt ? 'outline' : 'warning'}>{alert.resolvedAt ? 'Resolved' : 'Active'}</Badge>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,279 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ShieldCheck, ShieldOff, Loader2, Copy, Check, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface SetupData {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+type Mode = 'idle' | 'setup' | 'disable' | 'regenerate';
+
+export function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [mode, setMode] = useState<Mode>('idle');
+  const [setupData, setSetupData] = useState<SetupData | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const fetchStatus = async () => {
+    try {
+      const res = await fetch('/api/user/two-factor');
+      if (res.ok) {
+        setStatus(await res.json());
+      }
+    } catch (err: any) {
+      console.error('Failed to fetch 2FA status:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const reset = () => {
+    setMode('idle');
+    setSetupData(null);
+    setCode('');
+    setPassword('');
+    setError('');
+  };
+
+  const postJson = async (url: string, body?: Record<string, string>) => {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      throw new Error(data.error || 'Request failed');
+    }
+    return data;
+  };
+
+  const handleStartSetup = async () => {
+    setBusy(true);
+    setError('');
+    setRecoveryCodes(null);
+    try {
+      const data = await postJson('/api/user/two-factor/setup');
+      setSetupData(data);
+      setMode('setup');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirmSetup = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      const data = await postJson('/api/user/two-factor/enable', { code });
+      setRecoveryCodes(data.recoveryCodes);
+      reset();
+      await fetchStatus();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      await postJson('/api/user/two-factor/disable', { password, code });
+      setRecoveryCodes(null);
+      reset();
+      await fetchStatus();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      const data = await postJson('/api/user/two-factor/recovery-codes', { code });
+      setRecoveryCodes(data.recoveryCodes);
+      reset();
+      await fetchStatus();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard unavailable - codes are still visible on screen
+    }
+  };
+
+  return (
+    <div className="p-4 rounded-lg bg-secondary/50 border border-border space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="font-semibold flex items-center gap-2">
+            Two-Factor Authentication
+            {status?.enabled && (
+              <Badge variant="outline" className="border-success text-success">
+                <ShieldCheck className="w-3 h-3 mr-1" />
+                Enabled
+              </Badge>
+            )}
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {status?.enabled
+              ? `${status.recoveryCodesRemaining} recovery code${status.recoveryCodesRemaining === 1 ? '' : 's'} remaining`
+              : 'Add an extra layer of security to your account'}
+          </p>
+        </div>
+        {status && mode === 'idle' && (
+          status.enabled ? (
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setMode('regenerate')}>
+                <RefreshCw className="w-4 h-4 mr-1" />
+                New Codes
+              </Button>
+              <Button variant="ghost" size="sm" className="text-error hover:text-error/80" onClick={() => setMode('disable')}>
+                <ShieldOff className="w-4 h-4 mr-1" />
+                Disable
+              </Button>
+            </div>
+          ) : (
+            <Button variant="neon-outline" onClick={handleStartSetup} disabled={busy}>
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Enable 2FA'}
+            </Button>
+          )
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-error/10 border border-error/50 text-error text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Enrollment: scan QR, confirm first code */}
+      {mode === 'setup' && setupData && (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+          </p>
+          <div className="flex flex-col sm:flex-row items-center gap-4">
+            <img src={setupData.qrCode} alt="Two-factor QR code" className="w-44 h-44 rounded-lg bg-white p-2" />
+            <div className="space-y-2 text-sm">
+              <p className="text-muted-foreground">Can&apos;t scan? Enter this key manually:</p>
+              <code className="block p-2 rounded bg-background font-mono break-all">{setupData.secret}</code>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              inputMode="numeric"
+              placeholder="123456"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              autoComplete="one-time-code"
+            />
+            <Button variant="neon" onClick={handleConfirmSetup} disabled={busy || !code}>
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Verify'}
+            </Button>
+            <Button variant="ghost" onClick={reset} disabled={busy}>Cancel</Button>
+          </div>
+        </div>
+      )}
+
+      {/* Disable: password + code */}
+      {mode === 'disable' && (
+        <div className="space-y-2">
+          <Input
+            type="password"
+            placeholder="Current password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Input
+              placeholder="Authenticator or recovery code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              autoComplete="one-time-code"
+            />
+            <Button variant="destructive" onClick={handleDisable} disabled={busy || !password || !code}>
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Disable 2FA'}
+            </Button>
+            <Button variant="ghost" onClick={reset} disabled={busy}>Cancel</Button>
+          </div>
+        </div>
+      )}
+
+      {/* Regenerate recovery codes */}
+      {mode === 'regenerate' && (
+        <div className="flex gap-2">
+          <Input
+            inputMode="numeric"
+            placeholder="Authenticator code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoComplete="one-time-code"
+          />
+          <Button variant="neon" onClick={handleRegenerate} disabled={busy || !code}>
+            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Generate'}
+          </Button>
+          <Button variant="ghost" onClick={reset} disabled={busy}>Cancel</Button>
+        </div>
+      )}
+
+      {/* Freshly issued recovery codes - shown once */}
+      {recoveryCodes && (
+        <div className="p-4 rounded-lg bg-warning/10 border border-warning/50 space-y-3">
+          <p className="text-sm text-warning font-medium">
+            Save these recovery codes somewhere safe. Each can be used once if you lose your authenticator. They will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+            {recoveryCodes.map((c) => (
+              <code key={c} className="p-1.5 rounded bg-background text-center">{c}</code>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={copyRecoveryCodes}>
+              {copied ? <Check className="w-4 h-4 mr-1" /> : <Copy className="w-4 h-4 mr-1" />}
+              {copied ? 'Copied' : 'Copy'}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setRecoveryCodes(null)}>
+              I&apos;ve saved them
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
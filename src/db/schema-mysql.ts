@@ -3,7 +3,7 @@
  * Used for MySQL and MariaDB databases
  */
 import { sql } from 'drizzle-orm';
-import { mysqlTable, serial, varchar, text, int, boolean, timestamp, double, mysqlEnum } from 'drizzle-orm/mysql-core';
+import { mysqlTable, serial, varchar, text, int, boolean, timestamp, double, mysqlEnum, uniqueIndex } from 'drizzle-orm/mysql-core';
 
 // ===================================
 // USERS & AUTHENTICATION
@@ -42,6 +42,7 @@ export const users = mysqlTable('users', {
     pausedRemainingDays: int('paused_remaining_days'),
     pausedAt: timestamp('paused_at'),
     totalDonated: double('total_donated').default(0),
+    showOnDonorLeaderboard: boolean('show_on_donor_leaderboard').default(false).notNull(),
 
     // Payment Integration - Stripe
     stripeCustomerId: varchar('stripe_customer_id', { length: 255 }).unique(),
@@ -66,6 +67,8 @@ export const users = mysqlTable('users', {
     emailVerified: boolean('email_verified').default(false),
     twoFactorEnabled: boolean('two_factor_enabled').default(false),
     twoFactorSecret: text('two_factor_secret'),
+    twoFactorRecoveryCodes: text('two_factor_recovery_codes'),
+    twoFactorLastStep: int('two_factor_last_step'), // Last accepted TOTP time step, so a code can't be replayed
     lastLoginAt: timestamp('last_login_at'),
     lastLoginIp: varchar('last_login_ip', { length: 45 }),
     failedLoginAttempts: int('failed_login_attempts').default(0),
@@ -103,6 +106,18 @@ export const auditLogs = mysqlTable('audit_logs', {
     createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Hit counters for the shared rate limiter (src/lib/rate-limit.ts). One row
+// per policy and client; the window restarts once windowEndsAt has passed.
+export const rateLimits = mysqlTable('rate_limits', {
+    key: varchar('key', { length: 255 }).primaryKey(), // "<policy>:<identifier>"
+    policy: varchar('policy', { length: 64 }).notNull(),
+    identifier: varchar('identifier', { length: 190 }).notNull(), // IP address or "user:<id>"
+    hits: int('hits').default(0).notNull(),
+    maxHits: int('max_hits').notNull(),
+    windowEndsAt: timestamp('window_ends_at').notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 export const passwordResetTokens = mysqlTable('password_reset_tokens', {
     id: serial('id').primaryKey(),
     userId: int('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
@@ -131,6 +146,16 @@ export const registrationCodes = mysqlTable('registration_codes', {
 // SERVERS
 // ===================================
 
+// Pterodactyl panel connections. Each Minecraft server can be mapped to one.
+export const pterodactylPanels = mysqlTable('pterodactyl_panels', {
+    id: serial('id').primaryKey(),
+    name: varchar('name', { length: 255 }).notNull(),
+    panelUrl: text('panel_url').notNull(),
+    apiKey: text('api_key').notNull(), // Client API key
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 export const servers = mysqlTable('servers', {
     id: serial('id').primaryKey(),
     name: varchar('name', { length: 255 }).notNull(),
@@ -150,6 +175,7 @@ export const servers = mysqlTable('servers', {
     apiKey: text('api_key'),
     pterodactylServerId: varchar('pterodactyl_server_id', { length: 255 }),
     pterodactylPanelUrl: text('pterodactyl_panel_url'),
+    pterodactylPanelId: int('pterodactyl_panel_id').references(() => pterodactylPanels.id, { onDelete: 'set null' }),
     // Maintenance mode - disables status checks and shows maintenance badge
     maintenanceMode: boolean('maintenance_mode').default(false).notNull(),
     maintenanceMessage: text('maintenance_message'),
@@ -185,6 +211,27 @@ export const minecraftPlayers = mysqlTable('minecraft_players', {
     linkedUserId: int('linked_user_id').references(() => users.id, { onDelete: 'set null' }),
 });
 
+// Cached leaderboard rankings, rebuilt by the leaderboard cron. Entries are
+// only read once their snapshot is complete, so a refresh never shows a
+// half-built board.
+export const leaderboardSnapshots = mysqlTable('leaderboard_snapshots', {
+    id: serial('id').primaryKey(),
+    board: varchar('board', { length: 50 }).notNull(), // xp, playtime, server-xp, weekly-gainers...
+    serverId: int('server_id').default(0).notNull(), // Per-server boards only, 0 otherwise
+    entryCount: int('entry_count').default(0).notNull(),
+    complete: boolean('complete').default(false).notNull(),
+    refreshedAt: timestamp('refreshed_at').defaultNow().notNull(),
+});
+
+export const leaderboardEntries = mysqlTable('leaderboard_entries', {
+    id: serial('id').primaryKey(),
+    snapshotId: int('snapshot_id').notNull().references(() => leaderboardSnapshots.id, { onDelete: 'cascade' }),
+    rank: int('rank').notNull(),
+    userId: int('user_id').references(() => users.id, { onDelete: 'cascade' }),
+    minecraftPlayerId: int('minecraft_player_id').references(() => minecraftPlayers.id, { onDelete: 'cascade' }), // Unregistered players
+    value: double('value').notNull(),
+});
+
 // ===================================
 // FORUM SYSTEM
 // ===================================
@@ -231,7 +278,11 @@ export const forumVotes = mysqlTable('forum_votes', {
     userId: int('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
     voteType: mysqlEnum('vote_type', ['upvote', 'downvote']).notNull(),
     createdAt: timestamp('created_at').defaultNow().notNull(),
-});
+}, (table) => [
+    // One vote per user per post or reply (votes on the other target are NULL)
+    uniqueIndex('forum_votes_post_user_idx').on(table.postId, table.userId),
+    uniqueIndex('forum_votes_reply_user_idx').on(table.replyId, table.userId),
+]);
 
 // ===================================
 // SOCIAL FEED
@@ -266,6 +317,13 @@ export const socialLikes = mysqlTable('social_likes', {
     createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+export const socialCommentLikes = mysqlTable('social_comment_likes', {
+    id: serial('id').primaryKey(),
+    userId: int('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    commentId: int('comment_id').notNull().references(() => socialComments.id, { onDelete: 'cascade' }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // ===================================
 // FRIENDS & MESSAGING
 // ===================================
@@ -308,7 +366,14 @@ export const donations = mysqlTable('donations', {
     rankId: varchar('rank_id', { length: 255 }),
     days: int('days'),
     paymentType: mysqlEnum('payment_type', ['one_time', 'subscription', 'subscription_renewal']).default('one_time'),
-    status: mysqlEnum('status', ['completed', 'pending', 'failed', 'refunded']).default('completed').notNull(),
+    status: mysqlEnum('status', ['completed', 'pending', 'failed', 'refunded', 'disputed']).default('completed').notNull(),
+    refundedAmount: double('refunded_amount').default(0).notNull(), // Refunded or disputed so far
+    revokedDays: int('revoked_days').default(0).notNull(), // Rank days taken back for the refund
+    disputedAmount: double('disputed_amount').default(0).notNull(), // Part of refundedAmount held by an open chargeback
+    disputeRevokedDays: int('dispute_revoked_days').default(0).notNull(), // Part of revokedDays taken for that chargeback
+    refundedAt: timestamp('refunded_at'),
+    promoCode: varchar('promo_code', { length: 64 }),
+    discountAmount: double('discount_amount').default(0).notNull(), // Taken off by a sale and/or promo code
     stripeInvoiceId: varchar('stripe_invoice_id', { length: 255 }),
     stripeInvoiceUrl: text('stripe_invoice_url'),
     stripePriceId: varchar('stripe_price_id', { length: 255 }),
@@ -339,6 +404,72 @@ export const donationRanks = mysqlTable('donation_ranks', {
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Ranks bought for another player. Gifts to Minecraft players without an
+// account stay pending until that UUID registers.
+export const rankGifts = mysqlTable('rank_gifts', {
+    id: serial('id').primaryKey(),
+    donationId: int('donation_id').references(() => donations.id, { onDelete: 'cascade' }),
+    purchaserId: int('purchaser_id').references(() => users.id, { onDelete: 'set null' }),
+    purchaserName: varchar('purchaser_name', { length: 255 }).notNull(),
+    recipientId: int('recipient_id').references(() => users.id, { onDelete: 'set null' }),
+    recipientName: varchar('recipient_name', { length: 255 }).notNull(),
+    recipientMinecraftUuid: varchar('recipient_minecraft_uuid', { length: 36 }),
+    rankId: varchar('rank_id', { length: 255 }).notNull(),
+    days: int('days').notNull(),
+    message: text('message'),
+    status: mysqlEnum('status', ['pending', 'delivered', 'cancelled']).default('pending').notNull(),
+    deliveredAt: timestamp('delivered_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Admin-managed discount codes for rank purchases
+export const promoCodes = mysqlTable('promo_codes', {
+    id: serial('id').primaryKey(),
+    code: varchar('code', { length: 64 }).notNull().unique(), // Stored uppercase
+    description: text('description'),
+    discountType: mysqlEnum('discount_type', ['percent', 'fixed']).notNull(),
+    discountValue: double('discount_value').notNull(), // Percent off, or dollars off
+    rankIds: text('rank_ids'), // JSON array of rank IDs, null = every rank
+    maxUses: int('max_uses'), // null = unlimited
+    maxUsesPerUser: int('max_uses_per_user'),
+    usedCount: int('used_count').default(0).notNull(),
+    expiresAt: timestamp('expires_at'),
+    active: boolean('active').default(true).notNull(),
+    createdBy: int('created_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Time-boxed sitewide sales, e.g. 20% off for a weekend
+export const rankSales = mysqlTable('rank_sales', {
+    id: serial('id').primaryKey(),
+    name: varchar('name', { length: 255 }).notNull(),
+    percentOff: double('percent_off').notNull(),
+    rankIds: text('rank_ids'), // JSON array of rank IDs, null = every rank
+    startsAt: timestamp('starts_at').notNull(),
+    endsAt: timestamp('ends_at').notNull(),
+    active: boolean('active').default(true).notNull(),
+    createdBy: int('created_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Funding goals shown on the home and donate pages, e.g. "$150 hosting this month".
+// Progress is summed from completed donations inside the goal's period.
+export const donationGoals = mysqlTable('donation_goals', {
+    id: serial('id').primaryKey(),
+    title: varchar('title', { length: 255 }).notNull(),
+    description: text('description'),
+    targetAmount: double('target_amount').notNull(),
+    period: mysqlEnum('period', ['monthly', 'custom']).default('monthly').notNull(),
+    startsAt: timestamp('starts_at'), // Custom periods only
+    endsAt: timestamp('ends_at'),
+    active: boolean('active').default(true).notNull(),
+    announceMilestones: boolean('announce_milestones').default(true).notNull(),
+    lastMilestone: int('last_milestone').default(0).notNull(), // Highest % announced this period
+    milestonePeriodStart: timestamp('milestone_period_start'),
+    createdBy: int('created_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // ===================================
 // GROUPS & GUILDS
 // ===================================
@@ -349,18 +480,38 @@ export const groups = mysqlTable('groups', {
     description: text('description'),
     coverImage: text('cover_image'),
     creatorId: int('creator_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
-    privacy: mysqlEnum('privacy', ['public', 'private']).default('public').notNull(),
+    privacy: mysqlEnum('privacy', ['public', 'private', 'invite_only']).default('public').notNull(),
     createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
 export const groupMembers = mysqlTable('group_members', {
     id: serial('id').primaryKey(),
     groupId: int('group_id').notNull().references(() => groups.id, { onDelete: 'cascade' }),
     userId: int('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
-    role: mysqlEnum('role', ['admin', 'moderator', 'member']).default('member').notNull(),
+    role: mysqlEnum('role', ['owner', 'admin', 'member']).default('member').notNull(),
     joinedAt: timestamp('joined_at').defaultNow().notNull(),
 });
 
+export const groupInvites = mysqlTable('group_invites', {
+    id: serial('id').primaryKey(),
+    groupId: int('group_id').notNull().references(() => groups.id, { onDelete: 'cascade' }),
+    userId: int('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    invitedById: int('invited_by_id').references(() => users.id, { onDelete: 'set null' }),
+    type: mysqlEnum('type', ['invite', 'request']).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+export const groupPosts = mysqlTable('group_posts', {
+    id: serial('id').primaryKey(),
+    groupId: int('group_id').notNull().references(() => groups.id, { onDelete: 'cascade' }),
+    userId: int('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    content: text('content').notNull(),
+    imageUrl: text('image_url'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // ===================================
 // EVENTS
 // ===================================
@@ -383,6 +534,7 @@ export const eventAttendees = mysqlTable('event_attendees', {
     userId: int('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
     status: mysqlEnum('status', ['going', 'interested', 'not_going']).default('going').notNull(),
     respondedAt: timestamp('responded_at').defaultNow().notNull(),
+    reminderSentAt: timestamp('reminder_sent_at'),
 });
 
 // ===================================
@@ -434,7 +586,9 @@ export const userAchievements = mysqlTable('user_achievements', {
     completed: boolean('completed').default(false).notNull(),
     completedAt: timestamp('completed_at'),
     createdAt: timestamp('created_at').defaultNow().notNull(),
-});
+}, (table) => [
+    uniqueIndex('user_achievements_user_achievement_idx').on(table.userId, table.achievementId),
+]);
 
 // ===================================
 // MODERATION
@@ -442,7 +596,7 @@ export const userAchievements = mysqlTable('user_achievements', {
 
 export const reportedContent = mysqlTable('reported_content', {
     id: serial('id').primaryKey(),
-    contentType: mysqlEnum('content_type', ['social_post', 'forum_post', 'forum_reply', 'group_post', 'group_comment', 'social_comment', 'user']).notNull(),
+    contentType: mysqlEnum('content_type', ['social_post', 'forum_post', 'forum_reply', 'group_post', 'group_comment', 'social_comment', 'private_message', 'user']).notNull(),
     contentId: int('content_id').notNull(),
     reporterId: int('reporter_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
     reason: varchar('reason', { length: 255 }).notNull(),
@@ -454,6 +608,23 @@ export const reportedContent = mysqlTable('reported_content', {
     createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Warnings, mutes and bans. A ban is active while active=true and expiresAt is null or in the future
+export const userSanctions = mysqlTable('user_sanctions', {
+    id: serial('id').primaryKey(),
+    userId: int('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    type: mysqlEnum('type', ['warning', 'mute', 'temp_ban', 'permanent_ban']).notNull(),
+    reason: text('reason').notNull(),
+    issuedBy: int('issued_by').references(() => users.id, { onDelete: 'set null' }),
+    expiresAt: timestamp('expires_at'),
+    active: boolean('active').default(true).notNull(),
+    revokedBy: int('revoked_by').references(() => users.id, { onDelete: 'set null' }),
+    revokedAt: timestamp('revoked_at'),
+    revokeReason: text('revoke_reason'),
+    appealToken: varchar('appeal_token', { length: 64 }).unique(), // Lets a logged-out banned user view the notice and appeal
+    appealTicketId: int('appeal_ticket_id'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // ===================================
 // SETTINGS
 // ===================================
@@ -480,11 +651,34 @@ export const setupStatus = mysqlTable('setup_status', {
 export const apiKeys = mysqlTable('api_keys', {
     id: serial('id').primaryKey(),
     name: varchar('name', { length: 255 }).notNull().unique(),
-    key: text('key').notNull(),
+    key: text('key'), // Legacy plaintext key, replaced by keyHash the first time it is used
+    keyHash: varchar('key_hash', { length: 64 }).unique(), // SHA-256 of the key; the key itself is only shown once
+    keyPrefix: varchar('key_prefix', { length: 16 }), // Start of the key, to tell keys apart
+    scopes: text('scopes'), // JSON array of ApiKeyScope
+    serverId: int('server_id').references(() => servers.id, { onDelete: 'cascade' }), // Key may only report for this server
+    needsRotation: boolean('needs_rotation').default(false).notNull(), // Upgraded from a plaintext key that may have been exposed
+    createdBy: int('created_by').references(() => users.id, { onDelete: 'set null' }),
+    expiresAt: timestamp('expires_at'),
+    lastUsedAt: timestamp('last_used_at'),
+    lastUsedIp: varchar('last_used_ip', { length: 64 }),
+    rotatedAt: timestamp('rotated_at'),
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Requests made with API keys, for spotting misuse of a leaked key
+export const apiKeyRequests = mysqlTable('api_key_requests', {
+    id: serial('id').primaryKey(),
+    apiKeyId: int('api_key_id').references(() => apiKeys.id, { onDelete: 'cascade' }), // Null for unknown keys
+    keyPrefix: varchar('key_prefix', { length: 16 }),
+    endpoint: varchar('endpoint', { length: 255 }).notNull(), // e.g. POST /api/minecraft/sync/xp
+    scope: varchar('scope', { length: 32 }).notNull(),
+    outcome: varchar('outcome', { length: 32 }).notNull(), // allowed, invalid, expired, missing_scope, wrong_server
+    serverId: int('server_id'), // Server the request reported for, if any
+    ipAddress: varchar('ip_address', { length: 64 }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // ===================================
 // SERVER UPTIME TRACKING
 // ===================================
@@ -499,6 +693,47 @@ export const serverUptimeRecords = mysqlTable('server_uptime_records', {
     checkedAt: timestamp('checked_at').defaultNow().notNull(),
 });
 
+// Periodic CPU/memory/disk/network readings from Pterodactyl for linked servers
+export const serverResourceSamples = mysqlTable('server_resource_samples', {
+    id: serial('id').primaryKey(),
+    serverId: int('server_id').notNull().references(() => servers.id, { onDelete: 'cascade' }),
+    state: varchar('state', { length: 20 }).notNull(), // 'running' | 'starting' | 'stopping' | 'offline'
+    cpuPercent: double('cpu_percent').default(0).notNull(),
+    cpuLimit: int('cpu_limit').default(0).notNull(), // Percent (100 = one core), 0 = unlimited
+    memoryMb: int('memory_mb').default(0).notNull(),
+    memoryLimitMb: int('memory_limit_mb').default(0).notNull(), // 0 = unlimited
+    diskMb: int('disk_mb').default(0).notNull(),
+    diskLimitMb: int('disk_limit_mb').default(0).notNull(), // 0 = unlimited
+    networkRxKb: int('network_rx_kb').default(0).notNull(), // Totals since the server started
+    networkTxKb: int('network_tx_kb').default(0).notNull(),
+    sampledAt: timestamp('sampled_at').defaultNow().notNull(),
+});
+
+// Threshold breaches (e.g. memory above 90% for 5 minutes); open until resolvedAt is set
+export const serverResourceAlerts = mysqlTable('server_resource_alerts', {
+    id: serial('id').primaryKey(),
+    serverId: int('server_id').notNull().references(() => servers.id, { onDelete: 'cascade' }),
+    metric: varchar('metric', { length: 20 }).notNull(), // 'cpu' | 'memory' | 'disk'
+    threshold: double('threshold').notNull(), // Percent of the limit
+    peakPercent: double('peak_percent').notNull(),
+    startedAt: timestamp('started_at').defaultNow().notNull(),
+    notifiedAt: timestamp('notified_at'),
+    resolvedAt: timestamp('resolved_at'),
+});
+
+// Per-server Pterodactyl access for users without servers:write
+export const serverAccessGrants = mysqlTable('server_access_grants', {
+    id: serial('id').primaryKey(),
+    userId: int('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    serverIdentifier: varchar('server_identifier', { length: 50 }).notNull(), // Pterodactyl short identifier
+    serverName: varchar('server_name', { length: 255 }),
+    capabilities: text('capabilities').notNull(), // JSON array of ServerCapability
+    subuserUuid: varchar('subuser_uuid', { length: 64 }), // Set when mirrored to a Pterodactyl subuser
+    grantedBy: int('granted_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // ===================================
 // ANNOUNCEMENTS
 // ===================================
@@ -610,6 +845,9 @@ export const supportTickets = mysqlTable('support_tickets', {
     firstResponseAt: timestamp('first_response_at'),
     lastMessageAt: timestamp('last_message_at'),
     messageCount: int('message_count').default(0),
+    staleNotifiedAt: timestamp('stale_notified_at'),
+    feedbackToken: varchar('feedback_token', { length: 64 }),
+    feedbackRequestedAt: timestamp('feedback_requested_at'),
     referencesTicketId: int('references_ticket_id'),
     referencesMessageId: varchar('references_message_id', { length: 255 }),
     createdAt: timestamp('created_at').defaultNow().notNull(),
@@ -719,6 +957,8 @@ export const ticketSettings = mysqlTable('ticket_settings', {
     autoCloseHours: int('auto_close_hours'),
     staleHours: int('stale_hours'),
     workingHours: text('working_hours'),
+    slaFirstResponseHours: int('sla_first_response_hours'),
+    slaResolutionHours: int('sla_resolution_hours'),
     primaryColor: varchar('primary_color', { length: 50 }).default('#00FFFF'),
     successColor: varchar('success_color', { length: 50 }).default('#00FF00'),
     errorColor: varchar('error_color', { length: 50 }).default('#FF0000'),
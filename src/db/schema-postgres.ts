@@ -3,7 +3,7 @@
  * Used for PostgreSQL databases including Supabase
  */
 import { sql } from 'drizzle-orm';
-import { pgTable, serial, text, integer, boolean, timestamp, real, varchar, pgEnum } from 'drizzle-orm/pg-core';
+import { pgTable, serial, text, integer, boolean, timestamp, real, varchar, pgEnum, uniqueIndex } from 'drizzle-orm/pg-core';
 
 // ===================================
 // ENUMS
@@ -14,13 +14,17 @@ export const subscriptionStatusEnum = pgEnum('subscription_status', ['active', '
 export const friendshipStatusEnum = pgEnum('friendship_status', ['pending', 'accepted', 'blocked']);
 export const voteTypeEnum = pgEnum('vote_type', ['upvote', 'downvote']);
 export const paymentTypeEnum = pgEnum('payment_type', ['one_time', 'subscription', 'subscription_renewal']);
-export const paymentStatusEnum = pgEnum('payment_status', ['completed', 'pending', 'failed', 'refunded']);
-export const groupPrivacyEnum = pgEnum('group_privacy', ['public', 'private']);
-export const groupRoleEnum = pgEnum('group_role', ['admin', 'moderator', 'member']);
+export const paymentStatusEnum = pgEnum('payment_status', ['completed', 'pending', 'failed', 'refunded', 'disputed']);
+export const discountTypeEnum = pgEnum('discount_type', ['percent', 'fixed']);
+export const goalPeriodEnum = pgEnum('goal_period', ['monthly', 'custom']);
+export const giftStatusEnum = pgEnum('gift_status', ['pending', 'delivered', 'cancelled']);
+export const groupPrivacyEnum = pgEnum('group_privacy', ['public', 'private', 'invite_only']);
+export const groupRoleEnum = pgEnum('group_role', ['owner', 'admin', 'member']);
 export const eventStatusEnum = pgEnum('event_status', ['going', 'interested', 'not_going']);
 export const achievementCategoryEnum = pgEnum('achievement_category', ['social', 'forum', 'leveling', 'special']);
-export const contentTypeEnum = pgEnum('content_type', ['social_post', 'forum_post', 'forum_reply', 'group_post', 'group_comment', 'social_comment', 'user']);
+export const contentTypeEnum = pgEnum('content_type', ['social_post', 'forum_post', 'forum_reply', 'group_post', 'group_comment', 'social_comment', 'private_message', 'user']);
 export const reportStatusEnum = pgEnum('report_status', ['pending', 'reviewed', 'dismissed', 'actioned']);
+export const sanctionTypeEnum = pgEnum('sanction_type', ['warning', 'mute', 'temp_ban', 'permanent_ban']);
 export const announcementTypeEnum = pgEnum('announcement_type', ['info', 'warning', 'success', 'error']);
 export const ticketCategoryEnum = pgEnum('ticket_category', ['account', 'billing', 'technical', 'general', 'other']);
 export const ticketPriorityEnum = pgEnum('ticket_priority', ['low', 'normal', 'high', 'urgent']);
@@ -65,6 +69,7 @@ export const users = pgTable('users', {
     pausedRemainingDays: integer('paused_remaining_days'),
     pausedAt: timestamp('paused_at'),
     totalDonated: real('total_donated').default(0),
+    showOnDonorLeaderboard: boolean('show_on_donor_leaderboard').default(false).notNull(),
 
     // Payment Integration - Stripe
     stripeCustomerId: varchar('stripe_customer_id', { length: 255 }).unique(),
@@ -89,6 +94,8 @@ export const users = pgTable('users', {
     emailVerified: boolean('email_verified').default(false),
     twoFactorEnabled: boolean('two_factor_enabled').default(false),
     twoFactorSecret: text('two_factor_secret'),
+    twoFactorRecoveryCodes: text('two_factor_recovery_codes'),
+    twoFactorLastStep: integer('two_factor_last_step'), // Last accepted TOTP time step, so a code can't be replayed
     lastLoginAt: timestamp('last_login_at'),
     lastLoginIp: varchar('last_login_ip', { length: 45 }),
     failedLoginAttempts: integer('failed_login_attempts').default(0),
@@ -126,6 +133,18 @@ export const auditLogs = pgTable('audit_logs', {
     createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Hit counters for the shared rate limiter (src/lib/rate-limit.ts). One row
+// per policy and client; the window restarts once windowEndsAt has passed.
+export const rateLimits = pgTable('rate_limits', {
+    key: varchar('key', { length: 255 }).primaryKey(), // "<policy>:<identifier>"
+    policy: varchar('policy', { length: 64 }).notNull(),
+    identifier: varchar('identifier', { length: 190 }).notNull(), // IP address or "user:<id>"
+    hits: integer('hits').default(0).notNull(),
+    maxHits: integer('max_hits').notNull(),
+    windowEndsAt: timestamp('window_ends_at').notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 export const passwordResetTokens = pgTable('password_reset_tokens', {
     id: serial('id').primaryKey(),
     userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
@@ -154,6 +173,16 @@ export const registrationCodes = pgTable('registration_codes', {
 // SERVERS
 // ===================================
 
+// Pterodactyl panel connections. Each Minecraft server can be mapped to one.
+export const pterodactylPanels = pgTable('pterodactyl_panels', {
+    id: serial('id').primaryKey(),
+    name: varchar('name', { length: 255 }).notNull(),
+    panelUrl: text('panel_url').notNull(),
+    apiKey: text('api_key').notNull(), // Client API key
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 export const servers = pgTable('servers', {
     id: serial('id').primaryKey(),
     name: varchar('name', { length: 255 }).notNull(),
@@ -173,6 +202,7 @@ export const servers = pgTable('servers', {
     apiKey: text('api_key').unique(),
     pterodactylServerId: varchar('pterodactyl_server_id', { length: 255 }),
     pterodactylPanelUrl: text('pterodactyl_panel_url'),
+    pterodactylPanelId: integer('pterodactyl_panel_id').references(() => pterodactylPanels.id, { onDelete: 'set null' }),
     // Maintenance mode - disables status checks and shows maintenance badge
     maintenanceMode: boolean('maintenance_mode').default(false).notNull(),
     maintenanceMessage: text('maintenance_message'),
@@ -208,6 +238,27 @@ export const minecraftPlayers = pgTable('minecraft_players', {
     linkedUserId: integer('linked_user_id').references(() => users.id, { onDelete: 'set null' }),
 });
 
+// Cached leaderboard rankings, rebuilt by the leaderboard cron. Entries are
+// only read once their snapshot is complete, so a refresh never shows a
+// half-built board.
+export const leaderboardSnapshots = pgTable('leaderboard_snapshots', {
+    id: serial('id').primaryKey(),
+    board: text('board').notNull(), // xp, playtime, server-xp, weekly-gainers...
+    serverId: integer('server_id').default(0).notNull(), // Per-server boards only, 0 otherwise
+    entryCount: integer('entry_count').default(0).notNull(),
+    complete: boolean('complete').default(false).notNull(),
+    refreshedAt: timestamp('refreshed_at').defaultNow().notNull(),
+});
+
+export const leaderboardEntries = pgTable('leaderboard_entries', {
+    id: serial('id').primaryKey(),
+    snapshotId: integer('snapshot_id').notNull().references(() => leaderboardSnapshots.id, { onDelete: 'cascade' }),
+    rank: integer('rank').notNull(),
+    userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }),
+    minecraftPlayerId: integer('minecraft_player_id').references(() => minecraftPlayers.id, { onDelete: 'cascade' }), // Unregistered players
+    value: real('value').notNull(),
+});
+
 // ===================================
 // FORUM SYSTEM
 // ===================================
@@ -254,7 +305,11 @@ export const forumVotes = pgTable('forum_votes', {
     userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
     voteType: voteTypeEnum('vote_type').notNull(),
     createdAt: timestamp('created_at').defaultNow().notNull(),
-});
+}, (table) => [
+    // One vote per user per post or reply (votes on the other target are NULL)
+    uniqueIndex('forum_votes_post_user_idx').on(table.postId, table.userId),
+    uniqueIndex('forum_votes_reply_user_idx').on(table.replyId, table.userId),
+]);
 
 // ===================================
 // SOCIAL FEED
@@ -289,6 +344,13 @@ export const socialLikes = pgTable('social_likes', {
     createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+export const socialCommentLikes = pgTable('social_comment_likes', {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    commentId: integer('comment_id').notNull().references(() => socialComments.id, { onDelete: 'cascade' }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // ===================================
 // FRIENDS & MESSAGING
 // ===================================
@@ -332,6 +394,13 @@ export const donations = pgTable('donations', {
     days: integer('days'),
     paymentType: paymentTypeEnum('payment_type').default('one_time'),
     status: paymentStatusEnum('status').default('completed').notNull(),
+    refundedAmount: real('refunded_amount').default(0).notNull(), // Refunded or disputed so far
+    revokedDays: integer('revoked_days').default(0).notNull(), // Rank days taken back for the refund
+    disputedAmount: real('disputed_amount').default(0).notNull(), // Part of refundedAmount held by an open chargeback
+    disputeRevokedDays: integer('dispute_revoked_days').default(0).notNull(), // Part of revokedDays taken for that chargeback
+    refundedAt: timestamp('refunded_at'),
+    promoCode: varchar('promo_code', { length: 64 }),
+    discountAmount: real('discount_amount').default(0).notNull(), // Taken off by a sale and/or promo code
     stripeInvoiceId: varchar('stripe_invoice_id', { length: 255 }),
     stripeInvoiceUrl: text('stripe_invoice_url'),
     stripePriceId: varchar('stripe_price_id', { length: 255 }),
@@ -362,6 +431,72 @@ export const donationRanks = pgTable('donation_ranks', {
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Ranks bought for another player. Gifts to Minecraft players without an
+// account stay pending until that UUID registers.
+export const rankGifts = pgTable('rank_gifts', {
+    id: serial('id').primaryKey(),
+    donationId: integer('donation_id').references(() => donations.id, { onDelete: 'cascade' }),
+    purchaserId: integer('purchaser_id').references(() => users.id, { onDelete: 'set null' }),
+    purchaserName: varchar('purchaser_name', { length: 255 }).notNull(),
+    recipientId: integer('recipient_id').references(() => users.id, { onDelete: 'set null' }),
+    recipientName: varchar('recipient_name', { length: 255 }).notNull(),
+    recipientMinecraftUuid: varchar('recipient_minecraft_uuid', { length: 36 }),
+    rankId: varchar('rank_id', { length: 255 }).notNull(),
+    days: integer('days').notNull(),
+    message: text('message'),
+    status: giftStatusEnum('status').default('pending').notNull(),
+    deliveredAt: timestamp('delivered_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Admin-managed discount codes for rank purchases
+export const promoCodes = pgTable('promo_codes', {
+    id: serial('id').primaryKey(),
+    code: varchar('code', { length: 64 }).notNull().unique(), // Stored uppercase
+    description: text('description'),
+    discountType: discountTypeEnum('discount_type').notNull(),
+    discountValue: real('discount_value').notNull(), // Percent off, or dollars off
+    rankIds: text('rank_ids'), // JSON array of rank IDs, null = every rank
+    maxUses: integer('max_uses'), // null = unlimited
+    maxUsesPerUser: integer('max_uses_per_user'),
+    usedCount: integer('used_count').default(0).notNull(),
+    expiresAt: timestamp('expires_at'),
+    active: boolean('active').default(true).notNull(),
+    createdBy: integer('created_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Time-boxed sitewide sales, e.g. 20% off for a weekend
+export const rankSales = pgTable('rank_sales', {
+    id: serial('id').primaryKey(),
+    name: varchar('name', { length: 255 }).notNull(),
+    percentOff: real('percent_off').notNull(),
+    rankIds: text('rank_ids'), // JSON array of rank IDs, null = every rank
+    startsAt: timestamp('starts_at').notNull(),
+    endsAt: timestamp('ends_at').notNull(),
+    active: boolean('active').default(true).notNull(),
+    createdBy: integer('created_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Funding goals shown on the home and donate pages, e.g. "$150 hosting this month".
+// Progress is summed from completed donations inside the goal's period.
+export const donationGoals = pgTable('donation_goals', {
+    id: serial('id').primaryKey(),
+    title: varchar('title', { length: 255 }).notNull(),
+    description: text('description'),
+    targetAmount: real('target_amount').notNull(),
+    period: goalPeriodEnum('period').default('monthly').notNull(),
+    startsAt: timestamp('starts_at'), // Custom periods only
+    endsAt: timestamp('ends_at'),
+    active: boolean('active').default(true).notNull(),
+    announceMilestones: boolean('announce_milestones').default(true).notNull(),
+    lastMilestone: integer('last_milestone').default(0).notNull(), // Highest % announced this period
+    milestonePeriodStart: timestamp('milestone_period_start'),
+    createdBy: integer('created_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // ===================================
 // GROUPS & GUILDS
 // ===================================
@@ -374,6 +509,7 @@ export const groups = pgTable('groups', {
     creatorId: integer('creator_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
     privacy: groupPrivacyEnum('privacy').default('public').notNull(),
     createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
 export const groupMembers = pgTable('group_members', {
@@ -384,6 +520,25 @@ export const groupMembers = pgTable('group_members', {
     joinedAt: timestamp('joined_at').defaultNow().notNull(),
 });
 
+export const groupInvites = pgTable('group_invites', {
+    id: serial('id').primaryKey(),
+    groupId: integer('group_id').notNull().references(() => groups.id, { onDelete: 'cascade' }),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    invitedById: integer('invited_by_id').references(() => users.id, { onDelete: 'set null' }),
+    type: varchar('type', { length: 20 }).notNull(), // 'invite' or 'request'
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+export const groupPosts = pgTable('group_posts', {
+    id: serial('id').primaryKey(),
+    groupId: integer('group_id').notNull().references(() => groups.id, { onDelete: 'cascade' }),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    content: text('content').notNull(),
+    imageUrl: text('image_url'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // ===================================
 // EVENTS
 // ===================================
@@ -406,6 +561,7 @@ export const eventAttendees = pgTable('event_attendees', {
     userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
     status: eventStatusEnum('status').default('going').notNull(),
     respondedAt: timestamp('responded_at').defaultNow().notNull(),
+    reminderSentAt: timestamp('reminder_sent_at'),
 });
 
 // ===================================
@@ -457,7 +613,9 @@ export const userAchievements = pgTable('user_achievements', {
     completed: boolean('completed').default(false).notNull(),
     completedAt: timestamp('completed_at'),
     createdAt: timestamp('created_at').defaultNow().notNull(),
-});
+}, (table) => [
+    uniqueIndex('user_achievements_user_achievement_idx').on(table.userId, table.achievementId),
+]);
 
 // ===================================
 // MODERATION
@@ -477,6 +635,23 @@ export const reportedContent = pgTable('reported_content', {
     createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Warnings, mutes and bans. A ban is active while active=true and expiresAt is null or in the future
+export const userSanctions = pgTable('user_sanctions', {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    type: sanctionTypeEnum('type').notNull(),
+    reason: text('reason').notNull(),
+    issuedBy: integer('issued_by').references(() => users.id, { onDelete: 'set null' }),
+    expiresAt: timestamp('expires_at'),
+    active: boolean('active').default(true).notNull(),
+    revokedBy: integer('revoked_by').references(() => users.id, { onDelete: 'set null' }),
+    revokedAt: timestamp('revoked_at'),
+    revokeReason: text('revoke_reason'),
+    appealToken: varchar('appeal_token', { length: 64 }).unique(), // Lets a logged-out banned user view the notice and appeal
+    appealTicketId: integer('appeal_ticket_id'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // ===================================
 // SETTINGS
 // ===================================
@@ -503,11 +678,34 @@ export const setupStatus = pgTable('setup_status', {
 export const apiKeys = pgTable('api_keys', {
     id: serial('id').primaryKey(),
     name: varchar('name', { length: 255 }).notNull().unique(),
-    key: text('key').notNull(),
+    key: text('key'), // Legacy plaintext key, replaced by keyHash the first time it is used
+    keyHash: text('key_hash').unique(), // SHA-256 of the key; the key itself is only shown once
+    keyPrefix: text('key_prefix'), // Start of the key, to tell keys apart
+    scopes: text('scopes'), // JSON array of ApiKeyScope
+    serverId: integer('server_id').references(() => servers.id, { onDelete: 'cascade' }), // Key may only report for this server
+    needsRotation: boolean('needs_rotation').default(false).notNull(), // Upgraded from a plaintext key that may have been exposed
+    createdBy: integer('created_by').references(() => users.id, { onDelete: 'set null' }),
+    expiresAt: timestamp('expires_at'),
+    lastUsedAt: timestamp('last_used_at'),
+    lastUsedIp: text('last_used_ip'),
+    rotatedAt: timestamp('rotated_at'),
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Requests made with API keys, for spotting misuse of a leaked key
+export const apiKeyRequests = pgTable('api_key_requests', {
+    id: serial('id').primaryKey(),
+    apiKeyId: integer('api_key_id').references(() => apiKeys.id, { onDelete: 'cascade' }), // Null for unknown keys
+    keyPrefix: text('key_prefix'),
+    endpoint: text('endpoint').notNull(), // e.g. POST /api/minecraft/sync/xp
+    scope: text('scope').notNull(),
+    outcome: text('outcome').notNull(), // allowed, invalid, expired, missing_scope, wrong_server
+    serverId: integer('server_id'), // Server the request reported for, if any
+    ipAddress: text('ip_address'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // ===================================
 // SERVER UPTIME TRACKING
 // ===================================
@@ -522,6 +720,47 @@ export const serverUptimeRecords = pgTable('server_uptime_records', {
     checkedAt: timestamp('checked_at').defaultNow().notNull(),
 });
 
+// Periodic CPU/memory/disk/network readings from Pterodactyl for linked servers
+export const serverResourceSamples = pgTable('server_resource_samples', {
+    id: serial('id').primaryKey(),
+    serverId: integer('server_id').notNull().references(() => servers.id, { onDelete: 'cascade' }),
+    state: text('state').notNull(), // 'running' | 'starting' | 'stopping' | 'offline'
+    cpuPercent: real('cpu_percent').default(0).notNull(),
+    cpuLimit: integer('cpu_limit').default(0).notNull(), // Percent (100 = one core), 0 = unlimited
+    memoryMb: integer('memory_mb').default(0).notNull(),
+    memoryLimitMb: integer('memory_limit_mb').default(0).notNull(), // 0 = unlimited
+    diskMb: integer('disk_mb').default(0).notNull(),
+    diskLimitMb: integer('disk_limit_mb').default(0).notNull(), // 0 = unlimited
+    networkRxKb: integer('network_rx_kb').default(0).notNull(), // Totals since the server started
+    networkTxKb: integer('network_tx_kb').default(0).notNull(),
+    sampledAt: timestamp('sampled_at').defaultNow().notNull(),
+});
+
+// Threshold breaches (e.g. memory above 90% for 5 minutes); open until resolvedAt is set
+export const serverResourceAlerts = pgTable('server_resource_alerts', {
+    id: serial('id').primaryKey(),
+    serverId: integer('server_id').notNull().references(() => servers.id, { onDelete: 'cascade' }),
+    metric: text('metric').notNull(), // 'cpu' | 'memory' | 'disk'
+    threshold: real('threshold').notNull(), // Percent of the limit
+    peakPercent: real('peak_percent').notNull(),
+    startedAt: timestamp('started_at').defaultNow().notNull(),
+    notifiedAt: timestamp('notified_at'),
+    resolvedAt: timestamp('resolved_at'),
+});
+
+// Per-server Pterodactyl access for users without servers:write
+export const serverAccessGrants = pgTable('server_access_grants', {
+    id: serial('id').primaryKey(),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    serverIdentifier: text('server_identifier').notNull(), // Pterodactyl short identifier
+    serverName: text('server_name'),
+    capabilities: text('capabilities').notNull(), // JSON array of ServerCapability
+    subuserUuid: text('subuser_uuid'), // Set when mirrored to a Pterodactyl subuser
+    grantedBy: integer('granted_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // ===================================
 // ANNOUNCEMENTS
 // ===================================
@@ -633,6 +872,9 @@ export const supportTickets = pgTable('support_tickets', {
     firstResponseAt: timestamp('first_response_at'),
     lastMessageAt: timestamp('last_message_at'),
     messageCount: integer('message_count').default(0),
+    staleNotifiedAt: timestamp('stale_notified_at'),
+    feedbackToken: varchar('feedback_token', { length: 64 }),
+    feedbackRequestedAt: timestamp('feedback_requested_at'),
     referencesTicketId: integer('references_ticket_id'),
     referencesMessageId: varchar('references_message_id', { length: 255 }),
     createdAt: timestamp('created_at').defaultNow().notNull(),
@@ -742,6 +984,8 @@ export const ticketSettings = pgTable('ticket_settings', {
     autoCloseHours: integer('auto_close_hours'),
     staleHours: integer('stale_hours'),
     workingHours: text('working_hours'),
+    slaFirstResponseHours: integer('sla_first_response_hours'),
+    slaResolutionHours: integer('sla_resolution_hours'),
     primaryColor: varchar('primary_color', { length: 50 }).default('#00FFFF'),
     successColor: varchar('success_color', { length: 50 }).default('#00FF00'),
     errorColor: varchar('error_color', { length: 50 }).default('#FF0000'),
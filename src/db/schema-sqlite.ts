@@ -3,7 +3,7 @@
  * Used for SQLite databases (local or Turso)
  */
 import { sql } from 'drizzle-orm';
-import { integer, sqliteTable, text, real } from 'drizzle-orm/sqlite-core';
+import { integer, sqliteTable, text, real, uniqueIndex } from 'drizzle-orm/sqlite-core';
 
 // ===================================
 // USERS & AUTHENTICATION
@@ -42,6 +42,7 @@ export const users = sqliteTable('users', {
     pausedRemainingDays: integer('paused_remaining_days'),
     pausedAt: integer('paused_at', { mode: 'timestamp' }),
     totalDonated: real('total_donated').default(0),
+    showOnDonorLeaderboard: integer('show_on_donor_leaderboard', { mode: 'boolean' }).default(false).notNull(),
 
     // Payment Integration - Stripe
     stripeCustomerId: text('stripe_customer_id').unique(),
@@ -66,6 +67,8 @@ export const users = sqliteTable('users', {
     emailVerified: integer('email_verified', { mode: 'boolean' }).default(false),
     twoFactorEnabled: integer('two_factor_enabled', { mode: 'boolean' }).default(false),
     twoFactorSecret: text('two_factor_secret'),
+    twoFactorRecoveryCodes: text('two_factor_recovery_codes'), // JSON array of SHA-256 hashed single-use codes
+    twoFactorLastStep: integer('two_factor_last_step'), // Last accepted TOTP time step, so a code can't be replayed
     lastLoginAt: integer('last_login_at', { mode: 'timestamp' }),
     lastLoginIp: text('last_login_ip'),
     failedLoginAttempts: integer('failed_login_attempts').default(0),
@@ -103,6 +106,18 @@ export const auditLogs = sqliteTable('audit_logs', {
     createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
 });
 
+// Hit counters for the shared rate limiter (src/lib/rate-limit.ts). One row
+// per policy and client; the window restarts once windowEndsAt has passed.
+export const rateLimits = sqliteTable('rate_limits', {
+    key: text('key').primaryKey(), // "<policy>:<identifier>"
+    policy: text('policy').notNull(),
+    identifier: text('identifier').notNull(), // IP address or "user:<id>"
+    hits: integer('hits').default(0).notNull(),
+    maxHits: integer('max_hits').notNull(),
+    windowEndsAt: integer('window_ends_at', { mode: 'timestamp' }).notNull(),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
+});
+
 export const passwordResetTokens = sqliteTable('password_reset_tokens', {
     id: integer('id').primaryKey({ autoIncrement: true }),
     userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
@@ -131,6 +146,16 @@ export const registrationCodes = sqliteTable('registration_codes', {
 // SERVERS
 // ===================================
 
+// Pterodactyl panel connections. Each Minecraft server can be mapped to one.
+export const pterodactylPanels = sqliteTable('pterodactyl_panels', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    name: text('name').notNull(),
+    panelUrl: text('panel_url').notNull(),
+    apiKey: text('api_key').notNull(), // Client API key
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
+});
+
 export const servers = sqliteTable('servers', {
     id: integer('id').primaryKey({ autoIncrement: true }),
     name: text('name').notNull(),
@@ -152,6 +177,7 @@ export const servers = sqliteTable('servers', {
     // Pterodactyl Panel Integration (optional)
     pterodactylServerId: text('pterodactyl_server_id'), // Server identifier in Pterodactyl panel
     pterodactylPanelUrl: text('pterodactyl_panel_url'), // Panel URL (e.g., https://panel.example.com)
+    pterodactylPanelId: integer('pterodactyl_panel_id').references(() => pterodactylPanels.id, { onDelete: 'set null' }),
     // Maintenance mode - disables status checks and shows maintenance badge
     maintenanceMode: integer('maintenance_mode', { mode: 'boolean' }).default(false).notNull(),
     maintenanceMessage: text('maintenance_message'),
@@ -188,6 +214,27 @@ export const minecraftPlayers = sqliteTable('minecraft_players', {
     linkedUserId: integer('linked_user_id').references(() => users.id, { onDelete: 'set null' }),
 });
 
+// Cached leaderboard rankings, rebuilt by the leaderboard cron. Entries are
+// only read once their snapshot is complete, so a refresh never shows a
+// half-built board.
+export const leaderboardSnapshots = sqliteTable('leaderboard_snapshots', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    board: text('board').notNull(), // xp, playtime, server-xp, weekly-gainers...
+    serverId: integer('server_id').default(0).notNull(), // Per-server boards only, 0 otherwise
+    entryCount: integer('entry_count').default(0).notNull(),
+    complete: integer('complete', { mode: 'boolean' }).default(false).notNull(),
+    refreshedAt: integer('refreshed_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
+});
+
+export const leaderboardEntries = sqliteTable('leaderboard_entries', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    snapshotId: integer('snapshot_id').notNull().references(() => leaderboardSnapshots.id, { onDelete: 'cascade' }),
+    rank: integer('rank').notNull(),
+    userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }),
+    minecraftPlayerId: integer('minecraft_player_id').references(() => minecraftPlayers.id, { onDelete: 'cascade' }), // Unregistered players
+    value: real('value').notNull(),
+});
+
 // ===================================
 // FORUM SYSTEM
 // ===================================
@@ -234,7 +281,11 @@ export const forumVotes = sqliteTable('forum_votes', {
     userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
     voteType: text('vote_type', { enum: ['upvote', 'downvote'] }).notNull(),
     createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
-});
+}, (table) => [
+    // One vote per user per post or reply (votes on the other target are NULL)
+    uniqueIndex('forum_votes_post_user_idx').on(table.postId, table.userId),
+    uniqueIndex('forum_votes_reply_user_idx').on(table.replyId, table.userId),
+]);
 
 // ===================================
 // SOCIAL FEED
@@ -269,6 +320,13 @@ export const socialLikes = sqliteTable('social_likes', {
     createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
 });
 
+export const socialCommentLikes = sqliteTable('social_comment_likes', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    commentId: integer('comment_id').notNull().references(() => socialComments.id, { onDelete: 'cascade' }),
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
+});
+
 // ===================================
 // FRIENDS & MESSAGING
 // ===================================
@@ -311,7 +369,14 @@ export const donations = sqliteTable('donations', {
     rankId: text('rank_id'),
     days: integer('days'),
     paymentType: text('payment_type', { enum: ['one_time', 'subscription', 'subscription_renewal'] }).default('one_time'),
-    status: text('status', { enum: ['completed', 'pending', 'failed', 'refunded'] }).default('completed').notNull(),
+    status: text('status', { enum: ['completed', 'pending', 'failed', 'refunded', 'disputed'] }).default('completed').notNull(),
+    refundedAmount: real('refunded_amount').default(0).notNull(), // Refunded or disputed so far
+    revokedDays: integer('revoked_days').default(0).notNull(), // Rank days taken back for the refund
+    disputedAmount: real('disputed_amount').default(0).notNull(), // Part of refundedAmount held by an open chargeback
+    disputeRevokedDays: integer('dispute_revoked_days').default(0).notNull(), // Part of revokedDays taken for that chargeback
+    refundedAt: integer('refunded_at', { mode: 'timestamp' }),
+    promoCode: text('promo_code'),
+    discountAmount: real('discount_amount').default(0).notNull(), // Taken off by a sale and/or promo code
     stripeInvoiceId: text('stripe_invoice_id'),
     stripeInvoiceUrl: text('stripe_invoice_url'),
     stripePriceId: text('stripe_price_id'),
@@ -344,6 +409,72 @@ export const donationRanks = sqliteTable('donation_ranks', {
     updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
 });
 
+// Ranks bought for another player. Gifts to Minecraft players without an
+// account stay pending until that UUID registers.
+export const rankGifts = sqliteTable('rank_gifts', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    donationId: integer('donation_id').references(() => donations.id, { onDelete: 'cascade' }),
+    purchaserId: integer('purchaser_id').references(() => users.id, { onDelete: 'set null' }),
+    purchaserName: text('purchaser_name').notNull(),
+    recipientId: integer('recipient_id').references(() => users.id, { onDelete: 'set null' }),
+    recipientName: text('recipient_name').notNull(),
+    recipientMinecraftUuid: text('recipient_minecraft_uuid'),
+    rankId: text('rank_id').notNull(),
+    days: integer('days').notNull(),
+    message: text('message'),
+    status: text('status', { enum: ['pending', 'delivered', 'cancelled'] }).default('pending').notNull(),
+    deliveredAt: integer('delivered_at', { mode: 'timestamp' }),
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
+});
+
+// Admin-managed discount codes for rank purchases
+export const promoCodes = sqliteTable('promo_codes', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    code: text('code').notNull().unique(), // Stored uppercase
+    description: text('description'),
+    discountType: text('discount_type', { enum: ['percent', 'fixed'] }).notNull(),
+    discountValue: real('discount_value').notNull(), // Percent off, or dollars off
+    rankIds: text('rank_ids'), // JSON array of rank IDs, null = every rank
+    maxUses: integer('max_uses'), // null = unlimited
+    maxUsesPerUser: integer('max_uses_per_user'),
+    usedCount: integer('used_count').default(0).notNull(),
+    expiresAt: integer('expires_at', { mode: 'timestamp' }),
+    active: integer('active', { mode: 'boolean' }).default(true).notNull(),
+    createdBy: integer('created_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
+});
+
+// Time-boxed sitewide sales, e.g. 20% off for a weekend
+export const rankSales = sqliteTable('rank_sales', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    name: text('name').notNull(),
+    percentOff: real('percent_off').notNull(),
+    rankIds: text('rank_ids'), // JSON array of rank IDs, null = every rank
+    startsAt: integer('starts_at', { mode: 'timestamp' }).notNull(),
+    endsAt: integer('ends_at', { mode: 'timestamp' }).notNull(),
+    active: integer('active', { mode: 'boolean' }).default(true).notNull(),
+    createdBy: integer('created_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
+});
+
+// Funding goals shown on the home and donate pages, e.g. "$150 hosting this month".
+// Progress is summed from completed donations inside the goal's period.
+export const donationGoals = sqliteTable('donation_goals', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    title: text('title').notNull(),
+    description: text('description'),
+    targetAmount: real('target_amount').notNull(),
+    period: text('period', { enum: ['monthly', 'custom'] }).default('monthly').notNull(),
+    startsAt: integer('starts_at', { mode: 'timestamp' }), // Custom periods only
+    endsAt: integer('ends_at', { mode: 'timestamp' }),
+    active: integer('active', { mode: 'boolean' }).default(true).notNull(),
+    announceMilestones: integer('announce_milestones', { mode: 'boolean' }).default(true).notNull(),
+    lastMilestone: integer('last_milestone').default(0).notNull(), // Highest % announced this period
+    milestonePeriodStart: integer('milestone_period_start', { mode: 'timestamp' }),
+    createdBy: integer('created_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
+});
+
 // ===================================
 // GROUPS & GUILDS
 // ===================================
@@ -354,18 +485,39 @@ export const groups = sqliteTable('groups', {
     description: text('description'),
     coverImage: text('cover_image'),
     creatorId: integer('creator_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
-    privacy: text('privacy', { enum: ['public', 'private'] }).default('public').notNull(),
+    privacy: text('privacy', { enum: ['public', 'private', 'invite_only'] }).default('public').notNull(),
     createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
 });
 
 export const groupMembers = sqliteTable('group_members', {
     id: integer('id').primaryKey({ autoIncrement: true }),
     groupId: integer('group_id').notNull().references(() => groups.id, { onDelete: 'cascade' }),
     userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
-    role: text('role', { enum: ['admin', 'moderator', 'member'] }).default('member').notNull(),
+    role: text('role', { enum: ['owner', 'admin', 'member'] }).default('member').notNull(),
     joinedAt: integer('joined_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
 });
 
+export const groupInvites = sqliteTable('group_invites', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    groupId: integer('group_id').notNull().references(() => groups.id, { onDelete: 'cascade' }),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    invitedById: integer('invited_by_id').references(() => users.id, { onDelete: 'set null' }),
+    // 'invite' = sent by a group admin, 'request' = user asked to join a private group
+    type: text('type', { enum: ['invite', 'request'] }).notNull(),
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
+});
+
+export const groupPosts = sqliteTable('group_posts', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    groupId: integer('group_id').notNull().references(() => groups.id, { onDelete: 'cascade' }),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    content: text('content').notNull(),
+    imageUrl: text('image_url'),
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
+});
+
 // ===================================
 // EVENTS
 // ===================================
@@ -388,6 +540,7 @@ export const eventAttendees = sqliteTable('event_attendees', {
     userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
     status: text('status', { enum: ['going', 'interested', 'not_going'] }).default('going').notNull(),
     respondedAt: integer('responded_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
+    reminderSentAt: integer('reminder_sent_at', { mode: 'timestamp' }), // Set once the pre-event reminder goes out
 });
 
 // ===================================
@@ -439,7 +592,9 @@ export const userAchievements = sqliteTable('user_achievements', {
     completed: integer('completed', { mode: 'boolean' }).default(false).notNull(),
     completedAt: integer('completed_at', { mode: 'timestamp' }),
     createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
-});
+}, (table) => [
+    uniqueIndex('user_achievements_user_achievement_idx').on(table.userId, table.achievementId),
+]);
 
 // ===================================
 // MODERATION
@@ -448,7 +603,7 @@ export const userAchievements = sqliteTable('user_achievements', {
 export const reportedContent = sqliteTable('reported_content', {
     id: integer('id').primaryKey({ autoIncrement: true }),
     contentType: text('content_type', {
-        enum: ['social_post', 'forum_post', 'forum_reply', 'group_post', 'group_comment', 'social_comment', 'user']
+        enum: ['social_post', 'forum_post', 'forum_reply', 'group_post', 'group_comment', 'social_comment', 'private_message', 'user']
     }).notNull(),
     contentId: integer('content_id').notNull(),
     reporterId: integer('reporter_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
@@ -461,6 +616,23 @@ export const reportedContent = sqliteTable('reported_content', {
     createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
 });
 
+// Warnings, mutes and bans. A ban is active while active=true and expiresAt is null or in the future
+export const userSanctions = sqliteTable('user_sanctions', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    type: text('type', { enum: ['warning', 'mute', 'temp_ban', 'permanent_ban'] }).notNull(),
+    reason: text('reason').notNull(),
+    issuedBy: integer('issued_by').references(() => users.id, { onDelete: 'set null' }),
+    expiresAt: integer('expires_at', { mode: 'timestamp' }),
+    active: integer('active', { mode: 'boolean' }).default(true).notNull(),
+    revokedBy: integer('revoked_by').references(() => users.id, { onDelete: 'set null' }),
+    revokedAt: integer('revoked_at', { mode: 'timestamp' }),
+    revokeReason: text('revoke_reason'),
+    appealToken: text('appeal_token').unique(), // Lets a logged-out banned user view the notice and appeal
+    appealTicketId: integer('appeal_ticket_id'),
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
+});
+
 // ===================================
 // SETTINGS
 // ===================================
@@ -487,11 +659,34 @@ export const setupStatus = sqliteTable('setup_status', {
 export const apiKeys = sqliteTable('api_keys', {
     id: integer('id').primaryKey({ autoIncrement: true }),
     name: text('name').notNull().unique(),
-    key: text('key').notNull(),
+    key: text('key'), // Legacy plaintext key, replaced by keyHash the first time it is used
+    keyHash: text('key_hash').unique(), // SHA-256 of the key; the key itself is only shown once
+    keyPrefix: text('key_prefix'), // Start of the key, to tell keys apart
+    scopes: text('scopes'), // JSON array of ApiKeyScope
+    serverId: integer('server_id').references(() => servers.id, { onDelete: 'cascade' }), // Key may only report for this server
+    needsRotation: integer('needs_rotation', { mode: 'boolean' }).default(false).notNull(), // Upgraded from a plaintext key that may have been exposed
+    createdBy: integer('created_by').references(() => users.id, { onDelete: 'set null' }),
+    expiresAt: integer('expires_at', { mode: 'timestamp' }),
+    lastUsedAt: integer('last_used_at', { mode: 'timestamp' }),
+    lastUsedIp: text('last_used_ip'),
+    rotatedAt: integer('rotated_at', { mode: 'timestamp' }),
     createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
     updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
 });
 
+// Requests made with API keys, for spotting misuse of a leaked key
+export const apiKeyRequests = sqliteTable('api_key_requests', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    apiKeyId: integer('api_key_id').references(() => apiKeys.id, { onDelete: 'cascade' }), // Null for unknown keys
+    keyPrefix: text('key_prefix'),
+    endpoint: text('endpoint').notNull(), // e.g. POST /api/minecraft/sync/xp
+    scope: text('scope').notNull(),
+    outcome: text('outcome').notNull(), // allowed, invalid, expired, missing_scope, wrong_server
+    serverId: integer('server_id'), // Server the request reported for, if any
+    ipAddress: text('ip_address'),
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
+});
+
 // ===================================
 // SERVER UPTIME TRACKING
 // ===================================
@@ -506,6 +701,47 @@ export const serverUptimeRecords = sqliteTable('server_uptime_records', {
     checkedAt: integer('checked_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
 });
 
+// Periodic CPU/memory/disk/network readings from Pterodactyl for linked servers
+export const serverResourceSamples = sqliteTable('server_resource_samples', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    serverId: integer('server_id').notNull().references(() => servers.id, { onDelete: 'cascade' }),
+    state: text('state').notNull(), // 'running' | 'starting' | 'stopping' | 'offline'
+    cpuPercent: real('cpu_percent').default(0).notNull(),
+    cpuLimit: integer('cpu_limit').default(0).notNull(), // Percent (100 = one core), 0 = unlimited
+    memoryMb: integer('memory_mb').default(0).notNull(),
+    memoryLimitMb: integer('memory_limit_mb').default(0).notNull(), // 0 = unlimited
+    diskMb: integer('disk_mb').default(0).notNull(),
+    diskLimitMb: integer('disk_limit_mb').default(0).notNull(), // 0 = unlimited
+    networkRxKb: integer('network_rx_kb').default(0).notNull(), // Totals since the server started
+    networkTxKb: integer('network_tx_kb').default(0).notNull(),
+    sampledAt: integer('sampled_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
+});
+
+// Threshold breaches (e.g. memory above 90% for 5 minutes); open until resolvedAt is set
+export const serverResourceAlerts = sqliteTable('server_resource_alerts', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    serverId: integer('server_id').notNull().references(() => servers.id, { onDelete: 'cascade' }),
+    metric: text('metric').notNull(), // 'cpu' | 'memory' | 'disk'
+    threshold: real('threshold').notNull(), // Percent of the limit
+    peakPercent: real('peak_percent').notNull(),
+    startedAt: integer('started_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
+    notifiedAt: integer('notified_at', { mode: 'timestamp' }),
+    resolvedAt: integer('resolved_at', { mode: 'timestamp' }),
+});
+
+// Per-server Pterodactyl access for users without servers:write
+export const serverAccessGrants = sqliteTable('server_access_grants', {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    serverIdentifier: text('server_identifier').notNull(), // Pterodactyl short identifier
+    serverName: text('server_name'),
+    capabilities: text('capabilities').notNull(), // JSON array of ServerCapability
+    subuserUuid: text('subuser_uuid'), // Set when mirrored to a Pterodactyl subuser
+    grantedBy: integer('granted_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`(unixepoch())`).notNull(),
+});
+
 // ===================================
 // ANNOUNCEMENTS
 // ===================================
@@ -621,6 +857,9 @@ export const supportTickets = sqliteTable('support_tickets', {
     firstResponseAt: integer('first_response_at', { mode: 'timestamp' }),
     lastMessageAt: integer('last_message_at', { mode: 'timestamp' }), // For stale/auto-close detection
     messageCount: integer('message_count').default(0),
+    staleNotifiedAt: integer('stale_notified_at', { mode: 'timestamp' }), // Last time the opener was pinged about inactivity
+    feedbackToken: text('feedback_token'), // Token for the satisfaction survey link sent on close
+    feedbackRequestedAt: integer('feedback_requested_at', { mode: 'timestamp' }),
     // References to other tickets/messages
     referencesTicketId: integer('references_ticket_id'), // ID of referenced ticket
     referencesMessageId: text('references_message_id'), // Discord message ID
@@ -731,6 +970,8 @@ export const ticketSettings = sqliteTable('ticket_settings', {
     autoCloseHours: integer('auto_close_hours'), // Hours before auto-closing inactive tickets
     staleHours: integer('stale_hours'), // Hours before marking ticket as stale
     workingHours: text('working_hours'), // JSON: {timezone, schedule}
+    slaFirstResponseHours: integer('sla_first_response_hours'), // Working hours allowed before the first staff reply
+    slaResolutionHours: integer('sla_resolution_hours'), // Working hours allowed before the ticket is closed
     primaryColor: text('primary_color').default('#00FFFF'),
     successColor: text('success_color').default('#00FF00'),
     errorColor: text('error_color').default('#FF0000'),
@@ -48,9 +48,12 @@ if (schemaType === 'postgres') {
 // Re-export all schema tables and utilities dynamically
 export const users = schemaModule.users;
 export const sessions = schemaModule.sessions;
+export const pterodactylPanels = schemaModule.pterodactylPanels;
 export const servers = schemaModule.servers;
 export const serverXp = schemaModule.serverXp;
 export const minecraftPlayers = schemaModule.minecraftPlayers;
+export const leaderboardSnapshots = schemaModule.leaderboardSnapshots;
+export const leaderboardEntries = schemaModule.leaderboardEntries;
 export const forumCategories = schemaModule.forumCategories;
 export const forumPosts = schemaModule.forumPosts;
 export const forumReplies = schemaModule.forumReplies;
@@ -58,12 +61,19 @@ export const forumVotes = schemaModule.forumVotes;
 export const socialPosts = schemaModule.socialPosts;
 export const socialComments = schemaModule.socialComments;
 export const socialLikes = schemaModule.socialLikes;
+export const socialCommentLikes = schemaModule.socialCommentLikes;
 export const friendships = schemaModule.friendships;
 export const privateMessages = schemaModule.privateMessages;
 export const donations = schemaModule.donations;
 export const donationRanks = schemaModule.donationRanks;
+export const rankGifts = schemaModule.rankGifts;
+export const promoCodes = schemaModule.promoCodes;
+export const rankSales = schemaModule.rankSales;
+export const donationGoals = schemaModule.donationGoals;
 export const groups = schemaModule.groups;
 export const groupMembers = schemaModule.groupMembers;
+export const groupInvites = schemaModule.groupInvites;
+export const groupPosts = schemaModule.groupPosts;
 export const events = schemaModule.events;
 export const eventAttendees = schemaModule.eventAttendees;
 export const notifications = schemaModule.notifications;
@@ -71,10 +81,15 @@ export const xpTransactions = schemaModule.xpTransactions;
 export const achievements = schemaModule.achievements;
 export const userAchievements = schemaModule.userAchievements;
 export const reportedContent = schemaModule.reportedContent;
+export const userSanctions = schemaModule.userSanctions;
 export const siteSettings = schemaModule.siteSettings;
 export const setupStatus = schemaModule.setupStatus;
 export const apiKeys = schemaModule.apiKeys;
+export const apiKeyRequests = schemaModule.apiKeyRequests;
 export const serverUptimeRecords = schemaModule.serverUptimeRecords;
+export const serverResourceSamples = schemaModule.serverResourceSamples;
+export const serverResourceAlerts = schemaModule.serverResourceAlerts;
+export const serverAccessGrants = schemaModule.serverAccessGrants;
 export const announcements = schemaModule.announcements;
 export const discordMessages = schemaModule.discordMessages;
 export const ticketCategories = schemaModule.ticketCategories;
@@ -88,6 +103,7 @@ export const ticketTags = schemaModule.ticketTags;
 export const archivedMessages = schemaModule.archivedMessages;
 export const ticketSettings = schemaModule.ticketSettings;
 export const auditLogs = schemaModule.auditLogs;
+export const rateLimits = schemaModule.rateLimits;
 export const passwordResetTokens = schemaModule.passwordResetTokens;
 export const registrationCodes = schemaModule.registrationCodes;
 
@@ -100,6 +116,7 @@ import type {
   users as usersType,
   sessions as sessionsType,
   servers as serversType,
+  pterodactylPanels as pterodactylPanelsType,
   serverXp as serverXpType,
   forumCategories as forumCategoriesType,
   forumPosts as forumPostsType,
@@ -109,12 +126,24 @@ import type {
   privateMessages as privateMessagesType,
   donations as donationsType,
   donationRanks as donationRanksType,
+  rankGifts as rankGiftsType,
+  promoCodes as promoCodesType,
+  rankSales as rankSalesType,
+  donationGoals as donationGoalsType,
   groups as groupsType,
+  groupMembers as groupMembersType,
+  groupPosts as groupPostsType,
   events as eventsType,
   notifications as notificationsType,
   achievements as achievementsType,
   reportedContent as reportedContentType,
+  userSanctions as userSanctionsType,
   serverUptimeRecords as serverUptimeRecordsType,
+  serverResourceSamples as serverResourceSamplesType,
+  serverResourceAlerts as serverResourceAlertsType,
+  serverAccessGrants as serverAccessGrantsType,
+  apiKeys as apiKeysType,
+  apiKeyRequests as apiKeyRequestsType,
   announcements as announcementsType,
   discordMessages as discordMessagesType,
   supportTickets as supportTicketsType,
@@ -123,12 +152,15 @@ import type {
   ticketTags as ticketTagsType,
   archivedMessages as archivedMessagesType,
   ticketSettings as ticketSettingsType,
+  rateLimits as rateLimitsType,
+  leaderboardSnapshots as leaderboardSnapshotsType,
 } from './schema-sqlite';
 
 export type User = typeof usersType.$inferSelect;
 export type NewUser = typeof usersType.$inferInsert;
 export type Session = typeof sessionsType.$inferSelect;
 export type Server = typeof serversType.$inferSelect;
+export type PterodactylPanel = typeof pterodactylPanelsType.$inferSelect;
 export type ServerXp = typeof serverXpType.$inferSelect;
 export type ForumCategory = typeof forumCategoriesType.$inferSelect;
 export type ForumPost = typeof forumPostsType.$inferSelect;
@@ -138,12 +170,24 @@ export type Friendship = typeof friendshipsType.$inferSelect;
 export type PrivateMessage = typeof privateMessagesType.$inferSelect;
 export type Donation = typeof donationsType.$inferSelect;
 export type DonationRank = typeof donationRanksType.$inferSelect;
+export type RankGift = typeof rankGiftsType.$inferSelect;
+export type PromoCode = typeof promoCodesType.$inferSelect;
+export type RankSale = typeof rankSalesType.$inferSelect;
+export type DonationGoal = typeof donationGoalsType.$inferSelect;
 export type Group = typeof groupsType.$inferSelect;
+export type GroupMember = typeof groupMembersType.$inferSelect;
+export type GroupPost = typeof groupPostsType.$inferSelect;
 export type Event = typeof eventsType.$inferSelect;
 export type Notification = typeof notificationsType.$inferSelect;
 export type Achievement = typeof achievementsType.$inferSelect;
 export type ReportedContent = typeof reportedContentType.$inferSelect;
+export type UserSanction = typeof userSanctionsType.$inferSelect;
 export type ServerUptimeRecord = typeof serverUptimeRecordsType.$inferSelect;
+export type ServerResourceSample = typeof serverResourceSamplesType.$inferSelect;
+export type ServerResourceAlert = typeof serverResourceAlertsType.$inferSelect;
+export type ServerAccessGrant = typeof serverAccessGrantsType.$inferSelect;
+export type ApiKey = typeof apiKeysType.$inferSelect;
+export type ApiKeyRequest = typeof apiKeyRequestsType.$inferSelect;
 export type Announcement = typeof announcementsType.$inferSelect;
 export type DiscordMessage = typeof discordMessagesType.$inferSelect;
 export type SupportTicket = typeof supportTicketsType.$inferSelect;
@@ -152,3 +196,5 @@ export type TicketFeedback = typeof ticketFeedbackType.$inferSelect;
 export type TicketTag = typeof ticketTagsType.$inferSelect;
 export type ArchivedMessage = typeof archivedMessagesType.$inferSelect;
 export type TicketSettings = typeof ticketSettingsType.$inferSelect;
+export type RateLimit = typeof rateLimitsType.$inferSelect;
+export type LeaderboardSnapshot = typeof leaderboardSnapshotsType.$inferSelect;
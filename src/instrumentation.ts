@@ -12,6 +12,12 @@ export async function register() {
     const { initializeCronJobs } = await import('./lib/cron');
     initializeCronJobs();
 
+    // Move a pre-multi-panel Pterodactyl connection into the panels table
+    const { importLegacyPterodactylPanel } = await import('./lib/pterodactyl');
+    importLegacyPterodactylPanel().catch(err => {
+      console.error('Failed to import legacy Pterodactyl panel:', err);
+    });
+
     // Initialize Discord bot
     console.log('🤖 Initializing Discord bot...');
     const { initDiscordBot } = await import('./lib/discord-bot');
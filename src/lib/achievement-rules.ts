@@ -0,0 +1,77 @@
+/**
+ * Achievement Rules
+ *
+ * An achievement's `requirement` column holds a JSON rule such as
+ * {"metric":"forum_replies","target":100}. The metric names a counter the
+ * achievement engine (src/lib/achievements.ts) knows how to measure for a
+ * user; the achievement is unlocked once that counter reaches the target.
+ *
+ * Kept free of database imports so admin pages can use it client-side.
+ */
+
+export const ACHIEVEMENT_CATEGORIES = ['social', 'forum', 'leveling', 'special'] as const;
+export type AchievementCategory = (typeof ACHIEVEMENT_CATEGORIES)[number];
+
+export const ACHIEVEMENT_METRICS = {
+  level: { label: 'Reach level', unit: 'level', category: 'leveling' },
+  total_xp: { label: 'Earn total XP', unit: 'XP', category: 'leveling' },
+  forum_posts: { label: 'Create forum posts', unit: 'posts', category: 'forum' },
+  forum_replies: { label: 'Write forum replies', unit: 'replies', category: 'forum' },
+  forum_upvotes: { label: 'Receive forum upvotes', unit: 'upvotes', category: 'forum' },
+  friends: { label: 'Make friends', unit: 'friends', category: 'social' },
+  social_posts: { label: 'Create social posts', unit: 'posts', category: 'social' },
+  donations: { label: 'Make donations', unit: 'donations', category: 'special' },
+  total_donated: { label: 'Donate in total', unit: 'USD', category: 'special' },
+  playtime_hours: { label: 'Play on the servers', unit: 'hours', category: 'special' },
+  five_star_tickets: { label: 'Handle tickets rated 5 stars', unit: 'tickets', category: 'special' },
+} as const satisfies Record<string, { label: string; unit: string; category: AchievementCategory }>;
+
+export type AchievementMetric = keyof typeof ACHIEVEMENT_METRICS;
+
+export interface AchievementRule {
+  metric: AchievementMetric;
+  target: number;
+}
+
+export function isAchievementMetric(value: unknown): value is AchievementMetric {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ACHIEVEMENT_METRICS, value);
+}
+
+/**
+ * Parse an achievement's requirement. A bare integer is treated as a level
+ * milestone, which is how leveling achievements were stored originally.
+ * Returns null for anything the engine can't evaluate.
+ */
+export function parseRequirement(requirement: string): AchievementRule | null {
+  const trimmed = requirement.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return { metric: 'level', target: parseInt(trimmed) };
+  }
+
+  try {
+    const parsed = JSON.parse(trimmed);
+    const target = Number(parsed?.target);
+    if (isAchievementMetric(parsed?.metric) && Number.isFinite(target) && target > 0) {
+      return { metric: parsed.metric, target: Math.floor(target) };
+    }
+  } catch {
+    // Not JSON
+  }
+
+  return null;
+}
+
+export function serializeRequirement(rule: AchievementRule): string {
+  return JSON.stringify({ metric: rule.metric, target: rule.target });
+}
+
+/**
+ * Human-readable requirement, e.g. "Write forum replies: 100 replies"
+ */
+export function describeRequirement(rule: AchievementRule): string {
+  const { label, unit } = ACHIEVEMENT_METRICS[rule.metric];
+  if (rule.metric === 'level') return `${label} ${rule.target}`;
+  if (rule.metric === 'total_donated') return `${label}: $${rule.target}`;
+  return `${label}: ${rule.target} ${unit}`;
+}
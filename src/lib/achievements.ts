@@ -0,0 +1,333 @@
+/**
+ * Achievement Engine
+ *
+ * Achievements are rules over per-user counters (see achievement-rules.ts).
+ * Whenever something that moves a counter happens - a forum post, an accepted
+ * friend request, a donation, an XP sync - the code responsible calls
+ * trackAchievementProgress() with the metrics it affected. The engine then
+ * re-measures those metrics, records progress in user_achievements and, when
+ * a target is reached, unlocks the achievement, notifies the user and pays
+ * out its XP reward.
+ */
+
+import { db } from '@/db';
+import {
+  users, achievements, userAchievements, forumPosts, forumReplies, forumVotes,
+  friendships, socialPosts, donations, serverXp, supportTickets, ticketFeedback,
+} from '@/db/schema';
+import { and, eq, isNull, or, sql } from 'drizzle-orm';
+import {
+  ACHIEVEMENT_CATEGORIES, AchievementCategory, AchievementMetric,
+  isAchievementMetric, parseRequirement, serializeRequirement,
+} from '@/lib/achievement-rules';
+import { notifyAchievement } from '@/lib/notifications';
+import { sanitizeForDb, sanitizeEnum, sanitizeInt } from '@/lib/sanitize';
+import { addWebsiteXp } from '@/lib/xp';
+
+export * from './achievement-rules';
+
+// =============================================================================
+// METRICS
+// =============================================================================
+
+async function count(query: Promise<{ count: number }[]>): Promise<number> {
+  const [row] = await query;
+  return Number(row?.count || 0);
+}
+
+/**
+ * Current value of a metric for a user
+ */
+export async function getMetricValue(userId: number, metric: AchievementMetric): Promise<number> {
+  switch (metric) {
+    case 'level':
+    case 'total_xp':
+    case 'total_donated': {
+      const [user] = await db
+        .select({ level: users.level, xp: users.xp, totalDonated: users.totalDonated })
+        .from(users)
+        .where(eq(users.id, userId));
+      if (!user) return 0;
+      if (metric === 'level') return user.level || 0;
+      if (metric === 'total_xp') return user.xp || 0;
+      return Math.floor(user.totalDonated || 0);
+    }
+
+    case 'forum_posts':
+      return count(db.select({ count: sql<number>`count(*)` }).from(forumPosts).where(eq(forumPosts.authorId, userId)));
+
+    case 'forum_replies':
+      return count(db.select({ count: sql<number>`count(*)` }).from(forumReplies).where(eq(forumReplies.authorId, userId)));
+
+    case 'forum_upvotes':
+      return count(
+        db.select({ count: sql<number>`count(*)` })
+          .from(forumVotes)
+          .where(and(
+            eq(forumVotes.voteType, 'upvote'),
+            or(
+              sql`${forumVotes.postId} IN (SELECT ${forumPosts.id} FROM ${forumPosts} WHERE ${forumPosts.authorId} = ${userId})`,
+              sql`${forumVotes.replyId} IN (SELECT ${forumReplies.id} FROM ${forumReplies} WHERE ${forumReplies.authorId} = ${userId})`
+            )
+          ))
+      );
+
+    case 'friends':
+      return count(
+        db.select({ count: sql<number>`count(*)` })
+          .from(friendships)
+          .where(and(
+            eq(friendships.status, 'accepted'),
+            or(eq(friendships.userId, userId), eq(friendships.friendId, userId))
+          ))
+      );
+
+    case 'social_posts':
+      return count(db.select({ count: sql<number>`count(*)` }).from(socialPosts).where(eq(socialPosts.userId, userId)));
+
+    case 'donations':
+      return count(
+        db.select({ count: sql<number>`count(*)` })
+          .from(donations)
+          .where(and(eq(donations.userId, userId), eq(donations.status, 'completed')))
+      );
+
+    case 'playtime_hours': {
+      const [row] = await db
+        .select({ seconds: sql<number>`COALESCE(SUM(${serverXp.playtimeSeconds}), 0)` })
+        .from(serverXp)
+        .where(eq(serverXp.userId, userId));
+      return Math.floor(Number(row?.seconds || 0) / 3600);
+    }
+
+    case 'five_star_tickets':
+      return count(
+        db.select({ count: sql<number>`count(DISTINCT ${supportTickets.id})` })
+          .from(ticketFeedback)
+          .innerJoin(supportTickets, eq(ticketFeedback.ticketId, supportTickets.id))
+          .where(and(
+            eq(ticketFeedback.rating, 5),
+            // Credited to the assignee, or the claimer when nobody was assigned
+            or(
+              eq(supportTickets.assignedTo, userId),
+              and(isNull(supportTickets.assignedTo), eq(supportTickets.claimedById, userId))
+            )
+          ))
+      );
+  }
+}
+
+// =============================================================================
+// PROGRESS
+// =============================================================================
+
+/**
+ * Re-measure the given metrics (all of them if omitted) for a user, update
+ * their achievement progress and unlock anything that reached its target.
+ * Returns the achievements unlocked by this call.
+ */
+export async function checkAchievements(userId: number, metrics?: AchievementMetric[]) {
+  const allAchievements = await db.select().from(achievements);
+
+  const candidates = allAchievements
+    .map((achievement: any) => ({ achievement, rule: parseRequirement(achievement.requirement) }))
+    .filter(({ rule }: any) => rule && (!metrics || metrics.includes(rule.metric)));
+
+  if (candidates.length === 0) return [];
+
+  const existingRows = await db
+    .select()
+    .from(userAchievements)
+    .where(eq(userAchievements.userId, userId));
+  const existingById = new Map(existingRows.map((row: any) => [row.achievementId, row]));
+
+  const values = new Map<AchievementMetric, number>();
+  const unlocked: (typeof allAchievements)[number][] = [];
+
+  for (const { achievement, rule } of candidates) {
+    const existing: any = existingById.get(achievement.id);
+    if (existing?.completed) continue;
+
+    if (!values.has(rule.metric)) {
+      values.set(rule.metric, await getMetricValue(userId, rule.metric));
+    }
+    const value = values.get(rule.metric)!;
+    const progress = Math.min(value, rule.target);
+    const completed = value >= rule.target;
+
+    if (existing) {
+      if (existing.progress === progress && !completed) continue;
+
+      // Only the request that flips completed gets to pay out
+      const updated = await db
+        .update(userAchievements)
+        .set({ progress, completed, completedAt: completed ? new Date() : null })
+        .where(and(eq(userAchievements.id, existing.id), eq(userAchievements.completed, false)))
+        .returning({ id: userAchievements.id });
+
+      if (completed && updated.length > 0) unlocked.push(achievement);
+    } else {
+      if (progress === 0) continue;
+
+      const inserted = await db
+        .insert(userAchievements)
+        .values({
+          userId,
+          achievementId: achievement.id,
+          progress,
+          completed,
+          completedAt: completed ? new Date() : null,
+        })
+        .onConflictDoNothing()
+        .returning({ id: userAchievements.id });
+
+      if (inserted.length > 0) {
+        if (completed) unlocked.push(achievement);
+        continue;
+      }
+
+      // A parallel check added the row first; completing it still pays out once
+      if (completed) {
+        const updated = await db
+          .update(userAchievements)
+          .set({ progress, completed, completedAt: new Date() })
+          .where(and(
+            eq(userAchievements.userId, userId),
+            eq(userAchievements.achievementId, achievement.id),
+            eq(userAchievements.completed, false)
+          ))
+          .returning({ id: userAchievements.id });
+
+        if (updated.length > 0) unlocked.push(achievement);
+      }
+    }
+  }
+
+  for (const achievement of unlocked) {
+    await notifyAchievement(userId, achievement.name);
+
+    if ((achievement.xpReward || 0) > 0) {
+      // May unlock level achievements in turn; completed ones are skipped so this terminates
+      await addWebsiteXp(userId, achievement.xpReward, 'achievement', `Achievement unlocked: ${achievement.name}`);
+    }
+  }
+
+  return unlocked;
+}
+
+/**
+ * Fire-and-forget wrapper around checkAchievements for use in request handlers
+ */
+export function trackAchievementProgress(userId: number, ...metrics: AchievementMetric[]) {
+  checkAchievements(userId, metrics).catch(err =>
+    console.error(`Failed to update achievement progress for user ${userId}:`, err)
+  );
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+export interface UserAchievementProgress {
+  id: string;
+  name: string;
+  description: string;
+  icon: string | null;
+  category: string;
+  xpReward: number;
+  progress: number;
+  target: number;
+  completed: boolean;
+  completedAt: Date | null;
+}
+
+/**
+ * Every achievement with the user's progress towards it, for profile pages.
+ * Hidden achievements are left out until unlocked.
+ */
+export async function getUserAchievements(userId: number): Promise<UserAchievementProgress[]> {
+  const rows = await db
+    .select({
+      id: achievements.id,
+      name: achievements.name,
+      description: achievements.description,
+      icon: achievements.icon,
+      category: achievements.category,
+      xpReward: achievements.xpReward,
+      requirement: achievements.requirement,
+      hidden: achievements.hidden,
+      progress: userAchievements.progress,
+      completed: userAchievements.completed,
+      completedAt: userAchievements.completedAt,
+    })
+    .from(achievements)
+    .leftJoin(
+      userAchievements,
+      and(eq(userAchievements.achievementId, achievements.id), eq(userAchievements.userId, userId))
+    );
+
+  return rows
+    .filter((row: any) => row.completed || !row.hidden)
+    .map((row: any) => {
+      const target = parseRequirement(row.requirement)?.target || 1;
+      return {
+        id: row.id,
+        name: row.name,
+        description: row.description,
+        icon: row.icon,
+        category: row.category,
+        xpReward: row.xpReward,
+        progress: Math.min(row.completed ? target : row.progress || 0, target),
+        target,
+        completed: !!row.completed,
+        completedAt: row.completedAt,
+      };
+    });
+}
+
+// =============================================================================
+// ADMIN
+// =============================================================================
+
+export interface AchievementInput {
+  name: string;
+  description: string;
+  icon: string | null;
+  category: AchievementCategory;
+  xpReward: number;
+  hidden: boolean;
+  requirement: string;
+}
+
+/**
+ * Validate an admin create/update payload. The rule arrives as separate
+ * metric/target fields and is stored serialized in `requirement`.
+ */
+export function parseAchievementInput(body: any): { data: AchievementInput; error?: undefined } | { error: string; data?: undefined } {
+  const name = sanitizeForDb(body.name, 100);
+  const description = sanitizeForDb(body.description, 500);
+  const icon = sanitizeForDb(body.icon, 16) || null;
+  const category = sanitizeEnum(body.category, ACHIEVEMENT_CATEGORIES, 'special');
+  const xpReward = sanitizeInt(body.xpReward, 0, 100000) ?? 0;
+  const target = sanitizeInt(body.target, 1, 1000000000);
+
+  if (!name || !description) {
+    return { error: 'Name and description are required' };
+  }
+
+  if (!isAchievementMetric(body.metric) || target === null) {
+    return { error: 'A valid metric and target are required' };
+  }
+
+  return {
+    data: {
+      name,
+      description,
+      icon,
+      category,
+      xpReward,
+      hidden: !!body.hidden,
+      requirement: serializeRequirement({ metric: body.metric, target }),
+    },
+  };
+}
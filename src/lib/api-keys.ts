@@ -0,0 +1,486 @@
+/**
+ * API Keys
+ *
+ * Keys used by Minecraft servers and mods to call /api/minecraft/*. Only a
+ * SHA-256 hash of each key is stored; the key itself is shown once when it is
+ * created or rotated. Every key carries explicit scopes and can be bound to
+ * one server so a key leaked from one modpack server can't report for the
+ * others.
+ *
+ * Routes call requireApiKey() with the scope they need. Each attempt is
+ * recorded in `api_key_requests`, shown on /admin/api-keys.
+ *
+ * Keys created before hashing are stored in plaintext in `key`. They are
+ * hashed the first time they are used or listed, given an explicit scope list
+ * and flagged as needing rotation, since the plaintext may have been exposed.
+ */
+
+import { NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { db } from '@/db';
+import { apiKeyRequests, apiKeys, servers, type ApiKey } from '@/db/schema';
+import { and, desc, eq, isNotNull, lt, ne } from 'drizzle-orm';
+import { getClientIp } from '@/lib/audit-log';
+
+export const API_KEY_SCOPES = {
+  'xp:sync': {
+    label: 'XP sync',
+    description: 'Report player XP and playtime',
+  },
+  register: {
+    label: 'Register',
+    description: 'Create registration codes and accounts from in-game',
+  },
+  login: {
+    label: 'Login',
+    description: 'Check player passwords for the auth mod',
+  },
+  verify: {
+    label: 'Verify',
+    description: 'Look up linked accounts, ranks and bans',
+  },
+  chat: {
+    label: 'Chat',
+    description: 'Relay chat messages to the site',
+  },
+} as const;
+
+export type ApiKeyScope = keyof typeof API_KEY_SCOPES;
+
+export const ALL_API_KEY_SCOPES = Object.keys(API_KEY_SCOPES) as ApiKeyScope[];
+
+// Keys generated from a server's card only sync XP; anything more is granted
+// on the API keys page
+export const DEFAULT_SERVER_KEY_SCOPES: ApiKeyScope[] = ['xp:sync'];
+
+export type ApiKeyOutcome = 'allowed' | 'invalid' | 'expired' | 'missing_scope' | 'wrong_server';
+
+// Request log entries older than this are pruned
+export const API_KEY_REQUEST_RETENTION_DAYS = 30;
+
+// Skip the last-used update when the key was used this recently
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface ApiKeyInfo {
+  id: number;
+  name: string;
+  keyPrefix: string | null;
+  scopes: ApiKeyScope[];
+  serverId: number | null;
+  serverName: string | null;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  rotatedAt: Date | null;
+  needsRotation: boolean;
+  createdAt: Date;
+}
+
+export interface ApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  serverId?: number | null;
+  expiresAt?: Date | null;
+  createdBy?: number | null;
+}
+
+export interface AuthenticatedApiKey {
+  id: number;
+  name: string;
+  scopes: ApiKeyScope[];
+  serverId: number | null;
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && value in API_KEY_SCOPES;
+}
+
+/**
+ * Valid scopes from a request body or stored JSON, in display order
+ */
+export function normalizeScopes(value: unknown): ApiKeyScope[] {
+  let list: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      list = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(list)) return [];
+
+  const scopes = new Set(list.filter(isApiKeyScope));
+  return ALL_API_KEY_SCOPES.filter((scope) => scopes.has(scope));
+}
+
+/**
+ * Expiry from a request body: `expiresInDays` or an `expiresAt` date, null
+ * for never. Undefined when the body sets neither.
+ */
+export function parseApiKeyExpiry(body: { expiresInDays?: unknown; expiresAt?: unknown }): Date | null | undefined {
+  if (body.expiresInDays !== undefined && body.expiresInDays !== null && body.expiresInDays !== '') {
+    const days = parseInt(String(body.expiresInDays), 10);
+    return days > 0 ? new Date(Date.now() + days * 24 * 60 * 60 * 1000) : null;
+  }
+  if (body.expiresAt !== undefined) {
+    const date = body.expiresAt ? new Date(String(body.expiresAt)) : null;
+    return date && !isNaN(date.getTime()) ? date : null;
+  }
+  return undefined;
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function generateApiKey(): string {
+  return 'vnx_' + crypto.randomBytes(32).toString('hex');
+}
+
+function keyPrefixOf(key: string): string {
+  return key.substring(0, 12);
+}
+
+// =============================================================================
+// LEGACY KEYS
+// =============================================================================
+
+/**
+ * Hash a plaintext key from before scopes existed. Per-server keys named
+ * `server_<id>_key` were only used for XP sync, so they are bound to their
+ * server with the default server scopes; other keys get every scope that
+ * existed for them.
+ */
+async function upgradeLegacyKey(row: ApiKey): Promise<void> {
+  if (!row.key) return;
+
+  let serverId = row.serverId;
+  const match = row.name.match(/^server_(\d+)_key$/);
+  if (!serverId && match) {
+    const server = await db.query.servers.findFirst({
+      where: eq(servers.id, parseInt(match[1], 10)),
+      columns: { id: true },
+    });
+    serverId = server?.id ?? null;
+  }
+
+  const scopes = row.scopes
+    ? normalizeScopes(row.scopes)
+    : serverId ? DEFAULT_SERVER_KEY_SCOPES : ALL_API_KEY_SCOPES;
+
+  await db
+    .update(apiKeys)
+    .set({
+      key: null,
+      keyHash: hashApiKey(row.key),
+      keyPrefix: keyPrefixOf(row.key),
+      scopes: JSON.stringify(scopes),
+      serverId,
+      needsRotation: true,
+    })
+    .where(eq(apiKeys.id, row.id));
+}
+
+async function upgradeLegacyKeys(): Promise<void> {
+  const legacy = await db.select().from(apiKeys).where(isNotNull(apiKeys.key));
+  for (const row of legacy) {
+    await upgradeLegacyKey(row);
+  }
+}
+
+// =============================================================================
+// AUTHENTICATION
+// =============================================================================
+
+function getPresentedKey(request: Request): string | null {
+  return request.headers.get('x-api-key')
+    || request.headers.get('authorization')?.replace(/^Bearer\s+/i, '').trim()
+    || null;
+}
+
+async function findKey(presented: string): Promise<ApiKey | null> {
+  const key = await db.query.apiKeys.findFirst({
+    where: eq(apiKeys.keyHash, hashApiKey(presented)),
+  });
+  if (key) return key;
+
+  const legacy = await db.query.apiKeys.findFirst({
+    where: eq(apiKeys.key, presented),
+  });
+  if (!legacy) return null;
+
+  await upgradeLegacyKey(legacy);
+  return (await db.query.apiKeys.findFirst({ where: eq(apiKeys.id, legacy.id) })) ?? null;
+}
+
+async function logRequest(
+  request: Request,
+  entry: { apiKeyId: number | null; keyPrefix: string; scope: ApiKeyScope; outcome: ApiKeyOutcome; serverId?: number | null }
+): Promise<void> {
+  try {
+    await db.insert(apiKeyRequests).values({
+      apiKeyId: entry.apiKeyId,
+      keyPrefix: entry.keyPrefix,
+      endpoint: `${request.method} ${new URL(request.url).pathname}`.slice(0, 255),
+      scope: entry.scope,
+      outcome: entry.outcome,
+      serverId: entry.serverId ?? null,
+      ipAddress: getClientIp(request),
+    });
+  } catch (error) {
+    console.error('Failed to log API key request:', error);
+  }
+}
+
+const REJECTIONS: Record<Exclude<ApiKeyOutcome, 'allowed'>, string> = {
+  invalid: 'Invalid API key',
+  expired: 'API key has expired',
+  missing_scope: 'API key is not allowed to use this endpoint',
+  wrong_server: 'API key can only be used for its own server',
+};
+
+/**
+ * Check the request's API key (X-API-Key or Bearer) for a scope. Returns a
+ * ready-made error response when the key is missing or not allowed.
+ *
+ * Pass `serverId` for requests that report on behalf of a server; keys bound
+ * to another server are refused. Pass null for site-wide requests (or when
+ * the named server doesn't exist) to refuse every bound key.
+ *
+ *   const auth = await requireApiKey(request, 'login');
+ *   if (auth.response) return auth.response;
+ */
+export async function requireApiKey(
+  request: Request,
+  scope: ApiKeyScope,
+  options: { serverId?: number | null } = {}
+): Promise<{ key?: AuthenticatedApiKey; response?: NextResponse }> {
+  const presented = getPresentedKey(request);
+  if (!presented) {
+    return {
+      response: NextResponse.json({ success: false, error: 'API key required' }, { status: 401 }),
+    };
+  }
+
+  const row = await findKey(presented);
+  const scopes = normalizeScopes(row?.scopes);
+
+  let outcome: ApiKeyOutcome = 'allowed';
+  if (!row) {
+    outcome = 'invalid';
+  } else if (row.expiresAt && row.expiresAt.getTime() <= Date.now()) {
+    outcome = 'expired';
+  } else if (!scopes.includes(scope)) {
+    outcome = 'missing_scope';
+  } else if (options.serverId !== undefined && row.serverId && row.serverId !== options.serverId) {
+    outcome = 'wrong_server';
+  }
+
+  await logRequest(request, {
+    apiKeyId: row?.id ?? null,
+    keyPrefix: keyPrefixOf(presented),
+    scope,
+    outcome,
+    serverId: options.serverId,
+  });
+
+  if (!row || outcome !== 'allowed') {
+    return {
+      response: NextResponse.json({ success: false, error: REJECTIONS[outcome as keyof typeof REJECTIONS] }, { status: 403 }),
+    };
+  }
+
+  if (!row.lastUsedAt || Date.now() - row.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    try {
+      await db
+        .update(apiKeys)
+        .set({ lastUsedAt: new Date(), lastUsedIp: getClientIp(request) })
+        .where(eq(apiKeys.id, row.id));
+    } catch (error) {
+      console.error('Failed to update API key last use:', error);
+    }
+  }
+
+  return {
+    key: { id: row.id, name: row.name, scopes, serverId: row.serverId },
+  };
+}
+
+// =============================================================================
+// MANAGEMENT
+// =============================================================================
+
+export async function listApiKeys(): Promise<ApiKeyInfo[]> {
+  await upgradeLegacyKeys();
+
+  const rows = await db
+    .select({ key: apiKeys, serverName: servers.name })
+    .from(apiKeys)
+    .leftJoin(servers, eq(apiKeys.serverId, servers.id))
+    .orderBy(desc(apiKeys.createdAt));
+
+  return rows.map(({ key, serverName }: { key: ApiKey; serverName: string | null }) => toInfo(key, serverName));
+}
+
+export async function getApiKey(id: number): Promise<ApiKeyInfo | null> {
+  const [row] = await db
+    .select({ key: apiKeys, serverName: servers.name })
+    .from(apiKeys)
+    .leftJoin(servers, eq(apiKeys.serverId, servers.id))
+    .where(eq(apiKeys.id, id))
+    .limit(1);
+
+  return row ? toInfo(row.key, row.serverName) : null;
+}
+
+/**
+ * The key bound to a server for its XP sync mod (the oldest, if several)
+ */
+export async function getServerApiKey(serverId: number): Promise<ApiKeyInfo | null> {
+  await upgradeLegacyKeys();
+
+  const [row] = await db
+    .select({ id: apiKeys.id })
+    .from(apiKeys)
+    .where(eq(apiKeys.serverId, serverId))
+    .orderBy(apiKeys.id)
+    .limit(1);
+
+  return row ? getApiKey(row.id) : null;
+}
+
+function toInfo(key: ApiKey, serverName: string | null): ApiKeyInfo {
+  return {
+    id: key.id,
+    name: key.name,
+    keyPrefix: key.keyPrefix,
+    scopes: normalizeScopes(key.scopes),
+    serverId: key.serverId,
+    serverName,
+    expiresAt: key.expiresAt,
+    lastUsedAt: key.lastUsedAt,
+    lastUsedIp: key.lastUsedIp,
+    rotatedAt: key.rotatedAt,
+    needsRotation: key.needsRotation,
+    createdAt: key.createdAt,
+  };
+}
+
+/**
+ * Create a key. Returns the plaintext key, which can't be retrieved again.
+ */
+export async function createApiKey(input: ApiKeyInput): Promise<{ id: number; key: string }> {
+  const scopes = normalizeScopes(input.scopes);
+  if (scopes.length === 0) {
+    throw new Error('Choose at least one scope');
+  }
+
+  const key = generateApiKey();
+  const keyHash = hashApiKey(key);
+
+  await db.insert(apiKeys).values({
+    name: input.name,
+    keyHash,
+    keyPrefix: keyPrefixOf(key),
+    scopes: JSON.stringify(scopes),
+    serverId: input.serverId ?? null,
+    expiresAt: input.expiresAt ?? null,
+    createdBy: input.createdBy ?? null,
+  });
+
+  const [created] = await db
+    .select({ id: apiKeys.id })
+    .from(apiKeys)
+    .where(eq(apiKeys.keyHash, keyHash))
+    .limit(1);
+
+  return { id: created.id, key };
+}
+
+export async function updateApiKey(
+  id: number,
+  changes: Partial<Pick<ApiKeyInput, 'name' | 'scopes' | 'serverId' | 'expiresAt'>>
+): Promise<void> {
+  const values: Partial<typeof apiKeys.$inferInsert> = { updatedAt: new Date() };
+
+  if (changes.name !== undefined) values.name = changes.name;
+  if (changes.serverId !== undefined) values.serverId = changes.serverId;
+  if (changes.expiresAt !== undefined) values.expiresAt = changes.expiresAt;
+  if (changes.scopes !== undefined) {
+    const scopes = normalizeScopes(changes.scopes);
+    if (scopes.length === 0) {
+      throw new Error('Choose at least one scope');
+    }
+    values.scopes = JSON.stringify(scopes);
+  }
+
+  await db.update(apiKeys).set(values).where(eq(apiKeys.id, id));
+}
+
+/**
+ * Replace a key's secret, keeping its name, scopes and binding. The old key
+ * stops working immediately. Returns the new plaintext key.
+ */
+export async function rotateApiKey(id: number): Promise<string> {
+  const key = generateApiKey();
+  const now = new Date();
+
+  await db
+    .update(apiKeys)
+    .set({
+      key: null,
+      keyHash: hashApiKey(key),
+      keyPrefix: keyPrefixOf(key),
+      rotatedAt: now,
+      needsRotation: false,
+      updatedAt: now,
+    })
+    .where(eq(apiKeys.id, id));
+
+  return key;
+}
+
+export async function deleteApiKey(id: number): Promise<void> {
+  await db.delete(apiKeys).where(eq(apiKeys.id, id));
+}
+
+// =============================================================================
+// REQUEST LOG
+// =============================================================================
+
+export async function listApiKeyRequests(options: { apiKeyId?: number; rejectedOnly?: boolean; limit?: number } = {}) {
+  const conditions = [];
+  if (options.apiKeyId) conditions.push(eq(apiKeyRequests.apiKeyId, options.apiKeyId));
+  if (options.rejectedOnly) conditions.push(ne(apiKeyRequests.outcome, 'allowed'));
+
+  return db
+    .select({
+      id: apiKeyRequests.id,
+      apiKeyId: apiKeyRequests.apiKeyId,
+      keyName: apiKeys.name,
+      keyPrefix: apiKeyRequests.keyPrefix,
+      endpoint: apiKeyRequests.endpoint,
+      scope: apiKeyRequests.scope,
+      outcome: apiKeyRequests.outcome,
+      serverId: apiKeyRequests.serverId,
+      ipAddress: apiKeyRequests.ipAddress,
+      createdAt: apiKeyRequests.createdAt,
+    })
+    .from(apiKeyRequests)
+    .leftJoin(apiKeys, eq(apiKeyRequests.apiKeyId, apiKeys.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(apiKeyRequests.createdAt), desc(apiKeyRequests.id))
+    .limit(Math.min(options.limit ?? 100, 500));
+}
+
+/**
+ * Delete request log entries past the retention period
+ */
+export async function pruneApiKeyRequests(): Promise<number> {
+  const cutoff = new Date(Date.now() - API_KEY_REQUEST_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const pruned = await db
+    .delete(apiKeyRequests)
+    .where(lt(apiKeyRequests.createdAt, cutoff))
+    .returning({ id: apiKeyRequests.id });
+  return pruned.length;
+}
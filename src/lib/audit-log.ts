@@ -0,0 +1,242 @@
+/**
+ * Audit Log
+ *
+ * Records privileged actions (moderation, settings, ranks, API keys, server
+ * control, role changes) in `audit_logs` so superadmins can answer "who
+ * changed this?". Writing a log entry never fails the action it describes.
+ *
+ * The audit log page (/admin/audit-log) searches and exports through
+ * searchAuditLogs().
+ */
+
+import { db } from '@/db';
+import { auditLogs, users } from '@/db/schema';
+import { and, desc, eq, gte, lte, sql } from 'drizzle-orm';
+
+export interface AuditEntry {
+  userId: number | string | null;
+  action: string;
+  resource: string;
+  resourceId?: string | number | null;
+  details?: Record<string, unknown>;
+  request?: Request;
+}
+
+export interface AuditLogFilters {
+  actor?: string | null;
+  action?: string | null;
+  resource?: string | null;
+  resourceId?: string | null;
+  from?: Date | null;
+  to?: Date | null;
+}
+
+export interface AuditLogRow {
+  id: number;
+  userId: number | null;
+  actorUsername: string | null;
+  action: string;
+  resource: string;
+  resourceId: string | null;
+  details: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+}
+
+// Most rows a single export will return
+export const AUDIT_EXPORT_LIMIT = 10000;
+
+// Setting keys whose values must never end up in the log
+const SECRET_KEY_PATTERN = /secret|password|token|signature|webhook|api_key/i;
+const MASK = '••••••••';
+
+// =============================================================================
+// WRITING
+// =============================================================================
+
+export function getClientIp(request: Request): string | null {
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim()
+    || request.headers.get('x-real-ip')
+    || null;
+}
+
+/**
+ * Write an audit log entry. Pass the request to record the actor's IP and
+ * user agent.
+ */
+export async function logAudit(entry: AuditEntry): Promise<void> {
+  try {
+    await db.insert(auditLogs).values({
+      userId: entry.userId ? Number(entry.userId) : null,
+      action: entry.action,
+      resource: entry.resource,
+      resourceId: entry.resourceId !== undefined && entry.resourceId !== null ? String(entry.resourceId) : null,
+      details: entry.details ? JSON.stringify(entry.details) : null,
+      ipAddress: entry.request ? getClientIp(entry.request) : null,
+      userAgent: entry.request?.headers.get('user-agent')?.slice(0, 500) || null,
+    });
+  } catch (error) {
+    console.error('Failed to write audit log:', error);
+  }
+}
+
+/**
+ * Replace secret values (API keys, tokens, passwords) with a mask
+ */
+export function maskSecret(key: string, value: unknown): unknown {
+  if (value === null || value === undefined || value === '') return value;
+  return SECRET_KEY_PATTERN.test(key) ? MASK : value;
+}
+
+/**
+ * Fields that differ between two versions of a record, as { field: { from, to } }.
+ * Only `fields` are compared; secrets are masked.
+ */
+export function diffFields(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown>,
+  fields: string[] = Object.keys(after)
+): Record<string, { from: unknown; to: unknown }> {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+  for (const field of fields) {
+    if (after[field] === undefined) continue;
+    const from = normalize(before?.[field]);
+    const to = normalize(after[field]);
+    if (from !== to) {
+      changes[field] = { from: maskSecret(field, from), to: maskSecret(field, to) };
+    }
+  }
+
+  return changes;
+}
+
+// Compare dates, numbers and strings by value
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined) return null;
+  return value;
+}
+
+// =============================================================================
+// SEARCHING
+// =============================================================================
+
+/**
+ * Read filters from a query string. Dates are yyyy-mm-dd; `to` includes the
+ * whole day.
+ */
+export function parseAuditFilters(params: URLSearchParams): AuditLogFilters {
+  const date = (value: string | null, endOfDay: boolean) => {
+    if (!value) return null;
+    const parsed = new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  };
+
+  return {
+    actor: params.get('actor')?.trim() || null,
+    action: params.get('action') || null,
+    resource: params.get('resource') || null,
+    resourceId: params.get('resourceId')?.trim() || null,
+    from: date(params.get('from'), false),
+    to: date(params.get('to'), true),
+  };
+}
+
+function buildWhere(filters: AuditLogFilters) {
+  const conditions = [];
+
+  if (filters.actor) {
+    conditions.push(sql`LOWER(${users.username}) = LOWER(${filters.actor})`);
+  }
+  if (filters.action) conditions.push(eq(auditLogs.action, filters.action));
+  if (filters.resource) conditions.push(eq(auditLogs.resource, filters.resource));
+  if (filters.resourceId) conditions.push(eq(auditLogs.resourceId, filters.resourceId));
+  if (filters.from) conditions.push(gte(auditLogs.createdAt, filters.from));
+  if (filters.to) conditions.push(lte(auditLogs.createdAt, filters.to));
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+/**
+ * Filtered audit log, newest first, with the acting user's name
+ */
+export async function searchAuditLogs(
+  filters: AuditLogFilters,
+  options: { limit: number; offset?: number }
+): Promise<{ logs: AuditLogRow[]; total: number }> {
+  const where = buildWhere(filters);
+
+  const [logs, totals] = await Promise.all([
+    db
+      .select({
+        id: auditLogs.id,
+        userId: auditLogs.userId,
+        actorUsername: users.username,
+        action: auditLogs.action,
+        resource: auditLogs.resource,
+        resourceId: auditLogs.resourceId,
+        details: auditLogs.details,
+        ipAddress: auditLogs.ipAddress,
+        userAgent: auditLogs.userAgent,
+        createdAt: auditLogs.createdAt,
+      })
+      .from(auditLogs)
+      .leftJoin(users, eq(auditLogs.userId, users.id))
+      .where(where)
+      .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id))
+      .limit(options.limit)
+      .offset(options.offset || 0),
+    db
+      .select({ count: sql<number>`count(*)` })
+      .from(auditLogs)
+      .leftJoin(users, eq(auditLogs.userId, users.id))
+      .where(where),
+  ]);
+
+  return { logs, total: Number(totals[0]?.count || 0) };
+}
+
+/**
+ * Distinct action and resource names, for the filter dropdowns
+ */
+export async function getAuditLogFacets(): Promise<{ actions: string[]; resources: string[] }> {
+  const [actions, resources] = await Promise.all([
+    db.selectDistinct({ value: auditLogs.action }).from(auditLogs),
+    db.selectDistinct({ value: auditLogs.resource }).from(auditLogs),
+  ]);
+
+  return {
+    actions: actions.map((row: any) => row.value).sort(),
+    resources: resources.map((row: any) => row.value).sort(),
+  };
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditLogsToCsv(logs: AuditLogRow[]): string {
+  const header = ['id', 'timestamp', 'actor', 'actor_id', 'action', 'resource', 'resource_id', 'details', 'ip_address', 'user_agent'];
+  const rows = logs.map((log) => [
+    log.id,
+    new Date(log.createdAt),
+    log.actorUsername,
+    log.userId,
+    log.action,
+    log.resource,
+    log.resourceId,
+    log.details,
+    log.ipAddress,
+    log.userAgent,
+  ].map(csvCell).join(','));
+
+  return [header.join(','), ...rows].join('\n');
+}
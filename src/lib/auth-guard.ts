@@ -7,6 +7,7 @@
 
 import { auth } from '../../auth';
 import { NextResponse } from 'next/server';
+import { getServerCapabilities, type ServerCapability } from '@/lib/server-access';
 
 // Role hierarchy (higher index = more permissions)
 export const ROLE_HIERARCHY = ['user', 'moderator', 'admin', 'superadmin'] as const;
@@ -33,6 +34,7 @@ export const PERMISSIONS = {
   'servers:read': ['user', 'moderator', 'admin', 'superadmin'],
   'servers:write': ['admin', 'superadmin'],
   'servers:delete': ['superadmin'],
+  'servers:grant': ['superadmin'],
   
   // Events
   'events:create': ['moderator', 'admin', 'superadmin'],
@@ -43,6 +45,7 @@ export const PERMISSIONS = {
   'donations:read': ['admin', 'superadmin'],
   'donations:manage': ['superadmin'],
   'ranks:manage': ['admin', 'superadmin'],
+  'goals:manage': ['admin', 'superadmin'],
   
   // API Keys
   'apikeys:read': ['admin', 'superadmin'],
@@ -56,6 +59,12 @@ export const PERMISSIONS = {
   'forum:pin': ['moderator', 'admin', 'superadmin'],
   'forum:lock': ['moderator', 'admin', 'superadmin'],
   'forum:delete': ['moderator', 'admin', 'superadmin'],
+
+  // Achievements
+  'achievements:manage': ['admin', 'superadmin'],
+
+  // Audit log
+  'audit:read': ['superadmin'],
 } as const;
 
 export type Permission = keyof typeof PERMISSIONS;
@@ -140,6 +149,30 @@ export async function requireRole(minimumRole: Role) {
   return { error: null, user };
 }
 
+/**
+ * API Route Guard - Requires a capability on one Pterodactyl server
+ * Users with servers:write have every capability; everyone else needs a
+ * delegated access grant for the server (see lib/server-access)
+ */
+export async function requireServerAccess(serverIdentifier: string, capability: ServerCapability) {
+  const { error, user } = await requireAuth();
+  if (error) return { error, user: null };
+
+  if (hasPermission(user!.role, 'servers:write')) {
+    return { error: null, user };
+  }
+
+  const capabilities = await getServerCapabilities(parseInt(user!.id), serverIdentifier);
+  if (!capabilities.includes(capability)) {
+    return {
+      error: NextResponse.json({ error: 'Forbidden - No access to this server' }, { status: 403 }),
+      user: null
+    };
+  }
+
+  return { error: null, user };
+}
+
 /**
  * Check if user can access admin panel
  */
@@ -0,0 +1,254 @@
+/**
+ * Cron Expressions
+ *
+ * Five-field cron expressions (minute hour day-of-month month day-of-week) as
+ * used by Pterodactyl schedules. Used by the schedule editor to build
+ * expressions from simple choices, validate hand-written ones and preview the
+ * next run times. Safe to import from client components.
+ *
+ * Supported syntax per field: `*`, numbers, ranges (`1-5`), steps (`*\/15`,
+ * `0-30/10`) and comma-separated lists. Day-of-week accepts 0-7 with both 0
+ * and 7 meaning Sunday.
+ */
+
+export interface CronFields {
+  minute: string;
+  hour: string;
+  dayOfMonth: string;
+  month: string;
+  dayOfWeek: string;
+}
+
+export type CronField = keyof CronFields;
+
+export type CronBuilderMode = 'minutes' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'custom';
+
+/**
+ * Choices made in the simple builder. Only the values for the chosen mode
+ * are used.
+ */
+export interface CronBuilder {
+  mode: CronBuilderMode;
+  interval: number; // minutes, for "every N minutes"
+  minute: number;
+  hour: number;
+  dayOfWeek: number; // 0 = Sunday
+  dayOfMonth: number;
+}
+
+const FIELD_RANGES: Record<CronField, { min: number; max: number; label: string }> = {
+  minute: { min: 0, max: 59, label: 'Minute' },
+  hour: { min: 0, max: 23, label: 'Hour' },
+  dayOfMonth: { min: 1, max: 31, label: 'Day of month' },
+  month: { min: 1, max: 12, label: 'Month' },
+  dayOfWeek: { min: 0, max: 7, label: 'Day of week' },
+};
+
+export const CRON_FIELDS: CronField[] = ['minute', 'hour', 'dayOfMonth', 'month', 'dayOfWeek'];
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// How far ahead getNextCronRuns() looks before giving up (e.g. 31 February)
+const MAX_LOOKAHEAD_DAYS = 366 * 4;
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * Every value a field matches, or an error message if it is invalid
+ */
+export function expandCronField(value: string, field: CronField): { values?: number[]; error?: string } {
+  const { min, max, label } = FIELD_RANGES[field];
+  const matched = new Set<number>();
+  const trimmed = value.trim();
+
+  if (!trimmed) {
+    return { error: `${label} is required` };
+  }
+
+  for (const part of trimmed.split(',')) {
+    const match = part.match(/^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/);
+    if (!match) {
+      return { error: `${label} "${part}" is not valid` };
+    }
+
+    const [, startPart, endPart, stepPart] = match;
+    const start = startPart === '*' ? min : parseInt(startPart, 10);
+    const end = endPart !== undefined ? parseInt(endPart, 10) : startPart === '*' || stepPart ? max : start;
+    const step = stepPart !== undefined ? parseInt(stepPart, 10) : 1;
+
+    if (startPart === '*' && endPart !== undefined) {
+      return { error: `${label} "${part}" is not valid` };
+    }
+    if (start < min || end > max || start > end) {
+      return { error: `${label} must be between ${min} and ${max}` };
+    }
+    if (step < 1) {
+      return { error: `${label} step must be at least 1` };
+    }
+
+    for (let i = start; i <= end; i += step) {
+      // Sunday can be written as 0 or 7
+      matched.add(field === 'dayOfWeek' && i === 7 ? 0 : i);
+    }
+  }
+
+  return { values: [...matched].sort((a, b) => a - b) };
+}
+
+/**
+ * First problem with an expression, or null if every field is valid
+ */
+export function validateCronFields(fields: CronFields): string | null {
+  for (const field of CRON_FIELDS) {
+    const { error } = expandCronField(fields[field] ?? '', field);
+    if (error) return error;
+  }
+  return null;
+}
+
+export function formatCronFields(fields: CronFields): string {
+  return CRON_FIELDS.map((field) => fields[field]).join(' ');
+}
+
+// =============================================================================
+// BUILDER
+// =============================================================================
+
+export const DEFAULT_CRON_BUILDER: CronBuilder = {
+  mode: 'daily',
+  interval: 30,
+  minute: 0,
+  hour: 4,
+  dayOfWeek: 0,
+  dayOfMonth: 1,
+};
+
+/**
+ * Expression for the simple builder's choices
+ */
+export function buildCronFields(builder: CronBuilder): CronFields {
+  const minute = String(builder.minute);
+  const hour = String(builder.hour);
+
+  switch (builder.mode) {
+    case 'minutes':
+      return { minute: `*/${Math.max(1, builder.interval)}`, hour: '*', dayOfMonth: '*', month: '*', dayOfWeek: '*' };
+    case 'hourly':
+      return { minute, hour: '*', dayOfMonth: '*', month: '*', dayOfWeek: '*' };
+    case 'weekly':
+      return { minute, hour, dayOfMonth: '*', month: '*', dayOfWeek: String(builder.dayOfWeek) };
+    case 'monthly':
+      return { minute, hour, dayOfMonth: String(builder.dayOfMonth), month: '*', dayOfWeek: '*' };
+    default:
+      return { minute, hour, dayOfMonth: '*', month: '*', dayOfWeek: '*' };
+  }
+}
+
+/**
+ * Builder choices that produce an existing expression, falling back to
+ * custom when it doesn't fit one of the simple modes
+ */
+export function parseCronBuilder(fields: CronFields): CronBuilder {
+  const isNumber = (value: string) => /^\d+$/.test(value);
+  const { minute, hour, dayOfMonth, month, dayOfWeek } = fields;
+  const base = { ...DEFAULT_CRON_BUILDER };
+
+  if (month !== '*') return { ...base, mode: 'custom' };
+
+  const interval = minute.match(/^\*\/(\d+)$/);
+  if (interval && hour === '*' && dayOfMonth === '*' && dayOfWeek === '*') {
+    return { ...base, mode: 'minutes', interval: parseInt(interval[1], 10) };
+  }
+
+  if (!isNumber(minute)) return { ...base, mode: 'custom' };
+  const withMinute = { ...base, minute: parseInt(minute, 10) };
+
+  if (hour === '*' && dayOfMonth === '*' && dayOfWeek === '*') {
+    return { ...withMinute, mode: 'hourly' };
+  }
+
+  if (!isNumber(hour)) return { ...base, mode: 'custom' };
+  const withTime = { ...withMinute, hour: parseInt(hour, 10) };
+
+  if (dayOfMonth === '*' && dayOfWeek === '*') return { ...withTime, mode: 'daily' };
+  if (dayOfMonth === '*' && isNumber(dayOfWeek)) {
+    return { ...withTime, mode: 'weekly', dayOfWeek: parseInt(dayOfWeek, 10) % 7 };
+  }
+  if (dayOfWeek === '*' && isNumber(dayOfMonth)) {
+    return { ...withTime, mode: 'monthly', dayOfMonth: parseInt(dayOfMonth, 10) };
+  }
+
+  return { ...base, mode: 'custom' };
+}
+
+/**
+ * Short description such as "Every day at 04:00", for schedule lists
+ */
+export function describeCron(fields: CronFields): string {
+  const builder = parseCronBuilder(fields);
+  const time = `${String(builder.hour).padStart(2, '0')}:${String(builder.minute).padStart(2, '0')}`;
+
+  switch (builder.mode) {
+    case 'minutes':
+      return builder.interval === 1 ? 'Every minute' : `Every ${builder.interval} minutes`;
+    case 'hourly':
+      return `Every hour at :${String(builder.minute).padStart(2, '0')}`;
+    case 'daily':
+      return `Every day at ${time}`;
+    case 'weekly':
+      return `Every ${WEEKDAYS[builder.dayOfWeek]} at ${time}`;
+    case 'monthly':
+      return `Monthly on day ${builder.dayOfMonth} at ${time}`;
+    default:
+      return formatCronFields(fields);
+  }
+}
+
+// =============================================================================
+// NEXT RUNS
+// =============================================================================
+
+/**
+ * The next times an expression fires after `from`. Times are wall-clock
+ * values in the timezone of the Date objects, so callers showing a panel's
+ * schedule should present them as panel-local times.
+ */
+export function getNextCronRuns(fields: CronFields, count: number = 5, from: Date = new Date()): Date[] {
+  const expanded = {} as Record<CronField, number[]>;
+  for (const field of CRON_FIELDS) {
+    const { values } = expandCronField(fields[field] ?? '', field);
+    if (!values) return [];
+    expanded[field] = values;
+  }
+
+  // Standard cron: when both day fields are restricted, either may match
+  const domRestricted = fields.dayOfMonth.trim() !== '*';
+  const dowRestricted = fields.dayOfWeek.trim() !== '*';
+
+  const runs: Date[] = [];
+  const day = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+
+  for (let i = 0; i < MAX_LOOKAHEAD_DAYS && runs.length < count; i++) {
+    const domMatch = expanded.dayOfMonth.includes(day.getDate());
+    const dowMatch = expanded.dayOfWeek.includes(day.getDay());
+    const dayMatches = domRestricted && dowRestricted ? domMatch || dowMatch : domMatch && dowMatch;
+
+    if (expanded.month.includes(day.getMonth() + 1) && dayMatches) {
+      for (const hour of expanded.hour) {
+        for (const minute of expanded.minute) {
+          const run = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute);
+          if (run > from) {
+            runs.push(run);
+            if (runs.length >= count) return runs;
+          }
+        }
+      }
+    }
+
+    day.setDate(day.getDate() + 1);
+  }
+
+  return runs;
+}
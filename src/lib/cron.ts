@@ -198,6 +198,150 @@ export function initializeCronJobs() {
     }
   );
 
+  // Event reminders every 15 minutes
+  cronManager.register(
+    'event-reminders',
+    15 * 60 * 1000, // 15 minutes
+    async () => {
+      try {
+        const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/cron/event-reminders`, {
+          headers: {
+            'Authorization': `Bearer ${process.env.CRON_SECRET || ''}`,
+          },
+        });
+        
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+        }
+        
+        const data = await response.json();
+        console.log('Event reminder result:', data);
+      } catch (error: any) {
+        console.error('Failed to run event reminders:', error);
+      }
+    }
+  );
+
+  // Ticket stale reminders and auto-close every 15 minutes
+  cronManager.register(
+    'ticket-lifecycle',
+    15 * 60 * 1000, // 15 minutes
+    async () => {
+      try {
+        const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/cron/ticket-lifecycle`, {
+          headers: {
+            'Authorization': `Bearer ${process.env.CRON_SECRET || ''}`,
+          },
+        });
+        
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+        }
+        
+        const data = await response.json();
+        console.log('Ticket lifecycle result:', data);
+      } catch (error: any) {
+        console.error('Failed to run ticket lifecycle:', error);
+      }
+    }
+  );
+
+  // Lift expired mutes and temporary bans every 5 minutes
+  cronManager.register(
+    'expire-sanctions',
+    5 * 60 * 1000, // 5 minutes
+    async () => {
+      try {
+        const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/cron/expire-sanctions`, {
+          headers: {
+            'Authorization': `Bearer ${process.env.CRON_SECRET || ''}`,
+          },
+        });
+        
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+        }
+        
+        const data = await response.json();
+        console.log('Sanction expiry result:', data);
+      } catch (error: any) {
+        console.error('Failed to run sanction expiry:', error);
+      }
+    }
+  );
+
+  // Delete ended rate limit windows every hour
+  cronManager.register(
+    'prune-rate-limits',
+    60 * 60 * 1000, // 1 hour
+    async () => {
+      try {
+        const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/cron/prune-rate-limits`, {
+          headers: {
+            'Authorization': `Bearer ${process.env.CRON_SECRET || ''}`,
+          },
+        });
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+        }
+
+        const data = await response.json();
+        console.log('Rate limit prune result:', data);
+      } catch (error: any) {
+        console.error('Failed to prune rate limits:', error);
+      }
+    }
+  );
+
+  // Rebuild leaderboard snapshots every 10 minutes
+  cronManager.register(
+    'refresh-leaderboards',
+    10 * 60 * 1000, // 10 minutes
+    async () => {
+      try {
+        const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/cron/refresh-leaderboards`, {
+          headers: {
+            'Authorization': `Bearer ${process.env.CRON_SECRET || ''}`,
+          },
+        });
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+        }
+
+        const data = await response.json();
+        console.log('Leaderboard refresh result:', data);
+      } catch (error: any) {
+        console.error('Failed to refresh leaderboards:', error);
+      }
+    }
+  );
+
+  // Sample Pterodactyl resource usage and check alert thresholds every minute
+  cronManager.register(
+    'server-resources',
+    60 * 1000, // 1 minute
+    async () => {
+      try {
+        const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/cron/server-resources`, {
+          headers: {
+            'Authorization': `Bearer ${process.env.CRON_SECRET || ''}`,
+          },
+        });
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+        }
+
+        const data = await response.json();
+        console.log('Server resource sample result:', data);
+      } catch (error: any) {
+        console.error('Failed to sample server resources:', error);
+      }
+    }
+  );
+
   // NOTE: Server status is now fetched LIVE from mcsrvstat.us on every request.
   // No cron job needed - status is never stored in the database.
 
@@ -8,6 +8,7 @@ import { Client, GatewayIntentBits, REST, Routes, SlashCommandBuilder, ChannelTy
 import { db } from '@/db';
 import { users, donationRanks, supportTickets, ticketMessages, siteSettings, ticketCategories } from '@/db/schema';
 import { eq, inArray, sql } from 'drizzle-orm';
+import { requestTicketFeedback } from '@/lib/ticket-feedback';
 
 let discordClient: Client | null = null;
 let discordRest: REST | null = null;
@@ -623,6 +624,7 @@ export async function handleCloseCommand(interaction: any): Promise<void> {
             .set({
                 status: 'closed',
                 closedAt: new Date(),
+                closedByDiscordId: interaction.user.id,
                 closedReason: reason,
                 updatedAt: new Date(),
             })
@@ -653,6 +655,7 @@ export async function handleCloseCommand(interaction: any): Promise<void> {
         await interaction.reply({ embeds: [embed] });
 
         console.log(`✅ Ticket #${ticket.id} closed by ${interaction.user.tag}`);
+        await requestTicketFeedback(ticket.id);
     } catch (error: any) {
         console.error('Error handling close command:', error);
         await interaction.reply({
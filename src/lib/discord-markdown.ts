@@ -252,11 +252,13 @@ export function partsToHtml(parts: ParsedPart[]): string {
             case 'codeblock':
                 return `<pre class="p-2 my-1 rounded bg-secondary overflow-x-auto"><code>${escaped}</code></pre>`;
             case 'link':
-                return `<a href="${escapeHtml(part.url || '')}" target="_blank" rel="noopener noreferrer" class="text-neon-cyan hover:underline">${escaped}</a>`;
+                // Anything but http(s), e.g. javascript:, is shown as plain text
+                if (!isSafeUrl(part.url)) return escaped;
+                return `<a href="${escapeHtml(part.url)}" target="_blank" rel="noopener noreferrer" class="text-neon-cyan hover:underline">${escaped}</a>`;
             case 'emoji':
-                if (part.url) {
+                if (isSafeUrl(part.url)) {
                     // Custom Discord emoji
-                    return `<img src="${part.url}" alt="${escaped}" class="inline-block w-5 h-5 align-middle" />`;
+                    return `<img src="${escapeHtml(part.url)}" alt="${escaped}" class="inline-block w-5 h-5 align-middle" />`;
                 }
                 return escaped;
             case 'mention':
@@ -281,6 +283,13 @@ function escapeHtml(text: string): string {
         .replace(/'/g, '&#039;');
 }
 
+/**
+ * Only http(s) URLs are allowed into links and images
+ */
+function isSafeUrl(url: string | undefined): url is string {
+    return Boolean(url && /^https?:\/\//i.test(url));
+}
+
 /**
  * Simple function to render Discord markdown to HTML
  */
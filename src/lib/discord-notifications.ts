@@ -1,12 +1,13 @@
 /**
- * Discord Donation Notifications
+ * Discord Notifications
  * 
- * Sends donation announcements to a Discord webhook channel
+ * Sends donation announcements to a Discord webhook channel, and staff alerts
+ * as bot DMs to members with the downtime manager role
  */
 
 import { db } from '@/db';
 import { siteSettings } from '@/db/schema';
-import { eq } from 'drizzle-orm';
+import { eq, inArray } from 'drizzle-orm';
 
 interface DonationDetails {
     username: string;
@@ -17,6 +18,7 @@ interface DonationDetails {
     days?: number | null;
     paymentType?: 'one_time' | 'subscription' | 'renewal' | 'subscription_renewal';
     message?: string | null;
+    giftedTo?: string | null; // Recipient's name when the rank was bought as a gift
 }
 
 /**
@@ -70,8 +72,10 @@ export async function sendDonationDiscordNotification(donation: DonationDetails)
                 : '💎 One-Time';
 
         const embed = {
-            title: '💰 New Donation!',
-            description: `**${donation.username}** just supported the server!`,
+            title: donation.giftedTo ? '🎁 Rank Gifted!' : '💰 New Donation!',
+            description: donation.giftedTo
+                ? `**${donation.username}** gifted **${donation.giftedTo}**${donation.rankName ? ` the ${donation.rankName} rank` : ' a rank'}!`
+                : `**${donation.username}** just supported the server!`,
             color: 0x00FF88, // Neon green
             thumbnail: minecraftAvatarUrl ? { url: minecraftAvatarUrl } : undefined,
             fields: [
@@ -144,3 +148,156 @@ export async function sendDonationDiscordNotification(donation: DonationDetails)
         return false;
     }
 }
+
+/**
+ * Announce a donation goal milestone (25/50/75/100%) to Discord
+ */
+export async function sendGoalMilestoneDiscordNotification(goal: {
+    title: string;
+    milestone: number;
+    raised: number;
+    targetAmount: number;
+    endsAt: string;
+}): Promise<boolean> {
+    try {
+        const { webhookUrl, avatarUrl } = await getDonationWebhookSettings();
+
+        if (!webhookUrl) {
+            return false;
+        }
+
+        const reached = goal.milestone >= 100;
+        const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+        const embed = {
+            title: reached ? '🎉 Donation Goal Reached!' : `📈 Donation Goal ${goal.milestone}% Funded`,
+            description: reached
+                ? `Thank you! **${goal.title}** has been fully funded.`
+                : `**${goal.title}** is ${goal.milestone}% of the way there. [Help us finish it](${appUrl}/donate)!`,
+            color: reached ? 0x00FF88 : 0x00D9FF,
+            fields: [
+                {
+                    name: '💵 Raised',
+                    value: `$${goal.raised.toFixed(2)} of $${goal.targetAmount.toFixed(2)}`,
+                    inline: true,
+                },
+                {
+                    name: '⏳ Ends',
+                    value: `<t:${Math.floor(new Date(goal.endsAt).getTime() / 1000)}:R>`,
+                    inline: true,
+                },
+            ],
+            footer: {
+                text: 'Vonix Network',
+            },
+            timestamp: new Date().toISOString(),
+        };
+
+        const response = await fetch(webhookUrl, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                username: 'Vonix Donations',
+                avatar_url: avatarUrl || undefined,
+                embeds: [embed],
+            }),
+        });
+
+        if (!response.ok) {
+            console.error('Discord webhook error:', response.status, await response.text());
+            return false;
+        }
+
+        console.log(`✅ Goal milestone ${goal.milestone}% sent to Discord`);
+        return true;
+    } catch (error: any) {
+        console.error('Error sending goal milestone Discord notification:', error);
+        return false;
+    }
+}
+
+/**
+ * DM an alert embed to every guild member with the downtime manager role
+ * (the same people the uptime monitor notifies). Returns how many DMs were sent.
+ */
+export async function sendStaffAlertDirectMessages(embed: Record<string, unknown>): Promise<number> {
+    try {
+        const settings = await db
+            .select()
+            .from(siteSettings)
+            .where(inArray(siteSettings.key, [
+                'discord_bot_token',
+                'discord_guild_id',
+                'discord_downtime_manager_role_id',
+            ]));
+
+        const settingsMap = Object.fromEntries(settings.map((s: any) => [s.key, s.value]));
+        const botToken = settingsMap['discord_bot_token'];
+        const guildId = settingsMap['discord_guild_id'];
+        const roleId = settingsMap['discord_downtime_manager_role_id'];
+
+        if (!botToken || !guildId || !roleId) {
+            console.warn('⚠️ Staff alert DMs skipped - Discord settings not configured');
+            return 0;
+        }
+
+        const headers = {
+            'Authorization': `Bot ${botToken}`,
+            'Content-Type': 'application/json',
+        };
+
+        const membersResponse = await fetch(
+            `https://discord.com/api/v10/guilds/${guildId}/members?limit=1000`,
+            { headers }
+        );
+
+        if (!membersResponse.ok) {
+            console.error(`Failed to fetch guild members: ${membersResponse.status}`);
+            return 0;
+        }
+
+        const members = await membersResponse.json();
+        const managers = members.filter((member: any) => member.roles?.includes(roleId));
+        let sent = 0;
+
+        for (const manager of managers) {
+            try {
+                const dmChannelResponse = await fetch('https://discord.com/api/v10/users/@me/channels', {
+                    method: 'POST',
+                    headers,
+                    body: JSON.stringify({ recipient_id: manager.user.id }),
+                });
+
+                if (!dmChannelResponse.ok) {
+                    console.warn(`Could not create DM channel for ${manager.user.username}`);
+                    continue;
+                }
+
+                const dmChannel = await dmChannelResponse.json();
+                const messageResponse = await fetch(`https://discord.com/api/v10/channels/${dmChannel.id}/messages`, {
+                    method: 'POST',
+                    headers,
+                    body: JSON.stringify({ embeds: [embed] }),
+                });
+
+                if (messageResponse.ok) {
+                    sent++;
+                } else {
+                    console.warn(`Failed to send DM to ${manager.user.username}: ${messageResponse.status}`);
+                }
+
+                // Small delay to avoid rate limiting
+                await new Promise(resolve => setTimeout(resolve, 500));
+            } catch (dmError) {
+                console.error(`Error sending DM to manager ${manager.user?.username}:`, dmError);
+            }
+        }
+
+        return sent;
+    } catch (error: any) {
+        console.error('Error sending staff alert DMs:', error);
+        return 0;
+    }
+}
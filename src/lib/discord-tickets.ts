@@ -30,8 +30,12 @@ import {
     ForumChannel,
 } from 'discord.js';
 import { db } from '@/db';
-import { users, supportTickets, ticketMessages, ticketCategories, ticketQuestions, ticketAnswers, siteSettings, ticketFeedback, ticketTags } from '@/db/schema';
+import { users, supportTickets, ticketMessages, ticketCategories, ticketQuestions, ticketAnswers, siteSettings, ticketFeedback, ticketTags, archivedMessages } from '@/db/schema';
 import { eq, and, desc, asc, inArray, sql, lt } from 'drizzle-orm';
+import { trackAchievementProgress } from '@/lib/achievements';
+import { getTicketTranscript, buildTranscriptHtml } from '@/lib/ticket-transcripts';
+import { requestTicketFeedback, getCreditedStaffId } from '@/lib/ticket-feedback';
+import { getTagsForCategory, renderTicketTag } from '@/lib/ticket-tags';
 
 let discordClient: Client | null = null;
 let discordRest: REST | null = null;
@@ -381,6 +385,17 @@ async function getTicketFromChannel(channelId: string) {
     return ticket;
 }
 
+/**
+ * Website account linked to a Discord user, if any
+ */
+async function getLinkedUserId(discordUserId: string): Promise<number | null> {
+    const [user] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(users.discordId, discordUserId));
+    return user?.id ?? null;
+}
+
 async function getNextTicketNumber(): Promise<number> {
     const result = await db
         .select({ maxId: sql<number>`COALESCE(MAX(id), 0)` })
@@ -409,6 +424,76 @@ function getStatusEmoji(status: string): string {
     return emojis[status] || '⚪';
 }
 
+// ============================================================================
+// TRANSCRIPT ARCHIVE
+// ============================================================================
+
+/**
+ * Copy every message in a ticket channel into archived_messages so the
+ * transcript survives the channel being deleted. Safe to run repeatedly;
+ * messages that are already archived are skipped. Returns how many new
+ * messages were stored.
+ */
+export async function archiveTicketChannel(ticketId: number, channel: any): Promise<number> {
+    if (!channel?.messages?.fetch) return 0;
+
+    const existing = await db
+        .select({ id: archivedMessages.id })
+        .from(archivedMessages)
+        .where(eq(archivedMessages.ticketId, ticketId));
+    const archivedIds = new Set(existing.map((row: any) => row.id));
+
+    let before: string | undefined;
+    let stored = 0;
+
+    try {
+        // Discord returns at most 100 messages per request, newest first
+        while (true) {
+            const batch = await channel.messages.fetch({ limit: 100, before });
+            if (!batch || batch.size === 0) break;
+
+            const rows = [...batch.values()]
+                .filter((message: any) => !archivedIds.has(message.id))
+                .map((message: any) => ({
+                    id: message.id,
+                    ticketId,
+                    authorId: message.author.id,
+                    authorUsername: message.author.username,
+                    authorAvatar: message.author.displayAvatarURL?.() || null,
+                    content: message.content || null,
+                    attachments: message.attachments.size > 0
+                        ? JSON.stringify([...message.attachments.values()].map((file: any) => ({
+                            name: file.name,
+                            url: file.url,
+                            contentType: file.contentType || null,
+                            size: file.size ?? null,
+                        })))
+                        : null,
+                    embeds: message.embeds.length > 0
+                        ? JSON.stringify(message.embeds.map((embed: any) => embed.toJSON()))
+                        : null,
+                    isBot: message.author.bot,
+                    isExternal: !!message.reference?.channelId && message.reference.channelId !== channel.id,
+                    createdAt: message.createdAt,
+                }));
+
+            if (rows.length > 0) {
+                await db.insert(archivedMessages).values(rows);
+                rows.forEach((row: any) => archivedIds.add(row.id));
+                stored += rows.length;
+            }
+
+            if (batch.size < 100) break;
+            before = batch.last()?.id;
+        }
+    } catch (error: any) {
+        // Keep whatever was archived before the failure
+        console.error(`Failed to archive messages for ticket ${ticketId}:`, error);
+    }
+
+    return stored;
+}
+
 // ============================================================================
 // TICKET CREATION
 // ============================================================================
@@ -641,7 +726,8 @@ export async function claimTicket(interaction: any): Promise<void> {
     // Update database
     await db.update(supportTickets)
         .set({
-            claimedById: null, // We'd need user mapping here
+            claimedById: await getLinkedUserId(interaction.user.id),
+            claimedByDiscordId: interaction.user.id,
             claimedAt: new Date(),
             status: 'in_progress' as const,
             updatedAt: new Date(),
@@ -709,6 +795,7 @@ export async function releaseTicket(interaction: any): Promise<void> {
     await db.update(supportTickets)
         .set({
             claimedById: null,
+            claimedByDiscordId: null,
             claimedAt: null,
             status: 'open' as const,
             updatedAt: new Date(),
@@ -799,6 +886,8 @@ async function finallyCloseTicket(interaction: any, ticketId: number, reason?: s
         .set({
             status: 'closed' as const,
             closedAt: new Date(),
+            closedById: await getLinkedUserId(interaction.user.id),
+            closedByDiscordId: interaction.user.id,
             closedReason: reason || null,
             updatedAt: new Date(),
         })
@@ -827,9 +916,11 @@ async function finallyCloseTicket(interaction: any, ticketId: number, reason?: s
         ],
     });
 
-    // Wait 5 seconds then delete channel
+    // Wait 5 seconds then archive and delete channel
     await new Promise(resolve => setTimeout(resolve, 5000));
 
+    await archiveTicketChannel(ticketId, interaction.channel);
+
     try {
         await interaction.channel.delete(`Ticket closed by ${interaction.user.tag}`);
     } catch (error: any) {
@@ -837,6 +928,7 @@ async function finallyCloseTicket(interaction: any, ticketId: number, reason?: s
     }
 
     await logTicketEvent('close', ticketId, interaction.user.id, reason || 'Ticket closed');
+    await requestTicketFeedback(ticketId);
 }
 
 export async function addMemberToTicket(interaction: any, member: any): Promise<void> {
@@ -1094,42 +1186,39 @@ export async function getTranscript(interaction: any, ticketId?: string): Promis
         return;
     }
 
-    const messages = await db
-        .select()
-        .from(ticketMessages)
-        .where(eq(ticketMessages.ticketId, ticket.id))
-        .orderBy(asc(ticketMessages.createdAt));
+    // Snapshot the channel first so the transcript is current while it's still open
+    const channelId = ticket.discordChannelId || ticket.discordThreadId;
+    if (channelId && discordClient) {
+        try {
+            const channel = interaction.channel?.id === channelId
+                ? interaction.channel
+                : await discordClient.channels.fetch(channelId);
+            await archiveTicketChannel(ticket.id, channel);
+        } catch {
+            // Channel already deleted - use whatever was archived when it closed
+        }
+    }
 
-    if (messages.length === 0) {
+    const transcript = await getTicketTranscript(ticket.id);
+
+    if (!transcript || transcript.messages.length === 0) {
         await interaction.editReply({
             content: '❌ No messages found for this ticket.',
         });
         return;
     }
 
-    // Build transcript
-    let transcript = `# Ticket #${ticket.id} Transcript\n`;
-    transcript += `**Subject:** ${ticket.subject}\n`;
-    transcript += `**Status:** ${ticket.status}\n`;
-    transcript += `**Priority:** ${ticket.priority}\n`;
-    transcript += `**Created:** ${new Date(ticket.createdAt).toISOString()}\n`;
-    transcript += `---\n\n`;
-
-    for (const msg of messages) {
-        const author = msg.discordUsername || msg.guestName || 'Unknown';
-        const timestamp = new Date(msg.createdAt).toISOString();
-        const role = msg.isStaffReply ? '[STAFF]' : msg.isSystemMessage ? '[SYSTEM]' : '';
-        transcript += `**${author}** ${role} - ${timestamp}\n${msg.message}\n\n`;
-    }
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL;
 
     // Send as file attachment
-    const buffer = Buffer.from(transcript, 'utf-8');
+    const buffer = Buffer.from(buildTranscriptHtml(transcript), 'utf-8');
 
     await interaction.editReply({
-        content: `📜 Transcript for Ticket #${ticket.id}`,
+        content: `📜 Transcript for Ticket #${ticket.number ?? ticket.id}` +
+            (isUserStaff && baseUrl ? `\nView online: ${baseUrl}/admin/helpdesk/${ticket.id}/transcript` : ''),
         files: [{
             attachment: buffer,
-            name: `ticket-${ticket.id}-transcript.md`,
+            name: `ticket-${ticket.id}-transcript.html`,
         }],
     });
 }
@@ -1228,20 +1317,30 @@ async function changeTicketTopic(interaction: any): Promise<void> {
 
 async function useTag(interaction: any, tagId: number, forUser?: any): Promise<void> {
     const [tag] = await db.select().from(ticketTags).where(eq(ticketTags.id, tagId));
-    if (!tag) {
+    if (!tag || !tag.enabled) {
         await interaction.reply({ content: '❌ Tag not found.', flags: MessageFlags.Ephemeral });
         return;
     }
 
-    await interaction.deferReply({ flags: forUser ? 0 : MessageFlags.Ephemeral });
+    if (tag.staffOnly && !(interaction.guild && await isStaff(interaction.guild.id, interaction.user.id))) {
+        await interaction.reply({ content: '❌ Only staff can use this tag.', flags: MessageFlags.Ephemeral });
+        return;
+    }
 
-    // Increment usage count
-    await db.update(ticketTags).set({ usageCount: (tag.usageCount || 0) + 1 }).where(eq(ticketTags.id, tagId));
+    const ticket = await getTicketFromChannel(interaction.channel.id);
+    const staffName = interaction.member?.displayName || interaction.user.username;
+    const rendered = await renderTicketTag(tagId, ticket || null, staffName);
+    if (!rendered) {
+        await interaction.reply({ content: '❌ This tag is not available for this ticket category.', flags: MessageFlags.Ephemeral });
+        return;
+    }
+
+    await interaction.deferReply({ flags: forUser ? 0 : MessageFlags.Ephemeral });
 
     await interaction.editReply({
         content: forUser?.toString() || undefined,
         allowedMentions: forUser ? { users: [forUser.id] } : undefined,
-        embeds: [new EmbedBuilder().setColor(0x00FFFF).setDescription(tag.content)],
+        embeds: [new EmbedBuilder().setColor(0x00FFFF).setDescription(rendered.content)],
     });
 }
 
@@ -1277,12 +1376,16 @@ async function forceCloseTickets(interaction: any): Promise<void> {
         if (ticket.discordChannelId && discordClient) {
             try {
                 const channel = await discordClient.channels.fetch(ticket.discordChannelId);
-                if (channel) await (channel as TextChannel).delete('Force closed');
+                if (channel) {
+                    await archiveTicketChannel(ticket.id, channel);
+                    await (channel as TextChannel).delete('Force closed');
+                }
             } catch { }
         }
 
         await interaction.editReply({ content: `✅ Ticket #${ticket.number} force closed.` });
         await logTicketEvent('force_close', ticket.id, interaction.user.id, reason);
+        await requestTicketFeedback(ticket.id);
         return;
     }
 
@@ -1320,7 +1423,10 @@ async function forceCloseTickets(interaction: any): Promise<void> {
             if (ticket.discordChannelId && discordClient) {
                 try {
                     const channel = await discordClient.channels.fetch(ticket.discordChannelId);
-                    if (channel) await (channel as TextChannel).delete('Force closed - inactive');
+                    if (channel) {
+                        await archiveTicketChannel(ticket.id, channel);
+                        await (channel as TextChannel).delete('Force closed - inactive');
+                    }
                 } catch { }
             }
         }
@@ -1346,8 +1452,10 @@ async function forceCloseTickets(interaction: any): Promise<void> {
 
     await interaction.editReply({ content: '✅ Ticket force closed. Channel will be deleted.' });
     await logTicketEvent('force_close', ticket.id, interaction.user.id, reason);
+    await requestTicketFeedback(ticket.id);
 
     setTimeout(async () => {
+        await archiveTicketChannel(ticket.id, interaction.channel);
         try { await interaction.channel.delete('Force closed'); } catch { }
     }, 3000);
 }
@@ -1557,6 +1665,95 @@ export async function createTicketPanel(
     });
 }
 
+// ============================================================================
+// LIFECYCLE
+// ============================================================================
+
+/**
+ * Post a message in a ticket's channel mentioning the opener. Used by the
+ * ticket lifecycle cron, which runs outside any interaction.
+ */
+export async function pingTicketOpener(
+    ticket: { discordChannelId: string | null; discordUserId: string | null },
+    message: string
+): Promise<boolean> {
+    if (!ticket.discordChannelId) return false;
+
+    const client = await getDiscordClient();
+    if (!client) return false;
+
+    try {
+        const channel = await client.channels.fetch(ticket.discordChannelId) as TextChannel;
+        if (!channel) return false;
+
+        await channel.send({
+            content: ticket.discordUserId ? `<@${ticket.discordUserId}>` : undefined,
+            embeds: [new EmbedBuilder().setColor(0xFFA500).setDescription(message)],
+        });
+        return true;
+    } catch (error: any) {
+        console.error('Failed to ping ticket opener:', error);
+        return false;
+    }
+}
+
+/**
+ * DM a ticket opener with an optional link button. Fails quietly when the
+ * user has DMs disabled.
+ */
+export async function sendTicketDirectMessage(
+    discordUserId: string,
+    embed: { title: string; description: string },
+    link?: { label: string; url: string }
+): Promise<boolean> {
+    const client = await getDiscordClient();
+    if (!client) return false;
+
+    try {
+        const user = await client.users.fetch(discordUserId);
+        await user.send({
+            embeds: [
+                new EmbedBuilder()
+                    .setColor(0x00FFFF)
+                    .setTitle(embed.title)
+                    .setDescription(embed.description)
+                    .setTimestamp(),
+            ],
+            components: link
+                ? [new ActionRowBuilder<ButtonBuilder>().addComponents(
+                    new ButtonBuilder().setStyle(ButtonStyle.Link).setLabel(link.label).setURL(link.url)
+                )]
+                : [],
+        });
+        return true;
+    } catch (error: any) {
+        console.error(`Failed to DM Discord user ${discordUserId}:`, error.message || error);
+        return false;
+    }
+}
+
+/**
+ * Archive and delete the channel of a ticket that was closed outside Discord
+ */
+export async function deleteTicketChannel(ticketId: number, channelId: string, reason: string): Promise<void> {
+    const client = await getDiscordClient();
+    if (!client) return;
+
+    try {
+        const channel = await client.channels.fetch(channelId);
+        if (!channel) return;
+
+        await archiveTicketChannel(ticketId, channel);
+        await (channel as TextChannel).delete(reason);
+    } catch (error: any) {
+        console.error('Failed to delete ticket channel:', error);
+    }
+
+    if (client.user) {
+        await logTicketEvent('close', ticketId, client.user.id, reason);
+    }
+}
+
 // ============================================================================
 // LOGGING
 // ============================================================================
@@ -1733,8 +1930,14 @@ export async function setupTicketEventHandlers(): Promise<void> {
                     const categories = await db.select().from(ticketCategories).where(eq(ticketCategories.enabled, true));
                     await interaction.respond(categories.map((c: any) => ({ name: c.name, value: c.id })));
                 } else if (focused.name === 'tag') {
-                    const tags = await db.select().from(ticketTags).where(eq(ticketTags.enabled, true));
-                    await interaction.respond(tags.map((t: any) => ({ name: t.name, value: t.id })));
+                    // Only offer tags that apply to this ticket's category
+                    const ticket = await getTicketFromChannel(interaction.channel.id);
+                    const search = String(focused.value || '').toLowerCase();
+                    const tags = await getTagsForCategory(ticket?.categoryId ?? null);
+                    await interaction.respond(tags
+                        .filter((t: any) => t.name.toLowerCase().includes(search))
+                        .slice(0, 25)
+                        .map((t: any) => ({ name: t.name, value: t.id })));
                 } else if (focused.name === 'ticket') {
                     const tickets = await db.select().from(supportTickets).where(eq(supportTickets.status, 'open')).limit(25);
                     await interaction.respond(tickets.map((t: any) => ({ name: `#${t.number} - ${t.subject.substring(0, 50)}`, value: t.id.toString() })));
@@ -1838,6 +2041,15 @@ export async function setupTicketEventHandlers(): Promise<void> {
                                 comment: comment || null,
                                 discordUserId: interaction.user.id,
                             });
+
+                            // Credit the staff member who handled the ticket
+                            const [ratedTicket] = await db.select({ assignedTo: supportTickets.assignedTo, claimedById: supportTickets.claimedById })
+                                .from(supportTickets)
+                                .where(eq(supportTickets.id, data.ticketId));
+                            const staffId = ratedTicket ? getCreditedStaffId(ratedTicket) : null;
+                            if (staffId) {
+                                trackAchievementProgress(staffId, 'five_star_tickets');
+                            }
                         }
 
                         await finallyCloseTicket(interaction, data.ticketId, data.reason);
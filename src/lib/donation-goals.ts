@@ -0,0 +1,215 @@
+/**
+ * Donation Goals
+ *
+ * Funding goals such as "$150 hosting this month". Monthly goals reset on the
+ * 1st; custom goals run between their own start and end dates. Progress is
+ * always summed from `donations` (less anything refunded), never stored, so
+ * refunds and manual donations are reflected straight away.
+ *
+ * processDonation() calls checkGoalMilestones() after each payment to post
+ * 25/50/75/100% announcements to the donation Discord webhook.
+ */
+
+import { db } from '@/db';
+import { donations, donationGoals, type DonationGoal } from '@/db/schema';
+import { and, eq, gte, inArray, lt, sql } from 'drizzle-orm';
+
+export type GoalPeriod = 'monthly' | 'custom';
+
+export interface GoalProgress {
+  id: number;
+  title: string;
+  description: string | null;
+  period: GoalPeriod;
+  targetAmount: number;
+  raised: number;
+  percent: number; // 0-100, capped
+  donationCount: number;
+  startsAt: string;
+  endsAt: string;
+}
+
+export const GOAL_MILESTONES = [25, 50, 75, 100];
+
+// =============================================================================
+// PERIODS
+// =============================================================================
+
+/**
+ * The window a goal counts donations in. Monthly goals use the current
+ * calendar month.
+ */
+export function getGoalPeriod(goal: DonationGoal, now: Date = new Date()): { start: Date; end: Date } {
+  if (goal.period === 'monthly' || !goal.startsAt || !goal.endsAt) {
+    return {
+      start: new Date(now.getFullYear(), now.getMonth(), 1),
+      end: new Date(now.getFullYear(), now.getMonth() + 1, 1),
+    };
+  }
+
+  return { start: new Date(goal.startsAt), end: new Date(goal.endsAt) };
+}
+
+export function isGoalRunning(goal: DonationGoal, now: Date = new Date()): boolean {
+  if (!goal.active) return false;
+  const { start, end } = getGoalPeriod(goal, now);
+  return start <= now && now < end;
+}
+
+// =============================================================================
+// PROGRESS
+// =============================================================================
+
+export async function getGoalProgress(goal: DonationGoal, now: Date = new Date()): Promise<GoalProgress> {
+  const { start, end } = getGoalPeriod(goal, now);
+
+  const [totals] = await db
+    .select({
+      raised: sql<number>`COALESCE(SUM(${donations.amount} - COALESCE(${donations.refundedAmount}, 0)), 0)`,
+      count: sql<number>`COUNT(*)`,
+    })
+    .from(donations)
+    .where(and(
+      // Partly refunded or disputed donations still count for what was kept
+      inArray(donations.status, ['completed', 'refunded', 'disputed']),
+      lt(donations.refundedAmount, donations.amount),
+      gte(donations.createdAt, start),
+      lt(donations.createdAt, end)
+    ));
+
+  const raised = Math.round(Number(totals?.raised || 0) * 100) / 100;
+
+  return {
+    id: goal.id,
+    title: goal.title,
+    description: goal.description,
+    period: goal.period as GoalPeriod,
+    targetAmount: goal.targetAmount,
+    raised,
+    percent: goal.targetAmount > 0 ? Math.min(100, Math.floor((raised / goal.targetAmount) * 100)) : 0,
+    donationCount: Number(totals?.count || 0),
+    startsAt: start.toISOString(),
+    endsAt: end.toISOString(),
+  };
+}
+
+/**
+ * Progress for every goal running right now, for the widgets and public API
+ */
+export async function getActiveGoalProgress(): Promise<GoalProgress[]> {
+  const now = new Date();
+  const goals: DonationGoal[] = await db
+    .select()
+    .from(donationGoals)
+    .where(eq(donationGoals.active, true));
+
+  return Promise.all(
+    goals
+      .filter((goal) => isGoalRunning(goal, now))
+      .map((goal) => getGoalProgress(goal, now))
+  );
+}
+
+// =============================================================================
+// MILESTONES
+// =============================================================================
+
+/**
+ * Announce the highest milestone each running goal has newly passed. Each
+ * milestone is announced once per period. Never throws, so a payment is never
+ * failed by an announcement.
+ */
+export async function checkGoalMilestones(): Promise<void> {
+  try {
+    const now = new Date();
+    const goals: DonationGoal[] = await db
+      .select()
+      .from(donationGoals)
+      .where(and(eq(donationGoals.active, true), eq(donationGoals.announceMilestones, true)));
+
+    for (const goal of goals) {
+      if (!isGoalRunning(goal, now)) continue;
+
+      const { start } = getGoalPeriod(goal, now);
+      const progress = await getGoalProgress(goal, now);
+      const reached = [...GOAL_MILESTONES].reverse().find((milestone) => progress.percent >= milestone) || 0;
+
+      // A new month (or new custom dates) starts the milestones again
+      const samePeriod = goal.milestonePeriodStart
+        && new Date(goal.milestonePeriodStart).getTime() === start.getTime();
+      const lastMilestone = samePeriod ? goal.lastMilestone : 0;
+
+      if (reached <= lastMilestone) continue;
+
+      // Only the request that moves the marker announces it
+      const conditions = [eq(donationGoals.id, goal.id)];
+      if (samePeriod) conditions.push(lt(donationGoals.lastMilestone, reached));
+
+      const updated = await db
+        .update(donationGoals)
+        .set({ lastMilestone: reached, milestonePeriodStart: start })
+        .where(and(...conditions))
+        .returning({ id: donationGoals.id });
+
+      if (updated.length === 0) continue;
+
+      const { sendGoalMilestoneDiscordNotification } = await import('@/lib/discord-notifications');
+      await sendGoalMilestoneDiscordNotification({
+        title: progress.title,
+        milestone: reached,
+        raised: progress.raised,
+        targetAmount: progress.targetAmount,
+        endsAt: progress.endsAt,
+      });
+    }
+  } catch (error: any) {
+    console.error('Error checking donation goal milestones:', error);
+  }
+}
+
+// =============================================================================
+// ADMIN INPUT
+// =============================================================================
+
+/**
+ * Validate a goal from the admin form into column values
+ */
+export function parseDonationGoalInput(body: any): { values?: Record<string, unknown>; error?: string } {
+  const title = typeof body.title === 'string' ? body.title.trim() : '';
+  if (!title) {
+    return { error: 'Goal title is required' };
+  }
+
+  const targetAmount = parseFloat(body.targetAmount);
+  if (isNaN(targetAmount) || targetAmount <= 0) {
+    return { error: 'Target amount must be more than 0' };
+  }
+
+  const period: GoalPeriod = body.period === 'custom' ? 'custom' : 'monthly';
+  let startsAt: Date | null = null;
+  let endsAt: Date | null = null;
+
+  if (period === 'custom') {
+    startsAt = body.startsAt ? new Date(body.startsAt) : null;
+    endsAt = body.endsAt ? new Date(body.endsAt) : null;
+    if (!startsAt || !endsAt || isNaN(startsAt.getTime()) || isNaN(endsAt.getTime())) {
+      return { error: 'Custom goals need a start and end date' };
+    }
+    if (endsAt <= startsAt) {
+      return { error: 'The goal must end after it starts' };
+    }
+  }
+
+  return {
+    values: {
+      title,
+      description: typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null,
+      targetAmount: Math.round(targetAmount * 100) / 100,
+      period,
+      startsAt,
+      endsAt,
+      active: body.active !== false,
+      announceMilestones: body.announceMilestones !== false,
+    },
+  };
+}
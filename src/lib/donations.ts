@@ -3,12 +3,28 @@
  * 
  * Single source of truth for processing donations from any payment provider.
  * Handles: user lookup, rank updates, donation records, Discord notifications, admin alerts.
+ * Gifts are paid for by one user and delivered to another (see rank-gifts.ts).
+ * Refunds and chargebacks are reversed through processDonationReversal().
  */
 
 import { db } from '@/db';
 import { users, donations, donationRanks } from '@/db/schema';
-import { eq, desc } from 'drizzle-orm';
-import { sendAdminDonationAlert } from '@/lib/email';
+import { eq, desc, inArray } from 'drizzle-orm';
+import { sendAdminDonationAlert, sendAdminDonationReversalAlert } from '@/lib/email';
+import { trackAchievementProgress } from '@/lib/achievements';
+import { createNotification } from '@/lib/notifications';
+import { logAudit } from '@/lib/audit-log';
+import { revokeRankDays, restoreRankDays } from '@/lib/rank-subscription';
+import {
+    resolveGiftRecipient,
+    createRankGift,
+    getGiftForDonation,
+    revokeGiftDays,
+    restoreGiftDays,
+    type GiftRecipient,
+} from '@/lib/rank-gifts';
+import { recordPromoCodeUse } from '@/lib/promotions';
+import { checkGoalMilestones } from '@/lib/donation-goals';
 
 export type PaymentMethod = 'stripe' | 'kofi' | 'square';
 export type PaymentType = 'one_time' | 'subscription' | 'subscription_renewal';
@@ -38,6 +54,32 @@ export interface DonationData {
     invoiceId?: string;
     invoiceUrl?: string;
     priceId?: string;
+
+    // Gift purchases: the payer above pays, the rank goes to this player
+    giftRecipient?: string; // Site username or Minecraft name
+    giftMessage?: string;
+
+    // Discounts, already applied to `amount` at checkout
+    promoCode?: string;
+    discountAmount?: number;
+}
+
+export type ReversalKind = 'refund' | 'dispute';
+
+export interface ReversalData {
+    method: PaymentMethod;
+    transactionId: string; // paymentId of the original donation
+    kind: ReversalKind;
+    reversedTotal: number; // Total refunded (or disputed, for a dispute) on the payment so far, not just this event
+    reference?: string; // Provider refund or dispute ID
+}
+
+export interface ReversalResult {
+    success: boolean;
+    donationId?: number;
+    revokedDays?: number;
+    rankRemoved?: boolean;
+    error?: string;
 }
 
 export interface DonationResult {
@@ -45,6 +87,7 @@ export interface DonationResult {
     donationId?: number;
     userId?: number;
     rankAssigned?: string;
+    giftId?: number;
     error?: string;
 }
 
@@ -163,9 +206,24 @@ export async function processDonation(data: DonationData): Promise<DonationResul
             rankName = rank?.name || null;
         }
 
+        // Gifts need a rank to give; buying one for yourself is a normal purchase
+        let giftRecipient: GiftRecipient | null = null;
+        let giftUnresolved = false;
+        if (data.giftRecipient && rankId && days > 0) {
+            giftRecipient = await resolveGiftRecipient(data.giftRecipient);
+            if (!giftRecipient) {
+                // Checked at checkout, so this is a Mojang outage or a since-deleted
+                // account. Hold the gift under the name for an admin to sort out.
+                giftUnresolved = true;
+                giftRecipient = { userId: null, name: data.giftRecipient.trim(), minecraftUuid: null };
+            } else if (giftRecipient.userId && giftRecipient.userId === resolvedUserId) {
+                giftRecipient = null;
+            }
+        }
+
         // Update user's rank and total donated if user found
         if (user && resolvedUserId) {
-            if (rankId && days > 0) {
+            if (rankId && days > 0 && !giftRecipient) {
                 // Rank purchase - extend or set new rank
                 const now = new Date();
                 let expiresAt: Date;
@@ -214,7 +272,7 @@ export async function processDonation(data: DonationData): Promise<DonationResul
                     }
                 }
             } else {
-                // Pure tip - just update total
+                // Pure tip or gift - just update total
                 await db
                     .update(users)
                     .set({
@@ -243,14 +301,66 @@ export async function processDonation(data: DonationData): Promise<DonationResul
             stripeInvoiceId: data.invoiceId || null,
             stripeInvoiceUrl: data.invoiceUrl || null,
             stripePriceId: data.priceId || null,
+            promoCode: data.promoCode || null,
+            discountAmount: data.discountAmount || 0,
             createdAt: new Date(),
         }).returning({ id: donations.id });
 
+        if (data.promoCode) {
+            const counted = await recordPromoCodeUse(data.promoCode, {
+                userId: resolvedUserId,
+                donationId: donation.id,
+            });
+            if (!counted) {
+                await notifyAdmins(
+                    'Promo code over its limit',
+                    `Donation #${donation.id} was paid with ${data.promoCode} after the code reached its usage limit.`
+                );
+            }
+        }
+
+        if (resolvedUserId) {
+            trackAchievementProgress(resolvedUserId, 'donations', 'total_donated');
+        }
+
         // Get donor display name
         const donorName = isGuest
             ? (data.guestName || 'Anonymous')
             : (user?.minecraftUsername || user?.username || 'Unknown');
 
+        let giftId: number | undefined;
+        if (giftRecipient && rankId) {
+            try {
+                const gift = await createRankGift({
+                    donationId: donation.id,
+                    purchaserId: resolvedUserId || null,
+                    purchaserName: donorName,
+                    purchaserEmail: user?.email || data.email || null,
+                    recipient: giftRecipient,
+                    rankId,
+                    rankName: rankName || rankId,
+                    days,
+                    message: data.giftMessage || null,
+                    amount: data.amount,
+                    transactionId: data.transactionId,
+                });
+                giftId = gift.giftId;
+
+                if (giftUnresolved) {
+                    await notifyAdmins(
+                        'Gift recipient not found',
+                        `${donorName} gifted ${rankName || rankId} to "${giftRecipient.name}", who couldn't be found. The gift is on hold.`
+                    );
+                }
+            } catch (giftError: any) {
+                console.error('Failed to create rank gift:', giftError);
+                await notifyAdmins(
+                    'Gift delivery failed',
+                    `${donorName} paid for a gift to "${giftRecipient.name}" but it couldn't be recorded. Please apply the rank manually.`
+                );
+            }
+        }
+
         // Send Discord notification
         try {
             const { sendDonationDiscordNotification } = await import('@/lib/discord-notifications');
@@ -262,19 +372,24 @@ export async function processDonation(data: DonationData): Promise<DonationResul
                 paymentType: data.paymentType,
                 rankName,
                 days: days > 0 ? days : null,
-                message: data.message || (isGuest ? `Guest donation from ${data.guestName}` : null),
+                message: giftRecipient
+                    ? (data.giftMessage || null)
+                    : (data.message || (isGuest ? `Guest donation from ${data.guestName}` : null)),
+                giftedTo: giftRecipient?.name,
             });
             console.log('✅ Sent Discord donation notification');
         } catch (discordError: any) {
             console.error('Failed to send Discord notification:', discordError);
         }
 
+        await checkGoalMilestones();
+
         // Send admin email alert
         try {
             await sendAdminDonationAlert(
                 donorName,
                 data.amount,
-                rankName || undefined
+                rankName ? `${rankName}${giftRecipient ? ` (gift for ${giftRecipient.name})` : ''}` : undefined
             );
             console.log('✅ Sent admin donation alert email');
         } catch (emailError: any) {
@@ -286,6 +401,7 @@ export async function processDonation(data: DonationData): Promise<DonationResul
             donationId: donation.id,
             userId: resolvedUserId,
             rankAssigned: rankName || undefined,
+            giftId,
         };
     } catch (error: any) {
         console.error('Error processing donation:', error);
@@ -295,3 +411,287 @@ export async function processDonation(data: DonationData): Promise<DonationResul
         };
     }
 }
+
+// =============================================================================
+// REFUNDS & CHARGEBACKS
+// =============================================================================
+
+async function notifyAdmins(title: string, message: string) {
+    const admins = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(inArray(users.role, ['admin', 'superadmin']));
+
+    await Promise.all(admins.map((admin: any) => createNotification({
+        userId: admin.id,
+        type: 'warning',
+        title,
+        message,
+        link: '/admin/donations',
+    })));
+}
+
+async function getDonorName(donation: { userId: number | null; minecraftUsername: string | null }) {
+    if (donation.userId) {
+        const [user] = await db
+            .select({ username: users.username })
+            .from(users)
+            .where(eq(users.id, donation.userId))
+            .limit(1);
+        if (user) return user.username as string;
+    }
+    return donation.minecraftUsername || 'Guest';
+}
+
+/**
+ * Reverse a refunded or charged-back donation. Safe to call repeatedly for the
+ * same payment: only the amount not yet reversed is taken off the donor's
+ * total, and rank days are revoked pro-rata to the share of the payment lost.
+ * Refunds and disputes are totalled separately, so either adds to the other.
+ */
+export async function processDonationReversal(data: ReversalData): Promise<ReversalResult> {
+    console.log(`Processing ${data.method} ${data.kind}: $${data.reversedTotal} (tx: ${data.transactionId})`);
+
+    try {
+        const [donation] = await db
+            .select()
+            .from(donations)
+            .where(eq(donations.paymentId, data.transactionId))
+            .limit(1);
+
+        if (!donation) {
+            console.log(`No donation found for ${data.kind}: ${data.transactionId}`);
+            return { success: false, error: 'Donation not found' };
+        }
+
+        const disputedAmount = donation.disputedAmount || 0;
+        const refundsTotal = (donation.refundedAmount || 0) - disputedAmount;
+        const kindTotal = Math.max(data.reversedTotal, 0);
+        const reversedTotal = Math.min(
+            data.kind === 'dispute' ? refundsTotal + kindTotal : kindTotal + disputedAmount,
+            donation.amount
+        );
+        const newlyReversed = reversedTotal - (donation.refundedAmount || 0);
+        // A refund during an open dispute leaves it open, so it can still be settled
+        const status = data.kind === 'dispute' || disputedAmount > 0 ? 'disputed' as const : 'refunded' as const;
+
+        if (newlyReversed <= 0) {
+            if (donation.status !== status) {
+                await db
+                    .update(donations)
+                    .set({ status })
+                    .where(eq(donations.id, donation.id));
+            }
+            console.log(`${data.kind} already processed: ${data.transactionId}`);
+            return { success: true, donationId: donation.id, revokedDays: 0, rankRemoved: false };
+        }
+
+        let revokedDays = 0;
+        let rankRemoved = false;
+
+        if (donation.userId) {
+            const [user] = await db
+                .select({ totalDonated: users.totalDonated })
+                .from(users)
+                .where(eq(users.id, donation.userId))
+                .limit(1);
+
+            if (user) {
+                await db
+                    .update(users)
+                    .set({
+                        totalDonated: Math.max(0, (user.totalDonated || 0) - newlyReversed),
+                        updatedAt: new Date(),
+                    })
+                    .where(eq(users.id, donation.userId));
+            }
+
+        }
+
+        if (donation.rankId && donation.days) {
+            const owedDays = Math.round(donation.days * (reversedTotal / donation.amount)) - (donation.revokedDays || 0);
+            const gift = owedDays > 0 ? await getGiftForDonation(donation.id) : null;
+
+            if (gift) {
+                // Gifted days come back off the recipient, not the buyer
+                const result = await revokeGiftDays(gift, owedDays);
+                if (result.revokedDays > 0) {
+                    revokedDays = result.revokedDays;
+                    rankRemoved = result.removed;
+                }
+            } else if (owedDays > 0 && donation.userId) {
+                const result = await revokeRankDays(donation.userId, donation.rankId, owedDays);
+                if (result.success && result.revokedDays > 0) {
+                    revokedDays = result.revokedDays;
+                    rankRemoved = result.removed;
+                }
+            }
+        }
+
+        await db
+            .update(donations)
+            .set({
+                status,
+                refundedAmount: reversedTotal,
+                revokedDays: (donation.revokedDays || 0) + revokedDays,
+                ...(data.kind === 'dispute' && {
+                    disputedAmount: disputedAmount + newlyReversed,
+                    disputeRevokedDays: (donation.disputeRevokedDays || 0) + revokedDays,
+                }),
+                refundedAt: new Date(),
+            })
+            .where(eq(donations.id, donation.id));
+
+        await logAudit({
+            userId: null,
+            action: data.kind === 'dispute' ? 'dispute_donation' : 'refund_donation',
+            resource: 'donation',
+            resourceId: donation.id,
+            details: {
+                method: data.method,
+                transactionId: data.transactionId,
+                reference: data.reference,
+                amount: newlyReversed,
+                reversedTotal,
+                revokedDays,
+                rankRemoved,
+            },
+        });
+
+        const donorName = await getDonorName(donation);
+        const rankNote = revokedDays > 0
+            ? (rankRemoved ? `Rank removed (${revokedDays} days revoked).` : `${revokedDays} rank days revoked.`)
+            : undefined;
+
+        try {
+            await notifyAdmins(
+                data.kind === 'dispute' ? 'Chargeback opened' : 'Donation refunded',
+                `$${newlyReversed.toFixed(2)} from ${donorName} via ${data.method}.${rankNote ? ` ${rankNote}` : ''}`
+            );
+            await sendAdminDonationReversalAlert(donorName, newlyReversed, data.kind, rankNote);
+        } catch (alertError: any) {
+            console.error('Failed to send refund alerts:', alertError);
+        }
+
+        console.log(`✅ ${data.kind} of $${newlyReversed} applied to donation ${donation.id}`);
+
+        return { success: true, donationId: donation.id, revokedDays, rankRemoved };
+    } catch (error: any) {
+        console.error('Error processing donation reversal:', error);
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error',
+        };
+    }
+}
+
+/**
+ * Settle a chargeback. A won dispute gives back the disputed amount and the
+ * rank days revoked for it, leaving any earlier refunds in place; a lost one
+ * leaves the donation refunded.
+ */
+export async function resolveDonationDispute(
+    transactionId: string,
+    won: boolean,
+    reference?: string
+): Promise<ReversalResult> {
+    try {
+        const [donation] = await db
+            .select()
+            .from(donations)
+            .where(eq(donations.paymentId, transactionId))
+            .limit(1);
+
+        if (!donation || donation.status !== 'disputed') {
+            console.log(`No open dispute for donation: ${transactionId}`);
+            return { success: false, error: 'Disputed donation not found' };
+        }
+
+        const donorName = await getDonorName(donation);
+
+        if (!won) {
+            await db
+                .update(donations)
+                .set({ status: 'refunded', disputedAmount: 0, disputeRevokedDays: 0 })
+                .where(eq(donations.id, donation.id));
+
+            await logAudit({
+                userId: null,
+                action: 'dispute_lost',
+                resource: 'donation',
+                resourceId: donation.id,
+                details: { transactionId, reference, amount: donation.disputedAmount },
+            });
+            await notifyAdmins('Chargeback lost', `The dispute on $${donation.amount.toFixed(2)} from ${donorName} was lost.`);
+
+            return { success: true, donationId: donation.id };
+        }
+
+        const restoredAmount = donation.disputedAmount || 0;
+        const restoredDays = donation.disputeRevokedDays || 0;
+
+        if (donation.userId) {
+            const [user] = await db
+                .select({ totalDonated: users.totalDonated })
+                .from(users)
+                .where(eq(users.id, donation.userId))
+                .limit(1);
+
+            if (user) {
+                await db
+                    .update(users)
+                    .set({
+                        totalDonated: (user.totalDonated || 0) + restoredAmount,
+                        updatedAt: new Date(),
+                    })
+                    .where(eq(users.id, donation.userId));
+            }
+
+        }
+
+        if (donation.rankId && restoredDays > 0) {
+            const gift = await getGiftForDonation(donation.id);
+
+            if (gift) {
+                await restoreGiftDays(gift, restoredDays);
+            } else if (donation.userId) {
+                await restoreRankDays(donation.userId, donation.rankId, restoredDays);
+            }
+        }
+
+        // Genuine refunds made before or during the dispute still stand
+        const refundedAmount = Math.max(0, (donation.refundedAmount || 0) - restoredAmount);
+
+        await db
+            .update(donations)
+            .set({
+                status: refundedAmount > 0 ? 'refunded' : 'completed',
+                refundedAmount,
+                revokedDays: Math.max(0, (donation.revokedDays || 0) - restoredDays),
+                disputedAmount: 0,
+                disputeRevokedDays: 0,
+                refundedAt: refundedAmount > 0 ? donation.refundedAt : null,
+            })
+            .where(eq(donations.id, donation.id));
+
+        await logAudit({
+            userId: null,
+            action: 'dispute_won',
+            resource: 'donation',
+            resourceId: donation.id,
+            details: { transactionId, reference, restoredAmount, restoredDays },
+        });
+        await notifyAdmins(
+            'Chargeback won',
+            `The dispute on $${donation.amount.toFixed(2)} from ${donorName} was won${restoredDays > 0 ? ` and ${restoredDays} rank days were restored` : ''}.`
+        );
+
+        return { success: true, donationId: donation.id };
+    } catch (error: any) {
+        console.error('Error resolving donation dispute:', error);
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error',
+        };
+    }
+}
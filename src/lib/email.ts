@@ -7,6 +7,7 @@ import { db } from '@/db';
 import { siteSettings, users } from '@/db/schema';
 import { eq, like } from 'drizzle-orm';
 import nodemailer from 'nodemailer';
+import { escapeHtml } from '@/lib/sanitize';
 
 // =============================================================================
 // TYPES
@@ -25,6 +26,7 @@ interface SmtpConfig {
   adminNotifyErrors: boolean;
   adminNotifyDonations: boolean;
   adminNotifyRegistrations: boolean;
+  adminNotifyServerAlerts: boolean;
 }
 
 interface EmailTemplate {
@@ -71,6 +73,7 @@ export async function getSmtpConfig(): Promise<SmtpConfig | null> {
       adminNotifyErrors: getValue('smtp_admin_notify_errors') === 'true',
       adminNotifyDonations: getValue('smtp_admin_notify_donations') === 'true',
       adminNotifyRegistrations: getValue('smtp_admin_notify_registrations') === 'true',
+      adminNotifyServerAlerts: getValue('smtp_admin_notify_server_alerts') === 'true',
     };
   } catch (error: any) {
     console.error('Error getting SMTP config:', error);
@@ -283,6 +286,45 @@ export function getFriendRequestEmailTemplate(requesterName: string): EmailTempl
   };
 }
 
+/**
+ * Event reminder (sent shortly before an event the user RSVP'd to)
+ */
+export function getEventReminderEmailTemplate(
+  eventTitle: string,
+  eventId: number,
+  startTime: Date,
+  location?: string | null
+): EmailTemplate {
+  const when = startTime.toUTCString();
+  const content = `
+    <h2 style="color: #ffffff; font-size: 20px; margin: 0 0 16px 0;">
+      📅 ${eventTitle} starts soon
+    </h2>
+    <p style="color: #a0a0a0; font-size: 14px; line-height: 1.6;">
+      You RSVP'd to this event on Vonix Network. Here's your reminder:
+    </p>
+    <div style="background: rgba(139, 92, 246, 0.1); border-left: 3px solid #8b5cf6; padding: 12px 16px; margin: 16px 0;">
+      <p style="color: #ffffff; font-size: 16px; margin: 0 0 8px 0; font-weight: 600;">
+        ${eventTitle}
+      </p>
+      <p style="color: #a0a0a0; font-size: 14px; margin: 0;">
+        🕐 ${when}${location ? `<br>📍 ${location}` : ''}
+      </p>
+    </div>
+    <div style="text-align: center; margin-top: 24px;">
+      <a href="${process.env.NEXT_PUBLIC_APP_URL}/events/${eventId}" style="display: inline-block; padding: 12px 32px; background: linear-gradient(135deg, #00ffff 0%, #8b5cf6 100%); color: #000; font-weight: 600; text-decoration: none; border-radius: 8px;">
+        View Event
+      </a>
+    </div>
+  `;
+
+  return {
+    subject: `📅 Reminder: ${eventTitle} starts soon`,
+    html: getBaseEmailTemplate(content, 'Event Reminder'),
+    text: `Reminder: "${eventTitle}" starts at ${when}${location ? ` (${location})` : ''}. Visit ${process.env.NEXT_PUBLIC_APP_URL}/events/${eventId} for details.`,
+  };
+}
+
 // =============================================================================
 // ADMIN NOTIFICATION EMAILS
 // =============================================================================
@@ -376,6 +418,43 @@ export function getNewDonationAdminEmailTemplate(
   };
 }
 
+/**
+ * Refund or chargeback notification (for admins)
+ */
+export function getDonationReversalAdminEmailTemplate(
+  username: string,
+  amount: number,
+  kind: 'refund' | 'dispute',
+  rankNote?: string
+): EmailTemplate {
+  const title = kind === 'dispute' ? 'Chargeback Opened' : 'Donation Refunded';
+  const content = `
+    <h2 style="color: #ef4444; font-size: 20px; margin: 0 0 16px 0;">
+      ⚠️ ${title}
+    </h2>
+    <div style="background: rgba(239, 68, 68, 0.1); border: 1px solid rgba(239, 68, 68, 0.3); border-radius: 8px; padding: 20px; text-align: center;">
+      <p style="color: #ef4444; font-size: 32px; font-weight: 700; margin: 0;">
+        -$${amount.toFixed(2)}
+      </p>
+      <p style="color: #a0a0a0; font-size: 14px; margin: 8px 0 0 0;">
+        from <strong style="color: #00ffff;">${username}</strong>
+      </p>
+      ${rankNote ? `<p style="color: #a0a0a0; font-size: 14px; margin: 8px 0 0 0;">${rankNote}</p>` : ''}
+    </div>
+    <div style="text-align: center; margin-top: 24px;">
+      <a href="${process.env.NEXT_PUBLIC_APP_URL}/admin/donations" style="display: inline-block; padding: 12px 32px; background: rgba(255,255,255,0.1); color: #ffffff; text-decoration: none; border-radius: 8px; border: 1px solid rgba(255,255,255,0.2);">
+        View Donations
+      </a>
+    </div>
+  `;
+
+  return {
+    subject: `⚠️ ${title}: $${amount.toFixed(2)} from ${username}`,
+    html: getBaseEmailTemplate(content, title),
+    text: `${title}: $${amount.toFixed(2)} from ${username}${rankNote ? `. ${rankNote}` : ''}`,
+  };
+}
+
 /**
  * New user registration notification (for admins)
  */
@@ -419,6 +498,53 @@ export function getNewUserAdminEmailTemplate(
   };
 }
 
+/**
+ * Server resource threshold alert (for admins)
+ */
+export function getServerResourceAlertEmailTemplate(alert: {
+  serverName: string;
+  title: string;
+  description: string;
+  currentPercent: number;
+  usage: string;
+}): EmailTemplate {
+  const content = `
+    <h2 style="color: #f59e0b; font-size: 20px; margin: 0 0 16px 0;">
+      ⚠️ ${escapeHtml(alert.title)}
+    </h2>
+    <div style="background: rgba(245, 158, 11, 0.1); border: 1px solid rgba(245, 158, 11, 0.3); border-radius: 8px; padding: 20px;">
+      <p style="color: #ffffff; font-size: 14px; margin: 0 0 12px 0;">
+        ${escapeHtml(alert.description)}
+      </p>
+      <table style="width: 100%; font-size: 14px;">
+        <tr>
+          <td style="color: #666; padding: 4px 0;">Server:</td>
+          <td style="color: #00ffff; padding: 4px 0; font-weight: 600;">${escapeHtml(alert.serverName)}</td>
+        </tr>
+        <tr>
+          <td style="color: #666; padding: 4px 0;">Current usage:</td>
+          <td style="color: #a0a0a0; padding: 4px 0;">${alert.currentPercent.toFixed(1)}% (${escapeHtml(alert.usage)})</td>
+        </tr>
+        <tr>
+          <td style="color: #666; padding: 4px 0;">Detected:</td>
+          <td style="color: #a0a0a0; padding: 4px 0;">${new Date().toLocaleString()}</td>
+        </tr>
+      </table>
+    </div>
+    <div style="text-align: center; margin-top: 24px;">
+      <a href="${process.env.NEXT_PUBLIC_APP_URL}/admin/pterodactyl" style="display: inline-block; padding: 12px 32px; background: rgba(255,255,255,0.1); color: #ffffff; text-decoration: none; border-radius: 8px; border: 1px solid rgba(255,255,255,0.2);">
+        View Resource History
+      </a>
+    </div>
+  `;
+
+  return {
+    subject: `⚠️ ${alert.serverName}: ${alert.title}`,
+    html: getBaseEmailTemplate(content, 'Server Alert'),
+    text: `${alert.title} on ${alert.serverName}\n\n${alert.description}\nCurrent usage: ${alert.currentPercent.toFixed(1)}% (${alert.usage})`,
+  };
+}
+
 // =============================================================================
 // HIGH-LEVEL NOTIFICATION FUNCTIONS
 // =============================================================================
@@ -473,6 +599,29 @@ export async function sendAdminDonationAlert(
   }
 }
 
+/**
+ * Send admin refund/chargeback notification
+ */
+export async function sendAdminDonationReversalAlert(
+  username: string,
+  amount: number,
+  kind: 'refund' | 'dispute',
+  rankNote?: string
+): Promise<boolean> {
+  try {
+    const config = await getSmtpConfig();
+    if (!config || !config.adminNotifyDonations || !config.adminNotifyEmail) {
+      return false;
+    }
+
+    const template = getDonationReversalAdminEmailTemplate(username, amount, kind, rankNote);
+    return await sendEmail(config.adminNotifyEmail, template);
+  } catch (error: any) {
+    console.error('Error sending admin refund alert:', error);
+    return false;
+  }
+}
+
 /**
  * Send admin new user notification
  */
@@ -494,12 +643,32 @@ export async function sendAdminNewUserAlert(
   }
 }
 
+/**
+ * Send admin server resource alert
+ */
+export async function sendAdminServerResourceAlert(
+  alert: Parameters<typeof getServerResourceAlertEmailTemplate>[0]
+): Promise<boolean> {
+  try {
+    const config = await getSmtpConfig();
+    if (!config || !config.adminNotifyServerAlerts || !config.adminNotifyEmail) {
+      return false;
+    }
+
+    const template = getServerResourceAlertEmailTemplate(alert);
+    return await sendEmail(config.adminNotifyEmail, template);
+  } catch (error: any) {
+    console.error('Error sending admin server alert:', error);
+    return false;
+  }
+}
+
 /**
  * Send user notification email (checks user preferences)
  */
 export async function sendUserNotificationEmail(
   userId: number,
-  notificationType: 'message' | 'forum_reply' | 'friend_request',
+  notificationType: 'message' | 'forum_reply' | 'friend_request' | 'event_reminder',
   template: EmailTemplate
 ): Promise<boolean> {
   try {
@@ -538,8 +707,9 @@ export function getDonationReceiptEmailTemplate(options: {
   days?: number;
   paymentId?: string;
   orderId?: string;
+  giftRecipient?: string;
 }): EmailTemplate {
-  const { username, amount, rankName, days, paymentId, orderId } = options;
+  const { username, amount, rankName, days, paymentId, orderId, giftRecipient } = options;
 
   const content = `
     <h2 style="color: #22c55e; font-size: 20px; margin: 0 0 16px 0;">
@@ -554,7 +724,7 @@ export function getDonationReceiptEmailTemplate(options: {
       </p>
       ${rankName && rankName !== 'one-time' ? `
       <p style="color: #8b5cf6; font-size: 16px; margin: 8px 0 0 0;">
-        👑 ${rankName} Rank${days ? ` - ${days} days` : ''}
+        👑 ${rankName} Rank${days ? ` - ${days} days` : ''}${giftRecipient ? ` for ${giftRecipient}` : ''}
       </p>
       ` : ''}
     </div>
@@ -581,7 +751,9 @@ export function getDonationReceiptEmailTemplate(options: {
       ` : ''}
     </table>
     <p style="color: #a0a0a0; font-size: 14px; line-height: 1.6;">
-      Your rank has been automatically applied to your account. You can check your rank status in your <a href="${process.env.NEXT_PUBLIC_APP_URL || 'https://vonix.network'}/settings" style="color: #00ffff; text-decoration: none;">account settings</a>.
+      ${giftRecipient
+        ? `This rank is a gift for <strong style="color: #00ffff;">${giftRecipient}</strong>. We've let them know it's from you.`
+        : `Your rank has been automatically applied to your account. You can check your rank status in your <a href="${process.env.NEXT_PUBLIC_APP_URL || 'https://vonix.network'}/settings" style="color: #00ffff; text-decoration: none;">account settings</a>.`}
     </p>
     <div style="text-align: center; margin-top: 24px;">
       <a href="${process.env.NEXT_PUBLIC_APP_URL || 'https://vonix.network'}/donate" style="display: inline-block; padding: 12px 32px; background: linear-gradient(135deg, #00ffff 0%, #8b5cf6 100%); color: #000; font-weight: 600; text-decoration: none; border-radius: 8px;">
@@ -597,7 +769,7 @@ export function getDonationReceiptEmailTemplate(options: {
   return {
     subject: `🎉 Thank you for your $${amount.toFixed(2)} donation!`,
     html: getBaseEmailTemplate(content, 'Donation Receipt'),
-    text: `Thank you for your $${amount.toFixed(2)} donation to Vonix Network!${rankName ? ` You received the ${rankName} rank for ${days || 30} days.` : ''} Transaction ID: ${paymentId || orderId || 'N/A'}`,
+    text: `Thank you for your $${amount.toFixed(2)} donation to Vonix Network!${rankName ? (giftRecipient ? ` You gifted the ${rankName} rank for ${days || 30} days to ${giftRecipient}.` : ` You received the ${rankName} rank for ${days || 30} days.`) : ''} Transaction ID: ${paymentId || orderId || 'N/A'}`,
   };
 }
 
@@ -612,6 +784,7 @@ export async function sendDonationReceiptEmail(options: {
   days?: number;
   paymentId?: string;
   orderId?: string;
+  giftRecipient?: string;
 }): Promise<boolean> {
   try {
     const { to, ...templateOptions } = options;
@@ -623,6 +796,72 @@ export async function sendDonationReceiptEmail(options: {
   }
 }
 
+// =============================================================================
+// RANK GIFT EMAIL
+// =============================================================================
+
+/**
+ * Rank gift email template (for the player who received the gift)
+ */
+export function getRankGiftEmailTemplate(options: {
+  recipientName: string;
+  purchaserName: string;
+  rankName: string;
+  days: number;
+  message?: string | null;
+}): EmailTemplate {
+  const { recipientName, purchaserName, rankName, days, message } = options;
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://vonix.network';
+
+  const content = `
+    <h2 style="color: #8b5cf6; font-size: 20px; margin: 0 0 16px 0;">
+      🎁 You Received a Gift!
+    </h2>
+    <p style="color: #a0a0a0; font-size: 14px; line-height: 1.6;">
+      Hey <strong style="color: #00ffff;">${recipientName}</strong>, <strong style="color: #00ffff;">${purchaserName}</strong> gifted you a rank on Vonix Network!
+    </p>
+    <div style="background: rgba(139, 92, 246, 0.1); border: 1px solid rgba(139, 92, 246, 0.3); border-radius: 8px; padding: 20px; text-align: center; margin: 24px 0;">
+      <p style="color: #8b5cf6; font-size: 24px; font-weight: 700; margin: 0;">
+        👑 ${rankName}
+      </p>
+      <p style="color: #a0a0a0; font-size: 14px; margin: 8px 0 0 0;">
+        ${days} days
+      </p>
+    </div>
+    ${message ? `
+    <div style="background: rgba(255,255,255,0.05); border-radius: 8px; padding: 16px; margin: 16px 0;">
+      <p style="color: #666; font-size: 12px; margin: 0 0 8px 0;">Message from ${purchaserName}:</p>
+      <p style="color: #a0a0a0; font-size: 14px; line-height: 1.6; margin: 0;">${escapeHtml(message)}</p>
+    </div>
+    ` : ''}
+    <p style="color: #a0a0a0; font-size: 14px; line-height: 1.6;">
+      The rank has been applied to your account. You can check your rank status in your <a href="${appUrl}/settings" style="color: #00ffff; text-decoration: none;">account settings</a>.
+    </p>
+  `;
+
+  return {
+    subject: `🎁 ${purchaserName} gifted you ${rankName}!`,
+    html: getBaseEmailTemplate(content, 'Rank Gift'),
+    text: `${purchaserName} gifted you the ${rankName} rank for ${days} days on Vonix Network!${message ? ` Their message: ${message}` : ''}`,
+  };
+}
+
+/**
+ * Send rank gift email to the recipient
+ */
+export async function sendRankGiftEmail(
+  to: string,
+  options: Parameters<typeof getRankGiftEmailTemplate>[0]
+): Promise<boolean> {
+  try {
+    const template = getRankGiftEmailTemplate(options);
+    return await sendEmail(to, template);
+  } catch (error: any) {
+    console.error('Error sending rank gift email:', error);
+    return false;
+  }
+}
+
 // =============================================================================
 // TICKET ACCESS EMAIL
 // =============================================================================
@@ -749,6 +988,63 @@ export async function sendTicketReplyEmail(
   }
 }
 
+/**
+ * Ticket satisfaction survey email template
+ */
+export function getTicketFeedbackEmailTemplate(
+  name: string,
+  ticketId: number,
+  feedbackToken: string
+): EmailTemplate {
+  const feedbackUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'https://vonix.network'}/helpdesk/feedback?token=${feedbackToken}`;
+
+  const stars = [1, 2, 3, 4, 5].map((rating) => `
+        <a href="${feedbackUrl}&rating=${rating}" style="display: inline-block; margin: 0 4px; padding: 10px 14px; background: rgba(0, 255, 255, 0.1); border: 1px solid rgba(0, 255, 255, 0.3); border-radius: 8px; color: #ffd700; font-size: 18px; text-decoration: none;">
+          ${'★'.repeat(rating)}
+        </a>`).join('');
+
+  const content = `
+    <h2 style="color: #00ffff; font-size: 20px; margin: 0 0 16px 0;">
+      ⭐ How Did We Do?
+    </h2>
+    <p style="color: #a0a0a0; font-size: 14px; line-height: 1.6;">
+      Hey <strong style="color: #00ffff;">${name}</strong>, your support ticket #${ticketId} has been closed.
+      We'd love to hear how our support team did - it only takes a second.
+    </p>
+    <div style="text-align: center; margin: 24px 0;">
+      ${stars}
+    </div>
+    <p style="color: #666; font-size: 12px; line-height: 1.6;">
+      If the buttons don't work, copy and paste this URL into your browser:<br>
+      <a href="${feedbackUrl}" style="color: #00ffff; word-break: break-all;">${feedbackUrl}</a>
+    </p>
+  `;
+
+  return {
+    subject: `⭐ Rate Your Support Experience - Ticket #${ticketId}`,
+    html: getBaseEmailTemplate(content, 'Support Feedback'),
+    text: `Your ticket #${ticketId} has been closed. Let us know how we did: ${feedbackUrl}`,
+  };
+}
+
+/**
+ * Send ticket satisfaction survey
+ */
+export async function sendTicketFeedbackEmail(
+  email: string,
+  name: string,
+  ticketId: number,
+  feedbackToken: string
+): Promise<boolean> {
+  try {
+    const template = getTicketFeedbackEmailTemplate(name, ticketId, feedbackToken);
+    return await sendEmail(email, template);
+  } catch (error: any) {
+    console.error('Error sending ticket feedback email:', error);
+    return false;
+  }
+}
+
 // Export for use in API routes
 export default {
   sendEmail,
@@ -756,14 +1052,20 @@ export default {
   sendAdminErrorAlert,
   sendAdminDonationAlert,
   sendAdminNewUserAlert,
+  sendAdminServerResourceAlert,
   sendUserNotificationEmail,
   sendDonationReceiptEmail,
+  sendRankGiftEmail,
   sendTicketAccessEmail,
   sendTicketReplyEmail,
+  sendTicketFeedbackEmail,
   getNewMessageEmailTemplate,
   getForumReplyEmailTemplate,
   getFriendRequestEmailTemplate,
+  getEventReminderEmailTemplate,
   getDonationReceiptEmailTemplate,
+  getRankGiftEmailTemplate,
   getTicketAccessEmailTemplate,
   getTicketReplyEmailTemplate,
+  getTicketFeedbackEmailTemplate,
 };
@@ -0,0 +1,123 @@
+/**
+ * Community Events
+ *
+ * RSVP helpers shared by the events pages and API, plus the reminder job run
+ * by /api/cron/event-reminders.
+ */
+
+import { db } from '@/db';
+import { events, eventAttendees } from '@/db/schema';
+import { and, eq, gt, inArray, isNull, lte } from 'drizzle-orm';
+import { getSetting } from '@/lib/settings';
+import { createNotification } from '@/lib/notifications';
+import { sendUserNotificationEmail, getEventReminderEmailTemplate } from '@/lib/email';
+
+export const RSVP_STATUSES = ['going', 'interested', 'not_going'] as const;
+export type RsvpStatus = (typeof RSVP_STATUSES)[number];
+
+export interface RsvpCounts {
+  going: number;
+  interested: number;
+  notGoing: number;
+}
+
+// Minutes before an event starts that RSVP'd users get reminded
+const DEFAULT_REMINDER_MINUTES = 60;
+
+/**
+ * RSVP counts for a set of events, keyed by event ID
+ */
+export async function getRsvpCounts(eventIds: number[]): Promise<Record<number, RsvpCounts>> {
+  const counts: Record<number, RsvpCounts> = {};
+  for (const id of eventIds) {
+    counts[id] = { going: 0, interested: 0, notGoing: 0 };
+  }
+
+  if (eventIds.length === 0) return counts;
+
+  const rows = await db
+    .select({ eventId: eventAttendees.eventId, status: eventAttendees.status })
+    .from(eventAttendees)
+    .where(inArray(eventAttendees.eventId, eventIds));
+
+  for (const row of rows) {
+    const count = counts[row.eventId];
+    if (!count) continue;
+    if (row.status === 'going') count.going++;
+    else if (row.status === 'interested') count.interested++;
+    else count.notGoing++;
+  }
+
+  return counts;
+}
+
+/**
+ * A user's RSVP status for a set of events, keyed by event ID
+ */
+export async function getUserRsvps(userId: number, eventIds: number[]): Promise<Record<number, RsvpStatus>> {
+  if (eventIds.length === 0) return {};
+
+  const rows = await db
+    .select({ eventId: eventAttendees.eventId, status: eventAttendees.status })
+    .from(eventAttendees)
+    .where(and(eq(eventAttendees.userId, userId), inArray(eventAttendees.eventId, eventIds)));
+
+  return Object.fromEntries(rows.map((row: any) => [row.eventId, row.status]));
+}
+
+/**
+ * Notify and email everyone who is going or interested in an event that
+ * starts within the reminder window. Each attendee is reminded once.
+ */
+export async function sendEventReminders(): Promise<{ reminded: number; events: number }> {
+  const minutes = parseInt(await getSetting('event_reminder_minutes', String(DEFAULT_REMINDER_MINUTES)));
+  const now = new Date();
+  const windowEnd = new Date(now.getTime() + (isNaN(minutes) ? DEFAULT_REMINDER_MINUTES : minutes) * 60 * 1000);
+
+  const pending = await db
+    .select({
+      attendeeId: eventAttendees.id,
+      userId: eventAttendees.userId,
+      eventId: events.id,
+      title: events.title,
+      location: events.location,
+      startTime: events.startTime,
+    })
+    .from(eventAttendees)
+    .innerJoin(events, eq(eventAttendees.eventId, events.id))
+    .where(and(
+      inArray(eventAttendees.status, ['going', 'interested']),
+      isNull(eventAttendees.reminderSentAt),
+      gt(events.startTime, now),
+      lte(events.startTime, windowEnd)
+    ));
+
+  const eventIds = new Set<number>();
+
+  for (const row of pending) {
+    eventIds.add(row.eventId);
+    const startsAt = new Date(row.startTime);
+
+    await createNotification({
+      userId: row.userId,
+      type: 'info',
+      title: 'Event Starting Soon',
+      message: `"${row.title}" starts at ${startsAt.toUTCString()}`,
+      link: `/events/${row.eventId}`,
+    });
+
+    // Email in the background - a slow SMTP server shouldn't hold up the job
+    sendUserNotificationEmail(
+      row.userId,
+      'event_reminder',
+      getEventReminderEmailTemplate(row.title, row.eventId, startsAt, row.location)
+    ).catch(err => console.error('Failed to send event reminder email:', err));
+
+    await db
+      .update(eventAttendees)
+      .set({ reminderSentAt: now })
+      .where(eq(eventAttendees.id, row.attendeeId));
+  }
+
+  return { reminded: pending.length, events: eventIds.size };
+}
@@ -0,0 +1,200 @@
+/**
+ * Forum Voting
+ *
+ * One vote per user per post or reply, stored in forum_votes (enforced by a
+ * unique index). Voting the same
+ * way twice removes the vote; voting the other way switches it. Authors earn
+ * website XP for upvotes received, and lose it again if the upvote is taken back,
+ * so toggling a vote on and off can't be used to farm XP.
+ */
+
+import { db } from '@/db';
+import { forumPosts, forumReplies, forumVotes } from '@/db/schema';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { addWebsiteXp, XP_REWARDS } from '@/lib/xp';
+import { trackAchievementProgress } from '@/lib/achievements';
+
+export type VoteType = 'upvote' | 'downvote';
+
+export type VoteTarget = { postId: number; replyId?: undefined } | { replyId: number; postId?: undefined };
+
+export const FORUM_SORTS = ['new', 'top', 'hot'] as const;
+export type ForumSort = (typeof FORUM_SORTS)[number];
+
+// =============================================================================
+// SCORE QUERIES
+// =============================================================================
+
+/**
+ * Net score (upvotes - downvotes) of a forum post, for use in a select
+ */
+export const forumPostScore = sql<number>`(SELECT COALESCE(SUM(CASE WHEN forum_votes.vote_type = 'upvote' THEN 1 ELSE -1 END), 0) FROM forum_votes WHERE forum_votes.post_id = ${forumPosts.id})`;
+
+/**
+ * Net score (upvotes - downvotes) of a forum reply, for use in a select
+ */
+export const forumReplyScore = sql<number>`(SELECT COALESCE(SUM(CASE WHEN forum_votes.vote_type = 'upvote' THEN 1 ELSE -1 END), 0) FROM forum_votes WHERE forum_votes.reply_id = ${forumReplies.id})`;
+
+/**
+ * "Hot" ranking in the style of Hacker News: score decays with age so new
+ * posts with a few votes can outrank old posts with many.
+ */
+export function getHotRank(score: number, createdAt: Date | string): number {
+  const ageHours = (Date.now() - new Date(createdAt).getTime()) / (1000 * 60 * 60);
+  return (score + 1) / Math.pow(Math.max(ageHours, 0) + 2, 1.5);
+}
+
+/**
+ * Sort forum posts by newest, top score or hot rank. Pinned posts stay on top.
+ */
+export function sortForumPosts<T extends { pinned: boolean | null; score: number; createdAt: Date | string }>(
+  posts: T[],
+  sort: ForumSort
+): T[] {
+  const time = (post: T) => new Date(post.createdAt).getTime();
+
+  return [...posts].sort((a, b) => {
+    if (!!a.pinned !== !!b.pinned) return a.pinned ? -1 : 1;
+
+    switch (sort) {
+      case 'top':
+        return b.score - a.score || time(b) - time(a);
+      case 'hot':
+        return getHotRank(b.score, b.createdAt) - getHotRank(a.score, a.createdAt);
+      default:
+        return time(b) - time(a);
+    }
+  });
+}
+
+function targetCondition(target: VoteTarget) {
+  return target.postId !== undefined
+    ? eq(forumVotes.postId, target.postId)
+    : eq(forumVotes.replyId, target.replyId!);
+}
+
+/**
+ * Net score of a single post or reply
+ */
+export async function getVoteScore(target: VoteTarget): Promise<number> {
+  const [result] = await db
+    .select({
+      score: sql<number>`COALESCE(SUM(CASE WHEN ${forumVotes.voteType} = 'upvote' THEN 1 ELSE -1 END), 0)`,
+    })
+    .from(forumVotes)
+    .where(targetCondition(target));
+
+  return Number(result?.score || 0);
+}
+
+/**
+ * The viewer's votes on a post and its replies, so the UI can highlight arrows
+ */
+export async function getUserVotes(
+  userId: number,
+  postId: number,
+  replyIds: number[]
+): Promise<{ post: VoteType | null; replies: Record<number, VoteType> }> {
+  const [postVote] = await db
+    .select({ voteType: forumVotes.voteType })
+    .from(forumVotes)
+    .where(and(eq(forumVotes.userId, userId), eq(forumVotes.postId, postId)));
+
+  const replies: Record<number, VoteType> = {};
+  if (replyIds.length > 0) {
+    const replyVotes = await db
+      .select({ replyId: forumVotes.replyId, voteType: forumVotes.voteType })
+      .from(forumVotes)
+      .where(and(eq(forumVotes.userId, userId), inArray(forumVotes.replyId, replyIds)));
+
+    for (const vote of replyVotes) {
+      if (vote.replyId) replies[vote.replyId] = vote.voteType;
+    }
+  }
+
+  return { post: postVote?.voteType || null, replies };
+}
+
+// =============================================================================
+// DATABASE ACTIONS
+// =============================================================================
+
+/**
+ * Cast, switch or remove a vote. Returns the new score and the voter's
+ * current vote (null if the vote was removed).
+ */
+export async function castForumVote(
+  target: VoteTarget,
+  voterId: number,
+  authorId: number,
+  voteType: VoteType
+): Promise<{ score: number; userVote: VoteType | null }> {
+  const [existing] = await db
+    .select()
+    .from(forumVotes)
+    .where(and(targetCondition(target), eq(forumVotes.userId, voterId)));
+
+  let userVote: VoteType | null;
+  let changed: unknown[];
+
+  // Each write only applies if the vote is still as read above, so parallel
+  // requests from the same user can't both change it (and both move XP)
+  if (existing && existing.voteType === voteType) {
+    changed = await db
+      .delete(forumVotes)
+      .where(and(eq(forumVotes.id, existing.id), eq(forumVotes.voteType, existing.voteType)))
+      .returning({ id: forumVotes.id });
+    userVote = null;
+  } else if (existing) {
+    changed = await db
+      .update(forumVotes)
+      .set({ voteType })
+      .where(and(eq(forumVotes.id, existing.id), eq(forumVotes.voteType, existing.voteType)))
+      .returning({ id: forumVotes.id });
+    userVote = voteType;
+  } else {
+    changed = await db
+      .insert(forumVotes)
+      .values({
+        postId: target.postId ?? null,
+        replyId: target.replyId ?? null,
+        userId: voterId,
+        voteType,
+      })
+      .onConflictDoNothing()
+      .returning({ id: forumVotes.id });
+    userVote = voteType;
+  }
+
+  // Lost the race to another request: report the vote as it now stands
+  if (changed.length === 0) {
+    const [current] = await db
+      .select({ voteType: forumVotes.voteType })
+      .from(forumVotes)
+      .where(and(targetCondition(target), eq(forumVotes.userId, voterId)));
+    return { score: await getVoteScore(target), userVote: current?.voteType ?? null };
+  }
+
+  // Keep the author's XP in step with the upvotes they currently hold
+  const hadUpvote = existing?.voteType === 'upvote';
+  const hasUpvote = userVote === 'upvote';
+  if (hadUpvote !== hasUpvote) {
+    const kind = target.postId !== undefined ? 'post' : 'reply';
+    try {
+      await addWebsiteXp(
+        authorId,
+        hasUpvote ? XP_REWARDS.UPVOTE_RECEIVED : -XP_REWARDS.UPVOTE_RECEIVED,
+        hasUpvote ? 'forum_upvote' : 'forum_upvote_removed',
+        hasUpvote ? `Your forum ${kind} was upvoted` : `An upvote on your forum ${kind} was removed`
+      );
+    } catch (error: any) {
+      console.error('Error awarding upvote XP:', error);
+    }
+
+    if (hasUpvote) {
+      trackAchievementProgress(authorId, 'forum_upvotes');
+    }
+  }
+
+  return { score: await getVoteScore(target), userVote };
+}
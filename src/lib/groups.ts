@@ -0,0 +1,124 @@
+/**
+ * Groups & Guilds
+ *
+ * Membership and permission helpers shared by the /api/groups routes.
+ * Groups have three member roles (owner > admin > member) and three privacy
+ * levels that decide how players get in and who can read the group feed:
+ *
+ * - public:      anyone can join instantly, feed is visible to everyone
+ * - private:     players request to join and an admin approves, feed is members-only
+ * - invite_only: players can only join with an invitation, feed is members-only
+ */
+
+import { db } from '@/db';
+import { groups, groupMembers, groupInvites } from '@/db/schema';
+import { and, eq } from 'drizzle-orm';
+
+export const GROUP_ROLES = ['owner', 'admin', 'member'] as const;
+export const GROUP_PRIVACY = ['public', 'private', 'invite_only'] as const;
+
+export type GroupRole = (typeof GROUP_ROLES)[number];
+export type GroupPrivacy = (typeof GROUP_PRIVACY)[number];
+
+export const GROUP_NAME_MAX_LENGTH = 64;
+export const GROUP_DESCRIPTION_MAX_LENGTH = 1000;
+export const GROUP_POST_MAX_LENGTH = 1000;
+
+const ROLE_RANK: Record<GroupRole, number> = {
+  owner: 3,
+  admin: 2,
+  member: 1,
+};
+
+const SITE_STAFF_ROLES = ['admin', 'superadmin', 'moderator'];
+
+// =============================================================================
+// PERMISSION CHECKS
+// =============================================================================
+
+/**
+ * Whether a site role (users.role) can moderate any group
+ */
+export function isSiteStaff(siteRole: string | undefined | null): boolean {
+  return !!siteRole && SITE_STAFF_ROLES.includes(siteRole);
+}
+
+/**
+ * Whether a group role can edit the group, invite players and handle requests
+ */
+export function canManageGroup(role: GroupRole | null | undefined): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK.admin;
+}
+
+/**
+ * Whether `actorRole` outranks `targetRole` (needed to kick/promote/demote)
+ */
+export function outranks(actorRole: GroupRole, targetRole: GroupRole): boolean {
+  return ROLE_RANK[actorRole] > ROLE_RANK[targetRole];
+}
+
+/**
+ * Whether the group feed and member list can be read by the viewer
+ */
+export function canViewGroupContent(
+  privacy: GroupPrivacy,
+  role: GroupRole | null | undefined,
+  siteRole?: string | null
+): boolean {
+  return privacy === 'public' || !!role || isSiteStaff(siteRole);
+}
+
+// =============================================================================
+// DATABASE ACTIONS
+// =============================================================================
+
+/**
+ * Fetch a group by ID
+ */
+export async function getGroup(groupId: number) {
+  const [group] = await db
+    .select()
+    .from(groups)
+    .where(eq(groups.id, groupId));
+
+  return group || null;
+}
+
+/**
+ * Fetch a user's membership row in a group, or null if they are not a member
+ */
+export async function getMembership(groupId: number, userId: number) {
+  const [membership] = await db
+    .select()
+    .from(groupMembers)
+    .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId)));
+
+  return membership || null;
+}
+
+/**
+ * Fetch a pending invite or join request for a user
+ */
+export async function getPendingInvite(groupId: number, userId: number, type: 'invite' | 'request') {
+  const [invite] = await db
+    .select()
+    .from(groupInvites)
+    .where(and(
+      eq(groupInvites.groupId, groupId),
+      eq(groupInvites.userId, userId),
+      eq(groupInvites.type, type)
+    ));
+
+  return invite || null;
+}
+
+/**
+ * Add a user to a group and clear any invites or join requests they had
+ */
+export async function addGroupMember(groupId: number, userId: number, role: GroupRole = 'member') {
+  await db.insert(groupMembers).values({ groupId, userId, role });
+
+  await db
+    .delete(groupInvites)
+    .where(and(eq(groupInvites.groupId, groupId), eq(groupInvites.userId, userId)));
+}
@@ -0,0 +1,267 @@
+/**
+ * Helpdesk Staff Performance
+ *
+ * Aggregates claims, closures, first responses and satisfaction ratings per
+ * staff member for /admin/helpdesk/stats. Staff act from both the website
+ * (user IDs) and Discord (Discord IDs); Discord IDs are folded into the
+ * linked website account where there is one, so each person appears once.
+ */
+
+import { db } from '@/db';
+import { supportTickets, ticketFeedback, ticketMessages, users } from '@/db/schema';
+import { and, asc, desc, eq, gte, inArray, isNotNull, lte, or, type SQL } from 'drizzle-orm';
+import { getCreditedStaffId } from '@/lib/ticket-feedback';
+import { getUserAvatarUrl } from '@/lib/utils';
+
+export interface StaffPerformance {
+  key: string;
+  userId: number | null;
+  name: string;
+  avatar: string | null;
+  claims: number;
+  closures: number;
+  firstResponses: number;
+  avgFirstResponseMinutes: number | null;
+  ratingsCount: number;
+  avgRating: number | null;
+  fiveStarCount: number;
+}
+
+export interface HelpdeskStats {
+  range: { from: string | null; to: string | null };
+  totals: {
+    opened: number;
+    closed: number;
+    avgFirstResponseMinutes: number | null;
+    ratingsCount: number;
+    avgRating: number | null;
+    ratingDistribution: number[]; // index 0 = 1 star
+  };
+  staff: StaffPerformance[];
+  recentFeedback: {
+    ticketId: number;
+    ticketNumber: number | null;
+    subject: string;
+    rating: number;
+    comment: string | null;
+    staffName: string | null;
+    createdAt: Date;
+  }[];
+}
+
+function inRange(column: any, from: Date | null, to: Date | null): SQL | undefined {
+  const conditions = [
+    from ? gte(column, from) : undefined,
+    to ? lte(column, to) : undefined,
+  ].filter(Boolean) as SQL[];
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Staff performance between two dates (either may be null for open-ended)
+ */
+export async function getHelpdeskStats(from: Date | null, to: Date | null): Promise<HelpdeskStats> {
+  // Tickets touched in the range: opened, claimed or closed
+  const tickets = await db
+    .select()
+    .from(supportTickets)
+    .where(or(
+      inRange(supportTickets.createdAt, from, to) ?? isNotNull(supportTickets.id),
+      and(isNotNull(supportTickets.claimedAt), inRange(supportTickets.claimedAt, from, to)),
+      and(isNotNull(supportTickets.closedAt), inRange(supportTickets.closedAt, from, to))
+    ));
+
+  const feedback = await db
+    .select({
+      ticketId: ticketFeedback.ticketId,
+      rating: ticketFeedback.rating,
+      comment: ticketFeedback.comment,
+      createdAt: ticketFeedback.createdAt,
+    })
+    .from(ticketFeedback)
+    .where(inRange(ticketFeedback.createdAt, from, to))
+    .orderBy(desc(ticketFeedback.createdAt));
+
+  const within = (date: Date | null) => !!date
+    && (!from || new Date(date) >= from)
+    && (!to || new Date(date) <= to);
+
+  const openedTickets = tickets.filter((ticket: any) => within(ticket.createdAt));
+
+  // First human staff message on each ticket opened in range
+  const firstReplies = new Map<number, { userId: number | null; discordUserId: string | null; discordUsername: string | null; createdAt: Date }>();
+  if (openedTickets.length > 0) {
+    const replies = await db
+      .select({
+        ticketId: ticketMessages.ticketId,
+        userId: ticketMessages.userId,
+        discordUserId: ticketMessages.discordUserId,
+        discordUsername: ticketMessages.discordUsername,
+        createdAt: ticketMessages.createdAt,
+      })
+      .from(ticketMessages)
+      .where(and(
+        inArray(ticketMessages.ticketId, openedTickets.map((ticket: any) => ticket.id)),
+        eq(ticketMessages.isStaffReply, true),
+        eq(ticketMessages.isSystemMessage, false)
+      ))
+      .orderBy(asc(ticketMessages.createdAt), asc(ticketMessages.id));
+
+    for (const reply of replies) {
+      if (!firstReplies.has(reply.ticketId)) firstReplies.set(reply.ticketId, reply);
+    }
+  }
+
+  // Fold Discord identities into linked website accounts
+  const discordIds = new Set<string>();
+  for (const ticket of tickets) {
+    if (ticket.claimedByDiscordId) discordIds.add(ticket.claimedByDiscordId);
+    if (ticket.closedByDiscordId) discordIds.add(ticket.closedByDiscordId);
+  }
+  for (const reply of firstReplies.values()) {
+    if (reply.discordUserId) discordIds.add(reply.discordUserId);
+  }
+
+  const linked = discordIds.size > 0
+    ? await db
+      .select({ id: users.id, discordId: users.discordId })
+      .from(users)
+      .where(inArray(users.discordId, [...discordIds]))
+    : [];
+  const userByDiscordId = new Map<string, number>(linked.map((user: any) => [user.discordId, user.id]));
+  const discordNames = new Map<string, string>();
+  for (const reply of firstReplies.values()) {
+    if (reply.discordUserId && reply.discordUsername) discordNames.set(reply.discordUserId, reply.discordUsername);
+  }
+
+  const staffKey = (userId: number | null | undefined, discordId: string | null | undefined): string | null => {
+    if (userId) return `user:${userId}`;
+    if (discordId) {
+      const linkedId = userByDiscordId.get(discordId);
+      return linkedId ? `user:${linkedId}` : `discord:${discordId}`;
+    }
+    return null;
+  };
+
+  const rows = new Map<string, { claims: number; closures: number; responseMinutes: number[]; ratings: number[] }>();
+  const row = (key: string) => {
+    if (!rows.has(key)) rows.set(key, { claims: 0, closures: 0, responseMinutes: [], ratings: [] });
+    return rows.get(key)!;
+  };
+
+  const ticketsById = new Map<number, any>();
+  for (const ticket of tickets) {
+    ticketsById.set(ticket.id, ticket);
+
+    const claimer = staffKey(ticket.claimedById, ticket.claimedByDiscordId);
+    if (claimer && within(ticket.claimedAt)) row(claimer).claims++;
+
+    const closer = staffKey(ticket.closedById, ticket.closedByDiscordId);
+    // Openers closing their own tickets aren't staff closures
+    const closedByOpener = (ticket.closedById && ticket.closedById === ticket.userId)
+      || (ticket.closedByDiscordId && ticket.closedByDiscordId === ticket.discordUserId);
+    if (closer && !closedByOpener && within(ticket.closedAt)) row(closer).closures++;
+  }
+
+  const allResponseMinutes: number[] = [];
+  for (const ticket of openedTickets) {
+    const reply = firstReplies.get(ticket.id);
+    if (!reply) {
+      // Response recorded without a surviving message still counts overall
+      if (ticket.firstResponseAt) {
+        allResponseMinutes.push((new Date(ticket.firstResponseAt).getTime() - new Date(ticket.createdAt).getTime()) / 60000);
+      }
+      continue;
+    }
+    const minutes = (new Date(reply.createdAt).getTime() - new Date(ticket.createdAt).getTime()) / 60000;
+    allResponseMinutes.push(minutes);
+    const responder = staffKey(reply.userId, reply.discordUserId);
+    if (responder) row(responder).responseMinutes.push(minutes);
+  }
+
+  // Ratings may belong to tickets outside the range, so look those up too
+  const missingTicketIds = [...new Set(feedback.map((entry: any) => entry.ticketId))].filter((id) => !ticketsById.has(id as number)) as number[];
+  if (missingTicketIds.length > 0) {
+    const extra = await db.select().from(supportTickets).where(inArray(supportTickets.id, missingTicketIds));
+    for (const ticket of extra) ticketsById.set(ticket.id, ticket);
+  }
+
+  const ratingDistribution = [0, 0, 0, 0, 0];
+  for (const entry of feedback) {
+    ratingDistribution[entry.rating - 1]++;
+    const ticket = ticketsById.get(entry.ticketId);
+    const creditedId = ticket ? getCreditedStaffId(ticket) : null;
+    const credited = creditedId ? `user:${creditedId}` : ticket ? staffKey(null, ticket.claimedByDiscordId) : null;
+    if (credited) row(credited).ratings.push(entry.rating);
+  }
+
+  // Names and avatars for website accounts
+  const userIds = [...rows.keys()].filter((key) => key.startsWith('user:')).map((key) => parseInt(key.slice(5)));
+  const profiles = userIds.length > 0
+    ? await db
+      .select({ id: users.id, username: users.username, avatar: users.avatar, minecraftUsername: users.minecraftUsername })
+      .from(users)
+      .where(inArray(users.id, userIds))
+    : [];
+  const profileById = new Map<number, any>(profiles.map((profile: any) => [profile.id, profile]));
+
+  const describe = (key: string) => {
+    if (key.startsWith('user:')) {
+      const profile = profileById.get(parseInt(key.slice(5)));
+      return {
+        userId: parseInt(key.slice(5)),
+        name: profile?.username || 'Deleted user',
+        avatar: profile?.minecraftUsername ? getUserAvatarUrl(profile.minecraftUsername, profile.avatar, 64) : profile?.avatar || null,
+      };
+    }
+    const discordId = key.slice(8);
+    return { userId: null, name: discordNames.get(discordId) || `Discord user ${discordId.slice(-4)}`, avatar: null };
+  };
+
+  const staff: StaffPerformance[] = [...rows.entries()]
+    .map(([key, stats]) => ({
+      key,
+      ...describe(key),
+      claims: stats.claims,
+      closures: stats.closures,
+      firstResponses: stats.responseMinutes.length,
+      avgFirstResponseMinutes: average(stats.responseMinutes),
+      ratingsCount: stats.ratings.length,
+      avgRating: average(stats.ratings),
+      fiveStarCount: stats.ratings.filter((rating) => rating === 5).length,
+    }))
+    .sort((a, b) => (b.closures + b.firstResponses) - (a.closures + a.firstResponses));
+
+  const nameByKey = new Map(staff.map((member) => [member.key, member.name]));
+
+  return {
+    range: { from: from?.toISOString() || null, to: to?.toISOString() || null },
+    totals: {
+      opened: openedTickets.length,
+      closed: tickets.filter((ticket: any) => within(ticket.closedAt)).length,
+      avgFirstResponseMinutes: average(allResponseMinutes),
+      ratingsCount: feedback.length,
+      avgRating: average(feedback.map((entry: any) => entry.rating)),
+      ratingDistribution,
+    },
+    staff,
+    recentFeedback: feedback.slice(0, 10).map((entry: any) => {
+      const ticket = ticketsById.get(entry.ticketId);
+      const creditedId = ticket ? getCreditedStaffId(ticket) : null;
+      return {
+        ticketId: entry.ticketId,
+        ticketNumber: ticket?.number ?? null,
+        subject: ticket?.subject || 'Deleted ticket',
+        rating: entry.rating,
+        comment: entry.comment,
+        staffName: creditedId ? nameByKey.get(`user:${creditedId}`) || null : null,
+        createdAt: entry.createdAt,
+      };
+    }),
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * iCalendar (RFC 5545) Generation
+ *
+ * Builds .ics files for single events and the subscribable feed of upcoming
+ * events, so players can add server events to Google Calendar, Outlook, etc.
+ */
+
+const PRODUCT_ID = '-//Vonix Network//Events//EN';
+const CALENDAR_NAME = 'Vonix Network Events';
+
+export interface ICalEvent {
+  id: number;
+  title: string;
+  description?: string | null;
+  location?: string | null;
+  startTime: Date | string;
+  endTime?: Date | string | null;
+  createdAt?: Date | string | null;
+}
+
+// =============================================================================
+// FORMATTING
+// =============================================================================
+
+/**
+ * Format a date as a UTC iCalendar timestamp (YYYYMMDDTHHMMSSZ)
+ */
+function formatICalDate(date: Date | string): string {
+  return new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Escape text values per RFC 5545 section 3.3.11
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold lines longer than 75 octets, as required by RFC 5545 section 3.1
+ */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  const limit = () => (parts.length === 0 ? 75 : 74); // continuation lines start with a space
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf8');
+    if (currentBytes + charBytes > limit()) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+// =============================================================================
+// BUILDERS
+// =============================================================================
+
+function buildEvent(event: ICalEvent, baseUrl: string): string[] {
+  const url = `${baseUrl}/events/${event.id}`;
+  const host = new URL(baseUrl).hostname || 'vonix.network';
+  // Events without an end time are shown as lasting an hour
+  const end = event.endTime || new Date(new Date(event.startTime).getTime() + 60 * 60 * 1000);
+  const description = [event.description, url].filter(Boolean).join('\n\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:event-${event.id}@${host}`,
+    `DTSTAMP:${formatICalDate(event.createdAt || new Date())}`,
+    `DTSTART:${formatICalDate(event.startTime)}`,
+    `DTEND:${formatICalDate(end)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `URL:${url}`,
+  ];
+
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Build a complete VCALENDAR document for one or more events
+ */
+export function buildICalendar(events: ICalEvent[], baseUrl: string): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${CALENDAR_NAME}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events.flatMap((event) => buildEvent(event, baseUrl)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,488 @@
+/**
+ * Leaderboards
+ *
+ * Every board is ranked in the database (ORDER BY ... LIMIT) and written to a
+ * snapshot by the refresh-leaderboards cron, so page views only read one page
+ * of pre-ranked rows. A board with no snapshot yet is built on first view.
+ *
+ * Snapshots keep the top LEADERBOARD_SNAPSHOT_SIZE entries. Unregistered
+ * Minecraft players (minecraft_players with no linked account) appear on the
+ * combined XP and playtime boards. The donor board only includes users who
+ * opted in from their settings.
+ */
+
+import { db } from '@/db';
+import {
+  users, servers, serverXp, minecraftPlayers, forumPosts, forumReplies, forumVotes,
+  xpTransactions, donationRanks, leaderboardSnapshots, leaderboardEntries,
+  type LeaderboardSnapshot,
+} from '@/db/schema';
+import { and, asc, desc, eq, gt, gte, inArray, isNotNull, isNull, lt, sql } from 'drizzle-orm';
+
+export type LeaderboardUnit = 'xp' | 'seconds' | 'votes' | 'currency';
+
+export interface LeaderboardBoard {
+  label: string;
+  description: string;
+  unit: LeaderboardUnit;
+  perServer?: boolean; // Ranked separately for each server
+}
+
+export const LEADERBOARD_BOARDS = {
+  xp: { label: 'Total XP', description: 'Website and Minecraft XP combined', unit: 'xp' },
+  playtime: { label: 'Playtime', description: 'Time played across all servers', unit: 'seconds' },
+  'website-xp': { label: 'Website XP', description: 'XP earned on the website', unit: 'xp' },
+  'server-xp': { label: 'Server XP', description: 'XP earned on one server', unit: 'xp', perServer: true },
+  'server-playtime': { label: 'Server Playtime', description: 'Time played on one server', unit: 'seconds', perServer: true },
+  reputation: { label: 'Forum Reputation', description: 'Net votes on forum posts and replies', unit: 'votes' },
+  'weekly-gainers': { label: 'Weekly Gainers', description: 'Most XP earned in the last 7 days', unit: 'xp' },
+  'monthly-gainers': { label: 'Monthly Gainers', description: 'Most XP earned in the last 30 days', unit: 'xp' },
+  donated: { label: 'Top Donors', description: 'Total donated, for donors who opted in', unit: 'currency' },
+} satisfies Record<string, LeaderboardBoard>;
+
+export type LeaderboardBoardId = keyof typeof LEADERBOARD_BOARDS;
+
+// Entries kept per snapshot
+export const LEADERBOARD_SNAPSHOT_SIZE = 1000;
+
+const INSERT_CHUNK_SIZE = 100;
+
+export interface LeaderboardEntry {
+  rank: number;
+  id: number | string; // User ID, or "mc-<id>" for unregistered players
+  username: string;
+  minecraftUsername: string | null;
+  value: number;
+  level: number;
+  role: string | null;
+  title: string | null;
+  avatar: string | null;
+  donationRank: {
+    id: string;
+    name: string;
+    color: string;
+  } | null;
+  isRegistered: boolean;
+}
+
+export interface LeaderboardPage {
+  board: LeaderboardBoardId;
+  serverId: number;
+  entries: LeaderboardEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  refreshedAt: string;
+  me: { rank: number; value: number; page: number } | null;
+}
+
+interface RankedRow {
+  userId: number | null;
+  minecraftPlayerId: number | null;
+  value: number;
+}
+
+export function isLeaderboardBoard(value: string): value is LeaderboardBoardId {
+  return Object.prototype.hasOwnProperty.call(LEADERBOARD_BOARDS, value);
+}
+
+export function isPerServerBoard(board: LeaderboardBoardId): boolean {
+  return 'perServer' in LEADERBOARD_BOARDS[board];
+}
+
+// =============================================================================
+// RANKING
+// =============================================================================
+
+/**
+ * Registered users and unlinked Minecraft players, ranked together
+ */
+function rankWithMinecraftPlayers(registered: any, playerValue: any, limit: number) {
+  const unregistered = db
+    .select({
+      userId: sql<number | null>`NULL`.as('user_id'),
+      minecraftPlayerId: minecraftPlayers.id,
+      value: sql<number>`${playerValue}`.as('value'),
+    })
+    .from(minecraftPlayers)
+    .where(and(isNull(minecraftPlayers.linkedUserId), gt(playerValue, 0)));
+
+  return registered.unionAll(unregistered).orderBy(sql`value desc`).limit(limit);
+}
+
+/**
+ * Top entries of a board, ranked by the database
+ */
+async function rankBoard(board: LeaderboardBoardId, serverId: number, limit: number): Promise<RankedRow[]> {
+  const noPlayer = sql<number | null>`NULL`.as('minecraft_player_id');
+  let rows: any[];
+
+  switch (board) {
+    case 'xp':
+      rows = await rankWithMinecraftPlayers(
+        db
+          .select({ userId: users.id, minecraftPlayerId: noPlayer, value: sql<number>`${users.xp}`.as('value') })
+          .from(users)
+          .where(gt(users.xp, 0)),
+        minecraftPlayers.xp,
+        limit
+      );
+      break;
+
+    case 'playtime': {
+      const playtime = sql<number>`SUM(${serverXp.playtimeSeconds})`;
+      rows = await rankWithMinecraftPlayers(
+        db
+          .select({ userId: serverXp.userId, minecraftPlayerId: noPlayer, value: playtime.as('value') })
+          .from(serverXp)
+          .groupBy(serverXp.userId)
+          .having(gt(playtime, 0)),
+        minecraftPlayers.playtimeSeconds,
+        limit
+      );
+      break;
+    }
+
+    case 'website-xp':
+      rows = await db
+        .select({ userId: users.id, value: users.websiteXp })
+        .from(users)
+        .where(gt(users.websiteXp, 0))
+        .orderBy(desc(users.websiteXp), asc(users.id))
+        .limit(limit);
+      break;
+
+    case 'server-xp':
+      rows = await db
+        .select({ userId: serverXp.userId, value: serverXp.xp })
+        .from(serverXp)
+        .where(and(eq(serverXp.serverId, serverId), gt(serverXp.xp, 0)))
+        .orderBy(desc(serverXp.xp), asc(serverXp.userId))
+        .limit(limit);
+      break;
+
+    case 'server-playtime':
+      rows = await db
+        .select({ userId: serverXp.userId, value: serverXp.playtimeSeconds })
+        .from(serverXp)
+        .where(and(eq(serverXp.serverId, serverId), gt(serverXp.playtimeSeconds, 0)))
+        .orderBy(desc(serverXp.playtimeSeconds), asc(serverXp.userId))
+        .limit(limit);
+      break;
+
+    case 'reputation': {
+      // Votes belong to the author of the post or reply they were cast on
+      const authorId = sql<number>`COALESCE(${forumPosts.authorId}, ${forumReplies.authorId})`;
+      const score = sql<number>`SUM(CASE WHEN ${forumVotes.voteType} = 'upvote' THEN 1 ELSE -1 END)`;
+      rows = await db
+        .select({ userId: authorId.as('user_id'), value: score.as('value') })
+        .from(forumVotes)
+        .leftJoin(forumPosts, eq(forumVotes.postId, forumPosts.id))
+        .leftJoin(forumReplies, eq(forumVotes.replyId, forumReplies.id))
+        // Votes on deleted content have no author left to credit
+        .where(isNotNull(authorId))
+        .groupBy(authorId)
+        .having(gt(score, 0))
+        .orderBy(desc(score))
+        .limit(limit);
+      break;
+    }
+
+    case 'weekly-gainers':
+    case 'monthly-gainers': {
+      const days = board === 'weekly-gainers' ? 7 : 30;
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const gained = sql<number>`SUM(${xpTransactions.amount})`;
+      rows = await db
+        .select({ userId: xpTransactions.userId, value: gained.as('value') })
+        .from(xpTransactions)
+        .where(gte(xpTransactions.createdAt, since))
+        .groupBy(xpTransactions.userId)
+        .having(gt(gained, 0))
+        .orderBy(desc(gained))
+        .limit(limit);
+      break;
+    }
+
+    case 'donated':
+      rows = await db
+        .select({ userId: users.id, value: users.totalDonated })
+        .from(users)
+        .where(and(eq(users.showOnDonorLeaderboard, true), gt(users.totalDonated, 0)))
+        .orderBy(desc(users.totalDonated), asc(users.id))
+        .limit(limit);
+      break;
+  }
+
+  return rows.map((row) => ({
+    userId: row.userId !== null && row.userId !== undefined ? Number(row.userId) : null,
+    minecraftPlayerId: row.minecraftPlayerId !== null && row.minecraftPlayerId !== undefined ? Number(row.minecraftPlayerId) : null,
+    value: Number(row.value || 0),
+  }));
+}
+
+// =============================================================================
+// SNAPSHOTS
+// =============================================================================
+
+/**
+ * Rank a board and store it as the new snapshot, then drop older ones
+ */
+export async function refreshLeaderboard(board: LeaderboardBoardId, serverId: number = 0): Promise<LeaderboardSnapshot> {
+  const scope = isPerServerBoard(board) ? serverId : 0;
+  const rows = await rankBoard(board, scope, LEADERBOARD_SNAPSHOT_SIZE);
+
+  const [snapshot]: LeaderboardSnapshot[] = await db
+    .insert(leaderboardSnapshots)
+    .values({ board, serverId: scope, entryCount: rows.length, complete: false, refreshedAt: new Date() })
+    .returning();
+
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    await db.insert(leaderboardEntries).values(
+      rows.slice(i, i + INSERT_CHUNK_SIZE).map((row, j) => ({
+        snapshotId: snapshot.id,
+        rank: i + j + 1,
+        userId: row.userId,
+        minecraftPlayerId: row.minecraftPlayerId,
+        value: row.value,
+      }))
+    );
+  }
+
+  await db
+    .update(leaderboardSnapshots)
+    .set({ complete: true })
+    .where(eq(leaderboardSnapshots.id, snapshot.id));
+
+  // Earlier snapshots of this board are no longer read
+  const stale: { id: number }[] = await db
+    .select({ id: leaderboardSnapshots.id })
+    .from(leaderboardSnapshots)
+    .where(and(
+      eq(leaderboardSnapshots.board, board),
+      eq(leaderboardSnapshots.serverId, scope),
+      lt(leaderboardSnapshots.id, snapshot.id)
+    ));
+
+  if (stale.length > 0) {
+    const staleIds = stale.map((s) => s.id);
+    await db.delete(leaderboardEntries).where(inArray(leaderboardEntries.snapshotId, staleIds));
+    await db.delete(leaderboardSnapshots).where(inArray(leaderboardSnapshots.id, staleIds));
+  }
+
+  return { ...snapshot, complete: true };
+}
+
+/**
+ * Rebuild every board, including the per-server boards for each server
+ */
+export async function refreshAllLeaderboards(): Promise<{ boards: number; entries: number }> {
+  const serverRows: { id: number }[] = await db.select({ id: servers.id }).from(servers);
+  let boards = 0;
+  let entries = 0;
+
+  for (const board of Object.keys(LEADERBOARD_BOARDS) as LeaderboardBoardId[]) {
+    const scopes = isPerServerBoard(board) ? serverRows.map((s) => s.id) : [0];
+    for (const serverId of scopes) {
+      const snapshot = await refreshLeaderboard(board, serverId);
+      boards++;
+      entries += snapshot.entryCount;
+    }
+  }
+
+  return { boards, entries };
+}
+
+async function getLatestSnapshot(board: LeaderboardBoardId, serverId: number): Promise<LeaderboardSnapshot | null> {
+  const [snapshot] = await db
+    .select()
+    .from(leaderboardSnapshots)
+    .where(and(
+      eq(leaderboardSnapshots.board, board),
+      eq(leaderboardSnapshots.serverId, serverId),
+      eq(leaderboardSnapshots.complete, true)
+    ))
+    .orderBy(desc(leaderboardSnapshots.id))
+    .limit(1);
+
+  return snapshot || null;
+}
+
+// =============================================================================
+// READING
+// =============================================================================
+
+/**
+ * One page of a board from its latest snapshot. Pass viewerId to also get
+ * the viewer's own rank and the page it is on ("find me").
+ */
+export async function getLeaderboardPage(options: {
+  board: LeaderboardBoardId;
+  serverId?: number;
+  page?: number;
+  pageSize?: number;
+  viewerId?: number | null;
+}): Promise<LeaderboardPage> {
+  const { board } = options;
+  const serverId = isPerServerBoard(board) ? options.serverId || 0 : 0;
+  const pageSize = options.pageSize || 25;
+
+  const snapshot = await getLatestSnapshot(board, serverId) || await refreshLeaderboard(board, serverId);
+  const totalPages = Math.max(1, Math.ceil(snapshot.entryCount / pageSize));
+  const page = Math.min(Math.max(1, options.page || 1), totalPages);
+
+  const now = new Date();
+  const rows = await selectSnapshotRows(snapshot.id, pageSize, (page - 1) * pageSize);
+  const entries = rows.map((row) => toLeaderboardEntry(row, now));
+
+  let me: LeaderboardPage['me'] = null;
+  if (options.viewerId) {
+    const [mine] = await db
+      .select({ rank: leaderboardEntries.rank, value: leaderboardEntries.value })
+      .from(leaderboardEntries)
+      .where(and(eq(leaderboardEntries.snapshotId, snapshot.id), eq(leaderboardEntries.userId, options.viewerId)))
+      .limit(1);
+
+    if (mine) {
+      me = { rank: mine.rank, value: Number(mine.value), page: Math.ceil(mine.rank / pageSize) };
+    }
+  }
+
+  return {
+    board,
+    serverId,
+    entries,
+    total: snapshot.entryCount,
+    page,
+    pageSize,
+    totalPages,
+    refreshedAt: new Date(snapshot.refreshedAt).toISOString(),
+    me,
+  };
+}
+
+/**
+ * Rows of a snapshot joined to the user or Minecraft player they rank.
+ * Rows whose user or player has since been deleted are left out.
+ */
+async function selectSnapshotRows(snapshotId: number, limit: number, offset: number): Promise<any[]> {
+  const rows = await db
+    .select({
+      rank: leaderboardEntries.rank,
+      value: leaderboardEntries.value,
+      userId: users.id,
+      username: users.username,
+      minecraftUsername: users.minecraftUsername,
+      level: users.level,
+      role: users.role,
+      title: users.title,
+      avatar: users.avatar,
+      donationRankId: users.donationRankId,
+      rankExpiresAt: users.rankExpiresAt,
+      rankName: donationRanks.name,
+      rankColor: donationRanks.color,
+      xp: users.xp,
+      playerId: minecraftPlayers.id,
+      playerUsername: minecraftPlayers.username,
+      playerLevel: minecraftPlayers.level,
+      playerXp: minecraftPlayers.xp,
+      playerPlaytime: minecraftPlayers.playtimeSeconds,
+    })
+    .from(leaderboardEntries)
+    .leftJoin(users, eq(leaderboardEntries.userId, users.id))
+    .leftJoin(donationRanks, eq(users.donationRankId, donationRanks.id))
+    .leftJoin(minecraftPlayers, eq(leaderboardEntries.minecraftPlayerId, minecraftPlayers.id))
+    .where(eq(leaderboardEntries.snapshotId, snapshotId))
+    .orderBy(asc(leaderboardEntries.rank))
+    .limit(limit)
+    .offset(offset);
+
+  return rows.filter((row: any) => row.userId || row.playerId);
+}
+
+function toLeaderboardEntry(row: any, now: Date): LeaderboardEntry {
+  return row.userId
+    ? {
+      rank: row.rank,
+      id: row.userId,
+      username: row.username,
+      minecraftUsername: row.minecraftUsername,
+      value: Number(row.value),
+      level: Number(row.level || 1),
+      role: row.role,
+      title: row.title,
+      avatar: row.avatar,
+      donationRank: row.donationRankId && row.rankExpiresAt && new Date(row.rankExpiresAt) > now
+        ? { id: row.donationRankId, name: row.rankName, color: row.rankColor }
+        : null,
+      isRegistered: true,
+    }
+    : {
+      rank: row.rank,
+      id: `mc-${row.playerId}`,
+      username: row.playerUsername,
+      minecraftUsername: row.playerUsername,
+      value: Number(row.value),
+      level: Number(row.playerLevel || 1),
+      role: null,
+      title: null,
+      avatar: null,
+      donationRank: null,
+      isRegistered: false,
+    };
+}
+
+export interface LegacyLeaderboardEntry {
+  id: number | string;
+  username: string;
+  minecraftUsername: string | null;
+  xp: number;
+  level: number;
+  role: string | null;
+  title: string | null;
+  avatar: string | null;
+  playtimeSeconds: number;
+  donationRank: LeaderboardEntry['donationRank'];
+  isRegistered: boolean;
+}
+
+/**
+ * The XP or playtime board as a bare array sliced by limit/offset, the shape
+ * /api/leaderboard returned before boards and pages existed. Kept for mods and
+ * bots that still read it.
+ */
+export async function getLegacyLeaderboard(options: {
+  type: 'xp' | 'playtime';
+  limit: number;
+  offset: number;
+}): Promise<LegacyLeaderboardEntry[]> {
+  const board = options.type;
+  const snapshot = await getLatestSnapshot(board, 0) || await refreshLeaderboard(board, 0);
+
+  const now = new Date();
+  const rows = await selectSnapshotRows(snapshot.id, options.limit, options.offset);
+
+  // Entries carry both XP and playtime, so the board's other stat is looked up
+  const userIds = rows.filter((row) => row.userId).map((row) => row.userId as number);
+  const playtimeByUser = new Map<number, number>();
+  if (board === 'xp' && userIds.length > 0) {
+    const playtime: { userId: number; total: number }[] = await db
+      .select({ userId: serverXp.userId, total: sql<number>`SUM(${serverXp.playtimeSeconds})` })
+      .from(serverXp)
+      .where(inArray(serverXp.userId, userIds))
+      .groupBy(serverXp.userId);
+    playtime.forEach((row) => playtimeByUser.set(Number(row.userId), Number(row.total || 0)));
+  }
+
+  return rows.map((row) => {
+    const { rank, value, ...entry } = toLeaderboardEntry(row, now);
+    return {
+      ...entry,
+      xp: board === 'xp' ? value : Number((row.userId ? row.xp : row.playerXp) || 0),
+      playtimeSeconds: board === 'playtime'
+        ? value
+        : (row.userId ? playtimeByUser.get(row.userId) || 0 : Number(row.playerPlaytime || 0)),
+    };
+  });
+}
@@ -5,6 +5,7 @@
 
 import { db } from '@/db';
 import { notifications } from '@/db/schema';
+import { emitNotification } from '@/lib/socket-emit';
 
 // Schema-compliant types
 type NotificationType = 'info' | 'success' | 'warning' | 'error' | 'system' | 'message' | 'friend_request';
@@ -34,6 +35,9 @@ export async function createNotification(params: CreateNotificationParams) {
       })
       .returning();
 
+    // Push to open tabs so the bell updates without waiting for its next poll
+    emitNotification(params.userId, notification);
+
     return notification;
   } catch (error: any) {
     console.error('Error creating notification:', error);
@@ -95,6 +99,16 @@ export async function notifyPostComment(userId: number, commenterName: string, p
   });
 }
 
+export async function notifyCommentReply(userId: number, replierName: string, postId: number) {
+  return createNotification({
+    userId,
+    type: 'info',
+    title: 'New Reply',
+    message: `${replierName} replied to your comment`,
+    link: `/social/post/${postId}`,
+  });
+}
+
 export async function notifyForumReply(userId: number, replierName: string, postId: number) {
   return createNotification({
     userId,
@@ -135,6 +149,26 @@ export async function notifyGroupInvite(userId: number, inviterName: string, gro
   });
 }
 
+export async function notifyGroupJoinRequest(userId: number, requesterName: string, groupId: number, groupName: string) {
+  return createNotification({
+    userId,
+    type: 'info',
+    title: 'Join Request',
+    message: `${requesterName} asked to join "${groupName}"`,
+    link: `/groups/${groupId}`,
+  });
+}
+
+export async function notifyGroupRequestApproved(userId: number, groupId: number, groupName: string) {
+  return createNotification({
+    userId,
+    type: 'success',
+    title: 'Join Request Approved',
+    message: `You are now a member of "${groupName}"`,
+    link: `/groups/${groupId}`,
+  });
+}
+
 export async function notifyAchievement(userId: number, achievementName: string) {
   return createNotification({
     userId,
@@ -0,0 +1,326 @@
+/**
+ * Promotions
+ *
+ * Promo codes and time-boxed sitewide sales for donor ranks. The checkout
+ * routes price rank purchases through quoteRankPurchase() so discounts are
+ * always worked out on the server; processDonation() records the code on the
+ * donation and counts the use.
+ */
+
+import { db } from '@/db';
+import { promoCodes, rankSales, donations, type PromoCode, type RankSale } from '@/db/schema';
+import { and, eq, gte, isNull, lt, lte, ne, or, sql } from 'drizzle-orm';
+import { applyPercentOff, calculateRankPrice, roundPrice } from '@/lib/rank-pricing';
+
+export type DiscountType = 'percent' | 'fixed';
+
+export interface RankQuote {
+  basePrice: number; // Before any discount
+  salePrice: number; // After the sale, before the promo code
+  amount: number; // What the player pays
+  discountAmount: number;
+  sale: { id: number; name: string; percentOff: number } | null;
+  promoCode: string | null;
+}
+
+// Card processors won't charge less than this
+const MIN_CHARGE = 0.5;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export function normalizePromoCode(code: unknown): string {
+  return typeof code === 'string' ? code.trim().toUpperCase() : '';
+}
+
+/**
+ * Read a stored rank restriction. null means every rank.
+ */
+export function parseRankIds(value: string | null): string[] | null {
+  if (!value) return null;
+  try {
+    const ids = JSON.parse(value);
+    return Array.isArray(ids) && ids.length > 0 ? ids.map(String) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store a rank restriction; an empty list means every rank
+ */
+export function serializeRankIds(ids: unknown): string | null {
+  if (!Array.isArray(ids)) return null;
+  const clean = ids.filter((id): id is string => typeof id === 'string' && id.length > 0);
+  return clean.length > 0 ? JSON.stringify(clean) : null;
+}
+
+function appliesToRank(rankIds: string | null, rankId: string): boolean {
+  const ids = parseRankIds(rankIds);
+  return !ids || ids.includes(rankId);
+}
+
+// =============================================================================
+// SALES
+// =============================================================================
+
+/**
+ * Sales running right now
+ */
+export async function getActiveSales(now: Date = new Date()): Promise<RankSale[]> {
+  return db
+    .select()
+    .from(rankSales)
+    .where(and(
+      eq(rankSales.active, true),
+      lte(rankSales.startsAt, now),
+      gte(rankSales.endsAt, now)
+    ));
+}
+
+/**
+ * The biggest sale covering a rank, if any. Sales don't stack with each other.
+ */
+export function findSaleForRank(sales: RankSale[], rankId: string): RankSale | null {
+  return sales
+    .filter((sale) => appliesToRank(sale.rankIds, rankId))
+    .sort((a, b) => b.percentOff - a.percentOff)[0] || null;
+}
+
+// =============================================================================
+// PROMO CODES
+// =============================================================================
+
+/**
+ * Check a promo code can be used by this player on this rank. Checkouts run
+ * in parallel, so recordPromoCodeUse() checks the limits again when it counts
+ * the use.
+ */
+export async function validatePromoCode(
+  code: unknown,
+  { userId, rankId }: { userId: number; rankId: string }
+): Promise<{ promo?: PromoCode; error?: string }> {
+  const normalized = normalizePromoCode(code);
+  if (!normalized) {
+    return { error: 'Enter a promo code' };
+  }
+
+  const [promo] = await db
+    .select()
+    .from(promoCodes)
+    .where(eq(promoCodes.code, normalized))
+    .limit(1);
+
+  if (!promo || !promo.active) {
+    return { error: 'This promo code is not valid' };
+  }
+  if (promo.expiresAt && new Date(promo.expiresAt) < new Date()) {
+    return { error: 'This promo code has expired' };
+  }
+  if (promo.maxUses !== null && promo.usedCount >= promo.maxUses) {
+    return { error: 'This promo code has been used up' };
+  }
+  if (!appliesToRank(promo.rankIds, rankId)) {
+    return { error: "This promo code can't be used on this rank" };
+  }
+
+  if (promo.maxUsesPerUser !== null) {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(donations)
+      .where(and(
+        eq(donations.promoCode, promo.code),
+        eq(donations.userId, userId),
+        ne(donations.status, 'failed')
+      ));
+
+    if (Number(count) >= promo.maxUsesPerUser) {
+      return { error: "You've already used this promo code" };
+    }
+  }
+
+  return { promo };
+}
+
+function applyPromoCode(promo: PromoCode, price: number): number {
+  return promo.discountType === 'percent'
+    ? applyPercentOff(price, promo.discountValue)
+    : roundPrice(price - promo.discountValue);
+}
+
+/**
+ * Count a promo code as used once its payment has gone through. The use is
+ * only counted while the code is under its total and per-player limits,
+ * checked in the same update so parallel payments can't both take the last
+ * use. Returns false if the payment went over a limit (or wasn't counted).
+ */
+export async function recordPromoCodeUse(
+  code: string,
+  { userId, donationId }: { userId?: number | null; donationId: number }
+): Promise<boolean> {
+  const normalized = normalizePromoCode(code);
+
+  try {
+    // Earlier uses by this player, not counting the donation being recorded
+    const earlierUses = sql`(
+      select count(*) from ${donations}
+      where ${donations.promoCode} = ${promoCodes.code}
+        and ${donations.userId} = ${userId ?? null}
+        and ${donations.status} <> 'failed'
+        and ${donations.id} <> ${donationId}
+    )`;
+
+    const counted = await db
+      .update(promoCodes)
+      .set({ usedCount: sql`${promoCodes.usedCount} + 1` })
+      .where(and(
+        eq(promoCodes.code, normalized),
+        or(isNull(promoCodes.maxUses), lt(promoCodes.usedCount, promoCodes.maxUses)),
+        userId
+          ? or(isNull(promoCodes.maxUsesPerUser), sql`${earlierUses} < ${promoCodes.maxUsesPerUser}`)
+          : undefined
+      ))
+      .returning({ id: promoCodes.id });
+
+    if (counted.length === 0) {
+      console.warn(`Promo code ${normalized} was over its limit when donation ${donationId} was paid`);
+      return false;
+    }
+    return true;
+  } catch (error: any) {
+    console.error('Failed to record promo code use:', error);
+    return false;
+  }
+}
+
+// =============================================================================
+// ADMIN INPUT
+// =============================================================================
+
+const PROMO_CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+function optionalPositiveInt(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = parseInt(String(value), 10);
+  return isNaN(parsed) || parsed < 1 ? null : parsed;
+}
+
+function optionalDate(value: unknown): Date | null {
+  if (!value) return null;
+  const parsed = new Date(String(value));
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/**
+ * Validate a promo code from the admin form into column values
+ */
+export function parsePromoCodeInput(body: any): { values?: Record<string, unknown>; error?: string } {
+  const code = normalizePromoCode(body.code);
+  if (!PROMO_CODE_PATTERN.test(code)) {
+    return { error: 'Codes must be 3-32 letters, numbers, dashes or underscores' };
+  }
+
+  const discountType: DiscountType = body.discountType === 'fixed' ? 'fixed' : 'percent';
+  const discountValue = parseFloat(body.discountValue);
+  if (isNaN(discountValue) || discountValue <= 0 || (discountType === 'percent' && discountValue > 100)) {
+    return { error: discountType === 'percent' ? 'Percent off must be between 0 and 100' : 'Amount off must be more than 0' };
+  }
+
+  return {
+    values: {
+      code,
+      description: typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null,
+      discountType,
+      discountValue: roundPrice(discountValue),
+      rankIds: serializeRankIds(body.rankIds),
+      maxUses: optionalPositiveInt(body.maxUses),
+      maxUsesPerUser: optionalPositiveInt(body.maxUsesPerUser),
+      expiresAt: optionalDate(body.expiresAt),
+      active: body.active !== false,
+    },
+  };
+}
+
+/**
+ * Validate a sale from the admin form into column values
+ */
+export function parseRankSaleInput(body: any): { values?: Record<string, unknown>; error?: string } {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    return { error: 'Sale name is required' };
+  }
+
+  const percentOff = parseFloat(body.percentOff);
+  if (isNaN(percentOff) || percentOff <= 0 || percentOff >= 100) {
+    return { error: 'Percent off must be between 0 and 100' };
+  }
+
+  const startsAt = optionalDate(body.startsAt);
+  const endsAt = optionalDate(body.endsAt);
+  if (!startsAt || !endsAt) {
+    return { error: 'Start and end times are required' };
+  }
+  if (endsAt <= startsAt) {
+    return { error: 'The sale must end after it starts' };
+  }
+
+  return {
+    values: {
+      name,
+      percentOff: roundPrice(percentOff),
+      rankIds: serializeRankIds(body.rankIds),
+      startsAt,
+      endsAt,
+      active: body.active !== false,
+    },
+  };
+}
+
+// =============================================================================
+// PRICING
+// =============================================================================
+
+/**
+ * What a player pays for a rank: the duration price, less the best running
+ * sale, less their promo code (applied to the sale price).
+ */
+export async function quoteRankPurchase({
+  rank,
+  days,
+  userId,
+  promoCode,
+}: {
+  rank: { id: string; minAmount: number };
+  days: number;
+  userId: number;
+  promoCode?: unknown;
+}): Promise<{ quote?: RankQuote; error?: string }> {
+  const basePrice = calculateRankPrice(rank.minAmount || 5, days);
+  const sale = findSaleForRank(await getActiveSales(), rank.id);
+  const salePrice = sale ? applyPercentOff(basePrice, sale.percentOff) : basePrice;
+
+  let amount = salePrice;
+  let code: string | null = null;
+
+  if (normalizePromoCode(promoCode)) {
+    const { promo, error } = await validatePromoCode(promoCode, { userId, rankId: rank.id });
+    if (!promo) return { error };
+
+    amount = applyPromoCode(promo, salePrice);
+    code = promo.code;
+  }
+
+  amount = Math.max(amount, Math.min(MIN_CHARGE, basePrice));
+
+  return {
+    quote: {
+      basePrice,
+      salePrice,
+      amount,
+      discountAmount: roundPrice(basePrice - amount),
+      sale: sale ? { id: sale.id, name: sale.name, percentOff: sale.percentOff } : null,
+      promoCode: code,
+    },
+  };
+}
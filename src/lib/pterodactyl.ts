@@ -3,28 +3,47 @@
  * 
  * Provides utilities for interacting with Pterodactyl panel's Application API
  * to manage Minecraft servers from the admin dashboard.
+ *
+ * Several panels can be connected (pterodactyl_panels), e.g. one per host.
+ * Routes find the right one for a server with getPanelForServer().
  */
 
 import { db } from '@/db';
-import { siteSettings } from '@/db/schema';
-import { eq } from 'drizzle-orm';
+import { pterodactylPanels, servers, siteSettings } from '@/db/schema';
+import { and, asc, desc, eq, inArray, isNotNull } from 'drizzle-orm';
+import { validateCronFields } from '@/lib/cron-expression';
 
 export interface PterodactylConfig {
     panelUrl: string;
     apiKey: string;
 }
 
-// Cache config for 5 minutes (it rarely changes during a session)
-let pterodactylConfigCache: PterodactylConfig | null = null;
+// A saved panel connection (a row in pterodactyl_panels)
+export interface PterodactylPanelConfig extends PterodactylConfig {
+    id: number;
+    name: string;
+}
+
+// Cache panels for 5 minutes (they rarely change during a session)
+let pterodactylPanelCache: PterodactylPanelConfig[] | null = null;
 let configCacheTimestamp = 0;
 const CONFIG_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
+// Which panel hosts each server identifier, learned from the panels' server lists
+let serverPanelCache = new Map<string, number>();
+let serverPanelCacheTimestamp = 0;
+
+// Site settings used before multi-panel support, imported as the first panel at startup
+const LEGACY_SETTING_KEYS = ['pterodactyl_panel_url', 'pterodactyl_api_key'];
+
 /**
- * Clear the Pterodactyl config cache (call when config is updated)
+ * Clear the Pterodactyl config cache (call when panels are updated)
  */
 export function clearPterodactylConfigCache(): void {
-    pterodactylConfigCache = null;
+    pterodactylPanelCache = null;
     configCacheTimestamp = 0;
+    serverPanelCache = new Map();
+    serverPanelCacheTimestamp = 0;
 }
 
 export interface ServerResources {
@@ -64,90 +83,211 @@ export interface ServerDetails {
 
 export type PowerAction = 'start' | 'stop' | 'restart' | 'kill';
 
+export type ScheduleTaskAction = 'command' | 'power' | 'backup';
+
+export interface ScheduleTask {
+    id: number;
+    sequenceId: number;
+    action: ScheduleTaskAction;
+    payload: string; // Command, power signal, or ignored files for backups
+    timeOffset: number; // Seconds after the previous task
+    continueOnFailure: boolean;
+    isQueued: boolean;
+}
+
+export interface Schedule {
+    id: number;
+    name: string;
+    cron: {
+        minute: string;
+        hour: string;
+        dayOfMonth: string;
+        month: string;
+        dayOfWeek: string;
+    };
+    isActive: boolean;
+    isProcessing: boolean;
+    onlyWhenOnline: boolean;
+    lastRunAt: string | null;
+    nextRunAt: string | null;
+    tasks: ScheduleTask[];
+}
+
+export type ScheduleInput = Pick<Schedule, 'name' | 'cron' | 'isActive' | 'onlyWhenOnline'>;
+
+export type ScheduleTaskInput = Pick<ScheduleTask, 'action' | 'payload' | 'timeOffset' | 'continueOnFailure'>;
+
 /**
- * Get the global Pterodactyl API configuration from site settings
+ * Move a panel configured before multi-panel support (the
+ * pterodactyl_panel_url and pterodactyl_api_key site settings) into the
+ * panels table. Run once at startup, and only while no panels exist. The
+ * settings are left alone unless both were there to import. Returns true if
+ * one was imported.
+ */
+export async function importLegacyPterodactylPanel(): Promise<boolean> {
+    const [existing] = await db
+        .select({ id: pterodactylPanels.id })
+        .from(pterodactylPanels)
+        .limit(1);
+    if (existing) return false;
+
+    const settings = await db
+        .select()
+        .from(siteSettings)
+        .where(inArray(siteSettings.key, LEGACY_SETTING_KEYS));
+
+    const panelUrl = settings.find((row: { key: string }) => row.key === 'pterodactyl_panel_url')?.value;
+    const apiKey = settings.find((row: { key: string }) => row.key === 'pterodactyl_api_key')?.value;
+
+    if (!panelUrl || !apiKey) return false;
+
+    await db.insert(pterodactylPanels).values({ name: 'Main Panel', panelUrl, apiKey });
+    await db.delete(siteSettings).where(inArray(siteSettings.key, LEGACY_SETTING_KEYS));
+    clearPterodactylConfigCache();
+
+    console.log('✅ Imported legacy Pterodactyl panel settings');
+    return true;
+}
+
+/**
+ * Every saved panel connection, oldest first
  * Uses in-memory caching to reduce database queries
  */
-export async function getGlobalPterodactylConfig(): Promise<PterodactylConfig | null> {
+export async function listPterodactylPanels(): Promise<PterodactylPanelConfig[]> {
     const now = Date.now();
 
-    // Return cached config if still valid
-    if (pterodactylConfigCache && (now - configCacheTimestamp) < CONFIG_CACHE_TTL) {
-        return pterodactylConfigCache;
-    }
-
-    const [panelUrlSetting, apiKeySetting] = await Promise.all([
-        db.query.siteSettings.findFirst({
-            where: eq(siteSettings.key, 'pterodactyl_panel_url'),
-        }),
-        db.query.siteSettings.findFirst({
-            where: eq(siteSettings.key, 'pterodactyl_api_key'),
-        }),
-    ]);
-
-    if (!panelUrlSetting?.value || !apiKeySetting?.value) {
-        pterodactylConfigCache = null;
-        return null;
+    // Return cached panels if still valid
+    if (pterodactylPanelCache && (now - configCacheTimestamp) < CONFIG_CACHE_TTL) {
+        return pterodactylPanelCache;
     }
 
-    pterodactylConfigCache = {
-        panelUrl: panelUrlSetting.value,
-        apiKey: apiKeySetting.value,
-    };
+    const panels: PterodactylPanelConfig[] = await db
+        .select({
+            id: pterodactylPanels.id,
+            name: pterodactylPanels.name,
+            panelUrl: pterodactylPanels.panelUrl,
+            apiKey: pterodactylPanels.apiKey,
+        })
+        .from(pterodactylPanels)
+        .orderBy(asc(pterodactylPanels.id));
+
+    pterodactylPanelCache = panels;
     configCacheTimestamp = now;
 
-    return pterodactylConfigCache;
+    return panels;
+}
+
+export async function getPterodactylPanel(panelId: number): Promise<PterodactylPanelConfig | null> {
+    const panels = await listPterodactylPanels();
+    return panels.find((panel) => panel.id === panelId) || null;
 }
 
 /**
- * Save global Pterodactyl configuration
+ * Create or update a panel connection. The API key is kept when updating
+ * without a new one. Returns the panel ID.
  */
-export async function saveGlobalPterodactylConfig(
-    panelUrl: string,
-    apiKey: string
-): Promise<void> {
-    const now = new Date();
+export async function savePterodactylPanel(input: {
+    id?: number;
+    name: string;
+    panelUrl: string;
+    apiKey?: string;
+}): Promise<number> {
+    if (input.id) {
+        await db.update(pterodactylPanels)
+            .set({
+                name: input.name,
+                panelUrl: input.panelUrl,
+                ...(input.apiKey ? { apiKey: input.apiKey } : {}),
+                updatedAt: new Date(),
+            })
+            .where(eq(pterodactylPanels.id, input.id));
+        clearPterodactylConfigCache();
+        return input.id;
+    }
 
-    // Upsert panel URL
-    const existingUrl = await db.query.siteSettings.findFirst({
-        where: eq(siteSettings.key, 'pterodactyl_panel_url'),
+    await db.insert(pterodactylPanels).values({
+        name: input.name,
+        panelUrl: input.panelUrl,
+        apiKey: input.apiKey || '',
     });
+    clearPterodactylConfigCache();
 
-    if (existingUrl) {
-        await db.update(siteSettings)
-            .set({ value: panelUrl, updatedAt: now })
-            .where(eq(siteSettings.key, 'pterodactyl_panel_url'));
-    } else {
-        await db.insert(siteSettings).values({
-            key: 'pterodactyl_panel_url',
-            value: panelUrl,
-            category: 'integration',
-            description: 'Pterodactyl panel URL for server management',
-            isPublic: false,
-        });
-    }
+    const [created] = await db
+        .select({ id: pterodactylPanels.id })
+        .from(pterodactylPanels)
+        .orderBy(desc(pterodactylPanels.id))
+        .limit(1);
+    return created.id;
+}
 
-    // Upsert API key
-    const existingKey = await db.query.siteSettings.findFirst({
-        where: eq(siteSettings.key, 'pterodactyl_api_key'),
-    });
+/**
+ * Remove a panel connection. Servers mapped to it are unmapped by the
+ * foreign key.
+ */
+export async function deletePterodactylPanel(panelId: number): Promise<void> {
+    await db.delete(pterodactylPanels).where(eq(pterodactylPanels.id, panelId));
+    clearPterodactylConfigCache();
+}
 
-    if (existingKey) {
-        await db.update(siteSettings)
-            .set({ value: apiKey, updatedAt: now })
-            .where(eq(siteSettings.key, 'pterodactyl_api_key'));
-    } else {
-        await db.insert(siteSettings).values({
-            key: 'pterodactyl_api_key',
-            value: apiKey,
-            category: 'integration',
-            description: 'Pterodactyl API key (Application API)',
-            isPublic: false,
-        });
+/**
+ * The panel hosting a server, by its Pterodactyl identifier
+ * Servers mapped to a panel on the Servers page resolve directly; anything
+ * else is found by listing each panel's servers (cached with the panels). If
+ * two panels report the same identifier, the oldest panel wins.
+ */
+export async function getPanelForServer(identifier: string): Promise<PterodactylPanelConfig | null> {
+    const panels = await listPterodactylPanels();
+    if (panels.length <= 1) return panels[0] || null;
+
+    const [mapped] = await db
+        .select({ panelId: servers.pterodactylPanelId })
+        .from(servers)
+        .where(and(eq(servers.pterodactylServerId, identifier), isNotNull(servers.pterodactylPanelId)))
+        .limit(1);
+    if (mapped?.panelId) {
+        const panel = panels.find((p) => p.id === mapped.panelId);
+        if (panel) return panel;
     }
 
-    // Clear cache so new config is used on next request
-    clearPterodactylConfigCache();
+    // Unknown identifiers stay unknown until the cache expires, so they don't
+    // re-list every panel on each request
+    const now = Date.now();
+    if ((now - serverPanelCacheTimestamp) >= CONFIG_CACHE_TTL) {
+        const { servers: found } = await listAllServers();
+        serverPanelCache = new Map();
+        for (const server of found) {
+            if (!serverPanelCache.has(server.identifier)) {
+                serverPanelCache.set(server.identifier, server.panelId);
+            }
+        }
+        serverPanelCacheTimestamp = now;
+    }
+
+    const panelId = serverPanelCache.get(identifier);
+    return panels.find((panel) => panel.id === panelId) || null;
+}
+
+/**
+ * The panel for a row in the servers table: its mapped panel, then a panel
+ * with the same URL as its pterodactylPanelUrl, then whichever panel hosts its
+ * identifier
+ */
+export async function getPanelForSiteServer(server: {
+    pterodactylServerId: string | null;
+    pterodactylPanelId: number | null;
+    pterodactylPanelUrl: string | null;
+}): Promise<PterodactylPanelConfig | null> {
+    if (!server.pterodactylServerId) return null;
+
+    const panels = await listPterodactylPanels();
+    const byId = server.pterodactylPanelId && panels.find((panel) => panel.id === server.pterodactylPanelId);
+    if (byId) return byId;
+
+    const url = server.pterodactylPanelUrl?.replace(/\/+$/, '');
+    const byUrl = url && panels.find((panel) => panel.panelUrl.replace(/\/+$/, '') === url);
+    if (byUrl) return byUrl;
+
+    return getPanelForServer(server.pterodactylServerId);
 }
 
 /**
@@ -172,11 +312,18 @@ async function pterodactylFetch<T>(
 
     if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(`Pterodactyl API error (${response.status}): ${errorText}`);
+        // Prefer the panel's own validation message when it sent one
+        let detail = errorText;
+        try {
+            detail = JSON.parse(errorText).errors?.[0]?.detail || errorText;
+        } catch {
+            // Not JSON
+        }
+        throw new Error(`Pterodactyl API error (${response.status}): ${detail}`);
     }
 
-    // Some endpoints return no content
-    if (response.status === 204) {
+    // Some endpoints return no content (204) or just accept the request (202)
+    if (response.status === 204 || response.status === 202) {
         return {} as T;
     }
 
@@ -319,21 +466,357 @@ export async function getWebSocketCredentials(
     return response.data;
 }
 
+export interface PanelServer {
+    identifier: string;
+    name: string;
+    uuid: string;
+    panelId: number;
+    panelName: string;
+}
+
 /**
- * List all servers accessible to the API key
+ * List all servers accessible to a panel's API key
  */
-export async function listServers(
-    config: PterodactylConfig
-): Promise<Array<{ identifier: string; name: string; uuid: string }>> {
-    const response = await pterodactylFetch<{ data: any[] }>(config, '/');
+export async function listServers(panel: PterodactylPanelConfig): Promise<PanelServer[]> {
+    const response = await pterodactylFetch<{ data: any[] }>(panel, '/');
 
     return response.data.map((server: any) => ({
         identifier: server.attributes.identifier,
         name: server.attributes.name,
         uuid: server.attributes.uuid,
+        panelId: panel.id,
+        panelName: panel.name,
     }));
 }
 
+/**
+ * List the servers on every panel. A panel that can't be reached is reported
+ * in `errors` instead of failing the whole list.
+ */
+export async function listAllServers(): Promise<{
+    servers: PanelServer[];
+    errors: Array<{ panelId: number; panelName: string; message: string }>;
+}> {
+    const panels = await listPterodactylPanels();
+    const results = await Promise.allSettled(panels.map((panel) => listServers(panel)));
+
+    const found: PanelServer[] = [];
+    const errors: Array<{ panelId: number; panelName: string; message: string }> = [];
+    results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+            found.push(...result.value);
+        } else {
+            errors.push({
+                panelId: panels[index].id,
+                panelName: panels[index].name,
+                message: result.reason instanceof Error ? result.reason.message : 'Connection failed',
+            });
+        }
+    });
+
+    return { servers: found, errors };
+}
+
+// =============================================================================
+// SCHEDULES
+// =============================================================================
+
+function mapScheduleTask(task: any): ScheduleTask {
+    const attr = task.attributes;
+    return {
+        id: attr.id,
+        sequenceId: attr.sequence_id,
+        action: attr.action,
+        payload: attr.payload || '',
+        timeOffset: attr.time_offset,
+        continueOnFailure: Boolean(attr.continue_on_failure),
+        isQueued: attr.is_queued,
+    };
+}
+
+function mapSchedule(schedule: any): Schedule {
+    const attr = schedule.attributes;
+    const tasks: ScheduleTask[] = (attr.relationships?.tasks?.data || []).map(mapScheduleTask);
+    return {
+        id: attr.id,
+        name: attr.name,
+        cron: {
+            minute: attr.cron.minute,
+            hour: attr.cron.hour,
+            dayOfMonth: attr.cron.day_of_month,
+            month: attr.cron.month,
+            dayOfWeek: attr.cron.day_of_week,
+        },
+        isActive: attr.is_active,
+        isProcessing: attr.is_processing,
+        onlyWhenOnline: Boolean(attr.only_when_online),
+        lastRunAt: attr.last_run_at,
+        nextRunAt: attr.next_run_at,
+        tasks: tasks.sort((a, b) => a.sequenceId - b.sequenceId),
+    };
+}
+
+function scheduleBody(input: ScheduleInput): string {
+    return JSON.stringify({
+        name: input.name,
+        minute: input.cron.minute,
+        hour: input.cron.hour,
+        day_of_month: input.cron.dayOfMonth,
+        month: input.cron.month,
+        day_of_week: input.cron.dayOfWeek,
+        is_active: input.isActive,
+        only_when_online: input.onlyWhenOnline,
+    });
+}
+
+function scheduleTaskBody(input: ScheduleTaskInput): string {
+    return JSON.stringify({
+        action: input.action,
+        payload: input.payload,
+        time_offset: input.timeOffset,
+        continue_on_failure: input.continueOnFailure,
+    });
+}
+
+const POWER_ACTIONS: PowerAction[] = ['start', 'stop', 'restart', 'kill'];
+
+// Pterodactyl caps the delay between tasks at 15 minutes
+const MAX_TASK_TIME_OFFSET = 900;
+
+/**
+ * Validate a schedule from a request body
+ */
+export function parseScheduleInput(body: any): { input?: ScheduleInput; error?: string } {
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > 191) {
+        return { error: 'Schedule name is required (max 191 characters)' };
+    }
+
+    const cron = {
+        minute: String(body.cron?.minute ?? '').trim(),
+        hour: String(body.cron?.hour ?? '').trim(),
+        dayOfMonth: String(body.cron?.dayOfMonth ?? '').trim(),
+        month: String(body.cron?.month ?? '').trim(),
+        dayOfWeek: String(body.cron?.dayOfWeek ?? '').trim(),
+    };
+    const cronError = validateCronFields(cron);
+    if (cronError) {
+        return { error: cronError };
+    }
+
+    return {
+        input: {
+            name,
+            cron,
+            isActive: body.isActive !== false,
+            onlyWhenOnline: Boolean(body.onlyWhenOnline),
+        },
+    };
+}
+
+/**
+ * Validate a schedule task from a request body
+ */
+export function parseScheduleTaskInput(body: any): { input?: ScheduleTaskInput; error?: string } {
+    const action = body?.action;
+    const payload = typeof body?.payload === 'string' ? body.payload.trim() : '';
+
+    if (action === 'command') {
+        if (!payload) return { error: 'Command is required' };
+    } else if (action === 'power') {
+        if (!POWER_ACTIONS.includes(payload as PowerAction)) {
+            return { error: `Power action must be one of: ${POWER_ACTIONS.join(', ')}` };
+        }
+    } else if (action !== 'backup') {
+        return { error: 'Task action must be command, power or backup' };
+    }
+
+    const timeOffset = Number(body.timeOffset ?? 0);
+    if (!Number.isInteger(timeOffset) || timeOffset < 0 || timeOffset > MAX_TASK_TIME_OFFSET) {
+        return { error: `Time offset must be between 0 and ${MAX_TASK_TIME_OFFSET} seconds` };
+    }
+
+    return {
+        input: {
+            action,
+            payload,
+            timeOffset,
+            continueOnFailure: Boolean(body.continueOnFailure),
+        },
+    };
+}
+
+/**
+ * List a server's schedules with their tasks
+ */
+export async function listSchedules(
+    config: PterodactylConfig,
+    serverId: string
+): Promise<Schedule[]> {
+    const response = await pterodactylFetch<{ data: any[] }>(
+        config,
+        `/servers/${serverId}/schedules`
+    );
+    return response.data.map(mapSchedule);
+}
+
+/**
+ * Create a schedule (tasks are added separately)
+ */
+export async function createSchedule(
+    config: PterodactylConfig,
+    serverId: string,
+    input: ScheduleInput
+): Promise<Schedule> {
+    const response = await pterodactylFetch<any>(
+        config,
+        `/servers/${serverId}/schedules`,
+        { method: 'POST', body: scheduleBody(input) }
+    );
+    return mapSchedule(response);
+}
+
+/**
+ * Update a schedule's name, timing and flags
+ */
+export async function updateSchedule(
+    config: PterodactylConfig,
+    serverId: string,
+    scheduleId: number,
+    input: ScheduleInput
+): Promise<Schedule> {
+    // Pterodactyl updates schedules with POST rather than PATCH
+    const response = await pterodactylFetch<any>(
+        config,
+        `/servers/${serverId}/schedules/${scheduleId}`,
+        { method: 'POST', body: scheduleBody(input) }
+    );
+    return mapSchedule(response);
+}
+
+export async function deleteSchedule(
+    config: PterodactylConfig,
+    serverId: string,
+    scheduleId: number
+): Promise<void> {
+    await pterodactylFetch(
+        config,
+        `/servers/${serverId}/schedules/${scheduleId}`,
+        { method: 'DELETE' }
+    );
+}
+
+/**
+ * Run a schedule's tasks now, ignoring its timing
+ */
+export async function executeSchedule(
+    config: PterodactylConfig,
+    serverId: string,
+    scheduleId: number
+): Promise<void> {
+    await pterodactylFetch(
+        config,
+        `/servers/${serverId}/schedules/${scheduleId}/execute`,
+        { method: 'POST' }
+    );
+}
+
+/**
+ * Add a task to the end of a schedule
+ */
+export async function createScheduleTask(
+    config: PterodactylConfig,
+    serverId: string,
+    scheduleId: number,
+    input: ScheduleTaskInput
+): Promise<ScheduleTask> {
+    const response = await pterodactylFetch<any>(
+        config,
+        `/servers/${serverId}/schedules/${scheduleId}/tasks`,
+        { method: 'POST', body: scheduleTaskBody(input) }
+    );
+    return mapScheduleTask(response);
+}
+
+export async function updateScheduleTask(
+    config: PterodactylConfig,
+    serverId: string,
+    scheduleId: number,
+    taskId: number,
+    input: ScheduleTaskInput
+): Promise<ScheduleTask> {
+    const response = await pterodactylFetch<any>(
+        config,
+        `/servers/${serverId}/schedules/${scheduleId}/tasks/${taskId}`,
+        { method: 'POST', body: scheduleTaskBody(input) }
+    );
+    return mapScheduleTask(response);
+}
+
+export async function deleteScheduleTask(
+    config: PterodactylConfig,
+    serverId: string,
+    scheduleId: number,
+    taskId: number
+): Promise<void> {
+    await pterodactylFetch(
+        config,
+        `/servers/${serverId}/schedules/${scheduleId}/tasks/${taskId}`,
+        { method: 'DELETE' }
+    );
+}
+
+// =============================================================================
+// SUBUSERS
+// =============================================================================
+
+/**
+ * Invite an account to a server with the given permissions. Pterodactyl
+ * creates a panel account for the email if it doesn't have one yet.
+ * Returns the subuser's UUID, used for later updates.
+ */
+export async function createSubuser(
+    config: PterodactylConfig,
+    serverId: string,
+    email: string,
+    permissions: string[]
+): Promise<string> {
+    const response = await pterodactylFetch<{ attributes: any }>(
+        config,
+        `/servers/${serverId}/users`,
+        { method: 'POST', body: JSON.stringify({ email, permissions }) }
+    );
+    return response.attributes.uuid;
+}
+
+/**
+ * Replace a subuser's permissions
+ */
+export async function updateSubuser(
+    config: PterodactylConfig,
+    serverId: string,
+    subuserUuid: string,
+    permissions: string[]
+): Promise<void> {
+    await pterodactylFetch(
+        config,
+        `/servers/${serverId}/users/${subuserUuid}`,
+        { method: 'POST', body: JSON.stringify({ permissions }) }
+    );
+}
+
+export async function deleteSubuser(
+    config: PterodactylConfig,
+    serverId: string,
+    subuserUuid: string
+): Promise<void> {
+    await pterodactylFetch(
+        config,
+        `/servers/${serverId}/users/${subuserUuid}`,
+        { method: 'DELETE' }
+    );
+}
+
 /**
  * Format bytes to human-readable string
  */
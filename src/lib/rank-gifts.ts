@@ -0,0 +1,350 @@
+/**
+ * Rank Gifts
+ *
+ * Lets a donor buy a rank for another player, picked by site username or
+ * Minecraft name at checkout. processDonation() hands the rank over through
+ * createRankGift(). Gifts for Minecraft players without an account are kept in
+ * `rank_gifts` and delivered by claimPendingGifts() once that UUID registers.
+ */
+
+import { db } from '@/db';
+import { users, rankGifts, donationRanks, type RankGift } from '@/db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { assignRankSubscription, revokeRankDays, restoreRankDays } from '@/lib/rank-subscription';
+import { createNotification } from '@/lib/notifications';
+import { sendDonationReceiptEmail, sendRankGiftEmail } from '@/lib/email';
+import { fetchMinecraftUUID, formatUUID, isValidUsernameFormat } from '@/lib/minecraft';
+
+// Square order metadata values are capped at 255 characters
+export const GIFT_MESSAGE_MAX_LENGTH = 200;
+
+export interface GiftRecipient {
+  userId: number | null; // null until the player registers
+  name: string; // Site username, or Minecraft name for players without an account
+  minecraftUuid: string | null;
+}
+
+export interface GiftPurchase {
+  donationId: number;
+  purchaserId: number | null;
+  purchaserName: string;
+  purchaserEmail?: string | null;
+  recipient: GiftRecipient;
+  rankId: string;
+  rankName: string;
+  days: number;
+  message?: string | null;
+  amount: number;
+  transactionId: string;
+}
+
+// Compare UUIDs stored with or without dashes
+function uuidMatches(column: unknown, uuid: string) {
+  return sql`LOWER(REPLACE(${column}, '-', '')) = ${uuid.replace(/-/g, '').toLowerCase()}`;
+}
+
+// =============================================================================
+// RECIPIENTS
+// =============================================================================
+
+/**
+ * Find who a gift is for. Site accounts are matched by username or Minecraft
+ * name; anyone else is looked up with Mojang so the gift can be held for their
+ * UUID. Returns null if no such player exists.
+ */
+export async function resolveGiftRecipient(name: string): Promise<GiftRecipient | null> {
+  const query = name.trim();
+  if (!query) return null;
+
+  const [user] = await db
+    .select({ id: users.id, username: users.username, minecraftUuid: users.minecraftUuid })
+    .from(users)
+    .where(sql`LOWER(${users.username}) = LOWER(${query}) OR LOWER(${users.minecraftUsername}) = LOWER(${query})`)
+    .limit(1);
+
+  if (user) {
+    return { userId: user.id, name: user.username, minecraftUuid: user.minecraftUuid || null };
+  }
+
+  if (!isValidUsernameFormat(query)) return null;
+
+  const profile = await fetchMinecraftUUID(query);
+  if (!profile) return null;
+
+  // Registered under an older Minecraft name
+  const [linkedUser] = await db
+    .select({ id: users.id, username: users.username, minecraftUuid: users.minecraftUuid })
+    .from(users)
+    .where(uuidMatches(users.minecraftUuid, profile.id))
+    .limit(1);
+
+  if (linkedUser) {
+    return { userId: linkedUser.id, name: linkedUser.username, minecraftUuid: linkedUser.minecraftUuid };
+  }
+
+  return { userId: null, name: profile.name, minecraftUuid: formatUUID(profile.id) };
+}
+
+/**
+ * Validate a gift recipient when checking out
+ */
+export async function checkGiftRecipient(
+  name: unknown,
+  purchaserId: number
+): Promise<{ recipient?: GiftRecipient; error?: string }> {
+  if (typeof name !== 'string' || !name.trim()) {
+    return { error: 'Enter the username or Minecraft name of the player to gift' };
+  }
+
+  const recipient = await resolveGiftRecipient(name);
+  if (!recipient) {
+    return { error: `No player named "${name.trim()}" was found` };
+  }
+  if (recipient.userId === purchaserId) {
+    return { error: "You can't gift a rank to yourself" };
+  }
+
+  return { recipient };
+}
+
+/**
+ * Trim a gift message to what fits in checkout metadata
+ */
+export function normalizeGiftMessage(message: unknown): string | undefined {
+  if (typeof message !== 'string') return undefined;
+  const trimmed = message.trim().slice(0, GIFT_MESSAGE_MAX_LENGTH);
+  return trimmed || undefined;
+}
+
+// =============================================================================
+// DELIVERY
+// =============================================================================
+
+/**
+ * Record a paid gift and give the rank to the recipient straight away if they
+ * have an account. The buyer is notified and sent a receipt either way.
+ */
+export async function createRankGift(purchase: GiftPurchase): Promise<{ giftId: number; delivered: boolean }> {
+  const [gift] = await db.insert(rankGifts).values({
+    donationId: purchase.donationId,
+    purchaserId: purchase.purchaserId,
+    purchaserName: purchase.purchaserName,
+    recipientId: purchase.recipient.userId,
+    recipientName: purchase.recipient.name,
+    recipientMinecraftUuid: purchase.recipient.minecraftUuid,
+    rankId: purchase.rankId,
+    days: purchase.days,
+    message: purchase.message || null,
+    status: 'pending',
+  }).returning();
+
+  const delivered = purchase.recipient.userId
+    ? await deliverGift(gift, purchase.rankName)
+    : false;
+
+  if (purchase.purchaserId) {
+    await createNotification({
+      userId: purchase.purchaserId,
+      type: 'success',
+      title: 'Gift sent',
+      message: delivered
+        ? `${purchase.recipient.name} received ${purchase.rankName} for ${purchase.days} days.`
+        : `${purchase.recipient.name} doesn't have an account yet. They'll get ${purchase.rankName} for ${purchase.days} days when they register.`,
+      link: '/donate',
+    });
+  }
+
+  if (purchase.purchaserEmail) {
+    sendDonationReceiptEmail({
+      to: purchase.purchaserEmail,
+      username: purchase.purchaserName,
+      amount: purchase.amount,
+      rankName: purchase.rankName,
+      days: purchase.days,
+      paymentId: purchase.transactionId,
+      giftRecipient: purchase.recipient.name,
+    }).catch(err => console.error('Gift receipt email error:', err));
+  }
+
+  console.log(`✅ Gift ${gift.id} of ${purchase.rankId} from ${purchase.purchaserName} to ${purchase.recipient.name} (${delivered ? 'delivered' : 'pending'})`);
+
+  return { giftId: gift.id, delivered };
+}
+
+/**
+ * Apply a gift's rank to its recipient, then let them know who it's from
+ */
+async function deliverGift(gift: RankGift, rankName: string): Promise<boolean> {
+  if (!gift.recipientId) return false;
+
+  const [recipient] = await db
+    .select({ id: users.id, username: users.username, email: users.email, donationRankId: users.donationRankId })
+    .from(users)
+    .where(eq(users.id, gift.recipientId))
+    .limit(1);
+
+  if (!recipient) return false;
+
+  const result = await assignRankSubscription(recipient.id, gift.rankId, gift.days);
+  if (!result.success) {
+    console.error(`Failed to deliver gift ${gift.id}:`, result.error);
+    return false;
+  }
+
+  if (recipient.donationRankId !== gift.rankId) {
+    try {
+      const { updateUserDiscordRole } = await import('@/lib/discord-integration');
+      await updateUserDiscordRole(recipient.id, gift.rankId, recipient.donationRankId);
+    } catch (discordError: any) {
+      console.error('Failed to update Discord role for gift:', discordError);
+    }
+  }
+
+  await db
+    .update(rankGifts)
+    .set({ status: 'delivered', deliveredAt: new Date() })
+    .where(eq(rankGifts.id, gift.id));
+
+  await createNotification({
+    userId: recipient.id,
+    type: 'success',
+    title: '🎁 You received a gift!',
+    message: `${gift.purchaserName} gifted you ${rankName} for ${gift.days} days.${gift.message ? ` "${gift.message}"` : ''}`,
+    link: '/settings',
+  });
+
+  if (recipient.email) {
+    sendRankGiftEmail(recipient.email, {
+      recipientName: recipient.username,
+      purchaserName: gift.purchaserName,
+      rankName,
+      days: gift.days,
+      message: gift.message,
+    }).catch(err => console.error('Gift email error:', err));
+  }
+
+  return true;
+}
+
+/**
+ * Deliver gifts held for a Minecraft account that has just registered or been
+ * linked to a site account. Only call this once the UUID has been verified.
+ * Never throws, so registration doesn't fail over a gift.
+ */
+export async function claimPendingGifts(userId: number, minecraftUuid: string | null | undefined): Promise<number> {
+  if (!minecraftUuid) return 0;
+
+  try {
+    const pending = await db
+      .select()
+      .from(rankGifts)
+      .where(and(
+        eq(rankGifts.status, 'pending'),
+        uuidMatches(rankGifts.recipientMinecraftUuid, minecraftUuid)
+      ));
+
+    let claimed = 0;
+
+    for (const { id } of pending as RankGift[]) {
+      // Take the gift first so a parallel claim (e.g. a double-submitted
+      // verification) can't deliver it twice
+      const [gift]: RankGift[] = await db
+        .update(rankGifts)
+        .set({ recipientId: userId, status: 'delivered', deliveredAt: new Date() })
+        .where(and(eq(rankGifts.id, id), eq(rankGifts.status, 'pending')))
+        .returning();
+      if (!gift) continue;
+
+      const [rank] = await db
+        .select({ name: donationRanks.name })
+        .from(donationRanks)
+        .where(eq(donationRanks.id, gift.rankId))
+        .limit(1);
+      const rankName = rank?.name || gift.rankId;
+
+      if (!await deliverGift(gift, rankName)) {
+        // Put it back so the next claim can try again
+        await db
+          .update(rankGifts)
+          .set({ recipientId: null, status: 'pending', deliveredAt: null })
+          .where(eq(rankGifts.id, gift.id));
+        continue;
+      }
+      claimed++;
+
+      if (gift.purchaserId) {
+        await createNotification({
+          userId: gift.purchaserId,
+          type: 'success',
+          title: 'Gift delivered',
+          message: `${gift.recipientName} registered and received the ${rankName} rank you gifted them.`,
+          link: '/donate',
+        });
+      }
+    }
+
+    if (claimed > 0) {
+      console.log(`✅ Delivered ${claimed} pending gift(s) to user ${userId}`);
+    }
+
+    return claimed;
+  } catch (error: any) {
+    console.error('Error claiming pending gifts:', error);
+    return 0;
+  }
+}
+
+// =============================================================================
+// REFUNDS
+// =============================================================================
+
+export async function getGiftForDonation(donationId: number): Promise<RankGift | null> {
+  const [gift] = await db
+    .select()
+    .from(rankGifts)
+    .where(eq(rankGifts.donationId, donationId))
+    .limit(1);
+
+  return gift || null;
+}
+
+/**
+ * Take back days from a refunded gift: from the recipient's rank once
+ * delivered, otherwise off the gift that's still waiting to be claimed.
+ */
+export async function revokeGiftDays(
+  gift: RankGift,
+  days: number
+): Promise<{ revokedDays: number; removed: boolean }> {
+  if (gift.status === 'delivered' && gift.recipientId) {
+    const result = await revokeRankDays(gift.recipientId, gift.rankId, days);
+    return result.success ? { revokedDays: result.revokedDays, removed: result.removed } : { revokedDays: 0, removed: false };
+  }
+
+  if (gift.status !== 'pending') {
+    return { revokedDays: 0, removed: false };
+  }
+
+  const remaining = Math.max(0, gift.days - days);
+  await db
+    .update(rankGifts)
+    .set({ days: remaining, status: remaining > 0 ? 'pending' : 'cancelled' })
+    .where(eq(rankGifts.id, gift.id));
+
+  return { revokedDays: gift.days - remaining, removed: remaining === 0 };
+}
+
+/**
+ * Give back days taken by revokeGiftDays(), e.g. when a dispute is won
+ */
+export async function restoreGiftDays(gift: RankGift, days: number): Promise<void> {
+  if (gift.status === 'delivered' && gift.recipientId) {
+    await restoreRankDays(gift.recipientId, gift.rankId, days);
+    return;
+  }
+
+  await db
+    .update(rankGifts)
+    .set({ days: gift.days + days, status: 'pending' })
+    .where(eq(rankGifts.id, gift.id));
+}
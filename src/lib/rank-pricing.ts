@@ -14,6 +14,14 @@ export const DEFAULT_RANK_PRICING: Record<string, number> = {
   'champion': 1.67,       // ~$50/month
 };
 
+// Durations offered for one-time rank purchases, with their bulk discount
+export const DURATION_OPTIONS = [
+  { days: 30, label: '1 Month', discount: 0 },
+  { days: 90, label: '3 Months', discount: 5 },
+  { days: 180, label: '6 Months', discount: 10 },
+  { days: 365, label: '12 Months', discount: 15 },
+];
+
 // Runtime pricing cache (populated from database)
 let RANK_PRICING: Record<string, number> = { ...DEFAULT_RANK_PRICING };
 
@@ -50,6 +58,28 @@ export function calculatePriceForDays(rankId: string, days: number): number {
   return Math.round(pricePerDay * days * 100) / 100; // Round to 2 decimals
 }
 
+/**
+ * Price of a one-time rank purchase from its monthly price, with the bulk
+ * discount for the chosen duration. Used by the donate page and re-checked
+ * by the checkout routes.
+ */
+export function calculateRankPrice(monthlyPrice: number, days: number): number {
+  const option = DURATION_OPTIONS.find((o) => o.days === days);
+  const discount = option?.discount || 0;
+  return roundPrice((monthlyPrice / 30) * days * (1 - discount / 100));
+}
+
+/**
+ * Take a percentage off a price, e.g. for a sale
+ */
+export function applyPercentOff(price: number, percentOff: number): number {
+  return roundPrice(price * (1 - Math.min(Math.max(percentOff, 0), 100) / 100));
+}
+
+export function roundPrice(price: number): number {
+  return Math.round(price * 100) / 100;
+}
+
 /**
  * Get duration packages with pricing
  */
@@ -151,6 +151,316 @@ export async function downgradeRank(
   return upgradeRank(userId, newRankId);
 }
 
+/**
+ * Express days held on one rank in days of another, for reporting back in the
+ * units the caller asked for
+ */
+function toRequestedRankDays(heldRankId: string, rankId: string, days: number): number {
+  return heldRankId === rankId ? days : convertRankDays(heldRankId, rankId, days);
+}
+
+/**
+ * Take rank days back from a user, e.g. after a refund or chargeback.
+ * Days granted on `rankId` are converted if the user has since moved to a
+ * different rank. The rank (and Discord role) is removed once no time is left.
+ * `revokedDays` is what was actually taken, in days of `rankId`.
+ */
+export async function revokeRankDays(
+  userId: number,
+  rankId: string,
+  days: number
+): Promise<{ success: boolean; revokedDays: number; removed: boolean; expiresAt?: Date | null; error?: string }> {
+  try {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (!user) {
+      return { success: false, revokedDays: 0, removed: false, error: 'User not found' };
+    }
+
+    // Paused ranks lose the days from their frozen balance
+    if (user.rankPaused && user.pausedRankId && days > 0) {
+      const pausedDays = user.pausedRankId === rankId
+        ? days
+        : convertRankDays(rankId, user.pausedRankId, days);
+      const takenDays = Math.min(pausedDays, user.pausedRemainingDays || 0);
+      const remaining = (user.pausedRemainingDays || 0) - takenDays;
+
+      await db
+        .update(users)
+        .set(remaining > 0
+          ? { pausedRemainingDays: remaining, updatedAt: new Date() }
+          : { rankPaused: false, pausedRankId: null, pausedRemainingDays: null, pausedAt: null, updatedAt: new Date() })
+        .where(eq(users.id, userId));
+
+      console.log(`⛔ Revoked ${takenDays} paused days of ${user.pausedRankId} from user ${userId}`);
+      return {
+        success: true,
+        revokedDays: Math.min(days, toRequestedRankDays(user.pausedRankId, rankId, takenDays)),
+        removed: remaining === 0,
+        expiresAt: null,
+      };
+    }
+
+    const now = new Date();
+    if (!user.donationRankId || !user.rankExpiresAt || new Date(user.rankExpiresAt) <= now || days <= 0) {
+      return { success: true, revokedDays: 0, removed: false, expiresAt: null };
+    }
+
+    const currentRankId = user.donationRankId;
+    const daysInCurrentRank = currentRankId === rankId
+      ? days
+      : convertRankDays(rankId, currentRankId, days);
+
+    const expiresAt = new Date(user.rankExpiresAt);
+    expiresAt.setDate(expiresAt.getDate() - daysInCurrentRank);
+
+    if (expiresAt <= now) {
+      // Only the time that was left is actually taken
+      const takenDays = Math.ceil((new Date(user.rankExpiresAt).getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+
+      await db
+        .update(users)
+        .set({
+          donationRankId: null,
+          rankExpiresAt: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, userId));
+
+      console.log(`⛔ Removed rank ${currentRankId} from user ${userId} (${takenDays} days revoked)`);
+
+      try {
+        const { updateUserDiscordRole } = await import('@/lib/discord-integration');
+        await updateUserDiscordRole(userId, null, currentRankId);
+      } catch (discordError: any) {
+        console.error('Failed to remove Discord role:', discordError);
+      }
+
+      return {
+        success: true,
+        revokedDays: Math.min(days, toRequestedRankDays(currentRankId, rankId, takenDays)),
+        removed: true,
+        expiresAt: null,
+      };
+    }
+
+    await db
+      .update(users)
+      .set({
+        rankExpiresAt: expiresAt,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+
+    console.log(`⛔ Revoked ${daysInCurrentRank} days of ${currentRankId} from user ${userId} (expires: ${expiresAt.toISOString()})`);
+
+    return { success: true, revokedDays: Math.min(days, toRequestedRankDays(currentRankId, rankId, daysInCurrentRank)), removed: false, expiresAt };
+  } catch (error: any) {
+    console.error('Error revoking rank days:', error);
+    return { success: false, revokedDays: 0, removed: false, error: 'Failed to revoke rank days' };
+  }
+}
+
+/**
+ * Give back rank days taken by revokeRankDays(), e.g. when a dispute is won.
+ * Added to the user's current rank if they have one, otherwise `rankId` is
+ * assigned again.
+ */
+export async function restoreRankDays(
+  userId: number,
+  rankId: string,
+  days: number
+): Promise<{ success: boolean; expiresAt?: Date; error?: string }> {
+  try {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (!user) {
+      return { success: false, error: 'User not found' };
+    }
+
+    const hasActiveRank = user.donationRankId && user.rankExpiresAt && new Date(user.rankExpiresAt) > new Date();
+    const targetRankId: string = hasActiveRank ? user.donationRankId : rankId;
+    const targetDays = targetRankId === rankId ? days : convertRankDays(rankId, targetRankId, days);
+
+    const result = await assignRankSubscription(userId, targetRankId, targetDays);
+
+    if (result.success && !hasActiveRank) {
+      try {
+        const { updateUserDiscordRole } = await import('@/lib/discord-integration');
+        await updateUserDiscordRole(userId, targetRankId, null);
+      } catch (discordError: any) {
+        console.error('Failed to restore Discord role:', discordError);
+      }
+    }
+
+    return result;
+  } catch (error: any) {
+    console.error('Error restoring rank days:', error);
+    return { success: false, error: 'Failed to restore rank days' };
+  }
+}
+
+/**
+ * Pause a user's rank, e.g. while they're on holiday. The remaining whole days
+ * are frozen, the rank and Discord role are removed, and billing on an active
+ * Stripe/Square subscription is paused so renewals don't pile up meanwhile.
+ */
+export async function pauseRank(
+  userId: number
+): Promise<{ success: boolean; remainingDays?: number; error?: string }> {
+  try {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (!user) {
+      return { success: false, error: 'User not found' };
+    }
+
+    if (user.rankPaused) {
+      return { success: false, error: 'Your rank is already paused' };
+    }
+
+    const now = new Date();
+    if (!user.donationRankId || !user.rankExpiresAt || new Date(user.rankExpiresAt) <= now) {
+      return { success: false, error: 'You don\'t have an active rank to pause' };
+    }
+
+    // Whole days only, so pausing and resuming can't round time up
+    const remainingDays = Math.floor((new Date(user.rankExpiresAt).getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+    if (remainingDays < 1) {
+      return { success: false, error: 'Your rank has less than a day left' };
+    }
+
+    if (user.subscriptionStatus === 'past_due') {
+      return { success: false, error: 'Please settle your overdue subscription payment before pausing' };
+    }
+
+    const hasSubscription = !!(user.stripeSubscriptionId || user.squareSubscriptionId);
+    if (hasSubscription && user.subscriptionStatus !== 'canceled') {
+      try {
+        if (user.stripeSubscriptionId) {
+          const { setSubscriptionCollectionPaused } = await import('@/lib/stripe');
+          await setSubscriptionCollectionPaused(user.stripeSubscriptionId, true);
+        } else if (user.squareSubscriptionId) {
+          const { pauseSquareSubscription } = await import('@/lib/square');
+          await pauseSquareSubscription(user.squareSubscriptionId);
+        }
+      } catch (billingError: any) {
+        console.error('Failed to pause subscription billing:', billingError);
+        return { success: false, error: 'Could not pause your subscription billing. Please try again later.' };
+      }
+    }
+
+    const rankId = user.donationRankId;
+
+    await db
+      .update(users)
+      .set({
+        donationRankId: null,
+        rankExpiresAt: null,
+        rankPaused: true,
+        pausedRankId: rankId,
+        pausedRemainingDays: remainingDays,
+        pausedAt: now,
+        subscriptionStatus: hasSubscription && user.subscriptionStatus !== 'canceled' ? 'paused' : user.subscriptionStatus,
+        updatedAt: now,
+      })
+      .where(eq(users.id, userId));
+
+    console.log(`⏸️ Paused rank ${rankId} for user ${userId} with ${remainingDays} days remaining`);
+
+    try {
+      const { updateUserDiscordRole } = await import('@/lib/discord-integration');
+      await updateUserDiscordRole(userId, null, rankId);
+    } catch (discordError: any) {
+      console.error('Failed to remove Discord role:', discordError);
+    }
+
+    return { success: true, remainingDays };
+  } catch (error: any) {
+    console.error('Error pausing rank:', error);
+    return { success: false, error: 'Failed to pause rank' };
+  }
+}
+
+/**
+ * Resume a paused rank with its frozen days and restart subscription billing.
+ * If the user bought another rank while paused, the days are converted onto it.
+ */
+export async function resumeRank(
+  userId: number
+): Promise<{ success: boolean; expiresAt?: Date; error?: string }> {
+  try {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (!user) {
+      return { success: false, error: 'User not found' };
+    }
+
+    if (!user.rankPaused || !user.pausedRankId) {
+      return { success: false, error: 'Your rank is not paused' };
+    }
+
+    const resumeBilling = user.subscriptionStatus === 'paused';
+    if (resumeBilling) {
+      try {
+        if (user.stripeSubscriptionId) {
+          const { setSubscriptionCollectionPaused } = await import('@/lib/stripe');
+          await setSubscriptionCollectionPaused(user.stripeSubscriptionId, false);
+        } else if (user.squareSubscriptionId) {
+          const { resumeSquareSubscription } = await import('@/lib/square');
+          await resumeSquareSubscription(user.squareSubscriptionId);
+        }
+      } catch (billingError: any) {
+        console.error('Failed to resume subscription billing:', billingError);
+        return { success: false, error: 'Could not resume your subscription billing. Please try again later.' };
+      }
+    }
+
+    const rankId = user.pausedRankId;
+    const days = user.pausedRemainingDays || 0;
+
+    await db
+      .update(users)
+      .set({
+        rankPaused: false,
+        pausedRankId: null,
+        pausedRemainingDays: null,
+        pausedAt: null,
+        subscriptionStatus: resumeBilling ? 'active' : user.subscriptionStatus,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+
+    if (days <= 0) {
+      return { success: true };
+    }
+
+    const result = await restoreRankDays(userId, rankId, days);
+    console.log(`▶️ Resumed rank ${rankId} for user ${userId} with ${days} days`);
+
+    return result;
+  } catch (error: any) {
+    console.error('Error resuming rank:', error);
+    return { success: false, error: 'Failed to resume rank' };
+  }
+}
+
 /**
  * Check and remove expired ranks
  * Should be run as a cron job every hour
@@ -224,17 +534,34 @@ export async function getUserRankStatus(userId: number): Promise<{
   rankId?: string;
   expiresAt?: Date;
   daysRemaining?: number;
+  paused?: boolean;
+  pausedAt?: Date;
 }> {
   try {
     const [user] = await db
       .select({
         donationRankId: users.donationRankId,
         rankExpiresAt: users.rankExpiresAt,
+        rankPaused: users.rankPaused,
+        pausedRankId: users.pausedRankId,
+        pausedRemainingDays: users.pausedRemainingDays,
+        pausedAt: users.pausedAt,
       })
       .from(users)
       .where(eq(users.id, userId))
       .limit(1);
 
+    // Paused ranks don't count as held, but report what's frozen
+    if (user?.rankPaused && user.pausedRankId) {
+      return {
+        hasRank: false,
+        paused: true,
+        rankId: user.pausedRankId,
+        daysRemaining: user.pausedRemainingDays || 0,
+        pausedAt: user.pausedAt ? new Date(user.pausedAt) : undefined,
+      };
+    }
+
     if (!user || !user.donationRankId) {
       return { hasRank: false };
     }
@@ -0,0 +1,327 @@
+/**
+ * Rate Limiting
+ *
+ * Shared fixed-window rate limiter. Counters live in `rate_limits` so limits
+ * survive restarts and hold across every instance behind the load balancer.
+ * Routes pick a named policy from RATE_LIMITS and call enforceRateLimit();
+ * responses carry the standard `RateLimit-*` headers.
+ *
+ * The store is pluggable: setRateLimitStore() swaps the database for memory
+ * (single instance, e.g. local dev) or anything else implementing
+ * RateLimitStore, such as Redis.
+ *
+ * If the store fails the request is allowed, so an outage never locks
+ * everyone out. Blocks can be viewed and cleared at /admin/rate-limits.
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { rateLimits, type RateLimit } from '@/db/schema';
+import { and, desc, eq, gt, lte, sql } from 'drizzle-orm';
+import { getClientIp } from '@/lib/audit-log';
+
+export interface RateLimitPolicy {
+  limit: number; // Requests allowed per window
+  windowMs: number;
+  message: string; // Shown to the client when blocked
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+  windowMs: number;
+}
+
+export interface RateLimitEntry {
+  key: string;
+  policy: string;
+  identifier: string;
+  hits: number;
+  maxHits: number;
+  windowEndsAt: Date;
+}
+
+/**
+ * Where hit counters are kept. hit() must count the request and return the
+ * total for the current window, starting a new window if the old one ended.
+ */
+export interface RateLimitStore {
+  hit(entry: { key: string; policy: string; identifier: string; maxHits: number; windowMs: number }): Promise<{ hits: number; windowEndsAt: Date }>;
+  list(options: { blockedOnly: boolean }): Promise<RateLimitEntry[]>;
+  clear(key: string): Promise<void>;
+  prune(): Promise<number>;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Every policy routes can use. Keep limits generous enough for players behind
+// a shared server or school IP.
+export const RATE_LIMITS = {
+  login: { limit: 500, windowMs: 15 * MINUTE, message: 'Too many login attempts. Please try again later.' },
+  register: { limit: 1000, windowMs: HOUR, message: 'Too many registration attempts. Please try again later.' },
+  'register-standard': { limit: 100, windowMs: HOUR, message: 'Too many registration attempts. Please try again later.' },
+  'forgot-password': { limit: 5, windowMs: HOUR, message: 'Too many password reset requests. Please try again later.' },
+  'reset-password': { limit: 10, windowMs: 15 * MINUTE, message: 'Too many password reset attempts. Please try again later.' },
+  'guest-ticket': { limit: 5, windowMs: HOUR, message: 'Too many tickets opened. Please try again later.' },
+  'guest-ticket-resend': { limit: 3, windowMs: HOUR, message: 'Too many access links requested. Please try again later.' },
+  'guest-ticket-reply': { limit: 20, windowMs: 10 * MINUTE, message: 'You are replying too quickly. Please slow down.' },
+  message: { limit: 30, windowMs: MINUTE, message: 'You are sending messages too quickly. Please slow down.' },
+  'social-post': { limit: 10, windowMs: 10 * MINUTE, message: 'You are posting too quickly. Please slow down.' },
+  'social-comment': { limit: 30, windowMs: 10 * MINUTE, message: 'You are commenting too quickly. Please slow down.' },
+  lookup: { limit: 10, windowMs: MINUTE, message: 'Rate limit exceeded. Please try again later.' },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMITS;
+
+// =============================================================================
+// STORES
+// =============================================================================
+
+function toEntry(row: RateLimit): RateLimitEntry {
+  return {
+    key: row.key,
+    policy: row.policy,
+    identifier: row.identifier,
+    hits: row.hits,
+    maxHits: row.maxHits,
+    windowEndsAt: new Date(row.windowEndsAt),
+  };
+}
+
+/**
+ * Counters in the `rate_limits` table. Uses plain UPDATE/INSERT rather than
+ * upserts so it works the same on SQLite, Postgres and MySQL.
+ */
+export class DatabaseRateLimitStore implements RateLimitStore {
+  async hit({ key, policy, identifier, maxHits, windowMs }: Parameters<RateLimitStore['hit']>[0]) {
+    const now = new Date();
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      // Count against the current window if there is one
+      await db
+        .update(rateLimits)
+        .set({ hits: sql`${rateLimits.hits} + 1`, maxHits, updatedAt: now })
+        .where(and(eq(rateLimits.key, key), gt(rateLimits.windowEndsAt, now)));
+
+      const [row]: RateLimit[] = await db
+        .select()
+        .from(rateLimits)
+        .where(eq(rateLimits.key, key))
+        .limit(1);
+
+      if (row && new Date(row.windowEndsAt) > now) {
+        return { hits: row.hits, windowEndsAt: new Date(row.windowEndsAt) };
+      }
+
+      // No window yet, or it has ended: start a new one
+      const windowEndsAt = new Date(now.getTime() + windowMs);
+      try {
+        if (row) {
+          await db
+            .update(rateLimits)
+            .set({ hits: 1, maxHits, windowEndsAt, updatedAt: now })
+            .where(and(eq(rateLimits.key, key), lte(rateLimits.windowEndsAt, now)));
+        } else {
+          await db.insert(rateLimits).values({ key, policy, identifier, hits: 1, maxHits, windowEndsAt, updatedAt: now });
+        }
+        return { hits: 1, windowEndsAt };
+      } catch {
+        // Another request created the row first; count against it instead
+      }
+    }
+
+    throw new Error(`Could not record rate limit hit for ${key}`);
+  }
+
+  async list({ blockedOnly }: { blockedOnly: boolean }) {
+    const active = gt(rateLimits.windowEndsAt, new Date());
+    const rows: RateLimit[] = await db
+      .select()
+      .from(rateLimits)
+      .where(blockedOnly ? and(active, sql`${rateLimits.hits} > ${rateLimits.maxHits}`) : active)
+      .orderBy(desc(rateLimits.hits))
+      .limit(500);
+
+    return rows.map(toEntry);
+  }
+
+  async clear(key: string) {
+    await db.delete(rateLimits).where(eq(rateLimits.key, key));
+  }
+
+  async prune() {
+    const deleted = await db
+      .delete(rateLimits)
+      .where(lte(rateLimits.windowEndsAt, new Date()))
+      .returning({ key: rateLimits.key });
+    return deleted.length;
+  }
+}
+
+/**
+ * Counters in process memory. Only correct for a single instance.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, RateLimitEntry>();
+
+  async hit({ key, policy, identifier, maxHits, windowMs }: Parameters<RateLimitStore['hit']>[0]) {
+    const now = Date.now();
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.windowEndsAt.getTime() <= now) {
+      const windowEndsAt = new Date(now + windowMs);
+      this.entries.set(key, { key, policy, identifier, hits: 1, maxHits, windowEndsAt });
+      return { hits: 1, windowEndsAt };
+    }
+
+    entry.hits++;
+    entry.maxHits = maxHits;
+    return { hits: entry.hits, windowEndsAt: entry.windowEndsAt };
+  }
+
+  async list({ blockedOnly }: { blockedOnly: boolean }) {
+    const now = Date.now();
+    return [...this.entries.values()]
+      .filter((entry) => entry.windowEndsAt.getTime() > now && (!blockedOnly || entry.hits > entry.maxHits))
+      .sort((a, b) => b.hits - a.hits);
+  }
+
+  async clear(key: string) {
+    this.entries.delete(key);
+  }
+
+  async prune() {
+    const now = Date.now();
+    let pruned = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.windowEndsAt.getTime() <= now) {
+        this.entries.delete(key);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+}
+
+let store: RateLimitStore = new DatabaseRateLimitStore();
+
+export function setRateLimitStore(newStore: RateLimitStore): void {
+  store = newStore;
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  return store;
+}
+
+// =============================================================================
+// CHECKING
+// =============================================================================
+
+/**
+ * Count a request against a policy. `identifier` is usually the client IP,
+ * or `user:<id>` for signed-in actions.
+ */
+export async function checkRateLimit(policyName: RateLimitPolicyName, identifier: string): Promise<RateLimitResult> {
+  const policy: RateLimitPolicy = RATE_LIMITS[policyName];
+  const id = identifier.slice(0, 190);
+
+  try {
+    const { hits, windowEndsAt } = await store.hit({
+      key: `${policyName}:${id}`,
+      policy: policyName,
+      identifier: id,
+      maxHits: policy.limit,
+      windowMs: policy.windowMs,
+    });
+
+    return {
+      allowed: hits <= policy.limit,
+      limit: policy.limit,
+      remaining: Math.max(0, policy.limit - hits),
+      resetAt: windowEndsAt,
+      windowMs: policy.windowMs,
+    };
+  } catch (error) {
+    console.error(`Rate limit check failed for ${policyName}:`, error);
+    return {
+      allowed: true,
+      limit: policy.limit,
+      remaining: policy.limit,
+      resetAt: new Date(Date.now() + policy.windowMs),
+      windowMs: policy.windowMs,
+    };
+  }
+}
+
+/**
+ * Standard rate limit headers (IETF draft), plus Retry-After when blocked
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const resetSeconds = Math.max(0, Math.ceil((result.resetAt.getTime() - Date.now()) / 1000));
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(resetSeconds),
+    'RateLimit-Policy': `${result.limit};w=${Math.round(result.windowMs / 1000)}`,
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(resetSeconds);
+  }
+
+  return headers;
+}
+
+/**
+ * Check a policy for a request. Returns a ready-made 429 response when the
+ * client is over the limit; otherwise pass `headers` to the route's response.
+ *
+ *   const limited = await enforceRateLimit(request, 'register');
+ *   if (limited.response) return limited.response;
+ */
+export async function enforceRateLimit(
+  request: Request,
+  policyName: RateLimitPolicyName,
+  identifier: string = getClientIp(request) || 'unknown'
+): Promise<{ result: RateLimitResult; headers: Record<string, string>; response?: NextResponse }> {
+  const result = await checkRateLimit(policyName, identifier);
+  const headers = rateLimitHeaders(result);
+
+  if (result.allowed) {
+    return { result, headers };
+  }
+
+  return {
+    result,
+    headers,
+    response: NextResponse.json(
+      {
+        error: RATE_LIMITS[policyName].message,
+        retryAfter: Number(headers['Retry-After']),
+      },
+      { status: 429, headers }
+    ),
+  };
+}
+
+// =============================================================================
+// ADMIN
+// =============================================================================
+
+export async function listRateLimits(blockedOnly = true): Promise<RateLimitEntry[]> {
+  return store.list({ blockedOnly });
+}
+
+export async function clearRateLimit(key: string): Promise<void> {
+  await store.clear(key);
+}
+
+/**
+ * Delete counters whose window has ended
+ */
+export async function pruneRateLimits(): Promise<number> {
+  return store.prune();
+}
@@ -0,0 +1,59 @@
+/**
+ * Report Reasons
+ *
+ * What users can report and why. Reports land in `reported_content` and are
+ * worked through from the moderation queue (src/lib/reports.ts).
+ *
+ * Kept free of database imports so the report dialog can use it client-side.
+ */
+
+export const REPORTABLE_CONTENT = {
+  forum_post: 'Forum post',
+  forum_reply: 'Forum reply',
+  social_post: 'Post',
+  social_comment: 'Comment',
+  private_message: 'Message',
+  user: 'Profile',
+} as const;
+
+export type ReportableContentType = keyof typeof REPORTABLE_CONTENT;
+
+export const REPORT_REASONS = {
+  spam: 'Spam or advertising',
+  harassment: 'Harassment or bullying',
+  hate_speech: 'Hate speech',
+  inappropriate: 'Inappropriate or NSFW content',
+  scam: 'Scam or phishing',
+  impersonation: 'Impersonation',
+  cheating: 'Cheating or exploiting',
+  other: 'Something else',
+} as const;
+
+export type ReportReason = keyof typeof REPORT_REASONS;
+
+// Moderator actions that can be taken straight from the queue
+export const MODERATION_ACTIONS = ['delete', 'lock', 'warn', 'ban'] as const;
+export type ModerationAction = (typeof MODERATION_ACTIONS)[number];
+
+export function isReportableContentType(value: unknown): value is ReportableContentType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(REPORTABLE_CONTENT, value);
+}
+
+export function isReportReason(value: unknown): value is ReportReason {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(REPORT_REASONS, value);
+}
+
+/**
+ * Which queue actions make sense for a type of content
+ */
+export function getAvailableActions(contentType: string): ModerationAction[] {
+  switch (contentType) {
+    case 'forum_post':
+    case 'forum_reply':
+      return ['delete', 'lock', 'warn', 'ban'];
+    case 'user':
+      return ['warn', 'ban'];
+    default:
+      return ['delete', 'warn', 'ban'];
+  }
+}
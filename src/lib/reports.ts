@@ -0,0 +1,442 @@
+/**
+ * Content Reports
+ *
+ * Users report forum posts and replies, social posts and comments, private
+ * messages and profiles. Reports against the same piece of content collapse
+ * into one entry in the moderation queue, and the moderator's decision
+ * (plus any delete/lock/warn/ban action) is applied to all of them at once.
+ * Everyone who reported the content is told the outcome.
+ */
+
+import { db } from '@/db';
+import {
+  auditLogs, forumPosts, forumReplies, privateMessages, reportedContent,
+  socialComments, socialPosts, users,
+} from '@/db/schema';
+import { and, desc, eq, gte, inArray } from 'drizzle-orm';
+import { createNotification } from '@/lib/notifications';
+import { deleteCommentThread } from '@/lib/social-comments';
+import { issueSanction } from '@/lib/sanctions';
+import {
+  REPORTABLE_CONTENT, REPORT_REASONS, getAvailableActions, isReportReason, isReportableContentType,
+  type ModerationAction, type ReportableContentType,
+} from '@/lib/report-reasons';
+
+// Per-user cap on new reports
+const REPORTS_PER_HOUR = 10;
+const PREVIEW_LENGTH = 200;
+
+type ReportStatus = 'pending' | 'reviewed' | 'dismissed' | 'actioned';
+
+export interface ReportedContentInfo {
+  exists: boolean;
+  authorId: number | null;
+  authorUsername: string | null;
+  preview: string | null;
+  link: string | null;
+  // Forum post a reply belongs to, used for locking
+  forumPostId: number | null;
+  locked: boolean;
+  // Private messages can only be reported by their recipient
+  recipientId: number | null;
+}
+
+export interface ReportGroup {
+  key: string;
+  contentType: string;
+  contentId: number;
+  reportIds: number[];
+  reportCount: number;
+  reasons: Record<string, number>;
+  reports: {
+    id: number;
+    reporterId: number;
+    reporterUsername: string | null;
+    reason: string;
+    description: string | null;
+    createdAt: Date;
+  }[];
+  content: ReportedContentInfo;
+  availableActions: ModerationAction[];
+  firstReportedAt: Date;
+  lastReportedAt: Date;
+}
+
+function truncate(text: string | null | undefined): string | null {
+  if (!text) return null;
+  return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+}
+
+function contentLabel(contentType: string): string {
+  return (REPORTABLE_CONTENT as Record<string, string>)[contentType]?.toLowerCase() || 'content';
+}
+
+// =============================================================================
+// CONTENT LOOKUP
+// =============================================================================
+
+/**
+ * Find the reported item, who wrote it and where it lives
+ */
+export async function getReportedContent(contentType: string, contentId: number): Promise<ReportedContentInfo> {
+  const info: ReportedContentInfo = {
+    exists: false,
+    authorId: null,
+    authorUsername: null,
+    preview: null,
+    link: null,
+    forumPostId: null,
+    locked: false,
+    recipientId: null,
+  };
+
+  switch (contentType) {
+    case 'forum_post': {
+      const [post] = await db.select().from(forumPosts).where(eq(forumPosts.id, contentId));
+      if (!post) return info;
+      Object.assign(info, {
+        exists: true,
+        authorId: post.authorId,
+        preview: truncate(`${post.title}\n${post.content}`),
+        link: `/forum/post/${post.id}`,
+        forumPostId: post.id,
+        locked: post.locked,
+      });
+      break;
+    }
+    case 'forum_reply': {
+      const [reply] = await db.select().from(forumReplies).where(eq(forumReplies.id, contentId));
+      if (!reply) return info;
+      const [post] = await db.select({ locked: forumPosts.locked }).from(forumPosts).where(eq(forumPosts.id, reply.postId));
+      Object.assign(info, {
+        exists: true,
+        authorId: reply.authorId,
+        preview: truncate(reply.content),
+        link: `/forum/post/${reply.postId}`,
+        forumPostId: reply.postId,
+        locked: !!post?.locked,
+      });
+      break;
+    }
+    case 'social_post': {
+      const [post] = await db.select().from(socialPosts).where(eq(socialPosts.id, contentId));
+      if (!post) return info;
+      Object.assign(info, { exists: true, authorId: post.userId, preview: truncate(post.content), link: `/social/post/${post.id}` });
+      break;
+    }
+    case 'social_comment': {
+      const [comment] = await db.select().from(socialComments).where(eq(socialComments.id, contentId));
+      if (!comment) return info;
+      Object.assign(info, { exists: true, authorId: comment.userId, preview: truncate(comment.content), link: `/social/post/${comment.postId}` });
+      break;
+    }
+    case 'private_message': {
+      const [message] = await db.select().from(privateMessages).where(eq(privateMessages.id, contentId));
+      if (!message) return info;
+      Object.assign(info, { exists: true, authorId: message.senderId, preview: truncate(message.content), recipientId: message.recipientId });
+      break;
+    }
+    case 'user': {
+      const [user] = await db
+        .select({ id: users.id, username: users.username, bio: users.bio })
+        .from(users)
+        .where(eq(users.id, contentId));
+      if (!user) return info;
+      Object.assign(info, { exists: true, authorId: user.id, preview: truncate(user.bio), link: `/profile/${user.username}` });
+      break;
+    }
+  }
+
+  if (info.authorId) {
+    const [author] = await db.select({ username: users.username }).from(users).where(eq(users.id, info.authorId));
+    info.authorUsername = author?.username || null;
+  }
+
+  return info;
+}
+
+// =============================================================================
+// FILING REPORTS
+// =============================================================================
+
+async function notifyModerators(title: string, message: string) {
+  const moderators = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(inArray(users.role, ['moderator', 'admin', 'superadmin']));
+
+  await Promise.all(moderators.map((moderator: any) => createNotification({
+    userId: moderator.id,
+    type: 'warning',
+    title,
+    message,
+    link: '/admin/moderation',
+  })));
+}
+
+/**
+ * File a report on behalf of a user. Repeat reports of the same content by
+ * the same user are rejected; moderators are only pinged for the first
+ * pending report on a piece of content.
+ */
+export async function fileReport(
+  reporterId: number,
+  input: { contentType: unknown; contentId: unknown; reason: unknown; description?: string | null }
+): Promise<{ error?: string; status?: number; report?: typeof reportedContent.$inferSelect }> {
+  const contentId = typeof input.contentId === 'number' ? input.contentId : parseInt(String(input.contentId));
+  if (!isReportableContentType(input.contentType) || !contentId || isNaN(contentId)) {
+    return { error: 'Invalid content', status: 400 };
+  }
+  if (!isReportReason(input.reason)) {
+    return { error: 'Please choose a reason', status: 400 };
+  }
+  const contentType: ReportableContentType = input.contentType;
+
+  const since = new Date(Date.now() - 60 * 60 * 1000);
+  const recent = await db
+    .select({ id: reportedContent.id })
+    .from(reportedContent)
+    .where(and(eq(reportedContent.reporterId, reporterId), gte(reportedContent.createdAt, since)));
+  if (recent.length >= REPORTS_PER_HOUR) {
+    return { error: 'You have sent too many reports. Please try again later.', status: 429 };
+  }
+
+  const content = await getReportedContent(contentType, contentId);
+  if (!content.exists) {
+    return { error: 'Content not found', status: 404 };
+  }
+  if (content.authorId === reporterId) {
+    return { error: 'You cannot report your own content', status: 400 };
+  }
+  if (contentType === 'private_message' && content.recipientId !== reporterId) {
+    return { error: 'You can only report messages sent to you', status: 403 };
+  }
+
+  const pending = await db
+    .select({ id: reportedContent.id, reporterId: reportedContent.reporterId })
+    .from(reportedContent)
+    .where(and(
+      eq(reportedContent.contentType, contentType),
+      eq(reportedContent.contentId, contentId),
+      eq(reportedContent.status, 'pending')
+    ));
+  if (pending.some((report: any) => report.reporterId === reporterId)) {
+    return { error: 'You have already reported this. Our moderators will review it soon.', status: 409 };
+  }
+
+  const [report] = await db.insert(reportedContent).values({
+    contentType,
+    contentId,
+    reporterId,
+    reason: input.reason,
+    description: input.description || null,
+  }).returning();
+
+  if (pending.length === 0) {
+    await notifyModerators(
+      'New Report',
+      `A ${contentLabel(contentType)}${content.authorUsername ? ` by ${content.authorUsername}` : ''} was reported for ${REPORT_REASONS[input.reason].toLowerCase()}`
+    );
+  }
+
+  return { report };
+}
+
+// =============================================================================
+// MODERATION QUEUE
+// =============================================================================
+
+/**
+ * Pending reports grouped by the content they're about, most reported first
+ */
+export async function getReportQueue(): Promise<ReportGroup[]> {
+  const rows = await db
+    .select({
+      id: reportedContent.id,
+      contentType: reportedContent.contentType,
+      contentId: reportedContent.contentId,
+      reporterId: reportedContent.reporterId,
+      reporterUsername: users.username,
+      reason: reportedContent.reason,
+      description: reportedContent.description,
+      createdAt: reportedContent.createdAt,
+    })
+    .from(reportedContent)
+    .leftJoin(users, eq(reportedContent.reporterId, users.id))
+    .where(eq(reportedContent.status, 'pending'))
+    .orderBy(desc(reportedContent.createdAt))
+    .limit(500);
+
+  const groups = new Map<string, Omit<ReportGroup, 'content'>>();
+  for (const row of rows) {
+    const key = `${row.contentType}:${row.contentId}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        contentType: row.contentType,
+        contentId: row.contentId,
+        reportIds: [],
+        reportCount: 0,
+        reasons: {},
+        reports: [],
+        availableActions: getAvailableActions(row.contentType),
+        firstReportedAt: row.createdAt,
+        lastReportedAt: row.createdAt,
+      };
+      groups.set(key, group);
+    }
+    group.reportIds.push(row.id);
+    group.reportCount++;
+    group.reasons[row.reason] = (group.reasons[row.reason] || 0) + 1;
+    group.reports.push(row);
+    // Rows are newest first
+    group.firstReportedAt = row.createdAt;
+  }
+
+  const queue = await Promise.all([...groups.values()].map(async (group) => ({
+    ...group,
+    content: await getReportedContent(group.contentType, group.contentId),
+  })));
+
+  return queue.sort((a, b) =>
+    b.reportCount - a.reportCount || new Date(b.lastReportedAt).getTime() - new Date(a.lastReportedAt).getTime()
+  );
+}
+
+async function applyModerationAction(
+  action: ModerationAction,
+  contentType: string,
+  contentId: number,
+  content: ReportedContentInfo,
+  moderator: { id: number; role: string },
+  reason: string,
+  banHours: number | null
+): Promise<string | null> {
+  if (!getAvailableActions(contentType).includes(action)) {
+    return `Cannot ${action} this kind of content`;
+  }
+
+  const log = (logAction: string, resource: string, resourceId: number, details: Record<string, unknown>) =>
+    db.insert(auditLogs).values({
+      userId: moderator.id,
+      action: logAction,
+      resource,
+      resourceId: resourceId.toString(),
+      details: JSON.stringify({ ...details, reason, source: 'report' }),
+    });
+
+  switch (action) {
+    case 'delete': {
+      if (!content.exists) return null;
+      if (contentType === 'forum_post') await db.delete(forumPosts).where(eq(forumPosts.id, contentId));
+      if (contentType === 'forum_reply') await db.delete(forumReplies).where(eq(forumReplies.id, contentId));
+      if (contentType === 'social_post') await db.delete(socialPosts).where(eq(socialPosts.id, contentId));
+      if (contentType === 'social_comment') await deleteCommentThread(contentId);
+      if (contentType === 'private_message') await db.delete(privateMessages).where(eq(privateMessages.id, contentId));
+      await log('delete_content', contentType, contentId, { authorId: content.authorId, preview: content.preview });
+      return null;
+    }
+    case 'lock': {
+      if (!content.forumPostId) return 'Post not found';
+      if (!content.locked) {
+        await db.update(forumPosts).set({ locked: true, updatedAt: new Date() }).where(eq(forumPosts.id, content.forumPostId));
+        await log('lock_post', 'forum_post', content.forumPostId, {});
+      }
+      return null;
+    }
+    case 'warn':
+    case 'ban': {
+      if (!content.authorId) return 'Author not found';
+      const label = contentLabel(contentType);
+      const result = await issueSanction(moderator, {
+        userId: content.authorId,
+        type: action === 'warn' ? 'warning' : banHours ? 'temp_ban' : 'permanent_ban',
+        reason: reason || (action === 'warn'
+          ? `Your ${label} broke the community rules. Please review them before posting again.`
+          : `Breaking the community rules (${label})`),
+        durationHours: banHours,
+        link: content.link || undefined,
+        details: { contentType, contentId, source: 'report' },
+      });
+      return result.error || null;
+    }
+  }
+}
+
+/**
+ * Close every pending report on the same content as `reportId`, optionally
+ * acting on the content first, and let the reporters know the outcome
+ */
+export async function resolveReport(
+  reportId: number,
+  status: ReportStatus,
+  moderator: { id: number; role: string },
+  options: { action?: ModerationAction; notes?: string | null; banHours?: number | null } = {}
+): Promise<{ error?: string; status?: number; resolved?: number }> {
+  const [report] = await db.select().from(reportedContent).where(eq(reportedContent.id, reportId));
+  if (!report) {
+    return { error: 'Report not found', status: 404 };
+  }
+
+  const content = await getReportedContent(report.contentType, report.contentId);
+
+  if (options.action) {
+    const error = await applyModerationAction(
+      options.action, report.contentType, report.contentId, content, moderator, options.notes || '', options.banHours || null
+    );
+    if (error) return { error, status: 400 };
+  }
+
+  const pending = await db
+    .select({ id: reportedContent.id, reporterId: reportedContent.reporterId })
+    .from(reportedContent)
+    .where(and(
+      eq(reportedContent.contentType, report.contentType),
+      eq(reportedContent.contentId, report.contentId),
+      eq(reportedContent.status, 'pending')
+    ));
+  const ids = [...new Set([report.id, ...pending.map((row: any) => row.id)])];
+
+  await db
+    .update(reportedContent)
+    .set({
+      status,
+      reviewedBy: moderator.id,
+      reviewedAt: new Date(),
+      reviewNotes: options.notes || null,
+    })
+    .where(inArray(reportedContent.id, ids));
+
+  await db.insert(auditLogs).values({
+    userId: moderator.id,
+    action: `report_${status}`,
+    resource: 'report',
+    resourceId: reportId.toString(),
+    details: JSON.stringify({
+      contentType: report.contentType,
+      contentId: report.contentId,
+      reports: ids.length,
+      action: options.action || null,
+    }),
+  });
+
+  if (status !== 'pending') {
+    const label = contentLabel(report.contentType);
+    const message = status === 'actioned'
+      ? `Thanks for your report. We've taken action on the ${label} you reported.`
+      : status === 'dismissed'
+        ? `We looked at the ${label} you reported and found it doesn't break our rules.`
+        : `Our moderators have reviewed the ${label} you reported.`;
+    const reporters = [...new Set([report.reporterId, ...pending.map((row: any) => row.reporterId)])];
+
+    await Promise.all(reporters.map((reporterId) => createNotification({
+      userId: reporterId,
+      type: status === 'actioned' ? 'success' : 'info',
+      title: 'Report Reviewed',
+      message,
+    })));
+  }
+
+  return { resolved: ids.length };
+}
@@ -0,0 +1,51 @@
+/**
+ * Sanction Types
+ *
+ * Warnings, mutes and bans issued by moderators. Records live in
+ * `user_sanctions` and are managed through src/lib/sanctions.ts.
+ *
+ * Kept free of database imports so the moderation and ban notice pages can
+ * use it client-side.
+ */
+
+export const SANCTION_TYPES = {
+  warning: 'Warning',
+  mute: 'Mute',
+  temp_ban: 'Temporary ban',
+  permanent_ban: 'Permanent ban',
+} as const;
+
+export type SanctionType = keyof typeof SANCTION_TYPES;
+
+export const BAN_TYPES: SanctionType[] = ['temp_ban', 'permanent_ban'];
+
+// Preset lengths offered when muting or temp banning
+export const SANCTION_DURATIONS = [
+  { label: '1 hour', hours: 1 },
+  { label: '1 day', hours: 24 },
+  { label: '3 days', hours: 72 },
+  { label: '1 week', hours: 168 },
+  { label: '30 days', hours: 720 },
+];
+
+export function isSanctionType(value: unknown): value is SanctionType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SANCTION_TYPES, value);
+}
+
+/**
+ * Mutes and temporary bans must have an expiry, warnings and permanent bans can't
+ */
+export function needsDuration(type: SanctionType): boolean {
+  return type === 'mute' || type === 'temp_ban';
+}
+
+/**
+ * "permanently" or "until <date>", for notices and kick messages
+ */
+export function formatSanctionExpiry(expiresAt: Date | string | null): string {
+  if (!expiresAt) return 'permanently';
+  return `until ${new Date(expiresAt).toLocaleString('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  })}`;
+}
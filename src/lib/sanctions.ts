@@ -0,0 +1,495 @@
+/**
+ * User Sanctions
+ *
+ * Warnings, mutes, temporary bans and permanent bans. Each sanction is its
+ * own record with a reason, the moderator who issued it and an optional
+ * expiry, so a user's history survives after a ban is lifted. Expired
+ * sanctions are switched off by the expire-sanctions cron job.
+ *
+ * Banned users can't sign in; instead they get a link to the ban notice page
+ * (keyed by the ban's appeal token) where they can appeal through a helpdesk
+ * ticket. Muted users can still sign in but can't post.
+ */
+
+import crypto from 'crypto';
+import { db } from '@/db';
+import { auditLogs, supportTickets, ticketMessages, userSanctions, users, type UserSanction } from '@/db/schema';
+import { and, asc, desc, eq, gt, gte, inArray, isNull, lte, or, sql } from 'drizzle-orm';
+import { createNotification } from '@/lib/notifications';
+import {
+  BAN_TYPES, SANCTION_TYPES, formatSanctionExpiry, needsDuration, type SanctionType,
+} from '@/lib/sanction-types';
+
+// Longest mute or temporary ban that can be issued
+const MAX_DURATION_HOURS = 365 * 24;
+
+// Before sanction records existed, bans set users.lockedUntil to 2099-12-31
+const LEGACY_BAN_CUTOFF = new Date('2099-01-01');
+
+type Sanction = UserSanction;
+type Moderator = { id: number; role: string };
+
+export interface BanInfo {
+  type: SanctionType;
+  reason: string;
+  expiresAt: string | null;
+  permanent: boolean;
+  message: string;
+  appealUrl: string | null;
+}
+
+export function getAppealUrl(token: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL || 'https://vonix.network'}/banned?token=${token}`;
+}
+
+export function isAppealToken(value: unknown): value is string {
+  return typeof value === 'string' && /^[a-f0-9]{48}$/.test(value);
+}
+
+// =============================================================================
+// LOOKUPS
+// =============================================================================
+
+function activeWhere(types: SanctionType[], now = new Date()) {
+  return and(
+    eq(userSanctions.active, true),
+    inArray(userSanctions.type, types),
+    or(isNull(userSanctions.expiresAt), gt(userSanctions.expiresAt, now))
+  );
+}
+
+// Permanent sanctions outlast everything, then the latest expiry wins
+function longest(rows: Sanction[]): Sanction | null {
+  if (rows.length === 0) return null;
+  return rows.reduce((best, row) => {
+    if (!best.expiresAt) return best;
+    if (!row.expiresAt) return row;
+    return new Date(row.expiresAt) > new Date(best.expiresAt) ? row : best;
+  });
+}
+
+/**
+ * The ban currently keeping a user out, if any
+ */
+export async function getActiveBan(userId: number): Promise<Sanction | null> {
+  const rows = await db
+    .select()
+    .from(userSanctions)
+    .where(and(eq(userSanctions.userId, userId), activeWhere(BAN_TYPES)));
+  return longest(rows);
+}
+
+/**
+ * The mute currently stopping a user from posting, if any
+ */
+export async function getActiveMute(userId: number): Promise<Sanction | null> {
+  const rows = await db
+    .select()
+    .from(userSanctions)
+    .where(and(eq(userSanctions.userId, userId), activeWhere(['mute'])));
+  return longest(rows);
+}
+
+/**
+ * Error message for content routes that turn away muted users
+ */
+export function getMuteMessage(mute: Sanction): string {
+  return `You are muted ${formatSanctionExpiry(mute.expiresAt)}: ${mute.reason}`;
+}
+
+/**
+ * Ban details in the shape the Minecraft endpoints return, so the mod can
+ * kick the player with a useful message
+ */
+export function toBanInfo(ban: Sanction): BanInfo {
+  return {
+    type: ban.type,
+    reason: ban.reason,
+    expiresAt: ban.expiresAt ? new Date(ban.expiresAt).toISOString() : null,
+    permanent: !ban.expiresAt,
+    message: `You are banned ${formatSanctionExpiry(ban.expiresAt)}: ${ban.reason}`,
+    appealUrl: ban.appealToken ? getAppealUrl(ban.appealToken) : null,
+  };
+}
+
+async function getUsernames(ids: (number | null)[]): Promise<Map<number, string>> {
+  const unique = [...new Set(ids.filter((id): id is number => !!id))];
+  if (unique.length === 0) return new Map();
+
+  const rows = await db
+    .select({ id: users.id, username: users.username })
+    .from(users)
+    .where(inArray(users.id, unique));
+  return new Map(rows.map((row: any) => [row.id, row.username]));
+}
+
+async function withUsernames(rows: Sanction[]) {
+  const names = await getUsernames(rows.flatMap((row) => [row.userId, row.issuedBy, row.revokedBy]));
+  return rows.map((row) => ({
+    ...row,
+    username: names.get(row.userId) || 'Unknown',
+    issuedByUsername: row.issuedBy ? names.get(row.issuedBy) || 'Unknown' : 'System',
+    revokedByUsername: row.revokedBy ? names.get(row.revokedBy) || 'Unknown' : null,
+  }));
+}
+
+/**
+ * Every sanction a user has received, newest first
+ */
+export async function getUserSanctions(userId: number) {
+  const rows = await db
+    .select()
+    .from(userSanctions)
+    .where(eq(userSanctions.userId, userId))
+    .orderBy(desc(userSanctions.createdAt));
+  return withUsernames(rows);
+}
+
+/**
+ * Mutes and bans that are still in force, for the moderation panel
+ */
+export async function getActiveSanctions() {
+  const rows = await db
+    .select()
+    .from(userSanctions)
+    .where(activeWhere(['mute', 'temp_ban', 'permanent_ban']))
+    .orderBy(desc(userSanctions.createdAt));
+  return withUsernames(rows);
+}
+
+// =============================================================================
+// ISSUING & REVOKING
+// =============================================================================
+
+const VERBS: Record<SanctionType, string> = {
+  warning: 'warn',
+  mute: 'mute',
+  temp_ban: 'ban',
+  permanent_ban: 'ban',
+};
+
+/**
+ * Issue a sanction. Moderators can't sanction themselves, and only
+ * superadmins can sanction admins. `link` points the warning notification
+ * at the offending content; `details` is merged into the audit log entry.
+ */
+export async function issueSanction(
+  moderator: Moderator,
+  input: {
+    userId: number;
+    type: SanctionType;
+    reason: string;
+    durationHours?: number | null;
+    link?: string;
+    details?: Record<string, unknown>;
+  }
+): Promise<{ error?: string; status?: number; sanction?: Sanction }> {
+  const verb = VERBS[input.type];
+  const reason = input.reason.trim();
+
+  if (!reason) {
+    return { error: 'A reason is required', status: 400 };
+  }
+  if (input.userId === moderator.id) {
+    return { error: `Cannot ${verb} yourself`, status: 400 };
+  }
+
+  const [target] = await db
+    .select({ id: users.id, username: users.username, role: users.role })
+    .from(users)
+    .where(eq(users.id, input.userId));
+
+  if (!target) {
+    return { error: 'User not found', status: 404 };
+  }
+  if (['admin', 'superadmin'].includes(target.role) && moderator.role !== 'superadmin') {
+    return { error: `Cannot ${verb} admin users`, status: 403 };
+  }
+
+  let expiresAt: Date | null = null;
+  if (needsDuration(input.type)) {
+    const hours = Number(input.durationHours);
+    if (!Number.isFinite(hours) || hours <= 0 || hours > MAX_DURATION_HOURS) {
+      return { error: `Duration must be between 1 hour and ${MAX_DURATION_HOURS / 24} days`, status: 400 };
+    }
+    expiresAt = new Date(Date.now() + hours * 60 * 60 * 1000);
+  }
+
+  const [sanction] = await db.insert(userSanctions).values({
+    userId: target.id,
+    type: input.type,
+    reason,
+    issuedBy: moderator.id,
+    expiresAt,
+    appealToken: BAN_TYPES.includes(input.type) ? crypto.randomBytes(24).toString('hex') : null,
+  }).returning();
+
+  await db.insert(auditLogs).values({
+    userId: moderator.id,
+    action: `${verb}_user`,
+    resource: 'user',
+    resourceId: target.id.toString(),
+    details: JSON.stringify({
+      ...input.details,
+      username: target.username,
+      sanctionId: sanction.id,
+      type: input.type,
+      reason,
+      expiresAt: expiresAt?.toISOString() || null,
+    }),
+  });
+
+  // Banned users can't sign in to read notifications; they see the ban notice instead
+  if (input.type === 'warning') {
+    await createNotification({
+      userId: target.id,
+      type: 'warning',
+      title: 'Warning from the moderators',
+      message: reason,
+      link: input.link,
+    });
+  } else if (input.type === 'mute') {
+    await createNotification({
+      userId: target.id,
+      type: 'warning',
+      title: 'You have been muted',
+      message: `You can't post or send messages ${formatSanctionExpiry(expiresAt)}. Reason: ${reason}`,
+    });
+  }
+
+  return { sanction };
+}
+
+/**
+ * Lift a mute or ban early, e.g. after a successful appeal
+ */
+export async function revokeSanction(
+  sanctionId: number,
+  moderator: Moderator,
+  reason: string | null
+): Promise<{ error?: string; status?: number }> {
+  const [sanction]: Sanction[] = await db.select().from(userSanctions).where(eq(userSanctions.id, sanctionId));
+  if (!sanction) {
+    return { error: 'Sanction not found', status: 404 };
+  }
+  if (!sanction.active) {
+    return { error: 'Sanction is no longer active', status: 400 };
+  }
+
+  await db
+    .update(userSanctions)
+    .set({
+      active: false,
+      revokedBy: moderator.id,
+      revokedAt: new Date(),
+      revokeReason: reason,
+    })
+    .where(eq(userSanctions.id, sanctionId));
+
+  await db.insert(auditLogs).values({
+    userId: moderator.id,
+    action: 'revoke_sanction',
+    resource: 'user',
+    resourceId: sanction.userId.toString(),
+    details: JSON.stringify({ sanctionId, type: sanction.type, reason }),
+  });
+
+  if (sanction.type !== 'warning') {
+    await createNotification({
+      userId: sanction.userId,
+      type: 'success',
+      title: `${SANCTION_TYPES[sanction.type]} lifted`,
+      message: reason
+        ? `A moderator lifted your ${SANCTION_TYPES[sanction.type].toLowerCase()}: ${reason}`
+        : `A moderator lifted your ${SANCTION_TYPES[sanction.type].toLowerCase()}.`,
+    });
+  }
+
+  return {};
+}
+
+// =============================================================================
+// EXPIRY (cron)
+// =============================================================================
+
+/**
+ * Switch off mutes and temporary bans whose time is up, and convert bans
+ * made before sanction records existed (lockedUntil = 2099-12-31) into
+ * permanent ban records
+ */
+export async function liftExpiredSanctions(): Promise<{ lifted: number; migrated: number }> {
+  const now = new Date();
+
+  const expired = await db
+    .select()
+    .from(userSanctions)
+    .where(and(
+      eq(userSanctions.active, true),
+      inArray(userSanctions.type, ['mute', 'temp_ban']),
+      lte(userSanctions.expiresAt, now)
+    ));
+
+  if (expired.length > 0) {
+    await db
+      .update(userSanctions)
+      .set({ active: false })
+      .where(inArray(userSanctions.id, expired.map((row: Sanction) => row.id)));
+
+    for (const sanction of expired as Sanction[]) {
+      await createNotification({
+        userId: sanction.userId,
+        type: 'info',
+        title: `${SANCTION_TYPES[sanction.type]} ended`,
+        message: sanction.type === 'mute'
+          ? 'Your mute has ended. You can post again.'
+          : 'Your ban has ended. Welcome back, and please follow the rules.',
+      });
+    }
+  }
+
+  const legacy = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(gte(users.lockedUntil, LEGACY_BAN_CUTOFF));
+
+  for (const user of legacy) {
+    await db.insert(userSanctions).values({
+      userId: user.id,
+      type: 'permanent_ban',
+      reason: 'Banned before ban records were kept',
+      appealToken: crypto.randomBytes(24).toString('hex'),
+    });
+    await db.update(users).set({ lockedUntil: null }).where(eq(users.id, user.id));
+  }
+
+  return { lifted: expired.length, migrated: legacy.length };
+}
+
+// =============================================================================
+// BAN NOTICE & APPEALS
+// =============================================================================
+
+async function getBanByToken(token: string): Promise<Sanction | null> {
+  if (!isAppealToken(token)) return null;
+  const [ban] = await db.select().from(userSanctions).where(eq(userSanctions.appealToken, token));
+  return ban || null;
+}
+
+/**
+ * What the ban notice page shows: the ban itself, whether it's still in
+ * force and the state of the appeal, including staff replies
+ */
+export async function getBanNotice(token: string) {
+  const ban = await getBanByToken(token);
+  if (!ban) return null;
+
+  const [user] = await db.select({ username: users.username }).from(users).where(eq(users.id, ban.userId));
+  const active = ban.active && (!ban.expiresAt || new Date(ban.expiresAt) > new Date());
+
+  let appeal = null;
+  if (ban.appealTicketId) {
+    const [ticket] = await db
+      .select({ id: supportTickets.id, number: supportTickets.number, status: supportTickets.status, createdAt: supportTickets.createdAt })
+      .from(supportTickets)
+      .where(eq(supportTickets.id, ban.appealTicketId));
+
+    if (ticket) {
+      const replies = await db
+        .select({ id: ticketMessages.id, message: ticketMessages.message, createdAt: ticketMessages.createdAt })
+        .from(ticketMessages)
+        .where(and(eq(ticketMessages.ticketId, ticket.id), eq(ticketMessages.isStaffReply, true)))
+        .orderBy(asc(ticketMessages.createdAt));
+      appeal = { ...ticket, replies };
+    }
+  }
+
+  return {
+    username: user?.username || 'Unknown',
+    type: ban.type,
+    reason: ban.reason,
+    expiresAt: ban.expiresAt,
+    createdAt: ban.createdAt,
+    active,
+    revokeReason: ban.revokeReason,
+    appeal,
+  };
+}
+
+/**
+ * Open a helpdesk ticket appealing a ban. One open appeal per ban; once
+ * staff close it the user can appeal again.
+ */
+export async function submitBanAppeal(
+  token: string,
+  message: string
+): Promise<{ error?: string; status?: number; ticketId?: number; ticketNumber?: number }> {
+  const ban = await getBanByToken(token);
+  if (!ban) {
+    return { error: 'Ban not found', status: 404 };
+  }
+  if (!ban.active || (ban.expiresAt && new Date(ban.expiresAt) <= new Date())) {
+    return { error: 'This ban is no longer active', status: 400 };
+  }
+
+  if (ban.appealTicketId) {
+    const [existing] = await db
+      .select({ status: supportTickets.status })
+      .from(supportTickets)
+      .where(eq(supportTickets.id, ban.appealTicketId));
+    if (existing && existing.status !== 'closed') {
+      return { error: 'You already have an open appeal for this ban', status: 409 };
+    }
+  }
+
+  const [user] = await db.select({ username: users.username }).from(users).where(eq(users.id, ban.userId));
+  const username = user?.username || 'Unknown';
+  const [issuer] = ban.issuedBy
+    ? await db.select({ username: users.username }).from(users).where(eq(users.id, ban.issuedBy))
+    : [];
+
+  const result = await db.select({ maxNum: sql<number>`COALESCE(MAX(number), 0)` }).from(supportTickets);
+  const ticketNumber = (result[0]?.maxNum || 0) + 1;
+  const subject = `Ban appeal: ${username}`;
+
+  const [ticket] = await db.insert(supportTickets).values({
+    number: ticketNumber,
+    userId: ban.userId,
+    subject,
+    category: 'account',
+    priority: 'normal',
+    status: 'open',
+  }).returning();
+
+  await db.insert(ticketMessages).values([
+    {
+      ticketId: ticket.id,
+      message: `${SANCTION_TYPES[ban.type]} issued ${new Date(ban.createdAt).toLocaleDateString('en-US')} by ${issuer?.username || 'System'}, ${formatSanctionExpiry(ban.expiresAt)}.\nReason: ${ban.reason}`,
+      isSystemMessage: true,
+    },
+    {
+      ticketId: ticket.id,
+      userId: ban.userId,
+      message,
+      isStaffReply: false,
+    },
+  ]);
+
+  await db
+    .update(userSanctions)
+    .set({ appealTicketId: ticket.id })
+    .where(eq(userSanctions.id, ban.id));
+
+  try {
+    const { createTicketThread } = await import('@/lib/discord-integration');
+    const threadId = await createTicketThread(ticket.id, subject, username, 'account', 'normal');
+    if (threadId) {
+      await db.update(supportTickets)
+        .set({ discordThreadId: threadId })
+        .where(eq(supportTickets.id, ticket.id));
+    }
+  } catch (error) {
+    console.error('Failed to create Discord thread for ban appeal:', error);
+  }
+
+  return { ticketId: ticket.id, ticketNumber };
+}
@@ -0,0 +1,335 @@
+/**
+ * Delegated Server Access
+ *
+ * Lets staff without `servers:write` use the server panel for specific
+ * Pterodactyl servers. A grant gives one user a set of capabilities (view
+ * console, send commands, power, files, backups) on one server, identified by
+ * its Pterodactyl short identifier. Routes check grants through
+ * requireServerAccess() in auth-guard; users with `servers:write` always have
+ * every capability.
+ *
+ * A grant can optionally be mirrored to a Pterodactyl subuser so the member
+ * can also sign in to the panel itself with the same permissions. Mirroring
+ * uses the member's site email address.
+ */
+
+import { db } from '@/db';
+import { serverAccessGrants, users } from '@/db/schema';
+import { and, asc, eq } from 'drizzle-orm';
+import {
+  createSubuser,
+  deleteSubuser,
+  getPanelForServer,
+  updateSubuser,
+  type PterodactylConfig,
+} from '@/lib/pterodactyl';
+
+export const SERVER_CAPABILITIES = {
+  console: {
+    label: 'View console',
+    description: 'Live console output, online players and resource usage',
+    subuserPermissions: ['websocket.connect'],
+  },
+  command: {
+    label: 'Send commands',
+    description: 'Run console commands',
+    subuserPermissions: ['websocket.connect', 'control.console'],
+  },
+  power: {
+    label: 'Power',
+    description: 'Start, stop, restart and kill the server',
+    subuserPermissions: ['control.start', 'control.stop', 'control.restart'],
+  },
+  'files:read': {
+    label: 'Read files',
+    description: 'Browse and open files',
+    subuserPermissions: ['file.read', 'file.read-content'],
+  },
+  'files:write': {
+    label: 'Edit files',
+    description: 'Save, create, rename, compress and delete files',
+    subuserPermissions: ['file.create', 'file.update', 'file.delete', 'file.archive'],
+  },
+  backups: {
+    label: 'Backups',
+    description: 'List, create and delete backups',
+    subuserPermissions: ['backup.read', 'backup.create', 'backup.delete', 'backup.download'],
+  },
+} as const;
+
+export type ServerCapability = keyof typeof SERVER_CAPABILITIES;
+
+export const ALL_SERVER_CAPABILITIES = Object.keys(SERVER_CAPABILITIES) as ServerCapability[];
+
+// Capabilities that are useless on their own: commands are typed in the
+// console view, power buttons depend on the server state it shows, and files
+// have to be opened before they can be edited
+const IMPLIED_CAPABILITIES: Partial<Record<ServerCapability, ServerCapability[]>> = {
+  command: ['console'],
+  power: ['console'],
+  'files:write': ['files:read'],
+};
+
+export interface ServerGrant {
+  id: number;
+  userId: number;
+  username: string;
+  serverIdentifier: string;
+  serverName: string | null;
+  capabilities: ServerCapability[];
+  mirrored: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ServerGrantInput {
+  userId: number;
+  serverIdentifier: string;
+  serverName?: string | null;
+  capabilities: ServerCapability[];
+  mirrorToPanel: boolean;
+  grantedBy: number;
+}
+
+export function isServerCapability(value: unknown): value is ServerCapability {
+  return typeof value === 'string' && value in SERVER_CAPABILITIES;
+}
+
+/**
+ * Valid capabilities from a request body or stored JSON, with implied
+ * capabilities added, in display order
+ */
+export function normalizeCapabilities(value: unknown): ServerCapability[] {
+  let list: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      list = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(list)) return [];
+
+  const granted = new Set<ServerCapability>(list.filter(isServerCapability));
+  for (const capability of [...granted]) {
+    for (const implied of IMPLIED_CAPABILITIES[capability] || []) {
+      granted.add(implied);
+    }
+  }
+
+  return ALL_SERVER_CAPABILITIES.filter((capability) => granted.has(capability));
+}
+
+/**
+ * Pterodactyl subuser permissions matching a set of capabilities
+ */
+export function getSubuserPermissions(capabilities: ServerCapability[]): string[] {
+  const permissions = new Set<string>();
+  for (const capability of capabilities) {
+    for (const permission of SERVER_CAPABILITIES[capability].subuserPermissions) {
+      permissions.add(permission);
+    }
+  }
+  return [...permissions];
+}
+
+// =============================================================================
+// LOOKUPS
+// =============================================================================
+
+/**
+ * Capabilities one user has been granted on one server (empty if none)
+ */
+export async function getServerCapabilities(userId: number, serverIdentifier: string): Promise<ServerCapability[]> {
+  const [grant] = await db
+    .select({ capabilities: serverAccessGrants.capabilities })
+    .from(serverAccessGrants)
+    .where(and(eq(serverAccessGrants.userId, userId), eq(serverAccessGrants.serverIdentifier, serverIdentifier)))
+    .limit(1);
+
+  return grant ? normalizeCapabilities(grant.capabilities) : [];
+}
+
+/**
+ * Servers a user has been granted access to, keyed by Pterodactyl identifier
+ */
+export async function getUserServerGrants(userId: number): Promise<Map<string, ServerCapability[]>> {
+  const rows = await db
+    .select({
+      serverIdentifier: serverAccessGrants.serverIdentifier,
+      capabilities: serverAccessGrants.capabilities,
+    })
+    .from(serverAccessGrants)
+    .where(eq(serverAccessGrants.userId, userId));
+
+  const grants = new Map<string, ServerCapability[]>();
+  for (const row of rows) {
+    const capabilities = normalizeCapabilities(row.capabilities);
+    if (capabilities.length > 0) {
+      grants.set(row.serverIdentifier, capabilities);
+    }
+  }
+  return grants;
+}
+
+export async function listServerGrants(): Promise<ServerGrant[]> {
+  const rows = await db
+    .select({
+      grant: serverAccessGrants,
+      username: users.username,
+    })
+    .from(serverAccessGrants)
+    .innerJoin(users, eq(serverAccessGrants.userId, users.id))
+    .orderBy(asc(serverAccessGrants.serverIdentifier), asc(users.username));
+
+  return rows.map(({ grant, username }: { grant: typeof serverAccessGrants.$inferSelect; username: string }) => ({
+    id: grant.id,
+    userId: grant.userId,
+    username,
+    serverIdentifier: grant.serverIdentifier,
+    serverName: grant.serverName,
+    capabilities: normalizeCapabilities(grant.capabilities),
+    mirrored: Boolean(grant.subuserUuid),
+    createdAt: grant.createdAt,
+    updatedAt: grant.updatedAt,
+  }));
+}
+
+// =============================================================================
+// GRANT MANAGEMENT
+// =============================================================================
+
+/**
+ * Bring the Pterodactyl subuser in line with a grant. Returns the subuser
+ * UUID to store, or null when the grant is not mirrored.
+ */
+async function syncSubuser(
+  serverIdentifier: string,
+  email: string | null,
+  capabilities: ServerCapability[],
+  mirrorToPanel: boolean,
+  subuserUuid: string | null
+): Promise<string | null> {
+  if (!mirrorToPanel && !subuserUuid) return null;
+
+  const config = await getPanelForServer(serverIdentifier);
+  if (!config) {
+    throw new Error('Server not found on any Pterodactyl panel');
+  }
+
+  if (!mirrorToPanel) {
+    await removeSubuser(config, serverIdentifier, subuserUuid!);
+    return null;
+  }
+
+  const permissions = getSubuserPermissions(capabilities);
+  if (subuserUuid) {
+    await updateSubuser(config, serverIdentifier, subuserUuid, permissions);
+    return subuserUuid;
+  }
+
+  if (!email) {
+    throw new Error('The user needs an email address to be added to the panel');
+  }
+  return createSubuser(config, serverIdentifier, email, permissions);
+}
+
+async function removeSubuser(
+  config: PterodactylConfig,
+  serverIdentifier: string,
+  subuserUuid: string
+): Promise<void> {
+  try {
+    await deleteSubuser(config, serverIdentifier, subuserUuid);
+  } catch (error: any) {
+    // Already removed on the panel
+    if (!String(error?.message).includes('(404)')) throw error;
+  }
+}
+
+/**
+ * Create or replace a user's grant for a server. Subuser changes are made
+ * first so a panel error leaves the grant untouched.
+ */
+export async function saveServerGrant(input: ServerGrantInput): Promise<{ id: number; created: boolean }> {
+  const capabilities = normalizeCapabilities(input.capabilities);
+  if (capabilities.length === 0) {
+    throw new Error('Choose at least one capability');
+  }
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, input.userId),
+    columns: { id: true, email: true },
+  });
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const [existing] = await db
+    .select()
+    .from(serverAccessGrants)
+    .where(and(
+      eq(serverAccessGrants.userId, input.userId),
+      eq(serverAccessGrants.serverIdentifier, input.serverIdentifier)
+    ))
+    .limit(1);
+
+  const subuserUuid = await syncSubuser(
+    input.serverIdentifier,
+    user.email,
+    capabilities,
+    input.mirrorToPanel,
+    existing?.subuserUuid ?? null
+  );
+
+  const values = {
+    serverName: input.serverName ?? existing?.serverName ?? null,
+    capabilities: JSON.stringify(capabilities),
+    subuserUuid,
+    grantedBy: input.grantedBy,
+    updatedAt: new Date(),
+  };
+
+  if (existing) {
+    await db.update(serverAccessGrants).set(values).where(eq(serverAccessGrants.id, existing.id));
+    return { id: existing.id, created: false };
+  }
+
+  await db.insert(serverAccessGrants).values({
+    ...values,
+    userId: input.userId,
+    serverIdentifier: input.serverIdentifier,
+  });
+
+  const [created] = await db
+    .select({ id: serverAccessGrants.id })
+    .from(serverAccessGrants)
+    .where(and(
+      eq(serverAccessGrants.userId, input.userId),
+      eq(serverAccessGrants.serverIdentifier, input.serverIdentifier)
+    ))
+    .limit(1);
+
+  return { id: created.id, created: true };
+}
+
+/**
+ * Remove a grant and its Pterodactyl subuser. Returns the removed grant, or
+ * null if it didn't exist.
+ */
+export async function revokeServerGrant(grantId: number): Promise<typeof serverAccessGrants.$inferSelect | null> {
+  const grant = await db.query.serverAccessGrants.findFirst({
+    where: eq(serverAccessGrants.id, grantId),
+  });
+  if (!grant) return null;
+
+  if (grant.subuserUuid) {
+    const config = await getPanelForServer(grant.serverIdentifier);
+    if (config) {
+      await removeSubuser(config, grant.serverIdentifier, grant.subuserUuid);
+    }
+  }
+
+  await db.delete(serverAccessGrants).where(eq(serverAccessGrants.id, grantId));
+  return grant;
+}
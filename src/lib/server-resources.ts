@@ -0,0 +1,453 @@
+/**
+ * Server Resource History
+ *
+ * Samples CPU, memory, disk and network usage from Pterodactyl for every
+ * server linked to a panel (servers.pterodactylServerId), asking whichever
+ * panel hosts it, and keeps the readings in `server_resource_samples`, next to
+ * the uptime records. The server-resources cron calls sampleServerResources()
+ * every minute.
+ *
+ * Each sample is checked against RESOURCE_ALERT_RULES. A breach opens a row
+ * in `server_resource_alerts` and DMs staff on Discord (the downtime manager
+ * role) and emails the admin address, once per breach. The alert resolves when
+ * usage drops back below the threshold.
+ */
+
+import { db } from '@/db';
+import {
+  servers,
+  serverResourceSamples,
+  serverResourceAlerts,
+  type ServerResourceSample,
+  type ServerResourceAlert,
+} from '@/db/schema';
+import { and, asc, desc, eq, gte, isNotNull, isNull, lt, ne } from 'drizzle-orm';
+import {
+  getPanelForSiteServer,
+  getServerDetails,
+  getServerResources,
+  listPterodactylPanels,
+} from '@/lib/pterodactyl';
+import { sendStaffAlertDirectMessages } from '@/lib/discord-notifications';
+import { sendAdminServerResourceAlert } from '@/lib/email';
+
+export type ResourceMetric = 'cpu' | 'memory' | 'disk';
+
+export interface ResourceAlertRule {
+  threshold: number; // Percent of the server's limit
+  sustainMinutes: number; // How long usage must stay above the threshold (0 = immediately)
+  title: string;
+  description: string;
+}
+
+export const RESOURCE_ALERT_RULES: Record<ResourceMetric, ResourceAlertRule> = {
+  memory: {
+    threshold: 90,
+    sustainMinutes: 5,
+    title: 'High Memory Usage',
+    description: 'Memory has stayed above 90% of its limit for 5 minutes. This is often a memory leak in a mod.',
+  },
+  disk: {
+    threshold: 95,
+    sustainMinutes: 0,
+    title: 'Disk Nearly Full',
+    description: 'Disk usage is above 95% of its limit. Backups and world saves may start failing.',
+  },
+  cpu: {
+    threshold: 95,
+    sustainMinutes: 10,
+    title: 'High CPU Usage',
+    description: 'CPU has stayed above 95% of its limit for 10 minutes. Players are likely seeing lag.',
+  },
+};
+
+// Open alerts resolve once usage is this many points below the threshold, so
+// a value hovering around the line doesn't flap
+const RESOLVE_MARGIN = 5;
+
+// Allowance for cron jitter when checking a sustained breach is fully covered by samples
+const SAMPLE_GRACE_MS = 90 * 1000;
+
+export const RESOURCE_SAMPLE_RETENTION_DAYS = 30;
+
+// Chart ranges and the bucket size samples are averaged into
+export const RESOURCE_RANGES = {
+  '24h': { days: 1, bucketMinutes: 5 },
+  '7d': { days: 7, bucketMinutes: 60 },
+  '30d': { days: 30, bucketMinutes: 240 },
+} as const;
+
+export type ResourceRange = keyof typeof RESOURCE_RANGES;
+
+export function isResourceRange(value: string): value is ResourceRange {
+  return value in RESOURCE_RANGES;
+}
+
+export interface ResourceHistoryPoint {
+  timestamp: string;
+  cpuPercent: number; // Average over the bucket
+  cpuPeak: number;
+  memoryMb: number;
+  memoryPeakMb: number;
+  diskMb: number;
+  networkRxKbps: number;
+  networkTxKbps: number;
+}
+
+export interface ResourceHistory {
+  points: ResourceHistoryPoint[];
+  limits: { cpu: number; memoryMb: number; diskMb: number } | null;
+  latest: ServerResourceSample | null;
+  bucketMinutes: number;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Usage of a metric as a percent of its limit, or null when the server has
+ * no limit for it (or it isn't meaningful while the server is offline)
+ */
+export function getUsagePercent(sample: ServerResourceSample, metric: ResourceMetric): number | null {
+  if (metric === 'disk') {
+    return sample.diskLimitMb > 0 ? (sample.diskMb / sample.diskLimitMb) * 100 : null;
+  }
+  if (sample.state === 'offline') return null;
+  if (metric === 'memory') {
+    return sample.memoryLimitMb > 0 ? (sample.memoryMb / sample.memoryLimitMb) * 100 : null;
+  }
+  return sample.cpuLimit > 0 ? (sample.cpuPercent / sample.cpuLimit) * 100 : null;
+}
+
+function formatMb(mb: number): string {
+  return mb >= 1024 ? `${(mb / 1024).toFixed(1)} GiB` : `${mb} MiB`;
+}
+
+function describeUsage(sample: ServerResourceSample, metric: ResourceMetric): string {
+  if (metric === 'memory') return `${formatMb(sample.memoryMb)} of ${formatMb(sample.memoryLimitMb)}`;
+  if (metric === 'disk') return `${formatMb(sample.diskMb)} of ${formatMb(sample.diskLimitMb)}`;
+  return `${sample.cpuPercent.toFixed(0)}% of ${sample.cpuLimit}%`;
+}
+
+// =============================================================================
+// ALERTS
+// =============================================================================
+
+async function notifyResourceAlert(
+  serverName: string,
+  metric: ResourceMetric,
+  sample: ServerResourceSample,
+  percent: number
+): Promise<void> {
+  const rule = RESOURCE_ALERT_RULES[metric];
+  const usage = describeUsage(sample, metric);
+
+  await sendStaffAlertDirectMessages({
+    title: `⚠️ ${rule.title}`,
+    description: `**${serverName}**: ${rule.description}`,
+    color: 0xF59E0B, // Amber
+    fields: [
+      { name: '📊 Current Usage', value: `${percent.toFixed(1)}% (${usage})`, inline: true },
+      { name: '⏰ Detected At', value: new Date().toLocaleString(), inline: true },
+    ],
+    footer: { text: 'Vonix Network Server Monitor' },
+    timestamp: new Date().toISOString(),
+  });
+
+  await sendAdminServerResourceAlert({
+    serverName,
+    title: rule.title,
+    description: rule.description,
+    currentPercent: percent,
+    usage,
+  });
+}
+
+/**
+ * Notify staff about an open alert and mark it notified. A failed send is
+ * logged and left unmarked, so the next sample tries again.
+ */
+async function deliverResourceAlert(
+  serverName: string,
+  alert: ServerResourceAlert,
+  sample: ServerResourceSample,
+  percent: number
+): Promise<void> {
+  try {
+    await notifyResourceAlert(serverName, alert.metric as ResourceMetric, sample, percent);
+  } catch (error: any) {
+    console.error(`Failed to send resource alert for ${serverName}:`, error);
+    return;
+  }
+
+  await db
+    .update(serverResourceAlerts)
+    .set({ notifiedAt: new Date() })
+    .where(eq(serverResourceAlerts.id, alert.id));
+}
+
+/**
+ * Whether a metric has stayed above its threshold for the rule's whole
+ * sustain window, judging by the samples stored for it
+ */
+async function isBreachSustained(serverId: number, metric: ResourceMetric, now: Date): Promise<boolean> {
+  const rule = RESOURCE_ALERT_RULES[metric];
+  const windowStart = now.getTime() - rule.sustainMinutes * 60 * 1000;
+
+  const samples: ServerResourceSample[] = await db
+    .select()
+    .from(serverResourceSamples)
+    .where(and(
+      eq(serverResourceSamples.serverId, serverId),
+      gte(serverResourceSamples.sampledAt, new Date(windowStart - SAMPLE_GRACE_MS))
+    ))
+    .orderBy(asc(serverResourceSamples.sampledAt));
+
+  // Not enough history yet to cover the window
+  if (samples.length === 0 || new Date(samples[0].sampledAt).getTime() > windowStart) {
+    return false;
+  }
+
+  return samples.every((sample) => (getUsagePercent(sample, metric) ?? 0) >= rule.threshold);
+}
+
+/**
+ * Open, update or resolve a server's alerts after a new sample
+ */
+async function evaluateResourceAlerts(
+  server: { id: number; name: string },
+  sample: ServerResourceSample,
+  now: Date
+): Promise<{ opened: number; resolved: number }> {
+  let opened = 0;
+  let resolved = 0;
+
+  const openAlerts: ServerResourceAlert[] = await db
+    .select()
+    .from(serverResourceAlerts)
+    .where(and(eq(serverResourceAlerts.serverId, server.id), isNull(serverResourceAlerts.resolvedAt)));
+
+  for (const metric of Object.keys(RESOURCE_ALERT_RULES) as ResourceMetric[]) {
+    const rule = RESOURCE_ALERT_RULES[metric];
+    const percent = getUsagePercent(sample, metric);
+    const open = openAlerts.find((alert) => alert.metric === metric);
+
+    if (open) {
+      if (percent === null || percent < rule.threshold - RESOLVE_MARGIN) {
+        await db
+          .update(serverResourceAlerts)
+          .set({ resolvedAt: now })
+          .where(eq(serverResourceAlerts.id, open.id));
+        resolved++;
+      } else {
+        if (percent > open.peakPercent) {
+          await db
+            .update(serverResourceAlerts)
+            .set({ peakPercent: percent })
+            .where(eq(serverResourceAlerts.id, open.id));
+        }
+        if (!open.notifiedAt) {
+          await deliverResourceAlert(server.name, open, sample, percent);
+        }
+      }
+      continue;
+    }
+
+    if (percent === null || percent < rule.threshold) continue;
+    if (!(await isBreachSustained(server.id, metric, now))) continue;
+
+    const [alert] = await db
+      .insert(serverResourceAlerts)
+      .values({ serverId: server.id, metric, threshold: rule.threshold, peakPercent: percent, startedAt: now })
+      .returning();
+    opened++;
+
+    console.log(`   ⚠️ ${server.name}: ${rule.title} (${percent.toFixed(1)}%)`);
+    await deliverResourceAlert(server.name, alert, sample, percent);
+  }
+
+  return { opened, resolved };
+}
+
+// =============================================================================
+// SAMPLING
+// =============================================================================
+
+/**
+ * Record one sample for every linked server, check alert thresholds and
+ * delete samples past the retention period
+ */
+export async function sampleServerResources(): Promise<{
+  sampled: number;
+  failed: number;
+  alertsOpened: number;
+  alertsResolved: number;
+  pruned: number;
+  skipped?: string;
+}> {
+  const result = { sampled: 0, failed: 0, alertsOpened: 0, alertsResolved: 0, pruned: 0 };
+
+  const panels = await listPterodactylPanels();
+  if (panels.length === 0) {
+    return { ...result, skipped: 'Pterodactyl is not configured' };
+  }
+
+  const linkedServers = await db
+    .select({
+      id: servers.id,
+      name: servers.name,
+      pterodactylServerId: servers.pterodactylServerId,
+      pterodactylPanelId: servers.pterodactylPanelId,
+      pterodactylPanelUrl: servers.pterodactylPanelUrl,
+      maintenanceMode: servers.maintenanceMode,
+    })
+    .from(servers)
+    .where(and(isNotNull(servers.pterodactylServerId), ne(servers.pterodactylServerId, '')));
+
+  const now = new Date();
+
+  for (const server of linkedServers) {
+    try {
+      const config = await getPanelForSiteServer(server);
+      if (!config) {
+        throw new Error(`No Pterodactyl panel hosts ${server.pterodactylServerId}`);
+      }
+
+      const [resources, details] = await Promise.all([
+        getServerResources(config, server.pterodactylServerId!),
+        getServerDetails(config, server.pterodactylServerId!),
+      ]);
+
+      const [sample]: ServerResourceSample[] = await db
+        .insert(serverResourceSamples)
+        .values({
+          serverId: server.id,
+          state: resources.currentState,
+          cpuPercent: resources.resources.cpuAbsolute,
+          cpuLimit: details.limits.cpu,
+          memoryMb: Math.round(resources.resources.memoryBytes / 1024 / 1024),
+          memoryLimitMb: details.limits.memory,
+          diskMb: Math.round(resources.resources.diskBytes / 1024 / 1024),
+          diskLimitMb: details.limits.disk,
+          networkRxKb: Math.round(resources.resources.networkRxBytes / 1024),
+          networkTxKb: Math.round(resources.resources.networkTxBytes / 1024),
+          sampledAt: now,
+        })
+        .returning();
+      result.sampled++;
+
+      // Servers in maintenance are often stopped or reinstalled on purpose
+      if (!server.maintenanceMode) {
+        const { opened, resolved } = await evaluateResourceAlerts(server, sample, now);
+        result.alertsOpened += opened;
+        result.alertsResolved += resolved;
+      }
+    } catch (error: any) {
+      console.error(`Failed to sample resources for ${server.name}:`, error);
+      result.failed++;
+    }
+  }
+
+  const cutoff = new Date(now.getTime() - RESOURCE_SAMPLE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const pruned = await db
+    .delete(serverResourceSamples)
+    .where(lt(serverResourceSamples.sampledAt, cutoff))
+    .returning({ id: serverResourceSamples.id });
+  result.pruned = pruned.length;
+
+  return result;
+}
+
+// =============================================================================
+// READING
+// =============================================================================
+
+/**
+ * Samples for a server over a range, averaged into chart buckets. Network
+ * counters reset when the server restarts, so rates skip those gaps.
+ */
+export async function getResourceHistory(serverId: number, range: ResourceRange): Promise<ResourceHistory> {
+  const { days, bucketMinutes } = RESOURCE_RANGES[range];
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const bucketMs = bucketMinutes * 60 * 1000;
+
+  const samples: ServerResourceSample[] = await db
+    .select()
+    .from(serverResourceSamples)
+    .where(and(eq(serverResourceSamples.serverId, serverId), gte(serverResourceSamples.sampledAt, since)))
+    .orderBy(asc(serverResourceSamples.sampledAt));
+
+  const buckets = new Map<number, {
+    count: number;
+    cpu: number;
+    cpuPeak: number;
+    memory: number;
+    memoryPeak: number;
+    disk: number;
+    rxKb: number;
+    txKb: number;
+    seconds: number;
+  }>();
+
+  let previous: ServerResourceSample | null = null;
+  for (const sample of samples) {
+    const time = new Date(sample.sampledAt).getTime();
+    const key = Math.floor(time / bucketMs) * bucketMs;
+    const bucket = buckets.get(key) || { count: 0, cpu: 0, cpuPeak: 0, memory: 0, memoryPeak: 0, disk: 0, rxKb: 0, txKb: 0, seconds: 0 };
+
+    bucket.count++;
+    bucket.cpu += sample.cpuPercent;
+    bucket.cpuPeak = Math.max(bucket.cpuPeak, sample.cpuPercent);
+    bucket.memory += sample.memoryMb;
+    bucket.memoryPeak = Math.max(bucket.memoryPeak, sample.memoryMb);
+    bucket.disk += sample.diskMb;
+
+    if (previous && sample.networkRxKb >= previous.networkRxKb && sample.networkTxKb >= previous.networkTxKb) {
+      bucket.rxKb += sample.networkRxKb - previous.networkRxKb;
+      bucket.txKb += sample.networkTxKb - previous.networkTxKb;
+      bucket.seconds += (time - new Date(previous.sampledAt).getTime()) / 1000;
+    }
+
+    buckets.set(key, bucket);
+    previous = sample;
+  }
+
+  const points: ResourceHistoryPoint[] = [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([key, bucket]) => ({
+      timestamp: new Date(key).toISOString(),
+      cpuPercent: Math.round((bucket.cpu / bucket.count) * 10) / 10,
+      cpuPeak: Math.round(bucket.cpuPeak * 10) / 10,
+      memoryMb: Math.round(bucket.memory / bucket.count),
+      memoryPeakMb: bucket.memoryPeak,
+      diskMb: Math.round(bucket.disk / bucket.count),
+      networkRxKbps: bucket.seconds > 0 ? Math.round((bucket.rxKb / bucket.seconds) * 10) / 10 : 0,
+      networkTxKbps: bucket.seconds > 0 ? Math.round((bucket.txKb / bucket.seconds) * 10) / 10 : 0,
+    }));
+
+  const latest = samples[samples.length - 1] || null;
+
+  return {
+    points,
+    limits: latest
+      ? { cpu: latest.cpuLimit, memoryMb: latest.memoryLimitMb, diskMb: latest.diskLimitMb }
+      : null,
+    latest,
+    bucketMinutes,
+  };
+}
+
+/**
+ * Recent alerts, open ones first
+ */
+export async function listResourceAlerts(options: { serverId?: number; limit?: number } = {}): Promise<ServerResourceAlert[]> {
+  const alerts: ServerResourceAlert[] = await db
+    .select()
+    .from(serverResourceAlerts)
+    .where(options.serverId ? eq(serverResourceAlerts.serverId, options.serverId) : undefined)
+    .orderBy(desc(serverResourceAlerts.startedAt))
+    .limit(options.limit ?? 50);
+
+  return alerts.sort((a, b) => Number(a.resolvedAt !== null) - Number(b.resolvedAt !== null));
+}
@@ -6,6 +6,7 @@
 import { db } from '@/db';
 import { siteSettings } from '@/db/schema';
 import { eq } from 'drizzle-orm';
+import { logAudit, maskSecret } from '@/lib/audit-log';
 
 // Cache settings in memory for performance
 let settingsCache: Record<string, string> = {};
@@ -88,10 +89,13 @@ export async function getSettingsByCategory(category: string): Promise<Record<st
 }
 
 /**
- * Set a setting value
+ * Set a setting value. Pass the acting user's ID to record the change in the
+ * audit log.
  */
-export async function setSetting(key: string, value: string): Promise<void> {
+export async function setSetting(key: string, value: string, actorId?: number | string): Promise<void> {
   try {
+    const previous = actorId ? await getSetting(key) : null;
+
     await db
       .update(siteSettings)
       .set({
@@ -102,6 +106,15 @@ export async function setSetting(key: string, value: string): Promise<void> {
 
     // Clear cache
     delete settingsCache[key];
+
+    if (actorId && previous !== value) {
+      await logAudit({
+        userId: actorId,
+        action: 'update_settings',
+        resource: 'settings',
+        details: { changes: { [key]: { from: maskSecret(key, previous), to: maskSecret(key, value) } } },
+      });
+    }
   } catch (error: any) {
     console.error(`Error setting ${key}:`, error);
   }
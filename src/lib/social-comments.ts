@@ -0,0 +1,172 @@
+/**
+ * Social Comments
+ *
+ * Comments on social posts form threads through parent_comment_id. Threads
+ * are capped at MAX_COMMENT_DEPTH levels; replying to a comment at the
+ * deepest level adds a sibling to it instead of nesting further, so long
+ * back-and-forths stay readable on narrow screens.
+ */
+
+import { db } from '@/db';
+import { socialComments, socialCommentLikes, socialPosts, users } from '@/db/schema';
+import { and, asc, eq, inArray, sql } from 'drizzle-orm';
+
+// Top-level comments are depth 0
+export const MAX_COMMENT_DEPTH = 3;
+export const MAX_COMMENT_LENGTH = 500;
+
+export interface SocialCommentNode {
+  id: number;
+  postId: number;
+  parentCommentId: number | null;
+  content: string;
+  likesCount: number;
+  createdAt: Date;
+  userId: number;
+  username: string | null;
+  minecraftUsername: string | null;
+  userRole: string | null;
+  userLiked: boolean;
+  depth: number;
+  replies: SocialCommentNode[];
+}
+
+// =============================================================================
+// THREADING
+// =============================================================================
+
+/**
+ * Depth of a comment in its thread, walking up through its parents
+ */
+export async function getCommentDepth(commentId: number): Promise<number> {
+  let depth = 0;
+  let currentId: number | null = commentId;
+
+  while (currentId !== null && depth <= MAX_COMMENT_DEPTH) {
+    const [row]: { parentCommentId: number | null }[] = await db
+      .select({ parentCommentId: socialComments.parentCommentId })
+      .from(socialComments)
+      .where(eq(socialComments.id, currentId));
+
+    if (!row?.parentCommentId) break;
+    currentId = row.parentCommentId;
+    depth++;
+  }
+
+  return depth;
+}
+
+/**
+ * Resolve which comment a new reply should hang off. Replies to comments at
+ * the maximum depth are re-parented to that comment's own parent.
+ */
+export async function resolveReplyParent(parent: { id: number; parentCommentId: number | null }): Promise<number> {
+  const depth = await getCommentDepth(parent.id);
+  if (depth >= MAX_COMMENT_DEPTH && parent.parentCommentId) {
+    return parent.parentCommentId;
+  }
+  return parent.id;
+}
+
+/**
+ * Arrange a flat, oldest-first list of comments into threads
+ */
+export function buildCommentTree(comments: Omit<SocialCommentNode, 'depth' | 'replies'>[]): SocialCommentNode[] {
+  const byId = new Map<number, SocialCommentNode>();
+  for (const comment of comments) {
+    byId.set(comment.id, { ...comment, depth: 0, replies: [] });
+  }
+
+  const roots: SocialCommentNode[] = [];
+  for (const node of byId.values()) {
+    const parent = node.parentCommentId ? byId.get(node.parentCommentId) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      // Orphans (parent deleted) are shown at the top level
+      roots.push(node);
+    }
+  }
+
+  const setDepth = (nodes: SocialCommentNode[], depth: number) => {
+    for (const node of nodes) {
+      node.depth = depth;
+      setDepth(node.replies, depth + 1);
+    }
+  };
+  setDepth(roots, 0);
+
+  return roots;
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * All comments on a post as threads, with whether the viewer liked each one
+ */
+export async function getPostComments(postId: number, viewerId: number | null): Promise<SocialCommentNode[]> {
+  const rows = await db
+    .select({
+      id: socialComments.id,
+      postId: socialComments.postId,
+      parentCommentId: socialComments.parentCommentId,
+      content: socialComments.content,
+      likesCount: socialComments.likesCount,
+      createdAt: socialComments.createdAt,
+      userId: socialComments.userId,
+      username: users.username,
+      minecraftUsername: users.minecraftUsername,
+      userRole: users.role,
+    })
+    .from(socialComments)
+    .leftJoin(users, eq(socialComments.userId, users.id))
+    .where(eq(socialComments.postId, postId))
+    .orderBy(asc(socialComments.createdAt), asc(socialComments.id));
+
+  let liked = new Set<number>();
+  if (viewerId && rows.length > 0) {
+    const likes = await db
+      .select({ commentId: socialCommentLikes.commentId })
+      .from(socialCommentLikes)
+      .where(and(
+        eq(socialCommentLikes.userId, viewerId),
+        inArray(socialCommentLikes.commentId, rows.map((row: any) => row.id))
+      ));
+    liked = new Set(likes.map((like: any) => like.commentId));
+  }
+
+  return buildCommentTree(rows.map((row: any) => ({ ...row, userLiked: liked.has(row.id) })));
+}
+
+/**
+ * Delete a comment together with the replies under it, keeping the post's
+ * comment count in step. Returns how many comments were removed.
+ */
+export async function deleteCommentThread(commentId: number): Promise<number> {
+  const [comment] = await db
+    .select({ id: socialComments.id, postId: socialComments.postId })
+    .from(socialComments)
+    .where(eq(socialComments.id, commentId));
+  if (!comment) return 0;
+
+  const ids = [comment.id];
+  let frontier = [comment.id];
+  while (frontier.length > 0) {
+    const children = await db
+      .select({ id: socialComments.id })
+      .from(socialComments)
+      .where(inArray(socialComments.parentCommentId, frontier));
+    frontier = children.map((child: any) => child.id);
+    ids.push(...frontier);
+  }
+
+  await db.delete(socialComments).where(inArray(socialComments.id, ids));
+  await db
+    .update(socialPosts)
+    .set({ commentsCount: sql`CASE WHEN COALESCE(${socialPosts.commentsCount}, 0) > ${ids.length} THEN COALESCE(${socialPosts.commentsCount}, 0) - ${ids.length} ELSE 0 END` })
+    .where(eq(socialPosts.id, comment.postId));
+
+  return ids.length;
+}
@@ -12,6 +12,14 @@ interface Message {
     createdAt: string;
 }
 
+interface Notification {
+    id: number;
+    type: string;
+    title: string;
+    message: string;
+    link: string | null;
+}
+
 interface SocketContextType {
     socket: Socket | null;
     isConnected: boolean;
@@ -19,6 +27,7 @@ interface SocketContextType {
     leaveConversation: (otherUserId: number) => void;
     onNewMessage: (callback: (message: Message) => void) => () => void;
     onMessageSent: (callback: (message: Message) => void) => () => void;
+    onNotification: (callback: (notification: Notification) => void) => () => void;
 }
 
 const SocketContext = createContext<SocketContextType>({
@@ -28,6 +37,7 @@ const SocketContext = createContext<SocketContextType>({
     leaveConversation: () => { },
     onNewMessage: () => () => { },
     onMessageSent: () => () => { },
+    onNotification: () => () => { },
 });
 
 export function useSocket() {
@@ -114,6 +124,15 @@ export function SocketProvider({ children }: SocketProviderProps) {
         };
     }, [socket]);
 
+    const onNotification = useCallback((callback: (notification: Notification) => void) => {
+        if (!socket) return () => { };
+
+        socket.on('notification:new', callback);
+        return () => {
+            socket.off('notification:new', callback);
+        };
+    }, [socket]);
+
     return (
         <SocketContext.Provider value={{
             socket,
@@ -122,6 +141,7 @@ export function SocketProvider({ children }: SocketProviderProps) {
             leaveConversation,
             onNewMessage,
             onMessageSent,
+            onNotification,
         }}>
             {children}
         </SocketContext.Provider>
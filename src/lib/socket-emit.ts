@@ -49,3 +49,11 @@ export function emitDiscordMessage(message: any) {
     console.log(`Emitted Discord message to discord-chat room: ${message.id}`);
 }
 
+
+// Emit a freshly created notification to the user's personal room
+export function emitNotification(userId: number, notification: any) {
+    const io = getIO();
+    if (!io) return;
+
+    io.to(`user:${userId}`).emit('notification:new', notification);
+}
@@ -608,6 +608,26 @@ export async function cancelSquareSubscription(subscriptionId: string): Promise<
     console.log(`Canceled Square subscription ${subscriptionId}`);
 }
 
+/**
+ * Pause a Square subscription indefinitely (takes effect at the next billing date)
+ */
+export async function pauseSquareSubscription(subscriptionId: string): Promise<void> {
+    const client = await getSquareClient();
+
+    await client.subscriptionsApi.pauseSubscription(subscriptionId, {});
+    console.log(`Paused Square subscription ${subscriptionId}`);
+}
+
+/**
+ * Resume a paused Square subscription
+ */
+export async function resumeSquareSubscription(subscriptionId: string): Promise<void> {
+    const client = await getSquareClient();
+
+    await client.subscriptionsApi.resumeSubscription(subscriptionId, {});
+    console.log(`Resumed Square subscription ${subscriptionId}`);
+}
+
 /**
  * Retrieve subscription details
  */
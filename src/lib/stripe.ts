@@ -504,6 +504,21 @@ export async function cancelSubscription(
   });
 }
 
+/**
+ * Pause or resume billing on a subscription. Invoices are voided while
+ * paused, so the customer isn't charged for time they aren't using.
+ */
+export async function setSubscriptionCollectionPaused(
+  subscriptionId: string,
+  paused: boolean
+): Promise<Stripe.Subscription> {
+  const stripe = await getStripeAsync();
+
+  return stripe.subscriptions.update(subscriptionId, {
+    pause_collection: paused ? { behavior: 'void' } : '',
+  });
+}
+
 /**
  * Get subscription details
  */
@@ -0,0 +1,160 @@
+/**
+ * Ticket Satisfaction Surveys
+ *
+ * When staff close a ticket the opener gets a one-time rating link: by email
+ * for web users and guests, and by Discord DM for Discord-only openers. The
+ * link carries a random token stored on the ticket so guests can rate without
+ * an account. Openers who close their own Discord ticket are already asked in
+ * the close modal and aren't surveyed again.
+ */
+
+import { randomBytes } from 'crypto';
+import { db } from '@/db';
+import { supportTickets, ticketCategories, ticketFeedback, users } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { createNotification } from '@/lib/notifications';
+import { sendTicketFeedbackEmail } from '@/lib/email';
+import { trackAchievementProgress } from '@/lib/achievements';
+
+export function getFeedbackUrl(token: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL || 'https://vonix.network'}/helpdesk/feedback?token=${token}`;
+}
+
+/**
+ * The staff member a ticket's rating is credited to: whoever it was assigned
+ * to, otherwise whoever claimed it
+ */
+export function getCreditedStaffId(ticket: { assignedTo: number | null; claimedById: number | null }): number | null {
+  return ticket.assignedTo ?? ticket.claimedById ?? null;
+}
+
+// =============================================================================
+// REQUESTING FEEDBACK
+// =============================================================================
+
+/**
+ * Send the opener of a just-closed ticket a rating link. Safe to call more
+ * than once; each ticket is only ever surveyed once.
+ */
+export async function requestTicketFeedback(ticketId: number): Promise<boolean> {
+  try {
+    const [ticket] = await db.select().from(supportTickets).where(eq(supportTickets.id, ticketId));
+    if (!ticket || ticket.feedbackRequestedAt) return false;
+
+    // Opener closed it themselves on Discord and saw the feedback modal
+    if (ticket.discordUserId && ticket.closedByDiscordId === ticket.discordUserId) return false;
+
+    if (ticket.categoryId) {
+      const [category] = await db
+        .select({ feedbackEnabled: ticketCategories.feedbackEnabled })
+        .from(ticketCategories)
+        .where(eq(ticketCategories.id, ticket.categoryId));
+      if (category && category.feedbackEnabled === false) return false;
+    }
+
+    const [existing] = await db
+      .select({ id: ticketFeedback.id })
+      .from(ticketFeedback)
+      .where(eq(ticketFeedback.ticketId, ticketId));
+    if (existing) return false;
+
+    const token = randomBytes(24).toString('hex');
+    await db
+      .update(supportTickets)
+      .set({ feedbackToken: token, feedbackRequestedAt: new Date() })
+      .where(eq(supportTickets.id, ticketId));
+
+    const displayNumber = ticket.number || ticket.id;
+    let delivered = false;
+
+    if (ticket.userId) {
+      const [user] = await db
+        .select({ username: users.username, email: users.email })
+        .from(users)
+        .where(eq(users.id, ticket.userId));
+
+      await createNotification({
+        userId: ticket.userId,
+        type: 'info',
+        title: 'How did we do?',
+        message: `Your ticket #${displayNumber} was closed. Let us know how our support team did.`,
+        link: `/helpdesk/feedback?token=${token}`,
+      });
+      delivered = true;
+
+      if (user?.email) {
+        await sendTicketFeedbackEmail(user.email, user.username, displayNumber, token);
+      }
+    } else if (ticket.guestEmail) {
+      delivered = await sendTicketFeedbackEmail(ticket.guestEmail, ticket.guestName || 'there', displayNumber, token);
+    }
+
+    if (!delivered && ticket.discordUserId) {
+      const { sendTicketDirectMessage } = await import('@/lib/discord-tickets');
+      delivered = await sendTicketDirectMessage(
+        ticket.discordUserId,
+        {
+          title: '⭐ How did we do?',
+          description: `Your ticket #${displayNumber} (**${ticket.subject}**) was closed. We'd love a quick rating of your support experience.`,
+        },
+        { label: 'Rate your support', url: getFeedbackUrl(token) }
+      );
+    }
+
+    return delivered;
+  } catch (error: any) {
+    console.error(`Failed to request feedback for ticket ${ticketId}:`, error);
+    return false;
+  }
+}
+
+// =============================================================================
+// SUBMITTING FEEDBACK
+// =============================================================================
+
+export async function getTicketByFeedbackToken(token: string) {
+  if (!/^[a-f0-9]{48}$/.test(token)) return null;
+
+  const [ticket] = await db
+    .select()
+    .from(supportTickets)
+    .where(eq(supportTickets.feedbackToken, token));
+  if (!ticket) return null;
+
+  const [feedback] = await db
+    .select()
+    .from(ticketFeedback)
+    .where(eq(ticketFeedback.ticketId, ticket.id));
+
+  return { ticket, feedback: feedback || null };
+}
+
+/**
+ * Record a rating from a survey link. Returns an error message if the link
+ * is invalid or was already used.
+ */
+export async function submitTicketFeedback(
+  token: string,
+  rating: number,
+  comment: string | null
+): Promise<{ error?: string }> {
+  const found = await getTicketByFeedbackToken(token);
+  if (!found) return { error: 'This feedback link is invalid or has expired' };
+  if (found.feedback) return { error: 'Feedback has already been submitted for this ticket' };
+
+  const { ticket } = found;
+  await db.insert(ticketFeedback).values({
+    ticketId: ticket.id,
+    rating,
+    comment,
+    userId: ticket.userId,
+    discordUserId: ticket.discordUserId,
+  });
+
+  const staffId = getCreditedStaffId(ticket);
+  if (staffId && rating === 5) {
+    trackAchievementProgress(staffId, 'five_star_tickets');
+  }
+
+  return {};
+}
@@ -0,0 +1,439 @@
+/**
+ * Ticket Lifecycle & SLA
+ *
+ * Acts on the stale/auto-close/working-hours fields of ticket_settings:
+ * - runTicketLifecycle() pings openers who haven't answered staff and closes
+ *   tickets they've abandoned. Run by /api/cron/ticket-lifecycle.
+ * - getTicketSlas() measures first-response and resolution times, counting
+ *   only configured working hours, for the admin helpdesk.
+ *
+ * Only tickets where staff spoke last are pinged or auto-closed. A ticket
+ * waiting on staff is never closed on the opener; it shows up as an SLA
+ * breach instead.
+ */
+
+import { db } from '@/db';
+import { supportTickets, ticketMessages, ticketSettings } from '@/db/schema';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { createNotification } from '@/lib/notifications';
+import { sendTicketReplyEmail } from '@/lib/email';
+
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface WorkingHours {
+  timezone: string;
+  // Days that are missing are treated as closed
+  schedule: Partial<Record<Weekday, { start: string; end: string }>>;
+}
+
+export interface TicketLifecycleSettings {
+  staleHours: number | null;
+  autoCloseHours: number | null;
+  workingHours: WorkingHours | null;
+  slaFirstResponseHours: number | null;
+  slaResolutionHours: number | null;
+}
+
+export interface TicketSla {
+  // Working minutes so far, or until the milestone was reached
+  firstResponseMinutes: number;
+  resolutionMinutes: number;
+  firstResponseBreached: boolean;
+  resolutionBreached: boolean;
+  awaitingFirstResponse: boolean;
+}
+
+interface TicketActivity {
+  lastMessageAt: Date | null;
+  lastFromStaff: boolean;
+  firstStaffReplyAt: Date | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const ACTIVE_STATUSES = ['open', 'in_progress', 'waiting'] as const;
+
+// =============================================================================
+// SETTINGS
+// =============================================================================
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate working hours from JSON or a request body. Returns null for
+ * "always open" and throws with a readable message if it's malformed.
+ */
+export function parseWorkingHours(value: unknown): WorkingHours | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  const raw = typeof value === 'string' ? JSON.parse(value) : value;
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Working hours must be an object');
+  }
+
+  const { timezone, schedule } = raw as { timezone?: unknown; schedule?: unknown };
+  if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+    throw new Error('Working hours need a valid IANA timezone, e.g. "Europe/London"');
+  }
+
+  const parsed: WorkingHours['schedule'] = {};
+  for (const day of WEEKDAYS) {
+    const window = (schedule as any)?.[day];
+    if (!window) continue;
+    if (!TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end)) {
+      throw new Error(`Working hours for ${day} must use HH:MM times`);
+    }
+    if (toMinutes(window.end) <= toMinutes(window.start)) {
+      throw new Error(`Working hours for ${day} must end after they start`);
+    }
+    parsed[day] = { start: window.start, end: window.end };
+  }
+
+  if (Object.keys(parsed).length === 0) {
+    throw new Error('Working hours need at least one working day');
+  }
+
+  return { timezone, schedule: parsed };
+}
+
+/**
+ * The ticket_settings row for the configured Discord guild, falling back to
+ * the first row for website-only installs
+ */
+async function getTicketSettingsRow() {
+  const { getDiscordTicketSettings } = await import('@/lib/discord-tickets');
+  const { guildId } = await getDiscordTicketSettings();
+
+  if (guildId) {
+    const [row] = await db.select().from(ticketSettings).where(eq(ticketSettings.guildId, guildId));
+    if (row) return { row, guildId };
+  }
+
+  const [row] = await db.select().from(ticketSettings).limit(1);
+  return { row: row || null, guildId: guildId || 'website' };
+}
+
+export async function getTicketLifecycleSettings(): Promise<TicketLifecycleSettings> {
+  const { row } = await getTicketSettingsRow();
+
+  let workingHours: WorkingHours | null = null;
+  try {
+    workingHours = parseWorkingHours(row?.workingHours);
+  } catch (error: any) {
+    console.error('Ignoring invalid ticket working hours:', error.message);
+  }
+
+  return {
+    staleHours: row?.staleHours || null,
+    autoCloseHours: row?.autoCloseHours || null,
+    workingHours,
+    slaFirstResponseHours: row?.slaFirstResponseHours || null,
+    slaResolutionHours: row?.slaResolutionHours || null,
+  };
+}
+
+export async function saveTicketLifecycleSettings(settings: TicketLifecycleSettings): Promise<void> {
+  const { row, guildId } = await getTicketSettingsRow();
+  const values = {
+    staleHours: settings.staleHours,
+    autoCloseHours: settings.autoCloseHours,
+    workingHours: settings.workingHours ? JSON.stringify(settings.workingHours) : null,
+    slaFirstResponseHours: settings.slaFirstResponseHours,
+    slaResolutionHours: settings.slaResolutionHours,
+  };
+
+  if (row) {
+    await db
+      .update(ticketSettings)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(ticketSettings.id, row.id));
+  } else {
+    await db.insert(ticketSettings).values({ guildId, ...values });
+  }
+}
+
+// =============================================================================
+// WORKING HOURS
+// =============================================================================
+
+/**
+ * Weekday and minutes past midnight for an instant in the given timezone
+ */
+function getLocalTime(date: Date, timezone: string): { day: Weekday; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((part) => part.type === type)?.value || '0';
+  const day = get('weekday').toLowerCase().slice(0, 3) as Weekday;
+  const minutes = Number(get('hour')) * 60 + Number(get('minute')) + Number(get('second')) / 60;
+
+  return { day, minutes };
+}
+
+/**
+ * Minutes between two instants that fall inside working hours. Without
+ * working hours configured every minute counts.
+ */
+export function workingMinutesBetween(start: Date, end: Date, hours: WorkingHours | null): number {
+  const totalMs = end.getTime() - start.getTime();
+  if (totalMs <= 0) return 0;
+  if (!hours) return totalMs / 60000;
+
+  let cursor = start.getTime();
+  let minutes = 0;
+
+  // Each iteration either consumes a working window or skips to the next
+  // one, so this is bounded by roughly two steps per day
+  while (cursor < end.getTime()) {
+    const local = getLocalTime(new Date(cursor), hours.timezone);
+    const window = hours.schedule[local.day];
+    const remaining = (end.getTime() - cursor) / 60000;
+
+    if (window && local.minutes >= toMinutes(window.start) && local.minutes < toMinutes(window.end)) {
+      const step = Math.min(toMinutes(window.end) - local.minutes, remaining);
+      minutes += step;
+      cursor += step * 60000;
+    } else if (window && local.minutes < toMinutes(window.start)) {
+      cursor += (toMinutes(window.start) - local.minutes) * 60000;
+    } else {
+      // Jump to local midnight
+      cursor += Math.max(1440 - local.minutes, 1) * 60000;
+    }
+  }
+
+  return minutes;
+}
+
+// =============================================================================
+// SLA
+// =============================================================================
+
+/**
+ * Last human message and first staff reply per ticket. System messages
+ * (closures, reminders) don't count as activity.
+ */
+async function getTicketActivity(ticketIds: number[]): Promise<Map<number, TicketActivity>> {
+  const activity = new Map<number, TicketActivity>();
+  if (ticketIds.length === 0) return activity;
+
+  const messages = await db
+    .select({
+      ticketId: ticketMessages.ticketId,
+      isStaffReply: ticketMessages.isStaffReply,
+      createdAt: ticketMessages.createdAt,
+    })
+    .from(ticketMessages)
+    .where(and(
+      inArray(ticketMessages.ticketId, ticketIds),
+      eq(ticketMessages.isSystemMessage, false)
+    ))
+    .orderBy(asc(ticketMessages.createdAt), asc(ticketMessages.id));
+
+  for (const message of messages) {
+    const entry = activity.get(message.ticketId) || { lastMessageAt: null, lastFromStaff: false, firstStaffReplyAt: null };
+    entry.lastMessageAt = message.createdAt;
+    entry.lastFromStaff = !!message.isStaffReply;
+    if (message.isStaffReply && !entry.firstStaffReplyAt) {
+      entry.firstStaffReplyAt = message.createdAt;
+    }
+    activity.set(message.ticketId, entry);
+  }
+
+  return activity;
+}
+
+function computeSla(
+  ticket: { createdAt: Date; closedAt: Date | null; firstResponseAt: Date | null },
+  activity: TicketActivity | undefined,
+  settings: TicketLifecycleSettings,
+  now: Date
+): TicketSla {
+  const createdAt = new Date(ticket.createdAt);
+  const firstResponseAt = activity?.firstStaffReplyAt || ticket.firstResponseAt;
+  const resolvedAt = ticket.closedAt ? new Date(ticket.closedAt) : now;
+
+  const firstResponseMinutes = workingMinutesBetween(createdAt, firstResponseAt ? new Date(firstResponseAt) : resolvedAt, settings.workingHours);
+  const resolutionMinutes = workingMinutesBetween(createdAt, resolvedAt, settings.workingHours);
+
+  return {
+    firstResponseMinutes: Math.round(firstResponseMinutes),
+    resolutionMinutes: Math.round(resolutionMinutes),
+    firstResponseBreached: !!settings.slaFirstResponseHours && firstResponseMinutes > settings.slaFirstResponseHours * 60,
+    resolutionBreached: !!settings.slaResolutionHours && resolutionMinutes > settings.slaResolutionHours * 60,
+    awaitingFirstResponse: !firstResponseAt && !ticket.closedAt,
+  };
+}
+
+/**
+ * SLA timings for a set of tickets, keyed by ticket ID
+ */
+export async function getTicketSlas(ticketIds: number[]): Promise<Record<number, TicketSla>> {
+  if (ticketIds.length === 0) return {};
+
+  const settings = await getTicketLifecycleSettings();
+  const tickets = await db
+    .select({
+      id: supportTickets.id,
+      createdAt: supportTickets.createdAt,
+      closedAt: supportTickets.closedAt,
+      firstResponseAt: supportTickets.firstResponseAt,
+    })
+    .from(supportTickets)
+    .where(inArray(supportTickets.id, ticketIds));
+
+  const activity = await getTicketActivity(ticketIds);
+  const now = new Date();
+
+  const slas: Record<number, TicketSla> = {};
+  for (const ticket of tickets) {
+    slas[ticket.id] = computeSla(ticket, activity.get(ticket.id), settings, now);
+  }
+  return slas;
+}
+
+// =============================================================================
+// CRON
+// =============================================================================
+
+async function notifyOpener(ticket: any, title: string, message: string): Promise<void> {
+  if (ticket.userId) {
+    await createNotification({
+      userId: ticket.userId,
+      type: 'warning',
+      title,
+      message,
+      link: `/helpdesk/${ticket.id}`,
+    });
+  } else if (ticket.guestEmail && ticket.guestAccessToken) {
+    await sendTicketReplyEmail(ticket.guestEmail, ticket.guestName || 'there', ticket.id, ticket.guestAccessToken, 'Support Team', message);
+  }
+
+  try {
+    if (ticket.discordChannelId) {
+      const { pingTicketOpener } = await import('@/lib/discord-tickets');
+      await pingTicketOpener(ticket, message);
+    } else if (ticket.discordThreadId) {
+      const { sendTicketMessage } = await import('@/lib/discord-integration');
+      await sendTicketMessage(ticket.discordThreadId, message, 'Support Team', true);
+    }
+  } catch (error: any) {
+    console.error(`Failed to notify opener of ticket ${ticket.id} on Discord:`, error);
+  }
+}
+
+async function autoCloseTicket(ticket: any, autoCloseHours: number): Promise<void> {
+  const reason = `Automatically closed after ${autoCloseHours} hours without a reply`;
+
+  await db
+    .update(supportTickets)
+    .set({
+      status: 'closed' as const,
+      closedAt: new Date(),
+      closedReason: reason,
+      updatedAt: new Date(),
+    })
+    .where(eq(supportTickets.id, ticket.id));
+
+  await db.insert(ticketMessages).values({
+    ticketId: ticket.id,
+    message: reason,
+    isStaffReply: true,
+    isSystemMessage: true,
+  });
+
+  await notifyOpener(ticket, 'Ticket closed', `Your ticket "${ticket.subject}" was closed because we didn't hear back. Open a new ticket if you still need help.`);
+
+  try {
+    if (ticket.discordChannelId) {
+      const { deleteTicketChannel } = await import('@/lib/discord-tickets');
+      await deleteTicketChannel(ticket.id, ticket.discordChannelId, reason);
+    } else if (ticket.discordThreadId) {
+      const { closeTicketThread } = await import('@/lib/discord-integration');
+      await closeTicketThread(ticket.discordThreadId);
+    }
+  } catch (error: any) {
+    console.error(`Failed to close Discord side of ticket ${ticket.id}:`, error);
+  }
+}
+
+/**
+ * Ping openers of stale tickets and auto-close abandoned ones
+ */
+export async function runTicketLifecycle(): Promise<{ checked: number; reminded: number; closed: number }> {
+  const settings = await getTicketLifecycleSettings();
+  if (!settings.staleHours && !settings.autoCloseHours) {
+    return { checked: 0, reminded: 0, closed: 0 };
+  }
+
+  const tickets = await db
+    .select()
+    .from(supportTickets)
+    .where(inArray(supportTickets.status, [...ACTIVE_STATUSES]));
+
+  const activity = await getTicketActivity(tickets.map((ticket: any) => ticket.id));
+  const now = Date.now();
+  let reminded = 0;
+  let closed = 0;
+
+  for (const ticket of tickets) {
+    const entry = activity.get(ticket.id);
+    if (!entry?.lastFromStaff || !entry.lastMessageAt) continue;
+
+    const lastMessageAt = new Date(entry.lastMessageAt).getTime();
+    const idleHours = (now - lastMessageAt) / HOUR_MS;
+
+    try {
+      if (settings.autoCloseHours && idleHours >= settings.autoCloseHours) {
+        await autoCloseTicket(ticket, settings.autoCloseHours);
+        closed++;
+        continue;
+      }
+
+      const alreadyReminded = ticket.staleNotifiedAt && new Date(ticket.staleNotifiedAt).getTime() >= lastMessageAt;
+      if (settings.staleHours && idleHours >= settings.staleHours && !alreadyReminded) {
+        const closeNote = settings.autoCloseHours
+          ? ` It will be closed automatically in about ${Math.max(Math.round(settings.autoCloseHours - idleHours), 1)} hours if there's no response.`
+          : '';
+        const message = `This ticket is waiting on your reply.${closeNote}`;
+
+        await db.insert(ticketMessages).values({
+          ticketId: ticket.id,
+          message: `Stale reminder sent to the ticket opener.${closeNote}`,
+          isStaffReply: true,
+          isSystemMessage: true,
+        });
+        await db
+          .update(supportTickets)
+          .set({ staleNotifiedAt: new Date() })
+          .where(eq(supportTickets.id, ticket.id));
+
+        await notifyOpener(ticket, `Ticket #${ticket.number || ticket.id} needs your reply`, message);
+        reminded++;
+      }
+    } catch (error: any) {
+      console.error(`Ticket lifecycle failed for ticket ${ticket.id}:`, error);
+    }
+  }
+
+  return { checked: tickets.length, reminded, closed };
+}
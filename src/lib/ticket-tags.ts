@@ -0,0 +1,95 @@
+/**
+ * Ticket Tags (Canned Responses)
+ *
+ * One library of canned responses shared by the web helpdesk reply box and
+ * the Discord /tag command. Tag content may contain {variables} which are
+ * filled in from the ticket they're used on, so both sides render the same
+ * text and both count towards a tag's usageCount.
+ */
+
+import { db } from '@/db';
+import { supportTickets, ticketCategories, ticketTags, users } from '@/db/schema';
+import { and, asc, eq, isNull, or, sql } from 'drizzle-orm';
+
+export const TAG_VARIABLES = [
+  { key: 'ticket', description: 'Ticket number, e.g. #42' },
+  { key: 'username', description: 'Name of the person who opened the ticket' },
+  { key: 'category', description: 'Ticket category name' },
+  { key: 'subject', description: 'Ticket subject' },
+  { key: 'staff', description: 'Name of the staff member using the tag' },
+];
+
+type TicketRow = typeof supportTickets.$inferSelect;
+
+/**
+ * Replace {variable} placeholders. Unknown placeholders are left as-is so
+ * literal braces in a response survive.
+ */
+export function applyTagVariables(content: string, variables: Record<string, string>): string {
+  return content.replace(/\{(\w+)\}/g, (match, key: string) => {
+    const value = variables[key.toLowerCase()];
+    return value !== undefined ? value : match;
+  });
+}
+
+/**
+ * Variable values for a ticket
+ */
+export async function getTagVariables(ticket: TicketRow, staffName: string): Promise<Record<string, string>> {
+  let username = ticket.guestName || ticket.discordUsername || 'there';
+  if (ticket.userId) {
+    const [user] = await db.select({ username: users.username }).from(users).where(eq(users.id, ticket.userId));
+    if (user) username = user.username;
+  }
+
+  let category = ticket.category.charAt(0).toUpperCase() + ticket.category.slice(1);
+  if (ticket.categoryId) {
+    const [row] = await db.select({ name: ticketCategories.name }).from(ticketCategories).where(eq(ticketCategories.id, ticket.categoryId));
+    if (row) category = row.name;
+  }
+
+  return {
+    ticket: `#${ticket.number || ticket.id}`,
+    username,
+    category,
+    subject: ticket.subject,
+    staff: staffName,
+  };
+}
+
+/**
+ * Enabled tags usable on a ticket: unscoped tags plus those scoped to its
+ * category. Staff-only tags are left out for non-staff.
+ */
+export async function getTagsForCategory(categoryId: number | null, includeStaffOnly = true) {
+  const conditions = [
+    eq(ticketTags.enabled, true),
+    categoryId ? or(isNull(ticketTags.categoryId), eq(ticketTags.categoryId, categoryId)) : isNull(ticketTags.categoryId),
+  ];
+  if (!includeStaffOnly) conditions.push(eq(ticketTags.staffOnly, false));
+
+  return db
+    .select()
+    .from(ticketTags)
+    .where(and(...conditions))
+    .orderBy(asc(ticketTags.name));
+}
+
+/**
+ * Render a tag and count the use. Without a ticket (e.g. /tag outside a
+ * ticket channel) only {staff} is filled in. Returns null when the tag
+ * doesn't exist, is disabled or is scoped to another category.
+ */
+export async function renderTicketTag(tagId: number, ticket: TicketRow | null, staffName: string) {
+  const [tag] = await db.select().from(ticketTags).where(eq(ticketTags.id, tagId));
+  if (!tag || !tag.enabled) return null;
+  if (ticket && tag.categoryId && tag.categoryId !== ticket.categoryId) return null;
+
+  await db
+    .update(ticketTags)
+    .set({ usageCount: sql`${ticketTags.usageCount} + 1` })
+    .where(eq(ticketTags.id, tagId));
+
+  const variables = ticket ? await getTagVariables(ticket, staffName) : { staff: staffName };
+  return { tag, content: applyTagVariables(tag.content, variables) };
+}
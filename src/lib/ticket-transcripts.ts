@@ -0,0 +1,292 @@
+/**
+ * Ticket Transcripts
+ *
+ * Discord-backed tickets have every channel message copied into
+ * archived_messages before the channel is deleted (see archiveTicketChannel in
+ * discord-tickets.ts). Tickets that never had a channel fall back to their
+ * ticket_messages, so every ticket has a transcript of some kind.
+ */
+
+import { db } from '@/db';
+import { archivedMessages, supportTickets, ticketMessages, users } from '@/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { renderDiscordMarkdown } from '@/lib/discord-markdown';
+
+export interface TranscriptAttachment {
+  name: string;
+  url: string;
+  contentType: string | null;
+  size: number | null;
+}
+
+export interface TranscriptEmbed {
+  title?: string;
+  description?: string;
+  url?: string;
+  color?: number;
+  author?: { name: string };
+  fields?: { name: string; value: string }[];
+  footer?: { text: string };
+  image?: { url: string };
+  thumbnail?: { url: string };
+}
+
+export interface TranscriptMessage {
+  id: string;
+  authorId: string | null;
+  authorUsername: string;
+  authorAvatar: string | null;
+  content: string;
+  attachments: TranscriptAttachment[];
+  embeds: TranscriptEmbed[];
+  isBot: boolean;
+  isStaff: boolean;
+  isSystem: boolean;
+  createdAt: Date;
+}
+
+export interface TicketTranscript {
+  ticket: {
+    id: number;
+    number: number | null;
+    subject: string;
+    status: string | null;
+    priority: string | null;
+    category: string | null;
+    username: string;
+    createdAt: Date;
+    closedAt: Date | null;
+  };
+  // 'archive' when built from archived Discord messages
+  source: 'archive' | 'messages';
+  messages: TranscriptMessage[];
+}
+
+function parseJsonArray<T>(value: string | null): T[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * Full transcript for a ticket, or null if the ticket doesn't exist
+ */
+export async function getTicketTranscript(ticketId: number): Promise<TicketTranscript | null> {
+  const [ticket] = await db
+    .select({
+      id: supportTickets.id,
+      number: supportTickets.number,
+      subject: supportTickets.subject,
+      status: supportTickets.status,
+      priority: supportTickets.priority,
+      category: supportTickets.category,
+      createdAt: supportTickets.createdAt,
+      closedAt: supportTickets.closedAt,
+      linkedUsername: users.username,
+      discordUsername: supportTickets.discordUsername,
+    })
+    .from(supportTickets)
+    .leftJoin(users, eq(supportTickets.userId, users.id))
+    .where(eq(supportTickets.id, ticketId));
+
+  if (!ticket) return null;
+
+  const { linkedUsername, discordUsername, ...ticketInfo } = ticket;
+  const header = {
+    ...ticketInfo,
+    username: linkedUsername || discordUsername || 'Unknown',
+  };
+
+  const archived = await db
+    .select()
+    .from(archivedMessages)
+    .where(eq(archivedMessages.ticketId, ticketId))
+    .orderBy(asc(archivedMessages.createdAt), asc(archivedMessages.id));
+
+  if (archived.length > 0) {
+    return {
+      ticket: header,
+      source: 'archive',
+      messages: archived.map((msg: any) => ({
+        id: msg.id,
+        authorId: msg.authorId,
+        authorUsername: msg.authorUsername,
+        authorAvatar: msg.authorAvatar,
+        content: msg.content || '',
+        attachments: parseJsonArray<TranscriptAttachment>(msg.attachments),
+        embeds: parseJsonArray<TranscriptEmbed>(msg.embeds),
+        isBot: !!msg.isBot,
+        isStaff: false,
+        isSystem: false,
+        createdAt: msg.createdAt,
+      })),
+    };
+  }
+
+  const rows = await db
+    .select({
+      id: ticketMessages.id,
+      message: ticketMessages.message,
+      isStaffReply: ticketMessages.isStaffReply,
+      isSystemMessage: ticketMessages.isSystemMessage,
+      attachments: ticketMessages.attachments,
+      createdAt: ticketMessages.createdAt,
+      userId: ticketMessages.userId,
+      username: users.username,
+      avatar: users.avatar,
+      guestName: ticketMessages.guestName,
+      discordUserId: ticketMessages.discordUserId,
+      discordUsername: ticketMessages.discordUsername,
+      discordAvatar: ticketMessages.discordAvatar,
+    })
+    .from(ticketMessages)
+    .leftJoin(users, eq(ticketMessages.userId, users.id))
+    .where(eq(ticketMessages.ticketId, ticketId))
+    .orderBy(asc(ticketMessages.createdAt), asc(ticketMessages.id));
+
+  return {
+    ticket: header,
+    source: 'messages',
+    messages: rows.map((msg: any) => ({
+      id: String(msg.id),
+      authorId: msg.discordUserId || (msg.userId ? String(msg.userId) : null),
+      authorUsername: msg.username || msg.discordUsername || msg.guestName || 'Unknown',
+      authorAvatar: msg.avatar || msg.discordAvatar || null,
+      content: msg.message,
+      // ticket_messages only ever stored bare URLs
+      attachments: parseJsonArray<string>(msg.attachments).map((url) => ({
+        name: url.split('/').pop()?.split('?')[0] || 'attachment',
+        url,
+        contentType: null,
+        size: null,
+      })),
+      embeds: [],
+      isBot: false,
+      isStaff: !!msg.isStaffReply,
+      isSystem: !!msg.isSystemMessage,
+      createdAt: msg.createdAt,
+    })),
+  };
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+// Only allow http(s) links into the exported file
+function safeUrl(url: string | undefined): string {
+  return url && /^https?:\/\//i.test(url) ? escapeHtml(url) : '#';
+}
+
+function formatBytes(size: number | null): string {
+  if (!size) return '';
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function renderEmbedHtml(embed: TranscriptEmbed): string {
+  const color = typeof embed.color === 'number' ? `#${embed.color.toString(16).padStart(6, '0')}` : '#00d9ff';
+  let html = `<div class="embed" style="border-left-color:${color}">`;
+  if (embed.author?.name) html += `<div class="embed-author">${escapeHtml(embed.author.name)}</div>`;
+  if (embed.title) {
+    html += embed.url
+      ? `<a class="embed-title" href="${safeUrl(embed.url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(embed.title)}</a>`
+      : `<div class="embed-title">${escapeHtml(embed.title)}</div>`;
+  }
+  if (embed.description) html += `<div>${renderDiscordMarkdown(embed.description)}</div>`;
+  for (const field of embed.fields || []) {
+    html += `<div class="embed-field"><strong>${escapeHtml(field.name)}</strong><div>${renderDiscordMarkdown(field.value)}</div></div>`;
+  }
+  if (embed.image?.url) html += `<img class="embed-image" src="${safeUrl(embed.image.url)}" alt="" />`;
+  if (embed.footer?.text) html += `<div class="embed-footer">${escapeHtml(embed.footer.text)}</div>`;
+  return html + '</div>';
+}
+
+/**
+ * Render a transcript as a self-contained HTML document for download
+ */
+export function buildTranscriptHtml(transcript: TicketTranscript): string {
+  const { ticket, messages } = transcript;
+  const title = `Ticket #${ticket.number ?? ticket.id} - ${ticket.subject}`;
+
+  const body = messages.map((msg) => {
+    const badges = [
+      msg.isBot ? '<span class="badge bot">BOT</span>' : '',
+      msg.isStaff ? '<span class="badge staff">STAFF</span>' : '',
+      msg.isSystem ? '<span class="badge system">SYSTEM</span>' : '',
+    ].join('');
+    const avatar = msg.authorAvatar && /^https?:\/\//i.test(msg.authorAvatar)
+      ? `<img class="avatar" src="${safeUrl(msg.authorAvatar)}" alt="" />`
+      : `<div class="avatar">${escapeHtml(msg.authorUsername.charAt(0).toUpperCase())}</div>`;
+    const attachments = msg.attachments.map((file) =>
+      `<a class="attachment" href="${safeUrl(file.url)}" target="_blank" rel="noopener noreferrer">📎 ${escapeHtml(file.name)} ${formatBytes(file.size)}</a>`
+    ).join('');
+
+    return `<div class="message">${avatar}<div class="body">
+<div class="meta"><span class="author">${escapeHtml(msg.authorUsername)}</span>${badges}<time>${new Date(msg.createdAt).toISOString()}</time></div>
+<div class="content">${msg.content ? renderDiscordMarkdown(msg.content) : ''}</div>
+${msg.embeds.map(renderEmbedHtml).join('')}${attachments}
+</div></div>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+body { margin: 0; padding: 24px; background: #0b0f19; color: #e5e7eb; font-family: system-ui, sans-serif; font-size: 14px; }
+h1 { font-size: 20px; margin: 0 0 4px; }
+.summary { color: #9ca3af; margin-bottom: 24px; border-bottom: 1px solid #1f2937; padding-bottom: 16px; }
+.message { display: flex; gap: 12px; padding: 8px 0; }
+.avatar { width: 40px; height: 40px; border-radius: 50%; flex-shrink: 0; background: #1f2937; display: flex; align-items: center; justify-content: center; font-weight: bold; }
+.body { min-width: 0; flex: 1; }
+.meta { display: flex; gap: 8px; align-items: center; }
+.author { font-weight: 600; }
+time { color: #6b7280; font-size: 12px; }
+.badge { font-size: 10px; padding: 1px 4px; border-radius: 3px; background: #5865f2; color: #fff; }
+.badge.staff { background: #a855f7; }
+.badge.system { background: #4b5563; }
+.content { white-space: pre-wrap; word-break: break-word; }
+.content code, .embed code { background: #1f2937; padding: 1px 4px; border-radius: 3px; }
+.content pre, .embed pre { background: #1f2937; padding: 8px; border-radius: 4px; overflow-x: auto; }
+a { color: #00d9ff; }
+.content span[class*="bg-neon"] { background: rgba(168, 85, 247, 0.3); padding: 0 2px; border-radius: 3px; }
+.content img { width: 20px; height: 20px; vertical-align: middle; }
+.embed { margin-top: 6px; padding: 8px 12px; border-left: 4px solid; border-radius: 4px; background: #111827; max-width: 520px; }
+.embed-author, .embed-footer { font-size: 12px; color: #9ca3af; }
+.embed-title { display: block; font-weight: 600; margin-bottom: 4px; }
+.embed-field { margin-top: 6px; }
+.embed-image { max-width: 100%; margin-top: 6px; border-radius: 4px; }
+.attachment { display: block; margin-top: 4px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div class="summary">
+Opened by ${escapeHtml(ticket.username)} on ${new Date(ticket.createdAt).toISOString()}
+${ticket.closedAt ? ` &middot; Closed ${new Date(ticket.closedAt).toISOString()}` : ''}
+&middot; ${messages.length} message(s)
+</div>
+${body}
+</body>
+</html>`;
+}
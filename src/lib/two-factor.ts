@@ -0,0 +1,241 @@
+/**
+ * Two-Factor Authentication (TOTP)
+ *
+ * RFC 6238 time-based one-time passwords compatible with Google Authenticator,
+ * Authy, 1Password, etc. Secrets are stored base32-encoded on the user row and
+ * recovery codes are stored as SHA-256 hashes so they can only be shown once.
+ */
+
+import { createHmac, createHash, randomBytes, timingSafeEqual } from 'crypto';
+import QRCode from 'qrcode';
+import { db } from '@/db';
+import { users } from '@/db/schema';
+import { and, eq, isNull, lt, or } from 'drizzle-orm';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // Accept codes from one step before/after to tolerate clock drift
+const RECOVERY_CODE_COUNT = 10;
+const ISSUER = 'Vonix Network';
+
+// =============================================================================
+// TOTP PRIMITIVES
+// =============================================================================
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[^A-Z2-7]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a new random base32 TOTP secret (160 bits)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/**
+ * Generate the TOTP code for a secret at a given time step
+ */
+export function generateTotpCode(secret: string, timeStep: number = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS)): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(timeStep));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * The time step a user-supplied TOTP code matches, or null if it matches none
+ * in the drift window
+ */
+function findTotpStep(secret: string, code: string): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+  for (let drift = -TOTP_WINDOW; drift <= TOTP_WINDOW; drift++) {
+    const expected = generateTotpCode(secret, currentStep + drift);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return currentStep + drift;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Verify a user-supplied TOTP code against a secret
+ */
+export function verifyTotpCode(secret: string, code: string): boolean {
+  return findTotpStep(secret, code) !== null;
+}
+
+/**
+ * Build the otpauth:// URI used by authenticator apps
+ */
+export function getOtpAuthUrl(secret: string, username: string): string {
+  const label = encodeURIComponent(`${ISSUER}:${username}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: 'SHA1',
+    digits: TOTP_DIGITS.toString(),
+    period: TOTP_PERIOD_SECONDS.toString(),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Render an otpauth URI as a PNG data URL for the enrollment screen
+ */
+export async function getOtpAuthQrCode(otpauthUrl: string): Promise<string> {
+  return QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 });
+}
+
+// =============================================================================
+// RECOVERY CODES
+// =============================================================================
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+}
+
+/**
+ * Generate a fresh set of recovery codes.
+ * Returns the plaintext codes (to show the user once) and their hashes (to store).
+ */
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes: string[] = [];
+  for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+    const raw = randomBytes(5).toString('hex');
+    codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+  }
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+function parseRecoveryHashes(stored: string | null | undefined): string[] {
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Count how many unused recovery codes a user has left
+ */
+export function countRecoveryCodes(stored: string | null | undefined): number {
+  return parseRecoveryHashes(stored).length;
+}
+
+// =============================================================================
+// DATABASE ACTIONS
+// =============================================================================
+
+/**
+ * Verify a second factor for a user, accepting either a TOTP code or a
+ * recovery code. Recovery codes are consumed on use, and a TOTP code is
+ * refused if its time step is not newer than the last one accepted.
+ */
+export async function verifyTwoFactor(
+  user: { id: number; twoFactorSecret: string | null; twoFactorRecoveryCodes?: string | null },
+  code: string
+): Promise<{ valid: boolean; usedRecoveryCode?: boolean }> {
+  if (!user.twoFactorSecret || !code) {
+    return { valid: false };
+  }
+
+  const step = findTotpStep(user.twoFactorSecret, code);
+  if (step !== null) {
+    // Conditional update so two requests racing with the same code can't both win
+    const claimed = await db
+      .update(users)
+      .set({ twoFactorLastStep: step })
+      .where(and(
+        eq(users.id, user.id),
+        or(isNull(users.twoFactorLastStep), lt(users.twoFactorLastStep, step))
+      ))
+      .returning({ id: users.id });
+    return { valid: claimed.length > 0 };
+  }
+
+  const hashes = parseRecoveryHashes(user.twoFactorRecoveryCodes);
+  const hashed = hashRecoveryCode(code);
+  const index = hashes.indexOf(hashed);
+
+  if (index === -1) {
+    return { valid: false };
+  }
+
+  hashes.splice(index, 1);
+  await db
+    .update(users)
+    .set({
+      twoFactorRecoveryCodes: JSON.stringify(hashes),
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, user.id));
+
+  return { valid: true, usedRecoveryCode: true };
+}
+
+/**
+ * Turn two-factor authentication off and wipe the stored secret and codes
+ */
+export async function disableTwoFactor(userId: number): Promise<void> {
+  await db
+    .update(users)
+    .set({
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorRecoveryCodes: null,
+      twoFactorLastStep: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, userId));
+}
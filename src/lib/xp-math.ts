@@ -14,6 +14,7 @@ export const XP_REWARDS = {
   SOCIAL_POST: 10,
   SOCIAL_COMMENT: 2,
   LIKE_RECEIVED: 1,
+  UPVOTE_RECEIVED: 2,
   REFERRAL: 100,
 };
 
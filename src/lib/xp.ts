@@ -1,7 +1,8 @@
 import { db } from '@/db';
-import { users, achievements, userAchievements, xpTransactions } from '@/db/schema';
-import { eq, and } from 'drizzle-orm';
-import { getLevelForXp, XP_CURVE_MULTIPLIER } from './xp-math';
+import { users, xpTransactions } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { getLevelForXp } from './xp-math';
+import { trackAchievementProgress } from './achievements';
 
 // Re-export math functions for convenience in server-side code
 export * from './xp-math';
@@ -53,56 +54,8 @@ export async function addWebsiteXp(
     })
     .where(eq(users.id, userId));
 
-  // 5. Check achievements (async, don't wait)
-  checkXpAchievements(userId, newLevel);
+  // 5. Check level/XP achievements (async, don't wait)
+  trackAchievementProgress(userId, 'level', 'total_xp');
 
   return { newLevel, totalXp };
 }
-
-/**
- * Checks if user unlocked any leveling achievements
- */
-async function checkXpAchievements(userId: number, level: number) {
-  // Find uncompleted leveling achievements
-  const levelingAchievements = await db.query.achievements.findMany({
-    where: eq(achievements.category, 'leveling')
-  });
-
-  for (const achievement of levelingAchievements) {
-    // Basic check: if requirement is a number (level)
-    const reqLevel = parseInt(achievement.requirement);
-    if (!isNaN(reqLevel) && level >= reqLevel) {
-      // Check if already completed
-      const existing = await db.query.userAchievements.findFirst({
-        where: and(
-          eq(userAchievements.userId, userId),
-          eq(userAchievements.achievementId, achievement.id)
-        )
-      });
-
-      if (!existing || !existing.completed) {
-        // Unlock!
-        if (existing) {
-          await db.update(userAchievements)
-            .set({ completed: true, completedAt: new Date(), progress: 100 })
-            .where(eq(userAchievements.id, existing.id));
-        } else {
-          await db.insert(userAchievements).values({
-            userId,
-            achievementId: achievement.id,
-            completed: true,
-            completedAt: new Date(),
-            progress: 100
-          });
-        }
-
-        // Award achievement XP bonus?
-        if ((achievement.xpReward || 0) > 0) {
-          // Recursive call, but strictly for achievement to avoid infinite loops
-          // Ideally handle this carefully, for now we just verify it exists
-          // console.log('Awarded achievement XP:', achievement.xpReward);
-        }
-      }
-    }
-  }
-}